@@ -35,6 +35,8 @@ public class DataCollectorService : BackgroundService
 
     private readonly DateTime _startTime = DateTime.UtcNow;
     private bool _lastM20State = false;
+    // 프로그램 실행 엣지 검출 (PROGRAM_START / PROGRAM_END 이벤트) — HOLD(1)는 실행 유지로 간주
+    private bool _programRunning = false;
     // alarmNo → AlarmInfo: raise 시 전체 정보를 보존, clear 시 category/typeCode 로그에 사용
     private readonly Dictionary<int, AlarmInfo> _activeAlarms = new();
 
@@ -310,6 +312,7 @@ public class DataCollectorService : BackgroundService
         var program = _dataReader.ReadProgramInfo();
         var feedrate = _dataReader.ReadFeedrate();
         var spindleSpeed = _dataReader.ReadSpindleSpeed();
+        var spindleLoad = _dataReader.ReadSpindleLoad();
         var absolutePos = _dataReader.ReadAbsolutePosition();
         var machinePos = _dataReader.ReadMachinePosition();
 
@@ -348,6 +351,7 @@ public class DataCollectorService : BackgroundService
                 ProgramNo = program != null ? $"O{program.CurrentProgram:D4}" : null,
                 Feedrate = feedrate ?? 0,
                 SpindleSpeed = spindleSpeed ?? 0,
+                SpindleLoad = spindleLoad,
                 PartsCount = partsCount,
                 PresetCount = presetCount,
                 CycleTime = cycleTime,
@@ -367,6 +371,38 @@ public class DataCollectorService : BackgroundService
 
         // MQTT 발행: 전용 스레드에서 블로킹으로 호출 (스레드 전환 방지)
         _mqttService.PublishTelemetryAsync(telemetry).GetAwaiter().GetResult();
+
+        if (status != null)
+            DetectProgramRunEdgeSync(status.Run, telemetry.Data.ProgramNo);
+    }
+
+    /// <summary>
+    /// 실행 상태 엣지 → PROGRAM_START / PROGRAM_END 이벤트 발행 (서버 생산실적 자동 기록용)
+    /// STOP(0) → START(2): 시작, 실행 중 → STOP(0): 종료
+    /// </summary>
+    private void DetectProgramRunEdgeSync(short run, string? programNo)
+    {
+        string? eventType = null;
+        if (!_programRunning && run == 2)
+        {
+            _programRunning = true;
+            eventType = "PROGRAM_START";
+        }
+        else if (_programRunning && run == 0)
+        {
+            _programRunning = false;
+            eventType = "PROGRAM_END";
+        }
+
+        if (eventType == null) return;
+
+        var eventMsg = new EventMessage
+        {
+            MachineId = _settings.MachineId,
+            EventType = eventType,
+            ProgramNo = programNo,
+        };
+        _mqttService.PublishEventAsync(eventMsg).GetAwaiter().GetResult();
     }
 
     private void CollectAndPublishAlarmsSync()
@@ -97,6 +97,7 @@ public class CommandHandler
                 "REWIND_PROGRAM"         => ExecuteRewind(command),
                 "REWIND"                 => ExecuteRewind(command),
                 "CREATE_BACKUP"          => await ExecuteCreateBackupAsync(command),
+                "RESTORE_PARAMETERS"     => ExecuteRestoreParameters(command),
                 "PING"                   => ExecutePing(command),
                 _ => CreateFailureResult(command, "UNKNOWN_COMMAND", $"알 수 없는 명령: {command.Command}")
             };
@@ -284,7 +285,9 @@ public class CommandHandler
 
     /// <summary>
     /// UPLOAD_PROGRAM: PC → CNC 프로그램 전송
-    /// params: { fileName: string, content: string }
+    /// params: { fileName: string, content: string, programNo?: string, overwrite?: bool }
+    /// overwrite=true (백업 복원): 기존 프로그램이 있으면 임시 O번호로 먼저 올린 뒤 기존 삭제 → 번호 변경
+    ///   업로드 / 삭제 실패 시 원본 유지, 삭제 후 번호 변경 실패 시에만 ORIGINAL_AT_RISK (내용은 임시 번호에 남음)
     /// </summary>
     private async Task<CommandResultMessage> ExecuteUploadProgramAsync(CommandMessage command)
     {
@@ -300,6 +303,21 @@ public class CommandHandler
         _logger.LogInformation("UPLOAD_PROGRAM: {FileName} ({Bytes} bytes)",
             fileName, content.Length);
 
+        if (command.Params.TryGetValue("overwrite", out var overwriteObj)
+            && bool.TryParse(overwriteObj?.ToString(), out bool overwrite) && overwrite)
+        {
+            command.Params.TryGetValue("programNo", out var programNoObj);
+            string programNoStr = programNoObj?.ToString() ?? "";
+            if (!int.TryParse(programNoStr.TrimStart('O', 'o'), out int existingNo))
+                return CreateFailureResult(command, "INVALID_PARAMS", $"O번호를 파싱할 수 없습니다: {programNoStr}");
+
+            var programs = _dataReader.ListPrograms();
+            if (programs == null)
+                return CreateFailureResult(command, "LIST_FAILED", "CNC 프로그램 목록을 읽을 수 없습니다.");
+            if (programs.Any(p => p.Number == existingNo))
+                return await ReplaceProgramAsync(command, fileName, content, existingNo, programs);
+        }
+
         bool success = await _dataReader.UploadProgramAsync(content);
         if (!success)
             return CreateFailureResult(command, "UPLOAD_FAILED", "CNC에 프로그램 전송이 실패했습니다.");
@@ -313,6 +331,57 @@ public class CommandHandler
         };
     }
 
+    // 복원 임시 O번호 후보 (O9000 번대는 매크로 / 보호 프로그램이 많아 제외)
+    private const int RestoreTempProgramMax = 8999;
+    private const int RestoreTempProgramMin = 8000;
+
+    /// <summary>
+    /// 기존 프로그램 교체: 임시 번호 업로드 → 기존 삭제 → 임시 번호를 기존 번호로 변경
+    /// </summary>
+    private async Task<CommandResultMessage> ReplaceProgramAsync(
+        CommandMessage command, string fileName, string content, int existingNo, List<ProgramDirectoryEntry> programs)
+    {
+        var used = programs.Select(p => p.Number).ToHashSet();
+        int tempNo = Enumerable.Range(RestoreTempProgramMin, RestoreTempProgramMax - RestoreTempProgramMin + 1)
+                               .Reverse()
+                               .FirstOrDefault(n => !used.Contains(n));
+        if (tempNo == 0)
+            return CreateFailureResult(command, "NO_TEMP_PROGRAM_NO",
+                $"임시 O번호(O{RestoreTempProgramMin}~O{RestoreTempProgramMax})가 모두 사용 중입니다. 원본 O{existingNo:D4}는 유지됩니다.");
+
+        string staged = System.Text.RegularExpressions.Regex.Replace(
+            content, @"^(\s*%?\s*)O\d+", $"${{1}}O{tempNo:D4}",
+            System.Text.RegularExpressions.RegexOptions.IgnoreCase);
+        if (staged == content)
+            return CreateFailureResult(command, "INVALID_PARAMS", "프로그램 본문에서 O번호를 찾을 수 없습니다.");
+
+        if (!await _dataReader.UploadProgramAsync(staged))
+        {
+            _dataReader.DeleteProgram(tempNo);
+            return CreateFailureResult(command, "UPLOAD_FAILED",
+                $"CNC에 프로그램 전송이 실패했습니다. 원본 O{existingNo:D4}는 유지됩니다.");
+        }
+        if (!_dataReader.DeleteProgram(existingNo))
+        {
+            _dataReader.DeleteProgram(tempNo);
+            return CreateFailureResult(command, "DELETE_FAILED",
+                $"기존 프로그램 O{existingNo:D4} 삭제에 실패했습니다. (EDIT 모드 / 편집 잠금 확인) 원본은 유지됩니다.");
+        }
+        if (!_dataReader.RenameProgram(tempNo, existingNo))
+            return CreateFailureResult(command, "ORIGINAL_AT_RISK",
+                $"O{existingNo:D4} 삭제 후 번호 변경에 실패했습니다. 복원 내용은 O{tempNo:D4}에 있습니다.");
+
+        _logger.LogInformation("UPLOAD_PROGRAM: O{ProgramNo:D4} replaced via O{TempNo:D4}", existingNo, tempNo);
+
+        return new CommandResultMessage
+        {
+            MachineId     = _settings.MachineId,
+            CorrelationId = command.CorrelationId,
+            Status        = "success",
+            Result        = new { fileName, size = content.Length, uploaded = true, replaced = true },
+        };
+    }
+
     /// <summary>
     /// DOWNLOAD_PROGRAM: CNC → PC 프로그램 수신
     /// params: { fileName: string }  (fileName = "O0001" or "O0001.nc")
@@ -585,7 +654,8 @@ public class CommandHandler
 
     /// <summary>
     /// CREATE_BACKUP: CNC 프로그램을 ZIP으로 묶어 서버에 업로드
-    /// params: { type: PROGRAM|FULL, backupId, fileName }
+    /// params: { type: PROGRAM|FULL, backupId, fileName, uploadToken }
+    /// - uploadToken: 업로드 인증 (X-Upload-Token 헤더, 백업별 1회용)
     /// - EDIT 모드: 실제 프로그램 내용 포함
     /// - AUTO 모드: 프로그램 번호 목록만 포함
     /// </summary>
@@ -594,11 +664,13 @@ public class CommandHandler
         string backupId  = command.CorrelationId ?? $"backup-{DateTime.UtcNow:yyyyMMddHHmmss}";
         string backupType = "FULL";
         string fileName   = $"{_settings.MachineId}_FULL_{DateTime.UtcNow:yyyy-MM-ddTHH-mm-ss}Z.zip";
+        string? uploadToken = null;
 
         if (command.Params != null)
         {
             if (command.Params.TryGetValue("type",     out var tObj) && tObj != null) backupType = tObj.ToString()!.ToUpper();
             if (command.Params.TryGetValue("fileName", out var fObj) && fObj != null) fileName   = fObj.ToString()!;
+            if (command.Params.TryGetValue("uploadToken", out var uObj) && uObj != null) uploadToken = uObj.ToString();
         }
 
         _logger.LogInformation("CREATE_BACKUP start: type={Type} id={Id}", backupType, backupId);
@@ -611,7 +683,13 @@ public class CommandHandler
         bool editMode = status?.Edit == 1;
         _logger.LogInformation("CREATE_BACKUP: {Count} programs, editMode={Edit}", programs.Count, editMode);
 
-        // 3. ZIP 생성 (FOCAS 스레드에서 동기 처리)
+        // 3. 파라미터 덤프 (PARAMETER / FULL — 백업 비교용)
+        string? parameterText = backupType is "PARAMETER" or "FULL" ? _dataReader.TryReadParameterText() : null;
+        int parameterCount = parameterText == null
+            ? 0
+            : parameterText.Split('\n').Count(l => l.TrimStart().StartsWith('N'));
+
+        // 4. ZIP 생성 (FOCAS 스레드에서 동기 처리)
         byte[] zipBytes;
         using (var ms = new MemoryStream())
         {
@@ -629,9 +707,18 @@ public class CommandHandler
                         createdAt   = DateTime.UtcNow.ToString("o"),
                         editMode,
                         programCount = programs.Count,
+                        parameterCount,
                     }));
                 }
 
+                // parameters.txt (FANUC 파라미터 펀치 포맷)
+                if (parameterText != null)
+                {
+                    var paramEntry = zip.CreateEntry("parameters.txt");
+                    using var w = new StreamWriter(paramEntry.Open());
+                    w.Write(parameterText);
+                }
+
                 // program_list.txt
                 var listEntry = zip.CreateEntry("program_list.txt");
                 using (var w = new StreamWriter(listEntry.Open()))
@@ -664,13 +751,14 @@ public class CommandHandler
             zipBytes = ms.ToArray();
         }
 
-        // 4. 서버 HTTP 업로드 (FOCAS 스레드와 무관 — await OK)
+        // 5. 서버 HTTP 업로드 (FOCAS 스레드와 무관 — await OK)
         string serverUrl = _settings.Server?.BaseUrl ?? "http://localhost:3000";
         try
         {
             using var http = new HttpClient { Timeout = TimeSpan.FromSeconds(60) };
             using var form = new MultipartFormDataContent();
             form.Add(new ByteArrayContent(zipBytes), "file", fileName);
+            if (uploadToken != null) http.DefaultRequestHeaders.Add("X-Upload-Token", uploadToken);
             var resp = await http.PostAsync($"{serverUrl}/api/backup/{backupId}/upload", form);
             resp.EnsureSuccessStatusCode();
             _logger.LogInformation("CREATE_BACKUP: uploaded {Bytes} bytes to server", zipBytes.Length);
@@ -692,11 +780,39 @@ public class CommandHandler
                 fileName,
                 fileSize     = zipBytes.Length,
                 programCount = programs.Count,
+                parameterCount,
                 editMode,
             },
         };
     }
 
+    /// <summary>
+    /// RESTORE_PARAMETERS: 백업 parameters.txt → CNC 파라미터 기록
+    /// params: { content: string }  (FANUC 파라미터 펀치 포맷)
+    /// </summary>
+    private CommandResultMessage ExecuteRestoreParameters(CommandMessage command)
+    {
+        string? content = null;
+        if (command.Params != null && command.Params.TryGetValue("content", out var contentObj))
+            content = contentObj?.ToString();
+        if (string.IsNullOrWhiteSpace(content))
+            return CreateFailureResult(command, "INVALID_PARAMS", "content 파라미터가 필요합니다.");
+
+        _logger.LogInformation("RESTORE_PARAMETERS: {Bytes} bytes", content.Length);
+
+        if (!_dataReader.WriteParameterText(content))
+            return CreateFailureResult(command, "PARAMETER_WRITE_FAILED",
+                "파라미터 기록에 실패했습니다. (파라미터 쓰기 허용(PWE) / EDIT 모드 확인)");
+
+        return new CommandResultMessage
+        {
+            MachineId     = _settings.MachineId,
+            CorrelationId = command.CorrelationId,
+            Status        = "success",
+            Result        = new { restored = true, size = content.Length },
+        };
+    }
+
     private CommandResultMessage ExecutePing(CommandMessage command)
     {
         return new CommandResultMessage
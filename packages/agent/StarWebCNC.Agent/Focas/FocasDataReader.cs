@@ -149,6 +149,32 @@ public class FocasDataReader
         }
     }
 
+    /// <summary>
+    /// 스핀들 부하 읽기 (cnc_rdspmeter, 제1 스핀들 로드미터 %)
+    /// </summary>
+    public double? ReadSpindleLoad()
+    {
+        if (!_connection.IsConnected)
+            return null;
+
+        try
+        {
+            short number = 1;
+            var load = new Focas1.ODBSPLOAD();
+            short ret = Focas1.cnc_rdspmeter(_connection.Handle, 0, ref number, load);
+            if (ret != Focas1.EW_OK || number < 1)
+                return null;
+
+            var elm = load.spload1.spload;
+            return elm.data / Math.Pow(10, elm.dec);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error reading spindle load");
+            return null;
+        }
+    }
+
     // cnc_absolute/cnc_machine에 axis=-1을 사용할 때 length는
     // "4 + (실제 제어축수) * 4" 여야 함. MAX_AXIS*4 를 전달하면 EW_LENGTH 반환.
     // → cnc_rddynamic(ODBDY_1) 으로 교체: 구조체 크기는 항상 올바르고
@@ -1403,68 +1429,127 @@ public class FocasDataReader
 
         try
         {
-            string nc = PrepareNcContent(content);
-
             // 다운로드 시작 (type=0: CNC 메모리)
-            short ret = Focas1.cnc_dwnstart3(_connection.Handle, 0);
-            if (ret != Focas1.EW_OK)
-            {
-                _logger.LogWarning("cnc_dwnstart3 failed: {ErrorCode}", ret);
-                return false;
-            }
+            return WriteDownloadStream(0, PrepareNcContent(content), "program");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error uploading program to CNC");
+            return false;
+        }
+    }
 
-            // 256바이트 청크 단위 전송
-            const int ChunkSize = 256;
-            int offset  = 0;
-            int retries = 0;
-            const int MaxRetries = 200;
+    /// <summary>
+    /// 백업 복원용: 파라미터 펀치 포맷 텍스트를 CNC에 기록 (cnc_dwnstart3 type=2)
+    /// 파라미터 쓰기 허용(PWE) + EDIT / MDI 모드 필요 — 실패 시 false
+    /// </summary>
+    public bool WriteParameterText(string text)
+    {
+        if (!_connection.IsConnected)
+            return false;
 
-            while (offset < nc.Length)
-            {
-                int chunkLen = Math.Min(ChunkSize, nc.Length - offset);
-                string chunk = nc.Substring(offset, chunkLen);
-                int length   = chunkLen;
+        try
+        {
+            return WriteDownloadStream(2, PrepareNcContent(text), "parameters");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error writing parameters");
+            return false;
+        }
+    }
 
-                ret = Focas1.cnc_download3(_connection.Handle, ref length, chunk);
+    /// <summary>
+    /// 백업 복원용: 기존 프로그램 삭제 (덮어쓰기 전 호출)
+    /// 프로그램이 없으면(EW_DATA) 삭제할 대상이 없으므로 true
+    /// </summary>
+    public bool DeleteProgram(int programNo)
+    {
+        if (!_connection.IsConnected)
+            return false;
 
-                if (ret == Focas1.EW_OK)
-                {
-                    offset += length > 0 ? length : chunkLen;
-                    retries = 0;
-                }
-                else if (ret == 10) // EW_BUFFER: CNC 버퍼 꽉 참
-                {
-                    if (++retries >= MaxRetries)
-                    {
-                        _logger.LogWarning("cnc_download3: buffer full timeout");
-                        Focas1.cnc_dwnend3(_connection.Handle);
-                        return false;
-                    }
-                    Thread.Sleep(20); // FOCAS 스레드 유지
-                }
-                else
+        short ret = Focas1.cnc_delete(_connection.Handle, (short)programNo);
+        if (ret == Focas1.EW_OK || ret == 5) // 5 = EW_DATA: 프로그램 없음
+            return true;
+
+        _logger.LogWarning("cnc_delete failed: EW={ErrorCode} for O{ProgramNo:D4}", ret, programNo);
+        return false;
+    }
+
+    /// <summary>
+    /// 백업 복원용: 임시 O번호로 올린 프로그램을 원래 번호로 변경 (cnc_renameprog)
+    /// </summary>
+    public bool RenameProgram(int fromNo, int toNo)
+    {
+        if (!_connection.IsConnected)
+            return false;
+
+        short ret = Focas1.cnc_renameprog(_connection.Handle, fromNo, toNo);
+        if (ret == Focas1.EW_OK)
+            return true;
+
+        _logger.LogWarning("cnc_renameprog failed: EW={ErrorCode} O{From:D4} → O{To:D4}", ret, fromNo, toNo);
+        return false;
+    }
+
+    /// <summary>
+    /// cnc_dwnstart3(type) → 256바이트 청크 cnc_download3 → cnc_dwnend3
+    /// </summary>
+    private bool WriteDownloadStream(short type, string data, string label)
+    {
+        short ret = Focas1.cnc_dwnstart3(_connection.Handle, type);
+        if (ret != Focas1.EW_OK)
+        {
+            _logger.LogWarning("cnc_dwnstart3({Label}) failed: {ErrorCode}", label, ret);
+            return false;
+        }
+
+        // 256바이트 청크 단위 전송
+        const int ChunkSize = 256;
+        int offset  = 0;
+        int retries = 0;
+        const int MaxRetries = 200;
+
+        while (offset < data.Length)
+        {
+            int chunkLen = Math.Min(ChunkSize, data.Length - offset);
+            string chunk = data.Substring(offset, chunkLen);
+            int length   = chunkLen;
+
+            ret = Focas1.cnc_download3(_connection.Handle, ref length, chunk);
+
+            if (ret == Focas1.EW_OK)
+            {
+                offset += length > 0 ? length : chunkLen;
+                retries = 0;
+            }
+            else if (ret == 10) // EW_BUFFER: CNC 버퍼 꽉 참
+            {
+                if (++retries >= MaxRetries)
                 {
-                    _logger.LogWarning("cnc_download3 failed: {ErrorCode}", ret);
+                    _logger.LogWarning("cnc_download3: buffer full timeout for {Label}", label);
                     Focas1.cnc_dwnend3(_connection.Handle);
                     return false;
                 }
+                Thread.Sleep(20); // FOCAS 스레드 유지
             }
-
-            // 다운로드 종료
-            ret = Focas1.cnc_dwnend3(_connection.Handle);
-            if (ret != Focas1.EW_OK)
+            else
             {
-                _logger.LogWarning("cnc_dwnend3 failed: {ErrorCode}", ret);
+                _logger.LogWarning("cnc_download3 failed: {ErrorCode} for {Label}", ret, label);
+                Focas1.cnc_dwnend3(_connection.Handle);
                 return false;
             }
-
-            return true;
         }
-        catch (Exception ex)
+
+        // 다운로드 종료
+        ret = Focas1.cnc_dwnend3(_connection.Handle);
+        if (ret != Focas1.EW_OK)
         {
-            _logger.LogError(ex, "Error uploading program to CNC");
+            _logger.LogWarning("cnc_dwnend3({Label}) failed: {ErrorCode}", label, ret);
             return false;
         }
+
+        return true;
     }
 
     /// <summary>
@@ -1498,59 +1583,93 @@ public class FocasDataReader
                 throw new InvalidOperationException($"EW_FUNC:{ret}"); // CommandHandler에서 에러코드로 변환
             }
 
-            var sb      = new System.Text.StringBuilder(4096);
-            var buf     = new char[256];
-            int retries = 0;
-            const int MaxRetries = 500;
+            return ReadUploadStream($"O{programNo:D4}");
+        }
+        catch (InvalidOperationException)
+        {
+            throw; // CommandHandler에서 에러코드로 변환 (예: CNC_NOT_IN_EDIT_MODE)
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error downloading program O{ProgramNo:D4}", programNo);
+            return null;
+        }
+    }
 
-            while (true)
+    /// <summary>
+    /// 백업용: CNC 파라미터 전체를 펀치 포맷 텍스트로 수신 (cnc_upstart3 type=2)
+    /// 형식: "N01020A1P88A2P89" (번호 / 축 / 값) — 실패 시 null
+    /// </summary>
+    public string? TryReadParameterText()
+    {
+        if (!_connection.IsConnected)
+            return null;
+
+        try
+        {
+            short ret = Focas1.cnc_upstart3(_connection.Handle, 2, 0, 0);
+            if (ret != Focas1.EW_OK)
             {
-                int length = buf.Length;
-                ret = Focas1.cnc_upload3(_connection.Handle, ref length, buf);
+                _logger.LogWarning("cnc_upstart3(parameter) failed: EW={ErrorCode}", ret);
+                return null;
+            }
+            return ReadUploadStream("parameters");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error reading parameters");
+            return null;
+        }
+    }
 
-                if (ret == Focas1.EW_OK)
-                {
-                    if (length > 0)
-                        sb.Append(buf, 0, length);
+    /// <summary>
+    /// cnc_upstart3 이후 '%' ~ '%' 전체 수신 + cnc_upend3
+    /// </summary>
+    private string? ReadUploadStream(string label)
+    {
+        var sb      = new System.Text.StringBuilder(4096);
+        var buf     = new char[256];
+        int retries = 0;
+        const int MaxRetries = 500;
 
-                    retries = 0;
+        while (true)
+        {
+            int length = buf.Length;
+            short ret = Focas1.cnc_upload3(_connection.Handle, ref length, buf);
 
-                    // % で始まり % で終わる NC プログラム全体を受信したか確認
-                    string text     = sb.ToString();
-                    int firstPct    = text.IndexOf('%');
-                    int secondPct   = firstPct >= 0 ? text.IndexOf('%', firstPct + 1) : -1;
-                    if (secondPct >= 0)
-                        break;
-                }
-                else if (ret == 10) // EW_BUFFER: CNC 데이터 준비 중
-                {
-                    if (++retries >= MaxRetries)
-                    {
-                        _logger.LogWarning("cnc_upload3: timeout for O{ProgramNo:D4}", programNo);
-                        break;
-                    }
-                    Thread.Sleep(10); // FOCAS 스레드 유지 (Task.Delay 쓰면 ThreadPool로 이탈)
-                }
-                else
+            if (ret == Focas1.EW_OK)
+            {
+                if (length > 0)
+                    sb.Append(buf, 0, length);
+
+                retries = 0;
+
+                // % で始まり % で終わる データ全体を受信したか確認
+                string text     = sb.ToString();
+                int firstPct    = text.IndexOf('%');
+                int secondPct   = firstPct >= 0 ? text.IndexOf('%', firstPct + 1) : -1;
+                if (secondPct >= 0)
+                    break;
+            }
+            else if (ret == 10) // EW_BUFFER: CNC 데이터 준비 중
+            {
+                if (++retries >= MaxRetries)
                 {
-                    _logger.LogWarning("cnc_upload3 ended with: {ErrorCode}", ret);
+                    _logger.LogWarning("cnc_upload3: timeout for {Label}", label);
                     break;
                 }
+                Thread.Sleep(10); // FOCAS 스레드 유지 (Task.Delay 쓰면 ThreadPool로 이탈)
             }
+            else
+            {
+                _logger.LogWarning("cnc_upload3 ended with: {ErrorCode}", ret);
+                break;
+            }
+        }
 
-            Focas1.cnc_upend3(_connection.Handle);
+        Focas1.cnc_upend3(_connection.Handle);
 
-            return sb.Length > 0 ? sb.ToString() : null;
-        }
-        catch (InvalidOperationException)
-        {
-            throw; // CommandHandler에서 에러코드로 변환 (예: CNC_NOT_IN_EDIT_MODE)
-        }
-        catch (Exception ex)
-        {
-            _logger.LogError(ex, "Error downloading program O{ProgramNo:D4}", programNo);
-            return null;
-        }
+        return sb.Length > 0 ? sb.ToString() : null;
     }
 
     /// <summary>
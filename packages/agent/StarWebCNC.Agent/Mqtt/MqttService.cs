@@ -376,6 +376,7 @@ public class TelemetryData
     public string? ProgramNo { get; set; }
     public int Feedrate { get; set; }
     public int SpindleSpeed { get; set; }
+    public double? SpindleLoad { get; set; }   // 스핀들 부하 (%)
     public int PartsCount { get; set; }
     public int PresetCount { get; set; }
     public double CycleTime { get; set; }   // 초(seconds) 단위
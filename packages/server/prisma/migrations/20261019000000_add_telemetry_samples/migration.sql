@@ -0,0 +1,29 @@
+-- Migration: add_telemetry_samples
+-- Persists every agent telemetry sample into a TimescaleDB hypertable
+-- (partitioned by time) for history / trend queries
+
+CREATE EXTENSION IF NOT EXISTS timescaledb;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "telemetry_samples" (
+    "machine_id"    TEXT NOT NULL,
+    "time"          TIMESTAMPTZ(3) NOT NULL,
+    "run_state"     INTEGER NOT NULL,
+    "mode"          TEXT NOT NULL,
+    "program_no"    TEXT,
+    "feedrate"      DOUBLE PRECISION NOT NULL,
+    "spindle_speed" DOUBLE PRECISION NOT NULL,
+    "spindle_load"  DOUBLE PRECISION,
+    "parts_count"   INTEGER NOT NULL,
+
+    CONSTRAINT "telemetry_samples_pkey" PRIMARY KEY ("machine_id", "time"),
+    CONSTRAINT "telemetry_samples_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "telemetry_samples_time_idx" ON "telemetry_samples"("time");
+
+-- Hypertable (1일 단위 chunk)
+SELECT create_hypertable('telemetry_samples', 'time',
+    chunk_time_interval => INTERVAL '1 day',
+    if_not_exists => TRUE);
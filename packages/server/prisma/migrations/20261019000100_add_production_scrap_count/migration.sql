@@ -0,0 +1,4 @@
+-- Migration: add_production_scrap_count
+-- Adds scrap_count to production_logs for OEE quality (good = parts_count - scrap_count)
+
+ALTER TABLE "production_logs" ADD COLUMN IF NOT EXISTS "scrap_count" INTEGER NOT NULL DEFAULT 0;
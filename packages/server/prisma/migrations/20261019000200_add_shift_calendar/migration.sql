@@ -0,0 +1,66 @@
+-- Migration: add_shift_calendar
+-- Adds shift_patterns, shifts, planned_downtimes tables and machines.shift_pattern_id
+
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "PlannedDowntimeType" AS ENUM ('BREAK', 'MAINTENANCE', 'HOLIDAY', 'OTHER');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "shift_patterns" (
+    "id"          TEXT NOT NULL,
+    "name"        TEXT NOT NULL,
+    "description" TEXT,
+    "is_default"  BOOLEAN NOT NULL DEFAULT false,
+    "created_at"  TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at"  TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shift_patterns_pkey" PRIMARY KEY ("id")
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "shift_patterns_name_key" ON "shift_patterns"("name");
+
+CREATE TABLE IF NOT EXISTS "shifts" (
+    "id"           TEXT NOT NULL,
+    "pattern_id"   TEXT NOT NULL,
+    "name"         TEXT NOT NULL,
+    "start_time"   TEXT NOT NULL,
+    "end_time"     TEXT NOT NULL,
+    "days_of_week" INTEGER[] DEFAULT ARRAY[0, 1, 2, 3, 4, 5, 6]::INTEGER[],
+    "sort_order"   INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "shifts_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "shifts_pattern_id_fkey" FOREIGN KEY ("pattern_id")
+        REFERENCES "shift_patterns"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE INDEX IF NOT EXISTS "shifts_pattern_id_idx" ON "shifts"("pattern_id");
+
+CREATE TABLE IF NOT EXISTS "planned_downtimes" (
+    "id"           TEXT NOT NULL,
+    "pattern_id"   TEXT,
+    "machine_id"   TEXT,
+    "name"         TEXT NOT NULL,
+    "type"         "PlannedDowntimeType" NOT NULL DEFAULT 'BREAK',
+    "start_time"   TEXT,
+    "end_time"     TEXT,
+    "days_of_week" INTEGER[] DEFAULT ARRAY[0, 1, 2, 3, 4, 5, 6]::INTEGER[],
+    "start_at"     TIMESTAMP(3),
+    "end_at"       TIMESTAMP(3),
+    "created_at"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at"   TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "planned_downtimes_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "planned_downtimes_pattern_id_fkey" FOREIGN KEY ("pattern_id")
+        REFERENCES "shift_patterns"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "planned_downtimes_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE INDEX IF NOT EXISTS "planned_downtimes_pattern_id_idx" ON "planned_downtimes"("pattern_id");
+
+-- AlterTable
+ALTER TABLE "machines" ADD COLUMN IF NOT EXISTS "shift_pattern_id" TEXT;
+DO $$ BEGIN
+    ALTER TABLE "machines" ADD CONSTRAINT "machines_shift_pattern_id_fkey" FOREIGN KEY ("shift_pattern_id")
+        REFERENCES "shift_patterns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,53 @@
+-- Migration: add_downtime_events
+-- Adds downtime_reasons (reason tree) and downtime_events (auto-opened idle/alarm periods)
+
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "DowntimeTrigger" AS ENUM ('IDLE', 'ALARM');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "downtime_reasons" (
+    "id"         TEXT NOT NULL,
+    "parent_id"  TEXT,
+    "code"       TEXT NOT NULL,
+    "name"       TEXT NOT NULL,
+    "color"      TEXT,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "is_active"  BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "downtime_reasons_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "downtime_reasons_parent_id_fkey" FOREIGN KEY ("parent_id")
+        REFERENCES "downtime_reasons"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "downtime_reasons_code_key" ON "downtime_reasons"("code");
+CREATE INDEX IF NOT EXISTS "downtime_reasons_parent_id_idx" ON "downtime_reasons"("parent_id");
+
+CREATE TABLE IF NOT EXISTS "downtime_events" (
+    "id"           TEXT NOT NULL,
+    "machine_id"   TEXT NOT NULL,
+    "trigger"      "DowntimeTrigger" NOT NULL,
+    "started_at"   TIMESTAMP(3) NOT NULL,
+    "ended_at"     TIMESTAMP(3),
+    "duration"     INTEGER,
+    "run_state"    INTEGER NOT NULL,
+    "program_no"   TEXT,
+    "alarm_no"     INTEGER,
+    "reason_id"    TEXT,
+    "note"         TEXT,
+    "tagged_by_id" TEXT,
+    "tagged_at"    TIMESTAMP(3),
+
+    CONSTRAINT "downtime_events_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "downtime_events_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "downtime_events_reason_id_fkey" FOREIGN KEY ("reason_id")
+        REFERENCES "downtime_reasons"("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "downtime_events_tagged_by_id_fkey" FOREIGN KEY ("tagged_by_id")
+        REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+CREATE INDEX IF NOT EXISTS "downtime_events_machine_id_started_at_idx" ON "downtime_events"("machine_id", "started_at");
+CREATE INDEX IF NOT EXISTS "downtime_events_reason_id_idx" ON "downtime_events"("reason_id");
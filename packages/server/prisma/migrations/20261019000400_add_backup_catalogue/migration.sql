@@ -0,0 +1,39 @@
+-- Migration: add_backup_catalogue
+-- Persists CNC backup records (previously an in-memory Map) with checksum and retention state
+
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "BackupType" AS ENUM ('SRAM', 'PARAMETER', 'PROGRAM', 'FULL');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE "BackupStatus" AS ENUM ('PENDING', 'IN_PROGRESS', 'COMPLETED', 'FAILED');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "backups" (
+    "id"            TEXT NOT NULL,
+    "machine_id"    TEXT NOT NULL,
+    "type"          "BackupType" NOT NULL,
+    "status"        "BackupStatus" NOT NULL DEFAULT 'PENDING',
+    "file_name"     TEXT NOT NULL,
+    "file_path"     TEXT,
+    "file_size"     INTEGER NOT NULL DEFAULT 0,
+    "checksum"      TEXT,
+    "program_count" INTEGER,
+    "edit_mode"     BOOLEAN,
+    "error_message" TEXT,
+    "created_by_id" TEXT,
+    "created_at"    TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at"  TIMESTAMP(3),
+    "pruned_at"     TIMESTAMP(3),
+
+    CONSTRAINT "backups_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "backups_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "backups_created_by_id_fkey" FOREIGN KEY ("created_by_id")
+        REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+CREATE INDEX IF NOT EXISTS "backups_machine_id_type_created_at_idx" ON "backups"("machine_id", "type", "created_at");
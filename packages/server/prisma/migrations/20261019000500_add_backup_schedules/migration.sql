@@ -0,0 +1,36 @@
+-- Migration: add_backup_schedules
+-- Cron-style automatic backup schedules per machine / location group
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "backup_schedules" (
+    "id"                 TEXT NOT NULL,
+    "name"               TEXT NOT NULL,
+    "type"               "BackupType" NOT NULL,
+    "cron"               TEXT NOT NULL,
+    "machine_id"         TEXT,
+    "location"           TEXT,
+    "is_enabled"         BOOLEAN NOT NULL DEFAULT true,
+    "retry_interval_min" INTEGER NOT NULL DEFAULT 15,
+    "max_retries"        INTEGER NOT NULL DEFAULT 8,
+    "last_run_at"        TIMESTAMP(3),
+    "next_run_at"        TIMESTAMP(3),
+    "created_by_id"      TEXT NOT NULL,
+    "created_at"         TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at"         TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "backup_schedules_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "backup_schedules_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "backup_schedules_created_by_id_fkey" FOREIGN KEY ("created_by_id")
+        REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+CREATE INDEX IF NOT EXISTS "backup_schedules_is_enabled_next_run_at_idx" ON "backup_schedules"("is_enabled", "next_run_at");
+
+-- AlterTable
+ALTER TABLE "backups" ADD COLUMN IF NOT EXISTS "schedule_id" TEXT;
+
+DO $$ BEGIN
+    ALTER TABLE "backups" ADD CONSTRAINT "backups_schedule_id_fkey" FOREIGN KEY ("schedule_id")
+        REFERENCES "backup_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
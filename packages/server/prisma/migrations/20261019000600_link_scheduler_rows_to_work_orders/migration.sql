@@ -0,0 +1,13 @@
+-- Migration: link_scheduler_rows_to_work_orders
+-- Scheduler rows dispatched from a work order (producedQty / status sync on M20)
+
+-- AlterTable
+ALTER TABLE "scheduler_rows" ADD COLUMN IF NOT EXISTS "work_order_id" TEXT;
+
+CREATE INDEX IF NOT EXISTS "scheduler_rows_work_order_id_idx" ON "scheduler_rows"("work_order_id");
+
+DO $$ BEGIN
+    ALTER TABLE "scheduler_rows" ADD CONSTRAINT "scheduler_rows_work_order_id_fkey" FOREIGN KEY ("work_order_id")
+        REFERENCES "work_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,52 @@
+-- Migration: add_roles_and_permissions
+-- Named permissions grouped into editable roles, assignable per machine / location
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "roles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT[],
+    "base_role" "UserRole",
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "roles_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "roles_name_key" ON "roles"("name");
+CREATE UNIQUE INDEX IF NOT EXISTS "roles_base_role_key" ON "roles"("base_role");
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "role_assignments" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "role_id" TEXT NOT NULL,
+    "machine_id" TEXT,
+    "location" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "role_assignments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "role_assignments_user_id_idx" ON "role_assignments"("user_id");
+CREATE INDEX IF NOT EXISTS "role_assignments_role_id_idx" ON "role_assignments"("role_id");
+
+DO $$ BEGIN
+    ALTER TABLE "role_assignments" ADD CONSTRAINT "role_assignments_user_id_fkey" FOREIGN KEY ("user_id")
+        REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "role_assignments" ADD CONSTRAINT "role_assignments_role_id_fkey" FOREIGN KEY ("role_id")
+        REFERENCES "roles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "role_assignments" ADD CONSTRAINT "role_assignments_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
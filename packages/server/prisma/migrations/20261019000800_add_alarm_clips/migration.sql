@@ -0,0 +1,35 @@
+-- Migration: add_alarm_clips
+-- Camera clips (pre/post alarm MP4 + snapshot) linked to alarms
+
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "ClipStatus" AS ENUM ('RECORDING', 'READY', 'FAILED', 'EXPIRED');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "alarm_clips" (
+    "id" TEXT NOT NULL,
+    "alarm_id" TEXT NOT NULL,
+    "camera_id" TEXT NOT NULL,
+    "camera_name" TEXT NOT NULL,
+    "status" "ClipStatus" NOT NULL DEFAULT 'RECORDING',
+    "file_path" TEXT,
+    "snapshot_path" TEXT,
+    "started_at" TIMESTAMP(3),
+    "ended_at" TIMESTAMP(3),
+    "size_bytes" INTEGER,
+    "error_message" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "alarm_clips_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "alarm_clips_alarm_id_idx" ON "alarm_clips"("alarm_id");
+CREATE INDEX IF NOT EXISTS "alarm_clips_created_at_idx" ON "alarm_clips"("created_at");
+
+DO $$ BEGIN
+    ALTER TABLE "alarm_clips" ADD CONSTRAINT "alarm_clips_alarm_id_fkey" FOREIGN KEY ("alarm_id")
+        REFERENCES "alarms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,32 @@
+-- Migration: add_cameras
+-- Camera configs move from GlobalSetting 'camera.configs' JSON into a table with encrypted credentials.
+-- Existing JSON rows are imported (and the plain-text setting removed) by the server on startup.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "cameras" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ip_address" TEXT NOT NULL,
+    "rtsp_port" INTEGER NOT NULL DEFAULT 554,
+    "stream_path" TEXT NOT NULL DEFAULT '',
+    "username" TEXT NOT NULL DEFAULT '',
+    "password_enc" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "machine_id" TEXT,
+    "default_zoom" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "health_status" TEXT,
+    "health_latency_ms" INTEGER,
+    "health_error" TEXT,
+    "health_checked_at" TIMESTAMP(3),
+    "last_online_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cameras_pkey" PRIMARY KEY ("id")
+);
+
+DO $$ BEGIN
+    ALTER TABLE "cameras" ADD CONSTRAINT "cameras_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,55 @@
+-- Migration: add_transfer_jobs
+-- Persisted PC <-> CNC program transfer jobs (queued -> sending -> acknowledged -> verified / failed)
+
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "TransferDirection" AS ENUM ('PC_TO_CNC', 'CNC_TO_PC');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE "TransferJobStatus" AS ENUM ('QUEUED', 'SENDING', 'ACKNOWLEDGED', 'VERIFIED', 'FAILED');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "transfer_jobs" (
+    "id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "direction" "TransferDirection" NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "program_no" TEXT,
+    "conflict_policy" TEXT NOT NULL DEFAULT 'OVERWRITE',
+    "status" "TransferJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "correlation_id" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 3,
+    "size_bytes" INTEGER,
+    "error_code" TEXT,
+    "error_message" TEXT,
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sent_at" TIMESTAMP(3),
+    "acknowledged_at" TIMESTAMP(3),
+    "verified_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "transfer_jobs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "transfer_jobs_correlation_id_key" ON "transfer_jobs"("correlation_id");
+CREATE INDEX IF NOT EXISTS "transfer_jobs_machine_id_created_at_idx" ON "transfer_jobs"("machine_id", "created_at");
+CREATE INDEX IF NOT EXISTS "transfer_jobs_status_idx" ON "transfer_jobs"("status");
+
+DO $$ BEGIN
+    ALTER TABLE "transfer_jobs" ADD CONSTRAINT "transfer_jobs_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "transfer_jobs" ADD CONSTRAINT "transfer_jobs_created_by_id_fkey" FOREIGN KEY ("created_by_id")
+        REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,14 @@
+-- Migration: add_transfer_verification
+-- Optional read-back verification for program transfers (normalized checksum compare + diff on mismatch)
+-- and transfers from the scheduler DNC repository.
+
+-- AlterEnum
+ALTER TYPE "TransferJobStatus" ADD VALUE IF NOT EXISTS 'MISMATCHED' BEFORE 'FAILED';
+
+-- AlterTable
+ALTER TABLE "transfer_jobs" ADD COLUMN IF NOT EXISTS "root" TEXT NOT NULL DEFAULT 'TRANSFER_SHARE';
+ALTER TABLE "transfer_jobs" ADD COLUMN IF NOT EXISTS "path_key" TEXT;
+ALTER TABLE "transfer_jobs" ADD COLUMN IF NOT EXISTS "read_back" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "transfer_jobs" ADD COLUMN IF NOT EXISTS "checksum" TEXT;
+ALTER TABLE "transfer_jobs" ADD COLUMN IF NOT EXISTS "cnc_checksum" TEXT;
+ALTER TABLE "transfer_jobs" ADD COLUMN IF NOT EXISTS "verify_diff" JSONB;
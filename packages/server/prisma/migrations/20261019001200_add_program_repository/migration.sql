@@ -0,0 +1,84 @@
+-- Migration: add_program_repository
+-- NC program repository: per-file revisions with author / message, check-out lock and draft -> approved -> released states
+
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "ProgramStatus" AS ENUM ('DRAFT', 'APPROVED', 'RELEASED');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "programs" (
+    "id" TEXT NOT NULL,
+    "root" TEXT NOT NULL,
+    "location" TEXT NOT NULL DEFAULT '',
+    "file_name" TEXT NOT NULL,
+    "machine_id" TEXT,
+    "program_no" TEXT,
+    "status" "ProgramStatus" NOT NULL DEFAULT 'DRAFT',
+    "head_revision" INTEGER NOT NULL DEFAULT 0,
+    "checked_out_by_id" TEXT,
+    "checked_out_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "programs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "program_revisions" (
+    "id" TEXT NOT NULL,
+    "program_id" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    "message" TEXT NOT NULL DEFAULT '',
+    "author_id" TEXT,
+    "approved_by_id" TEXT,
+    "approved_at" TIMESTAMP(3),
+    "released_by_id" TEXT,
+    "released_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "program_revisions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "programs_root_location_file_name_key" ON "programs"("root", "location", "file_name");
+CREATE INDEX IF NOT EXISTS "programs_machine_id_program_no_idx" ON "programs"("machine_id", "program_no");
+CREATE UNIQUE INDEX IF NOT EXISTS "program_revisions_program_id_revision_key" ON "program_revisions"("program_id", "revision");
+
+DO $$ BEGIN
+    ALTER TABLE "programs" ADD CONSTRAINT "programs_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "programs" ADD CONSTRAINT "programs_checked_out_by_id_fkey" FOREIGN KEY ("checked_out_by_id")
+        REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "program_revisions" ADD CONSTRAINT "program_revisions_program_id_fkey" FOREIGN KEY ("program_id")
+        REFERENCES "programs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "program_revisions" ADD CONSTRAINT "program_revisions_author_id_fkey" FOREIGN KEY ("author_id")
+        REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "program_revisions" ADD CONSTRAINT "program_revisions_approved_by_id_fkey" FOREIGN KEY ("approved_by_id")
+        REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "program_revisions" ADD CONSTRAINT "program_revisions_released_by_id_fkey" FOREIGN KEY ("released_by_id")
+        REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,43 @@
+-- Migration: add_program_library
+-- Cross-machine part-program library (root LIBRARY, keyed by product code) with template / machine compatibility
+-- and per-machine deployment records
+
+-- AlterTable
+ALTER TABLE "programs" ADD COLUMN IF NOT EXISTS "compatible_templates" TEXT[] DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "programs" ADD COLUMN IF NOT EXISTS "compatible_machines" TEXT[] DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "transfer_jobs" ADD COLUMN IF NOT EXISTS "revision" INTEGER;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "program_deployments" (
+    "id" TEXT NOT NULL,
+    "program_id" TEXT NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "program_no" TEXT,
+    "transfer_job_id" TEXT,
+    "deployed_by_id" TEXT,
+    "deployed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "program_deployments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "program_deployments_program_id_machine_id_key" ON "program_deployments"("program_id", "machine_id");
+CREATE INDEX IF NOT EXISTS "program_deployments_machine_id_idx" ON "program_deployments"("machine_id");
+
+DO $$ BEGIN
+    ALTER TABLE "program_deployments" ADD CONSTRAINT "program_deployments_program_id_fkey" FOREIGN KEY ("program_id")
+        REFERENCES "programs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "program_deployments" ADD CONSTRAINT "program_deployments_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "program_deployments" ADD CONSTRAINT "program_deployments_deployed_by_id_fkey" FOREIGN KEY ("deployed_by_id")
+        REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,33 @@
+-- Migration: add_offset_changes
+-- Wear offset change history (value before / after each write, revert link)
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "offset_changes" (
+    "id" TEXT NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "path" INTEGER NOT NULL DEFAULT 1,
+    "tool_no" INTEGER NOT NULL,
+    "axis" TEXT NOT NULL,
+    "old_value" DOUBLE PRECISION NOT NULL,
+    "new_value" DOUBLE PRECISION NOT NULL,
+    "user_id" TEXT,
+    "revert_of_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "offset_changes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "offset_changes_machine_id_created_at_idx" ON "offset_changes"("machine_id", "created_at");
+CREATE INDEX IF NOT EXISTS "offset_changes_machine_id_tool_no_idx" ON "offset_changes"("machine_id", "tool_no");
+
+DO $$ BEGIN
+    ALTER TABLE "offset_changes" ADD CONSTRAINT "offset_changes_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "offset_changes" ADD CONSTRAINT "offset_changes_user_id_fkey" FOREIGN KEY ("user_id")
+        REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,11 @@
+-- Migration: add_offset_limit_approval
+-- ADMIN approver of wear offset changes exceeding template safety limits (offsetConfig.limits / toolLimits)
+
+-- AlterTable
+ALTER TABLE "offset_changes" ADD COLUMN IF NOT EXISTS "approved_by_id" TEXT;
+
+DO $$ BEGIN
+    ALTER TABLE "offset_changes" ADD CONSTRAINT "offset_changes_approved_by_id_fkey" FOREIGN KEY ("approved_by_id")
+        REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
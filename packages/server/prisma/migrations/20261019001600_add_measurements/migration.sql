@@ -0,0 +1,90 @@
+-- Migration: add_measurements
+-- Gauge measurement ingestion with feature → tool / axis mapping and wear offset correction proposals
+
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "MeasurementSource" AS ENUM ('GAUGE_API', 'GAUGE_CSV');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE "CorrectionStatus" AS ENUM ('NONE', 'PROPOSED', 'APPLIED', 'DISMISSED', 'SUPERSEDED');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "measurement_features" (
+    "id" TEXT NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "nominal" DOUBLE PRECISION NOT NULL,
+    "lower_tol" DOUBLE PRECISION NOT NULL,
+    "upper_tol" DOUBLE PRECISION NOT NULL,
+    "path" INTEGER NOT NULL DEFAULT 1,
+    "tool_no" INTEGER NOT NULL,
+    "axis" TEXT NOT NULL,
+    "gain" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "dead_band" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "auto_apply" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "measurement_features_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "measurements" (
+    "id" TEXT NOT NULL,
+    "feature_id" TEXT NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "deviation" DOUBLE PRECISION NOT NULL,
+    "in_tolerance" BOOLEAN NOT NULL,
+    "source" "MeasurementSource" NOT NULL,
+    "sample_id" TEXT,
+    "measured_at" TIMESTAMP(3) NOT NULL,
+    "correction" DOUBLE PRECISION,
+    "correction_status" "CorrectionStatus" NOT NULL DEFAULT 'NONE',
+    "correction_note" TEXT,
+    "offset_change_id" TEXT,
+    "user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "measurements_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "measurement_features_machine_id_name_key" ON "measurement_features"("machine_id", "name");
+CREATE INDEX IF NOT EXISTS "measurements_feature_id_measured_at_idx" ON "measurements"("feature_id", "measured_at");
+CREATE INDEX IF NOT EXISTS "measurements_machine_id_measured_at_idx" ON "measurements"("machine_id", "measured_at");
+CREATE INDEX IF NOT EXISTS "measurements_machine_id_correction_status_idx" ON "measurements"("machine_id", "correction_status");
+
+DO $$ BEGIN
+    ALTER TABLE "measurement_features" ADD CONSTRAINT "measurement_features_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "measurements" ADD CONSTRAINT "measurements_feature_id_fkey" FOREIGN KEY ("feature_id")
+        REFERENCES "measurement_features"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "measurements" ADD CONSTRAINT "measurements_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "measurements" ADD CONSTRAINT "measurements_offset_change_id_fkey" FOREIGN KEY ("offset_change_id")
+        REFERENCES "offset_changes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "measurements" ADD CONSTRAINT "measurements_user_id_fkey" FOREIGN KEY ("user_id")
+        REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
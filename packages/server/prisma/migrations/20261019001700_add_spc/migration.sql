@@ -0,0 +1,67 @@
+-- Migration: add_spc
+-- SPC control charts: manual / sampled measurements, product code per measurement, Western Electric rule violations
+
+-- AlterEnum
+ALTER TYPE "MeasurementSource" ADD VALUE IF NOT EXISTS 'MANUAL';
+ALTER TYPE "MeasurementSource" ADD VALUE IF NOT EXISTS 'SAMPLED';
+
+DO $$ BEGIN
+    CREATE TYPE "SpcChart" AS ENUM ('INDIVIDUALS', 'XBAR');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AlterTable: 보정 대상 없는 SPC 전용 항목 허용
+ALTER TABLE "measurement_features" ALTER COLUMN "tool_no" DROP NOT NULL;
+ALTER TABLE "measurement_features" ALTER COLUMN "axis" DROP NOT NULL;
+ALTER TABLE "measurement_features" ADD COLUMN IF NOT EXISTS "product_code" TEXT;
+ALTER TABLE "measurement_features" ADD COLUMN IF NOT EXISTS "subgroup_size" INTEGER NOT NULL DEFAULT 5;
+ALTER TABLE "measurement_features" ADD COLUMN IF NOT EXISTS "sample_var_key" TEXT;
+ALTER TABLE "measurement_features" ADD COLUMN IF NOT EXISTS "sample_interval_sec" INTEGER;
+ALTER TABLE "measurement_features" ADD COLUMN IF NOT EXISTS "last_sampled_at" TIMESTAMP(3);
+
+ALTER TABLE "measurements" ADD COLUMN IF NOT EXISTS "product_code" TEXT;
+
+CREATE INDEX IF NOT EXISTS "measurements_feature_id_product_code_measured_at_idx"
+    ON "measurements"("feature_id", "product_code", "measured_at");
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "spc_violations" (
+    "id" TEXT NOT NULL,
+    "feature_id" TEXT NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "measurement_id" TEXT NOT NULL,
+    "product_code" TEXT,
+    "chart" "SpcChart" NOT NULL,
+    "rule" INTEGER NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "center_line" DOUBLE PRECISION NOT NULL,
+    "ucl" DOUBLE PRECISION NOT NULL,
+    "lcl" DOUBLE PRECISION NOT NULL,
+    "message" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "spc_violations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "spc_violations_machine_id_created_at_idx" ON "spc_violations"("machine_id", "created_at");
+CREATE INDEX IF NOT EXISTS "spc_violations_feature_id_created_at_idx" ON "spc_violations"("feature_id", "created_at");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "spc_violations" ADD CONSTRAINT "spc_violations_feature_id_fkey" FOREIGN KEY ("feature_id")
+        REFERENCES "measurement_features"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "spc_violations" ADD CONSTRAINT "spc_violations_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "spc_violations" ADD CONSTRAINT "spc_violations_measurement_id_fkey" FOREIGN KEY ("measurement_id")
+        REFERENCES "measurements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
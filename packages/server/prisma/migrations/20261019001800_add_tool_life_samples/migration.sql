@@ -0,0 +1,27 @@
+-- Migration: add_tool_life_samples
+-- Tool-life forecasting: periodic tool-life count samples per machine / path / tool
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "tool_life_samples" (
+    "id" TEXT NOT NULL,
+    "machine_id" TEXT NOT NULL,
+    "path" INTEGER NOT NULL,
+    "tool_no" TEXT NOT NULL,
+    "count" DOUBLE PRECISION NOT NULL,
+    "preset" DOUBLE PRECISION NOT NULL,
+    "sampled_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tool_life_samples_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "tool_life_samples_machine_id_path_tool_no_sampled_at_idx"
+    ON "tool_life_samples"("machine_id", "path", "tool_no", "sampled_at");
+CREATE INDEX IF NOT EXISTS "tool_life_samples_sampled_at_idx" ON "tool_life_samples"("sampled_at");
+
+-- AddForeignKey
+DO $$ BEGIN
+    ALTER TABLE "tool_life_samples" ADD CONSTRAINT "tool_life_samples_machine_id_fkey" FOREIGN KEY ("machine_id")
+        REFERENCES "machines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
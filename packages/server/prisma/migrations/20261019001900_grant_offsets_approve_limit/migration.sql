@@ -0,0 +1,7 @@
+-- Migration: grant_offsets_approve_limit
+-- Offset limit approval moves from hard-coded ADMIN / HQ_ENGINEER to the offsets.approve_limit permission;
+-- keep existing edited ADMIN base roles able to approve
+
+UPDATE "roles"
+SET "permissions" = array_append("permissions", 'offsets.approve_limit')
+WHERE "base_role" = 'ADMIN' AND NOT ('offsets.approve_limit' = ANY("permissions"));
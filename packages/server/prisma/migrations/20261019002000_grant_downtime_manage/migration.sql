@@ -0,0 +1,7 @@
+-- Migration: grant_downtime_manage
+-- Downtime reason-code management moves from shift.manage to its own downtime.manage permission;
+-- keep roles that could manage reason codes able to do so
+
+UPDATE "roles"
+SET "permissions" = array_append("permissions", 'downtime.manage')
+WHERE 'shift.manage' = ANY("permissions") AND NOT ('downtime.manage' = ANY("permissions"));
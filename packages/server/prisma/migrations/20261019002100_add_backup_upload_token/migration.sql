@@ -0,0 +1,5 @@
+-- Migration: add_backup_upload_token
+-- Agent backup upload is authenticated with a per-backup token issued with CREATE_BACKUP
+
+-- AlterTable
+ALTER TABLE "backups" ADD COLUMN IF NOT EXISTS "upload_token_hash" TEXT;
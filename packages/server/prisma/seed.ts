@@ -339,6 +339,51 @@ async function main() {
   }
   console.log(`✅ Global settings created`);
 
+  // ============================================
+  // Downtime Reasons (비가동 사유 코드 트리)
+  // ============================================
+  const downtimeReasons: { code: string; name: string; color: string; children: { code: string; name: string }[] }[] = [
+    { code: 'MAT', name: '자재', color: '#f59e0b', children: [
+      { code: 'MAT-WAIT', name: '자재 대기' },
+      { code: 'MAT-BAR',  name: '바 피더 소재 교체' },
+    ] },
+    { code: 'TOOL', name: '공구', color: '#3b82f6', children: [
+      { code: 'TOOL-CHG',   name: '공구 교환' },
+      { code: 'TOOL-BREAK', name: '공구 파손' },
+    ] },
+    { code: 'SETUP', name: '셋업', color: '#8b5cf6', children: [
+      { code: 'SETUP-MODEL', name: '기종 변경' },
+      { code: 'SETUP-ADJ',   name: '치수 보정' },
+    ] },
+    { code: 'QC', name: '품질', color: '#ef4444', children: [
+      { code: 'QC-HOLD',    name: '품질 보류' },
+      { code: 'QC-INSPECT', name: '초품 검사' },
+    ] },
+    { code: 'EQ', name: '설비', color: '#6b7280', children: [
+      { code: 'EQ-FAIL', name: '설비 고장' },
+      { code: 'EQ-PM',   name: '예방 보전' },
+    ] },
+    { code: 'ETC', name: '기타', color: '#9ca3af', children: [
+      { code: 'ETC-NOOP', name: '작업자 부재' },
+    ] },
+  ];
+
+  for (const [i, group] of downtimeReasons.entries()) {
+    const parent = await prisma.downtimeReason.upsert({
+      where: { code: group.code },
+      update: {},
+      create: { code: group.code, name: group.name, color: group.color, sortOrder: i },
+    });
+    for (const [j, child] of group.children.entries()) {
+      await prisma.downtimeReason.upsert({
+        where: { code: child.code },
+        update: {},
+        create: { code: child.code, name: child.name, parentId: parent.id, sortOrder: j },
+      });
+    }
+  }
+  console.log(`✅ Downtime reasons created`);
+
   // ============================================
   // Summary
   // ============================================
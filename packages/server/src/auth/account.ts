@@ -0,0 +1,33 @@
+// Account State Module
+// 액세스 토큰은 만료 전까지 유효 → 발급 후 비활성화 / 역할 변경된 계정을 요청마다 확인
+
+import { UserRole } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { AccessTokenPayload } from '../types';
+
+const CACHE_TTL_MS = 10_000;
+const cache = new Map<string, { isActive: boolean; role: UserRole; expiresAt: number }>();
+
+/**
+ * 사용자 활성 상태 / 역할 변경 시 호출 (다음 요청에서 즉시 반영)
+ */
+export function invalidateAccountState(userId: string): void {
+  cache.delete(userId);
+}
+
+/**
+ * 토큰 발급 시점의 계정 상태가 유지되는지 — 삭제 / 비활성화 / 역할 변경 시 false
+ */
+export async function isAccountCurrent(payload: AccessTokenPayload): Promise<boolean> {
+  let state = cache.get(payload.sub);
+  if (!state || state.expiresAt <= Date.now()) {
+    const user = await prisma.user.findUnique({
+      where: { id: payload.sub },
+      select: { isActive: true, role: true },
+    });
+    if (!user) return false;
+    state = { ...user, expiresAt: Date.now() + CACHE_TTL_MS };
+    cache.set(payload.sub, state);
+  }
+  return state.isActive && state.role === payload.role;
+}
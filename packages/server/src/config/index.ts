@@ -22,6 +22,16 @@ export const config = {
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
   },
 
+  // 장비 / 카메라 접속 자격증명 암호화 키 (AES-256-GCM)
+  credentialSecret: process.env.CREDENTIAL_SECRET || 'dev-credential-secret-change-in-production',
+
+  // DNC 폴더 탐색 허용 루트 (쉼표 구분, '이름=경로' 또는 경로 — SMB/NFS 마운트 지점 포함)
+  //   Agent PC 에서 같은 폴더가 다른 경로로 보이면 '>Agent 경로' 추가
+  //   예: DNC_ROOTS=공장공유=/mnt/nas/programs>\\nas\programs,/mnt/nfs/dnc>D:\DNC
+  dncRoots: process.env.DNC_ROOTS || '',
+  // DNC 저장소(DATA_DIR/repo)의 Agent 측 경로 (예: \\cnc-server\repo) — 미지정 시 서버 경로 그대로
+  dncRepoAgentPath: process.env.DNC_REPO_AGENT_PATH || '',
+
   // CORS
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:5173',
 
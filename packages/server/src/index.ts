@@ -8,6 +8,8 @@ import path from 'path';
 // Config & Routes
 import { config } from './config';
 import authRoutes from './routes/auth';
+import userRoutes from './routes/users';
+import roleRoutes from './routes/roles';
 import machineRoutes from './routes/machines';
 import commandRoutes from './routes/commands';
 import schedulerRoutes, {
@@ -20,15 +22,29 @@ import schedulerRoutes, {
 } from './routes/scheduler';
 import alarmRoutes, { storeAlarm } from './routes/alarms';
 import transferRoutes from './routes/transfer';
-import backupRoutes from './routes/backup';
-import productionRoutes from './routes/production';
+import backupRoutes, { handleBackupResult } from './routes/backup';
+import backupScheduleRoutes, { startBackupScheduler, stopBackupScheduler } from './routes/backupSchedule';
+import productionRoutes, {
+  handleProgramStart,
+  handleProgramEnd,
+  handleProductionM20,
+  noteProductionAlarm,
+} from './routes/production';
 import workOrderRoutes from './routes/workOrder';
 import auditRoutes from './routes/audit';
 import templateRoutes from './routes/templates';
 import fileRoutes from './routes/files';
+import filesystemRoutes from './routes/filesystem';
+import programRoutes from './routes/programs';
+import libraryRoutes from './routes/library';
+import measurementRoutes from './routes/measurements';
+import spcRoutes from './routes/spc';
+import toolLifeRoutes from './routes/toolLife';
 import diagnosticsRoutes from './routes/diagnostics';
 import settingsRoutes from './routes/settings';
 import cameraRoutes from './routes/camera';
+import shiftRoutes from './routes/shifts';
+import downtimeRoutes, { handleDowntimeTelemetry, handleDowntimeAlarm, startDowntimeMonitor, stopDowntimeMonitor } from './routes/downtime';
 import { errorHandler } from './middleware/error';
 
 // Services
@@ -38,6 +54,15 @@ import { redisService, REDIS_KEYS } from './lib/redis';
 import { commandWaiter } from './lib/commandWaiter';
 import { prisma } from './lib/prisma';
 import { syncTemplatesFromFiles } from './lib/templateSync';
+import { telemetryHistory } from './lib/telemetryHistory';
+import { backupRetention } from './lib/backupRetention';
+import { cameraGateway } from './lib/cameraGateway';
+import { cameraRecorder } from './lib/cameraRecorder';
+import { cameraHealth } from './lib/cameraHealth';
+import { transferJobs } from './lib/transferJobs';
+import { measurementSampler } from './lib/measurementSampler';
+import { toolLifeSampler } from './lib/toolLifeSampler';
+import { importLegacyCameraConfigs } from './lib/cameraConfig';
 
 // Express App
 const app = express();
@@ -85,6 +110,10 @@ app.get('/api', (req, res) => {
 // Auth Routes
 app.use('/api/auth', authRoutes);
 
+// User Management Routes (가입 승인 / 역할 / 비활성화)
+app.use('/api/users', userRoutes);
+app.use('/api/roles', roleRoutes);
+
 // Machine Routes
 app.use('/api/machines', machineRoutes);
 
@@ -102,10 +131,17 @@ app.use('/api/transfer', transferRoutes);
 
 // Backup Routes
 app.use('/api/backup', backupRoutes);
+app.use('/api/backup-schedules', backupScheduleRoutes);
 
 // Production Routes (POP)
 app.use('/api/production', productionRoutes);
 
+// Shift Calendar Routes (교대 / 계획 정지)
+app.use('/api/shifts', shiftRoutes);
+
+// Downtime Routes (비가동 사유 / Pareto)
+app.use('/api/downtime', downtimeRoutes);
+
 // Work Order Routes (MES)
 app.use('/api/work-orders', workOrderRoutes);
 
@@ -118,12 +154,33 @@ app.use('/api/templates', templateRoutes);
 // File Management Routes (DNC 저장소 / 공유 폴더)
 app.use('/api/files', fileRoutes);
 
+// Filesystem Routes (DNC 경로 선택 — 허용 루트 폴더 탐색)
+app.use('/api/filesystem', filesystemRoutes);
+
+// Program Repository Routes (리비전 이력 / 체크아웃 / 승인 · 릴리스)
+app.use('/api/programs', programRoutes);
+
+// Program Library Routes (제품 코드별 공용 프로그램 / 장비 배포 현황)
+app.use('/api/library', libraryRoutes);
+
+// Measurement Routes (게이지 측정값 수집 / 마모 오프셋 보정 제안)
+app.use('/api/measurements', measurementRoutes);
+
+// SPC Routes (관리도 / Western Electric 이상 / Cp·Cpk)
+app.use('/api/spc', spcRoutes);
+
+// Tool Life Routes (공구 수명 예측 / 교체 계획 보드)
+app.use('/api/tool-life', toolLifeRoutes);
+
 // Diagnostics Routes (시스템 상태 점검)
 app.use('/api/diagnostics', diagnosticsRoutes);
 
 // Settings Routes (전역 설정)
 app.use('/api/settings', settingsRoutes);
+
+// Camera Routes (스트림 게이트웨이 — /api/cameras 는 web cameraApi 경로)
 app.use('/api/camera', cameraRoutes);
+app.use('/api/cameras', cameraRoutes);
 
 // Error Handler (must be last middleware)
 app.use(errorHandler);
@@ -152,6 +209,32 @@ async function initializeServices(): Promise<void> {
     // Sync templates from files → DB (파일이 원본)
     await syncTemplatesFromFiles();
 
+    // Telemetry history (TimescaleDB)
+    await telemetryHistory.initialize();
+
+    // Backup retention (보존 정책 정리)
+    backupRetention.start();
+
+    // Backup schedules (cron 자동 백업)
+    startBackupScheduler();
+
+    // Downtime: 오프라인 장비의 진행 중 비가동 이벤트 종료
+    startDowntimeMonitor();
+
+    // Transfer jobs: 중단된 작업 정리 / 대기 작업 재개
+    await transferJobs.start();
+
+    // Measurement sampling (NC 변수 주기 샘플링 → SPC)
+    measurementSampler.start();
+
+    // Tool life sampling (공구 수명 카운트 → 교체 예측)
+    toolLifeSampler.start();
+
+    // Cameras: 구 JSON 설정 이전 → 사전 버퍼(알람 클립 녹화) → 상태 점검
+    await importLegacyCameraConfigs();
+    await cameraRecorder.start();
+    cameraHealth.start();
+
     console.log('[Server] All services initialized');
   } catch (err) {
     console.error('[Server] Failed to initialize services:', err);
@@ -175,13 +258,22 @@ function setupMqttHandlers(): void {
 
     // Forward to WebSocket clients
     wsService.sendTelemetry(machineId, data);
+
+    // Persist sample (TimescaleDB hypertable)
+    await telemetryHistory.record(machineId, data, message.timestamp);
+
+    // 비가동 이벤트 시작/종료
+    await handleDowntimeTelemetry(machineId, data);
   });
 
   // Handle fast PMC bits update from agents (100ms 주기 — 램프 응답속도)
-  mqttService.on<PmcBitsMessage>(TOPICS.AGENT_PMC_BITS, (_topic, message) => {
+  mqttService.on<PmcBitsMessage>(TOPICS.AGENT_PMC_BITS, async (_topic, message) => {
     const { machineId, pmcBits } = message;
     if (!machineId || !pmcBits) return;
     wsService.sendPmcBits(machineId, pmcBits);
+
+    // 서버측 인터락 판정용 캐시 (백업 복원 등) — 발행 중단 시 5초 후 만료
+    await redisService.set(REDIS_KEYS.MACHINE_PMC_BITS(machineId), pmcBits, 5);
   });
 
   // Handle alarms from agents
@@ -191,6 +283,12 @@ function setupMqttHandlers(): void {
     // Forward to WebSocket clients
     wsService.sendAlarm(machineId, { alarmNo, alarmMsg, type, category, alarmTypeCode });
 
+    // 진행 중 생산 사이클에 알람 기록 (status=error 판정)
+    if (type === 'occurred') {
+      noteProductionAlarm(machineId, alarmNo);
+      await handleDowntimeAlarm(machineId, alarmNo);
+    }
+
     // Store alarm in database
     await storeAlarm({
       machineId,
@@ -227,7 +325,8 @@ function setupMqttHandlers(): void {
     commandWaiter.notify(correlationId, { status, result, errorCode, errorMessage });
 
     // ── 3. DOWNLOAD_PROGRAM 결과: share/ 폴더에 파일 저장 ────────
-    if (status === 'success' && result && typeof result === 'object') {
+    //    (xfer- 전송 작업은 transferJobs 가 저장 / 확인, verify- 읽기 비교는 programVerify 가 사용)
+    if (status === 'success' && result && typeof result === 'object' && !correlationId.startsWith('xfer-') && !correlationId.startsWith('verify-')) {
       const r = result as Record<string, unknown>;
       if (r['content'] && r['fileName']) {
         const fileName = r['fileName'] as string;
@@ -250,7 +349,10 @@ function setupMqttHandlers(): void {
       }
     }
 
-    // ── 4. CREATE_BACKUP 완료 시 WS broadcast ────────────────────
+    // ── 4. CREATE_BACKUP 결과 DB 반영 + 완료 시 WS broadcast ──────
+    if (correlationId?.startsWith('backup-')) {
+      await handleBackupResult(correlationId, status, result, errorCode, errorMessage);
+    }
     if (correlationId?.startsWith('backup-') && status === 'success' && result) {
       const r = result as Record<string, unknown>;
       wsService.broadcast({
@@ -287,9 +389,19 @@ function setupMqttHandlers(): void {
         if (rowId && count !== undefined) {
           await handleSchedulerM20(machineId, rowId, count);
         }
+        // 생산 실적 자동 기록
+        await handleProductionM20(machineId, programNo, count, rowId);
         await redisService.publish(REDIS_KEYS.CHANNEL_EVENT, message);
         break;
 
+      case 'PROGRAM_START':
+        await handleProgramStart(machineId, programNo);
+        break;
+
+      case 'PROGRAM_END':
+        await handleProgramEnd(machineId, programNo);
+        break;
+
       case 'M20_SUB_COMPLETE':
         wsService.broadcastToMachine(machineId, {
           type: 'M20_SUB_COMPLETE',
@@ -329,6 +441,16 @@ async function shutdown(): Promise<void> {
   console.log('\n[Server] Shutting down...');
 
   wsService.shutdown();
+  await telemetryHistory.shutdown();
+  backupRetention.stop();
+  stopBackupScheduler();
+  stopDowntimeMonitor();
+  transferJobs.stop();
+  measurementSampler.stop();
+  toolLifeSampler.stop();
+  cameraHealth.stop();
+  cameraRecorder.stop();
+  cameraGateway.shutdown();
   await mqttService.disconnect();
   await redisService.disconnect();
 
@@ -0,0 +1,373 @@
+/**
+ * BackupDiff - 같은 장비의 두 백업 ZIP 비교
+ *
+ * ZIP 구성 (Agent CREATE_BACKUP):
+ *   manifest.json      backupType, editMode, programCount, parameterCount
+ *   program_list.txt   프로그램 목록 ('#' 주석, "O0001\t(설명)")
+ *   parameters.txt     FANUC 파라미터 펀치 포맷 (PARAMETER / FULL)
+ *   programs/O*.nc     프로그램 본문 (PROGRAM / FULL, EDIT 모드일 때만)
+ *
+ * 파라미터: 번호(+경로 Q, 축 A) 단위로 값 비교
+ * 프로그램: 목록 기준 추가/삭제, 양쪽 본문이 있으면 줄 단위 diff (Myers)
+ */
+
+import { readZipEntries } from './zipReader';
+
+const DIFF_CONTEXT_LINES = 3;
+const MAX_EDIT_DISTANCE  = 2000;   // 초과 시 전체 교체로 표시 (메모리 보호)
+
+// ─── 파라미터 ─────────────────────────────────────────────────
+
+export interface ParameterValue {
+  key: string;              // "1020" | "1020.A1" | "1020/Q2.A1"
+  number: number;
+  path: number | null;
+  axis: number | null;
+  value: string;
+}
+
+export interface ParameterChange {
+  key: string;
+  number: number;
+  path: number | null;
+  axis: number | null;
+  kind: 'changed' | 'added' | 'removed';
+  old: string | null;
+  new: string | null;
+}
+
+/**
+ * 파라미터 펀치 텍스트 → key 별 값
+ * 예) "N01020A1P88A2P89" → 1020.A1 = 88, 1020.A2 = 89
+ *     "N06750P1200"      → 6750 = 1200
+ */
+export function parseParameterText(text: string): Map<string, ParameterValue> {
+  const params = new Map<string, ParameterValue>();
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    const m = /^N(\d+)(.*)$/.exec(line);
+    if (!m) continue;
+
+    const number = Number(m[1]);
+    let path: number | null = null;
+    let axis: number | null = null;
+
+    for (const token of m[2].match(/[A-Z]-?[\d.]+/g) ?? []) {
+      const letter = token[0];
+      const value = token.slice(1);
+      if (letter === 'Q') {
+        path = Number(value);
+      } else if (letter === 'A') {
+        axis = Number(value);
+      } else if (letter === 'P' || letter === 'R' || letter === 'L' || letter === 'M') {
+        const key = `${number}${path !== null ? `/Q${path}` : ''}${axis !== null ? `.A${axis}` : ''}`;
+        params.set(key, { key, number, path, axis, value });
+        axis = null;
+      }
+    }
+  }
+
+  return params;
+}
+
+export function diffParameters(
+  from: Map<string, ParameterValue>,
+  to: Map<string, ParameterValue>,
+): ParameterChange[] {
+  const changes: ParameterChange[] = [];
+
+  for (const [key, a] of from) {
+    const b = to.get(key);
+    if (!b) {
+      changes.push({ key, number: a.number, path: a.path, axis: a.axis, kind: 'removed', old: a.value, new: null });
+    } else if (a.value !== b.value) {
+      changes.push({ key, number: a.number, path: a.path, axis: a.axis, kind: 'changed', old: a.value, new: b.value });
+    }
+  }
+  for (const [key, b] of to) {
+    if (!from.has(key)) {
+      changes.push({ key, number: b.number, path: b.path, axis: b.axis, kind: 'added', old: null, new: b.value });
+    }
+  }
+
+  return changes.sort((x, y) =>
+    x.number - y.number || (x.path ?? 0) - (y.path ?? 0) || (x.axis ?? 0) - (y.axis ?? 0));
+}
+
+// ─── 줄 단위 diff ─────────────────────────────────────────────
+
+export interface DiffLine {
+  op: ' ' | '+' | '-';
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;   // 1-based
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface LineDiff {
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+type EditOp = { op: ' ' | '+' | '-'; a: number; b: number };
+
+// Myers O(ND) — 편집 스크립트 (a/b 인덱스 포함), 편집 거리 초과 시 null
+function myers(a: string[], b: string[]): EditOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, a, b, d);
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[], dFinal: number): EditOp[] {
+  const ops: EditOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = dFinal; d > 0; d--) {
+    const vd = trace[d];                          // 인덱스: k + d + 1
+    const at = (k: number) => vd[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--; y--;
+      ops.push({ op: ' ', a: x, b: y });
+    }
+    if (x === prevX) {
+      y--;
+      ops.push({ op: '+', a: x, b: y });
+    } else {
+      x--;
+      ops.push({ op: '-', a: x, b: y });
+    }
+  }
+  while (x > 0 && y > 0) {
+    x--; y--;
+    ops.push({ op: ' ', a: x, b: y });
+  }
+
+  return ops.reverse();
+}
+
+function toHunks(ops: EditOp[], a: string[], b: string[]): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let i = 0;
+
+  while (i < ops.length) {
+    if (ops[i].op === ' ') { i++; continue; }
+
+    // 변경 구간 시작 — 앞 문맥 포함
+    const start = Math.max(0, i - DIFF_CONTEXT_LINES);
+    let end = i;
+    let lastChange = i;
+    while (end < ops.length && end - lastChange <= DIFF_CONTEXT_LINES * 2) {
+      if (ops[end].op !== ' ') lastChange = end;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + DIFF_CONTEXT_LINES + 1);
+
+    const slice = ops.slice(start, end);
+    const first = slice[0];
+    hunks.push({
+      oldStart: first.a + 1,
+      oldLines: slice.filter((o) => o.op !== '+').length,
+      newStart: first.b + 1,
+      newLines: slice.filter((o) => o.op !== '-').length,
+      lines: slice.map((o) => ({ op: o.op, text: o.op === '+' ? b[o.b] : a[o.a] })),
+    });
+    i = end;
+  }
+
+  return hunks;
+}
+
+/**
+ * 두 텍스트 줄 단위 비교 (unified diff 형식 hunk)
+ */
+export function diffLines(oldText: string, newText: string): LineDiff {
+  const a = oldText.replace(/\r\n/g, '\n').split('\n');
+  const b = newText.replace(/\r\n/g, '\n').split('\n');
+
+  // 공통 앞/뒤 제거 후 중간만 Myers
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const mid = myers(midA, midB) ?? [
+    ...midA.map((_, i) => ({ op: '-' as const, a: i, b: 0 })),
+    ...midB.map((_, i) => ({ op: '+' as const, a: midA.length, b: i })),
+  ];
+
+  const ops: EditOp[] = [
+    ...a.slice(0, prefix).map((_, i) => ({ op: ' ' as const, a: i, b: i })),
+    ...mid.map((o) => ({ op: o.op, a: o.a + prefix, b: o.b + prefix })),
+    ...a.slice(a.length - suffix).map((_, i) => ({
+      op: ' ' as const,
+      a: a.length - suffix + i,
+      b: b.length - suffix + i,
+    })),
+  ];
+
+  return {
+    additions: ops.filter((o) => o.op === '+').length,
+    deletions: ops.filter((o) => o.op === '-').length,
+    hunks: toHunks(ops, a, b),
+  };
+}
+
+// ─── 백업 비교 ────────────────────────────────────────────────
+
+export interface BackupContents {
+  manifest: Record<string, unknown>;
+  programList: string[];                 // 목록 (O번호)
+  programs: Map<string, string>;         // O번호 → 본문
+  parameters: Map<string, ParameterValue> | null;
+  parameterText: string | null;          // parameters.txt 원문 (복원 시 그대로 기록)
+}
+
+export interface ProgramChange {
+  programNo: string;
+  lineCount?: number;
+}
+
+export interface ProgramModification extends LineDiff {
+  programNo: string;
+}
+
+export interface BackupDiffResult {
+  parameters: {
+    available: boolean;                  // 양쪽 모두 파라미터 덤프 포함
+    fromCount: number;
+    toCount: number;
+    changes: ParameterChange[];
+  };
+  programs: {
+    contentCompared: boolean;            // 양쪽 모두 본문 포함 (EDIT 모드 백업)
+    added: ProgramChange[];
+    removed: ProgramChange[];
+    modified: ProgramModification[];
+    unchanged: number;
+  };
+}
+
+/**
+ * 백업 ZIP → manifest / 프로그램 목록·본문 / 파라미터 (비교·복원 공용)
+ */
+export function loadBackupContents(zip: Buffer): BackupContents {
+  const entries = readZipEntries(zip);
+
+  let manifest: Record<string, unknown> = {};
+  const manifestBuf = entries.get('manifest.json');
+  if (manifestBuf) {
+    try {
+      manifest = JSON.parse(manifestBuf.toString('utf8').replace(/^\uFEFF/, '')) as Record<string, unknown>;
+    } catch {
+      // manifest 손상 시 본문 비교만 진행
+    }
+  }
+
+  const programs = new Map<string, string>();
+  for (const [name, buf] of entries) {
+    const m = /^programs\/(.+)\.nc$/i.exec(name);
+    if (m) programs.set(m[1], buf.toString('utf8').replace(/^\uFEFF/, ''));
+  }
+
+  const listText = entries.get('program_list.txt')?.toString('utf8') ?? '';
+  const programList = listText
+    .split(/\r?\n/)
+    .map((l) => l.replace(/^\uFEFF/, '').trim())
+    .filter((l) => l && !l.startsWith('#'))
+    .map((l) => l.split(/\s+/)[0]);
+  for (const no of programs.keys()) {
+    if (!programList.includes(no)) programList.push(no);
+  }
+
+  const paramBuf = entries.get('parameters.txt');
+  const parameterText = paramBuf ? paramBuf.toString('latin1') : null;
+  const parameters = parameterText !== null ? parseParameterText(parameterText) : null;
+
+  return { manifest, programList, programs, parameters, parameterText };
+}
+
+function lineCount(text: string | undefined): number | undefined {
+  return text === undefined ? undefined : text.replace(/\r\n/g, '\n').split('\n').length;
+}
+
+/**
+ * 두 백업 ZIP 비교 (from = 이전, to = 이후)
+ */
+export function diffBackupZips(fromZip: Buffer, toZip: Buffer): BackupDiffResult {
+  const from = loadBackupContents(fromZip);
+  const to = loadBackupContents(toZip);
+
+  const contentCompared = from.programs.size > 0 && to.programs.size > 0;
+  const fromSet = new Set(from.programList);
+  const toSet = new Set(to.programList);
+
+  const added = to.programList
+    .filter((no) => !fromSet.has(no))
+    .map((programNo) => ({ programNo, lineCount: lineCount(to.programs.get(programNo)) }));
+  const removed = from.programList
+    .filter((no) => !toSet.has(no))
+    .map((programNo) => ({ programNo, lineCount: lineCount(from.programs.get(programNo)) }));
+
+  const modified: ProgramModification[] = [];
+  let unchanged = 0;
+  for (const no of from.programList) {
+    if (!toSet.has(no)) continue;
+    const oldText = from.programs.get(no);
+    const newText = to.programs.get(no);
+    if (oldText === undefined || newText === undefined) continue;
+    if (oldText.replace(/\r\n/g, '\n') === newText.replace(/\r\n/g, '\n')) {
+      unchanged++;
+      continue;
+    }
+    modified.push({ programNo: no, ...diffLines(oldText, newText) });
+  }
+
+  return {
+    parameters: {
+      available: !!from.parameters && !!to.parameters,
+      fromCount: from.parameters?.size ?? 0,
+      toCount: to.parameters?.size ?? 0,
+      changes: from.parameters && to.parameters ? diffParameters(from.parameters, to.parameters) : [],
+    },
+    programs: {
+      contentCompared,
+      added,
+      removed,
+      modified: modified.sort((x, y) => x.programNo.localeCompare(y.programNo)),
+      unchanged,
+    },
+  };
+}
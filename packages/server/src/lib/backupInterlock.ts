@@ -0,0 +1,89 @@
+/**
+ * BackupInterlock - 백업 복원 전 장비 상태 / 템플릿 인터락 확인
+ *
+ * 1. 온라인      텔레메트리 캐시 존재 (60초 TTL)
+ * 2. 정지 상태   runState 2=START, 3=MSTR 이면 불가
+ * 3. EDIT 모드   프로그램 삭제/기록, 파라미터 기록 조건
+ * 4. 템플릿 인터락  topBarInterlock.backup 필드 (A접: 1=정상, B접: 0=정상)
+ *                  PMC 비트는 Agent pmc_bits 발행 캐시 기준 — 값이 없으면 불충족
+ */
+
+import { prisma } from './prisma';
+import { redisService, REDIS_KEYS } from './redis';
+
+export interface InterlockCheck {
+  id: string;
+  label: string;
+  ok: boolean;
+  detail?: string;
+}
+
+export interface InterlockResult {
+  ok: boolean;
+  checks: InterlockCheck[];
+}
+
+interface TopBarInterlockField {
+  id: string;
+  label: string;
+  contact: 'A' | 'B';
+  enabled: boolean;
+  pmcAddr?: string;
+}
+
+interface TopBarInterlockPage {
+  interlockEnabled?: boolean;
+  fields?: TopBarInterlockField[];
+}
+
+/**
+ * 복원 가능 여부 판정 (모든 항목 충족 시 ok)
+ */
+export async function checkRestoreInterlock(
+  machine: { machineId: string; templateId: string },
+): Promise<InterlockResult> {
+  const checks: InterlockCheck[] = [];
+
+  const telemetry = await redisService.get<{ runState?: number; mode?: string }>(
+    REDIS_KEYS.MACHINE_TELEMETRY(machine.machineId),
+  );
+  checks.push({ id: 'online', label: '장비 온라인', ok: !!telemetry, detail: telemetry ? undefined : '텔레메트리 수신 없음' });
+
+  const running = telemetry?.runState === 2 || telemetry?.runState === 3;
+  checks.push({
+    id: 'stopped',
+    label: '운전 정지',
+    ok: !!telemetry && !running,
+    detail: running ? '가공 운전 중' : undefined,
+  });
+
+  const mode = telemetry?.mode ?? null;
+  checks.push({
+    id: 'edit-mode',
+    label: 'EDIT 모드',
+    ok: mode === 'EDIT',
+    detail: mode && mode !== 'EDIT' ? `현재 모드: ${mode}` : undefined,
+  });
+
+  const template = await prisma.template.findUnique({
+    where: { id: machine.templateId },
+    select: { topBarInterlock: true },
+  });
+  const page = (template?.topBarInterlock as { backup?: TopBarInterlockPage } | null)?.backup;
+
+  if (page?.interlockEnabled) {
+    const pmcBits = await redisService.get<Record<string, 0 | 1>>(REDIS_KEYS.MACHINE_PMC_BITS(machine.machineId));
+    for (const field of page.fields ?? []) {
+      if (!field.enabled) continue;
+      const raw = field.pmcAddr ? pmcBits?.[field.pmcAddr] : undefined;
+      if (raw === undefined) {
+        checks.push({ id: field.id, label: field.label, ok: false, detail: `${field.pmcAddr || '주소 미지정'} 신호 없음` });
+        continue;
+      }
+      const ok = field.contact === 'A' ? raw === 1 : raw === 0;
+      checks.push({ id: field.id, label: field.label, ok, detail: `${field.pmcAddr} = ${raw} (${field.contact}접)` });
+    }
+  }
+
+  return { ok: checks.every((c) => c.ok), checks };
+}
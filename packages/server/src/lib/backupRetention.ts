@@ -0,0 +1,185 @@
+/**
+ * BackupRetention - CNC 백업 파일 보존 정책 / 자동 정리
+ *
+ * 정책 (GlobalSetting 'backup.retention'):
+ *   - 장비 × 백업 유형별 최신 keepPerType 개 유지
+ *   - 추가로 최근 monthlySnapshots 개월은 월별 마지막 백업 1개씩 유지 (월간 스냅샷)
+ *   - 나머지는 파일만 삭제하고 이력(backups 행)은 prunedAt 으로 남김 → 감사 추적 유지
+ *
+ * 응답 없는 요청(PENDING / IN_PROGRESS) 은 STALE_TIMEOUT_MS 경과 시 FAILED 처리
+ * (백업 스케줄러가 매 주기 호출 → 스케줄 백업이면 실패 알림).
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { prisma } from './prisma';
+
+export const BACKUP_DIR = process.env.DATA_DIR
+  ? path.join(process.env.DATA_DIR, 'backup')
+  : path.join(process.cwd(), 'data', 'backup');
+
+export const RETENTION_KEY = 'backup.retention';
+
+// 파라미터 보존 증빙으로 인정되는 백업 유형
+export const PARAMETER_BACKUP_TYPES = ['PARAMETER', 'FULL'] as const;
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;   // 1시간
+const STALE_TIMEOUT_MS  = 30 * 60 * 1000;   // Agent 무응답 판정
+
+export const STALE_ERROR_MESSAGE = 'Agent 응답 시간 초과';
+
+export interface RetentionPolicy {
+  keepPerType: number;
+  monthlySnapshots: number;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = { keepPerType: 10, monthlySnapshots: 12 };
+
+/**
+ * 저장 경로(BACKUP_DIR 기준 상대) → 절대 경로 (디렉토리 탈출 방지)
+ */
+export function resolveBackupPath(relativePath: string): string | null {
+  const full = path.resolve(BACKUP_DIR, relativePath);
+  return full.startsWith(path.resolve(BACKUP_DIR) + path.sep) ? full : null;
+}
+
+function monthKey(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+class BackupRetentionService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  async getPolicy(): Promise<RetentionPolicy> {
+    const row = await prisma.globalSetting.findUnique({ where: { key: RETENTION_KEY } });
+    const value = (row?.value ?? {}) as Partial<RetentionPolicy>;
+    return {
+      keepPerType:      Number.isInteger(value.keepPerType) ? value.keepPerType! : DEFAULT_RETENTION.keepPerType,
+      monthlySnapshots: Number.isInteger(value.monthlySnapshots) ? value.monthlySnapshots! : DEFAULT_RETENTION.monthlySnapshots,
+    };
+  }
+
+  async setPolicy(policy: RetentionPolicy, updatedBy: string): Promise<void> {
+    await prisma.globalSetting.upsert({
+      where: { key: RETENTION_KEY },
+      create: { key: RETENTION_KEY, value: { ...policy }, updatedBy },
+      update: { value: { ...policy }, updatedBy },
+    });
+  }
+
+  /**
+   * 보존 정책 적용 — 정리된 백업 수 반환
+   * @param machineDbId 지정 시 해당 장비만 (업로드 직후 호출)
+   */
+  async prune(machineDbId?: string): Promise<number> {
+    const policy = await this.getPolicy();
+
+    const backups = await prisma.backup.findMany({
+      where: {
+        status: 'COMPLETED',
+        prunedAt: null,
+        ...(machineDbId ? { machineDbId } : {}),
+      },
+      select: { id: true, machineDbId: true, type: true, filePath: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // 월간 스냅샷 대상 월 (이번 달 포함 최근 N개월)
+    const now = new Date();
+    const snapshotMonths = new Set<string>();
+    for (let i = 0; i < policy.monthlySnapshots; i++) {
+      snapshotMonths.add(monthKey(new Date(now.getFullYear(), now.getMonth() - i, 1)));
+    }
+
+    const kept = new Map<string, number>();        // machine:type → 유지 개수
+    const monthTaken = new Set<string>();           // machine:type:YYYY-MM
+    const expired: typeof backups = [];
+
+    for (const b of backups) {
+      const group = `${b.machineDbId}:${b.type}`;
+      const count = kept.get(group) ?? 0;
+      const month = `${group}:${monthKey(b.createdAt)}`;
+
+      if (count < policy.keepPerType) {
+        kept.set(group, count + 1);
+        monthTaken.add(month);
+      } else if (snapshotMonths.has(monthKey(b.createdAt)) && !monthTaken.has(month)) {
+        monthTaken.add(month);
+      } else {
+        expired.push(b);
+      }
+    }
+
+    for (const b of expired) {
+      const fullPath = b.filePath ? resolveBackupPath(b.filePath) : null;
+      if (fullPath) {
+        try {
+          await fs.unlink(fullPath);
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error(`[Backup] Failed to delete ${b.filePath}:`, err);
+            continue;
+          }
+        }
+      }
+      await prisma.backup.update({
+        where: { id: b.id },
+        data: { prunedAt: new Date(), filePath: null },
+      });
+    }
+
+    if (expired.length > 0) {
+      console.log(`[Backup] Pruned ${expired.length} backup file(s)`);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Agent 무응답 백업 요청 → FAILED (만료 처리된 백업 반환)
+   */
+  async expireStale() {
+    const stale = await prisma.backup.findMany({
+      where: {
+        status: { in: ['PENDING', 'IN_PROGRESS'] },
+        createdAt: { lt: new Date(Date.now() - STALE_TIMEOUT_MS) },
+      },
+      include: { schedule: true, machine: { select: { machineId: true } } },
+    });
+    if (stale.length === 0) return stale;
+
+    await prisma.backup.updateMany({
+      where: { id: { in: stale.map((b) => b.id) }, status: { in: ['PENDING', 'IN_PROGRESS'] } },
+      data: { status: 'FAILED', errorMessage: STALE_ERROR_MESSAGE, completedAt: new Date() },
+    });
+    return stale;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    void this.run();
+    this.timer = setInterval(() => { void this.run(); }, PRUNE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async run(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.prune();
+    } catch (err) {
+      console.error('[Backup] Retention job failed:', err);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const backupRetention = new BackupRetentionService();
+export default backupRetention;
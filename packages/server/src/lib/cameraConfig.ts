@@ -0,0 +1,133 @@
+/**
+ * CameraConfig - 카메라 설정 저장소 (cameras 테이블)
+ *
+ *   loadCameraConfigs : 스트림 / 녹화 / 상태 점검용 런타임 설정 (비밀번호 복호화)
+ *   toCameraDto       : API 응답 — 비밀번호는 내려주지 않고 hasPassword 만 표시
+ *   importLegacyCameraConfigs : 구 GlobalSetting 'camera.configs'(평문 JSON) → 테이블 이전 후 설정 행 삭제
+ */
+
+import { Camera } from '@prisma/client';
+import { prisma } from './prisma';
+import { encryptSecret, decryptSecret } from './credentials';
+import type { CameraConfig } from './cameraGateway';
+
+const LEGACY_CONFIGS_KEY = 'camera.configs';
+
+type CameraWithMachine = Camera & { machine: { machineId: string } | null };
+
+export interface CameraHealthDto {
+  status: string | null;            // 'ONLINE' | CameraErrorCode | null(미점검)
+  latencyMs: number | null;
+  error: string | null;
+  checkedAt: string | null;
+  lastOnlineAt: string | null;
+}
+
+export interface CameraDto {
+  id: string;
+  name: string;
+  ipAddress: string;
+  rtspPort: number;
+  streamPath: string;
+  username: string;
+  hasPassword: boolean;
+  enabled: boolean;
+  assignedMachineId?: string;
+  defaultZoom: number;
+  health: CameraHealthDto;
+}
+
+export function toCameraConfig(camera: CameraWithMachine): CameraConfig {
+  const password = camera.passwordEnc ? decryptSecret(camera.passwordEnc) : '';
+  if (password === null) {
+    console.warn(`[Camera] Cannot decrypt password for ${camera.id} (CREDENTIAL_SECRET 변경?)`);
+  }
+  return {
+    id: camera.id,
+    name: camera.name,
+    ipAddress: camera.ipAddress,
+    rtspPort: camera.rtspPort,
+    streamPath: camera.streamPath,
+    username: camera.username,
+    password: password ?? '',
+    enabled: camera.enabled,
+    assignedMachineId: camera.machine?.machineId,
+  };
+}
+
+export function toCameraDto(camera: CameraWithMachine): CameraDto {
+  return {
+    id: camera.id,
+    name: camera.name,
+    ipAddress: camera.ipAddress,
+    rtspPort: camera.rtspPort,
+    streamPath: camera.streamPath,
+    username: camera.username,
+    hasPassword: !!camera.passwordEnc,
+    enabled: camera.enabled,
+    assignedMachineId: camera.machine?.machineId,
+    defaultZoom: camera.defaultZoom,
+    health: {
+      status: camera.healthStatus,
+      latencyMs: camera.healthLatencyMs,
+      error: camera.healthError,
+      checkedAt: camera.healthCheckedAt?.toISOString() ?? null,
+      lastOnlineAt: camera.lastOnlineAt?.toISOString() ?? null,
+    },
+  };
+}
+
+export const CAMERA_INCLUDE = { machine: { select: { machineId: true } } } as const;
+
+export async function loadCameraConfigs(): Promise<CameraConfig[]> {
+  const cameras = await prisma.camera.findMany({ include: CAMERA_INCLUDE, orderBy: { createdAt: 'asc' } });
+  return cameras.map(toCameraConfig);
+}
+
+export async function loadCameraConfig(id: string): Promise<CameraConfig | null> {
+  const camera = await prisma.camera.findUnique({ where: { id }, include: CAMERA_INCLUDE });
+  return camera ? toCameraConfig(camera) : null;
+}
+
+/**
+ * 구 JSON 설정 이전 (서버 시작 시 1회) — 이전된 카메라 수 반환
+ */
+export async function importLegacyCameraConfigs(): Promise<number> {
+  const row = await prisma.globalSetting.findUnique({ where: { key: LEGACY_CONFIGS_KEY } });
+  if (!row) return 0;
+
+  let legacy: Array<Partial<CameraConfig> & { defaultZoom?: number }> = [];
+  try {
+    const parsed = typeof row.value === 'string' ? JSON.parse(row.value) : row.value;
+    if (Array.isArray(parsed)) legacy = parsed;
+  } catch {
+    console.warn('[Camera] Legacy camera.configs is not valid JSON — skipped');
+  }
+
+  const machines = await prisma.machine.findMany({ select: { id: true, machineId: true } });
+  let imported = 0;
+  for (const c of legacy) {
+    if (!c.id || !c.name || !c.ipAddress) continue;
+    if (await prisma.camera.findUnique({ where: { id: c.id } })) continue;
+    await prisma.camera.create({
+      data: {
+        id: c.id,
+        name: c.name,
+        ipAddress: c.ipAddress,
+        rtspPort: Number(c.rtspPort) || 554,
+        streamPath: c.streamPath ?? '',
+        username: c.username ?? '',
+        passwordEnc: c.password ? encryptSecret(c.password) : null,
+        enabled: c.enabled !== false,
+        machineDbId: machines.find((m) => m.machineId === c.assignedMachineId)?.id ?? null,
+        defaultZoom: typeof c.defaultZoom === 'number' ? c.defaultZoom : 1,
+      },
+    });
+    imported++;
+  }
+
+  // 평문 비밀번호가 담긴 설정 행 제거
+  await prisma.globalSetting.delete({ where: { key: LEGACY_CONFIGS_KEY } });
+  console.log(`[Camera] Imported ${imported} camera(s) from legacy settings`);
+  return imported;
+}
@@ -0,0 +1,683 @@
+/**
+ * CameraGateway - 카메라 RTSP 단일 수신 → 다중 뷰어 분배
+ *
+ * 흐름:
+ *   첫 뷰어 접속 → 수신 FFmpeg 1개 (RTSP → MPEG-TS, 영상 copy — 카메라당 RTSP 연결 1개)
+ *     ├─ MJPEG 출력 FFmpeg (TS stdin → mpjpeg)  ← <img> 뷰어 (기존 /stream)
+ *     └─ fMP4  출력 FFmpeg (TS stdin → fragmented MP4, copy) ← MSE 뷰어 (/stream.mp4)
+ *   출력 FFmpeg 은 해당 형식 뷰어가 있을 때만 기동 (stdin/stdout 파이프만 사용 — Windows 호환)
+ *   마지막 뷰어 이탈 후 IDLE_SHUTDOWN_MS 동안 재접속 없으면 출력 / 수신 순으로 종료
+ *
+ * 늦게 들어온 뷰어:
+ *   MJPEG → 최근 프레임 즉시 전송
+ *   fMP4  → init segment(ftyp+moov) 후 다음 fragment(키프레임 시작)부터 전송
+ * 느린 뷰어는 소켓 버퍼가 MAX_VIEWER_BUFFER 를 넘으면 프레임 / fragment 단위로 건너뜀.
+ *
+ * 상시 수신(pin) — 장비에 할당된 카메라 (cameraRecorder):
+ *   뷰어가 없어도 수신 유지, 최근 PRE_BUFFER_MS 의 TS 를 메모리에 보관 (알람 클립의 사전 구간)
+ *   수신이 끊기면 RESTART_DELAYS 간격으로 재접속
+ */
+
+import { EventEmitter } from 'events';
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { randomUUID } from 'crypto';
+import type { Response } from 'express';
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const ffmpegPath: string | null = require('ffmpeg-static');
+
+const IDLE_SHUTDOWN_MS  = 15_000;
+const MAX_VIEWER_BUFFER = 4 * 1024 * 1024;
+const TS_PACKET_SIZE    = 188;
+const MJPEG_BOUNDARY    = 'ffmpeg';
+const PRE_BUFFER_MS     = 35_000;
+const RESTART_DELAYS    = [5_000, 10_000, 30_000, 60_000];
+
+export interface CameraConfig {
+  id: string;
+  name: string;
+  ipAddress: string;
+  rtspPort: number;
+  streamPath: string;
+  username: string;
+  password: string;
+  enabled: boolean;
+  assignedMachineId?: string;
+}
+
+export type CameraErrorCode =
+  | 'AUTH_ERROR'
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'STREAM_ENDED'
+  | 'BUSY'
+  | 'NOT_FOUND'
+  | 'FFMPEG_ERROR'
+  | 'INTERNAL_ERROR';
+
+export type ViewerKind = 'mjpeg' | 'fmp4';
+
+export interface ViewerInfo {
+  id: string;
+  kind: ViewerKind;
+  username: string;
+  clientIp: string;
+  since: number;
+}
+
+export interface CameraStreamStatus {
+  id: string;
+  streaming: boolean;
+  startedAt: number | null;
+  codec: string | null;              // fMP4 init 기준 (예: avc1.64001f)
+  outputs: ViewerKind[];             // 기동 중인 출력
+  pinned: boolean;                   // 상시 수신 (알람 녹화 대상)
+  viewers: { mjpeg: number; fmp4: number; total: number };
+  clients: ViewerInfo[];
+}
+
+export interface CapturedClip {
+  data: Buffer;                      // MPEG-TS (패킷 경계 정렬)
+  startedAt: Date;
+  endedAt: Date;
+}
+
+interface Capture {
+  chunks: Buffer[];
+  startedAt: number;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (clip: CapturedClip) => void;
+}
+
+interface Viewer extends ViewerInfo {
+  res: Response;
+  started: boolean;                  // 응답 헤더 전송 여부
+}
+
+const ERROR_STATUS: Record<CameraErrorCode, number> = {
+  AUTH_ERROR: 401,
+  NETWORK_ERROR: 502,
+  TIMEOUT: 504,
+  STREAM_ENDED: 502,
+  BUSY: 409,
+  NOT_FOUND: 404,
+  FFMPEG_ERROR: 500,
+  INTERNAL_ERROR: 500,
+};
+
+/**
+ * FFmpeg stderr → 카메라 오류 분류 (스트림 / 상태 점검 공용)
+ */
+export function classifyCameraError(stderr: string): { code: CameraErrorCode; message: string } | null {
+  if (stderr.includes('401') || stderr.includes('Unauthorized')) {
+    return { code: 'AUTH_ERROR', message: '카메라 인증 실패 (ID/PW 확인)' };
+  }
+  if (/Connection refused|No route to host|Connection timed out|Network is unreachable/.test(stderr)) {
+    return { code: 'NETWORK_ERROR', message: '카메라에 접속할 수 없습니다 (IP/포트 확인)' };
+  }
+  if (/404|Not Found/.test(stderr)) {
+    return { code: 'NOT_FOUND', message: '스트림 경로를 찾을 수 없습니다 (경로 확인)' };
+  }
+  return null;
+}
+
+export function rtspUrlOf(camera: CameraConfig, masked = false): string {
+  const auth = camera.username
+    ? `${encodeURIComponent(camera.username)}:${masked ? '●●●' : encodeURIComponent(camera.password)}@`
+    : '';
+  return `rtsp://${auth}${camera.ipAddress}:${camera.rtspPort}${camera.streamPath}`;
+}
+
+function maskLog(line: string): string {
+  return line.replace(/:([^@/]+)@/, ':●●●@');
+}
+
+// ── 출력 프로세스 (TS stdin → 형식별 stdout) ───────────────────────
+
+abstract class StreamOutput extends EventEmitter {
+  readonly process: ChildProcessWithoutNullStreams;
+  private aligned = false;
+
+  constructor(readonly cameraId: string, readonly kind: ViewerKind, args: string[]) {
+    super();
+    this.process = spawn(ffmpegPath!, args);
+    this.process.stdin.on('error', () => { /* 출력 종료 중 EPIPE 무시 */ });
+    this.process.stdout.on('data', (chunk: Buffer) => this.onData(chunk));
+    this.process.stderr.on('data', (data: Buffer) => {
+      const trimmed = data.toString().trim();
+      if (trimmed) console.log(`[Camera:${cameraId}:${kind}] ${trimmed}`);
+    });
+    this.process.on('exit', (code, signal) => this.emit('exit', code, signal));
+  }
+
+  /**
+   * 수신 TS 바이트 공급 — 첫 공급은 TS 패킷 경계(188B)에 맞춰 시작
+   */
+  feed(chunk: Buffer, streamOffset: number): void {
+    if (!this.process.stdin.writable) return;
+    if (!this.aligned) {
+      const skip = (TS_PACKET_SIZE - (streamOffset % TS_PACKET_SIZE)) % TS_PACKET_SIZE;
+      if (skip >= chunk.length) return;
+      chunk = chunk.subarray(skip);
+      this.aligned = true;
+    }
+    this.process.stdin.write(chunk);
+  }
+
+  stop(): void {
+    this.process.stdin.end();
+    this.process.kill('SIGTERM');
+  }
+
+  protected abstract onData(chunk: Buffer): void;
+  abstract attach(viewer: Viewer): void;
+}
+
+class MjpegOutput extends StreamOutput {
+  private buffer: Buffer = Buffer.alloc(0);
+  latestFrame: Buffer | null = null;
+
+  constructor(cameraId: string) {
+    super(cameraId, 'mjpeg', [
+      '-loglevel', 'warning',
+      '-fflags', 'nobuffer',
+      '-f', 'mpegts',
+      '-i', 'pipe:0',
+      '-vf', 'scale=1280:-2,fps=20',
+      '-q:v', '3',
+      '-threads', '4',
+      '-f', 'mpjpeg',
+      'pipe:1',
+    ]);
+  }
+
+  // mpjpeg: --ffmpeg\r\nContent-Type: image/jpeg\r\nContent-Length: N\r\n\r\n<jpeg>\r\n
+  protected onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd < 0) return;
+      const header = this.buffer.subarray(0, headerEnd).toString('latin1');
+      const match = /Content-Length:\s*(\d+)/i.exec(header);
+      if (!match) {
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        continue;
+      }
+      const length = Number(match[1]);
+      const start = headerEnd + 4;
+      if (this.buffer.length < start + length) return;
+      const frame = Buffer.from(this.buffer.subarray(start, start + length));
+      this.buffer = this.buffer.subarray(start + length);
+      this.latestFrame = frame;
+      this.emit('frame', frame);
+    }
+  }
+
+  static writeFrame(viewer: Viewer, frame: Buffer): void {
+    if (!viewer.started) {
+      viewer.res.setHeader('Content-Type', `multipart/x-mixed-replace; boundary=${MJPEG_BOUNDARY}`);
+      viewer.res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
+      viewer.res.setHeader('Pragma', 'no-cache');
+      viewer.res.setHeader('X-Content-Type-Options', 'nosniff');
+      viewer.res.setHeader('X-Accel-Buffering', 'no');
+      viewer.started = true;
+    } else if (viewer.res.writableLength > MAX_VIEWER_BUFFER) {
+      return;   // 느린 뷰어 — 프레임 건너뜀
+    }
+    viewer.res.write(`--${MJPEG_BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${frame.length}\r\n\r\n`);
+    viewer.res.write(frame);
+    viewer.res.write('\r\n');
+  }
+
+  attach(viewer: Viewer): void {
+    if (this.latestFrame) MjpegOutput.writeFrame(viewer, this.latestFrame);
+  }
+}
+
+class Fmp4Output extends StreamOutput {
+  private buffer: Buffer = Buffer.alloc(0);
+  private initParts: Buffer[] = [];
+  private pendingMoof: Buffer | null = null;
+  init: Buffer | null = null;
+  codec: string | null = null;
+
+  constructor(cameraId: string) {
+    super(cameraId, 'fmp4', [
+      '-loglevel', 'warning',
+      '-fflags', 'nobuffer',
+      '-f', 'mpegts',
+      '-i', 'pipe:0',
+      '-c:v', 'copy',
+      '-an',
+      '-f', 'mp4',
+      '-movflags', 'frag_keyframe+empty_moov+default_base_moof',
+      'pipe:1',
+    ]);
+  }
+
+  // 최상위 box 단위 파싱: ftyp + moov → init, moof + mdat → fragment
+  protected onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    while (this.buffer.length >= 8) {
+      let size = this.buffer.readUInt32BE(0);
+      const type = this.buffer.toString('latin1', 4, 8);
+      if (size === 1) {
+        if (this.buffer.length < 16) return;
+        size = Number(this.buffer.readBigUInt64BE(8));
+      }
+      if (size < 8 || this.buffer.length < size) return;
+      const box = Buffer.from(this.buffer.subarray(0, size));
+      this.buffer = this.buffer.subarray(size);
+
+      if (!this.init) {
+        this.initParts.push(box);
+        if (type === 'moov') {
+          this.init = Buffer.concat(this.initParts);
+          this.initParts = [];
+          this.codec = Fmp4Output.parseCodec(box);
+          this.emit('init', this.init);
+        }
+      } else if (type === 'moof') {
+        this.pendingMoof = box;
+      } else if (type === 'mdat' && this.pendingMoof) {
+        const fragment = Buffer.concat([this.pendingMoof, box]);
+        this.pendingMoof = null;
+        this.emit('fragment', fragment);
+      }
+    }
+  }
+
+  // avcC: version(1) profile(1) compat(1) level(1) → avc1.PPCCLL
+  private static parseCodec(moov: Buffer): string | null {
+    const avcc = moov.indexOf('avcC');
+    if (avcc >= 0 && moov.length >= avcc + 8) {
+      const hex = (n: number) => n.toString(16).padStart(2, '0');
+      return `avc1.${hex(moov[avcc + 5])}${hex(moov[avcc + 6])}${hex(moov[avcc + 7])}`;
+    }
+    if (moov.indexOf('hvcC') >= 0) return 'hvc1';
+    return null;
+  }
+
+  static writeChunk(viewer: Viewer, data: Buffer, isInit: boolean): void {
+    if (!viewer.started) {
+      if (!isInit) return;
+      viewer.res.setHeader('Content-Type', 'video/mp4');
+      viewer.res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
+      viewer.res.setHeader('X-Accel-Buffering', 'no');
+      viewer.started = true;
+    } else if (!isInit && viewer.res.writableLength > MAX_VIEWER_BUFFER) {
+      return;   // 느린 뷰어 — fragment 건너뜀 (다음 fragment 는 키프레임 시작)
+    }
+    viewer.res.write(data);
+  }
+
+  attach(viewer: Viewer): void {
+    if (this.init) Fmp4Output.writeChunk(viewer, this.init, true);
+  }
+}
+
+// ── 카메라별 수신 ──────────────────────────────────────────────────
+
+class CameraIngest {
+  readonly startedAt = Date.now();
+  readonly viewers = new Map<string, Viewer>();
+  readonly outputs = new Map<ViewerKind, StreamOutput>();
+  private readonly process: ChildProcessWithoutNullStreams;
+  private streamOffset = 0;
+  private stderrBuf = '';
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = false;
+  private preBuffer: Array<{ at: number; offset: number; data: Buffer }> = [];
+  private captures = new Set<Capture>();
+  pinned = false;
+  receivedData = false;
+  lastDataAt = 0;
+
+  constructor(readonly camera: CameraConfig, private readonly onStopped: (ingest: CameraIngest, reason: string) => void) {
+    console.log(`[Camera] Ingest start: ${camera.id} → ${rtspUrlOf(camera, true)}`);
+    this.process = spawn(ffmpegPath!, [
+      '-loglevel', 'warning',
+      '-rtsp_transport', 'tcp',
+      '-i', rtspUrlOf(camera),
+      '-map', '0:v:0',
+      '-c:v', 'copy',
+      '-an',
+      '-f', 'mpegts',
+      'pipe:1',
+    ]);
+
+    this.process.stdout.on('data', (chunk: Buffer) => {
+      this.receivedData = true;
+      this.lastDataAt = Date.now();
+      for (const output of this.outputs.values()) output.feed(chunk, this.streamOffset);
+      if (this.pinned) this.bufferChunk(chunk);
+      for (const capture of this.captures) capture.chunks.push(chunk);
+      this.streamOffset += chunk.length;
+    });
+
+    this.process.stderr.on('data', (data: Buffer) => {
+      const msg = data.toString();
+      this.stderrBuf = (this.stderrBuf + msg).slice(-4096);
+      const trimmed = msg.trim();
+      if (trimmed) console.log(`[Camera:${camera.id}] ${maskLog(trimmed)}`);
+
+      const error = classifyCameraError(this.stderrBuf);
+      if (error) this.fail(error.code, error.message);
+    });
+
+    this.process.on('exit', (code, signal) => {
+      console.log(`[Camera] Ingest ended: ${camera.id} (code=${code}, signal=${signal})`);
+      this.fail('STREAM_ENDED', '카메라 스트림이 종료되었습니다');
+    });
+  }
+
+  get codec(): string | null {
+    return (this.outputs.get('fmp4') as Fmp4Output | undefined)?.codec ?? null;
+  }
+
+  private bufferChunk(chunk: Buffer): void {
+    const now = Date.now();
+    this.preBuffer.push({ at: now, offset: this.streamOffset, data: chunk });
+    while (this.preBuffer.length > 0 && this.preBuffer[0].at < now - PRE_BUFFER_MS) this.preBuffer.shift();
+  }
+
+  /**
+   * 클립 수집 — 사전 버퍼의 preMs 구간 + 이후 postMs 구간 (수신 종료 시 그때까지)
+   */
+  capture(preMs: number, postMs: number): Promise<CapturedClip> {
+    const since = Date.now() - preMs;
+    const pre = this.preBuffer.filter((c) => c.at >= since);
+    const chunks: Buffer[] = [];
+    if (pre.length > 0) {
+      // TS 패킷 경계부터 시작
+      const skip = (TS_PACKET_SIZE - (pre[0].offset % TS_PACKET_SIZE)) % TS_PACKET_SIZE;
+      chunks.push(pre[0].data.subarray(skip), ...pre.slice(1).map((c) => c.data));
+    }
+    const startedAt = pre[0]?.at ?? Date.now();
+
+    return new Promise((resolve) => {
+      const capture: Capture = {
+        chunks,
+        startedAt,
+        timer: setTimeout(() => this.finishCapture(capture), postMs),
+        resolve,
+      };
+      this.captures.add(capture);
+    });
+  }
+
+  private finishCapture(capture: Capture): void {
+    if (!this.captures.delete(capture)) return;
+    clearTimeout(capture.timer);
+    capture.resolve({
+      data: Buffer.concat(capture.chunks),
+      startedAt: new Date(capture.startedAt),
+      endedAt: new Date(),
+    });
+  }
+
+  private ensureOutput(kind: ViewerKind): StreamOutput {
+    const existing = this.outputs.get(kind);
+    if (existing) return existing;
+
+    const output = kind === 'mjpeg' ? new MjpegOutput(this.camera.id) : new Fmp4Output(this.camera.id);
+    if (output instanceof MjpegOutput) {
+      output.on('frame', (frame: Buffer) => {
+        for (const v of this.viewers.values()) if (v.kind === 'mjpeg') MjpegOutput.writeFrame(v, frame);
+      });
+    } else if (output instanceof Fmp4Output) {
+      output.on('init', (init: Buffer) => {
+        for (const v of this.viewers.values()) if (v.kind === 'fmp4') Fmp4Output.writeChunk(v, init, true);
+      });
+      output.on('fragment', (fragment: Buffer) => {
+        for (const v of this.viewers.values()) if (v.kind === 'fmp4') Fmp4Output.writeChunk(v, fragment, false);
+      });
+    }
+    output.on('exit', () => {
+      if (this.outputs.get(kind) !== output) return;
+      this.outputs.delete(kind);
+      // 출력만 비정상 종료 → 해당 형식 뷰어 종료 (클라이언트 재접속 시 재기동)
+      for (const v of [...this.viewers.values()]) {
+        if (v.kind === kind) this.endViewer(v, 'FFMPEG_ERROR', '스트림 변환 프로세스가 종료되었습니다');
+      }
+    });
+    this.outputs.set(kind, output);
+    console.log(`[Camera] Output start: ${this.camera.id} (${kind})`);
+    return output;
+  }
+
+  addViewer(viewer: Viewer): void {
+    if (this.idleTimer) { clearTimeout(this.idleTimer); this.idleTimer = null; }
+    this.viewers.set(viewer.id, viewer);
+    this.ensureOutput(viewer.kind).attach(viewer);
+  }
+
+  removeViewer(id: string): void {
+    if (!this.viewers.delete(id)) return;
+    this.scheduleIdleCheck();
+  }
+
+  /**
+   * 코덱 확인용 fMP4 출력 기동 (뷰어 없이) — 유휴 정리 대상
+   */
+  async probeCodec(timeoutMs: number): Promise<string | null> {
+    const output = this.ensureOutput('fmp4') as Fmp4Output;
+    this.scheduleIdleCheck();
+    if (output.init) return output.codec;
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => { output.off('init', onInit); resolve(null); }, timeoutMs);
+      const onInit = () => { clearTimeout(timer); resolve(output.codec); };
+      output.once('init', onInit);
+    });
+  }
+
+  /**
+   * 현재 프레임 JPEG — MJPEG 출력이 없으면 잠시 기동 (유휴 정리 대상)
+   */
+  async snapshot(timeoutMs: number): Promise<Buffer | null> {
+    const output = this.ensureOutput('mjpeg') as MjpegOutput;
+    this.scheduleIdleCheck();
+    if (output.latestFrame) return output.latestFrame;
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => { output.off('frame', onFrame); resolve(null); }, timeoutMs);
+      const onFrame = (frame: Buffer) => { clearTimeout(timer); resolve(frame); };
+      output.once('frame', onFrame);
+    });
+  }
+
+  scheduleIdleCheck(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      for (const [kind, output] of this.outputs) {
+        if (![...this.viewers.values()].some((v) => v.kind === kind)) {
+          console.log(`[Camera] Output idle stop: ${this.camera.id} (${kind})`);
+          this.outputs.delete(kind);
+          output.stop();
+        }
+      }
+      if (this.viewers.size === 0 && !this.pinned) this.stop('idle');
+    }, IDLE_SHUTDOWN_MS);
+  }
+
+  private endViewer(viewer: Viewer, code: CameraErrorCode, message: string): void {
+    this.viewers.delete(viewer.id);
+    if (!viewer.started && !viewer.res.headersSent) {
+      viewer.res.status(ERROR_STATUS[code]).json({ success: false, error: { code, message } });
+    } else if (!viewer.res.writableEnded) {
+      viewer.res.end();
+    }
+  }
+
+  private fail(code: CameraErrorCode, message: string): void {
+    if (this.stopped) return;
+    for (const v of [...this.viewers.values()]) this.endViewer(v, code, message);
+    this.stop(code);
+  }
+
+  stop(reason: string): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    if (this.idleTimer) { clearTimeout(this.idleTimer); this.idleTimer = null; }
+    for (const output of this.outputs.values()) output.stop();
+    this.outputs.clear();
+    for (const capture of [...this.captures]) this.finishCapture(capture);
+    this.preBuffer = [];
+    for (const v of [...this.viewers.values()]) this.endViewer(v, 'STREAM_ENDED', '스트림이 종료되었습니다');
+    this.process.kill('SIGTERM');
+    console.log(`[Camera] Ingest stop: ${this.camera.id} (${reason}, ran ${Date.now() - this.startedAt}ms)`);
+    this.onStopped(this, reason);
+  }
+}
+
+// ── 게이트웨이 ────────────────────────────────────────────────────
+
+class CameraGatewayService {
+  private ingests = new Map<string, CameraIngest>();
+  private pinned = new Map<string, CameraConfig>();
+  private restartTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private restartAttempts = new Map<string, number>();
+
+  get available(): boolean {
+    return !!ffmpegPath;
+  }
+
+  private ensureIngest(camera: CameraConfig): CameraIngest {
+    const existing = this.ingests.get(camera.id);
+    if (existing) return existing;
+    const ingest = new CameraIngest(camera, (stopped, reason) => {
+      if (this.ingests.get(camera.id) === stopped) this.ingests.delete(camera.id);
+      if (reason !== 'shutdown' && reason !== 'config') this.scheduleRestart(camera.id, stopped.receivedData);
+    });
+    ingest.pinned = this.pinned.has(camera.id);
+    this.ingests.set(camera.id, ingest);
+    return ingest;
+  }
+
+  // 상시 수신 카메라 재접속 (연속 실패 시 간격 증가)
+  private scheduleRestart(id: string, hadData: boolean): void {
+    if (!this.pinned.has(id) || this.restartTimers.has(id)) return;
+    const attempt = hadData ? 0 : (this.restartAttempts.get(id) ?? 0);
+    this.restartAttempts.set(id, attempt + 1);
+    const delay = RESTART_DELAYS[Math.min(attempt, RESTART_DELAYS.length - 1)];
+    this.restartTimers.set(id, setTimeout(() => {
+      this.restartTimers.delete(id);
+      const camera = this.pinned.get(id);
+      if (camera && !this.ingests.has(id)) this.ensureIngest(camera);
+    }, delay));
+  }
+
+  /**
+   * 상시 수신 지정 — 뷰어 없이도 수신 / 사전 버퍼 유지
+   */
+  pin(camera: CameraConfig): void {
+    this.pinned.set(camera.id, camera);
+    const ingest = this.ingests.get(camera.id);
+    if (ingest) ingest.pinned = true;
+    else if (!this.restartTimers.has(camera.id)) this.ensureIngest(camera);
+  }
+
+  unpin(id: string): void {
+    if (!this.pinned.delete(id)) return;
+    const timer = this.restartTimers.get(id);
+    if (timer) clearTimeout(timer);
+    this.restartTimers.delete(id);
+    this.restartAttempts.delete(id);
+    const ingest = this.ingests.get(id);
+    if (ingest) {
+      ingest.pinned = false;
+      ingest.scheduleIdleCheck();
+    }
+  }
+
+  pinnedIds(): string[] {
+    return [...this.pinned.keys()];
+  }
+
+  /**
+   * 알람 클립 수집 — 상시 수신 중이 아니면 null
+   */
+  capture(id: string, preMs: number, postMs: number): Promise<CapturedClip> | null {
+    const ingest = this.ingests.get(id);
+    return ingest?.pinned ? ingest.capture(preMs, postMs) : null;
+  }
+
+  async snapshot(camera: CameraConfig, timeoutMs = 8_000): Promise<Buffer | null> {
+    return this.ensureIngest(camera).snapshot(timeoutMs);
+  }
+
+  /**
+   * 뷰어 연결 — 수신 / 출력은 필요 시 기동, 응답 종료 시 자동 해제
+   */
+  attach(camera: CameraConfig, kind: ViewerKind, res: Response, client: { username: string; clientIp: string }): string {
+    const viewer: Viewer = {
+      id: randomUUID(),
+      kind,
+      username: client.username,
+      clientIp: client.clientIp,
+      since: Date.now(),
+      res,
+      started: false,
+    };
+    const ingest = this.ensureIngest(camera);
+    ingest.addViewer(viewer);
+    console.log(`[Camera] Viewer join: ${camera.id} (${kind}, ${client.username}@${client.clientIp}) — ${ingest.viewers.size} viewer(s)`);
+
+    res.on('close', () => {
+      ingest.removeViewer(viewer.id);
+      console.log(`[Camera] Viewer leave: ${camera.id} (${kind}, ${client.username}@${client.clientIp}) — ${ingest.viewers.size} viewer(s)`);
+    });
+    return viewer.id;
+  }
+
+  async probeCodec(camera: CameraConfig, timeoutMs = 8_000): Promise<string | null> {
+    return this.ensureIngest(camera).probeCodec(timeoutMs);
+  }
+
+  status(id: string): CameraStreamStatus {
+    const ingest = this.ingests.get(id);
+    const clients: ViewerInfo[] = ingest
+      ? [...ingest.viewers.values()].map(({ id: viewerId, kind, username, clientIp, since }) => ({ id: viewerId, kind, username, clientIp, since }))
+      : [];
+    const mjpeg = clients.filter((c) => c.kind === 'mjpeg').length;
+    return {
+      id,
+      streaming: !!ingest,
+      startedAt: ingest?.startedAt ?? null,
+      codec: ingest?.codec ?? null,
+      outputs: ingest ? [...ingest.outputs.keys()] : [],
+      pinned: this.pinned.has(id),
+      viewers: { mjpeg, fmp4: clients.length - mjpeg, total: clients.length },
+      clients,
+    };
+  }
+
+  /**
+   * 최근 withinMs 이내 수신 데이터 존재 여부 (상태 점검 시 RTSP 추가 접속 생략)
+   */
+  isReceiving(id: string, withinMs = 5_000): boolean {
+    const ingest = this.ingests.get(id);
+    return !!ingest && Date.now() - ingest.lastDataAt < withinMs;
+  }
+
+  get activeCount(): number {
+    return this.ingests.size;
+  }
+
+  /**
+   * 설정 변경 / 삭제 시 기존 수신 종료 (뷰어는 재접속으로 새 설정 적용)
+   */
+  stop(id: string, reason = 'config'): void {
+    this.ingests.get(id)?.stop(reason);
+  }
+
+  shutdown(): void {
+    for (const timer of this.restartTimers.values()) clearTimeout(timer);
+    this.restartTimers.clear();
+    this.pinned.clear();
+    console.log(`[Camera] Shutdown: stopping ${this.ingests.size} ingest(s)`);
+    for (const ingest of [...this.ingests.values()]) ingest.stop('shutdown');
+  }
+}
+
+export const cameraGateway = new CameraGatewayService();
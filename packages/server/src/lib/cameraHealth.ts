@@ -0,0 +1,140 @@
+/**
+ * CameraHealth - 카메라 상태 주기 점검
+ *
+ * PROBE_INTERVAL_MS 마다 활성 카메라를 순차 점검:
+ *   - 게이트웨이가 이미 수신 중이면 추가 RTSP 접속 없이 ONLINE (카메라 동시 접속 수 제한 대비)
+ *   - 아니면 FFmpeg 로 RTSP 접속 → 첫 프레임 수신까지 시간 = latencyMs
+ *   - 실패는 CameraErrorCode 로 분류 (AUTH_ERROR / NETWORK_ERROR / NOT_FOUND / TIMEOUT / FFMPEG_ERROR)
+ * 결과는 cameras 행(health*)에 기록하고 WebSocket 'camera_status' 로 전체 클라이언트에 전송.
+ */
+
+import { spawn } from 'child_process';
+import { prisma } from './prisma';
+import { wsService } from './websocket';
+import { cameraGateway, classifyCameraError, rtspUrlOf, CameraConfig, CameraErrorCode } from './cameraGateway';
+import { loadCameraConfigs } from './cameraConfig';
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const ffmpegPath: string | null = require('ffmpeg-static');
+
+const PROBE_INTERVAL_MS = 60_000;
+const PROBE_TIMEOUT_MS  = 10_000;
+
+export type CameraHealthStatus = 'ONLINE' | CameraErrorCode;
+
+export interface CameraHealthResult {
+  cameraId: string;
+  status: CameraHealthStatus;
+  latencyMs: number | null;
+  error: string | null;
+  checkedAt: string;
+}
+
+class CameraHealthService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  /**
+   * 단일 카메라 점검 (기록 / 전송 없음)
+   */
+  async probe(camera: CameraConfig): Promise<CameraHealthResult> {
+    const checkedAt = new Date().toISOString();
+    if (cameraGateway.isReceiving(camera.id)) {
+      return { cameraId: camera.id, status: 'ONLINE', latencyMs: null, error: null, checkedAt };
+    }
+    if (!ffmpegPath) {
+      return { cameraId: camera.id, status: 'FFMPEG_ERROR', latencyMs: null, error: 'ffmpeg를 찾을 수 없습니다', checkedAt };
+    }
+
+    const startedAt = Date.now();
+    return new Promise((resolve) => {
+      const ff = spawn(ffmpegPath, [
+        '-loglevel', 'error',
+        '-rtsp_transport', 'tcp',
+        '-i', rtspUrlOf(camera),
+        '-an',
+        '-frames:v', '1',
+        '-f', 'null',
+        '-',
+      ]);
+      let stderr = '';
+      let timedOut = false;
+      const timer = setTimeout(() => { timedOut = true; ff.kill('SIGKILL'); }, PROBE_TIMEOUT_MS);
+
+      ff.stderr.on('data', (data: Buffer) => { stderr = (stderr + data.toString()).slice(-4096); });
+      ff.on('error', (err) => {
+        clearTimeout(timer);
+        resolve({ cameraId: camera.id, status: 'FFMPEG_ERROR', latencyMs: null, error: err.message, checkedAt });
+      });
+      ff.on('exit', (code) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve({ cameraId: camera.id, status: 'ONLINE', latencyMs: Date.now() - startedAt, error: null, checkedAt });
+          return;
+        }
+        const classified = classifyCameraError(stderr);
+        if (classified) {
+          resolve({ cameraId: camera.id, status: classified.code, latencyMs: null, error: classified.message, checkedAt });
+        } else if (timedOut) {
+          resolve({ cameraId: camera.id, status: 'TIMEOUT', latencyMs: null, error: '카메라 응답 없음 (타임아웃)', checkedAt });
+        } else {
+          const lastLine = stderr.trim().split('\n').pop()?.replace(/:([^@/]+)@/, ':●●●@') || `code=${code}`;
+          resolve({ cameraId: camera.id, status: 'FFMPEG_ERROR', latencyMs: null, error: lastLine, checkedAt });
+        }
+      });
+    });
+  }
+
+  /**
+   * 점검 + 기록 + WebSocket 전송
+   */
+  async check(camera: CameraConfig): Promise<CameraHealthResult> {
+    const result = await this.probe(camera);
+    const online = result.status === 'ONLINE';
+    await prisma.camera.update({
+      where: { id: camera.id },
+      data: {
+        healthStatus: result.status,
+        healthLatencyMs: result.latencyMs,
+        healthError: result.error,
+        healthCheckedAt: new Date(result.checkedAt),
+        ...(online ? { lastOnlineAt: new Date(result.checkedAt) } : {}),
+      },
+    }).catch(() => { /* 점검 중 삭제된 카메라 */ });
+    wsService.sendCameraStatus(result);
+    return result;
+  }
+
+  async runAll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const cameras = (await loadCameraConfigs()).filter((c) => c.enabled);
+      for (const camera of cameras) {
+        const result = await this.check(camera);
+        if (result.status !== 'ONLINE') {
+          console.warn(`[CameraHealth] ${camera.id} ${result.status}: ${result.error}`);
+        }
+      }
+    } catch (err) {
+      console.error('[CameraHealth] Probe cycle failed:', err);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  start(): void {
+    if (this.timer) return;
+    void this.runAll();
+    this.timer = setInterval(() => { void this.runAll(); }, PROBE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const cameraHealth = new CameraHealthService();
@@ -0,0 +1,240 @@
+/**
+ * CameraRecorder - 알람 연동 카메라 클립 녹화
+ *
+ * 흐름:
+ *   sync()      : 장비에 할당된(assignedMachineId) 활성 카메라 → cameraGateway.pin (상시 수신 + 사전 버퍼)
+ *   storeAlarm  → recordAlarm(alarmId, machineId)
+ *                 → 알람 시점 스냅샷(JPEG) 저장
+ *                 → 사전 CLIP_PRE_MS + 사후 CLIP_POST_MS TS 수집 → FFmpeg remux(copy) → MP4
+ *                 → AlarmClip 행 RECORDING → READY / FAILED
+ *   같은 카메라 녹화 중 발생한 알람은 진행 중인 클립에 합류 (알람 폭주 시 중복 녹화 방지)
+ *
+ * 파일은 CLIP_DIR/<cameraId>/ 아래 저장, CLIP_RETENTION_DAYS 경과 시 파일만 삭제하고 행은 EXPIRED 로 남김.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { spawn } from 'child_process';
+import { prisma } from './prisma';
+import { cameraGateway, CameraConfig } from './cameraGateway';
+import { loadCameraConfigs } from './cameraConfig';
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const ffmpegPath: string | null = require('ffmpeg-static');
+
+export const CLIP_DIR = process.env.DATA_DIR
+  ? path.join(process.env.DATA_DIR, 'clips')
+  : path.join(process.cwd(), 'data', 'clips');
+
+const CLIP_PRE_MS         = 30_000;
+const CLIP_POST_MS        = 30_000;
+const CLIP_RETENTION_DAYS = 30;
+const PRUNE_INTERVAL_MS   = 60 * 60 * 1000;
+const REMUX_TIMEOUT_MS    = 60_000;
+
+/**
+ * 저장 경로(CLIP_DIR 기준 상대) → 절대 경로 (디렉토리 탈출 방지)
+ */
+export function resolveClipPath(relativePath: string): string | null {
+  const full = path.resolve(CLIP_DIR, relativePath);
+  return full.startsWith(path.resolve(CLIP_DIR) + path.sep) ? full : null;
+}
+
+function timestampName(d: Date): string {
+  return d.toISOString().replace(/[-:]/g, '').replace(/\..+$/, '');
+}
+
+interface ActiveRecording {
+  clipIds: string[];
+}
+
+class CameraRecorderService {
+  private active = new Map<string, ActiveRecording>();   // cameraId → 진행 중 녹화
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * 카메라 설정 → 상시 수신 대상 갱신 (설정 저장 시 / 서버 시작 시)
+   */
+  async sync(): Promise<void> {
+    if (!cameraGateway.available) return;
+    const cameras = (await loadCameraConfigs()).filter((c) => c.enabled && c.assignedMachineId);
+    const ids = new Set(cameras.map((c) => c.id));
+
+    for (const id of cameraGateway.pinnedIds()) {
+      if (!ids.has(id)) cameraGateway.unpin(id);
+    }
+    for (const camera of cameras) cameraGateway.pin(camera);
+
+    console.log(`[CameraRecorder] Pre-buffering ${cameras.length} camera(s)`);
+  }
+
+  /**
+   * 알람 발생 → 장비에 할당된 카메라별 클립 녹화 (완료까지 대기하지 않음)
+   */
+  async recordAlarm(alarmId: string, machineId: string): Promise<void> {
+    const cameras = (await loadCameraConfigs())
+      .filter((c) => c.enabled && c.assignedMachineId === machineId);
+
+    for (const camera of cameras) {
+      const joined = this.active.get(camera.id);
+      const clip = await prisma.alarmClip.create({
+        data: { alarmId, cameraId: camera.id, cameraName: camera.name, status: 'RECORDING' },
+      });
+      if (joined) {
+        joined.clipIds.push(clip.id);
+        continue;
+      }
+      void this.record(camera, clip.id);
+    }
+  }
+
+  private async record(camera: CameraConfig, clipId: string): Promise<void> {
+    const recording: ActiveRecording = { clipIds: [clipId] };
+    const capture = cameraGateway.capture(camera.id, CLIP_PRE_MS, CLIP_POST_MS);
+    if (!capture) {
+      await this.fail(recording, '카메라 상시 수신 중이 아닙니다 (연결 확인)');
+      return;
+    }
+    this.active.set(camera.id, recording);
+
+    const occurredAt = new Date();
+    const baseName = `${camera.id}/${timestampName(occurredAt)}_${clipId.slice(0, 8)}`;
+
+    try {
+      const snapshotPath = await this.saveSnapshot(camera, `${baseName}.jpg`);
+      if (snapshotPath) {
+        await prisma.alarmClip.updateMany({ where: { id: { in: recording.clipIds } }, data: { snapshotPath } });
+      }
+
+      const clip = await capture;
+      this.active.delete(camera.id);
+      if (clip.data.length === 0) {
+        await this.fail(recording, '수신된 영상이 없습니다');
+        return;
+      }
+
+      const filePath = `${baseName}.mp4`;
+      await this.remux(clip.data, resolveClipPath(filePath)!);
+      const { size } = await fs.stat(resolveClipPath(filePath)!);
+
+      await prisma.alarmClip.updateMany({
+        where: { id: { in: recording.clipIds } },
+        data: {
+          status: 'READY',
+          filePath,
+          ...(snapshotPath ? { snapshotPath } : {}),
+          startedAt: clip.startedAt,
+          endedAt: clip.endedAt,
+          sizeBytes: size,
+        },
+      });
+      console.log(`[CameraRecorder] Clip saved: ${filePath} (${recording.clipIds.length} alarm(s), ${size} bytes)`);
+    } catch (err) {
+      this.active.delete(camera.id);
+      console.error(`[CameraRecorder] Clip failed: ${camera.id}`, err);
+      await this.fail(recording, err instanceof Error ? err.message : '클립 저장 실패');
+    }
+  }
+
+  private async fail(recording: ActiveRecording, errorMessage: string): Promise<void> {
+    await prisma.alarmClip.updateMany({
+      where: { id: { in: recording.clipIds }, status: 'RECORDING' },
+      data: { status: 'FAILED', errorMessage },
+    });
+  }
+
+  private async saveSnapshot(camera: CameraConfig, relativePath: string): Promise<string | null> {
+    const frame = await cameraGateway.snapshot(camera).catch(() => null);
+    if (!frame) return null;
+    const fullPath = resolveClipPath(relativePath)!;
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, frame);
+    return relativePath;
+  }
+
+  // MPEG-TS → MP4 (재인코딩 없음, faststart — 브라우저 <video> 즉시 재생)
+  private async remux(ts: Buffer, outPath: string): Promise<void> {
+    if (!ffmpegPath) throw new Error('ffmpeg를 찾을 수 없습니다');
+    await fs.mkdir(path.dirname(outPath), { recursive: true });
+
+    await new Promise<void>((resolve, reject) => {
+      const ff = spawn(ffmpegPath, [
+        '-loglevel', 'error',
+        '-fflags', '+discardcorrupt',
+        '-f', 'mpegts',
+        '-i', 'pipe:0',
+        '-c', 'copy',
+        '-an',
+        '-movflags', '+faststart',
+        '-f', 'mp4',
+        '-y', outPath,
+      ]);
+      let stderr = '';
+      const timer = setTimeout(() => ff.kill('SIGKILL'), REMUX_TIMEOUT_MS);
+      ff.stderr.on('data', (data: Buffer) => { stderr = (stderr + data.toString()).slice(-2048); });
+      ff.stdin.on('error', () => { /* 조기 종료 시 EPIPE — exit 코드로 판정 */ });
+      ff.on('error', (err) => { clearTimeout(timer); reject(err); });
+      ff.on('exit', (code) => {
+        clearTimeout(timer);
+        if (code === 0) resolve();
+        else reject(new Error(`클립 변환 실패 (code=${code}) ${stderr.trim()}`));
+      });
+      ff.stdin.end(ts);
+    });
+  }
+
+  /**
+   * 보존 기간 경과 클립 파일 삭제 — 정리된 클립 수 반환
+   */
+  async prune(): Promise<number> {
+    const cutoff = new Date(Date.now() - CLIP_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const expired = await prisma.alarmClip.findMany({
+      where: { createdAt: { lt: cutoff }, status: { in: ['READY', 'FAILED'] } },
+      select: { id: true, filePath: true, snapshotPath: true },
+    });
+
+    // 합류 클립은 파일을 공유하므로 경로 단위로 한 번만 삭제
+    const paths = new Set<string>();
+    for (const c of expired) {
+      if (c.filePath) paths.add(c.filePath);
+      if (c.snapshotPath) paths.add(c.snapshotPath);
+    }
+    for (const relativePath of paths) {
+      const fullPath = resolveClipPath(relativePath);
+      if (!fullPath) continue;
+      try {
+        await fs.unlink(fullPath);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error(`[CameraRecorder] Failed to delete ${relativePath}:`, err);
+        }
+      }
+    }
+
+    if (expired.length > 0) {
+      await prisma.alarmClip.updateMany({
+        where: { id: { in: expired.map((c) => c.id) } },
+        data: { status: 'EXPIRED', filePath: null, snapshotPath: null },
+      });
+      console.log(`[CameraRecorder] Pruned ${expired.length} clip(s)`);
+    }
+    return expired.length;
+  }
+
+  async start(): Promise<void> {
+    await this.sync();
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.prune().catch((err) => console.error('[CameraRecorder] Retention job failed:', err));
+    }, PRUNE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const cameraRecorder = new CameraRecorderService();
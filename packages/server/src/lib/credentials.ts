@@ -0,0 +1,34 @@
+/**
+ * Credentials - 외부 장치 접속 비밀번호 암호화 저장 (AES-256-GCM)
+ *
+ * 저장 형식: v1:<iv base64>:<authTag base64>:<ciphertext base64>
+ * 키는 config.credentialSecret 의 SHA-256 — 키 변경 시 기존 값은 복호화 불가 (재입력 필요)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { config } from '../config';
+
+const VERSION = 'v1';
+const key = createHash('sha256').update(config.credentialSecret).digest();
+
+export function encryptSecret(plain: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+}
+
+/**
+ * 복호화 — 형식 오류 / 키 불일치 시 null
+ */
+export function decryptSecret(stored: string): string | null {
+  const [version, iv, tag, data] = stored.split(':');
+  if (version !== VERSION || !iv || !tag || data === undefined) return null;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    return null;
+  }
+}
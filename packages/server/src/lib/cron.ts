@@ -0,0 +1,116 @@
+/**
+ * Cron - 5필드 cron 표현식 파서 (분 시 일 월 요일, 서버 로컬 시간 기준)
+ *
+ * 지원 문법: *, 숫자, 범위(a-b), 목록(a,b), 간격(*\/n, a-b/n)
+ * 요일: 0-7 (0, 7 = 일요일)
+ * 일/요일이 모두 지정되면 둘 중 하나만 맞아도 실행 (표준 cron 동작)
+ *
+ * 예) '0 2 * * *'   매일 02:00
+ *     '30 3 * * 0'  매주 일요일 03:30
+ */
+
+export interface CronSpec {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  dayRestricted: boolean;
+  weekdayRestricted: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],  // minute
+  [0, 23],  // hour
+  [1, 31],  // day of month
+  [1, 12],  // month
+  [0, 7],   // day of week
+];
+
+const MAX_SEARCH_MINUTES = 8 * 366 * 24 * 60;   // 윤년 2월 29일 (최대 8년 간격) 포함
+
+function parseField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const m = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!m) return null;
+
+    let from = min;
+    let to = max;
+    if (m[1] !== '*') {
+      from = Number(m[2]);
+      to = m[3] !== undefined ? Number(m[3]) : (m[4] !== undefined ? max : from);
+    }
+    const step = m[4] !== undefined ? Number(m[4]) : 1;
+
+    if (from < min || to > max || from > to || step < 1) return null;
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+/**
+ * cron 표현식 파싱 (유효하지 않으면 null)
+ */
+export function parseCron(expr: string): CronSpec | null {
+  const fields = expr.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const sets = fields.map((f, i) => parseField(f, FIELD_RANGES[i][0], FIELD_RANGES[i][1]));
+  if (sets.some((s) => s === null)) return null;
+  const [minutes, hours, days, months, weekdays] = sets as Set<number>[];
+
+  if (weekdays.has(7)) {
+    weekdays.delete(7);
+    weekdays.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    dayRestricted: fields[2] !== '*',
+    weekdayRestricted: fields[4] !== '*',
+  };
+}
+
+function matchesDay(spec: CronSpec, d: Date): boolean {
+  const dayOk = spec.days.has(d.getDate());
+  const weekdayOk = spec.weekdays.has(d.getDay());
+  if (spec.dayRestricted && spec.weekdayRestricted) return dayOk || weekdayOk;
+  if (spec.dayRestricted) return dayOk;
+  if (spec.weekdayRestricted) return weekdayOk;
+  return true;
+}
+
+/**
+ * after 이후(초과) 첫 실행 시각 (탐색 구간 내 없으면 null — 예: 2월 30일, 4월 31일)
+ */
+export function nextCronTime(spec: CronSpec, after: Date): Date | null {
+  const t = new Date(after);
+  t.setSeconds(0, 0);
+  t.setMinutes(t.getMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_MINUTES * 60_000;
+  while (t.getTime() <= limit) {
+    if (!spec.months.has(t.getMonth() + 1) || !matchesDay(spec, t)) {
+      t.setDate(t.getDate() + 1);
+      t.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!spec.hours.has(t.getHours())) {
+      t.setHours(t.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!spec.minutes.has(t.getMinutes())) {
+      t.setMinutes(t.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return t;
+  }
+  return null;
+}
@@ -0,0 +1,177 @@
+/**
+ * FileRoots - DNC 폴더 탐색 허용 루트
+ *
+ * 서버에서 접근 가능한 디렉토리는 아래 루트 하위로 제한:
+ *   - DNC 저장소 (DATA_DIR/repo) — 항상 포함
+ *   - config.dncRoots (env DNC_ROOTS) — SMB/NFS 마운트 지점 등 '이름=경로' 또는 경로, 쉼표 구분
+ *
+ * 경로는 서버 기준 절대 경로로 주고받음. 상대 경로 / '..' 탈출 / 루트 밖을 가리키는 심볼릭 링크는 거부.
+ * Agent 는 같은 폴더를 다른 경로(D:\DNC, UNC 공유 등)로 보므로 루트별 agentPath 로 변환해 전달 (toAgentPath)
+ *   DNC_ROOTS 항목의 '>Agent 경로', DNC 저장소는 config.dncRepoAgentPath — 미지정 시 서버 경로 그대로
+ */
+
+import path from 'path';
+import { promises as fs, constants as fsConstants } from 'fs';
+import { config } from '../config';
+import { AppError } from '../middleware/error';
+
+const DATA_DIR = process.env.DATA_DIR ?? path.join(process.cwd(), 'data');
+const REPO_DIR = path.join(DATA_DIR, 'repo');
+
+// 폴더 이름 — 경로 구분자 / 제어 문자 / Windows 예약 문자 불가
+const FOLDER_NAME_RE = /^[^\\/:*?"<>|\x00-\x1f]+$/;
+
+export interface FileRoot {
+  label: string;
+  path: string;
+  agentPath: string | null;   // Agent PC 에서 보이는 같은 폴더 경로
+}
+
+export interface FolderEntry {
+  name: string;
+  path: string;
+}
+
+export interface PathCheck {
+  path: string;
+  root: string | null;        // 포함 루트 label (루트 밖이면 null)
+  exists: boolean;
+  isDirectory: boolean;
+  writable: boolean;
+}
+
+export function getFileRoots(): FileRoot[] {
+  const roots: FileRoot[] = [{ label: 'DNC 저장소', path: path.resolve(REPO_DIR), agentPath: config.dncRepoAgentPath || null }];
+  for (const item of config.dncRoots.split(',').map((s) => s.trim()).filter(Boolean)) {
+    const [location, agentPath] = item.split('>').map((s) => s.trim());
+    const eq = location.indexOf('=');
+    const label = eq > 0 ? location.slice(0, eq).trim() : path.basename(location) || location;
+    const rootPath = path.resolve(eq > 0 ? location.slice(eq + 1).trim() : location);
+    if (!roots.some((r) => r.path === rootPath)) roots.push({ label, path: rootPath, agentPath: agentPath || null });
+  }
+  return roots;
+}
+
+function isWithin(base: string, target: string): boolean {
+  return target === base || target.startsWith(base + path.sep);
+}
+
+function findRoot(target: string): FileRoot | null {
+  return getFileRoots().find((r) => isWithin(r.path, target)) ?? null;
+}
+
+/**
+ * 서버 경로 → Agent 경로 (포함 루트의 agentPath 기준, 없으면 서버 경로 그대로)
+ * agentPath 가 드라이브 문자 / UNC 로 시작하면 Windows 구분자로 결합
+ */
+export function toAgentPath(serverPath: string): string {
+  if (!serverPath) return serverPath;
+  const fullPath = path.resolve(serverPath);
+  const root = findRoot(fullPath);
+  if (!root?.agentPath) return serverPath;
+  const segments = path.relative(root.path, fullPath).split(path.sep).filter(Boolean);
+  if (segments.length === 0) return root.agentPath;
+  return /^([a-zA-Z]:|\\\\)/.test(root.agentPath)
+    ? path.win32.join(root.agentPath, ...segments)
+    : path.posix.join(root.agentPath, ...segments);
+}
+
+/**
+ * 요청 경로 → 정규화된 절대 경로 (루트 밖이면 null)
+ * 존재하는 경로는 실제 경로(심볼릭 링크 해석)까지 루트 안인지 확인
+ */
+export async function resolveWithinRoots(input: string): Promise<{ root: FileRoot; fullPath: string } | null> {
+  if (!input || !path.isAbsolute(input)) return null;
+  const fullPath = path.resolve(input);
+  const root = findRoot(fullPath);
+  if (!root) return null;
+
+  try {
+    const real = await fs.realpath(fullPath);
+    const realRoot = await fs.realpath(root.path).catch(() => root.path);
+    if (!isWithin(realRoot, real)) return null;
+  } catch {
+    // 존재하지 않는 경로 — 문자열 기준 검사만
+  }
+  return { root, fullPath };
+}
+
+/**
+ * 경로 존재 / 디렉토리 / 쓰기 권한 확인
+ */
+export async function checkPath(input: string): Promise<PathCheck> {
+  const resolved = await resolveWithinRoots(input);
+  if (!resolved) {
+    return { path: input, root: null, exists: false, isDirectory: false, writable: false };
+  }
+  const { root, fullPath } = resolved;
+  try {
+    const stat = await fs.stat(fullPath);
+    const writable = await fs.access(fullPath, fsConstants.W_OK).then(() => true, () => false);
+    return { path: fullPath, root: root.label, exists: true, isDirectory: stat.isDirectory(), writable };
+  } catch {
+    return { path: fullPath, root: root.label, exists: false, isDirectory: false, writable: false };
+  }
+}
+
+/**
+ * 하위 폴더 목록 (파일 / 숨김 폴더 제외)
+ */
+export async function listFolders(input: string): Promise<FolderEntry[]> {
+  const resolved = await resolveWithinRoots(input);
+  if (!resolved) throw new AppError(403, 'PATH_NOT_ALLOWED', `허용된 루트 밖의 경로입니다: ${input}`);
+
+  // DNC 저장소는 최초 접근 시 생성
+  if (resolved.fullPath === path.resolve(REPO_DIR)) await fs.mkdir(REPO_DIR, { recursive: true });
+
+  let entries;
+  try {
+    entries = await fs.readdir(resolved.fullPath, { withFileTypes: true });
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT' || code === 'ENOTDIR') throw new AppError(404, 'PATH_NOT_FOUND', `폴더를 찾을 수 없습니다: ${input}`);
+    if (code === 'EACCES' || code === 'EPERM') throw new AppError(403, 'PATH_NO_ACCESS', `폴더 읽기 권한이 없습니다: ${input}`);
+    throw err;
+  }
+
+  return entries
+    .filter((e) => e.isDirectory() && !e.name.startsWith('.'))
+    .map((e) => ({ name: e.name, path: path.join(resolved.fullPath, e.name) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * 새 폴더 생성 — 생성된 폴더의 절대 경로 반환
+ */
+export async function createFolder(parent: string, name: string): Promise<string> {
+  const folderName = name.trim();
+  if (!FOLDER_NAME_RE.test(folderName) || folderName === '.' || folderName === '..') {
+    throw new AppError(400, 'INVALID_FOLDER_NAME', `사용할 수 없는 폴더 이름입니다: ${name}`);
+  }
+
+  const parentCheck = await checkPath(parent);
+  if (!parentCheck.root) throw new AppError(403, 'PATH_NOT_ALLOWED', `허용된 루트 밖의 경로입니다: ${parent}`);
+  if (!parentCheck.exists || !parentCheck.isDirectory) throw new AppError(404, 'PATH_NOT_FOUND', `폴더를 찾을 수 없습니다: ${parent}`);
+  if (!parentCheck.writable) throw new AppError(403, 'PATH_NO_ACCESS', `폴더 쓰기 권한이 없습니다: ${parent}`);
+
+  const fullPath = path.join(parentCheck.path, folderName);
+  try {
+    await fs.mkdir(fullPath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'EEXIST') throw new AppError(409, 'PATH_EXISTS', `이미 존재하는 이름입니다: ${folderName}`);
+    throw err;
+  }
+  return fullPath;
+}
+
+/**
+ * DNC 경로 저장 전 검증 — 루트 안의 쓰기 가능한 기존 폴더가 아니면 오류 메시지 반환
+ */
+export async function validateDncPath(input: string): Promise<string | null> {
+  const check = await checkPath(input);
+  if (!check.root) return `허용된 루트 밖의 경로입니다: ${input}`;
+  if (!check.exists) return `폴더를 찾을 수 없습니다: ${input}`;
+  if (!check.isDirectory) return `폴더가 아닙니다: ${input}`;
+  if (!check.writable) return `폴더 쓰기 권한이 없습니다: ${input}`;
+  return null;
+}
@@ -0,0 +1,119 @@
+/**
+ * MeasurementSampler - NC 변수 주기 샘플링 → 측정 기록 (SPC)
+ *
+ * 측정 항목에 sampleVarKey(템플릿 CounterConfig.fields[].key) + sampleIntervalSec 가 있으면
+ * 주기마다 READ_COUNT (GET /api/machines/:id/count 와 같은 명령) 로 변수 값을 읽어 SAMPLED 측정으로 기록.
+ *   - 장비당 1회 명령으로 주기가 된 항목을 함께 샘플링
+ *   - 텔레메트리가 없는 장비(오프라인)는 건너뜀 — 온라인 복귀 시 바로 샘플링
+ *   - 직전 샘플과 값 / 생산 카운트(telemetry partsCount, sampleId 로 기록)가 모두 같으면 기록하지 않음
+ *     (정지 중 같은 값이 반복 기록되어 SPC 관리도가 왜곡되는 것 방지)
+ *   - Agent 오류 / 시간 초과도 lastSampledAt 갱신 → 다음 주기에 재시도
+ */
+
+import { MeasurementSource } from '@prisma/client';
+import { prisma } from './prisma';
+import { redisService, REDIS_KEYS } from './redis';
+import { sendNcCommand } from './ncCommand';
+import { ingestMeasurements, MeasurementRow } from './measurements';
+
+const TICK_MS = 10_000;
+const READ_TIMEOUT_MS = 10_000;
+
+interface CounterFieldResult {
+  key: string;
+  value: number;
+}
+
+class MeasurementSamplerService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => { void this.run(); }, TICK_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async run(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.sampleDue();
+    } catch (err) {
+      console.error('[Sampler] Sampling failed:', err);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async sampleDue(): Promise<void> {
+    const now = Date.now();
+    const features = await prisma.measurementFeature.findMany({
+      where: { isActive: true, sampleVarKey: { not: null }, sampleIntervalSec: { not: null } },
+      include: { machine: { select: { id: true, machineId: true, templateId: true } } },
+    });
+    const due = features.filter((f) => !f.lastSampledAt || now - f.lastSampledAt.getTime() >= f.sampleIntervalSec! * 1000);
+
+    const byMachine = new Map<string, typeof due>();
+    for (const f of due) byMachine.set(f.machineDbId, [...(byMachine.get(f.machineDbId) ?? []), f]);
+
+    for (const group of byMachine.values()) {
+      const machine = group[0].machine;
+      const telemetry = await redisService.get<{ partsCount?: number }>(REDIS_KEYS.MACHINE_TELEMETRY(machine.machineId));
+      if (!telemetry) continue;
+      const sampleId = String(telemetry.partsCount ?? 0);
+
+      await prisma.measurementFeature.updateMany({
+        where: { id: { in: group.map((f) => f.id) } },
+        data: { lastSampledAt: new Date(now) },
+      });
+
+      let fields: CounterFieldResult[];
+      try {
+        const res = await sendNcCommand(machine.id, machine.machineId, 'READ_COUNT', undefined, READ_TIMEOUT_MS);
+        if (res.status !== 'success') {
+          console.warn(`[Sampler] ${machine.machineId} READ_COUNT failed: ${res.errorMessage ?? res.errorCode}`);
+          continue;
+        }
+        fields = ((res.result as { fields?: CounterFieldResult[] } | undefined)?.fields) ?? [];
+      } catch {
+        console.warn(`[Sampler] ${machine.machineId} READ_COUNT timeout`);
+        continue;
+      }
+
+      const last = await prisma.measurement.findMany({
+        where: { featureId: { in: group.map((f) => f.id) }, source: MeasurementSource.SAMPLED },
+        orderBy: { measuredAt: 'desc' },
+        distinct: ['featureId'],
+        select: { featureId: true, value: true, sampleId: true },
+      });
+      const lastByFeature = new Map(last.map((m) => [m.featureId, m]));
+
+      const values = new Map(fields.map((f) => [f.key, f.value]));
+      const rows: MeasurementRow[] = [];
+      group.forEach((f, i) => {
+        const value = values.get(f.sampleVarKey!);
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          console.warn(`[Sampler] ${machine.machineId} counter field '${f.sampleVarKey}' not found for ${f.name}`);
+          return;
+        }
+        const prev = lastByFeature.get(f.id);
+        if (prev && prev.value === value && prev.sampleId === sampleId) return;
+        rows.push({ row: i + 1, feature: f.name, value, sampleId });
+      });
+      if (rows.length === 0) continue;
+
+      const result = await ingestMeasurements(machine, rows, MeasurementSource.SAMPLED, null);
+      result.errors.forEach((e) => console.warn(`[Sampler] ${machine.machineId} ${e.feature ?? ''}: ${e.message}`));
+    }
+  }
+}
+
+export const measurementSampler = new MeasurementSamplerService();
+export default measurementSampler;
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// 순수 함수만 검사 — DB / Redis / WS / bcrypt 연결 모듈은 로드하지 않음
+vi.mock('./prisma', () => ({ prisma: {} }));
+vi.mock('./redis', () => ({ redisService: {} }));
+vi.mock('./websocket', () => ({ wsService: {} }));
+vi.mock('../auth/password', () => ({ verifyPassword: vi.fn() }));
+
+import { evaluateCorrection, parseMeasurementCsv } from './measurements';
+
+const FEATURE = { nominal: 10, lowerTol: -0.02, upperTol: 0.02, gain: 0.5, deadBand: 0.003, toolNo: 1, axis: 'X' };
+
+describe('evaluateCorrection', () => {
+  it('편차 = 측정값 - 기준값, 보정량 = -편차 × gain', () => {
+    expect(evaluateCorrection(FEATURE, 10.01)).toEqual({ deviation: 0.01, inTolerance: true, correction: -0.005, note: null });
+    expect(evaluateCorrection(FEATURE, 9.992)).toEqual({ deviation: -0.008, inTolerance: true, correction: 0.004, note: null });
+  });
+
+  it('공차 경계는 공차 이내, 벗어나면 공차 이탈 (보정량은 계산)', () => {
+    expect(evaluateCorrection(FEATURE, 10.02).inTolerance).toBe(true);
+    expect(evaluateCorrection(FEATURE, 9.98).inTolerance).toBe(true);
+    expect(evaluateCorrection(FEATURE, 10.03)).toMatchObject({ inTolerance: false, correction: -0.015 });
+  });
+
+  it('데드밴드 이내 (경계 포함) 는 보정 없음', () => {
+    expect(evaluateCorrection(FEATURE, 10.003)).toEqual({ deviation: 0.003, inTolerance: true, correction: null, note: '데드밴드 이내' });
+    expect(evaluateCorrection(FEATURE, 9.998)).toMatchObject({ correction: null, note: '데드밴드 이내' });
+    expect(evaluateCorrection(FEATURE, 10.004).correction).toBe(-0.002);
+  });
+
+  it('반올림 후 보정량 0 이면 보정 없음', () => {
+    expect(evaluateCorrection({ ...FEATURE, gain: 0.01, deadBand: 0 }, 10.004)).toMatchObject({ correction: null, note: '보정량 0' });
+  });
+
+  it('공구 / 축이 없는 SPC 전용 항목은 판정만', () => {
+    expect(evaluateCorrection({ ...FEATURE, toolNo: null, axis: null }, 10.01))
+      .toEqual({ deviation: 0.01, inTolerance: true, correction: null, note: null });
+  });
+});
+
+describe('parseMeasurementCsv', () => {
+  it('머리글 대소문자 / 열 순서 / BOM / CRLF 무관', () => {
+    const { rows, errors } = parseMeasurementCsv('\uFEFFValue,FEATURE,sampleid\r\n10.01,OD1,S-1\r\n9.99,OD2,\r\n');
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { row: 2, feature: 'OD1', value: 10.01, measuredAt: undefined, sampleId: 'S-1', productCode: undefined },
+      { row: 3, feature: 'OD2', value: 9.99, measuredAt: undefined, sampleId: undefined, productCode: undefined },
+    ]);
+  });
+
+  it('따옴표 셀 (쉼표 / 이스케이프된 따옴표)', () => {
+    const { rows } = parseMeasurementCsv('feature,value,productCode\n"OD ""A"", 1",10,"P-1"');
+    expect(rows[0]).toMatchObject({ feature: 'OD "A", 1', value: 10, productCode: 'P-1' });
+  });
+
+  it('measuredAt 파싱', () => {
+    const { rows } = parseMeasurementCsv('feature,value,measuredAt\nOD1,10,2026-10-19T08:30:00Z');
+    expect(rows[0].measuredAt).toEqual(new Date('2026-10-19T08:30:00Z'));
+  });
+
+  it('잘못된 행은 줄 번호와 함께 오류, 빈 줄은 무시', () => {
+    const { rows, errors } = parseMeasurementCsv('feature,value,measuredAt\nOD1,abc,\n\n,10,\nOD2,10,not-a-date\nOD3,10,');
+    expect(rows.map((r) => r.row)).toEqual([6]);
+    expect(errors).toEqual([
+      { row: 2, feature: 'OD1', message: 'feature / value 값이 올바르지 않습니다' },
+      { row: 4, feature: '', message: 'feature / value 값이 올바르지 않습니다' },
+      { row: 5, feature: 'OD2', message: 'measuredAt 형식이 올바르지 않습니다' },
+    ]);
+  });
+
+  it('feature / value 열이 없으면 400 INVALID_CSV', () => {
+    expect(() => parseMeasurementCsv('name,value\nOD1,10')).toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_CSV' }));
+  });
+});
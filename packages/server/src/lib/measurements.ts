@@ -0,0 +1,545 @@
+/**
+ * Measurements - 게이지 측정값 수집 / 마모 오프셋 보정 제안 · 자동 적용
+ *
+ * 측정 항목(MeasurementFeature): 장비별 게이지 항목 키 → 공구 / PATH / 축, 기준값 / 공차 / gain / 데드밴드
+ *   편차   = 측정값 - 기준값
+ *   보정량 = -편차 × gain (mm, 현재 마모 오프셋에 가산) — |편차| ≤ 데드밴드면 보정 없음
+ *
+ * 수집: JSON API (게이지 PC) / CSV 업로드 / POP 수기 입력 / 변수 주기 샘플링(lib/measurementSampler)
+ *   모든 측정값은 추세(Measurement)로 저장 — 제품 코드(명시 > 진행 중 작업지시 > 항목 기본값)별 SPC 판정(lib/spc)
+ *   공구 / 축이 없는 항목은 SPC 전용 (보정 계산 안 함)
+ *   같은 항목의 이전 제안(PROPOSED)은 새 측정이 들어오면 SUPERSEDED (한 업로드 안에서는 마지막 측정만 보정 대상)
+ *   autoApply 항목 + 공차 이내 → lib/offsets.adjustWearOffset 으로 즉시 WRITE_OFFSET (템플릿 안전 한계 적용, 주기 샘플링 제외)
+ *     입력자에게 해당 장비 offsets.write 권한이 있고 다른 사용자가 제어권을 갖고 있지 않을 때만 — 아니면 제안으로 보류
+ *   공차 이탈 / 한계 초과 / Agent 오류 → 제안(PROPOSED)으로 남기고 사유 기록, 작업자가 적용 또는 기각
+ */
+
+import { CorrectionStatus, MeasurementFeature, MeasurementSource, Prisma, UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+import { redisService } from './redis';
+import { hasPermission } from './permissions';
+import { adjustWearOffset, isValidToolNo, parseAxis, OffsetApproval } from './offsets';
+import { checkSpcViolations, MIN_SUBGROUP_SIZE, MAX_SUBGROUP_SIZE } from './spc';
+import { AppError } from '../middleware/error';
+
+const VALUE_EPSILON = 1e-6;
+const MAX_ROWS = 1_000;              // 업로드 1회 최대 측정 수
+const MIN_SAMPLE_INTERVAL_SEC = 10;
+const MAX_SAMPLE_INTERVAL_SEC = 86_400;
+
+interface MeasurementMachine {
+  id: string;
+  machineId: string;
+  templateId: string;
+}
+
+export interface FeatureInput {
+  name: string;
+  description?: string | null;
+  nominal: number;
+  lowerTol: number;
+  upperTol: number;
+  path: number;
+  toolNo: number | null;
+  axis: string | null;
+  gain: number;
+  deadBand: number;
+  autoApply: boolean;
+  isActive: boolean;
+  productCode: string | null;
+  subgroupSize: number;
+  sampleVarKey: string | null;
+  sampleIntervalSec: number | null;
+}
+
+export interface MeasurementRow {
+  row: number;                       // CSV 줄 번호 / 배열 순번 (오류 표시용)
+  feature: string;
+  value: number;
+  measuredAt?: Date;
+  sampleId?: string;
+  productCode?: string;
+}
+
+// 측정 입력자 (null = 주기 샘플링)
+export interface MeasurementActor {
+  id: string;
+  role: UserRole;
+}
+
+// 자동 적용된 보정 (호출 측 감사 로그용 — POST /:id/apply 와 같은 항목)
+export interface AutoAppliedCorrection {
+  measurementId: string;
+  correction: number;
+  change: { id: string; toolNo: number; axis: string; oldValue: number; newValue: number };
+  violation: string | null;
+  approvedBy: { username: string } | null;
+}
+
+export interface IngestResult {
+  recorded: number;
+  applied: number;
+  proposed: number;
+  errors: { row: number; feature?: string; message: string }[];
+}
+
+export interface CorrectionEvaluation {
+  deviation: number;
+  inTolerance: boolean;
+  correction: number | null;
+  note: string | null;
+}
+
+function round4(v: number): number {
+  return Math.round(v * 10_000) / 10_000;
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+/** 측정 항목 입력 검사 (partial = 수정 시 일부 필드만) — 오류 메시지 또는 null */
+export function validateFeatureInput(body: Record<string, unknown>, partial = false): string | null {
+  const has = (key: string) => body[key] !== undefined;
+  const required = (key: string) => !partial || has(key);
+
+  if (required('name') && (typeof body.name !== 'string' || !/^[A-Za-z0-9_.\-]{1,40}$/.test(body.name))) {
+    return '항목 키는 영문 / 숫자 / _ . - 1~40자여야 합니다';
+  }
+  for (const key of ['nominal', 'lowerTol', 'upperTol']) {
+    if (required(key) && !isFiniteNumber(body[key])) return `${key} 값이 올바르지 않습니다`;
+  }
+  if (has('lowerTol') && has('upperTol') && (body.lowerTol as number) > (body.upperTol as number)) {
+    return '하한 공차가 상한 공차보다 큽니다';
+  }
+  if (has('toolNo') && body.toolNo !== null && !isValidToolNo(body.toolNo)) return '공구 번호가 올바르지 않습니다 (1~64)';
+  if (has('axis') && body.axis !== null && !parseAxis(body.axis)) return 'axis는 X/Z/Y/R 중 하나입니다.';
+  if (has('path') && body.path !== 1 && body.path !== 2) return 'path는 1 또는 2입니다';
+  if (has('gain') && (!isFiniteNumber(body.gain) || body.gain === 0 || Math.abs(body.gain) > 2)) {
+    return 'gain은 0이 아닌 -2 ~ 2 사이 값이어야 합니다';
+  }
+  if (has('deadBand') && (!isFiniteNumber(body.deadBand) || body.deadBand < 0)) return '데드밴드는 0 이상이어야 합니다';
+  for (const key of ['autoApply', 'isActive']) {
+    if (has(key) && typeof body[key] !== 'boolean') return `${key} 값이 올바르지 않습니다`;
+  }
+  if (has('productCode') && body.productCode !== null && (typeof body.productCode !== 'string' || body.productCode.length > 40)) {
+    return '제품 코드가 올바르지 않습니다 (40자 이내)';
+  }
+  if (has('subgroupSize') && (!Number.isInteger(body.subgroupSize)
+    || (body.subgroupSize as number) < MIN_SUBGROUP_SIZE || (body.subgroupSize as number) > MAX_SUBGROUP_SIZE)) {
+    return `부분군 크기는 ${MIN_SUBGROUP_SIZE}~${MAX_SUBGROUP_SIZE} 사이 정수여야 합니다`;
+  }
+  if (has('sampleVarKey') && body.sampleVarKey !== null && typeof body.sampleVarKey !== 'string') return 'sampleVarKey 값이 올바르지 않습니다';
+  if (has('sampleIntervalSec') && body.sampleIntervalSec !== null && (!Number.isInteger(body.sampleIntervalSec)
+    || (body.sampleIntervalSec as number) < MIN_SAMPLE_INTERVAL_SEC || (body.sampleIntervalSec as number) > MAX_SAMPLE_INTERVAL_SEC)) {
+    return `샘플링 주기는 ${MIN_SAMPLE_INTERVAL_SEC}~${MAX_SAMPLE_INTERVAL_SEC}초여야 합니다`;
+  }
+  return null;
+}
+
+/** 저장될 항목 상태 검사 (수정은 기존 값과 합친 결과) */
+function checkFeatureConsistency(f: Pick<FeatureInput, 'lowerTol' | 'upperTol' | 'toolNo' | 'axis' | 'autoApply' | 'sampleVarKey' | 'sampleIntervalSec'>) {
+  if (f.lowerTol > f.upperTol) throw new AppError(400, 'INVALID_PARAMS', '하한 공차가 상한 공차보다 큽니다');
+  if ((f.toolNo === null) !== (f.axis === null)) {
+    throw new AppError(400, 'INVALID_PARAMS', '공구 번호와 축은 함께 지정해야 합니다 (SPC 전용 항목은 둘 다 비움)');
+  }
+  if (f.autoApply && f.toolNo === null) throw new AppError(400, 'INVALID_PARAMS', '자동 보정에는 공구 / 축 지정이 필요합니다');
+  if ((f.sampleVarKey === null) !== (f.sampleIntervalSec === null)) {
+    throw new AppError(400, 'INVALID_PARAMS', '샘플링 변수와 주기는 함께 지정해야 합니다');
+  }
+}
+
+/** 측정값 → 편차 / 공차 판정 / 보정량 */
+export function evaluateCorrection(
+  feature: Pick<MeasurementFeature, 'nominal' | 'lowerTol' | 'upperTol' | 'gain' | 'deadBand' | 'toolNo' | 'axis'>,
+  value: number,
+): CorrectionEvaluation {
+  const deviation = round4(value - feature.nominal);
+  const inTolerance = deviation >= feature.lowerTol - VALUE_EPSILON && deviation <= feature.upperTol + VALUE_EPSILON;
+  if (feature.toolNo === null || feature.axis === null) return { deviation, inTolerance, correction: null, note: null };
+  if (Math.abs(deviation) <= feature.deadBand + VALUE_EPSILON) {
+    return { deviation, inTolerance, correction: null, note: '데드밴드 이내' };
+  }
+  const correction = round4(-deviation * feature.gain);
+  if (correction === 0) return { deviation, inTolerance, correction: null, note: '보정량 0' };
+  return { deviation, inTolerance, correction, note: null };
+}
+
+// ── CSV ─────────────────────────────────────────────────────────
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cur = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cur += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { cells.push(cur.trim()); cur = ''; }
+    else cur += ch;
+  }
+  cells.push(cur.trim());
+  return cells;
+}
+
+/**
+ * 게이지 CSV → 측정 행
+ * 머리글 필수: feature, value / 선택: measuredAt (ISO 8601), sampleId, productCode (대소문자 무시)
+ */
+export function parseMeasurementCsv(text: string): { rows: MeasurementRow[]; errors: IngestResult['errors'] } {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const header = splitCsvLine(lines[0] ?? '').map((h) => h.toLowerCase());
+  const col = (name: string) => header.indexOf(name.toLowerCase());
+  const iFeature = col('feature');
+  const iValue = col('value');
+  const iMeasuredAt = col('measuredAt');
+  const iSampleId = col('sampleId');
+  const iProductCode = col('productCode');
+  if (iFeature < 0 || iValue < 0) {
+    throw new AppError(400, 'INVALID_CSV', 'CSV 머리글에 feature, value 열이 필요합니다');
+  }
+
+  const rows: MeasurementRow[] = [];
+  const errors: IngestResult['errors'] = [];
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const cells = splitCsvLine(lines[i]);
+    const feature = cells[iFeature];
+    const value = Number(cells[iValue]);
+    const measuredAt = iMeasuredAt >= 0 && cells[iMeasuredAt] ? new Date(cells[iMeasuredAt]) : undefined;
+    if (!feature || !cells[iValue] || !Number.isFinite(value)) {
+      errors.push({ row: i + 1, feature, message: 'feature / value 값이 올바르지 않습니다' });
+    } else if (measuredAt && Number.isNaN(measuredAt.getTime())) {
+      errors.push({ row: i + 1, feature, message: 'measuredAt 형식이 올바르지 않습니다' });
+    } else {
+      rows.push({
+        row: i + 1,
+        feature,
+        value,
+        measuredAt,
+        sampleId: iSampleId >= 0 ? cells[iSampleId] || undefined : undefined,
+        productCode: iProductCode >= 0 ? cells[iProductCode] || undefined : undefined,
+      });
+    }
+  }
+  return { rows, errors };
+}
+
+/** JSON API 측정 행 검사 */
+export function parseMeasurementRows(value: unknown): { rows: MeasurementRow[]; errors: IngestResult['errors'] } {
+  if (!Array.isArray(value)) throw new AppError(400, 'INVALID_PARAMS', 'measurements 배열이 필요합니다');
+  const rows: MeasurementRow[] = [];
+  const errors: IngestResult['errors'] = [];
+  value.forEach((item, i) => {
+    const { feature, value: v, measuredAt, sampleId, productCode } = (item ?? {}) as Record<string, unknown>;
+    const at = typeof measuredAt === 'string' ? new Date(measuredAt) : undefined;
+    if (typeof feature !== 'string' || !feature || !isFiniteNumber(v)) {
+      errors.push({ row: i + 1, message: 'feature / value 값이 올바르지 않습니다' });
+    } else if (at && Number.isNaN(at.getTime())) {
+      errors.push({ row: i + 1, feature, message: 'measuredAt 형식이 올바르지 않습니다' });
+    } else {
+      rows.push({
+        row: i + 1,
+        feature,
+        value: v,
+        measuredAt: at,
+        sampleId: typeof sampleId === 'string' && sampleId ? sampleId : undefined,
+        productCode: typeof productCode === 'string' && productCode ? productCode : undefined,
+      });
+    }
+  });
+  return { rows, errors };
+}
+
+// ── 측정 항목 ───────────────────────────────────────────────────
+
+export async function listFeatures(machineDbId: string) {
+  return prisma.measurementFeature.findMany({
+    where: { machineDbId },
+    orderBy: { name: 'asc' },
+  });
+}
+
+async function getFeature(machineDbId: string, id: string) {
+  const feature = await prisma.measurementFeature.findFirst({ where: { id, machineDbId } });
+  if (!feature) throw new AppError(404, 'NOT_FOUND', '측정 항목을 찾을 수 없습니다');
+  return feature;
+}
+
+function featureData(body: Record<string, unknown>): Partial<FeatureInput> {
+  const data: Partial<FeatureInput> = {};
+  const keys: (keyof FeatureInput)[] = [
+    'name', 'description', 'nominal', 'lowerTol', 'upperTol', 'path', 'toolNo', 'gain', 'deadBand', 'autoApply', 'isActive',
+    'subgroupSize', 'sampleIntervalSec',
+  ];
+  for (const key of keys) {
+    if (body[key] !== undefined) (data as Record<string, unknown>)[key] = body[key];
+  }
+  if (body.axis !== undefined) data.axis = body.axis === null ? null : parseAxis(body.axis)!;
+  // 빈 문자열 = 지정 안 함
+  for (const key of ['productCode', 'sampleVarKey'] as const) {
+    if (body[key] !== undefined) data[key] = typeof body[key] === 'string' && (body[key] as string).trim() ? (body[key] as string).trim() : null;
+  }
+  return data;
+}
+
+const FEATURE_DEFAULTS = {
+  toolNo: null, axis: null, autoApply: false, sampleVarKey: null, sampleIntervalSec: null,
+} satisfies Partial<FeatureInput>;
+
+export async function createFeature(machineDbId: string, body: Record<string, unknown>) {
+  const data = featureData(body) as FeatureInput;
+  checkFeatureConsistency({ ...FEATURE_DEFAULTS, ...data });
+  const exists = await prisma.measurementFeature.findUnique({
+    where: { machineDbId_name: { machineDbId, name: data.name } },
+  });
+  if (exists) throw new AppError(409, 'FEATURE_EXISTS', `이미 등록된 측정 항목입니다: ${data.name}`);
+  return prisma.measurementFeature.create({ data: { ...data, machineDbId } });
+}
+
+export async function updateFeature(machineDbId: string, id: string, body: Record<string, unknown>) {
+  const feature = await getFeature(machineDbId, id);
+  const data = featureData(body);
+  checkFeatureConsistency({ ...feature, ...data });
+  if (data.name && data.name !== feature.name) {
+    const exists = await prisma.measurementFeature.findUnique({
+      where: { machineDbId_name: { machineDbId, name: data.name } },
+    });
+    if (exists) throw new AppError(409, 'FEATURE_EXISTS', `이미 등록된 측정 항목입니다: ${data.name}`);
+  }
+  return prisma.measurementFeature.update({ where: { id }, data });
+}
+
+export async function deleteFeature(machineDbId: string, id: string) {
+  const feature = await getFeature(machineDbId, id);
+  await prisma.measurementFeature.delete({ where: { id: feature.id } });
+  return feature;
+}
+
+// ── 수집 / 보정 ────────────────────────────────────────────────
+
+function correctionFailure(err: unknown): string {
+  if (err instanceof AppError) {
+    return err.code === 'OFFSET_LIMIT_EXCEEDED' ? `자동 보정 보류: ${err.message}` : `자동 보정 실패: ${err.message}`;
+  }
+  return `자동 보정 실패: ${err instanceof Error ? err.message : String(err)}`;
+}
+
+/** 장비에서 진행 중인 작업지시의 제품 코드 (없으면 null) */
+async function activeProductCode(machineId: string): Promise<string | null> {
+  const order = await prisma.workOrder.findFirst({
+    where: { assignedMachine: machineId, status: 'IN_PROGRESS' },
+    orderBy: { actualStart: 'desc' },
+    select: { productCode: true },
+  });
+  return order?.productCode ?? null;
+}
+
+/**
+ * 자동 보정 불가 사유 (null = 자동 적용 가능)
+ * 수동 적용(POST /:id/apply)과 같은 기준 — offsets.write 권한, 다른 사용자의 제어권 없음
+ */
+async function autoApplyBlockReason(machine: MeasurementMachine, actor: MeasurementActor | null): Promise<string | null> {
+  if (!actor) return '주기 샘플링 측정 — 작업자 적용 필요';
+  const scope = await prisma.machine.findUnique({ where: { id: machine.id }, select: { machineId: true, location: true } });
+  if (!(await hasPermission(actor, 'offsets.write', scope))) return '오프셋 쓰기 권한 없음 — 작업자 적용 필요';
+  const lock = await redisService.getControlLock(machine.machineId);
+  if (lock && lock.ownerId !== actor.id) return `${lock.ownerUsername} 제어 중 — 자동 보정 보류`;
+  return null;
+}
+
+/**
+ * 측정값 기록 + 보정 제안 / 자동 적용 + SPC 판정
+ * actor null = 주기 샘플링 (자동 보정 안 함 — 작업자 적용)
+ * 자동 적용된 보정은 onAutoApplied 로 알림 (감사 로그)
+ */
+export async function ingestMeasurements(
+  machine: MeasurementMachine,
+  rows: MeasurementRow[],
+  source: MeasurementSource,
+  actor: MeasurementActor | null,
+  onAutoApplied?: (applied: AutoAppliedCorrection) => Promise<void>,
+): Promise<IngestResult> {
+  if (rows.length > MAX_ROWS) {
+    throw new AppError(400, 'TOO_MANY_ROWS', `한 번에 최대 ${MAX_ROWS}건까지 입력할 수 있습니다`);
+  }
+  const result: IngestResult = { recorded: 0, applied: 0, proposed: 0, errors: [] };
+  const features = new Map(
+    (await prisma.measurementFeature.findMany({ where: { machineDbId: machine.id, isActive: true } }))
+      .map((f) => [f.name, f]),
+  );
+
+  const orderProductCode = await activeProductCode(machine.machineId);
+  // 자동 적용 항목이 있을 때만 권한 / 제어권 평가
+  const autoApplyBlock = [...features.values()].some((f) => f.autoApply)
+    ? await autoApplyBlockReason(machine, actor)
+    : null;
+  const now = new Date();
+  const indexed = rows
+    .map((row) => ({ row, index: row.row, measuredAt: row.measuredAt ?? now }))
+    .sort((a, b) => a.measuredAt.getTime() - b.measuredAt.getTime());
+
+  // 한 업로드 안에서 항목별 마지막 측정만 보정 대상
+  const lastOfFeature = new Map<string, number>();
+  indexed.forEach((r) => lastOfFeature.set(r.row.feature, r.index));
+
+  for (const { row, index, measuredAt } of indexed) {
+    const feature = features.get(row.feature);
+    if (!feature) {
+      result.errors.push({ row: index, feature: row.feature, message: '등록되지 않았거나 비활성 측정 항목입니다' });
+      continue;
+    }
+    const evaluation = evaluateCorrection(feature, row.value);
+    const isLatest = lastOfFeature.get(row.feature) === index;
+
+    let status: CorrectionStatus = CorrectionStatus.NONE;
+    let note = evaluation.note;
+    if (evaluation.correction !== null) {
+      if (!isLatest) {
+        status = CorrectionStatus.SUPERSEDED;
+        note = '같은 입력의 이후 측정으로 대체';
+      } else {
+        status = CorrectionStatus.PROPOSED;
+        if (feature.autoApply && !evaluation.inTolerance) note = '공차 이탈 — 자동 보정 보류 (측정 / 공구 상태 확인)';
+        else if (feature.autoApply && autoApplyBlock) note = autoApplyBlock;
+      }
+    }
+
+    if (status === CorrectionStatus.PROPOSED) {
+      await prisma.measurement.updateMany({
+        where: { featureId: feature.id, correctionStatus: CorrectionStatus.PROPOSED },
+        data: { correctionStatus: CorrectionStatus.SUPERSEDED },
+      });
+    }
+
+    const measurement = await prisma.measurement.create({
+      data: {
+        featureId: feature.id,
+        machineDbId: machine.id,
+        value: row.value,
+        deviation: evaluation.deviation,
+        inTolerance: evaluation.inTolerance,
+        source,
+        sampleId: row.sampleId ?? null,
+        measuredAt,
+        correction: evaluation.correction,
+        correctionStatus: status,
+        correctionNote: note,
+        productCode: row.productCode ?? orderProductCode ?? feature.productCode,
+        userId: actor?.id ?? null,
+      },
+    });
+    result.recorded++;
+
+    try {
+      await checkSpcViolations(feature, machine, measurement);
+    } catch (err) {
+      console.error('[SPC] Violation check failed:', err);
+    }
+
+    if (status !== CorrectionStatus.PROPOSED) continue;
+    if (feature.autoApply && evaluation.inTolerance && actor && !autoApplyBlock) {
+      try {
+        const { change, violation, approvedBy } = await applyCorrection(machine, feature, measurement.id, evaluation.correction!, actor.id);
+        result.applied++;
+        await onAutoApplied?.({ measurementId: measurement.id, correction: evaluation.correction!, change, violation, approvedBy });
+        continue;
+      } catch (err) {
+        await prisma.measurement.update({ where: { id: measurement.id }, data: { correctionNote: correctionFailure(err) } });
+      }
+    }
+    result.proposed++;
+  }
+  return result;
+}
+
+async function applyCorrection(
+  machine: MeasurementMachine,
+  feature: MeasurementFeature,
+  measurementId: string,
+  correction: number,
+  userId: string,
+  approval?: OffsetApproval,
+) {
+  if (feature.toolNo === null || feature.axis === null) {
+    throw new AppError(409, 'NO_OFFSET_TARGET', '측정 항목에 보정 대상 공구 / 축이 지정되어 있지 않습니다');
+  }
+  const written = await adjustWearOffset(machine, {
+    path: feature.path,
+    toolNo: feature.toolNo,
+    axis: parseAxis(feature.axis)!,
+    delta: correction,
+    userId,
+    approval,
+  });
+  const measurement = await prisma.measurement.update({
+    where: { id: measurementId },
+    data: { correctionStatus: CorrectionStatus.APPLIED, correctionNote: null, offsetChangeId: written.change.id },
+  });
+  return { ...written, measurement };
+}
+
+async function getProposal(machineDbId: string, measurementId: string) {
+  const measurement = await prisma.measurement.findFirst({
+    where: { id: measurementId, machineDbId },
+    include: { feature: true },
+  });
+  if (!measurement) throw new AppError(404, 'NOT_FOUND', '측정 기록을 찾을 수 없습니다');
+  if (measurement.correctionStatus !== CorrectionStatus.PROPOSED || measurement.correction === null) {
+    throw new AppError(409, 'INVALID_STATUS', '적용 대기 중인 보정 제안이 아닙니다');
+  }
+  return measurement;
+}
+
+/** 보정 제안 적용 (작업자) — 한계 초과 시 approval 필요 */
+export async function applyProposal(
+  machine: MeasurementMachine,
+  measurementId: string,
+  userId: string,
+  approval?: OffsetApproval,
+) {
+  const proposal = await getProposal(machine.id, measurementId);
+  return applyCorrection(machine, proposal.feature, proposal.id, proposal.correction!, userId, approval);
+}
+
+/** 보정 제안 기각 */
+export async function dismissProposal(machineDbId: string, measurementId: string, note?: string) {
+  const proposal = await getProposal(machineDbId, measurementId);
+  return prisma.measurement.update({
+    where: { id: proposal.id },
+    data: { correctionStatus: CorrectionStatus.DISMISSED, correctionNote: note || proposal.correctionNote },
+  });
+}
+
+/** 측정 기록 (최신순) */
+export async function listMeasurements(
+  machineDbId: string,
+  filter: { featureId?: string; status?: CorrectionStatus; from?: Date; to?: Date; limit: number },
+) {
+  const where: Prisma.MeasurementWhereInput = {
+    machineDbId,
+    featureId: filter.featureId,
+    correctionStatus: filter.status,
+    measuredAt: filter.from || filter.to ? { gte: filter.from, lte: filter.to } : undefined,
+  };
+  const rows = await prisma.measurement.findMany({
+    where,
+    include: {
+      feature: { select: { name: true, toolNo: true, axis: true, path: true } },
+      user: { select: { username: true } },
+    },
+    orderBy: { measuredAt: 'desc' },
+    take: filter.limit,
+  });
+  return rows.map(({ feature, user, ...m }) => ({
+    ...m,
+    featureName: feature.name,
+    toolNo: feature.toolNo,
+    axis: feature.axis,
+    path: feature.path,
+    userName: user?.username ?? null,
+  }));
+}
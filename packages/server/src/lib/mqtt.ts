@@ -43,7 +43,9 @@ export interface TelemetryMessage extends MqttMessage {
     programNo: string;
     feedrate: number;
     spindleSpeed: number;
+    spindleLoad?: number;   // 스핀들 부하 (%)
     partsCount: number;
+    cycleTime?: number;     // 사이클타임 (초)
     alarmActive: boolean;
   };
 }
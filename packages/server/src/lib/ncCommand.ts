@@ -0,0 +1,33 @@
+/**
+ * NcCommand - NC 데이터 명령 (READ_OFFSETS / WRITE_OFFSET / READ_COUNT ...) 발송 후 결과 대기
+ *
+ * CommandLog 기록 → MQTT 발송 → commandWaiter 로 결과 수신 (시간 초과 시 reject)
+ * 호출 측에서 status !== 'success' 를 502, 시간 초과를 504 로 변환
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { CommandStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { mqttService } from './mqtt';
+import { commandWaiter, CommandResult } from './commandWaiter';
+
+export async function sendNcCommand(
+  machineDbId: string,
+  machineId: string,
+  command: string,
+  params: Record<string, unknown> | undefined,
+  timeoutMs = 30_000,
+): Promise<CommandResult> {
+  const correlationId = uuidv4();
+  await prisma.commandLog.create({
+    data: {
+      correlationId,
+      machineId: machineDbId,
+      command,
+      params: (params as object | undefined) ?? undefined,
+      status: CommandStatus.PENDING,
+    },
+  });
+  await mqttService.sendCommand(machineId, command, correlationId, params);
+  return commandWaiter.wait(correlationId, timeoutMs);
+}
@@ -0,0 +1,296 @@
+/**
+ * OEE Engine - 설비종합효율 계산
+ *
+ *   Availability = 가동시간 / 계획시간
+ *                  계획시간: 교대 구간 − 계획 정지 (shiftCalendar)
+ *                  가동시간: 계획시간 내 telemetry_samples의 runState(START/MSTR) 구간 합
+ *   Performance  = Σ(이상 사이클타임 × 생산수) / 가동시간
+ *                  이상 사이클타임: GlobalSetting 'production.idealCycleTimes' → 없으면 기간 내 최단 실적
+ *   Quality      = 양품 / 총생산 (양품 = partsCount - scrapCount)
+ *   OEE          = A × P × Q
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import {
+  ShiftCalendar,
+  PatternWithShifts,
+  loadShiftCalendar,
+  patternFor,
+  productionDayStart,
+  shiftOccurrences,
+  plannedIntervals,
+  overlapSeconds,
+  containsTime,
+} from './shiftCalendar';
+
+export type OeeGroupBy = 'shift' | 'day' | 'week';
+
+export const OEE_GROUP_BY: OeeGroupBy[] = ['shift', 'day', 'week'];
+
+export const IDEAL_CYCLE_TIMES_KEY = 'production.idealCycleTimes';
+
+// runState: 0=STOP, 1=HOLD, 2=START, 3=MSTR
+const RUNNING_STATES = [2, 3];
+
+// 샘플 간격이 이보다 길면 Agent 오프라인 구간으로 보고 가동시간에서 제외
+const MAX_SAMPLE_GAP_SEC = 10;
+
+export interface OeePeriod {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+export interface OeeFigures {
+  plannedTime: number;   // minutes
+  runTime: number;       // minutes
+  totalParts: number;
+  goodParts: number;
+  scrapParts: number;
+  availability: number;  // %
+  performance: number;   // %
+  quality: number;       // %
+  oee: number;           // %
+}
+
+export interface OeePeriodResult extends OeeFigures {
+  start: string;
+  end: string;
+  label: string;
+}
+
+export interface OeeResult {
+  periods: OeePeriodResult[];
+  summary: OeeFigures;
+  byMachine: Record<string, OeeFigures>;   // key: machine DB id
+}
+
+interface Accumulator {
+  plannedSec: number;
+  runSec: number;
+  idealSec: number;
+  totalParts: number;
+  scrapParts: number;
+}
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+const pad2 = (v: number) => String(v).padStart(2, '0');
+
+function emptyAcc(): Accumulator {
+  return { plannedSec: 0, runSec: 0, idealSec: 0, totalParts: 0, scrapParts: 0 };
+}
+
+function addAcc(target: Accumulator, src: Accumulator): void {
+  target.plannedSec += src.plannedSec;
+  target.runSec     += src.runSec;
+  target.idealSec   += src.idealSec;
+  target.totalParts += src.totalParts;
+  target.scrapParts += src.scrapParts;
+}
+
+function toFigures(acc: Accumulator): OeeFigures {
+  const availability = acc.plannedSec > 0 ? Math.min(acc.runSec / acc.plannedSec, 1) : 0;
+  const performance  = acc.runSec > 0 ? Math.min(acc.idealSec / acc.runSec, 1) : 0;
+  const goodParts    = Math.max(acc.totalParts - acc.scrapParts, 0);
+  const quality      = acc.totalParts > 0 ? goodParts / acc.totalParts : 0;
+
+  return {
+    plannedTime:  Math.round(acc.plannedSec / 60),
+    runTime:      Math.round(acc.runSec / 60),
+    totalParts:   acc.totalParts,
+    goodParts,
+    scrapParts:   acc.scrapParts,
+    availability: round1(availability * 100),
+    performance:  round1(performance * 100),
+    quality:      round1(quality * 100),
+    oee:          round1(availability * performance * quality * 100),
+  };
+}
+
+/**
+ * 기간을 groupBy 단위로 분할 (서버 로컬 시간, 생산일 시작 기준)
+ * groupBy 미지정 시 전체 기간 1개, shift인데 교대 미설정이면 day로 대체
+ */
+export function buildPeriods(from: Date, to: Date, groupBy: OeeGroupBy | undefined, pattern: PatternWithShifts | null): OeePeriod[] {
+  if (!groupBy) {
+    return [{ start: from, end: to, label: '전체' }];
+  }
+
+  if (groupBy === 'shift' && pattern && pattern.shifts.length > 0) {
+    return shiftOccurrences(pattern, from, to).map((o) => ({ start: o.start, end: o.end, label: o.label }));
+  }
+
+  const periods: OeePeriod[] = [];
+  const cursor = productionDayStart(pattern, from);
+  const offsetMin = cursor.getHours() * 60 + cursor.getMinutes();
+
+  if (groupBy === 'week') {
+    // 월요일 시작
+    const dow = (cursor.getDay() + 6) % 7;
+    cursor.setDate(cursor.getDate() - dow);
+  }
+
+  const stepDays = groupBy === 'week' ? 7 : 1;
+  while (cursor < to) {
+    const next = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + stepDays, 0, offsetMin);
+    const label = `${pad2(cursor.getMonth() + 1)}/${pad2(cursor.getDate())}${groupBy === 'week' ? '~' : ''}`;
+    const s = cursor < from ? from : new Date(cursor);
+    const e = next > to ? to : next;
+    if (s < e) periods.push({ start: s, end: e, label });
+    cursor.setTime(next.getTime());
+  }
+
+  return periods;
+}
+
+/**
+ * 장비별 분 단위 가동시간(초) 집계
+ * 연속 샘플 간 간격을 가동 상태 샘플에만 합산 (간격 상한 MAX_SAMPLE_GAP_SEC)
+ */
+async function loadRunSeconds(
+  machineDbIds: string[],
+  from: Date,
+  to: Date,
+): Promise<{ machineId: string; minute: Date; runSec: number }[]> {
+  if (machineDbIds.length === 0) return [];
+
+  const rows = await prisma.$queryRaw<{ machine_id: string; minute: Date; run_sec: number }[]>(Prisma.sql`
+    WITH s AS (
+      SELECT "machine_id", "time", "run_state",
+             LEAD("time") OVER (PARTITION BY "machine_id" ORDER BY "time") AS next_time
+      FROM "telemetry_samples"
+      WHERE "machine_id" IN (${Prisma.join(machineDbIds)})
+        AND "time" >= ${from}
+        AND "time" <  ${to}
+    )
+    SELECT "machine_id",
+           date_trunc('minute', "time") AS minute,
+           SUM(LEAST(EXTRACT(EPOCH FROM (COALESCE(next_time, "time") - "time")), ${MAX_SAMPLE_GAP_SEC}))::float8 AS run_sec
+    FROM s
+    WHERE "run_state" IN (${Prisma.join(RUNNING_STATES)})
+    GROUP BY "machine_id", minute
+  `);
+
+  return rows.map((r) => ({ machineId: r.machine_id, minute: r.minute, runSec: Number(r.run_sec) }));
+}
+
+/**
+ * 프로그램별 이상 사이클타임(초/개) — 설정값 우선
+ */
+export async function loadIdealCycleTimes(): Promise<Record<string, number>> {
+  const row = await prisma.globalSetting.findUnique({ where: { key: IDEAL_CYCLE_TIMES_KEY } });
+  const value = row?.value;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const result: Record<string, number> = {};
+  for (const [programNo, sec] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof sec === 'number' && sec > 0) result[programNo] = sec;
+  }
+  return result;
+}
+
+/**
+ * OEE 계산
+ */
+export async function computeOee(params: {
+  machineDbIds: string[];
+  from: Date;
+  to: Date;
+  groupBy?: OeeGroupBy;
+  calendar?: ShiftCalendar;
+}): Promise<OeeResult> {
+  const { machineDbIds, groupBy } = params;
+  const from = params.from;
+  // 미래 구간은 계획시간에서 제외
+  const now = new Date();
+  const to = params.to > now ? now : params.to;
+
+  const calendar = params.calendar ?? await loadShiftCalendar();
+  // 기간 분할 기준: 단일 장비면 해당 장비 패턴, 아니면 기본 패턴
+  const periodPattern = patternFor(calendar, machineDbIds.length === 1 ? machineDbIds[0] : undefined);
+  const periods = buildPeriods(from, to, groupBy, periodPattern);
+  const planned = new Map(machineDbIds.map((id) => [id, plannedIntervals(calendar, id, from, to)]));
+
+  const [runRows, logs, configuredIdeal] = await Promise.all([
+    loadRunSeconds(machineDbIds, from, to),
+    machineDbIds.length > 0
+      ? prisma.productionLog.findMany({
+          where: { machineId: { in: machineDbIds }, endTime: { gte: from, lt: to } },
+          select: { machineId: true, programNo: true, endTime: true, cycleTime: true, partsCount: true, scrapCount: true, status: true },
+        })
+      : Promise.resolve([]),
+    loadIdealCycleTimes(),
+  ]);
+
+  // 설정되지 않은 프로그램: 기간 내 최단 개당 사이클타임
+  const observedIdeal: Record<string, number> = {};
+  for (const log of logs) {
+    if (log.status !== 'completed' || log.partsCount <= 0 || log.cycleTime <= 0) continue;
+    const perPart = log.cycleTime / log.partsCount;
+    if (!(log.programNo in observedIdeal) || perPart < observedIdeal[log.programNo]) {
+      observedIdeal[log.programNo] = perPart;
+    }
+  }
+  const idealOf = (programNo: string) => configuredIdeal[programNo] ?? observedIdeal[programNo] ?? 0;
+
+  const findPeriod = (t: Date) => periods.findIndex((p) => t >= p.start && t < p.end);
+
+  // [periodIndex][machineId] 누적
+  const acc: Map<string, Accumulator>[] = periods.map(() => new Map());
+  const get = (pi: number, machineId: string) => {
+    let a = acc[pi].get(machineId);
+    if (!a) {
+      a = emptyAcc();
+      acc[pi].set(machineId, a);
+    }
+    return a;
+  };
+
+  periods.forEach((p, pi) => {
+    for (const machineId of machineDbIds) {
+      get(pi, machineId).plannedSec += overlapSeconds(planned.get(machineId) ?? [], p.start, p.end);
+    }
+  });
+
+  // 계획 정지/교대 외 시간의 가동은 제외
+  for (const row of runRows) {
+    if (!containsTime(planned.get(row.machineId) ?? [], row.minute)) continue;
+    const pi = findPeriod(row.minute);
+    if (pi >= 0) get(pi, row.machineId).runSec += row.runSec;
+  }
+
+  for (const log of logs) {
+    const pi = findPeriod(log.endTime);
+    if (pi < 0) continue;
+    const a = get(pi, log.machineId);
+    a.totalParts += log.partsCount;
+    a.scrapParts += Math.min(log.scrapCount, log.partsCount);
+    a.idealSec   += idealOf(log.programNo) * log.partsCount;
+  }
+
+  // 집계
+  const summaryAcc = emptyAcc();
+  const machineAcc = new Map<string, Accumulator>();
+
+  const periodResults: OeePeriodResult[] = periods.map((p, pi) => {
+    const periodAcc = emptyAcc();
+    for (const [machineId, a] of acc[pi]) {
+      addAcc(periodAcc, a);
+      if (!machineAcc.has(machineId)) machineAcc.set(machineId, emptyAcc());
+      addAcc(machineAcc.get(machineId)!, a);
+    }
+    addAcc(summaryAcc, periodAcc);
+    return {
+      start: p.start.toISOString(),
+      end:   p.end.toISOString(),
+      label: p.label,
+      ...toFigures(periodAcc),
+    };
+  });
+
+  const byMachine: Record<string, OeeFigures> = {};
+  for (const [machineId, a] of machineAcc) byMachine[machineId] = toFigures(a);
+
+  return { periods: periodResults, summary: toFigures(summaryAcc), byMachine };
+}
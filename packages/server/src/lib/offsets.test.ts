@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// 외부 I/O (DB / Agent 명령 / bcrypt / 권한 조회) 는 모의 — 한계 판정과 승인 결정만 검사
+vi.mock('./prisma', () => ({
+  prisma: {
+    template: { findUnique: vi.fn() },
+    user: { findUnique: vi.fn() },
+    machine: { findUnique: vi.fn() },
+    offsetChange: { create: vi.fn() },
+  },
+}));
+vi.mock('./ncCommand', () => ({ sendNcCommand: vi.fn() }));
+vi.mock('../auth/password', () => ({ verifyPassword: vi.fn() }));
+vi.mock('./permissions', () => ({ hasPermission: vi.fn() }));
+
+import { prisma } from './prisma';
+import { sendNcCommand } from './ncCommand';
+import { verifyPassword } from '../auth/password';
+import { hasPermission } from './permissions';
+import { checkOffsetLimit, resolveOffsetLimit, writeWearOffset } from './offsets';
+
+const OFFSET_CONFIG = {
+  limits: { X: { maxDelta: 0.05, maxAbs: 0.3 }, Z: { maxDelta: 0.1 } },
+  toolLimits: { '3': { X: { maxDelta: 0.02 } } },
+};
+
+describe('resolveOffsetLimit', () => {
+  it('축별 기본 한계를 사용', () => {
+    expect(resolveOffsetLimit(OFFSET_CONFIG, 1, 'X')).toEqual({ maxDelta: 0.05, maxAbs: 0.3 });
+  });
+
+  it('공구별 한계가 지정된 값만 덮어씀', () => {
+    expect(resolveOffsetLimit(OFFSET_CONFIG, 3, 'X')).toEqual({ maxDelta: 0.02, maxAbs: 0.3 });
+  });
+
+  it('한계가 없으면 제한 없음', () => {
+    expect(resolveOffsetLimit(OFFSET_CONFIG, 1, 'Y')).toEqual({ maxDelta: undefined, maxAbs: undefined });
+    expect(resolveOffsetLimit(null, 1, 'X')).toEqual({ maxDelta: undefined, maxAbs: undefined });
+  });
+});
+
+describe('checkOffsetLimit', () => {
+  const limit = { maxDelta: 0.05, maxAbs: 0.3 };
+
+  it('한계 이내면 null', () => {
+    expect(checkOffsetLimit(limit, 0.1, 0.15)).toBeNull();
+    expect(checkOffsetLimit({}, 0, 5)).toBeNull();
+  });
+
+  it('경계값은 허용 (부동소수 오차 포함)', () => {
+    expect(checkOffsetLimit(limit, 0.1, 0.15000000001)).toBeNull();
+    expect(checkOffsetLimit(limit, 0.26, 0.3)).toBeNull();
+  });
+
+  it('1회 변경량 초과', () => {
+    expect(checkOffsetLimit(limit, 0, 0.051)).toMatch(/1회 한계/);
+    expect(checkOffsetLimit(limit, 0, -0.06)).toMatch(/1회 한계/);
+  });
+
+  it('마모 한계 초과 (부호 무관)', () => {
+    expect(checkOffsetLimit(limit, 0.28, 0.31)).toMatch(/마모 한계/);
+    expect(checkOffsetLimit(limit, -0.28, -0.31)).toMatch(/마모 한계/);
+  });
+});
+
+describe('writeWearOffset — 한계 초과 승인', () => {
+  const machine = { id: 'm-db-1', machineId: 'M01', templateId: 't-1' };
+  const approver = { id: 'u-approver', username: 'lead', isActive: true, isApproved: true, passwordHash: 'hash' };
+  const input = { path: 1, toolNo: 1, axis: 'X' as const, value: 0.2, userId: 'u-requester' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sendNcCommand).mockImplementation(async (_id, _machineId, command) => (command === 'READ_OFFSETS'
+      ? { status: 'success', result: { path: 1, count: 1, tools: [{ no: 1, x: 0.1, y: 0, z: 0, r: 0 }] } }
+      : { status: 'success', result: {} }) as never);
+    vi.mocked(prisma.template.findUnique).mockResolvedValue({ offsetConfig: OFFSET_CONFIG } as never);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue(approver as never);
+    vi.mocked(prisma.machine.findUnique).mockResolvedValue({ machineId: 'M01', location: 'L1' } as never);
+    vi.mocked(prisma.offsetChange.create).mockImplementation((({ data }: { data: object }) => Promise.resolve({ id: 'c-1', ...data })) as never);
+    vi.mocked(verifyPassword).mockResolvedValue(true);
+    vi.mocked(hasPermission).mockResolvedValue(true);
+  });
+
+  const writeCalls = () => vi.mocked(sendNcCommand).mock.calls.filter((c) => c[2] === 'WRITE_OFFSET');
+
+  it('한계 이내 변경은 승인 없이 기록', async () => {
+    const { approvedBy, violation } = await writeWearOffset(machine, { ...input, value: 0.12 });
+    expect(violation).toBeNull();
+    expect(approvedBy).toBeNull();
+    expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    expect(writeCalls()).toHaveLength(1);
+  });
+
+  it('한계 초과 + 승인 없음 → 409 OFFSET_LIMIT_EXCEEDED, 쓰지 않음', async () => {
+    await expect(writeWearOffset(machine, input)).rejects.toMatchObject({ statusCode: 409, code: 'OFFSET_LIMIT_EXCEEDED' });
+    expect(writeCalls()).toHaveLength(0);
+  });
+
+  it('장비 범위 offsets.approve_limit 를 가진 다른 계정이 승인하면 기록', async () => {
+    const { approvedBy } = await writeWearOffset(machine, { ...input, approval: { username: 'lead', password: 'pw' } });
+    expect(hasPermission).toHaveBeenCalledWith(approver, 'offsets.approve_limit', { machineId: 'M01', location: 'L1' });
+    expect(approvedBy).toEqual({ id: 'u-approver', username: 'lead' });
+    expect(prisma.offsetChange.create).toHaveBeenCalledWith({ data: expect.objectContaining({ approvedById: 'u-approver' }) });
+    expect(writeCalls()).toHaveLength(1);
+  });
+
+  it('비밀번호 불일치 / 비활성 계정은 거부', async () => {
+    vi.mocked(verifyPassword).mockResolvedValue(false);
+    await expect(writeWearOffset(machine, { ...input, approval: { username: 'lead', password: 'x' } }))
+      .rejects.toMatchObject({ statusCode: 403, code: 'APPROVAL_INVALID' });
+
+    vi.mocked(verifyPassword).mockResolvedValue(true);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ ...approver, isActive: false } as never);
+    await expect(writeWearOffset(machine, { ...input, approval: { username: 'lead', password: 'pw' } }))
+      .rejects.toMatchObject({ statusCode: 403, code: 'APPROVAL_INVALID' });
+    expect(writeCalls()).toHaveLength(0);
+  });
+
+  it('승인 권한이 없는 계정은 거부', async () => {
+    vi.mocked(hasPermission).mockResolvedValue(false);
+    await expect(writeWearOffset(machine, { ...input, approval: { username: 'lead', password: 'pw' } }))
+      .rejects.toThrow(/승인 권한이 없습니다/);
+    expect(writeCalls()).toHaveLength(0);
+  });
+
+  it('요청자 본인 승인은 거부', async () => {
+    await expect(writeWearOffset(machine, { ...input, userId: 'u-approver', approval: { username: 'lead', password: 'pw' } }))
+      .rejects.toThrow(/본인이 요청한 변경/);
+    expect(writeCalls()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Offsets - 마모 오프셋 쓰기 / 변경 이력 / 되돌리기
+ *
+ * 모든 쓰기는 READ_OFFSETS 로 현재 값을 먼저 읽고 WRITE_OFFSET 후 OffsetChange (이전 값 → 쓴 값) 기록.
+ * 현재 값을 읽지 못하면 쓰지 않는다 (이력 없는 변경 방지).
+ *
+ * 되돌리기: 변경의 이전 값을 다시 쓰는 새 변경 (revertOfId = 원본)
+ *   CNC 현재 값이 그 변경의 쓴 값과 다르면 (이후 다른 변경) force 없이는 409 OFFSET_CHANGED_SINCE
+ *
+ * 안전 한계: 템플릿 offsetConfig.limits (축별) + toolLimits (공구 번호별 덮어쓰기)
+ *   maxDelta — 1회 변경량 |새 값 - 현재 값| 상한, maxAbs — 마모 값 |새 값| 상한 (mm, 미지정 = 제한 없음)
+ *   초과 시 409 OFFSET_LIMIT_EXCEEDED — 해당 장비의 offsets.approve_limit 권한을 가진 다른 계정의 승인
+ *   (아이디 / 비밀번호)과 함께 다시 요청해야 쓴다.
+ *   되돌리기 / 측정 보정(adjustWearOffset)도 같은 한계를 적용한다.
+ */
+
+import { prisma } from './prisma';
+import { sendNcCommand } from './ncCommand';
+import { verifyPassword } from '../auth/password';
+import { hasPermission } from './permissions';
+import { AppError } from '../middleware/error';
+
+export type OffsetAxis = 'X' | 'Y' | 'Z' | 'R';
+
+// 축 → axisIdx (X=0, Y=1, Z=2, R=3) — FocasDataReader.WriteWearOffset 순서와 일치
+const AXIS_INDEX: Record<OffsetAxis, number> = { X: 0, Y: 1, Z: 2, R: 3 };
+
+export const MAX_TOOL_NO = 64;       // READ_OFFSETS count 상한
+const VALUE_EPSILON = 1e-6;
+
+interface OffsetMachine {
+  id: string;
+  machineId: string;
+  templateId: string;
+}
+
+export interface OffsetAxisLimit {
+  maxDelta?: number;
+  maxAbs?: number;
+}
+
+export type OffsetAxisLimits = Partial<Record<OffsetAxis, OffsetAxisLimit>>;
+
+// Template.offsetConfig 중 안전 한계 부분 (toolCount / pageSize 는 화면 설정)
+interface OffsetLimitConfig {
+  limits?: OffsetAxisLimits;
+  toolLimits?: Record<string, OffsetAxisLimits>;   // 공구 번호("1" ~ "64") → 축별 한계
+}
+
+// 한계 초과 변경 승인 (offsets.approve_limit 권한이 있는 요청자 외 계정)
+export interface OffsetApproval {
+  username: string;
+  password: string;
+}
+
+// READ_OFFSETS 결과 (Agent FocasDataReader.ReadWearOffsets)
+interface OffsetReadResult {
+  path: number;
+  count: number;
+  tools: { no: number; x: number; y: number; z: number; r: number }[];
+}
+
+export interface OffsetWriteInput {
+  path: number;
+  toolNo: number;
+  axis: OffsetAxis;
+  value: number;
+  userId: string;
+  approval?: OffsetApproval;
+}
+
+export interface OffsetChangeDto {
+  id: string;
+  path: number;
+  toolNo: number;
+  axis: string;
+  oldValue: number;
+  newValue: number;
+  delta: number;
+  userName: string | null;
+  revertOfId: string | null;
+  revertedById: string | null;   // 이 변경을 되돌린 변경 (없으면 null)
+  approvedBy: string | null;     // 한계 초과 승인자
+  createdAt: Date;
+}
+
+export function parseAxis(value: unknown): OffsetAxis | null {
+  if (typeof value !== 'string') return null;
+  const axis = value.toUpperCase();
+  return axis in AXIS_INDEX ? (axis as OffsetAxis) : null;
+}
+
+export function isValidToolNo(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_TOOL_NO;
+}
+
+export function parseApproval(value: unknown): OffsetApproval | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { username, password } = value as Record<string, unknown>;
+  if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) return undefined;
+  return { username, password };
+}
+
+function isLimitValue(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'number' && Number.isFinite(value) && value > 0);
+}
+
+function axisLimitsError(limits: unknown, label: string): string | null {
+  if (limits === undefined || limits === null) return null;
+  if (typeof limits !== 'object' || Array.isArray(limits)) return `${label} 형식이 올바르지 않습니다`;
+  for (const [axis, limit] of Object.entries(limits as Record<string, unknown>)) {
+    if (!parseAxis(axis) || axis !== axis.toUpperCase()) return `${label}: 알 수 없는 축 ${axis}`;
+    if (limit === null || typeof limit !== 'object') return `${label} ${axis} 형식이 올바르지 않습니다`;
+    const { maxDelta, maxAbs } = limit as Record<string, unknown>;
+    if (!isLimitValue(maxDelta) || !isLimitValue(maxAbs)) return `${label} ${axis}: 한계 값은 0보다 큰 숫자여야 합니다`;
+  }
+  return null;
+}
+
+/** offsetConfig 안전 한계 형식 검사 (템플릿 저장 시) — 오류 메시지 또는 null */
+export function validateOffsetLimits(offsetConfig: unknown): string | null {
+  if (!offsetConfig || typeof offsetConfig !== 'object') return null;
+  const { limits, toolLimits } = offsetConfig as Record<string, unknown>;
+  const error = axisLimitsError(limits, '축별 한계');
+  if (error) return error;
+  if (toolLimits === undefined || toolLimits === null) return null;
+  if (typeof toolLimits !== 'object' || Array.isArray(toolLimits)) return '공구별 한계 형식이 올바르지 않습니다';
+  for (const [toolNo, limitsOfTool] of Object.entries(toolLimits as Record<string, unknown>)) {
+    if (!isValidToolNo(Number(toolNo))) return `공구별 한계: 공구 번호 ${toolNo} 가 올바르지 않습니다`;
+    const toolError = axisLimitsError(limitsOfTool, `T${toolNo} 한계`);
+    if (toolError) return toolError;
+  }
+  return null;
+}
+
+/** 공구 / 축의 실효 한계 (축별 기본값 위에 공구별 값 덮어쓰기) */
+export function resolveOffsetLimit(offsetConfig: unknown, toolNo: number, axis: OffsetAxis): OffsetAxisLimit {
+  const config = (offsetConfig ?? {}) as OffsetLimitConfig;
+  const base = config.limits?.[axis] ?? {};
+  const tool = config.toolLimits?.[String(toolNo)]?.[axis] ?? {};
+  return {
+    maxDelta: tool.maxDelta ?? base.maxDelta ?? undefined,
+    maxAbs: tool.maxAbs ?? base.maxAbs ?? undefined,
+  };
+}
+
+/** 한계 초과 사유 (없으면 null) */
+export function checkOffsetLimit(limit: OffsetAxisLimit, oldValue: number, newValue: number): string | null {
+  const delta = Math.abs(newValue - oldValue);
+  if (limit.maxDelta !== undefined && delta > limit.maxDelta + VALUE_EPSILON) {
+    return `변경량 ${delta.toFixed(4)} 이(가) 1회 한계 ${limit.maxDelta.toFixed(4)} 을(를) 초과합니다`;
+  }
+  if (limit.maxAbs !== undefined && Math.abs(newValue) > limit.maxAbs + VALUE_EPSILON) {
+    return `값 ${newValue.toFixed(4)} 이(가) 마모 한계 ±${limit.maxAbs.toFixed(4)} 을(를) 벗어납니다`;
+  }
+  return null;
+}
+
+// 한계 초과 승인자 확인 — 활성 / 승인된 계정 + 해당 장비 범위 offsets.approve_limit, 요청자 본인 불가
+async function verifyApprover(machine: OffsetMachine, approval: OffsetApproval, requesterId: string) {
+  const approver = await prisma.user.findUnique({ where: { username: approval.username } });
+  const valid = !!approver && approver.isActive && approver.isApproved
+    && await verifyPassword(approval.password, approver.passwordHash);
+  if (!valid) throw new AppError(403, 'APPROVAL_INVALID', '승인자 아이디 또는 비밀번호가 올바르지 않습니다');
+  const scope = await prisma.machine.findUnique({ where: { id: machine.id }, select: { machineId: true, location: true } });
+  if (!(await hasPermission(approver, 'offsets.approve_limit', scope))) {
+    throw new AppError(403, 'APPROVAL_INVALID', '승인자에게 이 장비의 한계 초과 승인 권한이 없습니다');
+  }
+  if (approver.id === requesterId) {
+    throw new AppError(403, 'APPROVAL_INVALID', '본인이 요청한 변경은 승인할 수 없습니다 — 다른 승인자 계정이 필요합니다');
+  }
+  return { id: approver.id, username: approver.username };
+}
+
+// 명령 실행 — Agent 실패 502, 시간 초과 504
+async function runCommand(
+  machine: OffsetMachine,
+  command: string,
+  params: Record<string, unknown>,
+  failMessage: string,
+): Promise<unknown> {
+  let cmdResult;
+  try {
+    cmdResult = await sendNcCommand(machine.id, machine.machineId, command, params);
+  } catch {
+    throw new AppError(504, 'COMMAND_TIMEOUT', 'Agent 응답 시간 초과');
+  }
+  if (cmdResult.status !== 'success') {
+    throw new AppError(502, cmdResult.errorCode ?? 'AGENT_ERROR', cmdResult.errorMessage ?? failMessage);
+  }
+  return cmdResult.result;
+}
+
+/** 공구 1개 축의 현재 마모 오프셋 */
+export async function readWearOffset(machine: OffsetMachine, path: number, toolNo: number, axis: OffsetAxis): Promise<number> {
+  const result = await runCommand(machine, 'READ_OFFSETS', { path, count: toolNo }, '오프셋 읽기 실패') as OffsetReadResult;
+  const tool = result?.tools?.find((t) => t.no === toolNo);
+  const value = tool?.[axis.toLowerCase() as 'x' | 'y' | 'z' | 'r'];
+  if (typeof value !== 'number') {
+    throw new AppError(502, 'AGENT_ERROR', `T${toolNo} ${axis} 오프셋을 읽을 수 없습니다`);
+  }
+  return value;
+}
+
+async function writeAndRecord(
+  machine: OffsetMachine,
+  input: OffsetWriteInput,
+  oldValue: number,
+  revertOfId: string | null,
+) {
+  const template = await prisma.template.findUnique({ where: { id: machine.templateId }, select: { offsetConfig: true } });
+  const violation = checkOffsetLimit(resolveOffsetLimit(template?.offsetConfig, input.toolNo, input.axis), oldValue, input.value);
+  let approvedBy: { id: string; username: string } | null = null;
+  if (violation) {
+    if (!input.approval) {
+      throw new AppError(409, 'OFFSET_LIMIT_EXCEEDED', `T${input.toolNo} ${input.axis}: ${violation} — 승인이 필요합니다`);
+    }
+    approvedBy = await verifyApprover(machine, input.approval, input.userId);
+  }
+
+  const result = await runCommand(
+    machine,
+    'WRITE_OFFSET',
+    { path: input.path, toolNo: input.toolNo, axisIdx: AXIS_INDEX[input.axis], value: input.value },
+    '오프셋 쓰기 실패',
+  );
+  const change = await prisma.offsetChange.create({
+    data: {
+      machineDbId: machine.id,
+      path: input.path,
+      toolNo: input.toolNo,
+      axis: input.axis,
+      oldValue,
+      newValue: input.value,
+      userId: input.userId,
+      revertOfId,
+      approvedById: approvedBy?.id ?? null,
+    },
+  });
+  return { result, change, violation, approvedBy };
+}
+
+/** 마모 오프셋 쓰기 (현재 값 읽기 → 쓰기 → 이력 기록) */
+export async function writeWearOffset(machine: OffsetMachine, input: OffsetWriteInput) {
+  const oldValue = await readWearOffset(machine, input.path, input.toolNo, input.axis);
+  return writeAndRecord(machine, input, oldValue, null);
+}
+
+/** 마모 오프셋 가산 (현재 값 + delta — 측정 보정) */
+export async function adjustWearOffset(
+  machine: OffsetMachine,
+  input: Omit<OffsetWriteInput, 'value'> & { delta: number },
+) {
+  const { delta, ...rest } = input;
+  const oldValue = await readWearOffset(machine, input.path, input.toolNo, input.axis);
+  const value = Math.round((oldValue + delta) * 10_000) / 10_000;
+  return writeAndRecord(machine, { ...rest, value }, oldValue, null);
+}
+
+/** 변경 이력 (최신순) */
+export async function listOffsetChanges(
+  machineDbId: string,
+  filter: { path?: number; toolNo?: number; limit: number },
+): Promise<OffsetChangeDto[]> {
+  const rows = await prisma.offsetChange.findMany({
+    where: { machineDbId, path: filter.path, toolNo: filter.toolNo },
+    include: { user: { select: { username: true } }, approvedBy: { select: { username: true } } },
+    orderBy: { createdAt: 'desc' },
+    take: filter.limit,
+  });
+  const reverts = await prisma.offsetChange.findMany({
+    where: { revertOfId: { in: rows.map((r) => r.id) } },
+    select: { id: true, revertOfId: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  const revertedBy = new Map(reverts.map((r) => [r.revertOfId!, r.id]));
+
+  return rows.map((r) => ({
+    id: r.id,
+    path: r.path,
+    toolNo: r.toolNo,
+    axis: r.axis,
+    oldValue: r.oldValue,
+    newValue: r.newValue,
+    delta: r.newValue - r.oldValue,
+    userName: r.user?.username ?? null,
+    revertOfId: r.revertOfId,
+    revertedById: revertedBy.get(r.id) ?? null,
+    approvedBy: r.approvedBy?.username ?? null,
+    createdAt: r.createdAt,
+  }));
+}
+
+/** 변경 1건 되돌리기 (이전 값 다시 쓰기) */
+export async function revertOffsetChange(
+  machine: OffsetMachine,
+  changeId: string,
+  userId: string,
+  force: boolean,
+  approval?: OffsetApproval,
+) {
+  const change = await prisma.offsetChange.findFirst({ where: { id: changeId, machineDbId: machine.id } });
+  if (!change) throw new AppError(404, 'NOT_FOUND', '오프셋 변경 이력을 찾을 수 없습니다');
+  const axis = parseAxis(change.axis);
+  if (!axis) throw new AppError(400, 'INVALID_AXIS', 'axis는 X/Z/Y/R 중 하나입니다.');
+
+  const current = await readWearOffset(machine, change.path, change.toolNo, axis);
+  if (!force && Math.abs(current - change.newValue) > VALUE_EPSILON) {
+    throw new AppError(
+      409,
+      'OFFSET_CHANGED_SINCE',
+      `T${change.toolNo} ${axis} 현재 값(${current})이 이 변경 후 값(${change.newValue})과 다릅니다 — 이후 다른 변경이 있었습니다`,
+    );
+  }
+
+  return writeAndRecord(
+    machine,
+    { path: change.path, toolNo: change.toolNo, axis, value: change.oldValue, userId, approval },
+    current,
+    change.id,
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * Permissions - 명명된 권한 / 역할 / 장비·라인 범위 평가
+ *
+ *   기본 권한  : User.role (USER / ADMIN / HQ_ENGINEER) → Role(baseRole) 행 또는 DEFAULT_ROLE_PERMISSIONS
+ *               HQ_ENGINEER 는 잠금 방지를 위해 항상 전체 권한
+ *   추가 권한  : RoleAssignment — 전체 / 특정 장비(machineId) / 특정 라인(Machine.location) 범위
+ *   장비 범위 권한(scopable)만 장비·라인 한정 부여가 의미를 가지며, 나머지는 전체 범위로만 평가
+ *
+ * Web 은 GET /api/auth/permissions 로 같은 평가 결과(PermissionGrants)를 받아 버튼 노출을 결정한다.
+ */
+
+import { UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+
+export const PERMISSIONS = [
+  // 장비 범위 (장비 / 라인 한정 부여 가능)
+  { key: 'control.acquire',        label: '제어권 획득',               scopable: true },
+  { key: 'control.force_release',  label: '제어권 강제 해제',          scopable: true },
+  { key: 'command.send',           label: '원격 명령 전송',            scopable: true },
+  { key: 'scheduler.edit',         label: '스케줄러 행 편집',          scopable: true },
+  { key: 'scheduler.start',        label: '스케줄러 시작 / 정지',      scopable: true },
+  { key: 'offsets.write',          label: '공구 오프셋 쓰기',          scopable: true },
+  { key: 'offsets.approve_limit',  label: '오프셋 한계 초과 승인',     scopable: true },
+  { key: 'measurement.write',      label: '게이지 측정값 입력',        scopable: true },
+  { key: 'tool-life.write',        label: '공구 수명 쓰기',            scopable: true },
+  { key: 'count.write',            label: '카운터 쓰기',               scopable: true },
+  { key: 'program.edit',           label: 'NC 프로그램 편집 / 삭제',   scopable: true },
+  { key: 'program.approve',        label: 'NC 프로그램 승인 / 릴리스', scopable: true },
+  { key: 'transfer.pc_to_cnc',     label: 'PC → CNC 프로그램 전송',    scopable: true },
+  { key: 'backup.create',          label: '백업 실행',                 scopable: true },
+  { key: 'backup.restore',         label: '백업 복원',                 scopable: true },
+  { key: 'machine.config',         label: '장비 DNC 설정',             scopable: true },
+  // 전체 범위
+  { key: 'machine.manage',         label: '장비 등록 / 수정 / 삭제',   scopable: false },
+  { key: 'template.edit',          label: '템플릿 편집',               scopable: false },
+  { key: 'backup.schedule',        label: '백업 스케줄 / 보존 정책',   scopable: false },
+  { key: 'work-order.manage',      label: '작업지시 관리',             scopable: false },
+  { key: 'shift.manage',           label: '근무 / 계획 정지 관리',     scopable: false },
+  { key: 'downtime.manage',        label: '비가동 사유 코드 관리',     scopable: false },
+  { key: 'production.edit',        label: '생산 기준값 / 불량 수 편집', scopable: false },
+  { key: 'settings.manage',        label: '시스템 설정',               scopable: false },
+  { key: 'camera.manage',          label: '카메라 등록 / 수정 / 삭제', scopable: false },
+  { key: 'audit.view',             label: '감사 로그 조회',            scopable: false },
+  { key: 'diagnostics.view',       label: '시스템 진단 조회',          scopable: false },
+  { key: 'user.manage',            label: '사용자 / 역할 관리',        scopable: false },
+] as const;
+
+export type Permission = typeof PERMISSIONS[number]['key'];
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSIONS.map((p) => p.key);
+
+const SCOPABLE = new Set<string>(PERMISSIONS.filter((p) => p.scopable).map((p) => p.key));
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+export function permissionLabel(permission: Permission): string {
+  return PERMISSIONS.find((p) => p.key === permission)?.label ?? permission;
+}
+
+// Role(baseRole) 행이 없을 때의 기본 권한 — 기존 requireRole 동작과 동일
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  USER: [],
+  ADMIN: ALL_PERMISSIONS.filter((p) => p !== 'template.edit'),
+  HQ_ENGINEER: ALL_PERMISSIONS,
+};
+
+export interface PermissionGrants {
+  global: Permission[];
+  machines: Record<string, Permission[]>;   // Machine.machineId → 권한
+  locations: Record<string, Permission[]>;  // Machine.location → 권한
+}
+
+export interface MachineScope {
+  machineId: string;
+  location: string | null;
+}
+
+function sanitize(permissions: string[]): Permission[] {
+  return permissions.filter(isPermission);
+}
+
+/**
+ * 기본 역할의 실효 권한 (Role 행 우선, HQ_ENGINEER 는 고정)
+ */
+export async function getBaseRolePermissions(role: UserRole): Promise<Permission[]> {
+  if (role === 'HQ_ENGINEER') return ALL_PERMISSIONS;
+  const row = await prisma.role.findUnique({ where: { baseRole: role } });
+  return row ? sanitize(row.permissions) : DEFAULT_ROLE_PERMISSIONS[role];
+}
+
+// ── 사용자별 권한 캐시 (역할 / 부여 변경 시 invalidate) ──────────
+
+const CACHE_TTL_MS = 30_000;
+const cache = new Map<string, { role: UserRole; grants: PermissionGrants; expiresAt: number }>();
+
+export function invalidatePermissions(userId?: string): void {
+  if (userId) cache.delete(userId);
+  else cache.clear();
+}
+
+async function buildGrants(userId: string, role: UserRole): Promise<PermissionGrants> {
+  const global = new Set<Permission>(await getBaseRolePermissions(role));
+  const machines: Record<string, Set<Permission>> = {};
+  const locations: Record<string, Set<Permission>> = {};
+
+  const assignments = await prisma.roleAssignment.findMany({
+    where: { userId },
+    include: {
+      role: { select: { permissions: true } },
+      machine: { select: { machineId: true } },
+    },
+  });
+
+  for (const a of assignments) {
+    const perms = sanitize(a.role.permissions);
+    if (a.machine) {
+      const set = (machines[a.machine.machineId] ??= new Set());
+      perms.filter((p) => SCOPABLE.has(p)).forEach((p) => set.add(p));
+    } else if (a.location) {
+      const set = (locations[a.location] ??= new Set());
+      perms.filter((p) => SCOPABLE.has(p)).forEach((p) => set.add(p));
+    } else {
+      perms.forEach((p) => global.add(p));
+    }
+  }
+
+  const toRecord = (m: Record<string, Set<Permission>>) =>
+    Object.fromEntries(Object.entries(m).map(([k, v]) => [k, [...v]]));
+
+  return { global: [...global], machines: toRecord(machines), locations: toRecord(locations) };
+}
+
+export async function getUserGrants(userId: string, role: UserRole): Promise<PermissionGrants> {
+  const hit = cache.get(userId);
+  if (hit && hit.role === role && hit.expiresAt > Date.now()) return hit.grants;
+
+  const grants = await buildGrants(userId, role);
+  cache.set(userId, { role, grants, expiresAt: Date.now() + CACHE_TTL_MS });
+  return grants;
+}
+
+/**
+ * 권한 평가 — machine 이 주어지면 장비 / 라인 범위 부여도 인정
+ */
+export function grantsAllow(grants: PermissionGrants, permission: Permission, machine?: MachineScope | null): boolean {
+  if (grants.global.includes(permission)) return true;
+  if (!machine) return false;
+  if (grants.machines[machine.machineId]?.includes(permission)) return true;
+  return !!machine.location && !!grants.locations[machine.location]?.includes(permission);
+}
+
+export async function hasPermission(
+  user: { id: string; role: UserRole },
+  permission: Permission,
+  machine?: MachineScope | null,
+): Promise<boolean> {
+  return grantsAllow(await getUserGrants(user.id, user.role), permission, machine);
+}
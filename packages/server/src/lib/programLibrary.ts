@@ -0,0 +1,289 @@
+/**
+ * ProgramLibrary - 장비 공용 파트 프로그램 라이브러리 (제품 코드별)
+ *
+ * 저장: Program root = LIBRARY, location = 제품 코드 (data/library/<제품 코드>/<fileName>)
+ *   리비전 / 체크아웃 / 승인 · 릴리스는 lib/programRepo 그대로 사용
+ *   호환 범위: compatibleTemplates (Template.templateId) ∪ compatibleMachines (Machine.machineId)
+ *             — 둘 다 비어 있으면 배포 대상 없음
+ *
+ * 배포: 호환 장비로 PC→CNC 전송 (lib/transferJobs, root LIBRARY) — VERIFIED 시 ProgramDeployment 갱신
+ *
+ * 배포 현황 (프로그램 × 호환 장비, 기준 = 최신 릴리스 리비전):
+ *   CNC 목록(LIST_PROGRAMS) + 배포 기록 + 배포 이후 같은 O번호 전송 이력으로 판정
+ *     CURRENT       최신 릴리스 리비전 배포, CNC 에 존재
+ *     STALE         이전 리비전 배포 — 재배포 필요
+ *     OVERWRITTEN   배포 후 같은 O번호가 다른 전송으로 덮어써짐
+ *     MISSING       배포 기록은 있으나 CNC 목록에 없음 (삭제됨)
+ *     UNMANAGED     CNC 에 같은 O번호가 있으나 라이브러리 배포 기록 없음 (수동 복사 — 리비전 불명)
+ *     NOT_DEPLOYED  배포 기록 / CNC 프로그램 없음
+ *   CNC 목록 조회 실패(오프라인) 시 배포 기록만으로 판정 (MISSING / UNMANAGED 판정 불가)
+ */
+
+import { prisma } from './prisma';
+import { listProgramsByRoot, getProgram, saveProgram, findProgram, ProgramDto } from './programRepo';
+import { extractProgramNo } from './transferJobs';
+import { listCncPrograms } from './programVerify';
+import { AppError } from '../middleware/error';
+
+const PRODUCT_CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+export interface LibraryProgramDto extends ProgramDto {
+  productCode: string;
+  compatibleTemplates: string[];
+  compatibleMachines: string[];
+  releasedRevision: number | null;    // 배포 기준 — 릴리스 기록이 있는 최신 리비전
+}
+
+export interface CompatibleMachine {
+  id: string;
+  machineId: string;
+  name: string;
+  location: string | null;
+  templateId: string;                 // Template.templateId
+}
+
+export type DeploymentState = 'CURRENT' | 'STALE' | 'OVERWRITTEN' | 'MISSING' | 'UNMANAGED' | 'NOT_DEPLOYED';
+
+export interface DeploymentCell {
+  programId: string;
+  machineId: string;
+  state: DeploymentState;
+  programNo: string | null;
+  deployedRevision: number | null;
+  deployedAt: string | null;
+  deployedBy: string | null;
+  onCnc: boolean | null;              // CNC 목록에 O번호 존재 (목록 조회 실패 시 null)
+}
+
+export interface DeploymentMachine extends CompatibleMachine {
+  online: boolean;
+  error: string | null;               // CNC 목록 조회 실패 사유
+}
+
+export interface DeploymentMatrix {
+  programs: LibraryProgramDto[];
+  machines: DeploymentMachine[];
+  cells: DeploymentCell[];
+  checkedAt: string;
+}
+
+export function isValidProductCode(code: unknown): code is string {
+  return typeof code === 'string' && PRODUCT_CODE_PATTERN.test(code);
+}
+
+// ─── 목록 / 조회 ──────────────────────────────────────────────
+
+async function withLibraryFields(programs: ProgramDto[]): Promise<LibraryProgramDto[]> {
+  const rows = await prisma.program.findMany({
+    where: { id: { in: programs.map((p) => p.id) } },
+    select: {
+      id: true,
+      compatibleTemplates: true,
+      compatibleMachines: true,
+      revisions: { where: { releasedAt: { not: null } }, orderBy: { revision: 'desc' }, take: 1, select: { revision: true } },
+    },
+  });
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  return programs.map((p) => {
+    const row = byId.get(p.id);
+    return {
+      ...p,
+      productCode: p.location,
+      compatibleTemplates: row?.compatibleTemplates ?? [],
+      compatibleMachines: row?.compatibleMachines ?? [],
+      releasedRevision: row?.revisions[0]?.revision ?? null,
+    };
+  });
+}
+
+/**
+ * 라이브러리 프로그램 목록 (제품 코드 / 파일명 순)
+ */
+export async function listLibrary(productCode?: string): Promise<LibraryProgramDto[]> {
+  return withLibraryFields(await listProgramsByRoot('LIBRARY', productCode));
+}
+
+export async function getLibraryProgram(id: string): Promise<LibraryProgramDto> {
+  const program = await getProgram(id);
+  if (program.root !== 'LIBRARY') {
+    throw new AppError(404, 'LIBRARY_PROGRAM_NOT_FOUND', '라이브러리 프로그램이 아닙니다');
+  }
+  return (await withLibraryFields([program]))[0];
+}
+
+/**
+ * 호환 장비 (활성 장비 중 호환 템플릿 또는 호환 장비 목록에 해당)
+ */
+export async function compatibleMachines(program: Pick<LibraryProgramDto, 'compatibleTemplates' | 'compatibleMachines'>): Promise<CompatibleMachine[]> {
+  if (program.compatibleTemplates.length === 0 && program.compatibleMachines.length === 0) return [];
+  const machines = await prisma.machine.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { machineId: { in: program.compatibleMachines } },
+        { template: { templateId: { in: program.compatibleTemplates } } },
+      ],
+    },
+    select: { id: true, machineId: true, name: true, location: true, template: { select: { templateId: true } } },
+    orderBy: { machineId: 'asc' },
+  });
+  return machines.map((m) => ({
+    id: m.id,
+    machineId: m.machineId,
+    name: m.name,
+    location: m.location,
+    templateId: m.template.templateId,
+  }));
+}
+
+// ─── 등록 / 호환 범위 ─────────────────────────────────────────
+
+async function assertCompatibilityTargets(templates: string[], machines: string[]): Promise<void> {
+  const [foundTemplates, foundMachines] = await Promise.all([
+    prisma.template.findMany({ where: { templateId: { in: templates } }, select: { templateId: true } }),
+    prisma.machine.findMany({ where: { machineId: { in: machines } }, select: { machineId: true } }),
+  ]);
+  const unknownTemplate = templates.find((t) => !foundTemplates.some((f) => f.templateId === t));
+  if (unknownTemplate) throw new AppError(400, 'UNKNOWN_TEMPLATE', `템플릿을 찾을 수 없습니다: ${unknownTemplate}`);
+  const unknownMachine = machines.find((m) => !foundMachines.some((f) => f.machineId === m));
+  if (unknownMachine) throw new AppError(400, 'UNKNOWN_MACHINE', `장비를 찾을 수 없습니다: ${unknownMachine}`);
+}
+
+/**
+ * 라이브러리 프로그램 신규 등록 (첫 리비전 = DRAFT)
+ */
+export async function createLibraryProgram(
+  input: {
+    productCode: string;
+    fileName: string;
+    content: string;
+    message?: string;
+    compatibleTemplates: string[];
+    compatibleMachines: string[];
+  },
+  userId: string,
+): Promise<LibraryProgramDto> {
+  const ref = { root: 'LIBRARY' as const, pathKey: input.productCode, fileName: input.fileName };
+  if (await findProgram(ref)) {
+    throw new AppError(409, 'PROGRAM_EXISTS', `이미 등록된 프로그램입니다: ${input.productCode}/${input.fileName}`);
+  }
+  if (!extractProgramNo(input.fileName, input.content)) {
+    throw new AppError(400, 'INVALID_PARAMS', 'O번호를 찾을 수 없습니다 (파일명 또는 본문 첫 줄)');
+  }
+  await assertCompatibilityTargets(input.compatibleTemplates, input.compatibleMachines);
+
+  const { program } = await saveProgram(ref, input.content, { userId, message: input.message || '라이브러리 등록' });
+  await prisma.program.update({
+    where: { id: program.id },
+    data: { compatibleTemplates: input.compatibleTemplates, compatibleMachines: input.compatibleMachines },
+  });
+  return getLibraryProgram(program.id);
+}
+
+/**
+ * 호환 범위 변경 (기존 배포 기록은 유지 — 범위 밖 장비는 배포 현황에서 제외)
+ */
+export async function setCompatibility(id: string, templates: string[], machines: string[]): Promise<LibraryProgramDto> {
+  await getLibraryProgram(id);
+  await assertCompatibilityTargets(templates, machines);
+  await prisma.program.update({
+    where: { id },
+    data: { compatibleTemplates: [...new Set(templates)], compatibleMachines: [...new Set(machines)] },
+  });
+  return getLibraryProgram(id);
+}
+
+// ─── 배포 현황 ────────────────────────────────────────────────
+
+function deploymentState(
+  releasedRevision: number | null,
+  deployment: { revision: number; transferJobId: string | null } | undefined,
+  onCnc: boolean | null,
+  lastTransferJobId: string | undefined,
+): DeploymentState {
+  if (!deployment) return onCnc ? 'UNMANAGED' : 'NOT_DEPLOYED';
+  if (onCnc === false) return 'MISSING';
+  if (lastTransferJobId && lastTransferJobId !== deployment.transferJobId) return 'OVERWRITTEN';
+  if (releasedRevision !== null && deployment.revision < releasedRevision) return 'STALE';
+  return 'CURRENT';
+}
+
+/**
+ * 배포 현황 — 프로그램 × 호환 장비 (장비마다 CNC 목록 조회, 병렬)
+ */
+export async function getDeploymentMatrix(productCode?: string): Promise<DeploymentMatrix> {
+  const programs = await listLibrary(productCode);
+
+  const compatibility = new Map<string, CompatibleMachine[]>();
+  const machines = new Map<string, CompatibleMachine>();
+  for (const program of programs) {
+    const compatible = await compatibleMachines(program);
+    compatibility.set(program.id, compatible);
+    for (const m of compatible) machines.set(m.id, m);
+  }
+  const machineList = [...machines.values()].sort((a, b) => a.machineId.localeCompare(b.machineId));
+
+  // CNC 목록 (O번호 집합) — 실패 장비는 null
+  const listings = await Promise.allSettled(machineList.map((m) => listCncPrograms(m)));
+  const cncPrograms = new Map<string, Set<string> | null>();
+  const columns: DeploymentMachine[] = machineList.map((m, i) => {
+    const listing = listings[i];
+    if (listing.status === 'fulfilled') {
+      const numbers = listing.value.programs
+        .map((p) => extractProgramNo(p.programNo ?? p.name ?? ''))
+        .filter((n): n is string => !!n);
+      cncPrograms.set(m.id, new Set(numbers));
+      return { ...m, online: true, error: null };
+    }
+    cncPrograms.set(m.id, null);
+    const reason = listing.reason instanceof Error ? listing.reason.message : 'CNC 프로그램 목록 조회 실패';
+    return { ...m, online: false, error: reason };
+  });
+
+  const deployments = await prisma.programDeployment.findMany({
+    where: { programId: { in: programs.map((p) => p.id) } },
+    include: { deployedBy: { select: { username: true } } },
+  });
+  const deploymentKey = (programId: string, machineDbId: string) => `${programId}:${machineDbId}`;
+  const deployed = new Map(deployments.map((d) => [deploymentKey(d.programId, d.machineDbId), d]));
+
+  // 장비 / O번호별 마지막 PC→CNC 전송 (배포 이후 다른 전송으로 덮어썼는지 판정)
+  const programNos = [...new Set([
+    ...programs.map((p) => p.programNo),
+    ...deployments.map((d) => d.programNo),
+  ].filter((n): n is string => !!n))];
+  const lastTransfers = await prisma.transferJob.findMany({
+    where: {
+      machineDbId: { in: machineList.map((m) => m.id) },
+      programNo: { in: programNos },
+      direction: 'PC_TO_CNC',
+      status: 'VERIFIED',
+    },
+    orderBy: { verifiedAt: 'desc' },
+    distinct: ['machineDbId', 'programNo'],
+    select: { id: true, machineDbId: true, programNo: true },
+  });
+  const lastTransfer = new Map(lastTransfers.map((t) => [`${t.machineDbId}:${t.programNo}`, t.id]));
+
+  const cells: DeploymentCell[] = [];
+  for (const program of programs) {
+    for (const machine of compatibility.get(program.id) ?? []) {
+      const deployment = deployed.get(deploymentKey(program.id, machine.id));
+      const programNo = deployment?.programNo ?? program.programNo;
+      const listed = cncPrograms.get(machine.id);
+      const onCnc = listed && programNo ? listed.has(programNo) : listed ? false : null;
+      cells.push({
+        programId: program.id,
+        machineId: machine.machineId,
+        state: deploymentState(program.releasedRevision, deployment, onCnc, lastTransfer.get(`${machine.id}:${programNo}`)),
+        programNo,
+        deployedRevision: deployment?.revision ?? null,
+        deployedAt: deployment?.deployedAt.toISOString() ?? null,
+        deployedBy: deployment?.deployedBy?.username ?? null,
+        onCnc,
+      });
+    }
+  }
+
+  return { programs, machines: columns, cells, checkedAt: new Date().toISOString() };
+}
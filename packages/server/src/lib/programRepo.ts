@@ -0,0 +1,565 @@
+/**
+ * ProgramRepo - NC 프로그램 저장소 (리비전 이력 / 체크아웃 / 승인 상태)
+ *
+ * 대상: TRANSFER_SHARE (share/<fileName>), SCHEDULER_REPO (repo/<machineId>/<pathKey>/<fileName>),
+ *       LIBRARY (library/<제품 코드>/<fileName> — 장비 공용 라이브러리, lib/programLibrary)
+ *   디스크 파일 = 작업본 — Agent DNC 운전과 PC→CNC 전송은 디스크 파일을 읽는다.
+ *   API 저장마다 ProgramRevision 1행 (작성자 / 시각 / 메시지 / 원문), 내용이 같으면 리비전 생략.
+ *
+ * 상태 (최신 리비전 기준):
+ *   DRAFT → APPROVED → RELEASED     (program.approve)
+ *   새 리비전(저장 / 롤백)은 항상 DRAFT — 다시 승인 / 릴리스 필요
+ *   디스크 파일이 최신 리비전과 다르면(저장소 밖 수정) modified — 승인 / 전송 불가
+ *
+ * 체크아웃: 체크아웃한 사용자만 저장 가능 (체크인 시 해제, program.approve 보유자는 강제 해제 가능)
+ *
+ * 릴리스 게이트:
+ *   assertReleasedFile      : PC→CNC 전송 — 저장소 등록 + RELEASED + 디스크 일치 필수
+ *   assertReleasedProgramNos: 스케줄러 등록 — 해당 장비 저장소에 있는 O번호는 RELEASED 필수
+ *                             (저장소 폴더에 미등록 파일로만 있는 O번호는 거부,
+ *                              파일도 없는 O번호 = CNC 메모리 상주 프로그램, 대상 아님)
+ *   verifySchedulerPrograms : 스케줄러 START 검증 옵션 — 운전될 본문이 RELEASED 리비전과 같은지
+ */
+
+import { createHash } from 'crypto';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { Prisma, ProgramStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { diffLines, LineDiff } from './backupDiff';
+import { extractProgramNo, transferFilePath, TransferRoot } from './transferJobs';
+import { compareProgram, programChecksum } from './programVerify';
+import { AppError } from '../middleware/error';
+
+export interface ProgramRef {
+  root: TransferRoot;
+  machineId?: string | null;      // SCHEDULER_REPO 장비 (Machine.machineId)
+  pathKey?: string | null;        // SCHEDULER_REPO 경로 (path1 | path2 | path3), LIBRARY 제품 코드
+  fileName: string;
+}
+
+const PROGRAM_INCLUDE = {
+  checkedOutBy: { select: { username: true } },
+  revisions: {
+    orderBy: { revision: 'desc' },
+    take: 1,
+    select: {
+      checksum: true,
+      message: true,
+      createdAt: true,
+      author: { select: { username: true } },
+    },
+  },
+} as const;
+
+type ProgramRow = Prisma.ProgramGetPayload<{ include: typeof PROGRAM_INCLUDE }>;
+
+export interface ProgramDto {
+  id: string;
+  root: string;
+  location: string;
+  fileName: string;
+  programNo: string | null;
+  status: ProgramStatus;
+  revision: number;
+  lastMessage: string | null;
+  lastAuthor: string | null;
+  lastSavedAt: string | null;
+  checkedOutBy: string | null;
+  checkedOutAt: string | null;
+  modified: boolean;              // 디스크 파일 ≠ 최신 리비전 (삭제 포함)
+}
+
+export interface ProgramRevisionDto {
+  revision: number;
+  checksum: string;
+  sizeBytes: number;
+  message: string;
+  author: string | null;
+  createdAt: string;
+  approvedBy: string | null;
+  approvedAt: string | null;
+  releasedBy: string | null;
+  releasedAt: string | null;
+}
+
+export function contentChecksum(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// SCHEDULER_REPO: "{machineId}/{pathKey}", LIBRARY: 제품 코드, TRANSFER_SHARE: ""
+export function programLocation(ref: ProgramRef): string {
+  if (ref.root === 'SCHEDULER_REPO') return `${ref.machineId}/${ref.pathKey ?? 'path1'}`;
+  if (ref.root === 'LIBRARY') return ref.pathKey ?? '';
+  return '';
+}
+
+function refFilePath(ref: ProgramRef): string {
+  return transferFilePath(ref.root, ref.machineId ?? '', ref.pathKey ?? null, ref.fileName);
+}
+
+export function programRef(program: { root: string; location: string; fileName: string }): ProgramRef {
+  if (program.root === 'LIBRARY') return { root: 'LIBRARY', pathKey: program.location, fileName: program.fileName };
+  const [machineId, pathKey] = program.location.split('/');
+  return program.root === 'SCHEDULER_REPO'
+    ? { root: 'SCHEDULER_REPO', machineId, pathKey, fileName: program.fileName }
+    : { root: 'TRANSFER_SHARE', fileName: program.fileName };
+}
+
+async function readDisk(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function toProgramDto(program: ProgramRow, diskContent: string | null): ProgramDto {
+  const head = program.revisions[0];
+  return {
+    id: program.id,
+    root: program.root,
+    location: program.location,
+    fileName: program.fileName,
+    programNo: program.programNo,
+    status: program.status,
+    revision: program.headRevision,
+    lastMessage: head?.message ?? null,
+    lastAuthor: head?.author?.username ?? null,
+    lastSavedAt: head?.createdAt.toISOString() ?? null,
+    checkedOutBy: program.checkedOutBy?.username ?? null,
+    checkedOutAt: program.checkedOutAt?.toISOString() ?? null,
+    modified: !head || diskContent === null || contentChecksum(diskContent) !== head.checksum,
+  };
+}
+
+async function loadProgram(id: string): Promise<ProgramRow> {
+  const program = await prisma.program.findUnique({ where: { id }, include: PROGRAM_INCLUDE });
+  if (!program) throw new AppError(404, 'PROGRAM_NOT_FOUND', '저장소에 등록된 프로그램이 아닙니다');
+  return program;
+}
+
+async function dto(program: ProgramRow): Promise<ProgramDto> {
+  return toProgramDto(program, await readDisk(refFilePath(programRef(program))));
+}
+
+export async function getProgram(id: string): Promise<ProgramDto> {
+  return dto(await loadProgram(id));
+}
+
+export async function findProgram(ref: ProgramRef): Promise<ProgramDto | null> {
+  const program = await prisma.program.findUnique({
+    where: { root_location_fileName: { root: ref.root, location: programLocation(ref), fileName: ref.fileName } },
+    include: PROGRAM_INCLUDE,
+  });
+  return program ? dto(program) : null;
+}
+
+/**
+ * 폴더의 저장소 등록 프로그램 (fileName → ProgramDto) — 파일 목록 표시용
+ */
+export async function listPrograms(ref: Omit<ProgramRef, 'fileName'>): Promise<Map<string, ProgramDto>> {
+  const programs = await prisma.program.findMany({
+    where: { root: ref.root, location: programLocation({ ...ref, fileName: '' }) },
+    include: PROGRAM_INCLUDE,
+  });
+  const result = new Map<string, ProgramDto>();
+  for (const program of programs) result.set(program.fileName, await dto(program));
+  return result;
+}
+
+/**
+ * 저장소 유형(+ 위치) 전체 프로그램 (위치 / 파일명 순) — 라이브러리 목록용
+ */
+export async function listProgramsByRoot(root: TransferRoot, location?: string): Promise<ProgramDto[]> {
+  const programs = await prisma.program.findMany({
+    where: { root, ...(location !== undefined ? { location } : {}) },
+    include: PROGRAM_INCLUDE,
+    orderBy: [{ location: 'asc' }, { fileName: 'asc' }],
+  });
+  return Promise.all(programs.map(dto));
+}
+
+/**
+ * 저장 — 디스크 파일 쓰기 + 리비전 생성 (내용이 최신 리비전과 같으면 리비전 생략)
+ * 다른 사용자가 체크아웃 중이면 AppError(409, PROGRAM_CHECKED_OUT)
+ */
+export async function saveProgram(
+  ref: ProgramRef,
+  content: string,
+  author: { userId: string; message?: string },
+): Promise<{ program: ProgramDto; created: boolean }> {
+  const location = programLocation(ref);
+  const existing = await prisma.program.findUnique({
+    where: { root_location_fileName: { root: ref.root, location, fileName: ref.fileName } },
+    include: { revisions: { orderBy: { revision: 'desc' }, take: 1, select: { checksum: true } } },
+  });
+  if (existing?.checkedOutById && existing.checkedOutById !== author.userId) {
+    const holder = await prisma.user.findUnique({ where: { id: existing.checkedOutById }, select: { username: true } });
+    throw new AppError(409, 'PROGRAM_CHECKED_OUT', `${holder?.username ?? '다른 사용자'}님이 체크아웃 중인 프로그램입니다`);
+  }
+
+  const checksum = contentChecksum(content);
+  const created = existing?.revisions[0]?.checksum !== checksum;
+
+  if (created) {
+    const machineDbId = ref.root === 'SCHEDULER_REPO'
+      ? (await prisma.machine.findUnique({ where: { machineId: ref.machineId ?? '' }, select: { id: true } }))?.id ?? null
+      : null;
+    const revision = (existing?.headRevision ?? 0) + 1;
+    const programNo = extractProgramNo(ref.fileName, content);
+
+    await prisma.$transaction(async (tx) => {
+      const program = await tx.program.upsert({
+        where: { root_location_fileName: { root: ref.root, location, fileName: ref.fileName } },
+        create: { root: ref.root, location, fileName: ref.fileName, machineDbId, programNo, status: 'DRAFT', headRevision: revision },
+        update: { programNo, status: 'DRAFT', headRevision: revision },
+      });
+      await tx.programRevision.create({
+        data: {
+          programId: program.id,
+          revision,
+          content,
+          checksum,
+          sizeBytes: Buffer.byteLength(content),
+          message: author.message?.trim() ?? '',
+          authorId: author.userId,
+        },
+      });
+    });
+  }
+
+  const filePath = refFilePath(ref);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content, 'utf-8');
+
+  return { program: (await findProgram(ref))!, created };
+}
+
+/**
+ * 기존 디스크 파일을 저장소에 등록 (현재 내용으로 리비전 생성)
+ */
+export async function trackProgram(ref: ProgramRef, author: { userId: string; message?: string }): Promise<ProgramDto> {
+  const content = await readDisk(refFilePath(ref));
+  if (content === null) throw new AppError(404, 'FILE_NOT_FOUND', '파일을 찾을 수 없습니다');
+  const { program } = await saveProgram(ref, content, { userId: author.userId, message: author.message || '저장소 등록' });
+  return program;
+}
+
+/**
+ * 파일 삭제 시 저장소 등록 해제 (리비전 이력 포함) — 다른 사용자 체크아웃 중이면 거부
+ */
+export async function removeProgram(ref: ProgramRef, userId: string): Promise<void> {
+  const existing = await prisma.program.findUnique({
+    where: { root_location_fileName: { root: ref.root, location: programLocation(ref), fileName: ref.fileName } },
+    select: { id: true, checkedOutById: true },
+  });
+  if (!existing) return;
+  if (existing.checkedOutById && existing.checkedOutById !== userId) {
+    throw new AppError(409, 'PROGRAM_CHECKED_OUT', `체크아웃 중인 프로그램은 삭제할 수 없습니다: ${ref.fileName}`);
+  }
+  await prisma.program.delete({ where: { id: existing.id } });
+}
+
+// ─── 이력 / 비교 / 롤백 ───────────────────────────────────────
+
+export async function listRevisions(id: string): Promise<ProgramRevisionDto[]> {
+  await loadProgram(id);
+  const revisions = await prisma.programRevision.findMany({
+    where: { programId: id },
+    orderBy: { revision: 'desc' },
+    select: {
+      revision: true, checksum: true, sizeBytes: true, message: true, createdAt: true, approvedAt: true, releasedAt: true,
+      author: { select: { username: true } },
+      approvedBy: { select: { username: true } },
+      releasedBy: { select: { username: true } },
+    },
+  });
+  return revisions.map((r) => ({
+    revision: r.revision,
+    checksum: r.checksum,
+    sizeBytes: r.sizeBytes,
+    message: r.message,
+    author: r.author?.username ?? null,
+    createdAt: r.createdAt.toISOString(),
+    approvedBy: r.approvedBy?.username ?? null,
+    approvedAt: r.approvedAt?.toISOString() ?? null,
+    releasedBy: r.releasedBy?.username ?? null,
+    releasedAt: r.releasedAt?.toISOString() ?? null,
+  }));
+}
+
+export async function getRevisionContent(id: string, revision: number): Promise<string> {
+  const row = await prisma.programRevision.findUnique({
+    where: { programId_revision: { programId: id, revision } },
+    select: { content: true },
+  });
+  if (!row) throw new AppError(404, 'REVISION_NOT_FOUND', `리비전 ${revision}을(를) 찾을 수 없습니다`);
+  return row.content;
+}
+
+/**
+ * 두 리비전 줄 diff (from → to)
+ */
+export async function diffRevisions(id: string, from: number, to: number): Promise<LineDiff> {
+  const [a, b] = await Promise.all([getRevisionContent(id, from), getRevisionContent(id, to)]);
+  return diffLines(a, b);
+}
+
+/**
+ * 이전 리비전 내용으로 새 리비전 생성 (DRAFT)
+ */
+export async function rollbackProgram(
+  id: string,
+  revision: number,
+  author: { userId: string; message?: string },
+): Promise<ProgramDto> {
+  const program = await loadProgram(id);
+  const content = await getRevisionContent(id, revision);
+  if (revision === program.headRevision) {
+    throw new AppError(409, 'ALREADY_HEAD', '현재 리비전으로는 되돌릴 수 없습니다');
+  }
+  const { program: saved } = await saveProgram(programRef(program), content, {
+    userId: author.userId,
+    message: author.message || `r${revision}(으)로 되돌림`,
+  });
+  return saved;
+}
+
+// ─── 체크아웃 / 체크인 ────────────────────────────────────────
+
+export async function checkoutProgram(id: string, userId: string): Promise<ProgramDto> {
+  const program = await loadProgram(id);
+  if (program.checkedOutById && program.checkedOutById !== userId) {
+    throw new AppError(409, 'PROGRAM_CHECKED_OUT', `${program.checkedOutBy?.username ?? '다른 사용자'}님이 체크아웃 중입니다`);
+  }
+  await prisma.program.update({ where: { id }, data: { checkedOutById: userId, checkedOutAt: new Date() } });
+  return getProgram(id);
+}
+
+/**
+ * 체크인 (잠금 해제) — 본인 또는 force(program.approve 보유자)
+ */
+export async function checkinProgram(id: string, userId: string, force: boolean): Promise<ProgramDto> {
+  const program = await loadProgram(id);
+  if (!program.checkedOutById) {
+    throw new AppError(409, 'NOT_CHECKED_OUT', '체크아웃된 프로그램이 아닙니다');
+  }
+  if (program.checkedOutById !== userId && !force) {
+    throw new AppError(403, 'FORBIDDEN', '체크아웃한 사용자만 체크인할 수 있습니다');
+  }
+  await prisma.program.update({ where: { id }, data: { checkedOutById: null, checkedOutAt: null } });
+  return getProgram(id);
+}
+
+// ─── 승인 / 릴리스 ────────────────────────────────────────────
+
+const NEXT_STATUS: Record<'APPROVED' | 'RELEASED', ProgramStatus> = {
+  APPROVED: 'DRAFT',
+  RELEASED: 'APPROVED',
+};
+
+/**
+ * 상태 전환 — DRAFT → APPROVED → RELEASED (최신 리비전에 승인자 / 릴리스자 기록)
+ *   체크아웃 중이거나 디스크 파일이 최신 리비전과 다르면 거부
+ */
+export async function advanceProgram(id: string, target: 'APPROVED' | 'RELEASED', userId: string): Promise<ProgramDto> {
+  const program = await dto(await loadProgram(id));
+  if (program.status !== NEXT_STATUS[target]) {
+    throw new AppError(409, 'INVALID_STATUS', target === 'APPROVED'
+      ? 'DRAFT 상태의 프로그램만 승인할 수 있습니다'
+      : '승인된 프로그램만 릴리스할 수 있습니다');
+  }
+  if (program.checkedOutBy) {
+    throw new AppError(409, 'PROGRAM_CHECKED_OUT', '체크아웃 중인 프로그램은 승인 / 릴리스할 수 없습니다 (체크인 필요)');
+  }
+  if (program.modified) {
+    throw new AppError(409, 'PROGRAM_MODIFIED', '디스크 파일이 최신 리비전과 다릅니다 — 저장소에 저장 후 다시 시도하세요');
+  }
+
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.program.update({ where: { id }, data: { status: target } }),
+    prisma.programRevision.update({
+      where: { programId_revision: { programId: id, revision: program.revision } },
+      data: target === 'APPROVED'
+        ? { approvedById: userId, approvedAt: now }
+        : { releasedById: userId, releasedAt: now },
+    }),
+  ]);
+  return getProgram(id);
+}
+
+/**
+ * 승인 / 릴리스 철회 → DRAFT
+ */
+export async function reopenProgram(id: string): Promise<ProgramDto> {
+  const program = await loadProgram(id);
+  if (program.status === 'DRAFT') {
+    throw new AppError(409, 'INVALID_STATUS', '이미 DRAFT 상태입니다');
+  }
+  await prisma.program.update({ where: { id }, data: { status: 'DRAFT' } });
+  return getProgram(id);
+}
+
+// ─── 릴리스 게이트 ────────────────────────────────────────────
+
+/**
+ * PC→CNC 전송 대상 파일 확인 — 저장소 등록 + RELEASED + 디스크 파일 일치
+ */
+export async function assertReleasedFile(ref: ProgramRef): Promise<void> {
+  const program = await findProgram(ref);
+  if (!program) {
+    throw new AppError(409, 'PROGRAM_NOT_RELEASED', `저장소에 등록되지 않은 프로그램은 전송할 수 없습니다: ${ref.fileName}`);
+  }
+  if (program.status !== 'RELEASED') {
+    throw new AppError(409, 'PROGRAM_NOT_RELEASED', `릴리스된 프로그램만 전송할 수 있습니다: ${ref.fileName} (r${program.revision} ${program.status})`);
+  }
+  if (program.modified) {
+    throw new AppError(409, 'PROGRAM_MODIFIED', `디스크 파일이 릴리스 리비전과 다릅니다: ${ref.fileName}`);
+  }
+}
+
+/**
+ * 장비 저장소(SCHEDULER_REPO) 폴더의 파일 O번호 → 'pathKey/fileName' (파일명에 없으면 본문 첫 O번호)
+ */
+async function repoFilesByProgramNo(machineDbId: string): Promise<Map<string, string>> {
+  const result = new Map<string, string>();
+  const machine = await prisma.machine.findUnique({ where: { id: machineDbId }, select: { machineId: true } });
+  if (!machine) return result;
+  const machineDir = transferFilePath('SCHEDULER_REPO', machine.machineId, '', '');
+  const pathDirs = await fs.readdir(machineDir, { withFileTypes: true }).catch(() => []);
+  for (const dir of pathDirs.filter((d) => d.isDirectory())) {
+    const files = await fs.readdir(path.join(machineDir, dir.name), { withFileTypes: true }).catch(() => []);
+    for (const file of files.filter((f) => f.isFile())) {
+      const programNo = extractProgramNo(file.name)
+        ?? extractProgramNo(file.name, (await readDisk(path.join(machineDir, dir.name, file.name))) ?? undefined);
+      if (programNo && !result.has(programNo)) result.set(programNo, `${dir.name}/${file.name}`);
+    }
+  }
+  return result;
+}
+
+/**
+ * 스케줄러 등록 O번호 확인 — 해당 장비 저장소(SCHEDULER_REPO)에 있는 O번호는 RELEASED 리비전 필요
+ * 저장소 폴더에 파일은 있지만 등록되지 않은 O번호도 거부 (릴리스 게이트 우회 방지)
+ */
+export async function assertReleasedProgramNos(machineDbId: string, programNos: (string | null | undefined)[]): Promise<void> {
+  const numbers = [...new Set(programNos.filter((n): n is string => !!n).map((n) => extractProgramNo(n) ?? n))];
+  if (numbers.length === 0) return;
+
+  const tracked = await prisma.program.findMany({
+    where: { machineDbId, root: 'SCHEDULER_REPO', programNo: { in: numbers } },
+    select: { programNo: true, status: true },
+  });
+  let untrackedFiles: Map<string, string> | null = null;
+  for (const no of numbers) {
+    const rows = tracked.filter((p) => p.programNo === no);
+    if (rows.length === 0) {
+      untrackedFiles ??= await repoFilesByProgramNo(machineDbId);
+      const file = untrackedFiles.get(no);
+      if (file) {
+        throw new AppError(409, 'PROGRAM_NOT_RELEASED', `저장소에 등록되지 않은 파일은 스케줄러에 등록할 수 없습니다: ${no} (${file})`);
+      }
+      continue;
+    }
+    if (!rows.some((p) => p.status === 'RELEASED')) {
+      throw new AppError(409, 'PROGRAM_NOT_RELEASED', `릴리스되지 않은 프로그램은 스케줄러에 등록할 수 없습니다: ${no}`);
+    }
+  }
+}
+
+/**
+ * 본문 직접 업로드(/api/transfer/:machineId/upload) 확인 — 공용 저장소 / 라이브러리 또는 해당 장비 저장소의
+ * RELEASED 최신 리비전과 같은 내용이어야 함
+ */
+export async function assertReleasedContent(machineDbId: string, content: string): Promise<void> {
+  const checksum = contentChecksum(content);
+  const released = await prisma.program.findMany({
+    where: {
+      status: 'RELEASED',
+      OR: [{ root: { in: ['TRANSFER_SHARE', 'LIBRARY'] } }, { root: 'SCHEDULER_REPO', machineDbId }],
+      revisions: { some: { checksum } },
+    },
+    select: { headRevision: true, revisions: { where: { checksum }, select: { revision: true } } },
+  });
+  if (!released.some((p) => p.revisions.some((r) => r.revision === p.headRevision))) {
+    throw new AppError(409, 'PROGRAM_NOT_RELEASED', '저장소에서 릴리스된 프로그램과 내용이 일치하지 않습니다');
+  }
+}
+
+export interface SchedulerProgramIssue {
+  pathKey: string;
+  programNo: string;
+  reason: string;
+}
+
+/**
+ * 스케줄러 START 검증 — 행 O번호별로 실제 운전될 본문이 장비 저장소의 RELEASED 리비전과 같은지 확인
+ *   dnc    : DNC 운전 대상인 저장소 디스크 파일을 릴리스 리비전과 정규화 비교
+ *   memory : 운전 모드에서는 CNC 본문을 읽을 수 없으므로 (DOWNLOAD_PROGRAM 은 EDIT 모드 필요)
+ *            해당 O번호의 마지막 PC→CNC 전송이 읽기 비교(readBack) VERIFIED 이고 체크섬이 릴리스 리비전과 같아야 함
+ * 문제 목록 반환 (빈 배열 = 통과)
+ */
+export async function verifySchedulerPrograms(
+  machine: { id: string; machineId: string },
+  rows: { mainProgramNo: string; subProgramNo: string | null }[],
+  modes: { path1: string; path2: string },
+): Promise<SchedulerProgramIssue[]> {
+  const targets = new Map<string, { pathKey: 'path1' | 'path2'; programNo: string }>();
+  for (const row of rows) {
+    for (const [pathKey, no] of [['path1', row.mainProgramNo], ['path2', row.subProgramNo]] as const) {
+      if (!no) continue;
+      const programNo = extractProgramNo(no) ?? no;
+      targets.set(`${pathKey}:${programNo}`, { pathKey, programNo });
+    }
+  }
+
+  const issues: SchedulerProgramIssue[] = [];
+  for (const { pathKey, programNo } of targets.values()) {
+    const issue = (reason: string) => issues.push({ pathKey, programNo, reason });
+    const program = await prisma.program.findFirst({
+      where: { root: 'SCHEDULER_REPO', machineDbId: machine.id, location: `${machine.machineId}/${pathKey}`, programNo },
+      select: { fileName: true, status: true, revisions: { orderBy: { revision: 'desc' }, take: 1, select: { content: true } } },
+    });
+    const released = program?.revisions[0];
+    if (!program || !released) {
+      issue('저장소에 등록되지 않아 검증할 수 없습니다');
+      continue;
+    }
+    if (program.status !== 'RELEASED') {
+      issue('릴리스되지 않은 프로그램입니다');
+      continue;
+    }
+
+    if (modes[pathKey] === 'dnc') {
+      const disk = await readDisk(transferFilePath('SCHEDULER_REPO', machine.machineId, pathKey, program.fileName));
+      if (disk === null) {
+        issue(`DNC 파일이 없습니다: ${program.fileName}`);
+        continue;
+      }
+      const comparison = compareProgram(released.content, disk);
+      if (!comparison.match) {
+        issue(`DNC 파일이 릴리스 리비전과 다릅니다 (+${comparison.diff!.additions} −${comparison.diff!.deletions}줄)`);
+      }
+      continue;
+    }
+
+    const lastTransfer = await prisma.transferJob.findFirst({
+      where: {
+        machineDbId: machine.id,
+        direction: 'PC_TO_CNC',
+        programNo,
+        status: { in: ['ACKNOWLEDGED', 'VERIFIED', 'MISMATCHED'] },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { status: true, readBack: true, checksum: true },
+    });
+    if (!lastTransfer || lastTransfer.status !== 'VERIFIED' || !lastTransfer.readBack) {
+      issue('CNC 메모리 본문이 읽기 비교로 확인되지 않았습니다 (검증 전송 필요)');
+    } else if (lastTransfer.checksum !== programChecksum(released.content)) {
+      issue('CNC에 검증 전송된 본문이 현재 릴리스 리비전과 다릅니다');
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,172 @@
+/**
+ * ProgramVerify - PC 프로그램 파일 ↔ CNC 메모리 프로그램 비교
+ *
+ * CNC 는 저장 시 '%' / 주석 / 공백 / 줄바꿈 형식을 바꾸므로 원문 비교 대신 정규화 후 비교:
+ *   - CRLF → LF, '%' 테이프 마커 제거
+ *   - 주석 '( ... )' 제거, 공백 제거, 줄 끝 EOB(';') 제거, 대문자
+ *   - 빈 줄 제거
+ * 정규화 본문의 SHA-256 이 같으면 일치, 다르면 줄 diff (PC → CNC) 반환.
+ *
+ * readBackProgram: DOWNLOAD_PROGRAM 으로 CNC 본문 읽기 (CommandLog 기록, 'verify-' correlationId —
+ *                  MQTT 결과 핸들러의 share/ 저장 대상 아님)
+ * listCncPrograms: LIST_PROGRAMS 로 CNC 메모리 프로그램 목록 조회 (/api/transfer/:machineId/programs, 라이브러리 배포 현황)
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from './prisma';
+import { mqttService } from './mqtt';
+import { commandWaiter } from './commandWaiter';
+import { diffLines, LineDiff } from './backupDiff';
+import { AppError } from '../middleware/error';
+
+const READ_BACK_TIMEOUT_MS = 60_000;
+const LIST_TIMEOUT_MS = 15_000;
+
+export interface ProgramComparison {
+  match: boolean;
+  checksum: string;         // PC (정규화)
+  cncChecksum: string;      // CNC (정규화)
+  diff: LineDiff | null;    // 불일치 시
+}
+
+// LIST_PROGRAMS 결과 항목 (Agent ExecuteListProgramsAsync)
+export interface CncProgramEntry {
+  name: string;
+  isDirectory: boolean;
+  size: number;
+  modifiedAt: string;
+  programNo: string;
+  comment: string | null;
+}
+
+export function normalizeProgram(content: string): string {
+  return content
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line
+      .replace(/\([^)]*\)?/g, '')
+      .replace(/%/g, '')
+      .replace(/\s+/g, '')
+      .replace(/;+$/, '')
+      .toUpperCase())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+export function programChecksum(content: string): string {
+  return createHash('sha256').update(normalizeProgram(content)).digest('hex');
+}
+
+export function compareProgram(pcContent: string, cncContent: string): ProgramComparison {
+  const pc = normalizeProgram(pcContent);
+  const cnc = normalizeProgram(cncContent);
+  const checksum = createHash('sha256').update(pc).digest('hex');
+  const cncChecksum = createHash('sha256').update(cnc).digest('hex');
+  const match = checksum === cncChecksum;
+  return { match, checksum, cncChecksum, diff: match ? null : diffLines(pc, cnc) };
+}
+
+/**
+ * CNC 메모리 프로그램 본문 읽기 (DOWNLOAD_PROGRAM)
+ */
+export async function readBackProgram(
+  machine: { id: string; machineId: string },
+  programNo: string,
+  timeoutMs = READ_BACK_TIMEOUT_MS,
+): Promise<string> {
+  const correlationId = `verify-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  await prisma.commandLog.create({
+    data: {
+      correlationId,
+      machineId: machine.id,
+      command: 'DOWNLOAD_PROGRAM',
+      params: { fileName: programNo, verify: true },
+      status: 'PENDING',
+    },
+  });
+
+  const waiting = commandWaiter.wait(correlationId, timeoutMs);
+  try {
+    await mqttService.sendCommand(machine.machineId, 'DOWNLOAD_PROGRAM', correlationId, { fileName: programNo });
+  } catch (err) {
+    commandWaiter.notify(correlationId, { status: 'failure' });
+    await waiting.catch(() => null);
+    await prisma.commandLog.update({
+      where: { correlationId },
+      data: { status: 'FAILURE', errorCode: 'MQTT_ERROR', completedAt: new Date() },
+    });
+    throw new AppError(503, 'MQTT_ERROR', `명령 발송 실패: ${err instanceof Error ? err.message : err}`);
+  }
+
+  let result;
+  try {
+    result = await waiting;
+  } catch {
+    await prisma.commandLog.updateMany({
+      where: { correlationId, status: { in: ['PENDING', 'RECEIVED'] } },
+      data: { status: 'TIMEOUT', completedAt: new Date() },
+    });
+    throw new AppError(504, 'READBACK_TIMEOUT', `CNC 프로그램 읽기 응답 시간 초과 (${timeoutMs / 1000}초)`);
+  }
+
+  if (result.status !== 'success') {
+    const message = result.errorCode === 'CNC_NOT_IN_EDIT_MODE'
+      ? 'CNC를 EDIT 모드로 전환한 후 다시 시도하세요'
+      : (result.errorMessage ?? `${programNo} 읽기 실패`);
+    throw new AppError(502, result.errorCode ?? 'READBACK_FAILED', message);
+  }
+  const content = (result.result as { content?: unknown } | undefined)?.content;
+  if (typeof content !== 'string') {
+    throw new AppError(502, 'READBACK_FAILED', `${programNo} 읽기 결과에 본문이 없습니다`);
+  }
+  return content;
+}
+
+/**
+ * CNC 메모리 프로그램 목록 (LIST_PROGRAMS)
+ */
+export async function listCncPrograms(
+  machine: { id: string; machineId: string },
+  timeoutMs = LIST_TIMEOUT_MS,
+): Promise<{ programs: CncProgramEntry[]; count: number }> {
+  const correlationId = `list-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  await prisma.commandLog.create({
+    data: {
+      correlationId,
+      machineId: machine.id,
+      command: 'LIST_PROGRAMS',
+      status: 'PENDING',
+    },
+  });
+
+  const waiting = commandWaiter.wait(correlationId, timeoutMs);
+  try {
+    await mqttService.sendCommand(machine.machineId, 'LIST_PROGRAMS', correlationId, {});
+  } catch (err) {
+    commandWaiter.notify(correlationId, { status: 'failure' });
+    await waiting.catch(() => null);
+    await prisma.commandLog.update({
+      where: { correlationId },
+      data: { status: 'FAILURE', errorCode: 'MQTT_ERROR', completedAt: new Date() },
+    });
+    throw new AppError(503, 'MQTT_ERROR', `명령 발송 실패: ${err instanceof Error ? err.message : err}`);
+  }
+
+  let result;
+  try {
+    result = await waiting;
+  } catch {
+    await prisma.commandLog.updateMany({
+      where: { correlationId, status: { in: ['PENDING', 'RECEIVED'] } },
+      data: { status: 'TIMEOUT', completedAt: new Date() },
+    });
+    throw new AppError(504, 'COMMAND_TIMEOUT', `Agent 응답 시간 초과 (${timeoutMs / 1000}초)`);
+  }
+
+  if (result.status !== 'success') {
+    throw new AppError(502, result.errorCode ?? 'AGENT_ERROR', result.errorMessage ?? '프로그램 목록 조회 실패');
+  }
+  const listed = (result.result ?? {}) as { programs?: CncProgramEntry[]; count?: number };
+  const programs = listed.programs ?? [];
+  return { programs, count: listed.count ?? programs.length };
+}
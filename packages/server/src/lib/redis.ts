@@ -13,6 +13,7 @@ export const REDIS_KEYS = {
   // Machine state cache
   MACHINE_STATE: (machineId: string) => `machine:${machineId}:state`,
   MACHINE_TELEMETRY: (machineId: string) => `machine:${machineId}:telemetry`,
+  MACHINE_PMC_BITS: (machineId: string) => `machine:${machineId}:pmc_bits`,
 
   // Control lock
   CONTROL_LOCK: (machineId: string) => `control:lock:${machineId}`,
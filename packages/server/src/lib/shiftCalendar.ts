@@ -0,0 +1,265 @@
+/**
+ * Shift Calendar - 교대/계획 정지 기반 시간 계산
+ *
+ *   ShiftPattern ─┬─ Shift[]            (요일별 HH:mm~HH:mm, 종료 ≤ 시작이면 익일 종료)
+ *                 └─ PlannedDowntime[]  (반복 휴식 HH:mm / 단발 휴일·보수 startAt~endAt)
+ *
+ * 장비에 패턴이 지정되지 않으면 기본 패턴(isDefault)을 사용하고,
+ * 패턴이 없거나 교대가 비어 있으면 24시간 전체를 계획 시간으로 본다.
+ */
+
+import { PlannedDowntime, Shift, ShiftPattern } from '@prisma/client';
+import { prisma } from './prisma';
+
+const HHMM_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Interval {
+  start: Date;
+  end: Date;
+}
+
+export interface ShiftOccurrence extends Interval {
+  shiftId: string;
+  shiftName: string;
+  label: string;   // 예: "03/14 주간"
+}
+
+export type PatternWithShifts = ShiftPattern & { shifts: Shift[] };
+
+export interface ShiftCalendar {
+  patterns: Map<string, PatternWithShifts>;
+  defaultPatternId: string | null;
+  machinePatterns: Map<string, string | null>;   // machine DB id → patternId
+  downtimes: PlannedDowntime[];
+}
+
+const pad2 = (v: number) => String(v).padStart(2, '0');
+
+/**
+ * "HH:mm" → 자정 기준 분 (형식 오류 시 null)
+ */
+export function parseHHmm(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const m = HHMM_PATTERN.exec(value);
+  return m ? Number(m[1]) * 60 + Number(m[2]) : null;
+}
+
+export function isValidDaysOfWeek(days: unknown): days is number[] {
+  return Array.isArray(days) && days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6);
+}
+
+/**
+ * 교대/계획 정지 전체 로드
+ */
+export async function loadShiftCalendar(): Promise<ShiftCalendar> {
+  const [patterns, machines, downtimes] = await Promise.all([
+    prisma.shiftPattern.findMany({ include: { shifts: { orderBy: { sortOrder: 'asc' } } } }),
+    prisma.machine.findMany({ select: { id: true, shiftPatternId: true } }),
+    prisma.plannedDowntime.findMany(),
+  ]);
+
+  return {
+    patterns: new Map(patterns.map((p) => [p.id, p])),
+    defaultPatternId: patterns.find((p) => p.isDefault)?.id ?? null,
+    machinePatterns: new Map(machines.map((m) => [m.id, m.shiftPatternId])),
+    downtimes,
+  };
+}
+
+/**
+ * 장비(또는 전체)에 적용되는 교대 패턴
+ */
+export function patternFor(calendar: ShiftCalendar, machineDbId?: string): PatternWithShifts | null {
+  const patternId = (machineDbId && calendar.machinePatterns.get(machineDbId)) || calendar.defaultPatternId;
+  return patternId ? calendar.patterns.get(patternId) ?? null : null;
+}
+
+/**
+ * 생산일 시작 시각 (자정 기준 분) — 패턴의 가장 이른 교대 시작, 없으면 0
+ */
+export function dayStartMinute(pattern: PatternWithShifts | null): number {
+  const starts = (pattern?.shifts ?? [])
+    .map((s) => parseHHmm(s.startTime))
+    .filter((v): v is number => v !== null);
+  return starts.length > 0 ? Math.min(...starts) : 0;
+}
+
+/**
+ * at 시점이 속한 생산일의 시작 시각
+ */
+export function productionDayStart(pattern: PatternWithShifts | null, at: Date): Date {
+  const offset = dayStartMinute(pattern);
+  const start = new Date(at.getFullYear(), at.getMonth(), at.getDate(), 0, offset);
+  return start > at ? new Date(start.getFullYear(), start.getMonth(), start.getDate() - 1, 0, offset) : start;
+}
+
+/**
+ * [from, to) 구간과 겹치는 교대 발생 목록 (시간순, 구간으로 잘라냄)
+ */
+export function shiftOccurrences(pattern: PatternWithShifts | null, from: Date, to: Date): ShiftOccurrence[] {
+  const result: ShiftOccurrence[] = [];
+  if (!pattern || pattern.shifts.length === 0) return result;
+
+  // 전날 시작한 야간조 포함
+  const cursor = new Date(from.getFullYear(), from.getMonth(), from.getDate() - 1);
+  while (cursor < to) {
+    const dayLabel = `${pad2(cursor.getMonth() + 1)}/${pad2(cursor.getDate())}`;
+    for (const shift of pattern.shifts) {
+      if (!shift.daysOfWeek.includes(cursor.getDay())) continue;
+      const startMin = parseHHmm(shift.startTime);
+      const endMin   = parseHHmm(shift.endTime);
+      if (startMin === null || endMin === null) continue;
+
+      const start = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate(), 0, startMin);
+      const end   = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + (endMin <= startMin ? 1 : 0), 0, endMin);
+      const s = start < from ? from : start;
+      const e = end > to ? to : end;
+      if (s < e) {
+        result.push({ start: s, end: e, shiftId: shift.id, shiftName: shift.name, label: `${dayLabel} ${shift.name}` });
+      }
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  return result.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * at 시점의 교대 (교대 외 시간이면 null)
+ */
+export function currentShift(pattern: PatternWithShifts | null, at: Date): ShiftOccurrence | null {
+  const occurrences = shiftOccurrences(pattern, new Date(at.getTime() - DAY_MS), new Date(at.getTime() + DAY_MS));
+  return occurrences.find((o) => o.start <= at && at < o.end) ?? null;
+}
+
+/**
+ * 장비에 적용되는 계획 정지 구간
+ */
+export function plannedDowntimeIntervals(
+  calendar: ShiftCalendar,
+  machineDbId: string | undefined,
+  from: Date,
+  to: Date,
+): Interval[] {
+  const pattern = patternFor(calendar, machineDbId);
+  const intervals: Interval[] = [];
+
+  for (const dt of calendar.downtimes) {
+    if (dt.patternId && dt.patternId !== pattern?.id) continue;
+    if (dt.machineDbId && dt.machineDbId !== machineDbId) continue;
+
+    if (dt.startAt && dt.endAt) {
+      const s = dt.startAt < from ? from : dt.startAt;
+      const e = dt.endAt > to ? to : dt.endAt;
+      if (s < e) intervals.push({ start: s, end: e });
+      continue;
+    }
+
+    const startMin = parseHHmm(dt.startTime);
+    const endMin   = parseHHmm(dt.endTime);
+    if (startMin === null || endMin === null) continue;
+
+    const cursor = new Date(from.getFullYear(), from.getMonth(), from.getDate() - 1);
+    while (cursor < to) {
+      if (dt.daysOfWeek.includes(cursor.getDay())) {
+        const start = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate(), 0, startMin);
+        const end   = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + (endMin <= startMin ? 1 : 0), 0, endMin);
+        const s = start < from ? from : start;
+        const e = end > to ? to : end;
+        if (s < e) intervals.push({ start: s, end: e });
+      }
+      cursor.setDate(cursor.getDate() + 1);
+    }
+  }
+
+  return mergeIntervals(intervals);
+}
+
+/**
+ * 계획 가동 구간 = 교대 구간(없으면 전체) − 계획 정지
+ */
+export function plannedIntervals(
+  calendar: ShiftCalendar,
+  machineDbId: string | undefined,
+  from: Date,
+  to: Date,
+): Interval[] {
+  const pattern = patternFor(calendar, machineDbId);
+  const base = pattern && pattern.shifts.length > 0
+    ? mergeIntervals(shiftOccurrences(pattern, from, to))
+    : [{ start: from, end: to }];
+  return subtractIntervals(base, plannedDowntimeIntervals(calendar, machineDbId, from, to));
+}
+
+export function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: Interval[] = [];
+  for (const iv of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && iv.start <= last.end) {
+      if (iv.end > last.end) last.end = iv.end;
+    } else {
+      merged.push({ start: iv.start, end: iv.end });
+    }
+  }
+  return merged;
+}
+
+export function subtractIntervals(base: Interval[], cuts: Interval[]): Interval[] {
+  let result = base.map((b) => ({ start: b.start, end: b.end }));
+  for (const cut of cuts) {
+    const next: Interval[] = [];
+    for (const iv of result) {
+      if (cut.end <= iv.start || cut.start >= iv.end) {
+        next.push(iv);
+        continue;
+      }
+      if (cut.start > iv.start) next.push({ start: iv.start, end: cut.start });
+      if (cut.end < iv.end) next.push({ start: cut.end, end: iv.end });
+    }
+    result = next;
+  }
+  return result;
+}
+
+/**
+ * intervals 중 [start, end)와 겹치는 총 시간 (초)
+ */
+export function overlapSeconds(intervals: Interval[], start: Date, end: Date): number {
+  let ms = 0;
+  for (const iv of intervals) {
+    const s = Math.max(iv.start.getTime(), start.getTime());
+    const e = Math.min(iv.end.getTime(), end.getTime());
+    if (e > s) ms += e - s;
+  }
+  return ms / 1000;
+}
+
+export function containsTime(intervals: Interval[], at: Date): boolean {
+  return intervals.some((iv) => iv.start <= at && at < iv.end);
+}
+
+export type TimeRange = 'shift' | 'today' | 'week' | 'month';
+
+export const TIME_RANGES: TimeRange[] = ['shift', 'today', 'week', 'month'];
+
+/**
+ * 조회 범위 → 구간 (생산일 시작 기준)
+ *   shift: 현재 교대 시작 ~ 현재 (교대 외 시간이면 생산일 시작부터)
+ *   today: 오늘 생산일 / week: 최근 7 생산일 / month: 최근 30 생산일
+ */
+export function resolveTimeRange(range: TimeRange, pattern: PatternWithShifts | null, now = new Date()): Interval {
+  const dayStart = productionDayStart(pattern, now);
+  switch (range) {
+    case 'shift':
+      return { start: currentShift(pattern, now)?.start ?? dayStart, end: now };
+    case 'week':
+      return { start: new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() - 6, dayStart.getHours(), dayStart.getMinutes()), end: now };
+    case 'month':
+      return { start: new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() - 29, dayStart.getHours(), dayStart.getMinutes()), end: now };
+    case 'today':
+    default:
+      return { start: dayStart, end: now };
+  }
+}
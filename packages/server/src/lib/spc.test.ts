@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// 순수 함수만 검사 — DB / WS 연결 모듈은 로드하지 않음
+vi.mock('./prisma', () => ({ prisma: {} }));
+vi.mock('./websocket', () => ({ wsService: {} }));
+
+import { capability, westernElectric } from './spc';
+
+// σ = 1 — 값이 곧 중심선에서의 σ 배수
+const LIMITS = { center: 0, ucl: 3, lcl: -3 };
+
+describe('westernElectric', () => {
+  it('규칙 1: 1점이 3σ 밖', () => {
+    expect(westernElectric([0.5, 3.2, -3.1, 0, 2.9], LIMITS)).toEqual([[], [1], [1], [], []]);
+  });
+
+  it('규칙 2: 연속 3점 중 2점이 같은 쪽 2σ 밖', () => {
+    expect(westernElectric([0, 2.5, 0.2, 2.5], LIMITS)[3]).toEqual([2]);
+    expect(westernElectric([2.5, 0, -2.5], LIMITS)[2]).toEqual([]);        // 반대쪽
+    expect(westernElectric([2.5, 0, 0, 2.5], LIMITS)[3]).toEqual([]);      // 3점 구간 밖
+    expect(westernElectric([0, 2.5, 1.5], LIMITS)[2]).toEqual([]);         // 판정 타점이 2σ 이내
+  });
+
+  it('규칙 3: 연속 5점 중 4점이 같은 쪽 1σ 밖', () => {
+    expect(westernElectric([1.5, 1.5, 0.5, 1.5, 1.5], LIMITS)[4]).toEqual([3]);
+    expect(westernElectric([-1.5, -1.5, -1.5, 0.5, -1.5], LIMITS)[4]).toEqual([3]);
+    expect(westernElectric([1.5, 0.5, 1.5, 0.5, 1.5], LIMITS)[4]).toEqual([]);
+  });
+
+  it('규칙 4: 연속 8점이 중심선 같은 쪽', () => {
+    expect(westernElectric(Array(8).fill(0.5), LIMITS)[7]).toEqual([4]);
+    expect(westernElectric(Array(7).fill(0.5), LIMITS)[6]).toEqual([]);
+    expect(westernElectric([0.5, 0.5, 0.5, -0.5, 0.5, 0.5, 0.5, 0.5], LIMITS)[7]).toEqual([]);
+    expect(westernElectric([...Array(7).fill(0.5), 0], LIMITS)[7]).toEqual([]);   // 중심선 위 타점
+  });
+
+  it('여러 규칙 동시 위반', () => {
+    expect(westernElectric([1.5, 1.5, 1.5, 1.5, 1.5, 2.5, 1.5, 3.5], LIMITS)[7]).toEqual([1, 2, 3, 4]);
+  });
+
+  it('관리 한계 폭이 0 이면 판정하지 않음', () => {
+    expect(westernElectric([1, 5], { center: 1, ucl: 1, lcl: 1 })).toEqual([[], []]);
+  });
+});
+
+describe('capability', () => {
+  const feature = { nominal: 10, lowerTol: -0.03, upperTol: 0.03 };
+
+  it('중심이 맞으면 Cp = Cpk, Pp = Ppk', () => {
+    expect(capability(feature, 'P-1', [9.99, 10, 10.01], 0.005)).toEqual({
+      productCode: 'P-1',
+      count: 3,
+      mean: 10,
+      sigmaWithin: 0.005,
+      sigmaOverall: 0.01,
+      lsl: 9.97,
+      usl: 10.03,
+      cp: 2,
+      cpk: 2,
+      pp: 1,
+      ppk: 1,
+    });
+  });
+
+  it('치우침은 Cpk / Ppk 에만 반영', () => {
+    const result = capability(feature, null, [10.01, 10.02, 10.03], 0.01);
+    expect(result).toMatchObject({ mean: 10.02, cp: 1, cpk: 0.333, pp: 1, ppk: 0.333 });
+  });
+
+  it('군내 σ 가 없으면 Cp / Cpk 없음', () => {
+    expect(capability(feature, null, [9.99, 10, 10.01], null)).toMatchObject({ cp: null, cpk: null, pp: 1, ppk: 1 });
+  });
+
+  it('측정 2개 미만이면 지수 없음', () => {
+    expect(capability(feature, null, [10], 0.01)).toMatchObject({ count: 1, mean: null, cp: null, cpk: null, pp: null, ppk: null });
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * SPC - 관리도 (개별값 I-MR / X̄-R) · Western Electric 규칙 · 공정능력 (Cp / Cpk)
+ *
+ *   개별값: CL = x̄, σ = MR̄ / 1.128, 관리 한계 CL ± 3σ / MR 관리도 0 ~ 3.267·MR̄
+ *   X̄-R  : 측정 시각순 연속 n 개 = 부분군 (경계는 누적 측정 수 기준, 차지 않은 마지막 부분군은 제외)
+ *           CL = X̿, 관리 한계 X̿ ± A2·R̄ / R 관리도 D3·R̄ ~ D4·R̄, 군내 σ = R̄ / d2(n)
+ *   Cp  = (USL - LSL) / 6σ군내,  Cpk = min(USL - μ, μ - LSL) / 3σ군내  (Pp / Ppk = 전체 표준편차)
+ *
+ * 이상 판정 (Western Electric, 타점 기준 σ = (UCL - CL) / 3):
+ *   1. 1점이 3σ 밖
+ *   2. 연속 3점 중 2점이 같은 쪽 2σ 밖
+ *   3. 연속 5점 중 4점이 같은 쪽 1σ 밖
+ *   4. 연속 8점이 중심선 같은 쪽
+ *
+ * 측정 기록 시 checkSpcViolations — 새 타점 이전 데이터로 관리 한계를 잡고 새 타점을 판정
+ *   위반 → SpcViolation 기록 + WS 'spc_violation' (전체 클라이언트)
+ */
+
+import { Measurement, MeasurementFeature, Prisma, SpcChart } from '@prisma/client';
+import { prisma } from './prisma';
+import { wsService } from './websocket';
+
+const WINDOW_POINTS = 125;          // 판정 / 관리도 기본 조회 측정 수
+const MIN_HISTORY_POINTS = 20;      // 개별값 관리 한계 계산 최소 측정 수
+const MIN_HISTORY_SUBGROUPS = 10;   // X̄-R 관리 한계 계산 최소 부분군 수
+const MR_D2 = 1.128;
+const MR_D4 = 3.267;
+
+// 부분군 크기별 관리도 계수
+const XBAR_R_CONSTANTS: Record<number, { A2: number; D3: number; D4: number; d2: number }> = {
+  2:  { A2: 1.880, D3: 0,     D4: 3.267, d2: 1.128 },
+  3:  { A2: 1.023, D3: 0,     D4: 2.574, d2: 1.693 },
+  4:  { A2: 0.729, D3: 0,     D4: 2.282, d2: 2.059 },
+  5:  { A2: 0.577, D3: 0,     D4: 2.114, d2: 2.326 },
+  6:  { A2: 0.483, D3: 0,     D4: 2.004, d2: 2.534 },
+  7:  { A2: 0.419, D3: 0.076, D4: 1.924, d2: 2.704 },
+  8:  { A2: 0.373, D3: 0.136, D4: 1.864, d2: 2.847 },
+  9:  { A2: 0.337, D3: 0.184, D4: 1.816, d2: 2.970 },
+  10: { A2: 0.308, D3: 0.223, D4: 1.777, d2: 3.078 },
+};
+
+export const MIN_SUBGROUP_SIZE = 2;
+export const MAX_SUBGROUP_SIZE = 10;
+
+export const RULE_LABELS: Record<number, string> = {
+  1: '1점이 관리 한계(3σ) 밖',
+  2: '연속 3점 중 2점이 2σ 밖 (같은 쪽)',
+  3: '연속 5점 중 4점이 1σ 밖 (같은 쪽)',
+  4: '연속 8점이 중심선 한쪽',
+};
+
+export interface SpcSample {
+  id: string;
+  value: number;
+  measuredAt: Date;
+}
+
+export interface ControlLimits {
+  center: number;
+  ucl: number;
+  lcl: number;
+}
+
+export interface SpcPoint {
+  measurementId: string;          // 개별값 = 해당 측정, X̄ = 부분군 마지막 측정
+  measuredAt: Date;
+  value: number;                  // 개별값 / 부분군 평균
+  range: number | null;           // 이동 범위 / 부분군 범위 (첫 개별값은 null)
+  rules: number[];                // 위반 Western Electric 규칙
+}
+
+export interface SpcChartResult {
+  chart: SpcChart;
+  subgroupSize: number;
+  points: SpcPoint[];
+  limits: ControlLimits | null;        // 데이터 부족 시 null
+  rangeLimits: ControlLimits | null;
+  sigmaWithin: number | null;          // 개별 측정값 기준 군내 σ
+}
+
+export interface Capability {
+  productCode: string | null;
+  count: number;
+  mean: number | null;
+  sigmaWithin: number | null;
+  sigmaOverall: number | null;
+  lsl: number;
+  usl: number;
+  cp: number | null;
+  cpk: number | null;
+  pp: number | null;
+  ppk: number | null;
+}
+
+type SpcFeature = Pick<MeasurementFeature, 'id' | 'machineDbId' | 'name' | 'nominal' | 'lowerTol' | 'upperTol' | 'subgroupSize'>;
+
+function round(v: number, digits = 4): number {
+  const f = 10 ** digits;
+  return Math.round(v * f) / f;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function clampSubgroupSize(n: number): number {
+  return Math.min(MAX_SUBGROUP_SIZE, Math.max(MIN_SUBGROUP_SIZE, Math.round(n)));
+}
+
+/**
+ * 연속 n 개씩 부분군 — 아직 차지 않은 마지막 부분군(trailing 개)을 빼고 뒤에서부터 묶음
+ * (조회 구간이 바뀌어도 부분군 경계가 측정 누적 수 기준으로 고정)
+ */
+function toSubgroups(samples: SpcSample[], n: number, trailing: number): SpcSample[][] {
+  const complete = samples.slice(0, samples.length - trailing);
+  const groups: SpcSample[][] = [];
+  for (let i = complete.length % n; i + n <= complete.length; i += n) groups.push(complete.slice(i, i + n));
+  return groups;
+}
+
+/** 타점 (개별값 / 부분군 평균) + 범위 */
+function toPoints(chart: SpcChart, samples: SpcSample[], n: number, trailing = 0): SpcPoint[] {
+  if (chart === SpcChart.INDIVIDUALS) {
+    return samples.map((s, i) => ({
+      measurementId: s.id,
+      measuredAt: s.measuredAt,
+      value: s.value,
+      range: i > 0 ? Math.abs(s.value - samples[i - 1].value) : null,
+      rules: [],
+    }));
+  }
+  return toSubgroups(samples, n, trailing).map((group) => {
+    const values = group.map((s) => s.value);
+    const last = group[group.length - 1];
+    return {
+      measurementId: last.id,
+      measuredAt: last.measuredAt,
+      value: mean(values),
+      range: Math.max(...values) - Math.min(...values),
+      rules: [],
+    };
+  });
+}
+
+/** 타점 → 관리 한계 (타점 2개 미만이면 null) */
+function toLimits(chart: SpcChart, points: SpcPoint[], n: number): Pick<SpcChartResult, 'limits' | 'rangeLimits' | 'sigmaWithin'> {
+  const ranges = points.map((p) => p.range).filter((r): r is number => r !== null);
+  if (points.length < 2 || ranges.length === 0) return { limits: null, rangeLimits: null, sigmaWithin: null };
+
+  const center = mean(points.map((p) => p.value));
+  const rBar = mean(ranges);
+  if (chart === SpcChart.INDIVIDUALS) {
+    const sigma = rBar / MR_D2;
+    return {
+      limits: { center, ucl: center + 3 * sigma, lcl: center - 3 * sigma },
+      rangeLimits: { center: rBar, ucl: MR_D4 * rBar, lcl: 0 },
+      sigmaWithin: sigma,
+    };
+  }
+  const k = XBAR_R_CONSTANTS[n];
+  return {
+    limits: { center, ucl: center + k.A2 * rBar, lcl: center - k.A2 * rBar },
+    rangeLimits: { center: rBar, ucl: k.D4 * rBar, lcl: k.D3 * rBar },
+    sigmaWithin: rBar / k.d2,
+  };
+}
+
+/** 타점별 Western Electric 위반 규칙 */
+export function westernElectric(values: number[], limits: ControlLimits): number[][] {
+  const sigma = (limits.ucl - limits.center) / 3;
+  if (!(sigma > 0)) return values.map(() => []);
+  const z = values.map((v) => (v - limits.center) / sigma);
+
+  return z.map((zi, i) => {
+    const rules: number[] = [];
+    const side = Math.sign(zi);
+    if (side === 0) return rules;
+    const beyond = (from: number, k: number) =>
+      z.slice(Math.max(0, from), i + 1).filter((zj) => zj * side > k).length;
+
+    if (Math.abs(zi) > 3) rules.push(1);
+    if (i >= 2 && Math.abs(zi) > 2 && beyond(i - 2, 2) >= 2) rules.push(2);
+    if (i >= 4 && Math.abs(zi) > 1 && beyond(i - 4, 1) >= 4) rules.push(3);
+    if (i >= 7 && beyond(i - 7, 0) === 8) rules.push(4);
+    return rules;
+  });
+}
+
+/**
+ * 관리도 계산 — 전체 타점으로 관리 한계, 타점별 규칙 판정
+ * totalCount: 누적 측정 수 (X̄ 부분군 경계 — 생략 시 마지막 측정이 부분군 끝)
+ */
+export function buildChart(chart: SpcChart, samples: SpcSample[], subgroupSize: number, totalCount?: number): SpcChartResult {
+  const n = clampSubgroupSize(subgroupSize);
+  const trailing = totalCount === undefined ? 0 : Math.min(totalCount % n, samples.length);
+  const points = toPoints(chart, samples, n, trailing);
+  const result = { chart, subgroupSize: n, points, ...toLimits(chart, points, n) };
+  if (result.limits) {
+    westernElectric(points.map((p) => p.value), result.limits).forEach((rules, i) => { points[i].rules = rules; });
+  }
+  return result;
+}
+
+/** 공정능력 (규격 = 기준값 + 공차) */
+export function capability(
+  feature: Pick<MeasurementFeature, 'nominal' | 'lowerTol' | 'upperTol'>,
+  productCode: string | null,
+  values: number[],
+  sigmaWithin: number | null,
+): Capability {
+  const lsl = feature.nominal + feature.lowerTol;
+  const usl = feature.nominal + feature.upperTol;
+  const base: Capability = {
+    productCode, count: values.length, mean: null, sigmaWithin, sigmaOverall: null, lsl, usl, cp: null, cpk: null, pp: null, ppk: null,
+  };
+  if (values.length < 2) return base;
+
+  const mu = mean(values);
+  const sigmaOverall = Math.sqrt(values.reduce((acc, v) => acc + (v - mu) ** 2, 0) / (values.length - 1));
+  const index = (sigma: number | null) => (sigma && sigma > 0
+    ? { p: round((usl - lsl) / (6 * sigma), 3), pk: round(Math.min(usl - mu, mu - lsl) / (3 * sigma), 3) }
+    : { p: null, pk: null });
+  const within = index(sigmaWithin);
+  const overall = index(sigmaOverall);
+  return {
+    ...base,
+    mean: round(mu, 5),
+    sigmaWithin: sigmaWithin === null ? null : round(sigmaWithin, 6),
+    sigmaOverall: round(sigmaOverall, 6),
+    cp: within.p,
+    cpk: within.pk,
+    pp: overall.p,
+    ppk: overall.pk,
+  };
+}
+
+// ── 조회 ─────────────────────────────────────────────────────────
+
+/** productCode: undefined = 전체, null = 제품 코드 없음 */
+function productWhere(productCode: string | null | undefined): Prisma.MeasurementWhereInput {
+  return productCode === undefined ? {} : { productCode };
+}
+
+async function loadSamples(featureId: string, productCode: string | null | undefined, limit: number, until?: Date): Promise<SpcSample[]> {
+  const rows = await prisma.measurement.findMany({
+    where: { featureId, ...productWhere(productCode), measuredAt: until ? { lte: until } : undefined },
+    select: { id: true, value: true, measuredAt: true },
+    orderBy: [{ measuredAt: 'desc' }, { createdAt: 'desc' }],
+    take: limit,
+  });
+  return rows.reverse();
+}
+
+/** 항목 관리도 + 공정능력 */
+export async function analyzeFeature(
+  feature: SpcFeature,
+  options: { chart: SpcChart; productCode?: string | null; limit?: number },
+) {
+  const samples = await loadSamples(feature.id, options.productCode, options.limit ?? WINDOW_POINTS);
+  const total = await prisma.measurement.count({ where: { featureId: feature.id, ...productWhere(options.productCode) } });
+  const result = buildChart(options.chart, samples, feature.subgroupSize, total);
+  return {
+    ...result,
+    capability: capability(feature, options.productCode ?? null, samples.map((s) => s.value), result.sigmaWithin),
+  };
+}
+
+/** 제품 코드별 공정능력 (제품별 최근 측정 기준) */
+export async function capabilityByProduct(feature: SpcFeature, chart: SpcChart, limit = WINDOW_POINTS): Promise<Capability[]> {
+  const groups = await prisma.measurement.groupBy({
+    by: ['productCode'],
+    where: { featureId: feature.id },
+    _max: { measuredAt: true },
+  });
+  groups.sort((a, b) => (b._max.measuredAt?.getTime() ?? 0) - (a._max.measuredAt?.getTime() ?? 0));
+
+  const result: Capability[] = [];
+  for (const g of groups) {
+    const samples = await loadSamples(feature.id, g.productCode, limit);
+    const total = await prisma.measurement.count({ where: { featureId: feature.id, productCode: g.productCode } });
+    const { sigmaWithin } = buildChart(chart, samples, feature.subgroupSize, total);
+    result.push(capability(feature, g.productCode, samples.map((s) => s.value), sigmaWithin));
+  }
+  return result;
+}
+
+/** 관리도 이상 목록 (최신순) */
+export async function listViolations(filter: { machineDbId?: string; featureId?: string; limit: number }) {
+  const rows = await prisma.spcViolation.findMany({
+    where: { machineDbId: filter.machineDbId, featureId: filter.featureId },
+    include: {
+      feature: { select: { name: true } },
+      machine: { select: { machineId: true, name: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: filter.limit,
+  });
+  return rows.map(({ feature, machine, ...v }) => ({
+    ...v,
+    featureName: feature.name,
+    machineId: machine.machineId,
+    machineName: machine.name,
+  }));
+}
+
+// ── 측정 시 판정 ─────────────────────────────────────────────────
+
+/**
+ * 새 측정의 관리도 판정 — 개별값은 매 측정, X̄ 는 부분군이 찰 때
+ * 관리 한계는 새 타점 이전 데이터로 계산 (데이터 부족 시 판정 생략)
+ */
+export async function checkSpcViolations(
+  feature: SpcFeature,
+  machine: { id: string; machineId: string },
+  measurement: Pick<Measurement, 'id' | 'measuredAt' | 'productCode'>,
+): Promise<void> {
+  const n = clampSubgroupSize(feature.subgroupSize);
+  const samples = await loadSamples(feature.id, measurement.productCode, WINDOW_POINTS, measurement.measuredAt);
+  if (samples[samples.length - 1]?.id !== measurement.id) return;   // 과거 시각 측정 (소급 입력)은 판정 안 함
+
+  const detected: { chart: SpcChart; point: SpcPoint; limits: ControlLimits; rules: number[] }[] = [];
+
+  const individuals = toPoints(SpcChart.INDIVIDUALS, samples, n);
+  if (individuals.length > MIN_HISTORY_POINTS) {
+    const { limits } = toLimits(SpcChart.INDIVIDUALS, individuals.slice(0, -1), n);
+    if (limits) {
+      const rules = westernElectric(individuals.map((p) => p.value), limits).pop() ?? [];
+      if (rules.length > 0) detected.push({ chart: SpcChart.INDIVIDUALS, point: individuals[individuals.length - 1], limits, rules });
+    }
+  }
+
+  const total = await prisma.measurement.count({ where: { featureId: feature.id, productCode: measurement.productCode } });
+  if (total % n === 0) {
+    const means = toPoints(SpcChart.XBAR, samples, n);
+    if (means.length > MIN_HISTORY_SUBGROUPS && means[means.length - 1].measurementId === measurement.id) {
+      const { limits } = toLimits(SpcChart.XBAR, means.slice(0, -1), n);
+      if (limits) {
+        const rules = westernElectric(means.map((p) => p.value), limits).pop() ?? [];
+        if (rules.length > 0) detected.push({ chart: SpcChart.XBAR, point: means[means.length - 1], limits, rules });
+      }
+    }
+  }
+
+  for (const { chart, point, limits, rules } of detected) {
+    const chartLabel = chart === SpcChart.XBAR ? `X̄(n=${n})` : '개별값';
+    const message = `${feature.name} ${chartLabel} ${round(point.value, 4)} — ${rules.map((r) => RULE_LABELS[r]).join(', ')}`;
+    const violations = await prisma.$transaction(rules.map((rule) => prisma.spcViolation.create({
+      data: {
+        featureId: feature.id,
+        machineDbId: machine.id,
+        measurementId: measurement.id,
+        productCode: measurement.productCode,
+        chart,
+        rule,
+        value: point.value,
+        centerLine: limits.center,
+        ucl: limits.ucl,
+        lcl: limits.lcl,
+        message: `${feature.name} ${chartLabel}: ${RULE_LABELS[rule]}`,
+      },
+    })));
+
+    wsService.sendSpcViolation({
+      machineId: machine.machineId,
+      featureId: feature.id,
+      featureName: feature.name,
+      productCode: measurement.productCode,
+      chart,
+      rules,
+      value: point.value,
+      violationIds: violations.map((v) => v.id),
+      message,
+    });
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * TelemetryHistory - 텔레메트리 샘플 영속화 (TimescaleDB hypertable)
+ *
+ * 흐름:
+ *   AGENT_TELEMETRY 수신 (1초 주기)
+ *     → telemetryHistory.record()          ← 메모리 버퍼에 적재 (샘플 시각 = Agent 메시지 timestamp)
+ *     → FLUSH_INTERVAL_MS 마다 createMany   ← telemetry_samples 일괄 INSERT
+ *       (실패 시 배치를 버퍼 앞으로 되돌려 다음 주기에 재시도 — MAX_BUFFER_SIZE 초과분은 오래된 것부터 폐기)
+ *
+ * 조회는 time_bucket() 집계로 버킷별 min/avg/max 반환. (1회 조회 최대 MAX_BUCKETS 개)
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import type { TelemetryMessage } from './mqtt';
+
+const FLUSH_INTERVAL_MS = 5_000;
+const MAX_BUFFER_SIZE   = 5_000;   // DB 장애 시 메모리 보호
+
+// bucket 파라미터: 숫자 + 단위 (s/m/h/d) — 예: 30s, 1m, 15m, 1h, 1d
+const BUCKET_PATTERN = /^(\d{1,4})(s|m|h|d)$/;
+const BUCKET_UNITS: Record<string, string> = { s: 'seconds', m: 'minutes', h: 'hours', d: 'days' };
+const BUCKET_UNIT_MS: Record<string, number> = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+export const MAX_BUCKETS = 5_000;
+
+export interface TelemetryBucket {
+  bucket: Date;
+  samples: number;
+  runState:     { min: number; max: number };
+  feedrate:     { min: number; avg: number; max: number };
+  spindleSpeed: { min: number; avg: number; max: number };
+  spindleLoad:  { min: number | null; avg: number | null; max: number | null };
+  partsCount:   { min: number; max: number };
+}
+
+interface BucketRow {
+  bucket: Date;
+  samples: bigint;
+  run_state_min: number;
+  run_state_max: number;
+  feedrate_min: number;
+  feedrate_avg: number;
+  feedrate_max: number;
+  spindle_speed_min: number;
+  spindle_speed_avg: number;
+  spindle_speed_max: number;
+  spindle_load_min: number | null;
+  spindle_load_avg: number | null;
+  spindle_load_max: number | null;
+  parts_count_min: number;
+  parts_count_max: number;
+}
+
+/**
+ * bucket 문자열 → PostgreSQL interval 문자열 (유효하지 않으면 null)
+ */
+export function parseBucket(bucket: string): string | null {
+  const m = BUCKET_PATTERN.exec(bucket);
+  if (!m || Number(m[1]) === 0) return null;
+  return `${Number(m[1])} ${BUCKET_UNITS[m[2]]}`;
+}
+
+/**
+ * 조회 기간의 버킷 개수 (bucket 형식이 유효하지 않으면 null)
+ */
+export function countBuckets(bucket: string, from: Date, to: Date): number | null {
+  const m = BUCKET_PATTERN.exec(bucket);
+  if (!m || Number(m[1]) === 0) return null;
+  return Math.ceil((to.getTime() - from.getTime()) / (Number(m[1]) * BUCKET_UNIT_MS[m[2]]));
+}
+
+class TelemetryHistoryService {
+  private buffer: Prisma.TelemetrySampleCreateManyInput[] = [];
+  private readonly machineDbIds = new Map<string, string>(); // machineId → DB id
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private flushing = false;
+
+  /**
+   * 테이블을 hypertable로 전환 (db push 환경 대비, 이미 전환됐으면 no-op)
+   */
+  async initialize(): Promise<void> {
+    try {
+      await prisma.$executeRawUnsafe(
+        `SELECT create_hypertable('telemetry_samples', 'time', chunk_time_interval => INTERVAL '1 day', if_not_exists => TRUE, migrate_data => TRUE)`
+      );
+    } catch (err) {
+      console.warn('[Telemetry] Hypertable setup skipped (TimescaleDB unavailable?):', (err as Error).message);
+    }
+
+    if (!this.flushTimer) {
+      this.flushTimer = setInterval(() => { void this.flush(); }, FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * 텔레메트리 샘플 버퍼링
+   * 샘플 시각은 Agent 메시지 timestamp 기준 (형식 오류 시에만 서버 수신 시각)
+   */
+  async record(machineId: string, data: TelemetryMessage['data'], timestamp?: string): Promise<void> {
+    const machineDbId = await this.resolveMachineDbId(machineId);
+    if (!machineDbId) return;
+
+    const parsed = timestamp ? new Date(timestamp) : null;
+    const time = parsed && !isNaN(parsed.getTime()) ? parsed : new Date();
+
+    if (this.buffer.length >= MAX_BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+
+    this.buffer.push({
+      machineDbId,
+      time,
+      runState:     data.runState ?? 0,
+      mode:         data.mode ?? 'UNKNOWN',
+      programNo:    data.programNo || null,
+      feedrate:     data.feedrate ?? 0,
+      spindleSpeed: data.spindleSpeed ?? 0,
+      spindleLoad:  data.spindleLoad ?? null,
+      partsCount:   data.partsCount ?? 0,
+    });
+  }
+
+  /**
+   * 버퍼 일괄 INSERT
+   */
+  async flush(): Promise<void> {
+    if (this.flushing || this.buffer.length === 0) return;
+    this.flushing = true;
+
+    const batch = this.buffer;
+    this.buffer = [];
+    try {
+      await prisma.telemetrySample.createMany({ data: batch, skipDuplicates: true });
+    } catch (err) {
+      console.error('[Telemetry] Failed to persist samples:', err);
+      this.machineDbIds.clear(); // 삭제된 장비 캐시 무효화
+      // 다음 주기에 재시도 — 그 사이 쌓인 샘플 앞에 두고 상한 초과분은 오래된 것부터 폐기
+      const merged = batch.concat(this.buffer);
+      const dropped = Math.max(merged.length - MAX_BUFFER_SIZE, 0);
+      if (dropped > 0) console.warn(`[Telemetry] Buffer full, dropped ${dropped} oldest samples`);
+      this.buffer = merged.slice(dropped);
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * 버킷별 min/avg/max 집계 조회
+   */
+  async queryBuckets(machineDbId: string, from: Date, to: Date, interval: string): Promise<TelemetryBucket[]> {
+    const rows = await prisma.$queryRaw<BucketRow[]>(Prisma.sql`
+      SELECT
+        time_bucket(${interval}::interval, "time") AS bucket,
+        COUNT(*)              AS samples,
+        MIN("run_state")      AS run_state_min,
+        MAX("run_state")      AS run_state_max,
+        MIN("feedrate")       AS feedrate_min,
+        AVG("feedrate")       AS feedrate_avg,
+        MAX("feedrate")       AS feedrate_max,
+        MIN("spindle_speed")  AS spindle_speed_min,
+        AVG("spindle_speed")  AS spindle_speed_avg,
+        MAX("spindle_speed")  AS spindle_speed_max,
+        MIN("spindle_load")   AS spindle_load_min,
+        AVG("spindle_load")   AS spindle_load_avg,
+        MAX("spindle_load")   AS spindle_load_max,
+        MIN("parts_count")    AS parts_count_min,
+        MAX("parts_count")    AS parts_count_max
+      FROM "telemetry_samples"
+      WHERE "machine_id" = ${machineDbId}
+        AND "time" >= ${from}
+        AND "time" <  ${to}
+      GROUP BY bucket
+      ORDER BY bucket ASC
+    `);
+
+    return rows.map((r) => ({
+      bucket:       r.bucket,
+      samples:      Number(r.samples),
+      runState:     { min: r.run_state_min, max: r.run_state_max },
+      feedrate:     { min: r.feedrate_min, avg: r.feedrate_avg, max: r.feedrate_max },
+      spindleSpeed: { min: r.spindle_speed_min, avg: r.spindle_speed_avg, max: r.spindle_speed_max },
+      spindleLoad:  { min: r.spindle_load_min, avg: r.spindle_load_avg, max: r.spindle_load_max },
+      partsCount:   { min: r.parts_count_min, max: r.parts_count_max },
+    }));
+  }
+
+  /**
+   * 종료 시 남은 버퍼 저장
+   */
+  async shutdown(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+
+  private async resolveMachineDbId(machineId: string): Promise<string | null> {
+    const cached = this.machineDbIds.get(machineId);
+    if (cached) return cached;
+
+    try {
+      const machine = await prisma.machine.findUnique({ where: { machineId }, select: { id: true } });
+      if (!machine) return null;
+      this.machineDbIds.set(machineId, machine.id);
+      return machine.id;
+    } catch {
+      // DB 미연결 환경에서도 계속 진행
+      return null;
+    }
+  }
+}
+
+export const telemetryHistory = new TelemetryHistoryService();
+export default telemetryHistory;
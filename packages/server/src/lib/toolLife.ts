@@ -0,0 +1,262 @@
+/**
+ * ToolLife - 공구 수명 샘플 기록 / 소모율 · 교체 시점 예측
+ *
+ * 대상: 템플릿 ToolLifeConfig 에서 preset · count 컬럼 변수가 모두 지정된 공구
+ *   (컬럼 키에 'preset' / 'count' 포함 — ToolLifeView 사용률 표시와 같은 기준)
+ *   (count 는 사용할수록 증가, preset 도달 시 교체 — 감소는 교체 후 리셋으로 간주)
+ *
+ * 예측:
+ *   부품당 소모량 = 최근 USAGE_WINDOW_DAYS 카운트 증가량 ÷ 같은 구간 M20 생산 수 (production_logs)
+ *   시간당 소모량 = 부품당 소모량 × 최근 THROUGHPUT_WINDOW_HOURS M20 생산 속도
+ *   교체 예상     = 마지막 샘플 시각 + (preset − count) ÷ 시간당 소모량
+ *   M20 기록이 없는 장비는 샘플 시간 기준 소모량으로 대체
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+const USAGE_WINDOW_DAYS = 7;
+const THROUGHPUT_WINDOW_HOURS = 4;
+const MIN_USAGE_PARTS = 5;                     // 부품당 소모량 산출 최소 생산 수
+const MIN_TIME_BASIS_HOURS = 1;                // 시간 기준 대체 최소 샘플 구간
+const HEARTBEAT_MS = 60 * 60 * 1000;           // 값 변화 없어도 이 주기로 기록 (최신 판독 시각)
+const STALE_MS = 2 * HEARTBEAT_MS;             // 마지막 샘플이 이보다 오래되면 오프라인 추정
+const RETENTION_DAYS = 30;
+
+export type ToolLifeStatus =
+  | 'EXPIRED'    // 수명 도달 (count ≥ preset)
+  | 'FORECAST'   // 교체 예상 시각 산출
+  | 'IDLE'       // 현재 소모 없음 (생산 정지 / 현재 제품에서 미사용)
+  | 'NO_DATA';   // 소모 이력 부족
+
+export interface ToolLifePath {
+  pathNo: number;
+  presetKey: string;
+  countKey: string;
+  toolNos: string[];
+}
+
+export interface ToolLifeReading {
+  toolNo: string;
+  values: Record<string, number>;
+}
+
+export interface ToolForecast {
+  machineId: string;
+  machineName: string;
+  location: string | null;
+  path: number;
+  toolNo: string;
+  count: number;
+  preset: number;
+  remaining: number;
+  sampledAt: Date;
+  stale: boolean;
+  basis: 'M20' | 'TIME' | null;
+  usagePerPart: number | null;        // M20 1회당 카운트 증가
+  partsPerHour: number | null;        // 최근 M20 생산 속도
+  consumptionPerHour: number | null;
+  partsRemaining: number | null;
+  hoursRemaining: number | null;
+  dueAt: Date | null;
+  status: ToolLifeStatus;
+}
+
+interface UsageRow {
+  machine_id: string;
+  path: number;
+  tool_no: string;
+  consumed: number;
+  first_at: Date;
+  last_at: Date;
+  parts: bigint;
+}
+
+interface ToolLifeConfigJson {
+  paths?: {
+    pathNo: number;
+    columns?: { key: string }[];
+    entries?: { toolNo: string; isSeparator?: boolean; varNos?: Record<string, number> }[];
+  }[];
+}
+
+function toolKey(path: number, toolNo: string): string {
+  return `${path}:${toolNo}`;
+}
+
+/**
+ * 템플릿 ToolLifeConfig → 예측 대상 공구 (preset / count 변수가 모두 있는 항목)
+ */
+export function toolLifePaths(config: unknown): ToolLifePath[] {
+  const result: ToolLifePath[] = [];
+  for (const p of (config as ToolLifeConfigJson | null)?.paths ?? []) {
+    const presetKey = p.columns?.find((c) => c.key.toLowerCase().includes('preset'))?.key;
+    const countKey = p.columns?.find((c) => c.key.toLowerCase().includes('count'))?.key;
+    if (!presetKey || !countKey) continue;
+    const toolNos = (p.entries ?? [])
+      .filter((e) => !e.isSeparator && e.toolNo && e.varNos?.[presetKey] !== undefined && e.varNos?.[countKey] !== undefined)
+      .map((e) => e.toolNo);
+    if (toolNos.length > 0) result.push({ pathNo: p.pathNo, presetKey, countKey, toolNos });
+  }
+  return result;
+}
+
+/**
+ * READ_TOOL_LIFE 결과 기록 — 직전 샘플과 값이 같으면 HEARTBEAT_MS 경과 시에만 기록
+ */
+export async function recordToolLifeSamples(
+  machineDbId: string,
+  path: ToolLifePath,
+  readings: ToolLifeReading[],
+  now = new Date(),
+): Promise<number> {
+  const managed = new Set(path.toolNos);
+  const last = await prisma.toolLifeSample.findMany({
+    where: { machineDbId, path: path.pathNo },
+    orderBy: { sampledAt: 'desc' },
+    distinct: ['toolNo'],
+  });
+  const lastByTool = new Map(last.map((s) => [s.toolNo, s]));
+
+  const rows: Prisma.ToolLifeSampleCreateManyInput[] = [];
+  for (const r of readings) {
+    const count = Number(r.values[path.countKey]);
+    const preset = Number(r.values[path.presetKey]);
+    if (!managed.has(r.toolNo) || !Number.isFinite(count) || !Number.isFinite(preset)) continue;
+    const prev = lastByTool.get(r.toolNo);
+    const changed = !prev || prev.count !== count || prev.preset !== preset;
+    if (changed || now.getTime() - prev.sampledAt.getTime() >= HEARTBEAT_MS) {
+      rows.push({ machineDbId, path: path.pathNo, toolNo: r.toolNo, count, preset, sampledAt: now });
+    }
+  }
+  if (rows.length > 0) await prisma.toolLifeSample.createMany({ data: rows });
+  return rows.length;
+}
+
+export async function pruneToolLifeSamples(now = new Date()): Promise<number> {
+  const { count } = await prisma.toolLifeSample.deleteMany({
+    where: { sampledAt: { lt: new Date(now.getTime() - RETENTION_DAYS * 24 * 3600_000) } },
+  });
+  return count;
+}
+
+/**
+ * 공구별 소모 구간 집계 — 카운트 증가 합 (리셋 시 리셋 후 값) + 같은 구간 M20 생산 수
+ */
+async function usageByTool(since: Date, machineDbId?: string): Promise<Map<string, UsageRow>> {
+  const rows = await prisma.$queryRaw<UsageRow[]>(Prisma.sql`
+    WITH s AS (
+      SELECT "machine_id", "path", "tool_no", "count", "sampled_at",
+             LAG("count") OVER (PARTITION BY "machine_id", "path", "tool_no" ORDER BY "sampled_at") AS prev
+      FROM "tool_life_samples"
+      WHERE "sampled_at" >= ${since}
+        ${machineDbId ? Prisma.sql`AND "machine_id" = ${machineDbId}` : Prisma.empty}
+    ), u AS (
+      SELECT "machine_id", "path", "tool_no",
+             SUM(CASE WHEN prev IS NULL THEN 0 WHEN "count" >= prev THEN "count" - prev ELSE "count" END) AS consumed,
+             MIN("sampled_at") AS first_at,
+             MAX("sampled_at") AS last_at
+      FROM s
+      GROUP BY "machine_id", "path", "tool_no"
+    )
+    SELECT u.*,
+           (SELECT COALESCE(SUM(p."parts_count"), 0) FROM "production_logs" p
+             WHERE p."machine_id" = u."machine_id" AND p."end_time" > u.first_at AND p."end_time" <= u.last_at) AS parts
+    FROM u
+  `);
+  return new Map(rows.map((r) => [`${r.machine_id}|${toolKey(r.path, r.tool_no)}`, r]));
+}
+
+/**
+ * 공구별 수명 예측 (machineDbId 생략 = 전체 활성 장비)
+ * 현재 템플릿에서 제외된 공구는 샘플이 있어도 제외
+ */
+export async function forecastToolLife(options: { machineDbId?: string; now?: Date } = {}): Promise<ToolForecast[]> {
+  const now = options.now ?? new Date();
+  const machines = await prisma.machine.findMany({
+    where: { isActive: true, ...(options.machineDbId ? { id: options.machineDbId } : {}) },
+    select: { id: true, machineId: true, name: true, location: true, template: { select: { toolLifeConfig: true } } },
+  });
+  const managed = new Map(machines.map((m) => [
+    m.id,
+    new Set(toolLifePaths(m.template.toolLifeConfig).flatMap((p) => p.toolNos.map((t) => toolKey(p.pathNo, t)))),
+  ]));
+  const machineIds = machines.filter((m) => managed.get(m.id)!.size > 0).map((m) => m.id);
+  if (machineIds.length === 0) return [];
+
+  const [latest, usage, throughput] = await Promise.all([
+    prisma.toolLifeSample.findMany({
+      where: { machineDbId: { in: machineIds } },
+      orderBy: { sampledAt: 'desc' },
+      distinct: ['machineDbId', 'path', 'toolNo'],
+    }),
+    usageByTool(new Date(now.getTime() - USAGE_WINDOW_DAYS * 24 * 3600_000), options.machineDbId),
+    prisma.productionLog.groupBy({
+      by: ['machineId'],
+      where: { machineId: { in: machineIds }, endTime: { gt: new Date(now.getTime() - THROUGHPUT_WINDOW_HOURS * 3600_000) } },
+      _sum: { partsCount: true },
+    }),
+  ]);
+  const partsPerHourByMachine = new Map(throughput.map((t) => [t.machineId, (t._sum.partsCount ?? 0) / THROUGHPUT_WINDOW_HOURS]));
+  const machineById = new Map(machines.map((m) => [m.id, m]));
+
+  const result: ToolForecast[] = [];
+  for (const s of latest) {
+    if (!managed.get(s.machineDbId)?.has(toolKey(s.path, s.toolNo)) || s.preset <= 0) continue;
+    const machine = machineById.get(s.machineDbId)!;
+    const u = usage.get(`${s.machineDbId}|${toolKey(s.path, s.toolNo)}`);
+    const consumed = u ? Number(u.consumed) : 0;
+    const parts = u ? Number(u.parts) : 0;
+    const spanHours = u ? (u.last_at.getTime() - u.first_at.getTime()) / 3600_000 : 0;
+    const remaining = Math.max(s.preset - s.count, 0);
+
+    let basis: ToolForecast['basis'] = null;
+    let usagePerPart: number | null = null;
+    let partsPerHour: number | null = null;
+    let consumptionPerHour: number | null = null;
+    if (parts >= MIN_USAGE_PARTS) {
+      basis = 'M20';
+      usagePerPart = consumed / parts;
+      partsPerHour = partsPerHourByMachine.get(s.machineDbId) ?? 0;
+      consumptionPerHour = usagePerPart * partsPerHour;
+    } else if (parts === 0 && consumed > 0 && spanHours >= MIN_TIME_BASIS_HOURS) {
+      basis = 'TIME';
+      consumptionPerHour = consumed / spanHours;
+    }
+
+    const partsRemaining = usagePerPart ? Math.ceil(remaining / usagePerPart) : null;
+    const hoursRemaining = remaining === 0 ? 0 : consumptionPerHour ? remaining / consumptionPerHour : null;
+    const status: ToolLifeStatus = remaining === 0 ? 'EXPIRED'
+      : hoursRemaining !== null ? 'FORECAST'
+      : basis ? 'IDLE'
+      : 'NO_DATA';
+
+    result.push({
+      machineId: machine.machineId,
+      machineName: machine.name,
+      location: machine.location,
+      path: s.path,
+      toolNo: s.toolNo,
+      count: s.count,
+      preset: s.preset,
+      remaining,
+      sampledAt: s.sampledAt,
+      stale: now.getTime() - s.sampledAt.getTime() > STALE_MS,
+      basis,
+      usagePerPart,
+      partsPerHour,
+      consumptionPerHour,
+      partsRemaining,
+      hoursRemaining,
+      dueAt: hoursRemaining !== null ? new Date(s.sampledAt.getTime() + hoursRemaining * 3600_000) : null,
+      status,
+    });
+  }
+
+  // 교체 임박 순 (예상 시각 없는 공구는 뒤로)
+  return result.sort((a, b) =>
+    (a.dueAt?.getTime() ?? Infinity) - (b.dueAt?.getTime() ?? Infinity)
+    || a.machineId.localeCompare(b.machineId)
+    || a.path - b.path
+    || a.toolNo.localeCompare(b.toolNo));
+}
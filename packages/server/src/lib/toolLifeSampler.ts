@@ -0,0 +1,82 @@
+/**
+ * ToolLifeSampler - 공구 수명 카운트 주기 수집 (교체 예측용)
+ *
+ * TICK_MS 마다 템플릿 ToolLifeConfig 가 있는 온라인 장비에 경로별 READ_TOOL_LIFE
+ * (GET /api/machines/:id/tool-life 와 같은 명령) → tool_life_samples 기록
+ *   - 텔레메트리가 없는 장비(오프라인)는 건너뜀
+ *   - 보존 기간 지난 샘플은 PRUNE_INTERVAL_MS 마다 정리
+ */
+
+import { prisma } from './prisma';
+import { redisService, REDIS_KEYS } from './redis';
+import { sendNcCommand } from './ncCommand';
+import { pruneToolLifeSamples, recordToolLifeSamples, toolLifePaths, ToolLifeReading } from './toolLife';
+
+const TICK_MS = 5 * 60 * 1000;
+const READ_TIMEOUT_MS = 10_000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+class ToolLifeSamplerService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private lastPrunedAt = 0;
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => { void this.run(); }, TICK_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async run(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.sampleAll();
+      if (Date.now() - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+        this.lastPrunedAt = Date.now();
+        const pruned = await pruneToolLifeSamples();
+        if (pruned > 0) console.log(`[ToolLife] Pruned ${pruned} samples`);
+      }
+    } catch (err) {
+      console.error('[ToolLife] Sampling failed:', err);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async sampleAll(): Promise<void> {
+    const machines = await prisma.machine.findMany({
+      where: { isActive: true },
+      select: { id: true, machineId: true, template: { select: { toolLifeConfig: true } } },
+    });
+
+    for (const machine of machines) {
+      const paths = toolLifePaths(machine.template.toolLifeConfig);
+      if (paths.length === 0) continue;
+      if (!await redisService.get(REDIS_KEYS.MACHINE_TELEMETRY(machine.machineId))) continue;
+
+      for (const path of paths) {
+        try {
+          const res = await sendNcCommand(machine.id, machine.machineId, 'READ_TOOL_LIFE', { path: path.pathNo }, READ_TIMEOUT_MS);
+          if (res.status !== 'success') {
+            console.warn(`[ToolLife] ${machine.machineId} P${path.pathNo} READ_TOOL_LIFE failed: ${res.errorMessage ?? res.errorCode}`);
+            continue;
+          }
+          const tools = ((res.result as { tools?: ToolLifeReading[] } | undefined)?.tools) ?? [];
+          await recordToolLifeSamples(machine.id, path, tools);
+        } catch {
+          console.warn(`[ToolLife] ${machine.machineId} P${path.pathNo} READ_TOOL_LIFE timeout`);
+        }
+      }
+    }
+  }
+}
+
+export const toolLifeSampler = new ToolLifeSamplerService();
+export default toolLifeSampler;
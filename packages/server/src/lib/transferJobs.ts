@@ -0,0 +1,577 @@
+/**
+ * TransferJobs - PC ↔ CNC 프로그램 전송 작업 관리
+ *
+ * 상태 흐름 (파일 1개 = TransferJob 1행):
+ *   QUEUED → SENDING        : MQTT UPLOAD_PROGRAM / DOWNLOAD_PROGRAM 발송 + CommandLog(PENDING) 기록
+ *                             (PC→CNC 본문이 등록 시 체크섬과 다르면 발송 없이 FAILED: PROGRAM_MODIFIED)
+ *          → ACKNOWLEDGED   : Agent 성공 응답 (CommandResultMessage, correlationId 로 매칭)
+ *          → VERIFIED       : 도착 확인
+ *                               PC→CNC : readBack 이면 DOWNLOAD_PROGRAM 읽기 후 정규화 체크섬 비교 (lib/programVerify),
+ *                                        아니면 LIST_PROGRAMS 에 O번호 존재
+ *                               CNC→PC : PC 파일 저장 후 다시 읽어 체크섬 일치
+ *          → MISMATCHED     : 읽기 비교 불일치 (줄 diff 보존, 재시도 안 함)
+ *          → FAILED         : 응답 실패 / 타임아웃 / 확인 실패 (재시도 가능한 오류는 MAX_ATTEMPTS 까지 자동 재시도)
+ *
+ * PC 측 파일: TRANSFER_SHARE = share/<fileName>, SCHEDULER_REPO = repo/<machineId>/<pathKey>/<fileName>,
+ *             LIBRARY = library/<제품 코드(pathKey)>/<fileName>
+ * LIBRARY 전송은 발송 시점 저장소 리비전을 기록해 두고 VERIFIED 시 ProgramDeployment(장비별 배포 기록) 갱신.
+ *
+ * 같은 장비의 작업은 순차 처리 (FOCAS 프로그램 전송은 동시 실행 불가).
+ * 상태 변경마다 WebSocket 'transfer_job' 전송.
+ */
+
+import path from 'path';
+import { promises as fs } from 'fs';
+import { Prisma, TransferDirection, TransferJobStatus } from '@prisma/client';
+import type { LineDiff } from './backupDiff';
+import { prisma } from './prisma';
+import { mqttService } from './mqtt';
+import { commandWaiter, CommandResult } from './commandWaiter';
+import { wsService } from './websocket';
+import { compareProgram, programChecksum, readBackProgram } from './programVerify';
+import { AppError } from '../middleware/error';
+
+const DATA_DIR  = process.env.DATA_DIR ?? path.join(process.cwd(), 'data');
+const SHARE_DIR = path.join(DATA_DIR, 'share');
+const REPO_DIR  = path.join(DATA_DIR, 'repo');
+const LIBRARY_DIR = path.join(DATA_DIR, 'library');
+
+const ACK_TIMEOUT_MS    = 60_000;   // Agent 전송 응답 대기 (대용량 프로그램 포함)
+const VERIFY_TIMEOUT_MS = 15_000;
+const RETRY_DELAY_MS    = 5_000;
+const MAX_ATTEMPTS      = 3;
+
+// 재시도해도 결과가 같은 오류 — 작업자 조치 필요
+const NON_RETRYABLE_CODES = new Set([
+  'INVALID_PARAMS',
+  'FILE_NOT_FOUND',
+  'CNC_NOT_IN_EDIT_MODE',
+  'DELETE_FAILED',
+  'PROGRAM_MODIFIED',
+  'UNKNOWN_COMMAND',
+  'VERIFY_TIMEOUT',
+  'READBACK_TIMEOUT',
+]);
+
+// 상태별 진행률 (UI 진행바)
+const STATUS_PROGRESS: Record<TransferJobStatus, number> = {
+  QUEUED: 0,
+  SENDING: 30,
+  ACKNOWLEDGED: 70,
+  VERIFIED: 100,
+  MISMATCHED: 100,
+  FAILED: 100,
+};
+
+export const TRANSFER_JOB_INCLUDE = {
+  machine: { select: { machineId: true } },
+  createdBy: { select: { username: true } },
+} as const;
+
+type TransferJobRow = Prisma.TransferJobGetPayload<{ include: typeof TRANSFER_JOB_INCLUDE }>;
+
+export interface TransferJobDto {
+  id: string;
+  batchId: string;
+  machineId: string;
+  direction: TransferDirection;
+  fileName: string;
+  programNo: string | null;
+  root: string;
+  pathKey: string | null;
+  revision: number | null;
+  readBack: boolean;
+  status: TransferJobStatus;
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  sizeBytes: number | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+  checksum: string | null;
+  cncChecksum: string | null;
+  verifyDiff: LineDiff | null;
+  userName: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  acknowledgedAt: string | null;
+  verifiedAt: string | null;
+}
+
+export function toTransferJobDto(job: TransferJobRow): TransferJobDto {
+  return {
+    id: job.id,
+    batchId: job.batchId,
+    machineId: job.machine.machineId,
+    direction: job.direction,
+    fileName: job.fileName,
+    programNo: job.programNo,
+    root: job.root,
+    pathKey: job.pathKey,
+    revision: job.revision,
+    readBack: job.readBack,
+    status: job.status,
+    progress: STATUS_PROGRESS[job.status],
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    sizeBytes: job.sizeBytes,
+    errorCode: job.errorCode,
+    errorMessage: job.errorMessage,
+    checksum: job.checksum,
+    cncChecksum: job.cncChecksum,
+    verifyDiff: (job.verifyDiff as LineDiff | null) ?? null,
+    userName: job.createdBy?.username ?? null,
+    createdAt: job.createdAt.toISOString(),
+    sentAt: job.sentAt?.toISOString() ?? null,
+    acknowledgedAt: job.acknowledgedAt?.toISOString() ?? null,
+    verifiedAt: job.verifiedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * O번호 추출 — 프로그램 본문의 첫 O번호 우선, 없으면 파일명 (O0001.nc / 0001 → O0001)
+ */
+export function extractProgramNo(fileName: string, content?: string): string | null {
+  const fromContent = content?.match(/^\s*%?\s*O(\d{1,5})/im)?.[1];
+  const fromName = path.parse(fileName).name.match(/^O?(\d{1,5})$/i)?.[1];
+  const digits = fromContent ?? fromName;
+  return digits ? `O${digits.padStart(4, '0')}` : null;
+}
+
+export type TransferRoot = 'TRANSFER_SHARE' | 'SCHEDULER_REPO' | 'LIBRARY';
+
+/**
+ * PC 측 파일 경로 (machineId / pathKey / fileName 은 호출 측에서 검증)
+ */
+export function transferFilePath(root: string, machineId: string, pathKey: string | null, fileName: string): string {
+  if (root === 'SCHEDULER_REPO') return path.join(REPO_DIR, machineId, pathKey ?? 'path1', fileName);
+  if (root === 'LIBRARY') return path.join(LIBRARY_DIR, pathKey ?? '', fileName);
+  return path.join(SHARE_DIR, fileName);
+}
+
+const ROOT_LABEL: Record<TransferRoot, string> = {
+  TRANSFER_SHARE: '공용 저장소',
+  SCHEDULER_REPO: '프로그램 저장소',
+  LIBRARY: '프로그램 라이브러리',
+};
+
+class TransferFailure extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+  }
+}
+
+// 읽기 비교 불일치 — 재시도 없이 MISMATCHED
+class TransferMismatch extends Error {
+  constructor(public cncChecksum: string, public diff: LineDiff) {
+    super('CNC 프로그램이 PC 파일과 일치하지 않습니다');
+  }
+}
+
+interface EnqueueInput {
+  machine: { id: string; machineId: string };
+  direction: TransferDirection;
+  fileNames: string[];
+  conflictPolicy: string;
+  root?: TransferRoot;
+  pathKey?: string;                // SCHEDULER_REPO 경로, LIBRARY 제품 코드
+  readBack?: boolean;
+  userId: string;
+}
+
+class TransferJobService {
+  private queues = new Map<string, string[]>();        // machineId → 대기 작업 id
+  private running = new Set<string>();                  // 처리 중 machineId
+  private retryTimers = new Set<ReturnType<typeof setTimeout>>();
+
+  /**
+   * 전송 작업 생성 + 처리 시작 — 생성된 작업 목록 반환
+   * PC→CNC 는 share 파일을 먼저 확인 (없는 파일은 발송하지 않고 즉시 FAILED)
+   */
+  async enqueue(input: EnqueueInput): Promise<TransferJobDto[]> {
+    const batchId = `xfer-${Date.now()}`;
+    const jobs: TransferJobDto[] = [];
+
+    const root = input.root ?? 'TRANSFER_SHARE';
+    const pathKey = root === 'SCHEDULER_REPO' ? (input.pathKey ?? 'path1') : root === 'LIBRARY' ? (input.pathKey ?? null) : null;
+
+    for (const fileName of input.fileNames) {
+      let programNo: string | null = null;
+      let sizeBytes: number | null = null;
+      let checksum: string | null = null;
+      let revision: number | null = null;
+      let failure: TransferFailure | null = null;
+
+      if (input.direction === 'PC_TO_CNC') {
+        try {
+          const content = await fs.readFile(transferFilePath(root, input.machine.machineId, pathKey, fileName), 'utf-8');
+          sizeBytes = Buffer.byteLength(content);
+          checksum = programChecksum(content);
+          programNo = extractProgramNo(fileName, content);
+          if (!content.trim()) failure = new TransferFailure('INVALID_PARAMS', '빈 파일은 전송할 수 없습니다');
+          else if (!programNo) failure = new TransferFailure('INVALID_PARAMS', 'O번호를 찾을 수 없습니다 (파일명 또는 본문 첫 줄)');
+        } catch {
+          failure = new TransferFailure('FILE_NOT_FOUND', `${ROOT_LABEL[root]}에 파일이 없습니다: ${fileName}`);
+        }
+        if (root === 'LIBRARY') {
+          const program = await prisma.program.findUnique({
+            where: { root_location_fileName: { root, location: pathKey ?? '', fileName } },
+            select: { headRevision: true },
+          });
+          revision = program?.headRevision ?? null;
+        }
+      } else {
+        programNo = extractProgramNo(fileName);
+      }
+
+      const job = await prisma.transferJob.create({
+        data: {
+          batchId,
+          machineDbId: input.machine.id,
+          direction: input.direction,
+          fileName,
+          programNo,
+          root,
+          pathKey,
+          revision,
+          conflictPolicy: input.conflictPolicy,
+          readBack: input.readBack ?? false,
+          maxAttempts: MAX_ATTEMPTS,
+          sizeBytes,
+          checksum,
+          createdById: input.userId,
+          ...(failure ? { status: 'FAILED', errorCode: failure.code, errorMessage: failure.message } : {}),
+        },
+        include: TRANSFER_JOB_INCLUDE,
+      });
+      jobs.push(this.emit(job));
+      if (!failure) this.schedule(input.machine.machineId, job.id);
+    }
+
+    return jobs;
+  }
+
+  /**
+   * 실패 작업 수동 재시도 (시도 횟수 초기화)
+   */
+  async retry(jobId: string): Promise<TransferJobDto | null> {
+    const { count } = await prisma.transferJob.updateMany({
+      where: { id: jobId, status: { in: ['FAILED', 'MISMATCHED'] } },
+      data: { status: 'QUEUED', attempts: 0, errorCode: null, errorMessage: null, cncChecksum: null, verifyDiff: Prisma.DbNull },
+    });
+    if (count === 0) return null;
+    const job = await prisma.transferJob.findUniqueOrThrow({ where: { id: jobId }, include: TRANSFER_JOB_INCLUDE });
+    this.schedule(job.machine.machineId, job.id);
+    return this.emit(job);
+  }
+
+  private schedule(machineId: string, jobId: string): void {
+    const queue = this.queues.get(machineId) ?? [];
+    queue.push(jobId);
+    this.queues.set(machineId, queue);
+    void this.drain(machineId);
+  }
+
+  private async drain(machineId: string): Promise<void> {
+    if (this.running.has(machineId)) return;
+    this.running.add(machineId);
+    try {
+      let jobId: string | undefined;
+      while ((jobId = this.queues.get(machineId)?.shift())) {
+        await this.run(jobId).catch((err) => console.error(`[Transfer] Job ${jobId} crashed:`, err));
+      }
+    } finally {
+      this.running.delete(machineId);
+      this.queues.delete(machineId);
+    }
+  }
+
+  private async run(jobId: string): Promise<void> {
+    const job = await prisma.transferJob.findUnique({ where: { id: jobId }, include: TRANSFER_JOB_INCLUDE });
+    if (!job || job.status !== 'QUEUED') return;
+
+    try {
+      const result = await this.send(job);
+      await this.update(job.id, { status: 'ACKNOWLEDGED', acknowledgedAt: new Date() });
+      const verified = await this.verify(job, result);
+      await this.update(job.id, { status: 'VERIFIED', verifiedAt: new Date(), ...verified });
+      if (job.root === 'LIBRARY' && job.direction === 'PC_TO_CNC') await this.recordDeployment(job);
+      console.log(`[Transfer] ${job.direction} ${job.fileName} → ${job.machine.machineId} verified`);
+    } catch (err) {
+      if (err instanceof TransferMismatch) {
+        console.warn(`[Transfer] ${job.fileName} read-back mismatch (+${err.diff.additions} −${err.diff.deletions})`);
+        await this.update(job.id, {
+          status: 'MISMATCHED',
+          cncChecksum: err.cncChecksum,
+          verifyDiff: err.diff as unknown as Prisma.InputJsonValue,
+          errorCode: 'CHECKSUM_MISMATCH',
+          errorMessage: `${err.message} (+${err.diff.additions} −${err.diff.deletions}줄)`,
+        });
+        return;
+      }
+      const failure = err instanceof TransferFailure
+        ? err
+        : new TransferFailure('EXECUTION_ERROR', err instanceof Error ? err.message : '전송 실패');
+      await this.fail(job.id, failure);
+    }
+  }
+
+  /**
+   * 명령 발송 + Agent 응답 대기 (CommandLog 기록, 결과 상태는 MQTT 결과 핸들러가 갱신)
+   */
+  private async send(job: TransferJobRow): Promise<CommandResult> {
+    let params: Record<string, unknown>;
+    if (job.direction === 'PC_TO_CNC') {
+      const content = await this.pcContent(job);
+      params = { fileName: job.fileName, content, programNo: job.programNo, conflictPolicy: job.conflictPolicy };
+    } else {
+      params = { fileName: job.fileName, conflictPolicy: job.conflictPolicy };
+    }
+
+    const attempt = job.attempts + 1;
+    const correlationId = `xfer-${Date.now()}-${job.id.slice(0, 8)}`;
+    const command = job.direction === 'PC_TO_CNC' ? 'UPLOAD_PROGRAM' : 'DOWNLOAD_PROGRAM';
+
+    await prisma.commandLog.create({
+      data: {
+        correlationId,
+        machineId: job.machineDbId,
+        command,
+        params: { transferJobId: job.id, fileName: job.fileName, programNo: job.programNo, attempt },
+        status: 'PENDING',
+      },
+    });
+    await this.update(job.id, {
+      status: 'SENDING',
+      attempts: attempt,
+      correlationId,
+      sentAt: new Date(),
+      errorCode: null,
+      errorMessage: null,
+    });
+
+    return this.command(job.machine.machineId, correlationId, command, params, ACK_TIMEOUT_MS, 'TIMEOUT');
+  }
+
+  private filePath(job: TransferJobRow): string {
+    return transferFilePath(job.root, job.machine.machineId, job.pathKey, job.fileName);
+  }
+
+  /**
+   * PC→CNC 전송 본문 — LIBRARY 는 등록 시점 리비전 본문(저장소), 그 외는 PC 파일
+   * 등록 시 체크섬(릴리스 확인 시점 내용)과 다르면 PROGRAM_MODIFIED — 대기 중 수정된 파일은 보내지 않음
+   */
+  private async pcContent(job: TransferJobRow): Promise<string> {
+    let content: string | null = null;
+    if (job.root === 'LIBRARY' && job.revision !== null) {
+      const revision = await prisma.programRevision.findFirst({
+        where: { revision: job.revision, program: { root: 'LIBRARY', location: job.pathKey ?? '', fileName: job.fileName } },
+        select: { content: true },
+      });
+      content = revision?.content ?? null;
+    }
+    if (content === null) {
+      try {
+        content = await fs.readFile(this.filePath(job), 'utf-8');
+      } catch {
+        throw new TransferFailure('FILE_NOT_FOUND', `PC 파일이 없습니다: ${job.fileName}`);
+      }
+    }
+    if (job.checksum && programChecksum(content) !== job.checksum) {
+      throw new TransferFailure('PROGRAM_MODIFIED', `전송 등록 이후 프로그램이 변경되었습니다: ${job.fileName}`);
+    }
+    return content;
+  }
+
+  /**
+   * 도착 확인 — 확인 결과로 기록할 필드 반환 (불일치는 TransferMismatch)
+   *   PC→CNC : readBack 이면 CNC 본문 읽기 비교, 아니면 LIST_PROGRAMS 결과에 O번호 존재
+   *   CNC→PC : 수신 내용을 PC 파일로 저장 후 다시 읽어 체크섬 비교
+   */
+  private async verify(job: TransferJobRow, ack: CommandResult): Promise<Prisma.TransferJobUpdateInput> {
+    if (job.direction === 'PC_TO_CNC' && job.readBack) {
+      const pcContent = await this.pcContent(job);
+      let cncContent: string;
+      try {
+        cncContent = await readBackProgram({ id: job.machineDbId, machineId: job.machine.machineId }, job.programNo!);
+      } catch (err) {
+        if (err instanceof AppError) throw new TransferFailure(err.code, err.message);
+        throw err;
+      }
+      const comparison = compareProgram(pcContent, cncContent);
+      if (!comparison.match) throw new TransferMismatch(comparison.cncChecksum, comparison.diff!);
+      return { checksum: comparison.checksum, cncChecksum: comparison.cncChecksum };
+    }
+
+    if (job.direction === 'PC_TO_CNC') {
+      const correlationId = `xfer-verify-${Date.now()}-${job.id.slice(0, 8)}`;
+      await prisma.commandLog.create({
+        data: {
+          correlationId,
+          machineId: job.machineDbId,
+          command: 'LIST_PROGRAMS',
+          params: { transferJobId: job.id, verify: job.programNo },
+          status: 'PENDING',
+        },
+      });
+      const listed = await this.command(job.machine.machineId, correlationId, 'LIST_PROGRAMS', {}, VERIFY_TIMEOUT_MS, 'VERIFY_TIMEOUT');
+      const programs = ((listed.result as { programs?: Array<{ programNo?: string; name?: string }> })?.programs) ?? [];
+      const found = programs.some((p) => extractProgramNo(p.programNo ?? p.name ?? '') === job.programNo);
+      if (!found) {
+        throw new TransferFailure('VERIFY_FAILED', `전송 후 CNC 프로그램 목록에서 ${job.programNo}을(를) 찾을 수 없습니다`);
+      }
+      return {};
+    }
+
+    const r = (ack.result ?? {}) as { fileName?: string; content?: string };
+    if (typeof r.content !== 'string' || !r.fileName) {
+      throw new TransferFailure('VERIFY_FAILED', 'Agent 응답에 프로그램 내용이 없습니다');
+    }
+    const fileName = path.basename(r.fileName);
+    const filePath = transferFilePath(job.root, job.machine.machineId, job.pathKey, fileName);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, r.content, 'utf-8');
+    const saved = await fs.readFile(filePath, 'utf-8');
+    const checksum = programChecksum(r.content);
+    if (programChecksum(saved) !== checksum) {
+      throw new TransferFailure('VERIFY_FAILED', `저장된 파일이 수신 내용과 다릅니다: ${fileName}`);
+    }
+
+    console.log(`[Files] Saved downloaded program: ${fileName}`);
+    if (job.root === 'TRANSFER_SHARE') {
+      wsService.broadcast({
+        type: 'file_downloaded',
+        timestamp: new Date().toISOString(),
+        payload: { machineId: job.machine.machineId, fileName },
+      });
+    }
+    return { sizeBytes: Buffer.byteLength(r.content), checksum, cncChecksum: checksum };
+  }
+
+  /**
+   * LIBRARY 배포 기록 — 장비별 마지막 배포 리비전 갱신 (배포 현황 / 구버전 판정 기준)
+   */
+  private async recordDeployment(job: TransferJobRow): Promise<void> {
+    if (job.revision === null) return;
+    const program = await prisma.program.findUnique({
+      where: { root_location_fileName: { root: 'LIBRARY', location: job.pathKey ?? '', fileName: job.fileName } },
+      select: { id: true },
+    });
+    if (!program) return;
+    const data = {
+      revision: job.revision,
+      programNo: job.programNo,
+      transferJobId: job.id,
+      deployedById: job.createdById,
+      deployedAt: new Date(),
+    };
+    await prisma.programDeployment.upsert({
+      where: { programId_machineDbId: { programId: program.id, machineDbId: job.machineDbId } },
+      create: { programId: program.id, machineDbId: job.machineDbId, ...data },
+      update: data,
+    });
+    console.log(`[Transfer] Library ${job.pathKey}/${job.fileName} r${job.revision} deployed to ${job.machine.machineId}`);
+  }
+
+  private async command(
+    machineId: string,
+    correlationId: string,
+    command: string,
+    params: Record<string, unknown>,
+    timeoutMs: number,
+    timeoutCode: string,
+  ): Promise<CommandResult> {
+    const waiting = commandWaiter.wait(correlationId, timeoutMs);
+    try {
+      await mqttService.sendCommand(machineId, command, correlationId, params);
+    } catch (err) {
+      commandWaiter.notify(correlationId, { status: 'failure' });
+      await waiting.catch(() => null);
+      await prisma.commandLog.update({
+        where: { correlationId },
+        data: { status: 'FAILURE', errorCode: 'MQTT_ERROR', completedAt: new Date() },
+      });
+      throw new TransferFailure('MQTT_ERROR', `명령 발송 실패: ${err instanceof Error ? err.message : err}`);
+    }
+
+    let result: CommandResult;
+    try {
+      result = await waiting;
+    } catch {
+      await prisma.commandLog.updateMany({
+        where: { correlationId, status: { in: ['PENDING', 'RECEIVED'] } },
+        data: { status: 'TIMEOUT', completedAt: new Date() },
+      });
+      throw new TransferFailure(timeoutCode, `Agent 응답 시간 초과 (${timeoutMs / 1000}초)`);
+    }
+
+    if (result.status !== 'success') {
+      const message = result.errorCode === 'CNC_NOT_IN_EDIT_MODE'
+        ? 'CNC를 EDIT 모드로 전환한 후 다시 시도하세요'
+        : (result.errorMessage ?? result.errorCode ?? '전송 실패');
+      throw new TransferFailure(result.errorCode ?? 'AGENT_ERROR', message);
+    }
+    return result;
+  }
+
+  private async fail(jobId: string, failure: TransferFailure): Promise<void> {
+    const job = await prisma.transferJob.findUnique({ where: { id: jobId }, include: TRANSFER_JOB_INCLUDE });
+    if (!job) return;
+
+    const retryable = !NON_RETRYABLE_CODES.has(failure.code) && job.attempts < job.maxAttempts;
+    if (retryable) {
+      console.warn(`[Transfer] ${job.fileName} attempt ${job.attempts}/${job.maxAttempts} failed (${failure.code}) — retrying`);
+      await this.update(jobId, {
+        status: 'QUEUED',
+        errorCode: failure.code,
+        errorMessage: `${failure.message} — 재시도 대기 (${job.attempts}/${job.maxAttempts})`,
+      });
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        this.schedule(job.machine.machineId, jobId);
+      }, RETRY_DELAY_MS);
+      this.retryTimers.add(timer);
+      return;
+    }
+
+    console.warn(`[Transfer] ${job.fileName} failed: ${failure.code} ${failure.message}`);
+    await this.update(jobId, { status: 'FAILED', errorCode: failure.code, errorMessage: failure.message });
+  }
+
+  private async update(jobId: string, data: Prisma.TransferJobUpdateInput): Promise<TransferJobDto> {
+    const job = await prisma.transferJob.update({ where: { id: jobId }, data, include: TRANSFER_JOB_INCLUDE });
+    return this.emit(job);
+  }
+
+  private emit(job: TransferJobRow): TransferJobDto {
+    const dto = toTransferJobDto(job);
+    wsService.sendTransferJob(dto);
+    return dto;
+  }
+
+  /**
+   * 서버 시작 시 — 응답 대기 중이던 작업은 결과를 알 수 없으므로 FAILED, 대기 작업은 다시 처리
+   */
+  async start(): Promise<void> {
+    const interrupted = await prisma.transferJob.updateMany({
+      where: { status: { in: ['SENDING', 'ACKNOWLEDGED'] } },
+      data: { status: 'FAILED', errorCode: 'INTERRUPTED', errorMessage: '서버 재시작으로 중단되었습니다 (CNC 확인 후 재시도)' },
+    });
+    const queued = await prisma.transferJob.findMany({
+      where: { status: 'QUEUED' },
+      include: TRANSFER_JOB_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+    for (const job of queued) this.schedule(job.machine.machineId, job.id);
+    if (interrupted.count > 0 || queued.length > 0) {
+      console.log(`[Transfer] ${interrupted.count} interrupted job(s) failed, ${queued.length} queued job(s) resumed`);
+    }
+  }
+
+  stop(): void {
+    for (const timer of this.retryTimers) clearTimeout(timer);
+    this.retryTimers.clear();
+  }
+}
+
+export const transferJobs = new TransferJobService();
@@ -7,6 +7,7 @@ import { IncomingMessage, Server } from 'http';
 const { parse: parseCookie } = require('cookie') as { parse: (str: string) => Record<string, string> };
 import { v4 as uuidv4 } from 'uuid';
 import { verifyAccessToken, verifyRefreshToken } from '../auth/jwt';
+import { isAccountCurrent } from '../auth/account';
 import { config } from '../config';
 import { prisma } from './prisma';
 import { UserRole } from '@prisma/client';
@@ -112,7 +113,7 @@ class WebSocketService {
     if (authHeader?.startsWith('Bearer ')) {
       const token = authHeader.slice(7);
       const payload = verifyAccessToken(token);
-      if (payload) {
+      if (payload && (await isAccountCurrent(payload))) {
         return {
           id: payload.sub,
           username: payload.username,
@@ -152,7 +153,7 @@ class WebSocketService {
     const token = url.searchParams.get('token');
     if (token) {
       const payload = verifyAccessToken(token);
-      if (payload) {
+      if (payload && (await isAccountCurrent(payload))) {
         return {
           id: payload.sub,
           username: payload.username,
@@ -422,6 +423,17 @@ class WebSocketService {
     });
   }
 
+  /**
+   * Send downtime event open/close/tag update
+   */
+  sendDowntime(machineId: string, action: 'opened' | 'updated' | 'closed', event: unknown): void {
+    this.broadcastToMachine(machineId, {
+      type: 'downtime',
+      timestamp: new Date().toISOString(),
+      payload: { machineId, action, event },
+    });
+  }
+
   /**
    * Send M20 event (parts count increment)
    */
@@ -437,6 +449,49 @@ class WebSocketService {
     });
   }
 
+  /**
+   * Send camera health check result (전체 클라이언트 — 설정 화면 카메라 목록 상태)
+   */
+  sendCameraStatus(status: { cameraId: string; status: string; latencyMs: number | null; error: string | null; checkedAt: string }): void {
+    this.broadcast({
+      type: 'camera_status',
+      timestamp: new Date().toISOString(),
+      payload: status,
+    });
+  }
+
+  /**
+   * Send transfer job state change (전체 클라이언트 — 파일 관리 전송 큐)
+   */
+  sendTransferJob(job: { id: string; machineId: string; status: string }): void {
+    this.broadcast({
+      type: 'transfer_job',
+      timestamp: new Date().toISOString(),
+      payload: job,
+    });
+  }
+
+  /**
+   * Send SPC control chart violation (전체 클라이언트 — 이벤트 로그 / SPC 화면 알림)
+   */
+  sendSpcViolation(violation: {
+    machineId: string;
+    featureId: string;
+    featureName: string;
+    productCode: string | null;
+    chart: string;
+    rules: number[];
+    value: number;
+    violationIds: string[];
+    message: string;
+  }): void {
+    this.broadcast({
+      type: 'spc_violation',
+      timestamp: new Date().toISOString(),
+      payload: violation,
+    });
+  }
+
   /**
    * Get connected clients count
    */
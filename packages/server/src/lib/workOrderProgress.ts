@@ -0,0 +1,48 @@
+/**
+ * WorkOrderProgress - 스케줄러 M20 카운트 → 작업지시 실적 반영
+ *
+ *   producedQty  += 행 카운트 증가분 (Agent count authority, 감소분은 무시)
+ *   PENDING      → IN_PROGRESS (첫 생산 시 actualStart 기록)
+ *   IN_PROGRESS  → COMPLETED   (producedQty ≥ targetQuantity 시 actualEnd 기록)
+ *   CANCELLED / COMPLETED 작업지시는 수량만 누적, 상태 유지
+ */
+
+import { Prisma, WorkOrder } from '@prisma/client';
+import { prisma } from './prisma';
+import { wsService } from './websocket';
+
+export async function applyWorkOrderProduction(workOrderId: string, increment: number): Promise<WorkOrder | null> {
+  if (increment <= 0) return null;
+
+  // 수량 누적과 상태 전이를 한 UPDATE 로 — 동시 M20 보고에서도 누락 / 중복 전이 없음
+  const now = new Date();
+  const changed = await prisma.$executeRaw(Prisma.sql`
+    UPDATE "work_orders" SET
+      "produced_qty" = "produced_qty" + ${increment},
+      "status" = CASE
+        WHEN "status" IN ('PENDING', 'IN_PROGRESS') AND "produced_qty" + ${increment} >= "target_quantity"
+          THEN 'COMPLETED'::"WorkOrderStatus"
+        WHEN "status" = 'PENDING' THEN 'IN_PROGRESS'::"WorkOrderStatus"
+        ELSE "status"
+      END,
+      "actual_start" = CASE WHEN "status" = 'PENDING' THEN ${now} ELSE "actual_start" END,
+      "actual_end" = CASE
+        WHEN "status" IN ('PENDING', 'IN_PROGRESS') AND "produced_qty" + ${increment} >= "target_quantity" THEN ${now}
+        ELSE "actual_end"
+      END,
+      "updated_at" = ${now}
+    WHERE "id" = ${workOrderId}
+  `);
+  if (changed === 0) return null;
+
+  const updated = await prisma.workOrder.findUnique({ where: { id: workOrderId } });
+  if (!updated) return null;
+
+  wsService.broadcast({
+    type: 'work_order_progress',
+    timestamp: now.toISOString(),
+    payload: updated,
+  });
+
+  return updated;
+}
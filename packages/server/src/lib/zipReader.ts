@@ -0,0 +1,73 @@
+/**
+ * ZipReader - 백업 ZIP 엔트리 읽기 (Agent System.IO.Compression 생성 파일 기준)
+ *
+ * End of Central Directory → Central Directory → Local Header 순으로 파싱.
+ * 지원: STORED(0), DEFLATE(8). ZIP64 / 암호화는 미지원 (백업 ZIP 최대 100MB).
+ */
+
+import zlib from 'zlib';
+import { AppError } from '../middleware/error';
+
+const EOCD_SIGNATURE    = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE   = 0x04034b50;
+const EOCD_MIN_SIZE     = 22;
+const MAX_COMMENT_SIZE  = 0xffff;
+
+function invalidZip(message: string): AppError {
+  return new AppError(422, 'INVALID_BACKUP_FILE', message);
+}
+
+function findEocd(buf: Buffer): number {
+  const stop = Math.max(0, buf.length - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let i = buf.length - EOCD_MIN_SIZE; i >= stop; i--) {
+    if (buf.readUInt32LE(i) === EOCD_SIGNATURE) return i;
+  }
+  throw invalidZip('ZIP 종료 레코드를 찾을 수 없습니다');
+}
+
+/**
+ * ZIP 버퍼 → { 엔트리명: 내용 } (디렉토리 엔트리 제외)
+ */
+export function readZipEntries(buf: Buffer): Map<string, Buffer> {
+  if (buf.length < EOCD_MIN_SIZE) throw invalidZip('ZIP 파일이 아닙니다');
+
+  const eocd = findEocd(buf);
+  const entryCount = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+
+  const entries = new Map<string, Buffer>();
+  for (let i = 0; i < entryCount; i++) {
+    if (buf.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw invalidZip('ZIP 중앙 디렉토리가 손상되었습니다');
+    }
+    const flags          = buf.readUInt16LE(offset + 8);
+    const method         = buf.readUInt16LE(offset + 10);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const nameLength     = buf.readUInt16LE(offset + 28);
+    const extraLength    = buf.readUInt16LE(offset + 30);
+    const commentLength  = buf.readUInt16LE(offset + 32);
+    const localOffset    = buf.readUInt32LE(offset + 42);
+    const name = buf.toString((flags & 0x800) ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) throw invalidZip(`암호화된 엔트리는 지원하지 않습니다: ${name}`);
+
+    if (buf.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+      throw invalidZip(`ZIP 로컬 헤더가 손상되었습니다: ${name}`);
+    }
+    const dataStart = localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28);
+    const data = buf.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, Buffer.from(data));
+    } else if (method === 8) {
+      entries.set(name, zlib.inflateRawSync(data));
+    } else {
+      throw invalidZip(`지원하지 않는 압축 방식입니다 (${method}): ${name}`);
+    }
+  }
+
+  return entries;
+}
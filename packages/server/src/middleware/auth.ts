@@ -4,17 +4,21 @@
 import { Request, Response, NextFunction } from 'express';
 import { UserRole } from '@prisma/client';
 import { verifyAccessToken, extractBearerToken } from '../auth/jwt';
+import { isAccountCurrent } from '../auth/account';
 import { ApiResponse } from '../types';
+import { prisma } from '../lib/prisma';
+import { Permission, hasPermission, permissionLabel, MachineScope } from '../lib/permissions';
 
 /**
  * Authentication middleware
  * Verifies JWT Access Token from Authorization header
+ * 비활성화 / 역할 변경된 계정의 토큰은 만료 전이라도 거부 (auth/account)
  */
-export function authenticate(
+export async function authenticate(
   req: Request,
   res: Response<ApiResponse>,
   next: NextFunction
-): void {
+): Promise<void> {
   const token = extractBearerToken(req.headers.authorization);
 
   if (!token) {
@@ -41,6 +45,22 @@ export function authenticate(
     return;
   }
 
+  try {
+    if (!(await isAccountCurrent(payload))) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'SESSION_REVOKED',
+          message: '비활성화되었거나 역할이 변경된 계정입니다. 다시 로그인하세요.',
+        },
+      });
+      return;
+    }
+  } catch (error) {
+    next(error);
+    return;
+  }
+
   // Attach user info to request
   req.user = {
     id: payload.sub,
@@ -97,20 +117,78 @@ export function requireRole(
   return authorize(...roles);
 }
 
+/**
+ * 요청에서 대상 장비 식별자(Machine.id 또는 machineId)를 꺼내는 함수
+ * 반환값이 없으면 전체 범위 권한만 평가
+ */
+export type MachineRefResolver = (req: Request) => string | undefined | null | Promise<string | undefined | null>;
+
+export const machineFromParam = (name: string): MachineRefResolver => (req) => req.params[name];
+export const machineFromBody = (name = 'machineId'): MachineRefResolver => (req) =>
+  typeof req.body?.[name] === 'string' ? req.body[name] : undefined;
+export const machineFromQuery = (name = 'machineId'): MachineRefResolver => (req) =>
+  typeof req.query[name] === 'string' ? (req.query[name] as string) : undefined;
+
+/**
+ * Permission-based authorization middleware
+ * Must be used after authenticate middleware
+ * requirePermission('offsets.write', machineFromParam('id')) — 장비 / 라인 범위 부여 인정
+ */
+export function requirePermission(permission: Permission, resolveMachine?: MachineRefResolver) {
+  return async (req: Request, res: Response<ApiResponse>, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: '인증이 필요합니다.',
+        },
+      });
+      return;
+    }
+
+    try {
+      let machine: MachineScope | null = null;
+      const ref = resolveMachine ? await resolveMachine(req) : null;
+      if (ref) {
+        machine = await prisma.machine.findFirst({
+          where: { OR: [{ id: ref }, { machineId: ref }] },
+          select: { machineId: true, location: true },
+        });
+      }
+
+      if (!(await hasPermission(req.user, permission, machine))) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: `접근 권한이 없습니다. (${permissionLabel(permission)})`,
+          },
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
 /**
  * Optional authentication middleware
  * Attaches user info if token is valid, but doesn't reject if missing
  */
-export function optionalAuth(
+export async function optionalAuth(
   req: Request,
   _res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   const token = extractBearerToken(req.headers.authorization);
 
   if (token) {
     const payload = verifyAccessToken(token);
-    if (payload) {
+    if (payload && (await isAccountCurrent(payload).catch(() => false))) {
       req.user = {
         id: payload.sub,
         username: payload.username,
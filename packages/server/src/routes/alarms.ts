@@ -3,6 +3,8 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
 import { authenticate } from '../middleware/auth';
+import { currentShift, loadShiftCalendar, patternFor, productionDayStart } from '../lib/shiftCalendar';
+import { cameraRecorder } from '../lib/cameraRecorder';
 
 const router = Router();
 
@@ -45,6 +47,10 @@ router.get('/', async (req: Request, res: Response) => {
         include: {
           machine: { select: { machineId: true, name: true } },
           acknowledgedByUser: { select: { id: true, username: true } },
+          clips: {
+            select: { id: true, cameraId: true, cameraName: true, status: true, startedAt: true, endedAt: true, errorMessage: true },
+            orderBy: { createdAt: 'asc' },
+          },
         },
       }),
       prisma.alarm.count({ where }),
@@ -63,6 +69,15 @@ router.get('/', async (req: Request, res: Response) => {
         clearedAt: alarm.clearedAt?.toISOString(),
         acknowledgedBy: alarm.acknowledgedByUser?.username,
         acknowledgedAt: alarm.acknowledgedAt?.toISOString(),
+        clips: alarm.clips.map((clip) => ({
+          id: clip.id,
+          cameraId: clip.cameraId,
+          cameraName: clip.cameraName,
+          status: clip.status,
+          startedAt: clip.startedAt?.toISOString(),
+          endedAt: clip.endedAt?.toISOString(),
+          errorMessage: clip.errorMessage ?? undefined,
+        })),
       })),
       pagination: {
         page,
@@ -87,8 +102,15 @@ router.get('/stats', async (req: Request, res: Response) => {
       select: { id: true, machineId: true, name: true },
     });
 
+    // 오늘 = 생산일 시작(첫 교대)부터, 교대 = 현재 교대 시작부터
+    const now = new Date();
+    const calendar = await loadShiftCalendar();
+
     const stats = await Promise.all(
       machines.map(async (machine) => {
+        const pattern = patternFor(calendar, machine.id);
+        const shift = currentShift(pattern, now);
+
         const activeCount = await prisma.alarm.count({
           where: {
             machineDbId: machine.id,
@@ -100,22 +122,35 @@ router.get('/stats', async (req: Request, res: Response) => {
           where: {
             machineDbId: machine.id,
             occurredAt: {
-              gte: new Date(new Date().setHours(0, 0, 0, 0)),
+              gte: productionDayStart(pattern, now),
             },
           },
         });
 
+        const shiftCount = shift
+          ? await prisma.alarm.count({
+              where: {
+                machineDbId: machine.id,
+                occurredAt: { gte: shift.start },
+              },
+            })
+          : 0;
+
         return {
           machineId: machine.machineId,
           machineName: machine.name,
           activeCount,
           todayCount,
+          shiftName: shift?.shiftName ?? null,
+          shiftCount,
         };
       })
     );
 
     const totalActive = stats.reduce((sum, s) => sum + s.activeCount, 0);
     const totalToday = stats.reduce((sum, s) => sum + s.todayCount, 0);
+    const totalShift = stats.reduce((sum, s) => sum + s.shiftCount, 0);
+    const defaultShift = currentShift(patternFor(calendar), now);
 
     res.json({
       success: true,
@@ -124,6 +159,10 @@ router.get('/stats', async (req: Request, res: Response) => {
         summary: {
           totalActive,
           totalToday,
+          totalShift,
+          currentShift: defaultShift
+            ? { name: defaultShift.shiftName, start: defaultShift.start.toISOString() }
+            : null,
         },
       },
     });
@@ -209,7 +248,7 @@ export async function storeAlarm(data: {
       });
 
       if (!existing) {
-        await prisma.alarm.create({
+        const alarm = await prisma.alarm.create({
           data: {
             machineDbId: machine.id,
             alarmNo: data.alarmNo,
@@ -219,6 +258,11 @@ export async function storeAlarm(data: {
           },
         });
         console.log(`[Alarms] Stored alarm: ${data.machineId} #${data.alarmNo}`);
+
+        // 장비에 할당된 카메라 클립 녹화 (사전 / 사후 구간 — 완료 대기 없음)
+        cameraRecorder.recordAlarm(alarm.id, data.machineId).catch((err) => {
+          console.error('[Alarms] Failed to start alarm clip:', err);
+        });
       }
     } else {
       // Clear alarm
@@ -3,7 +3,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { prisma } from '../lib/prisma';
 import { Prisma } from '@prisma/client';
-import { authenticate, requireRole } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -20,7 +20,7 @@ interface AuditLogInput {
 }
 
 // Get audit logs with filtering and pagination
-router.get('/', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (req: Request, res: Response, next: NextFunction) => {
+router.get('/', authenticate, requirePermission('audit.view'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 50;
@@ -87,7 +87,7 @@ router.get('/', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (req:
 });
 
 // Get audit log detail
-router.get('/:id', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id', authenticate, requirePermission('audit.view'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
 
@@ -122,7 +122,7 @@ router.get('/:id', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (r
 });
 
 // Get audit statistics
-router.get('/stats/summary', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (req: Request, res: Response, next: NextFunction) => {
+router.get('/stats/summary', authenticate, requirePermission('audit.view'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { days } = req.query;
     const daysCount = parseInt(days as string) || 7;
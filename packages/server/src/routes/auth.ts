@@ -11,6 +11,7 @@ import {
   verifyRefreshToken
 } from '../auth/jwt';
 import { authenticate } from '../middleware/auth';
+import { getUserGrants } from '../lib/permissions';
 import {
   ApiResponse,
   LoginRequest,
@@ -499,4 +500,30 @@ router.get('/me', authenticate, async (
   }
 });
 
+/**
+ * GET /auth/permissions
+ * 현재 사용자의 실효 권한 (기본 역할 + 전체 / 장비 / 라인 범위 부여)
+ */
+router.get('/permissions', authenticate, async (
+  req: Request,
+  res: Response<ApiResponse>
+) => {
+  try {
+    const grants = await getUserGrants(req.user!.id, req.user!.role);
+    return res.json({
+      success: true,
+      data: grants,
+    });
+  } catch (error) {
+    console.error('Get permissions error:', error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: '권한 조회 중 오류가 발생했습니다.',
+      },
+    });
+  }
+});
+
 export default router;
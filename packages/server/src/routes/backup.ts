@@ -2,41 +2,335 @@
 
 import path from 'path';
 import fs from 'fs/promises';
-import { createWriteStream } from 'fs';
+import crypto from 'crypto';
 import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
+import { Prisma, BackupStatus, BackupType } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { mqttService, TOPICS } from '../lib/mqtt';
-import { authenticate, requireRole } from '../middleware/auth';
+import { wsService } from '../lib/websocket';
+import { authenticate, requirePermission, machineFromParam, MachineRefResolver } from '../middleware/auth';
 import { createAuditLog } from './audit';
-
-const BACKUP_DIR = process.env.DATA_DIR
-  ? path.join(process.env.DATA_DIR, 'backup')
-  : path.join(process.cwd(), 'data', 'backup');
+import {
+  backupRetention,
+  PARAMETER_BACKUP_TYPES,
+  resolveBackupPath,
+} from '../lib/backupRetention';
+import { diffBackupZips, diffParameters, loadBackupContents } from '../lib/backupDiff';
+import { checkRestoreInterlock, InterlockResult } from '../lib/backupInterlock';
+import { redisService, ControlLock } from '../lib/redis';
+import { commandWaiter } from '../lib/commandWaiter';
+import { AppError } from '../middleware/error';
 
 // multer: Agent 업로드 수신 (메모리 저장 → 파일로 저장)
 const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 100 * 1024 * 1024 } });
 
 const router = Router();
 
-// Backup types
-type BackupType = 'SRAM' | 'PARAMETER' | 'PROGRAM' | 'FULL';
+const BACKUP_TYPES: BackupType[] = ['SRAM', 'PARAMETER', 'PROGRAM', 'FULL'];
+const COMPLIANCE_DEFAULT_DAYS = 30;
+
+const BACKUP_INCLUDE = {
+  createdBy: { select: { username: true } },
+} satisfies Prisma.BackupInclude;
+
+type BackupWithUser = Prisma.BackupGetPayload<{ include: typeof BACKUP_INCLUDE }>;
+
+function toBackupDto(b: BackupWithUser, machineId: string) {
+  return {
+    id: b.id,
+    machineId,
+    type: b.type,
+    status: b.status,
+    fileName: b.fileName,
+    fileSize: b.fileSize,
+    checksum: b.checksum,
+    programCount: b.programCount,
+    editMode: b.editMode,
+    errorMessage: b.errorMessage,
+    createdBy: b.createdBy?.username ?? null,
+    createdAt: b.createdAt,
+    completedAt: b.completedAt,
+    prunedAt: b.prunedAt,
+  };
+}
+
+function hashUploadToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * 백업 요청 생성 + CREATE_BACKUP 명령 발행 (수동 요청 / 스케줄 공용)
+ */
+export async function requestBackup(
+  machine: { id: string; machineId: string },
+  type: BackupType,
+  createdById: string | null,
+  scheduleId: string | null = null,
+): Promise<BackupWithUser> {
+  const backupId = `backup-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const timestamp = new Date();
+  // Agent 업로드 인증 — 명령에만 원문을 싣고 DB 에는 해시만 저장
+  const uploadToken = crypto.randomBytes(32).toString('hex');
+  const fileName = `${machine.machineId}_${type}_${timestamp.toISOString().replace(/[:.]/g, '-')}.zip`;
+
+  const backup = await prisma.backup.create({
+    data: {
+      id: backupId,
+      machineDbId: machine.id,
+      type,
+      fileName,
+      createdById,
+      scheduleId,
+      createdAt: timestamp,
+      uploadTokenHash: hashUploadToken(uploadToken),
+    },
+    include: BACKUP_INCLUDE,
+  });
+
+  // Send backup command to Agent via MQTT
+  mqttService.publish(TOPICS.COMMAND_TO(machine.machineId), {
+    timestamp: new Date().toISOString(),
+    command: 'CREATE_BACKUP',
+    correlationId: backupId,
+    params: {
+      type,
+      backupId,
+      fileName,
+      uploadToken,
+    },
+  });
+
+  // Log command
+  await prisma.commandLog.create({
+    data: {
+      correlationId: backupId,
+      machineId: machine.id,
+      command: 'CREATE_BACKUP',
+      params: { type, fileName, ...(scheduleId ? { scheduleId } : {}) },
+      status: 'PENDING',
+    },
+  });
+
+  return backup;
+}
 
-interface BackupRecord {
-  id: string;
+/**
+ * 자동 백업 실패 알림 (WS backup_failed + 감사 로그)
+ * 감사 로그 주체는 스케줄 등록자 (userRole = SYSTEM)
+ */
+export async function notifyScheduledBackupFailure(info: {
+  schedule: { id: string; name: string; createdById: string };
   machineId: string;
   type: BackupType;
-  fileName: string;
-  fileSize: number;
-  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
-  createdAt: Date;
-  completedAt?: Date;
-  errorMessage?: string;
-  filePath?: string;
+  backupId?: string | null;
+  reason: string;
+}): Promise<void> {
+  const { schedule, machineId, type, backupId = null, reason } = info;
+
+  wsService.broadcastToRoles(['ADMIN', 'HQ_ENGINEER'], {
+    type: 'backup_failed',
+    timestamp: new Date().toISOString(),
+    payload: { machineId, backupId, type, scheduleId: schedule.id, scheduleName: schedule.name, reason },
+  });
+
+  await createAuditLog({
+    userId: schedule.createdById,
+    userRole: 'SYSTEM',
+    action: 'backup.schedule.failed',
+    targetType: 'machine',
+    targetId: machineId,
+    params: { scheduleId: schedule.id, scheduleName: schedule.name, type, backupId },
+    result: 'failure',
+    errorMsg: reason,
+    ipAddress: 'system',
+  });
 }
 
-// In-memory backup records (in production, use database)
-const backupRecords = new Map<string, BackupRecord>();
+/**
+ * 완료된 백업 ZIP 읽기 (비교 / 복원 공용) — 보존 만료 410, 미완료 400, 파일 없음 404
+ */
+async function readBackupZip(b: { fileName: string; status: string; filePath: string | null; prunedAt: Date | null }): Promise<Buffer> {
+  if (b.prunedAt) {
+    throw new AppError(410, 'BACKUP_PRUNED', `보존 기간이 지나 파일이 삭제된 백업입니다 (${b.fileName})`);
+  }
+  const filePath = b.filePath ? resolveBackupPath(b.filePath) : null;
+  if (b.status !== 'COMPLETED' || !filePath) {
+    throw new AppError(400, 'BACKUP_NOT_READY', `백업이 아직 완료되지 않았습니다 (${b.fileName})`);
+  }
+  try {
+    return await fs.readFile(filePath);
+  } catch {
+    throw new AppError(404, 'BACKUP_FILE_MISSING', `백업 파일을 찾을 수 없습니다 (${b.fileName})`);
+  }
+}
+
+/**
+ * GET /api/backup/compliance?days=30&format=csv
+ * 감사 증빙: 장비별 최근 N일 내 파라미터 백업(PARAMETER/FULL) 보유 여부
+ */
+router.get('/compliance', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || COMPLIANCE_DEFAULT_DAYS, 1), 365);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const machines = await prisma.machine.findMany({
+      where: { isActive: true },
+      select: { id: true, machineId: true, name: true, location: true },
+      orderBy: { machineId: 'asc' },
+    });
+
+    const latest = await prisma.backup.groupBy({
+      by: ['machineDbId'],
+      where: { status: 'COMPLETED', type: { in: [...PARAMETER_BACKUP_TYPES] } },
+      _max: { completedAt: true },
+    });
+    const lastByMachine = new Map(latest.map((l) => [l.machineDbId, l._max.completedAt]));
+
+    const items = machines.map((m) => {
+      const last = lastByMachine.get(m.id) ?? null;
+      return {
+        machineId: m.machineId,
+        name: m.name,
+        location: m.location,
+        lastParameterBackupAt: last,
+        compliant: !!last && last >= since,
+      };
+    });
+    const compliantCount = items.filter((i) => i.compliant).length;
+
+    if (req.query.format === 'csv') {
+      const escape = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+      const lines = [
+        'machineId,name,location,lastParameterBackupAt,compliant',
+        ...items.map((i) => [
+          escape(i.machineId),
+          escape(i.name),
+          escape(i.location ?? ''),
+          i.lastParameterBackupAt ? i.lastParameterBackupAt.toISOString() : '',
+          i.compliant ? 'Y' : 'N',
+        ].join(',')),
+      ];
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="backup-compliance-${days}d.csv"`);
+      return res.send('\uFEFF' + lines.join('\n'));
+    }
+
+    res.json({
+      success: true,
+      data: {
+        days,
+        since,
+        generatedAt: new Date(),
+        total: items.length,
+        compliantCount,
+        items,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/backup/retention
+ * 보존 정책 조회
+ */
+router.get('/retention', authenticate, async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ success: true, data: await backupRetention.getPolicy() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/backup/retention
+ * 보존 정책 변경 { keepPerType, monthlySnapshots } → 즉시 정리 실행
+ */
+router.put('/retention', authenticate, requirePermission('backup.schedule'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { keepPerType, monthlySnapshots } = req.body as { keepPerType?: number; monthlySnapshots?: number };
+
+    if (!Number.isInteger(keepPerType) || keepPerType! < 1 || keepPerType! > 1000
+      || !Number.isInteger(monthlySnapshots) || monthlySnapshots! < 0 || monthlySnapshots! > 120) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_POLICY', message: '유형별 보존 개수(1~1000)와 월간 스냅샷 개월 수(0~120)를 확인하세요' },
+      });
+    }
+
+    const policy = { keepPerType: keepPerType!, monthlySnapshots: monthlySnapshots! };
+    await backupRetention.setPolicy(policy, req.user!.id);
+    const pruned = await backupRetention.prune();
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'backup.retention.update',
+      targetType: 'setting',
+      targetId: 'backup.retention',
+      params: { ...policy, pruned },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: { ...policy, pruned } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/backup/diff?from=<backupId>&to=<backupId>
+ * 같은 장비 두 백업 비교 — 파라미터 old/new, 프로그램 추가/삭제/수정(줄 diff)
+ */
+router.get('/diff', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const fromId = req.query.from as string | undefined;
+    const toId = req.query.to as string | undefined;
+    if (!fromId || !toId || fromId === toId) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_INPUT', message: '비교할 백업 2개를 지정하세요' },
+      });
+    }
+
+    const found = await prisma.backup.findMany({
+      where: { id: { in: [fromId, toId] } },
+      include: { ...BACKUP_INCLUDE, machine: { select: { machineId: true, name: true } } },
+    });
+    const from = found.find((b) => b.id === fromId);
+    const to = found.find((b) => b.id === toId);
+    if (!from || !to) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'BACKUP_NOT_FOUND', message: '백업을 찾을 수 없습니다' },
+      });
+    }
+
+    if (from.machineDbId !== to.machineDbId) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'MACHINE_MISMATCH', message: '같은 장비의 백업만 비교할 수 있습니다' },
+      });
+    }
+
+    const diff = diffBackupZips(await readBackupZip(from), await readBackupZip(to));
+
+    res.json({
+      success: true,
+      data: {
+        machine: from.machine,
+        from: toBackupDto(from, from.machine.machineId),
+        to: toBackupDto(to, to.machine.machineId),
+        ...diff,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
 
 // Get backup history for a machine
 router.get('/:machineId', authenticate, async (req: Request, res: Response, next: NextFunction) => {
@@ -44,6 +338,7 @@ router.get('/:machineId', authenticate, async (req: Request, res: Response, next
     const { machineId } = req.params;
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
+    const type = req.query.type as BackupType | undefined;
 
     // Find machine
     const machine = await prisma.machine.findUnique({
@@ -57,18 +352,26 @@ router.get('/:machineId', authenticate, async (req: Request, res: Response, next
       });
     }
 
-    // Get backups from map (filter by machineId)
-    const allBackups = Array.from(backupRecords.values())
-      .filter((b) => b.machineId === machineId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const where: Prisma.BackupWhereInput = {
+      machineDbId: machine.id,
+      ...(type && BACKUP_TYPES.includes(type) ? { type } : {}),
+    };
 
-    const total = allBackups.length;
-    const backups = allBackups.slice((page - 1) * limit, page * limit);
+    const [total, backups] = await Promise.all([
+      prisma.backup.count({ where }),
+      prisma.backup.findMany({
+        where,
+        include: BACKUP_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
 
     res.json({
       success: true,
       data: {
-        items: backups,
+        items: backups.map((b) => toBackupDto(b, machineId)),
         total,
         page,
         limit,
@@ -81,12 +384,12 @@ router.get('/:machineId', authenticate, async (req: Request, res: Response, next
 });
 
 // Create new backup
-router.post('/:machineId', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:machineId', authenticate, requirePermission('backup.create', machineFromParam('machineId')), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { machineId } = req.params;
     const { type } = req.body as { type: BackupType };
 
-    if (!type || !['SRAM', 'PARAMETER', 'PROGRAM', 'FULL'].includes(type)) {
+    if (!type || !BACKUP_TYPES.includes(type)) {
       return res.status(400).json({
         success: false,
         error: { code: 'INVALID_TYPE', message: '유효하지 않은 백업 유형입니다' },
@@ -105,44 +408,7 @@ router.post('/:machineId', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']),
       });
     }
 
-    const backupId = `backup-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    const timestamp = new Date();
-    const fileName = `${machineId}_${type}_${timestamp.toISOString().replace(/[:.]/g, '-')}.zip`;
-
-    // Create backup record
-    const backupRecord: BackupRecord = {
-      id: backupId,
-      machineId,
-      type,
-      fileName,
-      fileSize: 0,
-      status: 'PENDING',
-      createdAt: timestamp,
-    };
-    backupRecords.set(backupId, backupRecord);
-
-    // Send backup command to Agent via MQTT
-    mqttService.publish(TOPICS.COMMAND_TO(machineId), {
-      timestamp: new Date().toISOString(),
-      command: 'CREATE_BACKUP',
-      correlationId: backupId,
-      params: {
-        type,
-        backupId,
-        fileName,
-      },
-    });
-
-    // Log command
-    await prisma.commandLog.create({
-      data: {
-        correlationId: backupId,
-        machineId: machine.id,
-        command: 'CREATE_BACKUP',
-        params: { type, fileName },
-        status: 'PENDING',
-      },
-    });
+    const backup = await requestBackup(machine, type, req.user!.id);
 
     // Audit log
     await createAuditLog({
@@ -151,14 +417,14 @@ router.post('/:machineId', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']),
       action: 'backup.create',
       targetType: 'machine',
       targetId: machineId,
-      params: { type, backupId },
+      params: { type, backupId: backup.id },
       result: 'success',
       ipAddress: req.ip || 'unknown',
     });
 
     res.json({
       success: true,
-      data: backupRecord,
+      data: toBackupDto(backup, machineId),
     });
   } catch (error) {
     next(error);
@@ -170,7 +436,10 @@ router.get('/status/:backupId', authenticate, async (req: Request, res: Response
   try {
     const { backupId } = req.params;
 
-    const backup = backupRecords.get(backupId);
+    const backup = await prisma.backup.findUnique({
+      where: { id: backupId },
+      include: { ...BACKUP_INCLUDE, machine: { select: { machineId: true } } },
+    });
     if (!backup) {
       return res.status(404).json({
         success: false,
@@ -180,7 +449,7 @@ router.get('/status/:backupId', authenticate, async (req: Request, res: Response
 
     res.json({
       success: true,
-      data: backup,
+      data: toBackupDto(backup, backup.machine.machineId),
     });
   } catch (error) {
     next(error);
@@ -192,7 +461,7 @@ router.get('/download/:backupId', authenticate, async (req: Request, res: Respon
   try {
     const { backupId } = req.params;
 
-    const backup = backupRecords.get(backupId);
+    const backup = await prisma.backup.findUnique({ where: { id: backupId } });
     if (!backup) {
       return res.status(404).json({
         success: false,
@@ -200,70 +469,598 @@ router.get('/download/:backupId', authenticate, async (req: Request, res: Respon
       });
     }
 
-    if (backup.status !== 'COMPLETED' || !backup.filePath) {
+    if (backup.prunedAt) {
+      return res.status(410).json({
+        success: false,
+        error: { code: 'BACKUP_PRUNED', message: '보존 기간이 지나 파일이 삭제된 백업입니다' },
+      });
+    }
+
+    const filePath = backup.filePath ? resolveBackupPath(backup.filePath) : null;
+    if (backup.status !== 'COMPLETED' || !filePath) {
       return res.status(400).json({
         success: false,
         error: { code: 'BACKUP_NOT_READY', message: '백업이 아직 완료되지 않았습니다' },
       });
     }
 
-    const fileBuffer = await fs.readFile(backup.filePath);
+    let fileBuffer: Buffer;
+    try {
+      fileBuffer = await fs.readFile(filePath);
+    } catch {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'BACKUP_FILE_MISSING', message: '백업 파일을 찾을 수 없습니다' },
+      });
+    }
+
     res.setHeader('Content-Type', 'application/zip');
     res.setHeader('Content-Disposition', `attachment; filename="${backup.fileName}"`);
     res.setHeader('Content-Length', fileBuffer.length);
+    if (backup.checksum) res.setHeader('X-Checksum-SHA256', backup.checksum);
     res.send(fileBuffer);
   } catch (error) {
     next(error);
   }
 });
 
-// Agent → Server: 백업 파일 업로드 완료 (인증 없음 — 내부 네트워크 전용)
-router.post('/:backupId/upload', upload.single('file'), async (req: Request, res: Response, next: NextFunction) => {
+// ─── 백업 복원 ─────────────────────────────────────────────────
+
+type RestoreScope = 'programs' | 'parameters' | 'all';
+const RESTORE_SCOPES: RestoreScope[] = ['programs', 'parameters', 'all'];
+const RESTORE_LOCK_TTL_SEC = 600;
+const RESTORE_STEP_TIMEOUT_MS = 60_000;
+const LIST_PROGRAMS_TIMEOUT_MS = 10_000;
+
+interface RestoreStep {
+  kind: 'program' | 'parameters';
+  target: string;                 // O번호 | 'parameters'
+  correlationId: string;
+  status: 'success' | 'failure' | 'skipped';
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+/**
+ * 복원 명령 1건 발행 + 결과 대기 (CommandLog 기록, content 는 로그에서 제외)
+ */
+async function sendRestoreCommand(
+  machine: { id: string; machineId: string },
+  command: string,
+  params: Record<string, unknown>,
+  logParams: Record<string, unknown>,
+  timeoutMs: number,
+): Promise<{ correlationId: string; status: 'success' | 'failure'; result?: unknown; errorCode?: string; errorMessage?: string }> {
+  const correlationId = `restore-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  await prisma.commandLog.create({
+    data: {
+      correlationId,
+      machineId: machine.id,
+      command,
+      params: logParams as Prisma.InputJsonValue,
+      status: 'PENDING',
+    },
+  });
+  await mqttService.sendCommand(machine.machineId, command, correlationId, params);
+  try {
+    return { correlationId, ...(await commandWaiter.wait(correlationId, timeoutMs)) };
+  } catch {
+    await prisma.commandLog.updateMany({
+      where: { correlationId, status: { in: ['PENDING', 'RECEIVED'] } },
+      data: { status: 'TIMEOUT', completedAt: new Date() },
+    });
+    return { correlationId, status: 'failure', errorCode: 'TIMEOUT', errorMessage: 'Agent 응답 시간 초과' };
+  }
+}
+
+function interlockMessage(interlock: InterlockResult): string {
+  return interlock.checks
+    .filter((c) => !c.ok)
+    .map((c) => (c.detail ? `${c.label} (${c.detail})` : c.label))
+    .join(', ');
+}
+
+// 복원 권한은 백업 대상 장비 범위로 평가
+const backupMachine: MachineRefResolver = async (req) =>
+  (await prisma.backup.findUnique({ where: { id: req.params.backupId }, select: { machineDbId: true } }))?.machineDbId;
+
+/**
+ * POST /api/backup/:backupId/restore
+ * 백업 → CNC 복원. body: { scope, programNos?, dryRun?, sessionId? }
+ *   scope: programs | parameters | all, programNos: 특정 O번호만 (programs / all)
+ *   dryRun: 덮어쓸 프로그램(현재 CNC 목록 기준) / 변경될 파라미터(최근 파라미터 백업 기준)만 반환
+ * 실행 조건: 제어권 (타인 보유 시 409, 미보유 시 복원 동안 자동 획득) + EDIT 모드·정지·템플릿 백업 인터락
+ *   단계마다 제어권 재확인 (자동 획득분은 TTL 연장) — 상실 시 남은 단계 중단
+ *   기존 프로그램 덮어쓰기는 Agent 가 임시 O번호 업로드 → 기존 삭제 → 번호 변경으로 처리,
+ *   원본이 삭제된 채 끝났을 수 있는 단계(ORIGINAL_AT_RISK / 응답 없음)는 atRisk 로 보고
+ * 각 단계는 CommandLog + 감사 로그 (backup.restore.start / step / complete) 기록
+ */
+router.post('/:backupId/restore', authenticate, requirePermission('backup.restore', backupMachine), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { backupId } = req.params;
-    const backup = backupRecords.get(backupId);
+    const { scope, programNos, dryRun = false, sessionId } = req.body as {
+      scope?: RestoreScope;
+      programNos?: string[];
+      dryRun?: boolean;
+      sessionId?: string;
+    };
+
+    if (!scope || !RESTORE_SCOPES.includes(scope)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_INPUT', message: '복원 범위(programs / parameters / all)를 지정하세요' },
+      });
+    }
+    if (programNos !== undefined && (!Array.isArray(programNos) || programNos.some((no) => typeof no !== 'string'))) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_INPUT', message: 'programNos 는 O번호 문자열 배열이어야 합니다' },
+      });
+    }
+
+    const backup = await prisma.backup.findUnique({
+      where: { id: backupId },
+      include: { ...BACKUP_INCLUDE, machine: { select: { id: true, machineId: true, name: true, templateId: true } } },
+    });
+    if (!backup) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'BACKUP_NOT_FOUND', message: '백업을 찾을 수 없습니다' },
+      });
+    }
+    const { machine } = backup;
+
+    const zip = await readBackupZip(backup);
+    if (backup.checksum && crypto.createHash('sha256').update(zip).digest('hex') !== backup.checksum) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'BACKUP_CHECKSUM_MISMATCH', message: '백업 파일 체크섬이 일치하지 않아 복원할 수 없습니다' },
+      });
+    }
+    const contents = loadBackupContents(zip);
+
+    // 복원 대상 결정
+    const wantPrograms = scope === 'programs' || scope === 'all';
+    const wantParameters = scope === 'parameters' || scope === 'all';
+
+    let programTargets: string[] = [];
+    if (wantPrograms) {
+      if (contents.programs.size === 0) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'NO_PROGRAM_CONTENT', message: '프로그램 본문이 없는 백업입니다 (EDIT 모드에서 받은 프로그램 / 전체 백업 필요)' },
+        });
+      }
+      if (programNos && programNos.length > 0) {
+        const missing = programNos.filter((no) => !contents.programs.has(no));
+        if (missing.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: { code: 'PROGRAM_NOT_IN_BACKUP', message: `백업에 없는 프로그램입니다: ${missing.join(', ')}` },
+          });
+        }
+        programTargets = [...new Set(programNos)];
+      } else {
+        programTargets = [...contents.programs.keys()];
+      }
+    }
+    if (wantParameters && !contents.parameterText) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'NO_PARAMETER_CONTENT', message: '파라미터 덤프가 없는 백업입니다 (파라미터 / 전체 백업 필요)' },
+      });
+    }
+
+    const lock = await redisService.getControlLock(machine.machineId);
+    const lockHeldByOther = !!lock && lock.ownerId !== req.user!.id;
+    const interlock = await checkRestoreInterlock(machine);
+
+    // ── Dry-run: 덮어쓸 대상만 계산 ────────────────────────────
+    if (dryRun) {
+      let cncPrograms: string[] | null = null;
+      if (wantPrograms && interlock.checks.find((c) => c.id === 'online')?.ok) {
+        const listed = await sendRestoreCommand(machine, 'LIST_PROGRAMS', {}, { backupId, dryRun: true }, LIST_PROGRAMS_TIMEOUT_MS);
+        if (listed.status === 'success') {
+          const r = listed.result as { programs?: { programNo?: string; name?: string }[] } | undefined;
+          cncPrograms = (r?.programs ?? []).map((p) => p.programNo ?? p.name ?? '').filter(Boolean);
+        }
+      }
+
+      // 파라미터: 같은 장비의 최근 완료 파라미터 백업을 현재 값으로 간주
+      let parameterPreview: {
+        count: number;
+        baseline: ReturnType<typeof toBackupDto> | null;
+        changes: ReturnType<typeof diffParameters>;
+      } | null = null;
+      if (wantParameters && contents.parameters) {
+        const latest = await prisma.backup.findFirst({
+          where: {
+            machineDbId: backup.machineDbId,
+            id: { not: backup.id },
+            type: { in: [...PARAMETER_BACKUP_TYPES] },
+            status: 'COMPLETED',
+            prunedAt: null,
+          },
+          orderBy: { createdAt: 'desc' },
+          include: BACKUP_INCLUDE,
+        });
+        let baselineParams = null;
+        if (latest) {
+          try {
+            baselineParams = loadBackupContents(await readBackupZip(latest)).parameters;
+          } catch {
+            baselineParams = null;
+          }
+        }
+        parameterPreview = {
+          count: contents.parameters.size,
+          baseline: latest && baselineParams ? toBackupDto(latest, machine.machineId) : null,
+          changes: baselineParams ? diffParameters(baselineParams, contents.parameters) : [],
+        };
+      }
+
+      await createAuditLog({
+        userId: req.user!.id,
+        userRole: req.user!.role,
+        action: 'backup.restore.dryrun',
+        targetType: 'machine',
+        targetId: machine.machineId,
+        params: { backupId, scope, programNos: programTargets },
+        result: 'success',
+        ipAddress: req.ip || 'unknown',
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          dryRun: true,
+          backup: toBackupDto(backup, machine.machineId),
+          scope,
+          programs: programTargets.map((programNo) => ({
+            programNo,
+            action: cncPrograms === null ? 'unknown' : cncPrograms.includes(programNo) ? 'overwrite' : 'create',
+            lineCount: contents.programs.get(programNo)!.replace(/\r\n/g, '\n').split('\n').length,
+          })),
+          cncListAvailable: cncPrograms !== null,
+          parameters: parameterPreview,
+          interlock,
+          lock: lock ? { ownerUsername: lock.ownerUsername, heldByOther: lockHeldByOther } : null,
+          canRestore: interlock.ok && !lockHeldByOther,
+        },
+      });
+    }
+
+    // ── 실행 ────────────────────────────────────────────────────
+    if (lockHeldByOther) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'LOCK_CONFLICT', message: `${lock!.ownerUsername}님이 제어권을 보유 중입니다.` },
+      });
+    }
+    if (!interlock.ok) {
+      await createAuditLog({
+        userId: req.user!.id,
+        userRole: req.user!.role,
+        action: 'backup.restore.start',
+        targetType: 'machine',
+        targetId: machine.machineId,
+        params: { backupId, scope, programNos: programTargets, interlock: interlock.checks },
+        result: 'failure',
+        errorMsg: 'INTERLOCK_FAILED',
+        ipAddress: req.ip || 'unknown',
+      });
+      return res.status(409).json({
+        success: false,
+        error: { code: 'INTERLOCK_FAILED', message: `복원 조건이 충족되지 않았습니다: ${interlockMessage(interlock)}` },
+      });
+    }
+
+    // 제어권 미보유 시 복원 동안 획득 → 종료 후 반납
+    let acquiredLock: ControlLock | null = null;
+    if (!lock) {
+      const lockSessionId = sessionId || `restore-${backupId}`;
+      const acquired = await redisService.acquireControlLock(
+        machine.machineId, req.user!.id, req.user!.username, lockSessionId, RESTORE_LOCK_TTL_SEC,
+      );
+      if (!acquired) {
+        return res.status(409).json({
+          success: false,
+          error: { code: 'LOCK_FAILED', message: '제어권 획득에 실패했습니다.' },
+        });
+      }
+      acquiredLock = await redisService.getControlLock(machine.machineId);
+      await prisma.controlLockLog.create({
+        data: { machineId: machine.machineId, event: 'ACQUIRED', ownerId: req.user!.id, sessionId: lockSessionId },
+      });
+    }
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'backup.restore.start',
+      targetType: 'machine',
+      targetId: machine.machineId,
+      params: { backupId, scope, programNos: programTargets, parameters: wantParameters },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    const plan: { kind: RestoreStep['kind']; target: string }[] = [
+      ...programTargets.map((programNo) => ({ kind: 'program' as const, target: programNo })),
+      ...(wantParameters ? [{ kind: 'parameters' as const, target: 'parameters' }] : []),
+    ];
+    const steps: RestoreStep[] = [];
+    const atRisk: string[] = [];      // 원본 프로그램이 삭제된 채 남았을 수 있는 O번호
+    let aborted: string | null = null;
+
+    try {
+      for (const item of plan) {
+        if (aborted) {
+          steps.push({ ...item, correlationId: '', status: 'skipped' });
+          continue;
+        }
+
+        // 제어권 유지 확인 — 긴 복원이 자동 획득 TTL 을 넘지 않도록 단계마다 연장
+        const holdsLock = acquiredLock
+          ? await redisService.extendControlLock(machine.machineId, req.user!.id, RESTORE_LOCK_TTL_SEC)
+          : (await redisService.getControlLock(machine.machineId))?.ownerId === req.user!.id;
+        if (!holdsLock) {
+          aborted = '복원 중 제어권을 상실했습니다';
+          steps.push({ ...item, correlationId: '', status: 'skipped' });
+          continue;
+        }
+
+        // 단계마다 재확인 — 복원 중 운전 시작 / 모드 변경 시 중단
+        const recheck = await checkRestoreInterlock(machine);
+        if (!recheck.ok) {
+          aborted = `복원 조건 해제: ${interlockMessage(recheck)}`;
+          steps.push({ ...item, correlationId: '', status: 'skipped' });
+          continue;
+        }
+
+        const sent = item.kind === 'program'
+          ? await sendRestoreCommand(
+              machine,
+              'UPLOAD_PROGRAM',
+              {
+                programNo: item.target,
+                fileName: `${item.target}.nc`,
+                content: contents.programs.get(item.target)!,
+                overwrite: true,
+              },
+              { backupId, programNo: item.target, overwrite: true },
+              RESTORE_STEP_TIMEOUT_MS,
+            )
+          : await sendRestoreCommand(
+              machine,
+              'RESTORE_PARAMETERS',
+              { content: contents.parameterText! },
+              { backupId, parameterCount: contents.parameters?.size ?? 0 },
+              RESTORE_STEP_TIMEOUT_MS,
+            );
+
+        const step: RestoreStep = {
+          ...item,
+          correlationId: sent.correlationId,
+          status: sent.status,
+          errorCode: sent.errorCode,
+          errorMessage: sent.errorMessage,
+        };
+        steps.push(step);
+
+        await createAuditLog({
+          userId: req.user!.id,
+          userRole: req.user!.role,
+          action: 'backup.restore.step',
+          targetType: 'machine',
+          targetId: machine.machineId,
+          params: { backupId, kind: step.kind, target: step.target, correlationId: step.correlationId },
+          result: step.status === 'success' ? 'success' : 'failure',
+          errorMsg: step.errorMessage,
+          ipAddress: req.ip || 'unknown',
+        });
+
+        if (step.status === 'failure') {
+          if (step.kind === 'program' && (step.errorCode === 'ORIGINAL_AT_RISK' || step.errorCode === 'TIMEOUT')) {
+            atRisk.push(step.target);
+          }
+          aborted = `${step.target} 복원 실패: ${step.errorMessage ?? step.errorCode ?? '알 수 없는 오류'}`;
+        }
+      }
+    } finally {
+      if (acquiredLock) {
+        const released = await redisService.releaseControlLock(machine.machineId, req.user!.id);
+        if (released) {
+          await prisma.controlLockLog.create({
+            data: { machineId: machine.machineId, event: 'RELEASED', ownerId: req.user!.id, sessionId: acquiredLock.sessionId },
+          });
+        }
+      }
+    }
+
+    const restored = steps.filter((s) => s.status === 'success').length;
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'backup.restore.complete',
+      targetType: 'machine',
+      targetId: machine.machineId,
+      params: { backupId, scope, total: plan.length, restored, atRisk },
+      result: aborted ? 'failure' : 'success',
+      errorMsg: aborted ?? undefined,
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({
+      success: true,
+      data: {
+        dryRun: false,
+        backup: toBackupDto(backup, machine.machineId),
+        scope,
+        completed: !aborted,
+        abortReason: aborted,
+        restored,
+        total: plan.length,
+        atRisk,
+        steps,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const UPLOADABLE_STATUSES: BackupStatus[] = ['PENDING', 'IN_PROGRESS'];
+
+/**
+ * 업로드 인증 — Agent: CREATE_BACKUP 으로 받은 X-Upload-Token (백업별 1회용)
+ *             사용자: 다른 백업 라우트와 같은 JWT + 대상 장비 backup.create
+ */
+async function authenticateUpload(req: Request, res: Response, next: NextFunction) {
+  const token = req.headers['x-upload-token'];
+  if (typeof token !== 'string') {
+    return authenticate(req, res, (err?: unknown) => {
+      if (err) return next(err);
+      return requirePermission('backup.create', backupMachine)(req, res, next);
+    });
+  }
+  try {
+    const backup = await prisma.backup.findUnique({ where: { id: req.params.backupId }, select: { uploadTokenHash: true } });
+    const expected = backup?.uploadTokenHash ? Buffer.from(backup.uploadTokenHash, 'hex') : null;
+    const actual = Buffer.from(hashUploadToken(token), 'hex');
+    if (!expected || !crypto.timingSafeEqual(expected, actual)) {
+      return res.status(401).json({ success: false, error: { code: 'INVALID_UPLOAD_TOKEN', message: '업로드 토큰이 올바르지 않습니다' } });
+    }
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+}
+
+/**
+ * POST /api/backup/:backupId/upload
+ * Agent → Server: 백업 파일 업로드 완료
+ *   PENDING / IN_PROGRESS 백업만 — 완료 후 재업로드는 409 (기록된 체크섬은 최초 업로드 기준으로 고정)
+ */
+router.post('/:backupId/upload', authenticateUpload, upload.single('file'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { backupId } = req.params;
+    const backup = await prisma.backup.findUnique({
+      where: { id: backupId },
+      include: { machine: { select: { machineId: true } } },
+    });
     if (!backup) {
       return res.status(404).json({ success: false, error: { code: 'BACKUP_NOT_FOUND' } });
     }
+    if (!UPLOADABLE_STATUSES.includes(backup.status)) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'BACKUP_NOT_UPLOADABLE', message: `업로드할 수 없는 백업 상태입니다 (${backup.status})` },
+      });
+    }
 
     const file = req.file;
     if (!file) {
       return res.status(400).json({ success: false, error: { code: 'NO_FILE' } });
     }
 
-    // backup/ 디렉토리에 저장
-    await fs.mkdir(BACKUP_DIR, { recursive: true });
-    const filePath = path.join(BACKUP_DIR, backup.fileName);
-    await fs.writeFile(filePath, file.buffer);
+    // backup/<machineId>/ 디렉토리에 저장
+    const relativePath = path.join(backup.machine.machineId, path.basename(backup.fileName));
+    const filePath = resolveBackupPath(relativePath);
+    if (!filePath) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PATH' } });
+    }
+    // 임시 파일에 쓰고 상태 전이(동시 업로드 중 하나만 성공)가 된 경우에만 본 파일로 교체
+    const tempPath = `${filePath}.upload-${crypto.randomBytes(4).toString('hex')}`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, file.buffer);
 
-    backup.status   = 'COMPLETED';
-    backup.fileSize = file.buffer.length;
-    backup.filePath = filePath;
-    backup.completedAt = new Date();
+    const checksum = crypto.createHash('sha256').update(file.buffer).digest('hex');
 
-    res.json({ success: true, data: { backupId, fileSize: file.buffer.length } });
+    const { count } = await prisma.backup.updateMany({
+      where: { id: backupId, status: { in: UPLOADABLE_STATUSES } },
+      data: {
+        status: 'COMPLETED',
+        fileSize: file.buffer.length,
+        filePath: relativePath,
+        checksum,
+        completedAt: new Date(),
+        errorMessage: null,
+        uploadTokenHash: null,
+      },
+    });
+    if (count === 0) {
+      await fs.rm(tempPath, { force: true });
+      return res.status(409).json({
+        success: false,
+        error: { code: 'BACKUP_NOT_UPLOADABLE', message: '이미 완료되었거나 실패한 백업입니다' },
+      });
+    }
+    await fs.rename(tempPath, filePath);
+
+    // 업로드 직후 해당 장비 보존 정책 적용
+    backupRetention.prune(backup.machineDbId).catch((err) => {
+      console.error('[Backup] Prune after upload failed:', err);
+    });
+
+    res.json({ success: true, data: { backupId, fileSize: file.buffer.length, checksum } });
   } catch (error) {
     next(error);
   }
 });
 
-// Update backup status (called by agent via internal API)
-export function updateBackupStatus(
+/**
+ * Agent CREATE_BACKUP 결과 반영 (index.ts COMMAND_RESULT 핸들러에서 호출)
+ * 성공: Agent 보고값(programCount, editMode) 기록 — 파일 자체는 업로드 API 에서 완료 처리
+ * 실패: FAILED + 오류 메시지 (스케줄 백업이면 실패 알림)
+ */
+export async function handleBackupResult(
   backupId: string,
-  status: BackupRecord['status'],
-  details?: { fileSize?: number; filePath?: string; errorMessage?: string }
-): void {
-  const backup = backupRecords.get(backupId);
-  if (backup) {
-    backup.status = status;
-    if (status === 'COMPLETED') {
-      backup.completedAt = new Date();
-    }
-    if (details) {
-      if (details.fileSize) backup.fileSize = details.fileSize;
-      if (details.filePath) backup.filePath = details.filePath;
-      if (details.errorMessage) backup.errorMessage = details.errorMessage;
+  status: string,
+  result?: unknown,
+  errorCode?: string,
+  errorMessage?: string,
+): Promise<void> {
+  try {
+    const r = (result && typeof result === 'object' ? result : {}) as Record<string, unknown>;
+
+    if (status === 'success') {
+      await prisma.backup.updateMany({
+        where: { id: backupId },
+        data: {
+          programCount: typeof r['programCount'] === 'number' ? r['programCount'] : undefined,
+          editMode: typeof r['editMode'] === 'boolean' ? r['editMode'] : undefined,
+        },
+      });
+      return;
+    }
+
+    const reason = errorMessage ?? errorCode ?? 'Agent 백업 실패';
+    const { count } = await prisma.backup.updateMany({
+      where: { id: backupId, status: { in: ['PENDING', 'IN_PROGRESS'] } },
+      data: {
+        status: 'FAILED',
+        errorMessage: reason,
+        completedAt: new Date(),
+      },
+    });
+    if (count === 0) return;
+
+    const backup = await prisma.backup.findUnique({
+      where: { id: backupId },
+      include: { schedule: true, machine: { select: { machineId: true } } },
+    });
+    if (backup?.schedule) {
+      await notifyScheduledBackupFailure({
+        schedule: backup.schedule,
+        machineId: backup.machine.machineId,
+        type: backup.type,
+        backupId,
+        reason,
+      });
     }
+  } catch (err) {
+    console.error('[Backup] Failed to record backup result:', err);
   }
 }
 
@@ -0,0 +1,480 @@
+// Backup Schedule Routes - 자동 백업 스케줄 (cron) + 실행기
+//
+// 실행 흐름 (TICK_MS 주기):
+//   1. 무응답 백업 만료 → 스케줄 백업이면 실패 알림
+//   2. nextRunAt 도래 스케줄 → 대상 장비별 실행 대기열 등록, nextRunAt 갱신
+//   3. 대기열 처리: 오프라인 / 가동 중 / 백업 진행 중이면 retryIntervalMin 후 재시도,
+//      maxRetries 초과 시 실패 알림 (WS backup_failed + 감사 로그)
+//      가능하면 CREATE_BACKUP 발행 (requestBackup)
+//
+// 대기열은 메모리에만 유지 — 서버 재시작 시 지난 nextRunAt 스케줄은 기동 직후 1회 실행된다.
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { BackupSchedule, BackupType, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { redisService, REDIS_KEYS } from '../lib/redis';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { parseCron, nextCronTime } from '../lib/cron';
+import { backupRetention, STALE_ERROR_MESSAGE } from '../lib/backupRetention';
+import { createAuditLog } from './audit';
+import { requestBackup, notifyScheduledBackupFailure } from './backup';
+
+const router = Router();
+
+const TICK_MS = 60_000;
+const BACKUP_TYPES: BackupType[] = ['SRAM', 'PARAMETER', 'PROGRAM', 'FULL'];
+
+const SCHEDULE_INCLUDE = {
+  machine:   { select: { machineId: true, name: true } },
+  createdBy: { select: { username: true } },
+} satisfies Prisma.BackupScheduleInclude;
+
+type ScheduleWithRelations = Prisma.BackupScheduleGetPayload<{ include: typeof SCHEDULE_INCLUDE }>;
+
+type SkipReason = 'OFFLINE' | 'RUNNING' | 'BUSY';
+
+const SKIP_REASON_LABEL: Record<SkipReason, string> = {
+  OFFLINE: '장비 오프라인',
+  RUNNING: '가동 중',
+  BUSY: '다른 백업 진행 중',
+};
+
+interface PendingRun {
+  scheduleId: string;
+  machineDbId: string;
+  machineId: string;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastReason: SkipReason | null;
+}
+
+// scheduleId:machineDbId → 실행 대기
+const pendingRuns = new Map<string, PendingRun>();
+let tickTimer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+function invalid(res: Response, message: string) {
+  return res.status(400).json({ success: false, error: { code: 'INVALID_INPUT', message } });
+}
+
+function toScheduleDto(s: ScheduleWithRelations) {
+  return {
+    id: s.id,
+    name: s.name,
+    type: s.type,
+    cron: s.cron,
+    machineId: s.machine?.machineId ?? null,
+    machineName: s.machine?.name ?? null,
+    location: s.location,
+    isEnabled: s.isEnabled,
+    retryIntervalMin: s.retryIntervalMin,
+    maxRetries: s.maxRetries,
+    lastRunAt: s.lastRunAt,
+    nextRunAt: s.nextRunAt,
+    createdBy: s.createdBy.username,
+    createdAt: s.createdAt,
+    pending: [...pendingRuns.values()]
+      .filter((p) => p.scheduleId === s.id)
+      .map((p) => ({
+        machineId: p.machineId,
+        attempts: p.attempts,
+        nextAttemptAt: p.nextAttemptAt,
+        lastReason: p.lastReason ? SKIP_REASON_LABEL[p.lastReason] : null,
+      })),
+  };
+}
+
+interface ScheduleInput {
+  name?: string;
+  type?: BackupType;
+  cron?: string;
+  machineId?: string | null;
+  location?: string | null;
+  isEnabled?: boolean;
+  retryIntervalMin?: number;
+  maxRetries?: number;
+}
+
+// 입력 검증 — 오류 메시지 또는 null (partial: 수정 시 누락 필드 허용)
+function validateSchedule(body: ScheduleInput, partial: boolean): string | null {
+  if ((!partial || body.name !== undefined) && !body.name?.trim()) return '스케줄명을 입력하세요.';
+  if ((!partial || body.type !== undefined) && !BACKUP_TYPES.includes(body.type as BackupType)) {
+    return '유효하지 않은 백업 유형입니다.';
+  }
+  if (!partial || body.cron !== undefined) {
+    const spec = parseCron(body.cron ?? '');
+    if (!spec) return 'cron 표현식이 올바르지 않습니다. (예: 0 2 * * *)';
+    if (!nextCronTime(spec, new Date())) return '실행 시각이 없는 cron 표현식입니다. (예: 2월 31일)';
+  }
+  if (body.machineId && body.location) return '장비와 위치 그룹은 동시에 지정할 수 없습니다.';
+  if (body.retryIntervalMin !== undefined
+    && (!Number.isInteger(body.retryIntervalMin) || body.retryIntervalMin < 1 || body.retryIntervalMin > 24 * 60)) {
+    return '재시도 간격은 1~1440분이어야 합니다.';
+  }
+  if (body.maxRetries !== undefined
+    && (!Number.isInteger(body.maxRetries) || body.maxRetries < 0 || body.maxRetries > 100)) {
+    return '최대 재시도 횟수는 0~100이어야 합니다.';
+  }
+  return null;
+}
+
+function computeNextRun(cron: string, after = new Date()): Date | null {
+  const spec = parseCron(cron);
+  return spec ? nextCronTime(spec, after) : null;
+}
+
+// ─── CRUD ─────────────────────────────────────────────────────
+
+/**
+ * GET /api/backup-schedules
+ * 스케줄 목록 (재시도 대기 현황 포함)
+ */
+router.get('/', authenticate, async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const schedules = await prisma.backupSchedule.findMany({
+      include: SCHEDULE_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+    res.json({ success: true, data: schedules.map(toScheduleDto) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/backup-schedules
+ * 스케줄 생성 — body: { name, type, cron, machineId? | location?, isEnabled?, retryIntervalMin?, maxRetries? }
+ */
+router.post('/', authenticate, requirePermission('backup.schedule'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const body = req.body as ScheduleInput;
+    const err = validateSchedule(body, false);
+    if (err) return invalid(res, err);
+
+    let machineDbId: string | null = null;
+    if (body.machineId) {
+      const machine = await prisma.machine.findUnique({ where: { machineId: body.machineId } });
+      if (!machine) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'MACHINE_NOT_FOUND', message: '장비를 찾을 수 없습니다' },
+        });
+      }
+      machineDbId = machine.id;
+    }
+
+    const isEnabled = body.isEnabled ?? true;
+    const schedule = await prisma.backupSchedule.create({
+      data: {
+        name: body.name!.trim(),
+        type: body.type!,
+        cron: body.cron!.trim(),
+        machineDbId,
+        location: body.location?.trim() || null,
+        isEnabled,
+        retryIntervalMin: body.retryIntervalMin,
+        maxRetries: body.maxRetries,
+        nextRunAt: isEnabled ? computeNextRun(body.cron!) : null,
+        createdById: req.user!.id,
+      },
+      include: SCHEDULE_INCLUDE,
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'backup.schedule.create',
+      targetType: 'backupSchedule',
+      targetId: schedule.id,
+      params: { name: schedule.name, type: schedule.type, cron: schedule.cron, machineId: body.machineId ?? null, location: schedule.location },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.status(201).json({ success: true, data: toScheduleDto(schedule) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/backup-schedules/:id
+ * 스케줄 수정 (cron / 활성 변경 시 nextRunAt 재계산)
+ */
+router.put('/:id', authenticate, requirePermission('backup.schedule'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const body = req.body as ScheduleInput;
+    const err = validateSchedule(body, true);
+    if (err) return invalid(res, err);
+
+    const existing = await prisma.backupSchedule.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, error: { code: 'SCHEDULE_NOT_FOUND', message: '스케줄을 찾을 수 없습니다.' } });
+    }
+
+    const data: Prisma.BackupScheduleUncheckedUpdateInput = {};
+    if (body.name !== undefined) data.name = body.name.trim();
+    if (body.type !== undefined) data.type = body.type;
+    if (body.cron !== undefined) data.cron = body.cron.trim();
+    if (body.retryIntervalMin !== undefined) data.retryIntervalMin = body.retryIntervalMin;
+    if (body.maxRetries !== undefined) data.maxRetries = body.maxRetries;
+    if (body.isEnabled !== undefined) data.isEnabled = body.isEnabled;
+
+    // 대상 변경: machineId / location 중 하나만 유지
+    if (body.machineId !== undefined) {
+      if (body.machineId) {
+        const machine = await prisma.machine.findUnique({ where: { machineId: body.machineId } });
+        if (!machine) {
+          return res.status(404).json({
+            success: false,
+            error: { code: 'MACHINE_NOT_FOUND', message: '장비를 찾을 수 없습니다' },
+          });
+        }
+        data.machineDbId = machine.id;
+        data.location = null;
+      } else {
+        data.machineDbId = null;
+      }
+    }
+    if (body.location !== undefined) {
+      data.location = body.location?.trim() || null;
+      if (data.location) data.machineDbId = null;
+    }
+
+    const isEnabled = body.isEnabled ?? existing.isEnabled;
+    if (body.cron !== undefined || body.isEnabled !== undefined) {
+      data.nextRunAt = isEnabled ? computeNextRun(body.cron ?? existing.cron) : null;
+    }
+
+    const schedule = await prisma.backupSchedule.update({ where: { id }, data, include: SCHEDULE_INCLUDE });
+    if (!schedule.isEnabled) dropPending(id);
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'backup.schedule.update',
+      targetType: 'backupSchedule',
+      targetId: id,
+      params: { ...body },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: toScheduleDto(schedule) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/backup-schedules/:id
+ * 스케줄 삭제 (생성된 백업 이력은 유지)
+ */
+router.delete('/:id', authenticate, requirePermission('backup.schedule'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const existing = await prisma.backupSchedule.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, error: { code: 'SCHEDULE_NOT_FOUND', message: '스케줄을 찾을 수 없습니다.' } });
+    }
+
+    await prisma.backupSchedule.delete({ where: { id } });
+    dropPending(id);
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'backup.schedule.delete',
+      targetType: 'backupSchedule',
+      targetId: id,
+      params: { name: existing.name },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/backup-schedules/:id/run
+ * 즉시 실행 — 대상 장비를 실행 대기열에 등록 (가동 중/오프라인 규칙 동일 적용)
+ */
+router.post('/:id/run', authenticate, requirePermission('backup.schedule'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const schedule = await prisma.backupSchedule.findUnique({ where: { id } });
+    if (!schedule) {
+      return res.status(404).json({ success: false, error: { code: 'SCHEDULE_NOT_FOUND', message: '스케줄을 찾을 수 없습니다.' } });
+    }
+
+    const queued = await enqueueSchedule(schedule);
+    void processPending();
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'backup.schedule.run',
+      targetType: 'backupSchedule',
+      targetId: id,
+      params: { name: schedule.name, machines: queued },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: { queued } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ─── 실행기 ───────────────────────────────────────────────────
+
+function dropPending(scheduleId: string): void {
+  for (const [key, run] of pendingRuns) {
+    if (run.scheduleId === scheduleId) pendingRuns.delete(key);
+  }
+}
+
+// 스케줄 대상 장비 → 대기열 등록 (이미 대기 중이면 유지), 등록된 장비 수 반환
+async function enqueueSchedule(schedule: BackupSchedule): Promise<number> {
+  const machines = await prisma.machine.findMany({
+    where: {
+      isActive: true,
+      ...(schedule.machineDbId ? { id: schedule.machineDbId } : {}),
+      ...(schedule.location ? { location: schedule.location } : {}),
+    },
+    select: { id: true, machineId: true },
+  });
+
+  const now = new Date();
+  for (const m of machines) {
+    const key = `${schedule.id}:${m.id}`;
+    if (pendingRuns.has(key)) continue;
+    pendingRuns.set(key, {
+      scheduleId: schedule.id,
+      machineDbId: m.id,
+      machineId: m.machineId,
+      attempts: 0,
+      nextAttemptAt: now,
+      lastReason: null,
+    });
+  }
+  return machines.length;
+}
+
+// 백업 가능 여부 — 불가 사유 또는 null
+async function checkMachine(run: PendingRun): Promise<SkipReason | null> {
+  const telemetry = await redisService.get<{ runState?: number }>(REDIS_KEYS.MACHINE_TELEMETRY(run.machineId));
+  if (!telemetry) return 'OFFLINE';
+  if (telemetry.runState === 2 || telemetry.runState === 3) return 'RUNNING';
+
+  const inFlight = await prisma.backup.count({
+    where: { machineDbId: run.machineDbId, status: { in: ['PENDING', 'IN_PROGRESS'] } },
+  });
+  return inFlight > 0 ? 'BUSY' : null;
+}
+
+async function processPending(): Promise<void> {
+  const now = new Date();
+
+  for (const [key, run] of pendingRuns) {
+    if (run.nextAttemptAt > now) continue;
+
+    const schedule = await prisma.backupSchedule.findUnique({ where: { id: run.scheduleId } });
+    if (!schedule || !schedule.isEnabled) {
+      pendingRuns.delete(key);
+      continue;
+    }
+
+    const reason = await checkMachine(run);
+    if (!reason) {
+      pendingRuns.delete(key);
+      try {
+        await requestBackup({ id: run.machineDbId, machineId: run.machineId }, schedule.type, null, schedule.id);
+      } catch (err) {
+        console.error(`[BackupSchedule] Failed to request backup for ${run.machineId}:`, err);
+        await notifyScheduledBackupFailure({
+          schedule,
+          machineId: run.machineId,
+          type: schedule.type,
+          reason: '백업 명령 발행 실패',
+        });
+      }
+      continue;
+    }
+
+    run.attempts++;
+    run.lastReason = reason;
+    if (run.attempts > schedule.maxRetries) {
+      pendingRuns.delete(key);
+      await notifyScheduledBackupFailure({
+        schedule,
+        machineId: run.machineId,
+        type: schedule.type,
+        reason: `재시도 ${schedule.maxRetries}회 초과 (${SKIP_REASON_LABEL[reason]})`,
+      });
+    } else {
+      run.nextAttemptAt = new Date(now.getTime() + schedule.retryIntervalMin * 60_000);
+    }
+  }
+}
+
+async function tick(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  try {
+    // 1. Agent 무응답 백업 만료
+    const stale = await backupRetention.expireStale();
+    for (const b of stale) {
+      if (!b.schedule) continue;
+      await notifyScheduledBackupFailure({
+        schedule: b.schedule,
+        machineId: b.machine.machineId,
+        type: b.type,
+        backupId: b.id,
+        reason: STALE_ERROR_MESSAGE,
+      });
+    }
+
+    // 2. 실행 시각 도래 스케줄
+    const now = new Date();
+    const due = await prisma.backupSchedule.findMany({
+      where: { isEnabled: true, OR: [{ nextRunAt: { lte: now } }, { nextRunAt: null }] },
+    });
+    for (const schedule of due) {
+      const nextRunAt = computeNextRun(schedule.cron, now);
+      if (schedule.nextRunAt) await enqueueSchedule(schedule);
+      await prisma.backupSchedule.update({
+        where: { id: schedule.id },
+        data: { nextRunAt, ...(schedule.nextRunAt ? { lastRunAt: now } : {}) },
+      });
+    }
+
+    // 3. 대기열 처리
+    await processPending();
+  } catch (err) {
+    console.error('[BackupSchedule] Tick failed:', err);
+  } finally {
+    ticking = false;
+  }
+}
+
+export function startBackupScheduler(): void {
+  if (tickTimer) return;
+  void tick();
+  tickTimer = setInterval(() => { void tick(); }, TICK_MS);
+}
+
+export function stopBackupScheduler(): void {
+  if (tickTimer) {
+    clearInterval(tickTimer);
+    tickTimer = null;
+  }
+  pendingRuns.clear();
+}
+
+export default router;
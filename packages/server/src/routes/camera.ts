@@ -1,254 +1,411 @@
-// Camera Routes — RTSP → MJPEG 프록시 스트림
+// Camera Routes — 카메라 스트림 게이트웨이 (lib/cameraGateway)
 //
 // [설계 정책]
-// - 카메라 ID당 FFmpeg 프로세스 1개 (단일 뷰어)
-// - force=true: 기존 스트림 강제 종료 후 새 스트림 시작
-// - force 없음: 409 BUSY 반환
-// - 기존 클라이언트 res를 명시적으로 destroy — onError 확실히 발동
+// - 카메라당 RTSP 수신 1개를 다중 뷰어에 분배 (BUSY 없음 — 관리자 / 오퍼레이터 동시 시청)
+// - /stream      : MJPEG (<img>) — 기존 클라이언트 호환, force 파라미터는 무시
+// - /stream.mp4  : fragmented MP4 (MSE) — 저지연, 영상 재인코딩 없음
+// - /webrtc/offer: 시그널링 — 현재 WebRTC 미디어 스택 없음 → fMP4 전송 경로 응답
+// - 첫 뷰어 접속 시 기동, 마지막 뷰어 이탈 후 유휴 시간 경과 시 종료
+// - 장비 할당 카메라는 상시 수신 (알람 클립 — lib/cameraRecorder), /snapshot 으로 현재 프레임
+// - 설정은 cameras 테이블 (lib/cameraConfig, 비밀번호 암호화) — 등록 / 수정 / 삭제는 camera.manage
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { verifyAccessToken, extractBearerToken } from '../auth/jwt';
+import { isAccountCurrent } from '../auth/account';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { cameraGateway, CameraConfig, CameraErrorCode, ViewerKind } from '../lib/cameraGateway';
+import { loadCameraConfig, toCameraConfig, toCameraDto, CAMERA_INCLUDE } from '../lib/cameraConfig';
+import { encryptSecret } from '../lib/credentials';
+import { cameraRecorder, resolveClipPath } from '../lib/cameraRecorder';
+import { cameraHealth } from '../lib/cameraHealth';
+import { createAuditLog } from './audit';
 
-// eslint-disable-next-line @typescript-eslint/no-require-imports
-const ffmpegPath: string | null = require('ffmpeg-static');
+export type { CameraConfig, CameraErrorCode } from '../lib/cameraGateway';
 
 const router = Router();
 
-export interface CameraConfig {
-  id: string;
-  name: string;
-  ipAddress: string;
-  rtspPort: number;
-  streamPath: string;
-  username: string;
-  password: string;
-  enabled: boolean;
-  assignedMachineId?: string;
+async function authenticateStream(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const token =
+    (req.query.token as string | undefined) ||
+    extractBearerToken(req.headers.authorization);
+  if (!token) { res.status(401).end(); return; }
+  const payload = verifyAccessToken(token);
+  if (!payload || !(await isAccountCurrent(payload).catch(() => false))) { res.status(401).end(); return; }
+  req.user = { id: payload.sub, username: payload.username, role: payload.role };
+  next();
 }
 
-export type CameraErrorCode =
-  | 'AUTH_ERROR'
-  | 'NETWORK_ERROR'
-  | 'TIMEOUT'
-  | 'STREAM_ENDED'
-  | 'BUSY'
-  | 'NOT_FOUND'
-  | 'FFMPEG_ERROR'
-  | 'INTERNAL_ERROR';
-
-// ──────────────────────────────────────────────
-// Active stream 관리 — res 참조 보유로 강제 종료 가능
-// ──────────────────────────────────────────────
-interface ActiveStream {
-  process: ChildProcessWithoutNullStreams;
-  res: Response;          // 현재 스트림을 수신 중인 HTTP 응답
-  startedAt: number;
-  clientIp: string;
+interface CameraInput {
+  name?: string;
+  ipAddress?: string;
+  rtspPort?: number;
+  streamPath?: string;
+  username?: string;
+  password?: string | null;        // 미지정 / '' = 유지, null = 삭제
+  enabled?: boolean;
+  assignedMachineId?: string | null;
+  defaultZoom?: number;
 }
-const activeStreams = new Map<string, ActiveStream>();
 
-process.on('SIGTERM', cleanupAllStreams);
-process.on('SIGINT',  cleanupAllStreams);
-function cleanupAllStreams() {
-  console.log(`[Camera] Server shutdown: cleaning up ${activeStreams.size} active stream(s)`);
-  for (const [id, stream] of activeStreams) {
-    stream.process.kill('SIGTERM');
-    if (!stream.res.writableEnded) stream.res.destroy();
-    activeStreams.delete(id);
+/**
+ * 요청 본문 → Prisma 데이터 (create 는 name / ipAddress 필수) — 오류 시 메시지 문자열
+ */
+async function parseCameraInput(body: CameraInput, create: boolean): Promise<Prisma.CameraUncheckedUpdateInput | string> {
+  const data: Prisma.CameraUncheckedUpdateInput = {};
+
+  if (create || body.name !== undefined) {
+    if (!body.name?.trim()) return '카메라 이름이 필요합니다';
+    data.name = body.name.trim();
+  }
+  if (create || body.ipAddress !== undefined) {
+    if (!body.ipAddress?.trim()) return 'IP 주소가 필요합니다';
+    data.ipAddress = body.ipAddress.trim();
+  }
+  if (body.rtspPort !== undefined) {
+    const port = Number(body.rtspPort);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) return 'RTSP 포트가 올바르지 않습니다';
+    data.rtspPort = port;
+  }
+  if (body.streamPath !== undefined) {
+    const streamPath = body.streamPath.trim();
+    data.streamPath = !streamPath || streamPath.startsWith('/') ? streamPath : `/${streamPath}`;
+  }
+  if (body.username !== undefined) data.username = body.username.trim();
+  if (body.password === null) data.passwordEnc = null;
+  else if (body.password) data.passwordEnc = encryptSecret(body.password);
+  if (body.enabled !== undefined) data.enabled = !!body.enabled;
+  if (body.defaultZoom !== undefined) {
+    const zoom = Number(body.defaultZoom);
+    if (!Number.isFinite(zoom) || zoom < 1 || zoom > 4) return '기본 배율은 1.0 ~ 4.0 이어야 합니다';
+    data.defaultZoom = zoom;
   }
+  if (body.assignedMachineId !== undefined) {
+    if (!body.assignedMachineId) {
+      data.machineDbId = null;
+    } else {
+      const machine = await prisma.machine.findUnique({ where: { machineId: body.assignedMachineId } });
+      if (!machine) return '연결할 장비를 찾을 수 없습니다';
+      data.machineDbId = machine.id;
+    }
+  }
+  return data;
 }
 
-async function getCameraConfigs(): Promise<CameraConfig[]> {
-  const row = await prisma.globalSetting.findUnique({ where: { key: 'camera.configs' } });
-  if (!row) return [];
-  return JSON.parse(row.value as string) as CameraConfig[];
+function rtspKey(c: CameraConfig): string {
+  return `${c.ipAddress}:${c.rtspPort}${c.streamPath}|${c.username}|${c.password}`;
 }
 
-// 기존 스트림 강제 종료 — res.destroy()로 클라이언트 연결 끊음 → onError 확실히 발동
-function killStream(id: string) {
-  const existing = activeStreams.get(id);
-  if (!existing) return;
-  existing.process.stdout.unpipe(existing.res);
-  existing.process.kill('SIGTERM');
-  if (!existing.res.writableEnded) existing.res.destroy();
-  activeStreams.delete(id);
-  console.log(`[Camera] Killed stream: ${id} (was running ${Date.now() - existing.startedAt}ms)`);
+/**
+ * 설정 변경 반영 — 접속 정보 변경 / 비활성 시 수신 재시작, 상시 수신 대상 갱신, 즉시 상태 점검
+ */
+async function applyCameraChange(before: CameraConfig | null, after: CameraConfig | null): Promise<void> {
+  if (before && (!after || !after.enabled || rtspKey(after) !== rtspKey(before))) {
+    cameraGateway.stop(before.id);
+  }
+  await cameraRecorder.sync();
+  if (after?.enabled && (!before || rtspKey(after) !== rtspKey(before) || !before.enabled)) {
+    void cameraHealth.check(after).catch((err) => console.error('[Camera] Health check failed:', err));
+  }
 }
 
-function authenticateStream(req: Request, res: Response, next: NextFunction): void {
-  const token =
-    (req.query.token as string | undefined) ||
-    extractBearerToken(req.headers.authorization);
-  if (!token) { res.status(401).end(); return; }
-  const payload = verifyAccessToken(token);
-  if (!payload) { res.status(401).end(); return; }
-  req.user = { id: payload.sub, username: payload.username, role: payload.role };
-  next();
+// 감사 로그용 — 비밀번호 제외
+function auditView(c: CameraConfig) {
+  return {
+    name: c.name,
+    ipAddress: c.ipAddress,
+    rtspPort: c.rtspPort,
+    streamPath: c.streamPath,
+    username: c.username,
+    enabled: c.enabled,
+    assignedMachineId: c.assignedMachineId ?? null,
+  };
 }
 
-// ──────────────────────────────────────────────
-// GET /api/camera/configs
-// ──────────────────────────────────────────────
-router.get('/configs', authenticateStream, async (_req: Request, res: Response) => {
+/**
+ * GET /api/cameras
+ * 카메라 목록 (비밀번호 제외, 최근 상태 점검 결과 포함)
+ */
+router.get('/', authenticate, async (_req: Request, res: Response, next: NextFunction) => {
   try {
-    const cameras = await getCameraConfigs();
-    const masked = cameras.map((c) => ({ ...c, password: c.password ? '●●●●●●' : '' }));
-    return res.json({ success: true, data: masked });
-  } catch (err) {
-    console.error('[Camera] GET configs error:', err);
-    return res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR', message: '카메라 설정 조회 실패' } });
+    const cameras = await prisma.camera.findMany({ include: CAMERA_INCLUDE, orderBy: { createdAt: 'asc' } });
+    res.json({ success: true, data: cameras.map(toCameraDto) });
+  } catch (error) {
+    next(error);
   }
 });
 
-// ──────────────────────────────────────────────
-// PUT /api/camera/configs
-// ──────────────────────────────────────────────
-router.put('/configs', authenticateStream, async (req: Request, res: Response) => {
+/**
+ * POST /api/cameras
+ * 카메라 등록
+ */
+router.post('/', authenticate, requirePermission('camera.manage'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const cameras = req.body as CameraConfig[];
-    if (!Array.isArray(cameras)) {
-      return res.status(400).json({ success: false, error: { code: 'INVALID_INPUT', message: '배열 형식이어야 합니다' } });
+    const data = await parseCameraInput(req.body as CameraInput, true);
+    if (typeof data === 'string') {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_INPUT', message: data } });
     }
-    const updatedBy = req.user?.username ?? 'unknown';
-    await prisma.globalSetting.upsert({
-      where:  { key: 'camera.configs' },
-      update: { value: JSON.stringify(cameras), updatedBy },
-      create: { key: 'camera.configs', value: JSON.stringify(cameras), updatedBy },
+
+    const camera = await prisma.camera.create({
+      data: data as Prisma.CameraUncheckedCreateInput,
+      include: CAMERA_INCLUDE,
     });
-    return res.json({ success: true });
-  } catch (err) {
-    console.error('[Camera] PUT configs error:', err);
-    return res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR', message: '카메라 설정 저장 실패' } });
+    const config = toCameraConfig(camera);
+    await applyCameraChange(null, config);
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'camera.create',
+      targetType: 'camera',
+      targetId: camera.id,
+      params: { ...auditView(config), hasPassword: !!camera.passwordEnc },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.status(201).json({ success: true, data: toCameraDto(camera) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/cameras/:id
+ * 카메라 수정 (비밀번호 미입력 시 기존 유지)
+ */
+router.put('/:id', authenticate, requirePermission('camera.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const before = await loadCameraConfig(req.params.id);
+    if (!before) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '카메라를 찾을 수 없습니다' } });
+    }
+
+    const body = req.body as CameraInput;
+    const data = await parseCameraInput(body, false);
+    if (typeof data === 'string') {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_INPUT', message: data } });
+    }
+
+    const camera = await prisma.camera.update({ where: { id: before.id }, data, include: CAMERA_INCLUDE });
+    const after = toCameraConfig(camera);
+    await applyCameraChange(before, after);
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'camera.update',
+      targetType: 'camera',
+      targetId: camera.id,
+      params: {
+        before: auditView(before),
+        after: auditView(after),
+        passwordChanged: data.passwordEnc !== undefined,
+      },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: toCameraDto(camera) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/cameras/:id
+ * 카메라 삭제 (알람 클립 이력은 유지)
+ */
+router.delete('/:id', authenticate, requirePermission('camera.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const before = await loadCameraConfig(req.params.id);
+    if (!before) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '카메라를 찾을 수 없습니다' } });
+    }
+
+    await prisma.camera.delete({ where: { id: before.id } });
+    await applyCameraChange(before, null);
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'camera.delete',
+      targetType: 'camera',
+      targetId: before.id,
+      params: auditView(before),
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: { id: before.id } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/cameras/:id/probe
+ * 즉시 상태 점검 (결과 기록 + WebSocket 전송)
+ */
+router.post('/:id/probe', authenticate, requirePermission('camera.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const camera = await loadCameraConfig(req.params.id);
+    if (!camera) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '카메라를 찾을 수 없습니다' } });
+    }
+    res.json({ success: true, data: await cameraHealth.check(camera) });
+  } catch (error) {
+    next(error);
   }
 });
 
 // ──────────────────────────────────────────────
-// GET /api/camera/:id/status
+// GET /api/camera/:id/status — 뷰어 수 (형식별) / 접속자
 // ──────────────────────────────────────────────
 router.get('/:id/status', authenticateStream, (req: Request, res: Response) => {
-  const { id } = req.params;
-  const stream = activeStreams.get(id);
   return res.json({
     success: true,
-    data: {
-      id,
-      streaming: !!stream,
-      startedAt: stream?.startedAt ?? null,
-      clientIp: stream?.clientIp ?? null,
-      totalActiveStreams: activeStreams.size,
-    },
+    data: { ...cameraGateway.status(req.params.id), totalActiveStreams: cameraGateway.activeCount },
   });
 });
 
 // ──────────────────────────────────────────────
-// GET /api/camera/:id/stream?token=xxx[&force=true]
+// GET /api/camera/:id/snapshot?token=xxx[&download=true] — 현재 프레임 JPEG
 // ──────────────────────────────────────────────
-router.get('/:id/stream', authenticateStream, async (req: Request, res: Response) => {
+router.get('/:id/snapshot', authenticateStream, async (req: Request, res: Response) => {
   const { id } = req.params;
-  const force = req.query.force === 'true';
-  const clientIp = req.ip ?? 'unknown';
 
-  if (!ffmpegPath) {
+  if (!cameraGateway.available) {
     return res.status(500).json({ success: false, error: { code: 'FFMPEG_ERROR' as CameraErrorCode, message: 'ffmpeg를 찾을 수 없습니다' } });
   }
 
   try {
-    const cameras = await getCameraConfigs();
-    const camera = cameras.find((c) => c.id === id && c.enabled);
-    if (!camera) {
+    const camera = await loadCameraConfig(id);
+    if (!camera?.enabled) {
       return res.status(404).json({ success: false, error: { code: 'NOT_FOUND' as CameraErrorCode, message: '카메라를 찾을 수 없거나 비활성 상태입니다' } });
     }
 
-    const existing = activeStreams.get(id);
-    if (existing) {
-      if (!force) {
-        console.log(`[Camera] BUSY: ${id} already streaming to ${existing.clientIp}, rejected ${clientIp}`);
-        return res.status(409).json({
-          success: false,
-          error: { code: 'BUSY' as CameraErrorCode, message: '이미 다른 클라이언트가 이 카메라를 시청 중입니다.' },
-        });
-      }
-      // force=true: 기존 클라이언트 강제 종료 후 RTSP 연결 해제 대기
-      console.log(`[Camera] Force-replacing stream: ${id} (${existing.clientIp} → ${clientIp})`);
-      killStream(id);
-      await new Promise<void>((r) => setTimeout(r, 500));
+    const frame = await cameraGateway.snapshot(camera);
+    if (!frame) {
+      return res.status(504).json({ success: false, error: { code: 'TIMEOUT' as CameraErrorCode, message: '카메라 응답 없음 (타임아웃)' } });
     }
 
-    const auth = camera.username
-      ? `${encodeURIComponent(camera.username)}:${encodeURIComponent(camera.password)}@`
-      : '';
-    const rtspUrl     = `rtsp://${auth}${camera.ipAddress}:${camera.rtspPort}${camera.streamPath}`;
-    const rtspUrlSafe = `rtsp://${camera.username ? `${camera.username}:●●●@` : ''}${camera.ipAddress}:${camera.rtspPort}${camera.streamPath}`;
-
-    const ffmpegArgs = [
-      '-loglevel', 'warning',
-      '-rtsp_transport', 'tcp',
-      '-i', rtspUrl,
-      '-vf', 'scale=1280:-2,fps=20',
-      '-q:v', '3',
-      '-threads', '4',
-      '-f', 'mpjpeg',
-      'pipe:1',
-    ];
-
-    console.log(`[Camera] Starting stream: ${id} → ${rtspUrlSafe} (client: ${clientIp})`);
-
-    const ff = spawn(ffmpegPath, ffmpegArgs);
-    activeStreams.set(id, { process: ff, res, startedAt: Date.now(), clientIp });
-
-    res.setHeader('Content-Type', 'multipart/x-mixed-replace; boundary=ffmpeg');
-    res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
-    res.setHeader('Pragma', 'no-cache');
-    res.setHeader('X-Content-Type-Options', 'nosniff');
-    res.setHeader('X-Accel-Buffering', 'no');
-
-    ff.stdout.pipe(res);
-
-    let stderrBuf = '';
-    ff.stderr.on('data', (data: Buffer) => {
-      const msg = data.toString();
-      stderrBuf += msg;
-      const trimmed = msg.trim();
-      if (trimmed) console.log(`[Camera:${id}] ${trimmed.replace(/:([^@]+)@/, ':●●●@')}`);
-
-      if (res.headersSent) return;
-
-      if (stderrBuf.includes('401') || stderrBuf.includes('Unauthorized')) {
-        ff.kill('SIGTERM');
-        activeStreams.delete(id);
-        res.status(401).json({ success: false, error: { code: 'AUTH_ERROR' as CameraErrorCode, message: '카메라 인증 실패 (ID/PW 확인)' } });
-      } else if (stderrBuf.includes('Connection refused') || stderrBuf.includes('No route to host') || stderrBuf.includes('Connection timed out')) {
-        ff.kill('SIGTERM');
-        activeStreams.delete(id);
-        res.status(502).json({ success: false, error: { code: 'NETWORK_ERROR' as CameraErrorCode, message: '카메라에 접속할 수 없습니다 (IP/포트 확인)' } });
+    res.setHeader('Content-Type', 'image/jpeg');
+    res.setHeader('Cache-Control', 'no-store');
+    if (req.query.download === 'true') {
+      const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+$/, '');
+      res.setHeader('Content-Disposition', `attachment; filename="${camera.id}_${stamp}.jpg"`);
+    }
+    return res.send(frame);
+  } catch (err) {
+    console.error('[Camera] Snapshot error:', err);
+    return res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR' as CameraErrorCode, message: '스냅샷 실패' } });
+  }
+});
+
+// ──────────────────────────────────────────────
+// GET /api/camera/clips/:clipId/video?token=xxx — 알람 클립 MP4 (Range 지원)
+// GET /api/camera/clips/:clipId/snapshot?token=xxx — 알람 시점 스냅샷
+// ──────────────────────────────────────────────
+async function sendClipFile(req: Request, res: Response, field: 'filePath' | 'snapshotPath') {
+  try {
+    const clip = await prisma.alarmClip.findUnique({ where: { id: req.params.clipId } });
+    const relativePath = clip?.[field];
+    const fullPath = relativePath ? resolveClipPath(relativePath) : null;
+    if (!fullPath) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND' as CameraErrorCode, message: '클립을 찾을 수 없습니다' } });
+    }
+    res.sendFile(fullPath, (err) => {
+      if (err && !res.headersSent) {
+        res.status(404).json({ success: false, error: { code: 'NOT_FOUND' as CameraErrorCode, message: '클립 파일이 없습니다' } });
       }
     });
+  } catch (err) {
+    console.error('[Camera] Clip error:', err);
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR' as CameraErrorCode, message: '클립 조회 실패' } });
+    }
+  }
+}
 
-    ff.on('exit', (code, signal) => {
-      console.log(`[Camera] Stream ended: ${id} (code=${code}, signal=${signal})`);
-      // 맵에 이 프로세스가 그대로 있을 때만 제거 (force 교체 후 덮어쓰인 경우 스킵)
-      if (activeStreams.get(id)?.process === ff) activeStreams.delete(id);
-      if (!res.writableEnded) res.end();
-    });
+router.get('/clips/:clipId/video', authenticateStream, (req: Request, res: Response) => sendClipFile(req, res, 'filePath'));
+router.get('/clips/:clipId/snapshot', authenticateStream, (req: Request, res: Response) => sendClipFile(req, res, 'snapshotPath'));
 
-    // 클라이언트가 먼저 연결 끊으면 FFmpeg 정리
-    req.on('close', () => {
-      // 맵에 이 프로세스가 그대로 있을 때만 정리 (force 교체 후면 스킵)
-      if (activeStreams.get(id)?.process === ff) {
-        console.log(`[Camera] Client disconnected: ${id} (${clientIp}) — killing FFmpeg`);
-        ff.kill('SIGTERM');
-        activeStreams.delete(id);
-      }
-    });
+async function openStream(req: Request, res: Response, kind: ViewerKind) {
+  const { id } = req.params;
+
+  if (!cameraGateway.available) {
+    return res.status(500).json({ success: false, error: { code: 'FFMPEG_ERROR' as CameraErrorCode, message: 'ffmpeg를 찾을 수 없습니다' } });
+  }
 
+  try {
+    const camera = await loadCameraConfig(id);
+    if (!camera?.enabled) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND' as CameraErrorCode, message: '카메라를 찾을 수 없거나 비활성 상태입니다' } });
+    }
+    // 연결 대기 중 클라이언트가 먼저 끊은 경우
+    if (req.destroyed) return;
+
+    cameraGateway.attach(camera, kind, res, {
+      username: req.user?.username ?? 'unknown',
+      clientIp: req.ip ?? 'unknown',
+    });
   } catch (err) {
     console.error('[Camera] Stream error:', err);
     if (!res.headersSent) {
       return res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR' as CameraErrorCode, message: '스트림 시작 실패' } });
     }
   }
+}
+
+// ──────────────────────────────────────────────
+// GET /api/camera/:id/stream?token=xxx — MJPEG
+// ──────────────────────────────────────────────
+router.get('/:id/stream', authenticateStream, (req: Request, res: Response) => openStream(req, res, 'mjpeg'));
+
+// ──────────────────────────────────────────────
+// GET /api/camera/:id/stream.mp4?token=xxx — fragmented MP4
+// ──────────────────────────────────────────────
+router.get('/:id/stream.mp4', authenticateStream, (req: Request, res: Response) => openStream(req, res, 'fmp4'));
+
+// ──────────────────────────────────────────────
+// POST /api/cameras/:id/webrtc/offer — 시그널링
+// 서버에 WebRTC 미디어 스택이 없어 SDP answer 대신 fMP4 전송 경로를 돌려준다.
+// 클라이언트는 webrtc=false 이면 mimeType 으로 MSE 지원 여부 확인 후 url 사용, 불가하면 fallback(MJPEG)
+// ──────────────────────────────────────────────
+router.post('/:id/webrtc/offer', authenticateStream, async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!cameraGateway.available) {
+    return res.status(500).json({ success: false, error: { code: 'FFMPEG_ERROR' as CameraErrorCode, message: 'ffmpeg를 찾을 수 없습니다' } });
+  }
+
+  try {
+    const camera = await loadCameraConfig(id);
+    if (!camera?.enabled) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND' as CameraErrorCode, message: '카메라를 찾을 수 없거나 비활성 상태입니다' } });
+    }
+
+    // 수신을 미리 기동해 코덱 확인 — 첫 뷰어의 대기 시간도 줄어듦
+    const codec = await cameraGateway.probeCodec(camera);
+    const base = `${req.baseUrl}/${encodeURIComponent(id)}`;
+
+    return res.json({
+      success: true,
+      data: {
+        webrtc: false,
+        transport: 'fmp4',
+        url: `${base}/stream.mp4`,
+        mimeType: codec ? `video/mp4; codecs="${codec}"` : null,
+        fallback: { transport: 'mjpeg', url: `${base}/stream` },
+        viewers: cameraGateway.status(id).viewers,
+      },
+    });
+  } catch (err) {
+    console.error('[Camera] Offer error:', err);
+    return res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR' as CameraErrorCode, message: '스트림 협상 실패' } });
+  }
 });
 
 export default router;
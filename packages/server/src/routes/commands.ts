@@ -7,10 +7,10 @@ import { prisma } from '../lib/prisma';
 import { mqttService, TOPICS } from '../lib/mqtt';
 import { redisService } from '../lib/redis';
 import { commandWaiter } from '../lib/commandWaiter';
-import { authenticate, authorize } from '../middleware/auth';
+import { authenticate, requirePermission, machineFromParam } from '../middleware/auth';
 import { asyncHandler } from '../middleware/error';
 import { ApiResponse } from '../types';
-import { UserRole, CommandStatus } from '@prisma/client';
+import { CommandStatus } from '@prisma/client';
 
 const router = Router();
 
@@ -22,7 +22,7 @@ router.use(authenticate);
  * Send command to machine
  */
 router.post('/:machineId',
-  authorize(UserRole.ADMIN, UserRole.HQ_ENGINEER),
+  requirePermission('command.send', machineFromParam('machineId')),
   asyncHandler(async (
     req: Request,
     res: Response<ApiResponse>
@@ -6,10 +6,9 @@ import { prisma } from '../lib/prisma';
 import { mqttService } from '../lib/mqtt';
 import { redisService, REDIS_KEYS } from '../lib/redis';
 import { wsService } from '../lib/websocket';
-import { authenticate, authorize } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { asyncHandler } from '../middleware/error';
 import { ApiResponse } from '../types';
-import { UserRole } from '@prisma/client';
 
 const router = Router();
 
@@ -45,7 +44,7 @@ interface DiagnosticsResult {
  * 전체 시스템 연결 상태 점검
  */
 router.get('/',
-  authorize(UserRole.ADMIN, UserRole.HQ_ENGINEER),
+  requirePermission('diagnostics.view'),
   asyncHandler(async (_req: Request, res: Response<ApiResponse>) => {
 
     // ── 1. Database ───────────────────────────────────────────
@@ -0,0 +1,691 @@
+// Downtime Routes - 비가동 이벤트 / 사유 코드 / Pareto
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { DowntimeReason, DowntimeTrigger, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { wsService } from '../lib/websocket';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { createAuditLog } from './audit';
+import type { TelemetryMessage } from '../lib/mqtt';
+import { loadShiftCalendar, patternFor, resolveTimeRange, TIME_RANGES, TimeRange } from '../lib/shiftCalendar';
+
+const router = Router();
+
+const EVENT_INCLUDE = {
+  machine:  { select: { machineId: true, name: true } },
+  reason:   { select: { id: true, code: true, name: true, color: true, parentId: true } },
+  taggedBy: { select: { username: true } },
+} satisfies Prisma.DowntimeEventInclude;
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+type ReasonNode = DowntimeReason & { children: ReasonNode[] };
+
+// 평면 목록 → 트리 (sortOrder, code 순)
+function buildReasonTree(reasons: DowntimeReason[]): ReasonNode[] {
+  const nodes = new Map<string, ReasonNode>(reasons.map((r) => [r.id, { ...r, children: [] }]));
+  const roots: ReasonNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+  const sort = (list: ReasonNode[]) => {
+    list.sort((a, b) => a.sortOrder - b.sortOrder || a.code.localeCompare(b.code));
+    list.forEach((n) => sort(n.children));
+  };
+  sort(roots);
+  return roots;
+}
+
+// 조회 기간: from/to 지정 → 그대로, 아니면 timeRange(기본 today) 생산일 기준
+async function resolveRange(query: Request['query'], machineDbId?: string): Promise<{ from: Date; to: Date } | null> {
+  const now = new Date();
+  let from: Date;
+  if (query.from) {
+    from = new Date(query.from as string);
+  } else {
+    const calendar = await loadShiftCalendar();
+    const range = TIME_RANGES.includes(query.timeRange as TimeRange) ? (query.timeRange as TimeRange) : 'today';
+    from = resolveTimeRange(range, patternFor(calendar, machineDbId), now).start;
+  }
+  const to = query.to ? new Date(query.to as string) : now;
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) return null;
+  return { from, to };
+}
+
+// ─── 사유 코드 트리 ───────────────────────────────────────────
+
+/**
+ * GET /api/downtime/reasons?all=1
+ * 사유 코드 트리 (기본: 사용 중인 항목만)
+ */
+router.get('/reasons', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const reasons = await prisma.downtimeReason.findMany({
+      where: req.query.all ? undefined : { isActive: true },
+    });
+    res.json({ success: true, data: buildReasonTree(reasons) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/downtime/reasons
+ * 사유 코드 추가 — body: { code, name, parentId?, color?, sortOrder? }
+ */
+router.post('/reasons', authenticate, requirePermission('downtime.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { code, name, parentId, color, sortOrder } = req.body as {
+      code?: string;
+      name?: string;
+      parentId?: string | null;
+      color?: string | null;
+      sortOrder?: number;
+    };
+
+    if (!code?.trim() || !name?.trim()) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_INPUT', message: '코드와 사유명을 입력하세요.' } });
+    }
+    if (color && !HEX_COLOR.test(color)) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_INPUT', message: '색상 형식이 올바르지 않습니다. (#RRGGBB)' } });
+    }
+    if (parentId) {
+      const parent = await prisma.downtimeReason.findUnique({ where: { id: parentId } });
+      if (!parent) {
+        return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '상위 사유를 찾을 수 없습니다.' } });
+      }
+    }
+
+    const existing = await prisma.downtimeReason.findUnique({ where: { code: code.trim() } });
+    if (existing) {
+      return res.status(409).json({ success: false, error: { code: 'DUPLICATE_CODE', message: '이미 존재하는 사유 코드입니다.' } });
+    }
+
+    const reason = await prisma.downtimeReason.create({
+      data: {
+        code: code.trim(),
+        name: name.trim(),
+        parentId: parentId || null,
+        color: color || null,
+        sortOrder: sortOrder ?? 0,
+      },
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'downtime.reason.create',
+      targetType: 'downtimeReason',
+      targetId: reason.id,
+      params: { code: reason.code, name: reason.name, parentId: reason.parentId },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.status(201).json({ success: true, data: reason });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/downtime/reasons/:id
+ * 사유 코드 수정 — body: { name?, color?, sortOrder?, isActive?, parentId? }
+ */
+router.put('/reasons/:id', authenticate, requirePermission('downtime.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { name, color, sortOrder, isActive, parentId } = req.body as {
+      name?: string;
+      color?: string | null;
+      sortOrder?: number;
+      isActive?: boolean;
+      parentId?: string | null;
+    };
+
+    const reason = await prisma.downtimeReason.findUnique({ where: { id } });
+    if (!reason) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '사유 코드를 찾을 수 없습니다.' } });
+    }
+    if (name !== undefined && !name.trim()) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_INPUT', message: '사유명을 입력하세요.' } });
+    }
+    if (color && !HEX_COLOR.test(color)) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_INPUT', message: '색상 형식이 올바르지 않습니다. (#RRGGBB)' } });
+    }
+
+    // 상위 변경 시 순환 참조 방지
+    if (parentId) {
+      let cursor: string | null = parentId;
+      while (cursor) {
+        if (cursor === id) {
+          return res.status(400).json({ success: false, error: { code: 'INVALID_INPUT', message: '하위 사유를 상위로 지정할 수 없습니다.' } });
+        }
+        const parent: { parentId: string | null } | null = await prisma.downtimeReason.findUnique({
+          where: { id: cursor },
+          select: { parentId: true },
+        });
+        if (!parent) {
+          return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '상위 사유를 찾을 수 없습니다.' } });
+        }
+        cursor = parent.parentId;
+      }
+    }
+
+    const updated = await prisma.downtimeReason.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(color !== undefined && { color: color || null }),
+        ...(sortOrder !== undefined && { sortOrder }),
+        ...(isActive !== undefined && { isActive }),
+        ...(parentId !== undefined && { parentId: parentId || null }),
+      },
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'downtime.reason.update',
+      targetType: 'downtimeReason',
+      targetId: id,
+      params: { code: reason.code, name, color, sortOrder, isActive, parentId },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/downtime/reasons/:id
+ * 사유 코드 삭제 — 이미 태깅된 이벤트가 있으면 비활성화만 (실적 보존)
+ */
+router.delete('/reasons/:id', authenticate, requirePermission('downtime.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const reason = await prisma.downtimeReason.findUnique({
+      where: { id },
+      include: { _count: { select: { events: true, children: true } } },
+    });
+    if (!reason) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '사유 코드를 찾을 수 없습니다.' } });
+    }
+
+    const inUse = reason._count.events > 0 || reason._count.children > 0;
+    if (inUse) {
+      await prisma.downtimeReason.update({ where: { id }, data: { isActive: false } });
+    } else {
+      await prisma.downtimeReason.delete({ where: { id } });
+    }
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: inUse ? 'downtime.reason.deactivate' : 'downtime.reason.delete',
+      targetType: 'downtimeReason',
+      targetId: id,
+      params: { code: reason.code, name: reason.name },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: { id, deactivated: inUse } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ─── 비가동 이벤트 ────────────────────────────────────────────
+
+/**
+ * GET /api/downtime/events?machineId&from&to&timeRange&untagged=1&limit
+ * 비가동 이벤트 목록 (기간과 겹치는 이벤트, 최신순)
+ */
+router.get('/events', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { machineId, untagged } = req.query as { machineId?: string; untagged?: string };
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+    let machineDbId: string | undefined;
+    if (machineId) {
+      const machine = await prisma.machine.findUnique({ where: { machineId } });
+      if (!machine) {
+        return res.status(404).json({ success: false, error: { code: 'MACHINE_NOT_FOUND', message: '장비를 찾을 수 없습니다.' } });
+      }
+      machineDbId = machine.id;
+    }
+
+    const range = await resolveRange(req.query, machineDbId);
+    if (!range) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_RANGE', message: '조회 기간이 올바르지 않습니다.' } });
+    }
+
+    const events = await prisma.downtimeEvent.findMany({
+      where: {
+        ...(machineDbId && { machineDbId }),
+        ...(untagged && { reasonId: null }),
+        startedAt: { lt: range.to },
+        OR: [{ endedAt: null }, { endedAt: { gt: range.from } }],
+      },
+      include: EVENT_INCLUDE,
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+
+    res.json({ success: true, data: events });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/downtime/events/:id/reason
+ * 작업자 사유 입력 — body: { reasonId: string | null, note? }
+ */
+router.put('/events/:id/reason', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { reasonId, note } = req.body as { reasonId?: string | null; note?: string };
+
+    const event = await prisma.downtimeEvent.findUnique({
+      where: { id },
+      include: { machine: { select: { machineId: true } } },
+    });
+    if (!event) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '비가동 이벤트를 찾을 수 없습니다.' } });
+    }
+
+    if (reasonId) {
+      const reason = await prisma.downtimeReason.findUnique({ where: { id: reasonId } });
+      if (!reason || !reason.isActive) {
+        return res.status(400).json({ success: false, error: { code: 'INVALID_REASON', message: '사용할 수 없는 사유 코드입니다.' } });
+      }
+    }
+
+    const updated = await prisma.downtimeEvent.update({
+      where: { id },
+      data: {
+        reasonId: reasonId || null,
+        note: note?.trim() || null,
+        taggedById: reasonId ? req.user!.id : null,
+        taggedAt: reasonId ? new Date() : null,
+      },
+      include: EVENT_INCLUDE,
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'downtime.tag',
+      targetType: 'downtimeEvent',
+      targetId: id,
+      params: { machineId: event.machine.machineId, reasonId: reasonId || null, previousReasonId: event.reasonId, note },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    wsService.sendDowntime(event.machine.machineId, 'updated', updated);
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ─── Pareto ──────────────────────────────────────────────────
+
+interface ParetoRow {
+  key: string;
+  label: string;
+  color: string | null;
+  count: number;
+  durationSec: number;
+  percent: number;
+  cumulativePercent: number;
+}
+
+// 시간 내림차순 정렬 + 비율/누적 비율
+function toPareto(groups: Map<string, Omit<ParetoRow, 'percent' | 'cumulativePercent'>>, totalSec: number): ParetoRow[] {
+  let cumulative = 0;
+  return [...groups.values()]
+    .sort((a, b) => b.durationSec - a.durationSec)
+    .map((g) => {
+      cumulative += g.durationSec;
+      return {
+        ...g,
+        durationSec: Math.round(g.durationSec),
+        percent:           totalSec > 0 ? Math.round((g.durationSec / totalSec) * 1000) / 10 : 0,
+        cumulativePercent: totalSec > 0 ? Math.round((cumulative / totalSec) * 1000) / 10 : 0,
+      };
+    });
+}
+
+/**
+ * GET /api/downtime/pareto?machineId&from&to&timeRange&level=reason|category
+ * 비가동 시간 Pareto — 사유별 / 장비별 (기간으로 잘라낸 시간 기준, 진행 중 이벤트는 현재까지)
+ *   level=category: 최상위 분류로 합산
+ */
+router.get('/pareto', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { machineId, level } = req.query as { machineId?: string; level?: string };
+
+    let machineDbId: string | undefined;
+    if (machineId) {
+      const machine = await prisma.machine.findUnique({ where: { machineId } });
+      if (!machine) {
+        return res.status(404).json({ success: false, error: { code: 'MACHINE_NOT_FOUND', message: '장비를 찾을 수 없습니다.' } });
+      }
+      machineDbId = machine.id;
+    }
+
+    const range = await resolveRange(req.query, machineDbId);
+    if (!range) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_RANGE', message: '조회 기간이 올바르지 않습니다.' } });
+    }
+
+    const [events, reasons] = await Promise.all([
+      prisma.downtimeEvent.findMany({
+        where: {
+          ...(machineDbId && { machineDbId }),
+          startedAt: { lt: range.to },
+          OR: [{ endedAt: null }, { endedAt: { gt: range.from } }],
+        },
+        select: {
+          startedAt: true,
+          endedAt: true,
+          reasonId: true,
+          machine: { select: { machineId: true, name: true } },
+        },
+      }),
+      prisma.downtimeReason.findMany(),
+    ]);
+
+    const reasonById = new Map(reasons.map((r) => [r.id, r]));
+    const rootOf = (id: string) => {
+      let r = reasonById.get(id);
+      while (r?.parentId && reasonById.has(r.parentId)) r = reasonById.get(r.parentId);
+      return r;
+    };
+
+    const now = new Date();
+    const byReason  = new Map<string, Omit<ParetoRow, 'percent' | 'cumulativePercent'>>();
+    const byMachine = new Map<string, Omit<ParetoRow, 'percent' | 'cumulativePercent'>>();
+    let totalSec = 0;
+
+    for (const ev of events) {
+      const start = ev.startedAt < range.from ? range.from : ev.startedAt;
+      const endRaw = ev.endedAt ?? now;
+      const end = endRaw > range.to ? range.to : endRaw;
+      const sec = Math.max((end.getTime() - start.getTime()) / 1000, 0);
+      if (sec <= 0) continue;
+      totalSec += sec;
+
+      const reason = ev.reasonId ? (level === 'category' ? rootOf(ev.reasonId) : reasonById.get(ev.reasonId)) : undefined;
+      const reasonKey = reason?.id ?? 'UNTAGGED';
+      const r = byReason.get(reasonKey) ?? {
+        key: reasonKey,
+        label: reason ? `${reason.code} ${reason.name}` : '미분류',
+        color: reason ? reason.color ?? rootOf(reason.id)?.color ?? null : null,
+        count: 0,
+        durationSec: 0,
+      };
+      r.count += 1;
+      r.durationSec += sec;
+      byReason.set(reasonKey, r);
+
+      const m = byMachine.get(ev.machine.machineId) ?? {
+        key: ev.machine.machineId,
+        label: ev.machine.name,
+        color: null,
+        count: 0,
+        durationSec: 0,
+      };
+      m.count += 1;
+      m.durationSec += sec;
+      byMachine.set(ev.machine.machineId, m);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        from: range.from.toISOString(),
+        to: range.to.toISOString(),
+        totalSec: Math.round(totalSec),
+        eventCount: events.length,
+        byReason: toPareto(byReason, totalSec),
+        byMachine: toPareto(byMachine, totalSec),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ─── 텔레메트리/알람 → 비가동 이벤트 자동 기록 (index.ts에서 MQTT 핸들러로 호출) ─────
+//
+//   runState STOP/HOLD 가 MIN_IDLE_SEC 이상 지속 ──▶ IDLE 이벤트 시작 (시작 시각 = 정지 시점)
+//   alarmActive / AGENT_ALARM occurred          ──▶ ALARM 이벤트 즉시 시작 (또는 IDLE → ALARM 승격)
+//   runState START/MSTR                          ──▶ 진행 중 이벤트 종료
+//   텔레메트리 OFFLINE_SEC 이상 끊김 (오프라인)   ──▶ 마지막 수신 시각으로 종료 (재연결 후 정지 중이면 새 이벤트)
+
+// runState: 0=STOP, 1=HOLD, 2=START, 3=MSTR
+const RUNNING_STATES = [2, 3];
+
+// 사이클 간 짧은 정지(소재 교환 등)는 비가동으로 보지 않음
+const MIN_IDLE_SEC = 60;
+
+// 텔레메트리 끊김 → 오프라인 판정 (Redis 텔레메트리 TTL 과 동일)
+const OFFLINE_SEC = 60;
+const OFFLINE_CHECK_MS = 30_000;
+
+interface DowntimeTracker {
+  machineDbId: string;
+  stoppedAt: Date | null;      // 마지막 정지 시점 (가동 중이면 null)
+  openEventId: string | null;
+  openAlarmNo: number | null;
+  pendingAlarmNo: number | null;
+  lastSeenAt: Date;            // 마지막 텔레메트리 수신 (오프라인 판정)
+  busy: boolean;               // DB 반영 중 (1초 주기 중복 처리 방지)
+}
+
+const trackers = new Map<string, DowntimeTracker>();   // machineId → 상태
+
+async function getTracker(machineId: string): Promise<DowntimeTracker | null> {
+  const cached = trackers.get(machineId);
+  if (cached) return cached;
+
+  const machine = await prisma.machine.findUnique({ where: { machineId }, select: { id: true } });
+  if (!machine) return null;
+
+  // 서버 재시작 시 진행 중 이벤트 이어받기
+  const open = await prisma.downtimeEvent.findFirst({
+    where: { machineDbId: machine.id, endedAt: null },
+    orderBy: { startedAt: 'desc' },
+  });
+
+  const tracker: DowntimeTracker = {
+    machineDbId: machine.id,
+    stoppedAt: open?.startedAt ?? null,
+    openEventId: open?.id ?? null,
+    openAlarmNo: open?.alarmNo ?? null,
+    pendingAlarmNo: null,
+    lastSeenAt: new Date(),
+    busy: false,
+  };
+  trackers.set(machineId, tracker);
+  return tracker;
+}
+
+/**
+ * 텔레메트리 수신 시 비가동 이벤트 시작/종료
+ */
+export async function handleDowntimeTelemetry(machineId: string, data: TelemetryMessage['data']): Promise<void> {
+  try {
+    const tracker = await getTracker(machineId);
+    if (!tracker || tracker.busy) return;
+
+    const now = new Date();
+    tracker.lastSeenAt = now;
+    const running = RUNNING_STATES.includes(data.runState);
+
+    if (running) {
+      tracker.stoppedAt = null;
+      tracker.pendingAlarmNo = null;
+      if (!tracker.openEventId) return;
+
+      tracker.busy = true;
+      try {
+        const event = await prisma.downtimeEvent.findUnique({ where: { id: tracker.openEventId } });
+        tracker.openEventId = null;
+        tracker.openAlarmNo = null;
+        if (!event || event.endedAt) return;
+
+        const closed = await prisma.downtimeEvent.update({
+          where: { id: event.id },
+          data: {
+            endedAt: now,
+            duration: Math.round((now.getTime() - event.startedAt.getTime()) / 1000),
+          },
+          include: EVENT_INCLUDE,
+        });
+        wsService.sendDowntime(machineId, 'closed', closed);
+      } finally {
+        tracker.busy = false;
+      }
+      return;
+    }
+
+    if (!tracker.stoppedAt) tracker.stoppedAt = now;
+    if (tracker.openEventId) return;
+
+    const idleSec = (now.getTime() - tracker.stoppedAt.getTime()) / 1000;
+    const isAlarm = data.alarmActive || tracker.pendingAlarmNo !== null;
+    if (!isAlarm && idleSec < MIN_IDLE_SEC) return;
+
+    tracker.busy = true;
+    try {
+      const opened = await prisma.downtimeEvent.create({
+        data: {
+          machineDbId: tracker.machineDbId,
+          trigger: isAlarm ? DowntimeTrigger.ALARM : DowntimeTrigger.IDLE,
+          startedAt: tracker.stoppedAt,
+          runState: data.runState,
+          programNo: data.programNo || null,
+          alarmNo: tracker.pendingAlarmNo,
+        },
+        include: EVENT_INCLUDE,
+      });
+      tracker.openEventId = opened.id;
+      tracker.openAlarmNo = opened.alarmNo;
+      tracker.pendingAlarmNo = null;
+      wsService.sendDowntime(machineId, 'opened', opened);
+    } finally {
+      tracker.busy = false;
+    }
+  } catch (error) {
+    console.error('[Downtime] handleDowntimeTelemetry error:', error);
+    trackers.delete(machineId); // 다음 수신 시 DB 기준으로 재구성
+  }
+}
+
+/**
+ * 알람 발생 시 진행 중 이벤트에 첫 알람 기록 (IDLE → ALARM 승격)
+ * 이벤트가 아직 없으면 다음 텔레메트리에서 ALARM 이벤트로 시작
+ */
+export async function handleDowntimeAlarm(machineId: string, alarmNo: number): Promise<void> {
+  try {
+    const tracker = await getTracker(machineId);
+    if (!tracker) return;
+
+    if (!tracker.openEventId) {
+      tracker.pendingAlarmNo ??= alarmNo;
+      return;
+    }
+    if (tracker.openAlarmNo !== null) return;
+
+    tracker.openAlarmNo = alarmNo;
+    const updated = await prisma.downtimeEvent.update({
+      where: { id: tracker.openEventId },
+      data: { trigger: DowntimeTrigger.ALARM, alarmNo },
+      include: EVENT_INCLUDE,
+    });
+    wsService.sendDowntime(machineId, 'updated', updated);
+  } catch (error) {
+    console.error('[Downtime] handleDowntimeAlarm error:', error);
+  }
+}
+
+/**
+ * 오프라인 장비의 진행 중 이벤트 종료 — 종료 시각은 마지막 텔레메트리 수신 시각
+ * (서버 재시작 후 수신이 없던 장비는 마지막 저장 샘플 시각, 없으면 시작 시각)
+ */
+async function closeOfflineEvents(): Promise<void> {
+  const now = Date.now();
+  const open = await prisma.downtimeEvent.findMany({
+    where: { endedAt: null },
+    include: { machine: { select: { machineId: true } } },
+  });
+
+  for (const event of open) {
+    const machineId = event.machine.machineId;
+    const tracker = trackers.get(machineId);
+    if (tracker?.busy) continue;
+
+    let lastSeenAt: Date;
+    if (tracker) {
+      lastSeenAt = tracker.lastSeenAt;
+    } else {
+      if (now - monitorStartedAt < OFFLINE_SEC * 1000) continue;
+      const lastSample = await prisma.telemetrySample.findFirst({
+        where: { machineDbId: event.machineDbId, time: { gte: event.startedAt } },
+        orderBy: { time: 'desc' },
+        select: { time: true },
+      });
+      lastSeenAt = lastSample?.time ?? event.startedAt;
+    }
+    if (now - lastSeenAt.getTime() < OFFLINE_SEC * 1000) continue;
+
+    const endedAt = lastSeenAt > event.startedAt ? lastSeenAt : event.startedAt;
+    if (tracker) tracker.busy = true;
+    let closed;
+    try {
+      closed = await prisma.downtimeEvent.update({
+        where: { id: event.id },
+        data: {
+          endedAt,
+          duration: Math.round((endedAt.getTime() - event.startedAt.getTime()) / 1000),
+        },
+        include: EVENT_INCLUDE,
+      });
+    } finally {
+      trackers.delete(machineId); // 재연결 시 DB 기준으로 재구성
+    }
+    wsService.sendDowntime(machineId, 'closed', closed);
+  }
+}
+
+let offlineTimer: ReturnType<typeof setInterval> | null = null;
+let monitorStartedAt = Date.now();
+
+export function startDowntimeMonitor(): void {
+  if (offlineTimer) return;
+  monitorStartedAt = Date.now();
+  offlineTimer = setInterval(() => {
+    closeOfflineEvents().catch((error) => console.error('[Downtime] closeOfflineEvents error:', error));
+  }, OFFLINE_CHECK_MS);
+}
+
+export function stopDowntimeMonitor(): void {
+  if (offlineTimer) {
+    clearInterval(offlineTimer);
+    offlineTimer = null;
+  }
+}
+
+export default router;
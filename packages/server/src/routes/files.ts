@@ -1,14 +1,23 @@
 // Files Routes - DNC 저장소 / 공유 폴더 파일 관리 API
 //   SCHEDULER_REPO : data/repo/{machineId}/{pathKey}/
 //   TRANSFER_SHARE : data/share/
+//   LIBRARY        : data/library/{productCode}/  (장비 공용 프로그램 라이브러리 — 배포는 /api/library)
 //   CNC_LOCAL      : CNC 내부 파일 (FOCAS2 경유 — 전송 명령 시 MQTT)
+//   저장 / 업로드 / 삭제는 프로그램 저장소(lib/programRepo) 리비전으로 기록, PC→CNC 전송은 RELEASED 만
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { promises as fs } from 'fs';
 import path from 'path';
 import multer from 'multer';
-import { authenticate } from '../middleware/auth';
-import { mqttService, TOPICS } from '../lib/mqtt';
+import { authenticate, requirePermission, machineFromBody } from '../middleware/auth';
+import { prisma } from '../lib/prisma';
+import { transferJobs, toTransferJobDto, transferFilePath, extractProgramNo, TRANSFER_JOB_INCLUDE } from '../lib/transferJobs';
+import { compareProgram, readBackProgram } from '../lib/programVerify';
+import {
+  saveProgram, removeProgram, listPrograms, findProgram, assertReleasedFile, ProgramDto, ProgramRef,
+} from '../lib/programRepo';
+import { isValidProductCode } from '../lib/programLibrary';
+import { AppError } from '../middleware/error';
 import { createAuditLog } from './audit';
 
 const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
@@ -37,6 +46,33 @@ interface FileEntry {
   size: number;
   modifiedAt: string;
   programNo?: string;
+  program?: ProgramDto;     // 저장소 등록 정보 (미등록 파일은 없음)
+}
+
+// 저장소 경로 해석 — SCHEDULER_REPO 는 machineId + pathKey(기본 path1), LIBRARY 는 pathKey = 제품 코드
+function resolveRef(root: unknown, machineId: unknown, pathKey: unknown, fileName: string): ProgramRef {
+  if (root === 'TRANSFER_SHARE') return { root, fileName };
+  if (root === 'LIBRARY') {
+    if (!isValidProductCode(pathKey)) {
+      throw new AppError(400, 'INVALID_PRODUCT_CODE', '제품 코드가 유효하지 않습니다');
+    }
+    return { root, pathKey, fileName };
+  }
+  if (root !== 'SCHEDULER_REPO') {
+    throw new AppError(400, 'INVALID_ROOT', '저장소 유형이 유효하지 않습니다');
+  }
+  if (typeof machineId !== 'string' || !isSafe(machineId) || machineId.includes('/')) {
+    throw new AppError(400, 'INVALID_MACHINE', '장비 ID가 유효하지 않습니다');
+  }
+  const key = pathKey ?? 'path1';
+  if (typeof key !== 'string' || !isSafe(key) || key.includes('/') || key.includes('\\')) {
+    throw new AppError(400, 'INVALID_PATH_KEY', 'pathKey가 유효하지 않습니다');
+  }
+  return { root, machineId, pathKey: key, fileName };
+}
+
+function attachPrograms(entries: FileEntry[], programs: Map<string, ProgramDto>): FileEntry[] {
+  return entries.map((e) => (programs.has(e.name) ? { ...e, program: programs.get(e.name) } : e));
 }
 
 async function readDirEntries(dir: string): Promise<FileEntry[]> {
@@ -71,7 +107,8 @@ router.use(authenticate);
 router.get('/share', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const entries = await readDirEntries(SHARE_DIR);
-    return res.json({ success: true, data: entries });
+    const programs = await listPrograms({ root: 'TRANSFER_SHARE' });
+    return res.json({ success: true, data: attachPrograms(entries, programs) });
   } catch (err) {
     next(err);
   }
@@ -79,7 +116,7 @@ router.get('/share', async (req: Request, res: Response, next: NextFunction) =>
 
 // ─────────────────────────────────────────────────────────────
 // POST /api/files/share/upload
-// 외부 PC → 서버 share 폴더에 파일 업로드 (multipart)
+// 외부 PC → 서버 share 폴더에 파일 업로드 (multipart) — 저장소 리비전 생성 (DRAFT)
 // ─────────────────────────────────────────────────────────────
 router.post('/share/upload', upload.single('file'), async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -87,13 +124,16 @@ router.post('/share/upload', upload.single('file'), async (req: Request, res: Re
     if (!file) {
       return res.status(400).json({ success: false, error: { code: 'NO_FILE', message: '파일이 없습니다' } });
     }
-    if (!isSafe(file.originalname)) {
+    if (!isSafe(file.originalname) || file.originalname.includes('/') || file.originalname.includes('\\')) {
       return res.status(400).json({ success: false, error: { code: 'INVALID_NAME', message: '파일명이 유효하지 않습니다' } });
     }
 
-    await ensureDir(SHARE_DIR);
+    const { program } = await saveProgram(
+      { root: 'TRANSFER_SHARE', fileName: file.originalname },
+      file.buffer.toString('utf-8'),
+      { userId: req.user!.id, message: typeof req.body?.message === 'string' && req.body.message ? req.body.message : '업로드' },
+    );
     const filePath = path.join(SHARE_DIR, file.originalname);
-    await fs.writeFile(filePath, file.buffer);
 
     await createAuditLog({
       userId: req.user!.id,
@@ -101,7 +141,7 @@ router.post('/share/upload', upload.single('file'), async (req: Request, res: Re
       action: 'files.upload',
       targetType: 'file',
       targetId: file.originalname,
-      params: { size: file.size },
+      params: { size: file.size, revision: program.revision },
       result: 'success',
       ipAddress: req.ip ?? 'unknown',
     });
@@ -109,7 +149,7 @@ router.post('/share/upload', upload.single('file'), async (req: Request, res: Re
     const stat = await fs.stat(filePath);
     return res.json({
       success: true,
-      data: { name: file.originalname, size: stat.size, modifiedAt: stat.mtime.toISOString() },
+      data: { name: file.originalname, size: stat.size, modifiedAt: stat.mtime.toISOString(), program },
     });
   } catch (err) {
     next(err);
@@ -128,37 +168,27 @@ router.get('/repo/:machineId/:pathKey', async (req: Request, res: Response, next
     }
     const dir = path.join(REPO_DIR, machineId, pathKey);
     const entries = await readDirEntries(dir);
-    return res.json({ success: true, data: entries });
+    const programs = await listPrograms({ root: 'SCHEDULER_REPO', machineId, pathKey });
+    return res.json({ success: true, data: attachPrograms(entries, programs) });
   } catch (err) {
     next(err);
   }
 });
 
 // ─────────────────────────────────────────────────────────────
-// GET /api/files/read?root=SCHEDULER_REPO|TRANSFER_SHARE&machineId=...&name=...
-// 파일 내용 읽기
+// GET /api/files/read?root=SCHEDULER_REPO|TRANSFER_SHARE|LIBRARY&machineId=...&pathKey=...&name=...
+// 파일 내용 읽기 (+ 저장소 등록 정보)
 // ─────────────────────────────────────────────────────────────
 router.get('/read', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { root, machineId, name } = req.query as Record<string, string>;
-    if (!name || !isSafe(name)) {
+    const { root, machineId, pathKey, name } = req.query as Record<string, string | undefined>;
+    if (!name || !isSafe(name) || name.includes('/') || name.includes('\\')) {
       return res.status(400).json({ success: false, error: { code: 'INVALID_NAME', message: '파일명이 유효하지 않습니다' } });
     }
 
-    let filePath: string;
-    if (root === 'TRANSFER_SHARE') {
-      filePath = path.join(SHARE_DIR, name);
-    } else if (root === 'SCHEDULER_REPO') {
-      if (!machineId || !isSafe(machineId)) {
-        return res.status(400).json({ success: false, error: { code: 'INVALID_MACHINE', message: '장비 ID가 유효하지 않습니다' } });
-      }
-      filePath = path.join(REPO_DIR, machineId, name);
-    } else {
-      return res.status(400).json({ success: false, error: { code: 'INVALID_ROOT', message: '저장소 유형이 유효하지 않습니다' } });
-    }
-
-    const content = await fs.readFile(filePath, 'utf-8');
-    return res.json({ success: true, data: { content, fileName: name } });
+    const ref = resolveRef(root, machineId, pathKey, name);
+    const content = await fs.readFile(transferFilePath(ref.root, ref.machineId ?? '', ref.pathKey ?? null, name), 'utf-8');
+    return res.json({ success: true, data: { content, fileName: name, program: await findProgram(ref) } });
   } catch (err: unknown) {
     if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
       return res.status(404).json({ success: false, error: { code: 'FILE_NOT_FOUND', message: '파일을 찾을 수 없습니다' } });
@@ -169,32 +199,19 @@ router.get('/read', async (req: Request, res: Response, next: NextFunction) => {
 
 // ─────────────────────────────────────────────────────────────
 // PUT /api/files/write
-// 파일 저장 (신규 생성 또는 덮어쓰기)
-// Body: { root, machineId?, fileName, content }
+// 파일 저장 (신규 생성 또는 덮어쓰기) — 내용이 바뀌면 저장소 리비전 생성 (DRAFT)
+// Body: { root, machineId?, pathKey?, fileName, content, message? }
+//   다른 사용자가 체크아웃 중이면 409 PROGRAM_CHECKED_OUT
 // ─────────────────────────────────────────────────────────────
-router.put('/write', async (req: Request, res: Response, next: NextFunction) => {
+router.put('/write', requirePermission('program.edit', machineFromBody()), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { root, machineId, fileName, content } = req.body as Record<string, string>;
-    if (!fileName || !isSafe(fileName)) {
+    const { root, machineId, pathKey, fileName, content, message } = req.body as Record<string, string | undefined>;
+    if (!fileName || !isSafe(fileName) || fileName.includes('/') || fileName.includes('\\')) {
       return res.status(400).json({ success: false, error: { code: 'INVALID_NAME', message: '파일명이 유효하지 않습니다' } });
     }
 
-    let filePath: string;
-    if (root === 'TRANSFER_SHARE') {
-      await ensureDir(SHARE_DIR);
-      filePath = path.join(SHARE_DIR, fileName);
-    } else if (root === 'SCHEDULER_REPO') {
-      if (!machineId || !isSafe(machineId)) {
-        return res.status(400).json({ success: false, error: { code: 'INVALID_MACHINE', message: '장비 ID가 유효하지 않습니다' } });
-      }
-      const dir = path.join(REPO_DIR, machineId);
-      await ensureDir(dir);
-      filePath = path.join(dir, fileName);
-    } else {
-      return res.status(400).json({ success: false, error: { code: 'INVALID_ROOT', message: '저장소 유형이 유효하지 않습니다' } });
-    }
-
-    await fs.writeFile(filePath, content ?? '', 'utf-8');
+    const ref = resolveRef(root, machineId, pathKey, fileName);
+    const { program, created } = await saveProgram(ref, content ?? '', { userId: req.user!.id, message });
 
     await createAuditLog({
       userId: req.user!.id,
@@ -202,13 +219,16 @@ router.put('/write', async (req: Request, res: Response, next: NextFunction) =>
       action: 'files.write',
       targetType: 'file',
       targetId: fileName,
-      params: { root, machineId, size: (content ?? '').length },
+      params: { root, machineId, pathKey: ref.pathKey, size: (content ?? '').length, revision: program.revision, message },
       result: 'success',
       ipAddress: req.ip ?? 'unknown',
     });
 
-    const stat = await fs.stat(filePath);
-    return res.json({ success: true, data: { fileName, size: stat.size, modifiedAt: stat.mtime.toISOString() } });
+    const stat = await fs.stat(transferFilePath(ref.root, ref.machineId ?? '', ref.pathKey ?? null, fileName));
+    return res.json({
+      success: true,
+      data: { fileName, size: stat.size, modifiedAt: stat.mtime.toISOString(), program, revisionCreated: created },
+    });
   } catch (err) {
     next(err);
   }
@@ -216,35 +236,30 @@ router.put('/write', async (req: Request, res: Response, next: NextFunction) =>
 
 // ─────────────────────────────────────────────────────────────
 // POST /api/files/delete
-// 파일 삭제
-// Body: { root, machineId?, fileNames: string[] }
+// 파일 삭제 (저장소 등록 해제 — 다른 사용자 체크아웃 중이면 해당 파일 제외)
+// Body: { root, machineId?, pathKey?, fileNames: string[] }
 // ─────────────────────────────────────────────────────────────
-router.post('/delete', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/delete', requirePermission('program.edit', machineFromBody()), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { root, machineId, fileNames } = req.body as { root: string; machineId?: string; fileNames: string[] };
+    const { root, machineId, pathKey, fileNames } = req.body as { root: string; machineId?: string; pathKey?: string; fileNames: string[] };
     if (!Array.isArray(fileNames) || fileNames.length === 0) {
       return res.status(400).json({ success: false, error: { code: 'NO_FILES', message: '삭제할 파일이 없습니다' } });
     }
-    if (fileNames.some((n) => !isSafe(n))) {
+    if (fileNames.some((n) => typeof n !== 'string' || !isSafe(n) || n.includes('/') || n.includes('\\'))) {
       return res.status(400).json({ success: false, error: { code: 'INVALID_NAME', message: '유효하지 않은 파일명이 포함되어 있습니다' } });
     }
 
-    let baseDir: string;
-    if (root === 'TRANSFER_SHARE') {
-      baseDir = SHARE_DIR;
-    } else if (root === 'SCHEDULER_REPO') {
-      if (!machineId || !isSafe(machineId)) {
-        return res.status(400).json({ success: false, error: { code: 'INVALID_MACHINE', message: '장비 ID가 유효하지 않습니다' } });
-      }
-      baseDir = path.join(REPO_DIR, machineId);
-    } else {
-      return res.status(400).json({ success: false, error: { code: 'INVALID_ROOT', message: '저장소 유형이 유효하지 않습니다' } });
-    }
-
-    const results: { name: string; deleted: boolean }[] = [];
+    const results: { name: string; deleted: boolean; error?: string }[] = [];
     for (const name of fileNames) {
+      const ref = resolveRef(root, machineId, pathKey, name);
       try {
-        await fs.unlink(path.join(baseDir, name));
+        await removeProgram(ref, req.user!.id);
+      } catch (err) {
+        results.push({ name, deleted: false, error: err instanceof AppError ? err.message : '삭제 실패' });
+        continue;
+      }
+      try {
+        await fs.unlink(transferFilePath(ref.root, ref.machineId ?? '', ref.pathKey ?? null, name));
         results.push({ name, deleted: true });
       } catch {
         results.push({ name, deleted: false });
@@ -257,7 +272,7 @@ router.post('/delete', async (req: Request, res: Response, next: NextFunction) =
       action: 'files.delete',
       targetType: 'file',
       targetId: fileNames.join(','),
-      params: { root, machineId, count: fileNames.length },
+      params: { root, machineId, pathKey, count: fileNames.length },
       result: 'success',
       ipAddress: req.ip ?? 'unknown',
     });
@@ -268,83 +283,224 @@ router.post('/delete', async (req: Request, res: Response, next: NextFunction) =
   }
 });
 
+// CNC 쓰기 방향(PC_TO_CNC)만 전송 권한 필요
+const requirePcToCnc = requirePermission('transfer.pc_to_cnc', machineFromBody());
+
 // ─────────────────────────────────────────────────────────────
 // POST /api/files/transfer
-// PC ↔ CNC 프로그램 전송
-// Body: { machineId, direction: 'PC_TO_CNC' | 'CNC_TO_PC', fileNames, conflictPolicy }
+// PC ↔ CNC 프로그램 전송 — 파일별 TransferJob 생성 후 즉시 응답
+// Body: { machineId, direction: 'PC_TO_CNC' | 'CNC_TO_PC', fileNames, conflictPolicy,
+//         root?: 'TRANSFER_SHARE' | 'SCHEDULER_REPO', pathKey?, verify? }
+//  verify: PC_TO_CNC 전송 후 DOWNLOAD_PROGRAM 읽기 비교 (불일치 시 MISMATCHED + diff)
 //
-//  PC_TO_CNC: share/ → MQTT UPLOAD_PROGRAM → Agent
-//  CNC_TO_PC: MQTT DOWNLOAD_PROGRAM → Agent → share/ (비동기, 현재는 즉시 응답)
+//  PC_TO_CNC: share/ → MQTT UPLOAD_PROGRAM → Agent → LIST_PROGRAMS 확인
+//  CNC_TO_PC: MQTT DOWNLOAD_PROGRAM → Agent → share/ 저장 확인
+//  진행 상황은 WebSocket 'transfer_job' (lib/transferJobs)
 // ─────────────────────────────────────────────────────────────
-router.post('/transfer', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/transfer', (req: Request, res: Response, next: NextFunction) =>
+  req.body?.direction === 'PC_TO_CNC' ? requirePcToCnc(req, res, next) : next(),
+async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { machineId, direction, fileNames, conflictPolicy = 'OVERWRITE' } = req.body as {
+    const { machineId, direction, fileNames, conflictPolicy = 'OVERWRITE', root = 'TRANSFER_SHARE', pathKey, verify = false } = req.body as {
       machineId: string;
       direction: 'PC_TO_CNC' | 'CNC_TO_PC';
       fileNames: string[];
       conflictPolicy: string;
+      root?: 'TRANSFER_SHARE' | 'SCHEDULER_REPO';
+      pathKey?: string;
+      verify?: boolean;
     };
 
     if (!machineId || !isSafe(machineId)) {
       return res.status(400).json({ success: false, error: { code: 'INVALID_MACHINE', message: '장비 ID가 유효하지 않습니다' } });
     }
+    if (direction !== 'PC_TO_CNC' && direction !== 'CNC_TO_PC') {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_DIRECTION', message: '전송 방향이 유효하지 않습니다' } });
+    }
     if (!Array.isArray(fileNames) || fileNames.length === 0) {
       return res.status(400).json({ success: false, error: { code: 'NO_FILES', message: '전송할 파일이 없습니다' } });
     }
+    const invalid = fileNames.find((n) => typeof n !== 'string' || !isSafe(n) || n.includes('/') || n.includes('\\'));
+    if (invalid !== undefined) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_NAME', message: `파일명이 유효하지 않습니다: ${invalid}` } });
+    }
+    if (root !== 'TRANSFER_SHARE' && root !== 'SCHEDULER_REPO') {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_ROOT', message: '저장소 유형이 유효하지 않습니다' } });
+    }
+    if (root === 'SCHEDULER_REPO' && (!pathKey || !isSafe(pathKey) || pathKey.includes('/') || pathKey.includes('\\'))) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PATH_KEY', message: 'pathKey가 유효하지 않습니다' } });
+    }
 
-    const correlationId = `xfer-${Date.now()}`;
-    const jobs: Array<{ fileName: string; correlationId: string }> = [];
+    const machine = await prisma.machine.findUnique({ where: { machineId }, select: { id: true, machineId: true } });
+    if (!machine) {
+      return res.status(404).json({ success: false, error: { code: 'MACHINE_NOT_FOUND', message: '장비를 찾을 수 없습니다' } });
+    }
 
+    // PC→CNC 는 저장소에서 릴리스된 프로그램만
     if (direction === 'PC_TO_CNC') {
-      // Share 폴더에서 파일 읽어 MQTT로 Agent에 전송
-      for (const fileName of fileNames) {
-        if (!isSafe(fileName)) continue;
-        const filePath = path.join(SHARE_DIR, fileName);
-        let content = '';
-        try {
-          content = await fs.readFile(filePath, 'utf-8');
-        } catch {
-          // 파일 없으면 빈 내용으로 명령 발송
-        }
-        const jobCid = `${correlationId}-${fileName}`;
-        mqttService.publish(TOPICS.COMMAND_TO(machineId), {
-          timestamp: new Date().toISOString(),
-          command: 'UPLOAD_PROGRAM',
-          correlationId: jobCid,
-          params: { fileName, content, conflictPolicy },
-        });
-        jobs.push({ fileName, correlationId: jobCid });
-      }
-    } else {
-      // CNC → PC: Agent에 다운로드 명령 발송 (결과는 비동기 MQTT 수신)
       for (const fileName of fileNames) {
-        if (!isSafe(fileName)) continue;
-        const jobCid = `${correlationId}-${fileName}`;
-        mqttService.publish(TOPICS.COMMAND_TO(machineId), {
-          timestamp: new Date().toISOString(),
-          command: 'DOWNLOAD_PROGRAM',
-          correlationId: jobCid,
-          params: { fileName, conflictPolicy },
-        });
-        jobs.push({ fileName, correlationId: jobCid });
+        await assertReleasedFile({ root, machineId, pathKey, fileName });
       }
     }
 
+    const jobs = await transferJobs.enqueue({
+      machine,
+      direction,
+      fileNames,
+      conflictPolicy,
+      root,
+      pathKey,
+      readBack: direction === 'PC_TO_CNC' && verify === true,
+      userId: req.user!.id,
+    });
+
     await createAuditLog({
       userId: req.user!.id,
       userRole: req.user!.role,
       action: direction === 'PC_TO_CNC' ? 'transfer.pc_to_cnc' : 'transfer.cnc_to_pc',
       targetType: 'machine',
       targetId: machineId,
-      params: { fileNames, conflictPolicy, jobCount: jobs.length },
-      result: 'success',
+      params: { fileNames, conflictPolicy, root, pathKey, verify, jobCount: jobs.length, batchId: jobs[0]?.batchId },
+      result: jobs.every((j) => j.status === 'FAILED') ? 'failure' : 'success',
       ipAddress: req.ip ?? 'unknown',
     });
 
     return res.json({
       success: true,
-      data: { correlationId, jobs, machineId, direction },
+      data: { batchId: jobs[0]?.batchId, jobs, machineId, direction },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/files/transfer/jobs?machineId=&limit=
+// 전송 작업 이력 (최신순)
+// ─────────────────────────────────────────────────────────────
+router.get('/transfer/jobs', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const machineId = typeof req.query.machineId === 'string' ? req.query.machineId : undefined;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+
+    const jobs = await prisma.transferJob.findMany({
+      where: machineId ? { machine: { machineId } } : {},
+      include: TRANSFER_JOB_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return res.json({ success: true, data: jobs.map(toTransferJobDto) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/files/transfer/jobs/:id/retry
+// 실패 / 불일치 작업 재시도 (PC_TO_CNC 는 전송 권한 필요)
+// ─────────────────────────────────────────────────────────────
+const transferJobMachine = async (req: Request) =>
+  (await prisma.transferJob.findUnique({ where: { id: req.params.id }, select: { machineDbId: true } }))?.machineDbId;
+
+router.post('/transfer/jobs/:id/retry', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const job = await prisma.transferJob.findUnique({
+      where: { id: req.params.id },
+      select: { direction: true, root: true, pathKey: true, fileName: true, machine: { select: { machineId: true } } },
+    });
+    if (!job) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '전송 작업을 찾을 수 없습니다' } });
+    }
+    if (job.direction !== 'PC_TO_CNC') return next();
+    await assertReleasedFile(resolveRef(job.root, job.machine.machineId, job.pathKey, job.fileName));
+    return requirePermission('transfer.pc_to_cnc', transferJobMachine)(req, res, next);
+  } catch (err) {
+    next(err);
+  }
+}, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const job = await transferJobs.retry(req.params.id);
+    if (!job) {
+      return res.status(409).json({ success: false, error: { code: 'NOT_FAILED', message: '실패 또는 불일치 작업만 재시도할 수 있습니다' } });
+    }
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'transfer.retry',
+      targetType: 'machine',
+      targetId: job.machineId,
+      params: { transferJobId: job.id, fileName: job.fileName, direction: job.direction },
+      result: 'success',
+      ipAddress: req.ip ?? 'unknown',
     });
+
+    return res.json({ success: true, data: job });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/files/verify
+// PC 파일 ↔ CNC 메모리 프로그램 비교 (DOWNLOAD_PROGRAM 읽기 — 전송 없이 확인만)
+// Body: { machineId, root, pathKey?, fileName, programNo? }
+//   programNo 미지정 시 파일 본문 / 파일명의 O번호
+// ─────────────────────────────────────────────────────────────
+router.post('/verify', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { machineId, root, pathKey, fileName, programNo: requestedNo } = req.body as {
+      machineId?: string;
+      root?: string;
+      pathKey?: string;
+      fileName?: string;
+      programNo?: string;
+    };
+
+    if (!machineId || !isSafe(machineId)) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_MACHINE', message: '장비 ID가 유효하지 않습니다' } });
+    }
+    if (!fileName || !isSafe(fileName) || fileName.includes('/') || fileName.includes('\\')) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_NAME', message: '파일명이 유효하지 않습니다' } });
+    }
+    if (root !== 'TRANSFER_SHARE' && root !== 'SCHEDULER_REPO') {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_ROOT', message: '저장소 유형이 유효하지 않습니다' } });
+    }
+    if (root === 'SCHEDULER_REPO' && (!pathKey || !isSafe(pathKey) || pathKey.includes('/') || pathKey.includes('\\'))) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PATH_KEY', message: 'pathKey가 유효하지 않습니다' } });
+    }
+
+    const machine = await prisma.machine.findUnique({ where: { machineId }, select: { id: true, machineId: true } });
+    if (!machine) {
+      return res.status(404).json({ success: false, error: { code: 'MACHINE_NOT_FOUND', message: '장비를 찾을 수 없습니다' } });
+    }
+
+    let pcContent: string;
+    try {
+      pcContent = await fs.readFile(transferFilePath(root, machineId, pathKey ?? null, fileName), 'utf-8');
+    } catch {
+      return res.status(404).json({ success: false, error: { code: 'FILE_NOT_FOUND', message: '파일을 찾을 수 없습니다' } });
+    }
+
+    const programNo = requestedNo ? extractProgramNo(requestedNo) : extractProgramNo(fileName, pcContent);
+    if (!programNo) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: 'O번호를 찾을 수 없습니다 (파일명 또는 본문 첫 줄)' } });
+    }
+
+    const comparison = compareProgram(pcContent, await readBackProgram(machine, programNo));
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'transfer.verify',
+      targetType: 'machine',
+      targetId: machineId,
+      params: { root, pathKey, fileName, programNo, match: comparison.match },
+      result: 'success',
+      ipAddress: req.ip ?? 'unknown',
+    });
+
+    return res.json({ success: true, data: { machineId, fileName, programNo, ...comparison } });
   } catch (err) {
     next(err);
   }
@@ -0,0 +1,100 @@
+// Filesystem Routes - DNC 경로 선택용 서버 폴더 탐색 API
+//   허용 루트(DNC 저장소 + DNC_ROOTS 마운트 지점) 하위만 접근 — lib/fileRoots
+//   path 미지정 / '/' : 루트 목록
+
+import { Router, Request, Response, NextFunction } from 'express';
+import path from 'path';
+import { authenticate, requirePermission, machineFromBody } from '../middleware/auth';
+import { getFileRoots, checkPath, listFolders, createFolder } from '../lib/fileRoots';
+import { createAuditLog } from './audit';
+
+const router = Router();
+
+router.use(authenticate);
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/filesystem/roots
+// 탐색 허용 루트 목록
+// ─────────────────────────────────────────────────────────────
+router.get('/roots', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const roots = await Promise.all(getFileRoots().map(async (r) => {
+      const check = await checkPath(r.path);
+      return { label: r.label, path: r.path, agentPath: r.agentPath, exists: check.exists, writable: check.writable };
+    }));
+    return res.json({ success: true, data: roots });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/filesystem/list?path=
+// 하위 폴더 목록 — parent: 상위 경로 (루트 바로 아래면 '/', 루트 목록이면 null)
+// ─────────────────────────────────────────────────────────────
+router.get('/list', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = typeof req.query.path === 'string' ? req.query.path.trim() : '';
+
+    if (!target || target === '/') {
+      const folders = getFileRoots().map((r) => ({ name: r.label, path: r.path }));
+      return res.json({ success: true, data: { path: '/', parent: null, writable: false, folders } });
+    }
+
+    const folders = await listFolders(target);
+    const check = await checkPath(target);
+    const root = getFileRoots().find((r) => r.path === check.path);
+    const parent = root ? '/' : path.dirname(check.path);
+    return res.json({ success: true, data: { path: check.path, parent, writable: check.writable, folders } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/filesystem/validate?path=
+// 경로 존재 / 디렉토리 / 쓰기 권한 확인
+// ─────────────────────────────────────────────────────────────
+router.get('/validate', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = typeof req.query.path === 'string' ? req.query.path.trim() : '';
+    if (!target) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: 'path 필요' } });
+    }
+    return res.json({ success: true, data: await checkPath(target) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/filesystem/mkdir
+// body: { path: 상위 폴더, name: 새 폴더 이름, machineId?: 권한 범위 장비 }
+// ─────────────────────────────────────────────────────────────
+router.post('/mkdir', requirePermission('machine.config', machineFromBody()), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { path: parent, name } = req.body as { path?: string; name?: string };
+    if (!parent || !name) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: 'path, name 필요' } });
+    }
+
+    const created = await createFolder(parent, name);
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'filesystem.mkdir',
+      targetType: 'folder',
+      targetId: created,
+      params: { parent, name },
+      result: 'success',
+      ipAddress: req.ip ?? 'unknown',
+    });
+
+    return res.status(201).json({ success: true, data: { name: name.trim(), path: created } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
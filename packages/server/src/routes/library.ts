@@ -0,0 +1,211 @@
+// Library Routes - 제품 코드별 장비 공용 프로그램 라이브러리 / 장비 배포 현황
+//   본문 조회 / 저장 / 삭제는 /api/files/* (root=LIBRARY, pathKey=제품 코드),
+//   이력 / 승인 · 릴리스는 /api/programs/:id 를 그대로 사용
+//   여기서는 등록, 호환 범위(템플릿 / 장비), 배포(PC→CNC 전송), 배포 현황
+//   라이브러리 프로그램은 장비 범위가 없으므로 등록 / 호환 범위 권한은 전체 범위로 평가
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { hasPermission } from '../lib/permissions';
+import {
+  listLibrary, getLibraryProgram, compatibleMachines, createLibraryProgram, setCompatibility, getDeploymentMatrix,
+  isValidProductCode,
+} from '../lib/programLibrary';
+import { assertReleasedFile, programRef } from '../lib/programRepo';
+import { transferJobs, TransferJobDto } from '../lib/transferJobs';
+import { createAuditLog } from './audit';
+
+const router = Router();
+
+router.use(authenticate);
+
+// 경로 순회 공격 방지 (path component 검증)
+function isSafeName(s: unknown): s is string {
+  return typeof s === 'string' && s.length > 0 && !s.includes('..') && !s.includes('/') && !s.includes('\\');
+}
+
+// 문자열 배열 (미지정 = 빈 배열, 형식 오류 = null)
+function stringList(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string' || !v)) return null;
+  return value as string[];
+}
+
+async function audit(req: Request, action: string, programId: string, params: Record<string, unknown>) {
+  await createAuditLog({
+    userId: req.user!.id,
+    userRole: req.user!.role,
+    action,
+    targetType: 'program',
+    targetId: programId,
+    params,
+    result: 'success',
+    ipAddress: req.ip ?? 'unknown',
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/library?productCode=
+// 라이브러리 프로그램 목록 (제품 코드 / 파일명 순)
+// ─────────────────────────────────────────────────────────────
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { productCode } = req.query;
+    if (productCode !== undefined && !isValidProductCode(productCode)) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PRODUCT_CODE', message: '제품 코드가 유효하지 않습니다' } });
+    }
+    return res.json({ success: true, data: await listLibrary(productCode) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/library
+// 라이브러리 프로그램 등록 (첫 리비전 = DRAFT)
+// Body: { productCode, fileName, content, message?, compatibleTemplates?, compatibleMachines? }
+// ─────────────────────────────────────────────────────────────
+router.post('/', requirePermission('program.edit'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { productCode, fileName, content, message } = req.body ?? {};
+    const templates = stringList(req.body?.compatibleTemplates);
+    const machines = stringList(req.body?.compatibleMachines);
+    if (!isValidProductCode(productCode)) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PRODUCT_CODE', message: '제품 코드가 유효하지 않습니다 (영문 / 숫자 / . _ -)' } });
+    }
+    if (!isSafeName(fileName)) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_NAME', message: '파일명이 유효하지 않습니다' } });
+    }
+    if (typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: '프로그램 내용이 비어 있습니다' } });
+    }
+    if (!templates || !machines) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: '호환 템플릿 / 장비 목록 형식이 올바르지 않습니다' } });
+    }
+
+    const program = await createLibraryProgram(
+      { productCode, fileName, content, message, compatibleTemplates: templates, compatibleMachines: machines },
+      req.user!.id,
+    );
+    await audit(req, 'library.create', program.id, { productCode, fileName, compatibleTemplates: templates, compatibleMachines: machines });
+    return res.status(201).json({ success: true, data: program });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/library/deployments?productCode=
+// 배포 현황 — 프로그램 × 호환 장비 (장비별 CNC 프로그램 목록 조회 후 판정, 장비당 최대 15초)
+// ─────────────────────────────────────────────────────────────
+router.get('/deployments', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { productCode } = req.query;
+    if (productCode !== undefined && !isValidProductCode(productCode)) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PRODUCT_CODE', message: '제품 코드가 유효하지 않습니다' } });
+    }
+    return res.json({ success: true, data: await getDeploymentMatrix(productCode) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/library/:id
+// 라이브러리 프로그램 + 호환 장비
+// ─────────────────────────────────────────────────────────────
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const program = await getLibraryProgram(req.params.id);
+    return res.json({ success: true, data: { ...program, machines: await compatibleMachines(program) } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// PUT /api/library/:id/compatibility
+// 호환 범위 변경
+// Body: { compatibleTemplates: string[], compatibleMachines: string[] }
+// ─────────────────────────────────────────────────────────────
+router.put('/:id/compatibility', requirePermission('program.edit'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const templates = stringList(req.body?.compatibleTemplates);
+    const machines = stringList(req.body?.compatibleMachines);
+    if (!templates || !machines) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: '호환 템플릿 / 장비 목록 형식이 올바르지 않습니다' } });
+    }
+    const program = await setCompatibility(req.params.id, templates, machines);
+    await audit(req, 'library.compatibility', program.id, {
+      fileName: program.fileName,
+      compatibleTemplates: program.compatibleTemplates,
+      compatibleMachines: program.compatibleMachines,
+    });
+    return res.json({ success: true, data: program });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/library/:id/deploy
+// 호환 장비로 배포 (장비별 PC→CNC TransferJob — VERIFIED 시 배포 기록 갱신)
+// Body: { machineIds: string[], verify? }
+//   RELEASED + 디스크 일치 필수, 장비별 transfer.pc_to_cnc 권한 필요
+// ─────────────────────────────────────────────────────────────
+router.post('/:id/deploy', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { machineIds, verify = false } = req.body ?? {};
+    if (!Array.isArray(machineIds) || machineIds.length === 0 || machineIds.some((m) => typeof m !== 'string')) {
+      return res.status(400).json({ success: false, error: { code: 'NO_MACHINES', message: '배포할 장비를 선택하세요' } });
+    }
+
+    const program = await getLibraryProgram(req.params.id);
+    const compatible = await compatibleMachines(program);
+    const targets = [...new Set(machineIds as string[])].map((id) => ({ id, machine: compatible.find((m) => m.machineId === id) }));
+    const incompatible = targets.find((t) => !t.machine);
+    if (incompatible) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'INCOMPATIBLE_MACHINE', message: `호환 범위에 없는 장비입니다: ${incompatible.id}` },
+      });
+    }
+    for (const { machine } of targets) {
+      if (!(await hasPermission(req.user!, 'transfer.pc_to_cnc', machine!))) {
+        return res.status(403).json({
+          success: false,
+          error: { code: 'FORBIDDEN', message: `${machine!.machineId} 장비로 전송할 권한이 없습니다` },
+        });
+      }
+    }
+    const ref = programRef(program);
+    await assertReleasedFile(ref);
+
+    const jobs: TransferJobDto[] = [];
+    for (const { machine } of targets) {
+      jobs.push(...await transferJobs.enqueue({
+        machine: machine!,
+        direction: 'PC_TO_CNC',
+        fileNames: [program.fileName],
+        conflictPolicy: 'OVERWRITE',
+        root: 'LIBRARY',
+        pathKey: program.productCode,
+        readBack: verify === true,
+        userId: req.user!.id,
+      }));
+    }
+
+    await audit(req, 'library.deploy', program.id, {
+      productCode: program.productCode,
+      fileName: program.fileName,
+      revision: program.revision,
+      machineIds: targets.map((t) => t.id),
+      verify: verify === true,
+    });
+    return res.json({ success: true, data: { jobs } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -2,40 +2,21 @@
 // CRUD for machines and real-time data access
 
 import { Router, Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
 import { prisma } from '../lib/prisma';
 import { redisService, REDIS_KEYS } from '../lib/redis';
-import { mqttService } from '../lib/mqtt';
-import { commandWaiter } from '../lib/commandWaiter';
-import { authenticate, authorize } from '../middleware/auth';
+import { telemetryHistory, parseBucket, countBuckets, MAX_BUCKETS } from '../lib/telemetryHistory';
+import { validateDncPath, toAgentPath } from '../lib/fileRoots';
+import { sendNcCommand } from '../lib/ncCommand';
+import {
+  parseAxis, parseApproval, isValidToolNo, writeWearOffset, listOffsetChanges, revertOffsetChange,
+} from '../lib/offsets';
+import { authenticate, requirePermission, machineFromParam } from '../middleware/auth';
 import { asyncHandler } from '../middleware/error';
 import { ApiResponse, PaginatedResponse } from '../types';
-import { UserRole, CommandStatus } from '@prisma/client';
+import { createAuditLog } from './audit';
 
 const router = Router();
 
-// ── NC 데이터 명령 헬퍼 ──────────────────────────────────────────
-async function sendNcCommand(
-  machineDbId: string,
-  machineId: string,
-  command: string,
-  params: Record<string, unknown> | undefined,
-  timeoutMs = 30_000,
-): Promise<{ status: string; result?: unknown; errorCode?: string; errorMessage?: string }> {
-  const correlationId = uuidv4();
-  await prisma.commandLog.create({
-    data: {
-      correlationId,
-      machineId: machineDbId,
-      command,
-      params: (params as object | undefined) ?? undefined,
-      status: CommandStatus.PENDING,
-    },
-  });
-  await mqttService.sendCommand(machineId, command, correlationId, params);
-  return commandWaiter.wait(correlationId, timeoutMs);
-}
-
 // All routes require authentication
 router.use(authenticate);
 
@@ -44,7 +25,7 @@ router.use(authenticate);
  * Register a new machine (HQ_ENGINEER only)
  */
 router.post('/',
-  authorize(UserRole.HQ_ENGINEER, UserRole.ADMIN),
+  requirePermission('machine.manage'),
   asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
     const { machineId, name, ipAddress, port, serialNumber, location, templateId } = req.body as {
       machineId: string;
@@ -95,7 +76,7 @@ router.post('/',
  * Update machine info (HQ_ENGINEER only)
  */
 router.put('/:id',
-  authorize(UserRole.HQ_ENGINEER, UserRole.ADMIN),
+  requirePermission('machine.manage'),
   asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
     const { id } = req.params;
     const { name, ipAddress, port, serialNumber, location, templateId } = req.body as {
@@ -143,7 +124,7 @@ router.put('/:id',
  * Soft-delete machine (isActive = false) — HQ_ENGINEER only
  */
 router.delete('/:id',
-  authorize(UserRole.HQ_ENGINEER, UserRole.ADMIN),
+  requirePermission('machine.manage'),
   asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
     const { id } = req.params;
 
@@ -360,6 +341,74 @@ router.get('/:id/telemetry', asyncHandler(async (
   });
 }));
 
+/**
+ * GET /machines/:id/telemetry/history?from&to&bucket=
+ * 텔레메트리 이력 — 버킷별 min/avg/max (기본: 최근 1시간, 1m 버킷, 최대 MAX_BUCKETS 개)
+ */
+router.get('/:id/telemetry/history', asyncHandler(async (
+  req: Request,
+  res: Response<ApiResponse>
+) => {
+  const { id } = req.params;
+  const to = req.query.to ? new Date(req.query.to as string) : new Date();
+  const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - 60 * 60 * 1000);
+  const bucket = (req.query.bucket as string) || '1m';
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_RANGE', message: '조회 기간이 올바르지 않습니다.' },
+    });
+  }
+
+  const interval = parseBucket(bucket);
+  if (!interval) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_BUCKET', message: 'bucket 형식이 올바르지 않습니다. (예: 30s, 1m, 1h, 1d)' },
+    });
+  }
+
+  if (countBuckets(bucket, from, to)! > MAX_BUCKETS) {
+    return res.status(400).json({
+      success: false,
+      error: { code: 'TOO_MANY_BUCKETS', message: `버킷 수가 최대 ${MAX_BUCKETS}개를 넘습니다. 기간을 줄이거나 bucket을 늘리세요.` },
+    });
+  }
+
+  const machine = await prisma.machine.findFirst({
+    where: {
+      OR: [
+        { id },
+        { machineId: id },
+      ],
+    },
+  });
+
+  if (!machine) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: '장비를 찾을 수 없습니다.',
+      },
+    });
+  }
+
+  const buckets = await telemetryHistory.queryBuckets(machine.id, from, to, interval);
+
+  return res.json({
+    success: true,
+    data: {
+      machineId: machine.machineId,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      bucket,
+      buckets,
+    },
+  });
+}));
+
 /**
  * GET /machines/:id/alarms
  * Get alarm history
@@ -424,7 +473,9 @@ router.get('/:id/alarms', asyncHandler(async (
  * POST /machines/:id/control/acquire
  * Acquire control lock
  */
-router.post('/:id/control/acquire', asyncHandler(async (
+router.post('/:id/control/acquire',
+  requirePermission('control.acquire', machineFromParam('id')),
+  asyncHandler(async (
   req: Request,
   res: Response<ApiResponse>
 ) => {
@@ -611,7 +662,7 @@ router.post('/:id/control/extend', asyncHandler(async (
  * Force release control lock (Admin only)
  */
 router.post('/:id/control/force-release',
-  authorize(UserRole.ADMIN, UserRole.HQ_ENGINEER),
+  requirePermission('control.force_release', machineFromParam('id')),
   asyncHandler(async (
     req: Request,
     res: Response<ApiResponse>
@@ -664,6 +715,36 @@ router.post('/:id/control/force-release',
 
 // ── NC 데이터 라우트 ─────────────────────────────────────────────
 
+// 안전 한계 초과 오프셋 변경 (승인자 승인) 감사 기록
+async function auditLimitOverride(
+  req: Request,
+  machineId: string,
+  change: { id: string; path: number; toolNo: number; axis: string; oldValue: number; newValue: number; revertOfId: string | null },
+  violation: string | null,
+  approvedBy: string,
+) {
+  await createAuditLog({
+    userId: req.user!.id,
+    userRole: req.user!.role,
+    action: 'offsets.limit_override',
+    targetType: 'machine',
+    targetId: machineId,
+    params: {
+      changeId: change.id,
+      path: change.path,
+      toolNo: change.toolNo,
+      axis: change.axis,
+      oldValue: change.oldValue,
+      newValue: change.newValue,
+      revertOfId: change.revertOfId,
+      violation,
+      approvedBy,
+    },
+    result: 'success',
+    ipAddress: req.ip ?? 'unknown',
+  });
+}
+
 /**
  * GET /machines/:id/offsets?path=1&count=64
  * 마모 오프셋 읽기 (FOCAS2 READ_OFFSETS 명령)
@@ -693,10 +774,13 @@ router.get('/:id/offsets', asyncHandler(async (
 
 /**
  * PUT /machines/:id/offsets
- * 마모 오프셋 쓰기 (제어권 필요)
- * body: { path, no, axis, value }  axis: 'X'|'Z'|'Y'|'R'
+ * 마모 오프셋 쓰기 (제어권 필요) — 쓰기 전 값을 읽어 변경 이력 기록
+ * body: { path, no, axis, value, approval? }  axis: 'X'|'Z'|'Y'|'R'
+ * 템플릿 안전 한계 초과 시 409 OFFSET_LIMIT_EXCEEDED — approval: { username, password } (offsets.approve_limit 권한이 있는 다른 계정) 필요
  */
-router.put('/:id/offsets', asyncHandler(async (
+router.put('/:id/offsets',
+  requirePermission('offsets.write', machineFromParam('id')),
+  asyncHandler(async (
   req: Request,
   res: Response<ApiResponse>
 ) => {
@@ -713,21 +797,69 @@ router.put('/:id/offsets', asyncHandler(async (
   if (!lock || lock.ownerId !== req.user!.id)
     return res.status(403).json({ success: false, error: { code: 'NO_CONTROL_LOCK', message: '제어권이 없습니다.' } });
 
-  // 축 → axisIdx 변환 (X=0, Y=1, Z=2, R=3) — FocasDataReader.WriteWearOffset 순서와 일치
-  const AXIS_MAP: Record<string, number> = { X: 0, Y: 1, Z: 2, R: 3 };
-  const axisIdx = AXIS_MAP[axis?.toUpperCase()];
-  if (axisIdx === undefined)
+  const offsetAxis = parseAxis(axis);
+  if (!offsetAxis)
     return res.status(400).json({ success: false, error: { code: 'INVALID_AXIS', message: 'axis는 X/Z/Y/R 중 하나입니다.' } });
+  if (!isValidToolNo(no) || typeof value !== 'number' || !Number.isFinite(value))
+    return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: '공구 번호 또는 값이 올바르지 않습니다.' } });
 
-  try {
-    const cmdResult = await sendNcCommand(machine.id, machine.machineId, 'WRITE_OFFSET',
-      { path: path ?? 1, toolNo: no, axisIdx, value });
-    if (cmdResult.status !== 'success')
-      return res.status(502).json({ success: false, error: { code: cmdResult.errorCode ?? 'AGENT_ERROR', message: cmdResult.errorMessage ?? '오프셋 쓰기 실패' } });
-    return res.json({ success: true, data: cmdResult.result });
-  } catch {
-    return res.status(504).json({ success: false, error: { code: 'COMMAND_TIMEOUT', message: 'Agent 응답 시간 초과' } });
-  }
+  const { result, change, violation, approvedBy } = await writeWearOffset(machine, {
+    path: path ?? 1, toolNo: no, axis: offsetAxis, value, userId: req.user!.id, approval: parseApproval(req.body?.approval),
+  });
+  if (approvedBy) await auditLimitOverride(req, machine.machineId, change, violation, approvedBy.username);
+  return res.json({ success: true, data: { ...(result as object), changeId: change.id } });
+}));
+
+/**
+ * GET /machines/:id/offsets/history?path=1&toolNo=&limit=100
+ * 마모 오프셋 변경 이력 (최신순, 이전 값 / 쓴 값 / 작업자 / 되돌림 여부)
+ */
+router.get('/:id/offsets/history', asyncHandler(async (
+  req: Request,
+  res: Response<ApiResponse>
+) => {
+  const { id } = req.params;
+  const path   = req.query.path   ? parseInt(req.query.path as string) || undefined : undefined;
+  const toolNo = req.query.toolNo ? parseInt(req.query.toolNo as string) || undefined : undefined;
+  const limit  = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+  const machine = await prisma.machine.findFirst({
+    where: { OR: [{ id }, { machineId: id }] },
+  });
+  if (!machine) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '장비를 찾을 수 없습니다.' } });
+
+  return res.json({ success: true, data: await listOffsetChanges(machine.id, { path, toolNo, limit }) });
+}));
+
+/**
+ * POST /machines/:id/offsets/history/:changeId/revert
+ * 오프셋 변경 1건 되돌리기 (제어권 필요) — 변경 전 값을 다시 쓰고 새 이력으로 기록
+ * body: { force?, approval? }  현재 값이 변경 후 값과 다르면 force 없이는 409 OFFSET_CHANGED_SINCE
+ * 되돌리는 값도 안전 한계를 적용 (초과 시 approval 필요)
+ */
+router.post('/:id/offsets/history/:changeId/revert',
+  requirePermission('offsets.write', machineFromParam('id')),
+  asyncHandler(async (
+  req: Request,
+  res: Response<ApiResponse>
+) => {
+  const { id, changeId } = req.params;
+  const force = req.body?.force === true;
+
+  const machine = await prisma.machine.findFirst({
+    where: { OR: [{ id }, { machineId: id }] },
+  });
+  if (!machine) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '장비를 찾을 수 없습니다.' } });
+
+  const lock = await redisService.getControlLock(machine.machineId);
+  if (!lock || lock.ownerId !== req.user!.id)
+    return res.status(403).json({ success: false, error: { code: 'NO_CONTROL_LOCK', message: '제어권이 없습니다.' } });
+
+  const { change, violation, approvedBy } = await revertOffsetChange(
+    machine, changeId, req.user!.id, force, parseApproval(req.body?.approval),
+  );
+  if (approvedBy) await auditLimitOverride(req, machine.machineId, change, violation, approvedBy.username);
+  return res.json({ success: true, data: change });
 }));
 
 /**
@@ -760,7 +892,9 @@ router.get('/:id/count', asyncHandler(async (
  * 카운터 변수 쓰기 (제어권 필요)
  * body: { varNo, value }
  */
-router.put('/:id/count', asyncHandler(async (
+router.put('/:id/count',
+  requirePermission('count.write', machineFromParam('id')),
+  asyncHandler(async (
   req: Request,
   res: Response<ApiResponse>
 ) => {
@@ -817,7 +951,9 @@ router.get('/:id/tool-life', asyncHandler(async (
  * 공구 수명 변수 쓰기 (제어권 필요)
  * body: { varNo, value, varType?, dataType? }
  */
-router.put('/:id/tool-life', asyncHandler(async (
+router.put('/:id/tool-life',
+  requirePermission('tool-life.write', machineFromParam('id')),
+  asyncHandler(async (
   req: Request,
   res: Response<ApiResponse>
 ) => {
@@ -845,9 +981,19 @@ router.put('/:id/tool-life', asyncHandler(async (
 
 // ── DNC Config 라우트 ─────────────────────────────────────────────
 
+/** 저장된 서버 경로 → Agent 가 사용할 경로 (START payload 와 같은 변환) */
+function dncAgentPaths(dncConfig: unknown): Record<string, string> {
+  const cfg = (dncConfig ?? {}) as Record<string, unknown>;
+  const result: Record<string, string> = {};
+  for (const key of ['path1', 'path2', 'path3']) {
+    if (typeof cfg[key] === 'string') result[key] = toAgentPath(cfg[key] as string);
+  }
+  return result;
+}
+
 /**
  * GET /machines/:id/dnc-config
- * DNC 경로 설정 조회
+ * DNC 경로 설정 조회 — agentPaths: Agent 측 경로 (DNC_ROOTS 루트별 매핑)
  */
 router.get('/:id/dnc-config', asyncHandler(async (
   req: Request,
@@ -861,16 +1007,18 @@ router.get('/:id/dnc-config', asyncHandler(async (
   });
   if (!machine) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '장비를 찾을 수 없습니다.' } });
 
-  return res.json({ success: true, data: { machineId: machine.machineId, dncConfig: machine.dncConfig } });
+  return res.json({ success: true, data: { machineId: machine.machineId, dncConfig: machine.dncConfig, agentPaths: dncAgentPaths(machine.dncConfig) } });
 }));
 
 /**
  * PUT /machines/:id/dnc-config
  * DNC 경로 설정 저장 (Admin/HQ_ENGINEER)
  * body: { path1: string, path2: string, path3?: string }
+ * 경로는 허용 루트 안의 쓰기 가능한 기존 폴더여야 함 (빈 값 = 미설정)
+ * 서버 경로로 저장 — Agent 에는 루트의 agentPath 로 변환해 전달 (lib/fileRoots toAgentPath)
  */
 router.put('/:id/dnc-config',
-  authorize(UserRole.ADMIN, UserRole.HQ_ENGINEER),
+  requirePermission('machine.config', machineFromParam('id')),
   asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
     const { id } = req.params;
     const { path1, path2, path3, mainMode, subMode } = req.body as {
@@ -886,6 +1034,14 @@ router.put('/:id/dnc-config',
     });
     if (!machine) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '장비를 찾을 수 없습니다.' } });
 
+    for (const [key, value] of Object.entries({ path1, path2, path3 })) {
+      if (!value) continue;
+      const invalid = await validateDncPath(value);
+      if (invalid) {
+        return res.status(400).json({ success: false, error: { code: 'INVALID_DNC_PATH', message: `${key.toUpperCase()}: ${invalid}` } });
+      }
+    }
+
     const existing = (machine.dncConfig ?? {}) as Record<string, unknown>;
     const dncConfig = {
       ...existing,
@@ -902,7 +1058,7 @@ router.put('/:id/dnc-config',
       select: { machineId: true, dncConfig: true },
     });
 
-    return res.json({ success: true, data: { machineId: updated.machineId, dncConfig: updated.dncConfig } });
+    return res.json({ success: true, data: { machineId: updated.machineId, dncConfig: updated.dncConfig, agentPaths: dncAgentPaths(updated.dncConfig) } });
   })
 );
 
@@ -915,6 +1071,7 @@ interface TelemetryData {
   programNo: string;
   feedrate: number;
   spindleSpeed: number;
+  spindleLoad?: number;
   partsCount: number;
   alarmActive: boolean;
   absolutePosition?: number[];
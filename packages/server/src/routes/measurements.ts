@@ -0,0 +1,274 @@
+// Measurement Routes - 게이지 측정값 수집 / 측정 항목(공구·축 매핑) / 마모 오프셋 보정 제안
+//   수집: POST /api/measurements (JSON, 게이지 PC) · POST /api/measurements/csv (CSV 업로드) · POST /api/measurements/manual (POP)
+//   보정 적용은 오프셋 쓰기와 같은 규칙 (offsets.write + 제어권, 템플릿 안전 한계 초과 시 승인자 승인)
+//   수집 시 자동 적용은 입력자의 offsets.write 권한 + 다른 사용자 제어권 없음일 때만, 감사 로그 동일
+
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { CorrectionStatus, MeasurementSource } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { redisService } from '../lib/redis';
+import { authenticate, requirePermission, machineFromBody, MachineRefResolver } from '../middleware/auth';
+import { AppError } from '../middleware/error';
+import { parseApproval } from '../lib/offsets';
+import {
+  listFeatures, createFeature, updateFeature, deleteFeature, validateFeatureInput,
+  parseMeasurementCsv, parseMeasurementRows, ingestMeasurements,
+  listMeasurements, applyProposal, dismissProposal, AutoAppliedCorrection,
+} from '../lib/measurements';
+import { createAuditLog } from './audit';
+
+const router = Router();
+
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 2 * 1024 * 1024 } });
+
+router.use(authenticate);
+
+// 측정 항목 / 측정 기록의 장비 (권한 범위 평가용)
+const machineOfFeature: MachineRefResolver = async (req) =>
+  (await prisma.measurementFeature.findUnique({ where: { id: req.params.id }, select: { machineDbId: true } }))?.machineDbId;
+const machineOfMeasurement: MachineRefResolver = async (req) =>
+  (await prisma.measurement.findUnique({ where: { id: req.params.id }, select: { machineDbId: true } }))?.machineDbId;
+
+async function findMachine(ref: unknown) {
+  if (typeof ref !== 'string' || !ref) throw new AppError(400, 'INVALID_MACHINE', 'machineId가 필요합니다');
+  const machine = await prisma.machine.findFirst({ where: { OR: [{ id: ref }, { machineId: ref }] } });
+  if (!machine) throw new AppError(404, 'NOT_FOUND', '장비를 찾을 수 없습니다.');
+  return machine;
+}
+
+async function requireControlLock(req: Request, machineId: string) {
+  const lock = await redisService.getControlLock(machineId);
+  if (!lock || lock.ownerId !== req.user!.id) throw new AppError(403, 'NO_CONTROL_LOCK', '제어권이 없습니다.');
+}
+
+async function audit(req: Request, action: string, machineId: string, params: Record<string, unknown>) {
+  await createAuditLog({
+    userId: req.user!.id,
+    userRole: req.user!.role,
+    action,
+    targetType: 'machine',
+    targetId: machineId,
+    params,
+    result: 'success',
+    ipAddress: req.ip ?? 'unknown',
+  });
+}
+
+// 수집 중 자동 적용된 보정 — POST /:id/apply 와 같은 감사 로그
+const auditAutoApplied = (req: Request, machineId: string) => async (applied: AutoAppliedCorrection) => {
+  await audit(req, 'measurement.apply', machineId, {
+    measurementId: applied.measurementId,
+    correction: applied.correction,
+    changeId: applied.change.id,
+    toolNo: applied.change.toolNo,
+    axis: applied.change.axis,
+    oldValue: applied.change.oldValue,
+    newValue: applied.change.newValue,
+    violation: applied.violation,
+    approvedBy: applied.approvedBy?.username ?? null,
+    auto: true,
+  });
+};
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/measurements/features?machineId=
+// 장비 측정 항목 목록
+// ─────────────────────────────────────────────────────────────
+router.get('/features', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const machine = await findMachine(req.query.machineId);
+    return res.json({ success: true, data: await listFeatures(machine.id) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/measurements/features
+// 측정 항목 등록
+// Body: { machineId, name, description?, nominal, lowerTol, upperTol, path?, toolNo?, axis?, gain?, deadBand?, autoApply?, isActive?,
+//         productCode?, subgroupSize?, sampleVarKey?, sampleIntervalSec? }  (toolNo / axis 없으면 SPC 전용)
+// ─────────────────────────────────────────────────────────────
+router.post('/features', requirePermission('offsets.write', machineFromBody()), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const machine = await findMachine(req.body?.machineId);
+    const invalid = validateFeatureInput(req.body ?? {});
+    if (invalid) return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: invalid } });
+
+    const feature = await createFeature(machine.id, req.body);
+    await audit(req, 'measurement.feature.create', machine.machineId, { featureId: feature.id, ...req.body });
+    return res.status(201).json({ success: true, data: feature });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// PUT /api/measurements/features/:id
+// 측정 항목 수정 (보낸 필드만)
+// ─────────────────────────────────────────────────────────────
+router.put('/features/:id', requirePermission('offsets.write', machineOfFeature), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const machine = await findMachine(await machineOfFeature(req));
+    const invalid = validateFeatureInput(req.body ?? {}, true);
+    if (invalid) return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: invalid } });
+
+    const feature = await updateFeature(machine.id, req.params.id, req.body);
+    await audit(req, 'measurement.feature.update', machine.machineId, { featureId: feature.id, ...req.body });
+    return res.json({ success: true, data: feature });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// DELETE /api/measurements/features/:id
+// 측정 항목 삭제 (측정 기록 포함)
+// ─────────────────────────────────────────────────────────────
+router.delete('/features/:id', requirePermission('offsets.write', machineOfFeature), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const machine = await findMachine(await machineOfFeature(req));
+    const feature = await deleteFeature(machine.id, req.params.id);
+    await audit(req, 'measurement.feature.delete', machine.machineId, { featureId: feature.id, name: feature.name });
+    return res.json({ success: true, data: { id: feature.id, deleted: true } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/measurements?machineId=&featureId=&status=&from=&to=&limit=200
+// 측정 기록 (최신순) — 추세 / 보정 제안 목록
+// ─────────────────────────────────────────────────────────────
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const machine = await findMachine(req.query.machineId);
+    const { featureId, status, from, to } = req.query;
+    if (status !== undefined && !Object.values(CorrectionStatus).includes(status as CorrectionStatus)) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: 'status 값이 올바르지 않습니다' } });
+    }
+    const fromDate = typeof from === 'string' ? new Date(from) : undefined;
+    const toDate = typeof to === 'string' ? new Date(to) : undefined;
+    if ((fromDate && Number.isNaN(fromDate.getTime())) || (toDate && Number.isNaN(toDate.getTime()))) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: '기간 형식이 올바르지 않습니다' } });
+    }
+    const data = await listMeasurements(machine.id, {
+      featureId: typeof featureId === 'string' ? featureId : undefined,
+      status: status as CorrectionStatus | undefined,
+      from: fromDate,
+      to: toDate,
+      limit: Math.min(parseInt(req.query.limit as string) || 200, 2000),
+    });
+    return res.json({ success: true, data });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/measurements
+// 게이지 PC 측정값 수집
+// Body: { machineId, measurements: [{ feature, value, measuredAt?, sampleId?, productCode? }] }
+// ─────────────────────────────────────────────────────────────
+router.post('/', requirePermission('measurement.write', machineFromBody()), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const machine = await findMachine(req.body?.machineId);
+    const { rows, errors } = parseMeasurementRows(req.body?.measurements);
+    const result = await ingestMeasurements(
+      machine, rows, MeasurementSource.GAUGE_API, req.user!, auditAutoApplied(req, machine.machineId),
+    );
+    return res.json({ success: true, data: { ...result, errors: [...errors, ...result.errors] } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/measurements/manual
+// POP 수기 입력 (1건)
+// Body: { machineId, feature, value, productCode?, sampleId? }
+// ─────────────────────────────────────────────────────────────
+router.post('/manual', requirePermission('measurement.write', machineFromBody()), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const machine = await findMachine(req.body?.machineId);
+    const { feature, value, productCode, sampleId } = req.body ?? {};
+    const { rows, errors } = parseMeasurementRows([{ feature, value, productCode, sampleId }]);
+    const result = await ingestMeasurements(
+      machine, rows, MeasurementSource.MANUAL, req.user!, auditAutoApplied(req, machine.machineId),
+    );
+    const error = [...errors, ...result.errors][0];
+    if (error) return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: error.message } });
+    return res.json({ success: true, data: result });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/measurements/csv
+// 게이지 CSV 업로드 (multipart: file, machineId) — 머리글 feature,value[,measuredAt][,sampleId][,productCode]
+// ─────────────────────────────────────────────────────────────
+router.post('/csv', upload.single('file'), requirePermission('measurement.write', machineFromBody()),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const machine = await findMachine(req.body?.machineId);
+      if (!req.file) {
+        return res.status(400).json({ success: false, error: { code: 'NO_FILE', message: 'CSV 파일이 없습니다' } });
+      }
+      const { rows, errors } = parseMeasurementCsv(req.file.buffer.toString('utf-8'));
+      const result = await ingestMeasurements(
+        machine, rows, MeasurementSource.GAUGE_CSV, req.user!, auditAutoApplied(req, machine.machineId),
+      );
+      return res.json({ success: true, data: { ...result, errors: [...errors, ...result.errors] } });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/measurements/:id/apply
+// 보정 제안 적용 (제어권 필요) — 현재 마모 오프셋 + 보정량 WRITE_OFFSET
+// Body: { approval? }  템플릿 안전 한계 초과 시 409 OFFSET_LIMIT_EXCEEDED → 다른 승인자 승인 필요
+// ─────────────────────────────────────────────────────────────
+router.post('/:id/apply', requirePermission('offsets.write', machineOfMeasurement), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const machine = await findMachine(await machineOfMeasurement(req));
+    await requireControlLock(req, machine.machineId);
+
+    const { measurement, change, violation, approvedBy } = await applyProposal(
+      machine, req.params.id, req.user!.id, parseApproval(req.body?.approval),
+    );
+    await audit(req, 'measurement.apply', machine.machineId, {
+      measurementId: measurement.id,
+      correction: measurement.correction,
+      changeId: change.id,
+      toolNo: change.toolNo,
+      axis: change.axis,
+      oldValue: change.oldValue,
+      newValue: change.newValue,
+      violation,
+      approvedBy: approvedBy?.username ?? null,
+    });
+    return res.json({ success: true, data: measurement });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/measurements/:id/dismiss
+// 보정 제안 기각
+// Body: { note? }
+// ─────────────────────────────────────────────────────────────
+router.post('/:id/dismiss', requirePermission('offsets.write', machineOfMeasurement), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const machine = await findMachine(await machineOfMeasurement(req));
+    const note = typeof req.body?.note === 'string' ? req.body.note.trim() : undefined;
+    return res.json({ success: true, data: await dismissProposal(machine.id, req.params.id, note) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// 순수 함수만 검사 — DB / Redis / WS 연결 모듈은 로드하지 않음
+vi.mock('../lib/prisma', () => ({ prisma: {} }));
+vi.mock('../lib/redis', () => ({ redisService: {}, REDIS_KEYS: {} }));
+vi.mock('../lib/websocket', () => ({ wsService: {} }));
+
+import { m20PartsCount } from './production';
+
+describe('m20PartsCount — 스케줄러 행', () => {
+  const prev = { rowId: 'row-1', programNo: 'O1000', count: 5 };
+
+  it('count 증가분', () => {
+    expect(m20PartsCount(prev, { rowId: 'row-1', programNo: 'O1000', count: 6 })).toBe(1);
+    expect(m20PartsCount(prev, { rowId: 'row-1', programNo: 'O1000', count: 8 })).toBe(3);
+  });
+
+  it('count 동일 (같은 M20 중복 보고) 은 0', () => {
+    expect(m20PartsCount(prev, { rowId: 'row-1', programNo: 'O1000', count: 5 })).toBe(0);
+  });
+
+  it('count 감소 (리셋) 는 1', () => {
+    expect(m20PartsCount(prev, { rowId: 'row-1', programNo: 'O1000', count: 1 })).toBe(1);
+  });
+
+  it('기준값 없음 / 행·프로그램 변경 시 재설정 — count 0 은 첫 M20 제외', () => {
+    expect(m20PartsCount(undefined, { rowId: 'row-1', programNo: 'O1000', count: 3 })).toBe(1);
+    expect(m20PartsCount(undefined, { rowId: 'row-1', programNo: 'O1000', count: 0 })).toBe(0);
+    expect(m20PartsCount(prev, { rowId: 'row-2', programNo: 'O1000', count: 9 })).toBe(1);
+    expect(m20PartsCount(prev, { rowId: 'row-1', programNo: 'O2000', count: 0 })).toBe(0);
+  });
+});
+
+describe('m20PartsCount — 매크로 카운터', () => {
+  const prev = { programNo: 'O1000', count: 100 };
+
+  it('count 증가분', () => {
+    expect(m20PartsCount(prev, { programNo: 'O1000', count: 102 })).toBe(2);
+  });
+
+  it('count 동일 / 감소 / 기준값 없음은 1', () => {
+    expect(m20PartsCount(prev, { programNo: 'O1000', count: 100 })).toBe(1);
+    expect(m20PartsCount(prev, { programNo: 'O1000', count: 0 })).toBe(1);
+    expect(m20PartsCount(undefined, { programNo: 'O1000', count: 0 })).toBe(1);
+    expect(m20PartsCount(prev, { programNo: 'O2000', count: 150 })).toBe(1);
+  });
+
+  it('스케줄러 행 기준값과 섞이지 않음', () => {
+    expect(m20PartsCount({ rowId: 'row-1', programNo: 'O1000', count: 5 }, { programNo: 'O1000', count: 7 })).toBe(1);
+  });
+
+  it('count 없이 보고된 M20 은 1', () => {
+    expect(m20PartsCount(prev, { programNo: 'O1000' })).toBe(1);
+    expect(m20PartsCount(undefined, { rowId: 'row-1', programNo: 'O1000' })).toBe(1);
+  });
+});
@@ -2,46 +2,49 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { prisma } from '../lib/prisma';
-import { authenticate } from '../middleware/auth';
+import { redisService, REDIS_KEYS } from '../lib/redis';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { createAuditLog } from './audit';
+import { computeOee, loadIdealCycleTimes, OEE_GROUP_BY, OeeGroupBy, IDEAL_CYCLE_TIMES_KEY } from '../lib/oee';
+import {
+  loadShiftCalendar,
+  patternFor,
+  resolveTimeRange,
+  shiftOccurrences,
+  TIME_RANGES,
+  TimeRange,
+} from '../lib/shiftCalendar';
 
 const router = Router();
 
 // Get production statistics
 router.get('/stats', authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { timeRange, machineId } = req.query;
-
-    // Calculate date range
-    const now = new Date();
-    let startDate: Date;
-
-    switch (timeRange) {
-      case 'week':
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case 'month':
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      case 'today':
-      default:
-        startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        break;
-    }
-
-    // Build where clause
-    const logWhere: Record<string, unknown> = {
-      startTime: { gte: startDate },
-    };
+    const { machineId } = req.query;
+    const timeRange: TimeRange = TIME_RANGES.includes(req.query.timeRange as TimeRange)
+      ? (req.query.timeRange as TimeRange)
+      : 'today';
 
     let filteredMachineId: string | undefined;
     if (machineId && typeof machineId === 'string') {
       const machine = await prisma.machine.findUnique({ where: { machineId } });
       if (machine) {
-        logWhere.machineId = machine.id;
         filteredMachineId = machine.id;
       }
     }
 
+    // Calculate date range (교대/생산일 기준)
+    const now = new Date();
+    const calendar = await loadShiftCalendar();
+    const pattern = patternFor(calendar, filteredMachineId);
+    const startDate = resolveTimeRange(timeRange, pattern, now).start;
+
+    // Build where clause
+    const logWhere: Record<string, unknown> = {
+      startTime: { gte: startDate },
+    };
+    if (filteredMachineId) logWhere.machineId = filteredMachineId;
+
     // All active machines
     const machines = await prisma.machine.findMany({
       where: filteredMachineId ? { id: filteredMachineId } : { isActive: true },
@@ -76,35 +79,32 @@ router.get('/stats', authenticate, async (req: Request, res: Response, next: Nex
       targetByMachineId.set(wo.assignedMachine, prev + wo.targetQuantity);
     }
 
-    // ── per-machine stats ──────────────────────────────────────
-    const plannedMinutes = (now.getTime() - startDate.getTime()) / 60000;
+    // ── per-machine stats (OEE 엔진) ───────────────────────────
+    const oee = await computeOee({ machineDbIds: machines.map((m) => m.id), from: startDate, to: now, calendar });
 
     const stats = machines.map((m) => {
       const machineLogs = logs.filter((l) => l.machineId === m.id);
-      const totalParts = machineLogs.reduce((s, l) => s + l.partsCount, 0);
-      const runTimeMin  = machineLogs.reduce((s, l) => s + l.cycleTime, 0) / 60; // cycleTime은 seconds
+      const totalParts  = machineLogs.reduce((s, l) => s + l.partsCount, 0);
       const targetParts = targetByMachineId.get(m.machineId) ?? 0;
+      const figures     = oee.byMachine[m.id];
 
-      const availability  = plannedMinutes > 0 ? Math.min((runTimeMin / plannedMinutes) * 100, 100) : 0;
-      const idealCycleMin = 0.5; // 30초/개 가정
-      const performance   = runTimeMin > 0 ? Math.min((idealCycleMin * totalParts) / runTimeMin * 100, 100) : 0;
-      const quality       = 98; // 기본 98%
-      const oee           = (availability * performance * quality) / 10000;
-      const downTimeMin   = Math.max(0, plannedMinutes - runTimeMin);
-      const idleTimeMin   = 0;
+      const plannedMin  = figures?.plannedTime ?? 0;
+      const runTimeMin  = figures?.runTime ?? 0;
+      const downTimeMin = Math.max(0, plannedMin - runTimeMin);
+      const idleTimeMin = 0;
 
       return {
         machineId:    m.machineId,
         machineName:  m.name,
         totalParts,
         targetParts,
-        runTime:      Math.round(runTimeMin),
-        idleTime:     Math.round(idleTimeMin),
-        downTime:     Math.round(downTimeMin),
-        availability: Math.round(availability * 10) / 10,
-        performance:  Math.round(performance * 10) / 10,
-        quality,
-        oee:          Math.round(oee * 10) / 10,
+        runTime:      runTimeMin,
+        idleTime:     idleTimeMin,
+        downTime:     downTimeMin,
+        availability: figures?.availability ?? 0,
+        performance:  figures?.performance ?? 0,
+        quality:      figures?.quality ?? 0,
+        oee:          figures?.oee ?? 0,
       };
     });
 
@@ -112,27 +112,27 @@ router.get('/stats', authenticate, async (req: Request, res: Response, next: Nex
     const chart: { date: string; production: number; target: number }[] = [];
     const totalTargetParts = stats.reduce((s, st) => s + st.targetParts, 0);
 
-    if (timeRange === 'today') {
-      // 시간별 (0~현재시)
-      const currentHour = now.getHours();
-      for (let h = 0; h <= currentHour; h++) {
+    if (timeRange === 'today' || timeRange === 'shift') {
+      // 시간별 (생산일/교대 시작 ~ 현재시)
+      const hours = Math.floor((now.getTime() - startDate.getTime()) / 3600000);
+      for (let h = 0; h <= hours; h++) {
         const from = new Date(startDate.getTime() + h * 3600000);
         const to   = new Date(from.getTime() + 3600000);
         const prod = logs
           .filter((l) => l.startTime >= from && l.startTime < to)
           .reduce((s, l) => s + l.partsCount, 0);
         chart.push({
-          date:       `${String(h).padStart(2, '0')}시`,
+          date:       `${String(from.getHours()).padStart(2, '0')}시`,
           production: prod,
           target:     Math.round(totalTargetParts / 24),
         });
       }
     } else {
-      // 날짜별
+      // 생산일별
       const days = timeRange === 'week' ? 7 : 30;
-      for (let d = days - 1; d >= 0; d--) {
-        const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate() - d);
-        const dayEnd   = new Date(dayStart.getTime() + 86400000);
+      for (let d = 0; d < days; d++) {
+        const dayStart = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + d, startDate.getHours(), startDate.getMinutes());
+        const dayEnd   = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + d + 1, startDate.getHours(), startDate.getMinutes());
         const prod = logs
           .filter((l) => l.startTime >= dayStart && l.startTime < dayEnd)
           .reduce((s, l) => s + l.partsCount, 0);
@@ -145,15 +145,206 @@ router.get('/stats', authenticate, async (req: Request, res: Response, next: Nex
       }
     }
 
+    // ── 교대별 생산량 ─────────────────────────────────────────
+    const byShift = shiftOccurrences(pattern, startDate, now).map((o) => ({
+      label:      o.label,
+      shiftName:  o.shiftName,
+      start:      o.start.toISOString(),
+      end:        o.end.toISOString(),
+      production: logs
+        .filter((l) => l.endTime >= o.start && l.endTime < o.end)
+        .reduce((s, l) => s + l.partsCount, 0),
+    }));
+
     res.json({
       success: true,
-      data: { stats, chart },
+      data: { stats, chart, byShift, range: { from: startDate.toISOString(), to: now.toISOString() } },
     });
   } catch (error) {
     next(error);
   }
 });
 
+/**
+ * GET /api/production/oee?machineId&from&to&timeRange&groupBy=shift|day|week
+ * OEE 구성요소(가동률/성능/품질) 기간별 집계
+ * 기본 기간: 오늘 생산일 시작 ~ 현재
+ */
+router.get('/oee', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { machineId, groupBy, timeRange } = req.query as { machineId?: string; groupBy?: string; timeRange?: string };
+
+    if (groupBy && !OEE_GROUP_BY.includes(groupBy as OeeGroupBy)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_GROUP_BY', message: 'groupBy는 shift, day, week 중 하나여야 합니다.' },
+      });
+    }
+
+    let machines;
+    if (machineId) {
+      const machine = await prisma.machine.findUnique({ where: { machineId } });
+      if (!machine) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'MACHINE_NOT_FOUND', message: '장비를 찾을 수 없습니다' },
+        });
+      }
+      machines = [machine];
+    } else {
+      machines = await prisma.machine.findMany({ where: { isActive: true } });
+    }
+
+    // 기간: from/to 지정 → 그대로, 아니면 timeRange(기본 today) 생산일 기준
+    const now = new Date();
+    const calendar = await loadShiftCalendar();
+    const range = resolveTimeRange(
+      TIME_RANGES.includes(timeRange as TimeRange) ? (timeRange as TimeRange) : 'today',
+      patternFor(calendar, machines.length === 1 ? machines[0].id : undefined),
+      now,
+    );
+    const from = req.query.from ? new Date(req.query.from as string) : range.start;
+    const to   = req.query.to   ? new Date(req.query.to as string)   : now;
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_RANGE', message: '조회 기간이 올바르지 않습니다.' },
+      });
+    }
+
+    const result = await computeOee({
+      machineDbIds: machines.map((m) => m.id),
+      from,
+      to,
+      groupBy: (groupBy as OeeGroupBy | undefined) ?? 'day',
+      calendar,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        from: from.toISOString(),
+        to:   to.toISOString(),
+        groupBy: groupBy ?? 'day',
+        summary: result.summary,
+        periods: result.periods,
+        machines: machines.map((m) => ({
+          machineId:   m.machineId,
+          machineName: m.name,
+          ...(result.byMachine[m.id] ?? null),
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/production/ideal-cycle-times
+ * 프로그램별 이상 사이클타임(초/개) 조회 — OEE 성능 기준값
+ */
+router.get('/ideal-cycle-times', authenticate, async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = await loadIdealCycleTimes();
+    res.json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/production/ideal-cycle-times
+ * 프로그램별 이상 사이클타임 저장 (ADMIN 이상) — body: { [programNo]: seconds }
+ */
+router.put('/ideal-cycle-times', authenticate, requirePermission('production.edit'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const body = req.body as Record<string, unknown>;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_INPUT', message: '잘못된 형식입니다.' } });
+    }
+
+    const value: Record<string, number> = {};
+    for (const [programNo, sec] of Object.entries(body)) {
+      if (typeof sec !== 'number' || !(sec > 0)) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_INPUT', message: `${programNo}: 사이클타임은 0보다 큰 숫자여야 합니다.` },
+        });
+      }
+      value[programNo] = sec;
+    }
+
+    const updatedBy = req.user?.username ?? 'unknown';
+    await prisma.globalSetting.upsert({
+      where:  { key: IDEAL_CYCLE_TIMES_KEY },
+      update: { value, updatedBy },
+      create: { key: IDEAL_CYCLE_TIMES_KEY, value, updatedBy },
+    });
+
+    res.json({ success: true, data: value });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/production/logs/:logId/scrap
+ * 생산 실적 불량 수 입력 (production.edit, 감사 로그 기록) — body: { scrapCount }
+ */
+router.put('/logs/:logId/scrap', authenticate, requirePermission('production.edit'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { logId } = req.params;
+    const { scrapCount } = req.body as { scrapCount?: number };
+
+    const log = await prisma.productionLog.findUnique({
+      where: { id: logId },
+      include: { machine: { select: { machineId: true } } },
+    });
+    if (!log) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: '생산 실적을 찾을 수 없습니다' },
+      });
+    }
+
+    if (typeof scrapCount !== 'number' || !Number.isInteger(scrapCount) || scrapCount < 0 || scrapCount > log.partsCount) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_INPUT', message: `불량 수는 0 ~ ${log.partsCount} 사이의 정수여야 합니다.` },
+      });
+    }
+
+    const updated = await prisma.productionLog.update({
+      where: { id: logId },
+      data: { scrapCount },
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'production.scrap',
+      targetType: 'production_log',
+      targetId: logId,
+      params: {
+        machineId: log.machine.machineId,
+        programNo: log.programNo,
+        endTime: log.endTime,
+        partsCount: log.partsCount,
+        before: log.scrapCount,
+        after: scrapCount,
+      },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get production logs for a machine
 router.get('/:machineId/logs', authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -224,4 +415,171 @@ export async function recordProduction(data: {
   }
 }
 
+// ─── Agent 이벤트 → 생산 실적 자동 기록 (index.ts에서 MQTT 핸들러로 호출) ─────
+//
+//   PROGRAM_START ──▶ 사이클 시작
+//   M20_COMPLETE  ──▶ 사이클 완료 기록 (completed / error) → 다음 사이클 시작
+//   PROGRAM_END   ──▶ 잔여 사이클 기록 (interrupted / error)
+//   AGENT_ALARM   ──▶ 진행 중 사이클에 알람 누적 → status=error
+
+// M20 이후 PROGRAM_END까지의 잔여 구간이 이보다 짧으면 (복귀/리와인드) 기록하지 않음
+const MIN_PARTIAL_CYCLE_SEC = 10;
+
+interface OpenCycle {
+  programNo: string;
+  startTime: Date;
+  alarms: number[];
+  hasCompleted: boolean;   // 이 프로그램 실행 중 M20 완료가 1회 이상 있었는지
+}
+
+const openCycles = new Map<string, OpenCycle>();   // machineId → 진행 중 사이클
+
+// M20 count 기준값 — 스케줄러 행 Count 와 매크로 카운터는 별개 값이므로 출처별로 유지
+export interface M20Baseline {
+  rowId?: string;      // 스케줄러 행 (없으면 매크로 카운터)
+  programNo: string;
+  count: number;
+}
+
+const m20Baselines = new Map<string, M20Baseline>();   // `${machineId}|row` / `${machineId}|macro` → 마지막 M20
+
+/**
+ * M20 1회의 생산 수
+ *   count 없음                    → 1
+ *   기준값 없음 / 행·프로그램 변경 → 1 (재설정, 스케줄러 행 count 0 = 첫 M20 제외 → 0)
+ *   증가                          → 증분
+ *   동일                          → 스케줄러 행은 0 (첫 M20 제외), 매크로 카운터는 1
+ *   감소 (카운터 리셋)            → 1
+ */
+export function m20PartsCount(prev: M20Baseline | undefined, next: { rowId?: string; programNo: string; count?: number }): number {
+  const { count } = next;
+  const fromScheduler = !!next.rowId;
+  if (count === undefined) return 1;
+  if (!prev || prev.rowId !== next.rowId || prev.programNo !== next.programNo) return fromScheduler && count === 0 ? 0 : 1;
+  if (count > prev.count) return count - prev.count;
+  if (count === prev.count) return fromScheduler ? 0 : 1;
+  return 1;
+}
+
+function cycleStatus(cycle: OpenCycle, fallback: 'completed' | 'interrupted') {
+  return cycle.alarms.length > 0
+    ? { status: 'error', errorCode: String(cycle.alarms[0]) }
+    : { status: fallback, errorCode: undefined };
+}
+
+/**
+ * PROGRAM_START: 진행 중 사이클이 있으면 중단 처리 후 새 사이클 시작
+ */
+export async function handleProgramStart(machineId: string, programNo?: string): Promise<void> {
+  try {
+    const now = new Date();
+    const prev = openCycles.get(machineId);
+    if (prev && !prev.hasCompleted) {
+      await recordProduction({
+        machineId,
+        programNo: prev.programNo,
+        startTime: prev.startTime,
+        endTime:   now,
+        partsCount: 0,
+        ...cycleStatus(prev, 'interrupted'),
+      });
+    }
+
+    openCycles.set(machineId, {
+      programNo: programNo || prev?.programNo || '',
+      startTime: now,
+      alarms: [],
+      hasCompleted: false,
+    });
+  } catch (error) {
+    console.error('[Production] handleProgramStart error:', error);
+  }
+}
+
+/**
+ * M20_COMPLETE: 현재 사이클을 완료로 기록하고 다음 사이클 시작
+ * count 증분으로 생산 수 산출 — rowId 있으면 스케줄러 행 Count, 없으면 매크로 카운터 (m20PartsCount)
+ * (생산 수 0 = 스케줄러 첫 M20 제외 → 기록 없이 사이클만 재시작)
+ */
+export async function handleProductionM20(machineId: string, programNo?: string, count?: number, rowId?: string): Promise<void> {
+  try {
+    const now = new Date();
+
+    const baselineKey = `${machineId}|${rowId ? 'row' : 'macro'}`;
+    const baseline = { rowId, programNo: programNo || '', count };
+    const partsCount = m20PartsCount(m20Baselines.get(baselineKey), baseline);
+    if (count !== undefined) m20Baselines.set(baselineKey, { ...baseline, count });
+
+    let cycle = openCycles.get(machineId);
+    if (!cycle) {
+      // PROGRAM_START 미수신 (서버 재시작 등) — 텔레메트리 사이클타임으로 시작 시각 추정
+      const telemetry = await redisService.get<{ cycleTime?: number }>(REDIS_KEYS.MACHINE_TELEMETRY(machineId));
+      const cycleSec = telemetry?.cycleTime ?? 0;
+      cycle = {
+        programNo: programNo || '',
+        startTime: new Date(now.getTime() - cycleSec * 1000),
+        alarms: [],
+        hasCompleted: false,
+      };
+    }
+
+    if (partsCount > 0) {
+      await recordProduction({
+        machineId,
+        programNo: programNo || cycle.programNo,
+        startTime: cycle.startTime,
+        endTime:   now,
+        partsCount,
+        ...cycleStatus(cycle, 'completed'),
+      });
+    }
+
+    openCycles.set(machineId, {
+      programNo: programNo || cycle.programNo,
+      startTime: now,
+      alarms: [],
+      hasCompleted: true,
+    });
+  } catch (error) {
+    console.error('[Production] handleProductionM20 error:', error);
+  }
+}
+
+/**
+ * PROGRAM_END: 잔여 사이클 기록 (M20 없이 종료 = 중단, 알람 발생 = 에러)
+ */
+export async function handleProgramEnd(machineId: string, programNo?: string): Promise<void> {
+  try {
+    const cycle = openCycles.get(machineId);
+    if (!cycle) return;
+    openCycles.delete(machineId);
+
+    const now = new Date();
+    const elapsedSec = (now.getTime() - cycle.startTime.getTime()) / 1000;
+    const isTail = cycle.hasCompleted && cycle.alarms.length === 0 && elapsedSec < MIN_PARTIAL_CYCLE_SEC;
+    if (isTail) return;
+
+    await recordProduction({
+      machineId,
+      programNo: cycle.programNo || programNo || '',
+      startTime: cycle.startTime,
+      endTime:   now,
+      partsCount: 0,
+      ...cycleStatus(cycle, 'interrupted'),
+    });
+  } catch (error) {
+    console.error('[Production] handleProgramEnd error:', error);
+  }
+}
+
+/**
+ * 알람 발생 시 진행 중 사이클에 기록
+ */
+export function noteProductionAlarm(machineId: string, alarmNo: number): void {
+  const cycle = openCycles.get(machineId);
+  if (cycle && !cycle.alarms.includes(alarmNo)) {
+    cycle.alarms.push(alarmNo);
+  }
+}
+
 export default router;
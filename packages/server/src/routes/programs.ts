@@ -0,0 +1,218 @@
+// Programs Routes - NC 프로그램 저장소 (리비전 이력 / 체크아웃 / 승인 · 릴리스)
+//   파일 저장 / 삭제는 /api/files/write · delete 가 lib/programRepo 를 거쳐 리비전 기록
+//   여기서는 이력 조회, 비교, 롤백, 체크아웃 / 체크인, 상태 전환
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requirePermission, machineFromBody, MachineRefResolver } from '../middleware/auth';
+import { hasPermission } from '../lib/permissions';
+import { prisma } from '../lib/prisma';
+import {
+  findProgram, getProgram, trackProgram, listRevisions, getRevisionContent, diffRevisions, rollbackProgram,
+  checkoutProgram, checkinProgram, advanceProgram, reopenProgram, ProgramRef,
+} from '../lib/programRepo';
+import { isValidProductCode } from '../lib/programLibrary';
+import { createAuditLog } from './audit';
+
+const router = Router();
+
+router.use(authenticate);
+
+// 경로 순회 공격 방지 (path component 검증)
+function isSafeName(s: unknown): s is string {
+  return typeof s === 'string' && s.length > 0 && !s.includes('..') && !s.includes('/') && !s.includes('\\');
+}
+
+// 요청 → ProgramRef (잘못된 값이면 null)
+function parseRef(src: Record<string, unknown>): ProgramRef | null {
+  const { root, machineId, pathKey, fileName } = src;
+  if (!isSafeName(fileName)) return null;
+  if (root === 'TRANSFER_SHARE') return { root, fileName };
+  if (root === 'LIBRARY' && isValidProductCode(pathKey)) return { root, pathKey, fileName };
+  if (root === 'SCHEDULER_REPO' && isSafeName(machineId) && isSafeName(pathKey)) {
+    return { root, machineId, pathKey, fileName };
+  }
+  return null;
+}
+
+// 프로그램 단위 라우트 (/:id) 권한은 저장소 장비 범위로 평가 (share 프로그램은 전체 범위)
+const programMachine: MachineRefResolver = async (req) =>
+  (await prisma.program.findUnique({ where: { id: req.params.id }, select: { machineDbId: true } }))?.machineDbId;
+
+async function audit(req: Request, action: string, programId: string, params: Record<string, unknown>) {
+  await createAuditLog({
+    userId: req.user!.id,
+    userRole: req.user!.role,
+    action,
+    targetType: 'program',
+    targetId: programId,
+    params,
+    result: 'success',
+    ipAddress: req.ip ?? 'unknown',
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/programs/lookup?root=&machineId=&pathKey=&fileName=
+// 파일의 저장소 정보 (미등록이면 data: null)
+// ─────────────────────────────────────────────────────────────
+router.get('/lookup', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const ref = parseRef(req.query);
+    if (!ref) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: '저장소 / 파일 정보가 유효하지 않습니다' } });
+    }
+    return res.json({ success: true, data: await findProgram(ref) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/programs/track
+// 기존 디스크 파일 저장소 등록 (현재 내용 = 첫 리비전)
+// Body: { root, machineId?, pathKey?, fileName, message? }
+// ─────────────────────────────────────────────────────────────
+router.post('/track', requirePermission('program.edit', machineFromBody()), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const ref = parseRef(req.body);
+    if (!ref) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: '저장소 / 파일 정보가 유효하지 않습니다' } });
+    }
+    const program = await trackProgram(ref, { userId: req.user!.id, message: req.body.message });
+    await audit(req, 'program.track', program.id, { ...ref, revision: program.revision });
+    return res.status(201).json({ success: true, data: program });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/programs/:id
+// 프로그램 정보 + 리비전 이력 (최신순, 본문 제외)
+// ─────────────────────────────────────────────────────────────
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const [program, revisions] = await Promise.all([getProgram(req.params.id), listRevisions(req.params.id)]);
+    return res.json({ success: true, data: { ...program, revisions } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/programs/:id/revisions/:revision
+// 리비전 본문
+// ─────────────────────────────────────────────────────────────
+router.get('/:id/revisions/:revision', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const revision = Number(req.params.revision);
+    if (!Number.isInteger(revision) || revision < 1) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: '리비전 번호가 유효하지 않습니다' } });
+    }
+    const content = await getRevisionContent(req.params.id, revision);
+    return res.json({ success: true, data: { revision, content } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/programs/:id/diff?from=&to=
+// 두 리비전 줄 diff (from → to)
+// ─────────────────────────────────────────────────────────────
+router.get('/:id/diff', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const from = Number(req.query.from);
+    const to = Number(req.query.to);
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: 'from, to 리비전 번호 필요' } });
+    }
+    return res.json({ success: true, data: { from, to, ...(await diffRevisions(req.params.id, from, to)) } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/programs/:id/rollback
+// 이전 리비전 내용으로 새 리비전 생성 (DRAFT)
+// Body: { revision, message? }
+// ─────────────────────────────────────────────────────────────
+router.post('/:id/rollback', requirePermission('program.edit', programMachine), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const revision = Number(req.body?.revision);
+    if (!Number.isInteger(revision) || revision < 1) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_PARAMS', message: '리비전 번호가 유효하지 않습니다' } });
+    }
+    const program = await rollbackProgram(req.params.id, revision, { userId: req.user!.id, message: req.body.message });
+    await audit(req, 'program.rollback', program.id, { fileName: program.fileName, from: revision, revision: program.revision });
+    return res.json({ success: true, data: program });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/programs/:id/checkout | /checkin
+// 체크아웃 = 본인만 저장 가능, 체크인 = 해제 (program.approve 보유자는 다른 사용자 잠금 해제 가능)
+// ─────────────────────────────────────────────────────────────
+router.post('/:id/checkout', requirePermission('program.edit', programMachine), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const program = await checkoutProgram(req.params.id, req.user!.id);
+    await audit(req, 'program.checkout', program.id, { fileName: program.fileName });
+    return res.json({ success: true, data: program });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/:id/checkin', requirePermission('program.edit', programMachine), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const machineDbId = await programMachine(req);
+    const machine = machineDbId
+      ? await prisma.machine.findUnique({ where: { id: machineDbId }, select: { machineId: true, location: true } })
+      : null;
+    const force = await hasPermission(req.user!, 'program.approve', machine);
+    const program = await checkinProgram(req.params.id, req.user!.id, force);
+    await audit(req, 'program.checkin', program.id, { fileName: program.fileName });
+    return res.json({ success: true, data: program });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// POST /api/programs/:id/approve | /release | /reopen
+// DRAFT → APPROVED → RELEASED, reopen = 승인 / 릴리스 철회 (→ DRAFT)
+// ─────────────────────────────────────────────────────────────
+router.post('/:id/approve', requirePermission('program.approve', programMachine), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const program = await advanceProgram(req.params.id, 'APPROVED', req.user!.id);
+    await audit(req, 'program.approve', program.id, { fileName: program.fileName, revision: program.revision });
+    return res.json({ success: true, data: program });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/:id/release', requirePermission('program.approve', programMachine), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const program = await advanceProgram(req.params.id, 'RELEASED', req.user!.id);
+    await audit(req, 'program.release', program.id, { fileName: program.fileName, revision: program.revision });
+    return res.json({ success: true, data: program });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post('/:id/reopen', requirePermission('program.approve', programMachine), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const program = await reopenProgram(req.params.id);
+    await audit(req, 'program.reopen', program.id, { fileName: program.fileName, revision: program.revision });
+    return res.json({ success: true, data: program });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
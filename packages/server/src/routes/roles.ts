@@ -0,0 +1,332 @@
+// Role Routes - 권한 카탈로그 / 역할(권한 묶음) 편집
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { Role, UserRole } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { authenticate, requirePermission } from '../middleware/auth';
+import {
+  PERMISSIONS,
+  Permission,
+  DEFAULT_ROLE_PERMISSIONS,
+  getUserGrants,
+  invalidatePermissions,
+  isPermission,
+} from '../lib/permissions';
+import { createAuditLog } from './audit';
+
+const router = Router();
+
+router.use(authenticate, requirePermission('user.manage'));
+
+const BASE_ROLES: UserRole[] = ['USER', 'ADMIN', 'HQ_ENGINEER'];
+
+const BASE_ROLE_DESCRIPTION: Record<UserRole, string> = {
+  USER: '오퍼레이터 기본 권한',
+  ADMIN: '관리자 기본 권한',
+  HQ_ENGINEER: '본사 엔지니어 — 항상 전체 권한',
+};
+
+interface RoleDto {
+  id: string | null;
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  baseRole: UserRole | null;
+  editable: boolean;
+  assignmentCount: number;
+}
+
+function toDto(role: Role, assignmentCount: number): RoleDto {
+  return {
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    permissions: role.permissions.filter(isPermission),
+    baseRole: role.baseRole,
+    editable: role.baseRole !== 'HQ_ENGINEER',
+    assignmentCount,
+  };
+}
+
+/**
+ * 요청 권한 목록 검증 — 미지정 키 / 본인이 전체 범위로 보유하지 않은 권한의 추가 · 제거면 에러 응답
+ * current: 변경 전 권한 (수정 시) — 보유하지 않은 권한을 빼는 것도 권한 상승과 같이 막음
+ */
+async function validatePermissions(
+  req: Request,
+  res: Response,
+  permissions: unknown,
+  current: string[] = [],
+): Promise<Permission[] | null> {
+  if (!Array.isArray(permissions) || !permissions.every(isPermission)) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_PERMISSION', message: '알 수 없는 권한이 포함되어 있습니다' },
+    });
+    return null;
+  }
+  const actorGrants = await getUserGrants(req.user!.id, req.user!.role);
+  const escalated = permissions.filter((p) => !actorGrants.global.includes(p));
+  if (escalated.length > 0) {
+    res.status(403).json({
+      success: false,
+      error: { code: 'FORBIDDEN', message: `보유하지 않은 권한은 부여할 수 없습니다 (${escalated.join(', ')})` },
+    });
+    return null;
+  }
+  const removed = current.filter((p): p is Permission => isPermission(p) && !permissions.includes(p) && !actorGrants.global.includes(p));
+  if (removed.length > 0) {
+    res.status(403).json({
+      success: false,
+      error: { code: 'FORBIDDEN', message: `보유하지 않은 권한은 회수할 수 없습니다 (${removed.join(', ')})` },
+    });
+    return null;
+  }
+  return [...new Set(permissions)];
+}
+
+/**
+ * GET /api/roles
+ * 권한 카탈로그 + 기본 역할(USER / ADMIN / HQ_ENGINEER) + 사용자 정의 역할
+ */
+router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const roles = await prisma.role.findMany({
+      include: { _count: { select: { assignments: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    const base: RoleDto[] = BASE_ROLES.map((baseRole) => {
+      const row = roles.find((r) => r.baseRole === baseRole);
+      if (row && baseRole !== 'HQ_ENGINEER') return toDto(row, row._count.assignments);
+      return {
+        id: row?.id ?? null,
+        name: baseRole,
+        description: BASE_ROLE_DESCRIPTION[baseRole],
+        permissions: DEFAULT_ROLE_PERMISSIONS[baseRole],
+        baseRole,
+        editable: baseRole !== 'HQ_ENGINEER',
+        assignmentCount: 0,
+      };
+    });
+    const custom = roles.filter((r) => !r.baseRole).map((r) => toDto(r, r._count.assignments));
+
+    res.json({ success: true, data: { permissions: PERMISSIONS, roles: [...base, ...custom] } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/roles/base/:baseRole
+ * 기본 역할 권한 변경 (HQ_ENGINEER 제외) — Role(baseRole) 행 upsert
+ */
+router.put('/base/:baseRole', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const baseRole = req.params.baseRole as UserRole;
+    if (!BASE_ROLES.includes(baseRole) || baseRole === 'HQ_ENGINEER') {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_ROLE', message: '변경할 수 없는 기본 역할입니다' },
+      });
+    }
+
+    const before = await prisma.role.findUnique({ where: { baseRole } });
+    const permissions = await validatePermissions(
+      req, res, (req.body as { permissions?: unknown }).permissions,
+      before?.permissions ?? DEFAULT_ROLE_PERMISSIONS[baseRole],
+    );
+    if (!permissions) return;
+
+    const role = await prisma.role.upsert({
+      where: { baseRole },
+      create: { name: baseRole, description: BASE_ROLE_DESCRIPTION[baseRole], permissions, baseRole },
+      update: { permissions },
+    });
+    invalidatePermissions();
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'role.update',
+      targetType: 'role',
+      targetId: role.id,
+      params: {
+        name: role.name,
+        before: before?.permissions ?? DEFAULT_ROLE_PERMISSIONS[baseRole],
+        after: role.permissions,
+      },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: toDto(role, 0) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/roles
+ * 사용자 정의 역할 생성 { name, description?, permissions }
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, description } = req.body as { name?: string; description?: string };
+    if (!name?.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_INPUT', message: '역할 이름이 필요합니다' },
+      });
+    }
+    if ((BASE_ROLES as string[]).includes(name.trim())) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'DUPLICATE', message: '기본 역할과 같은 이름은 사용할 수 없습니다' },
+      });
+    }
+    if (await prisma.role.findUnique({ where: { name: name.trim() } })) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'DUPLICATE', message: '이미 존재하는 역할 이름입니다' },
+      });
+    }
+
+    const permissions = await validatePermissions(req, res, (req.body as { permissions?: unknown }).permissions);
+    if (!permissions) return;
+
+    const role = await prisma.role.create({
+      data: { name: name.trim(), description: description?.trim() || null, permissions },
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'role.create',
+      targetType: 'role',
+      targetId: role.id,
+      params: { name: role.name, permissions: role.permissions },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.status(201).json({ success: true, data: toDto(role, 0) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/roles/:id
+ * 사용자 정의 역할 수정 { name?, description?, permissions? }
+ */
+router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const existing = await prisma.role.findUnique({ where: { id: req.params.id } });
+    if (!existing || existing.baseRole) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: '역할을 찾을 수 없습니다' },
+      });
+    }
+
+    const { name, description, permissions: rawPermissions } = req.body as {
+      name?: string; description?: string | null; permissions?: unknown;
+    };
+
+    if (name !== undefined && name.trim() !== existing.name) {
+      if (!name.trim() || (BASE_ROLES as string[]).includes(name.trim())
+        || await prisma.role.findUnique({ where: { name: name.trim() } })) {
+        return res.status(409).json({
+          success: false,
+          error: { code: 'DUPLICATE', message: '사용할 수 없는 역할 이름입니다' },
+        });
+      }
+    }
+
+    let permissions: Permission[] | undefined;
+    if (rawPermissions !== undefined) {
+      const validated = await validatePermissions(req, res, rawPermissions, existing.permissions);
+      if (!validated) return;
+      permissions = validated;
+    }
+
+    const role = await prisma.role.update({
+      where: { id: existing.id },
+      data: {
+        ...(name !== undefined ? { name: name.trim() } : {}),
+        ...(description !== undefined ? { description: description?.trim() || null } : {}),
+        ...(permissions ? { permissions } : {}),
+      },
+      include: { _count: { select: { assignments: true } } },
+    });
+    invalidatePermissions();
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'role.update',
+      targetType: 'role',
+      targetId: role.id,
+      params: {
+        name: role.name,
+        before: { name: existing.name, permissions: existing.permissions },
+        after: { name: role.name, permissions: role.permissions },
+      },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: toDto(role, role._count.assignments) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/roles/:id
+ * 사용자 정의 역할 삭제 (부여 내역도 함께 삭제)
+ */
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const existing = await prisma.role.findUnique({
+      where: { id: req.params.id },
+      include: { _count: { select: { assignments: true } } },
+    });
+    if (!existing || existing.baseRole) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: '역할을 찾을 수 없습니다' },
+      });
+    }
+    // 삭제 = 부여된 모든 권한 회수
+    const actorGrants = await getUserGrants(req.user!.id, req.user!.role);
+    const removed = existing.permissions.filter((p) => isPermission(p) && !actorGrants.global.includes(p));
+    if (removed.length > 0) {
+      return res.status(403).json({
+        success: false,
+        error: { code: 'FORBIDDEN', message: `보유하지 않은 권한이 포함된 역할은 삭제할 수 없습니다 (${removed.join(', ')})` },
+      });
+    }
+
+    await prisma.role.delete({ where: { id: existing.id } });
+    invalidatePermissions();
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'role.delete',
+      targetType: 'role',
+      targetId: existing.id,
+      params: { name: existing.name, permissions: existing.permissions, assignments: existing._count.assignments },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: { id: existing.id } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -2,11 +2,16 @@
 // Agent가 count authority를 보유하고 Server는 보고값을 동기화한다.
 
 import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
-import { authenticate, requireRole } from '../middleware/auth';
+import { authenticate, requirePermission, machineFromBody, machineFromQuery, MachineRefResolver } from '../middleware/auth';
 import { mqttService, TOPICS } from '../lib/mqtt';
 import { redisService, REDIS_KEYS } from '../lib/redis';
 import { wsService } from '../lib/websocket';
+import { applyWorkOrderProduction } from '../lib/workOrderProgress';
+import { AppError } from '../middleware/error';
+import { assertReleasedProgramNos, verifySchedulerPrograms } from '../lib/programRepo';
+import { toAgentPath } from '../lib/fileRoots';
 
 const router = Router();
 router.use(authenticate);
@@ -26,6 +31,7 @@ function rowToDto(row: {
   lastErrorCode: string | null;
   lastErrorAt: Date | null;
   createdBy: string;
+  workOrderId: string | null;
   startedAt: Date | null;
   completedAt: Date | null;
   createdAt: Date;
@@ -44,6 +50,7 @@ function rowToDto(row: {
     lastErrorCode: row.lastErrorCode ?? undefined,
     lastErrorAt: row.lastErrorAt?.toISOString(),
     createdBy: row.createdBy,
+    workOrderId: row.workOrderId ?? undefined,
     startedAt: row.startedAt?.toISOString(),
     completedAt: row.completedAt?.toISOString(),
     createdAt: row.createdAt.toISOString(),
@@ -55,14 +62,74 @@ async function getMachineByMachineId(machineId: string) {
   return prisma.machine.findUnique({ where: { machineId } });
 }
 
+// 행 단위 라우트 (/rows/:id) 권한은 행이 속한 장비 범위로 평가
+const rowMachine: MachineRefResolver = async (req) =>
+  (await prisma.schedulerRow.findUnique({ where: { id: req.params.id }, select: { machineDbId: true } }))?.machineDbId;
+
+/**
+ * 큐 끝에 행 추가 (수동 추가 / 작업지시 배포 공용)
+ * 큐 크기 초과 시 AppError(409, QUEUE_FULL) — template schedulerConfig.maxQueueSize
+ * 저장소에 있는 O번호가 릴리스 전이면 AppError(409, PROGRAM_NOT_RELEASED)
+ */
+export async function enqueueSchedulerRows(
+  machine: { id: string; machineId: string; templateId: string | null },
+  items: { mainProgramNo: string; subProgramNo?: string | null; preset: number; workOrderId?: string | null }[],
+  createdBy: string,
+) {
+  const count = await prisma.schedulerRow.count({ where: { machineDbId: machine.id, status: { in: ['PENDING', 'RUNNING'] } } });
+  const template = machine.templateId ? await prisma.template.findUnique({ where: { id: machine.templateId } }) : null;
+  const maxQueueSize = (template?.schedulerConfig as Record<string, unknown> | null)?.maxQueueSize as number ?? 15;
+  if (count + items.length > maxQueueSize) {
+    throw new AppError(409, 'QUEUE_FULL', `큐가 가득 찼습니다 (최대 ${maxQueueSize}개)`);
+  }
+  await assertReleasedProgramNos(machine.id, items.flatMap((item) => [item.mainProgramNo, item.subProgramNo]));
+
+  // 다음 순서
+  const lastRow = await prisma.schedulerRow.findFirst({
+    where: { machineDbId: machine.id },
+    orderBy: { order: 'desc' },
+  });
+  let order = lastRow?.order ?? 0;
+
+  const rows = await prisma.$transaction(items.map((item) => prisma.schedulerRow.create({
+    data: {
+      machineDbId: machine.id,
+      order: ++order,
+      mainProgramNo: item.mainProgramNo,
+      subProgramNo: item.subProgramNo ?? null,
+      preset: item.preset,
+      count: 0,
+      status: 'PENDING',
+      createdBy,
+      workOrderId: item.workOrderId ?? null,
+    },
+  })));
+
+  await refreshSchedulerRows(machine.machineId);
+  return rows.map(r => rowToDto(r, machine.machineId));
+}
+
+/**
+ * DB 행 → Redis 캐시 (캐시한 DTO 반환)
+ */
 async function syncRedisRows(machineId: string) {
   const machine = await getMachineByMachineId(machineId);
-  if (!machine) return;
+  if (!machine) return [];
   const rows = await prisma.schedulerRow.findMany({
     where: { machineDbId: machine.id },
     orderBy: { order: 'asc' },
   });
-  await redisService.set(REDIS_KEYS.SCHEDULER_ROWS(machineId), rows.map(r => rowToDto(r, machineId)));
+  const dtos = rows.map(r => rowToDto(r, machineId));
+  await redisService.set(REDIS_KEYS.SCHEDULER_ROWS(machineId), dtos);
+  return dtos;
+}
+
+/**
+ * DB 행 → Redis 캐시 + WS scheduler_update 브로드캐스트
+ */
+export async function refreshSchedulerRows(machineId: string): Promise<void> {
+  const dtos = await syncRedisRows(machineId);
+  wsService.sendSchedulerUpdate(machineId, dtos);
 }
 
 // ─── GET /rows?machineId= ────────────────────────────────────────────────────
@@ -101,7 +168,7 @@ router.get('/rows', async (req: Request, res: Response) => {
 
 // ─── POST /rows ──────────────────────────────────────────────────────────────
 
-router.post('/rows', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request, res: Response) => {
+router.post('/rows', requirePermission('scheduler.edit', machineFromBody()), async (req: Request, res: Response) => {
   try {
     const { machineId, mainProgramNo, subProgramNo, preset } = req.body as {
       machineId: string;
@@ -119,42 +186,17 @@ router.post('/rows', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request, r
       return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '장비를 찾을 수 없습니다' } });
     }
 
-    // 큐 크기 확인 (template schedulerConfig.maxQueueSize)
-    const count = await prisma.schedulerRow.count({ where: { machineDbId: machine.id, status: { in: ['PENDING', 'RUNNING'] } } });
-    const template = machine.templateId ? await prisma.template.findUnique({ where: { id: machine.templateId } }) : null;
-    const maxQueueSize = (template?.schedulerConfig as Record<string, unknown> | null)?.maxQueueSize as number ?? 15;
-    if (count >= maxQueueSize) {
-      return res.status(409).json({ success: false, error: { code: 'QUEUE_FULL', message: `큐가 가득 찼습니다 (최대 ${maxQueueSize}개)` } });
-    }
-
-    // 다음 순서
-    const lastRow = await prisma.schedulerRow.findFirst({
-      where: { machineDbId: machine.id },
-      orderBy: { order: 'desc' },
-    });
-    const order = (lastRow?.order ?? 0) + 1;
-
-    const row = await prisma.schedulerRow.create({
-      data: {
-        machineDbId: machine.id,
-        order,
-        mainProgramNo,
-        subProgramNo: subProgramNo || null,
-        preset,
-        count: 0,
-        status: 'PENDING',
-        createdBy: req.user!.username,
-      },
-    });
-
-    await syncRedisRows(machineId);
-    wsService.sendSchedulerUpdate(machineId, (await prisma.schedulerRow.findMany({
-      where: { machineDbId: machine.id },
-      orderBy: { order: 'asc' },
-    })).map(r => rowToDto(r, machineId)));
+    const [row] = await enqueueSchedulerRows(
+      machine,
+      [{ mainProgramNo, subProgramNo: subProgramNo || null, preset }],
+      req.user!.username,
+    );
 
-    res.status(201).json({ success: true, data: rowToDto(row, machineId) });
+    res.status(201).json({ success: true, data: row });
   } catch (err) {
+    if (err instanceof AppError) {
+      return res.status(err.statusCode).json({ success: false, error: { code: err.code, message: err.message } });
+    }
     console.error('[Scheduler] POST rows error:', err);
     res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR', message: '행 추가 실패' } });
   }
@@ -162,7 +204,7 @@ router.post('/rows', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request, r
 
 // ─── PUT /rows/:id ───────────────────────────────────────────────────────────
 
-router.put('/rows/:id', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request, res: Response) => {
+router.put('/rows/:id', requirePermission('scheduler.edit', rowMachine), async (req: Request, res: Response) => {
   try {
     const row = await prisma.schedulerRow.findUnique({
       where: { id: req.params.id },
@@ -184,6 +226,8 @@ router.put('/rows/:id', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request
       count?: number;
     };
 
+    await assertReleasedProgramNos(row.machineDbId, [mainProgramNo, subProgramNo]);
+
     const updated = await prisma.schedulerRow.update({
       where: { id: row.id },
       data: {
@@ -205,6 +249,9 @@ router.put('/rows/:id', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request
 
     res.json({ success: true, data: rowToDto(updated, machineId) });
   } catch (err) {
+    if (err instanceof AppError) {
+      return res.status(err.statusCode).json({ success: false, error: { code: err.code, message: err.message } });
+    }
     console.error('[Scheduler] PUT rows error:', err);
     res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR', message: '행 수정 실패' } });
   }
@@ -212,7 +259,7 @@ router.put('/rows/:id', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request
 
 // ─── DELETE /rows/:id ────────────────────────────────────────────────────────
 
-router.delete('/rows/:id', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request, res: Response) => {
+router.delete('/rows/:id', requirePermission('scheduler.edit', rowMachine), async (req: Request, res: Response) => {
   try {
     const row = await prisma.schedulerRow.findUnique({
       where: { id: req.params.id },
@@ -246,7 +293,7 @@ router.delete('/rows/:id', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Requ
 
 // ─── POST /rows/reorder ──────────────────────────────────────────────────────
 
-router.post('/rows/reorder', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request, res: Response) => {
+router.post('/rows/reorder', requirePermission('scheduler.edit', machineFromBody()), async (req: Request, res: Response) => {
   try {
     const { machineId, orderedIds } = req.body as { machineId: string; orderedIds: string[] };
     if (!machineId || !Array.isArray(orderedIds)) {
@@ -286,8 +333,9 @@ router.post('/rows/reorder', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Re
 });
 
 // ─── POST /start?machineId= ──────────────────────────────────────────────────
+// Body: { verify? } — true 면 실행 전 프로그램 검증 (verifySchedulerPrograms), 문제 있으면 409 PROGRAM_NOT_VERIFIED
 
-router.post('/start', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request, res: Response) => {
+router.post('/start', requirePermission('scheduler.start', machineFromQuery()), async (req: Request, res: Response) => {
   try {
     const { machineId } = req.query as { machineId?: string };
     if (!machineId) {
@@ -325,24 +373,38 @@ router.post('/start', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request,
       return res.status(403).json({ success: false, error: { code: 'NO_CONTROL_LOCK', message: '제어권이 없습니다' } });
     }
 
-    // 전체 큐 동기화 후 MQTT START 명령
-    const allRows = await prisma.schedulerRow.findMany({
-      where: { machineDbId: machine.id },
-      orderBy: { order: 'asc' },
-    });
-    const rowDtos = allRows.map(r => rowToDto(r, machineId));
-
-    // DNC 설정 — START payload에 포함 (Agent가 API 조회 없이 사용)
+    // DNC 설정 — START payload에 포함 (Agent가 API 조회 없이 사용, 경로는 Agent 측 경로로 변환)
     const dncCfg = (machine.dncConfig ?? {}) as Record<string, unknown>;
     // 하위호환: 구버전 executionMode → mainMode fallback
     const mainMode = (dncCfg.mainMode as string) ?? (dncCfg.executionMode as string) ?? 'memory';
     const subMode  = (dncCfg.subMode  as string) ?? 'memory';
     const dncPaths = {
-      path1: (dncCfg.path1 as string) ?? '',
-      path2: (dncCfg.path2 as string) ?? '',
-      ...(dncCfg.path3 !== undefined && { path3: dncCfg.path3 as string }),
+      path1: toAgentPath((dncCfg.path1 as string) ?? ''),
+      path2: toAgentPath((dncCfg.path2 as string) ?? ''),
+      ...(dncCfg.path3 !== undefined && { path3: toAgentPath(dncCfg.path3 as string) }),
     };
 
+    // 프로그램 검증 (선택) — 운전될 본문이 릴리스 리비전과 같은지
+    if ((req.body as { verify?: boolean } | undefined)?.verify === true) {
+      const issues = await verifySchedulerPrograms(machine, pendingRows, { path1: mainMode, path2: subMode });
+      if (issues.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'PROGRAM_NOT_VERIFIED',
+            message: `프로그램 검증 실패: ${issues.map((i) => `${i.programNo} ${i.reason}`).join(', ')}`,
+          },
+        });
+      }
+    }
+
+    // 전체 큐 동기화 후 MQTT START 명령
+    const allRows = await prisma.schedulerRow.findMany({
+      where: { machineDbId: machine.id },
+      orderBy: { order: 'asc' },
+    });
+    const rowDtos = allRows.map(r => rowToDto(r, machineId));
+
     await redisService.set(REDIS_KEYS.SCHEDULER_ROWS(machineId), rowDtos);
     await redisService.set(REDIS_KEYS.SCHEDULER_STATE(machineId), 'RUNNING', 86400);
 
@@ -366,7 +428,7 @@ router.post('/start', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request,
 
 // ─── POST /resume?machineId= ─────────────────────────────────────────────────
 
-router.post('/resume', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request, res: Response) => {
+router.post('/resume', requirePermission('scheduler.start', machineFromQuery()), async (req: Request, res: Response) => {
   try {
     const { machineId } = req.query as { machineId?: string };
     if (!machineId) {
@@ -401,7 +463,7 @@ router.post('/resume', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request,
 
 // ─── POST /pause?machineId= ──────────────────────────────────────────────────
 
-router.post('/pause', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request, res: Response) => {
+router.post('/pause', requirePermission('scheduler.start', machineFromQuery()), async (req: Request, res: Response) => {
   try {
     const { machineId } = req.query as { machineId?: string };
     if (!machineId) {
@@ -433,7 +495,7 @@ router.post('/pause', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request,
 
 // ─── POST /cancel?machineId= ─────────────────────────────────────────────────
 
-router.post('/cancel', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request, res: Response) => {
+router.post('/cancel', requirePermission('scheduler.start', machineFromQuery()), async (req: Request, res: Response) => {
   try {
     const { machineId } = req.query as { machineId?: string };
     if (!machineId) {
@@ -481,7 +543,7 @@ router.post('/cancel', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request,
 // ─── DELETE /rows?machineId= ─────────────────────────────────────────────────
 // 전체 행 삭제 (스케줄러 IDLE 상태로 전환)
 
-router.delete('/rows', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request, res: Response) => {
+router.delete('/rows', requirePermission('scheduler.edit', machineFromQuery()), async (req: Request, res: Response) => {
   try {
     const { machineId } = req.query as { machineId?: string };
     if (!machineId) {
@@ -515,7 +577,7 @@ router.delete('/rows', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request,
 // ─── POST /reset?machineId= ──────────────────────────────────────────────────
 // COMPLETED/CANCELLED 행 정리 (큐 초기화)
 
-router.post('/reset', requireRole('ADMIN', 'HQ_ENGINEER'), async (req: Request, res: Response) => {
+router.post('/reset', requirePermission('scheduler.start', machineFromQuery()), async (req: Request, res: Response) => {
   try {
     const { machineId } = req.query as { machineId?: string };
     if (!machineId) {
@@ -565,15 +627,27 @@ export async function handleSchedulerM20(
   count: number
 ): Promise<void> {
   try {
-    const row = await prisma.schedulerRow.update({
-      where: { id: rowId },
-      data: { count },
-    });
+    // 이전 count 조회와 갱신을 한 UPDATE 로 — 동시 M20 보고에서도 증가분 중복 반영 없음
+    const [row] = await prisma.$queryRaw<{ prevCount: number; preset: number; workOrderId: string | null }[]>(Prisma.sql`
+      UPDATE "scheduler_rows" AS r SET "count" = ${count}, "updated_at" = ${new Date()}
+      FROM (SELECT "id", "count" FROM "scheduler_rows" WHERE "id" = ${rowId} FOR UPDATE) AS prev
+      WHERE r."id" = prev."id"
+      RETURNING prev."count" AS "prevCount", r."preset", r."work_order_id" AS "workOrderId"
+    `);
+    if (!row) {
+      console.warn(`[Scheduler] M20 for unknown row: ${machineId} row=${rowId}`);
+      return;
+    }
     await syncRedisRows(machineId);
     wsService.sendSchedulerCount(machineId, rowId, count);
     // Control Lock TTL 자동 갱신 (M20 수신 = 장비 정상 동작 중)
     await renewControlLockForScheduler(machineId);
     console.log(`[Scheduler] M20 count update: ${machineId} row=${rowId} count=${count}/${row.preset}`);
+
+    // 작업지시 배포 행: 증가분을 작업지시 실적에 반영
+    if (row.workOrderId) {
+      await applyWorkOrderProduction(row.workOrderId, count - row.prevCount);
+    }
   } catch (err) {
     console.error('[Scheduler] handleSchedulerM20 error:', err);
   }
@@ -2,7 +2,7 @@
 
 import { Router, Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
-import { authenticate, requireRole } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -11,7 +11,7 @@ const router = Router();
  * 현재 등록 코드 조회 (ADMIN 이상)
  * HQ 코드는 노출하지 않음 — 마스킹 처리
  */
-router.get('/registration-codes', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (
+router.get('/registration-codes', authenticate, requirePermission('settings.manage'), async (
   _req: Request,
   res: Response
 ) => {
@@ -41,7 +41,7 @@ router.get('/registration-codes', authenticate, requireRole(['ADMIN', 'HQ_ENGINE
  * 등록 코드 변경 (ADMIN 이상)
  * adminCode, operatorCode 중 전달된 것만 업데이트
  */
-router.put('/registration-codes', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (
+router.put('/registration-codes', authenticate, requirePermission('settings.manage'), async (
   req: Request,
   res: Response
 ) => {
@@ -110,7 +110,7 @@ router.get('/factory-layout', authenticate, async (
  * PUT /api/settings/factory-layout
  * 공장 레이아웃 데이터 저장 (ADMIN/HQ_ENGINEER만)
  */
-router.put('/factory-layout', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (
+router.put('/factory-layout', authenticate, requirePermission('settings.manage'), async (
   req: Request,
   res: Response
 ) => {
@@ -0,0 +1,597 @@
+// Shift Routes - 교대 패턴 / 교대 / 계획 정지 관리
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { PlannedDowntimeType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { createAuditLog } from './audit';
+import {
+  parseHHmm,
+  isValidDaysOfWeek,
+  loadShiftCalendar,
+  patternFor,
+  currentShift,
+  productionDayStart,
+} from '../lib/shiftCalendar';
+
+const router = Router();
+
+const DOWNTIME_TYPES = Object.values(PlannedDowntimeType) as string[];
+
+function invalid(res: Response, message: string) {
+  return res.status(400).json({ success: false, error: { code: 'INVALID_INPUT', message } });
+}
+
+// 교대 입력 검증 — 오류 메시지 또는 null
+function validateShift(body: { name?: string; startTime?: string; endTime?: string; daysOfWeek?: unknown }): string | null {
+  if (!body.name?.trim()) return '교대명을 입력하세요.';
+  if (parseHHmm(body.startTime) === null) return '시작 시각 형식이 올바르지 않습니다. (HH:mm)';
+  if (parseHHmm(body.endTime) === null) return '종료 시각 형식이 올바르지 않습니다. (HH:mm)';
+  if (body.startTime === body.endTime) return '시작/종료 시각이 같을 수 없습니다.';
+  if (body.daysOfWeek !== undefined && !isValidDaysOfWeek(body.daysOfWeek)) return '요일 값이 올바르지 않습니다. (0=일 ~ 6=토)';
+  return null;
+}
+
+// 계획 정지 입력 검증 — 반복(startTime/endTime) 또는 단발(startAt/endAt) 중 하나
+function validateDowntime(body: {
+  name?: string;
+  type?: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  daysOfWeek?: unknown;
+  startAt?: string | null;
+  endAt?: string | null;
+}): string | null {
+  if (!body.name?.trim()) return '정지 항목명을 입력하세요.';
+  if (body.type && !DOWNTIME_TYPES.includes(body.type)) return '정지 유형이 올바르지 않습니다.';
+
+  const isOneOff = !!(body.startAt || body.endAt);
+  if (isOneOff) {
+    const s = new Date(body.startAt ?? '');
+    const e = new Date(body.endAt ?? '');
+    if (isNaN(s.getTime()) || isNaN(e.getTime())) return '시작/종료 일시를 입력하세요.';
+    if (s >= e) return '종료 일시가 시작 일시보다 늦어야 합니다.';
+    return null;
+  }
+
+  if (parseHHmm(body.startTime) === null || parseHHmm(body.endTime) === null) {
+    return '반복 정지는 시작/종료 시각(HH:mm), 단발 정지는 시작/종료 일시가 필요합니다.';
+  }
+  if (body.daysOfWeek !== undefined && !isValidDaysOfWeek(body.daysOfWeek)) return '요일 값이 올바르지 않습니다. (0=일 ~ 6=토)';
+  return null;
+}
+
+// ─── 교대 패턴 ────────────────────────────────────────────────
+
+/**
+ * GET /api/shifts/patterns
+ * 교대 패턴 목록 (교대, 적용 장비 포함)
+ */
+router.get('/patterns', authenticate, async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const patterns = await prisma.shiftPattern.findMany({
+      include: {
+        shifts:   { orderBy: { sortOrder: 'asc' } },
+        machines: { select: { id: true, machineId: true, name: true } },
+      },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+    res.json({ success: true, data: patterns });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/shifts/patterns
+ * 교대 패턴 생성 — body: { name, description?, isDefault?, shifts?: [...] }
+ */
+router.post('/patterns', authenticate, requirePermission('shift.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { name, description, isDefault, shifts } = req.body as {
+      name?: string;
+      description?: string;
+      isDefault?: boolean;
+      shifts?: { name?: string; startTime?: string; endTime?: string; daysOfWeek?: number[] }[];
+    };
+
+    if (!name?.trim()) return invalid(res, '패턴명을 입력하세요.');
+    for (const shift of shifts ?? []) {
+      const err = validateShift(shift);
+      if (err) return invalid(res, err);
+    }
+
+    const existing = await prisma.shiftPattern.findUnique({ where: { name: name.trim() } });
+    if (existing) {
+      return res.status(409).json({ success: false, error: { code: 'DUPLICATE_NAME', message: '이미 존재하는 패턴명입니다.' } });
+    }
+
+    const pattern = await prisma.$transaction(async (tx) => {
+      if (isDefault) await tx.shiftPattern.updateMany({ data: { isDefault: false } });
+      return tx.shiftPattern.create({
+        data: {
+          name: name.trim(),
+          description: description?.trim() || null,
+          isDefault: !!isDefault,
+          shifts: {
+            create: (shifts ?? []).map((s, i) => ({
+              name: s.name!.trim(),
+              startTime: s.startTime!,
+              endTime: s.endTime!,
+              daysOfWeek: s.daysOfWeek ?? [0, 1, 2, 3, 4, 5, 6],
+              sortOrder: i,
+            })),
+          },
+        },
+        include: { shifts: { orderBy: { sortOrder: 'asc' } } },
+      });
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'shift.pattern.create',
+      targetType: 'shiftPattern',
+      targetId: pattern.id,
+      params: { name: pattern.name, isDefault: pattern.isDefault },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.status(201).json({ success: true, data: pattern });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/shifts/patterns/:id
+ * 교대 패턴 수정 — body: { name?, description?, isDefault? }
+ */
+router.put('/patterns/:id', authenticate, requirePermission('shift.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { name, description, isDefault } = req.body as { name?: string; description?: string; isDefault?: boolean };
+
+    const pattern = await prisma.shiftPattern.findUnique({ where: { id } });
+    if (!pattern) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '교대 패턴을 찾을 수 없습니다.' } });
+    }
+    if (name !== undefined && !name.trim()) return invalid(res, '패턴명을 입력하세요.');
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (isDefault) await tx.shiftPattern.updateMany({ where: { id: { not: id } }, data: { isDefault: false } });
+      return tx.shiftPattern.update({
+        where: { id },
+        data: {
+          name: name?.trim(),
+          description: description !== undefined ? description.trim() || null : undefined,
+          isDefault,
+        },
+        include: { shifts: { orderBy: { sortOrder: 'asc' } } },
+      });
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'shift.pattern.update',
+      targetType: 'shiftPattern',
+      targetId: id,
+      params: { name, description, isDefault },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/shifts/patterns/:id
+ * 교대 패턴 삭제 (소속 교대/계획 정지 함께 삭제, 적용 장비는 기본 패턴으로 복귀)
+ */
+router.delete('/patterns/:id', authenticate, requirePermission('shift.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const pattern = await prisma.shiftPattern.findUnique({ where: { id } });
+    if (!pattern) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '교대 패턴을 찾을 수 없습니다.' } });
+    }
+
+    await prisma.shiftPattern.delete({ where: { id } });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'shift.pattern.delete',
+      targetType: 'shiftPattern',
+      targetId: id,
+      params: { name: pattern.name },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: { id } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/shifts/patterns/:id/machines
+ * 패턴 적용 장비 지정 — body: { machineIds: string[] } (machineId 문자열)
+ * 목록에서 빠진 기존 장비는 기본 패턴으로 복귀
+ */
+router.put('/patterns/:id/machines', authenticate, requirePermission('shift.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { machineIds } = req.body as { machineIds?: string[] };
+    if (!Array.isArray(machineIds)) return invalid(res, 'machineIds 배열이 필요합니다.');
+
+    const pattern = await prisma.shiftPattern.findUnique({ where: { id } });
+    if (!pattern) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '교대 패턴을 찾을 수 없습니다.' } });
+    }
+
+    await prisma.$transaction([
+      prisma.machine.updateMany({ where: { shiftPatternId: id, machineId: { notIn: machineIds } }, data: { shiftPatternId: null } }),
+      prisma.machine.updateMany({ where: { machineId: { in: machineIds } }, data: { shiftPatternId: id } }),
+    ]);
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'shift.pattern.assign',
+      targetType: 'shiftPattern',
+      targetId: id,
+      params: { machineIds },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: { id, machineIds } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ─── 교대 ─────────────────────────────────────────────────────
+
+/**
+ * POST /api/shifts/patterns/:id/shifts
+ * 교대 추가 — body: { name, startTime, endTime, daysOfWeek? }
+ */
+router.post('/patterns/:id/shifts', authenticate, requirePermission('shift.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const body = req.body as { name?: string; startTime?: string; endTime?: string; daysOfWeek?: number[] };
+
+    const err = validateShift(body);
+    if (err) return invalid(res, err);
+
+    const pattern = await prisma.shiftPattern.findUnique({ where: { id }, include: { shifts: true } });
+    if (!pattern) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '교대 패턴을 찾을 수 없습니다.' } });
+    }
+
+    const shift = await prisma.shift.create({
+      data: {
+        patternId: id,
+        name: body.name!.trim(),
+        startTime: body.startTime!,
+        endTime: body.endTime!,
+        daysOfWeek: body.daysOfWeek ?? [0, 1, 2, 3, 4, 5, 6],
+        sortOrder: pattern.shifts.length,
+      },
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'shift.create',
+      targetType: 'shift',
+      targetId: shift.id,
+      params: { patternId: id, name: shift.name, startTime: shift.startTime, endTime: shift.endTime },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.status(201).json({ success: true, data: shift });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/shifts/:shiftId
+ * 교대 수정
+ */
+router.put('/:shiftId', authenticate, requirePermission('shift.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { shiftId } = req.params;
+    const shift = await prisma.shift.findUnique({ where: { id: shiftId } });
+    if (!shift) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '교대를 찾을 수 없습니다.' } });
+    }
+
+    const body = req.body as { name?: string; startTime?: string; endTime?: string; daysOfWeek?: number[]; sortOrder?: number };
+    const merged = {
+      name: body.name ?? shift.name,
+      startTime: body.startTime ?? shift.startTime,
+      endTime: body.endTime ?? shift.endTime,
+      daysOfWeek: body.daysOfWeek ?? shift.daysOfWeek,
+    };
+    const err = validateShift(merged);
+    if (err) return invalid(res, err);
+
+    const updated = await prisma.shift.update({
+      where: { id: shiftId },
+      data: { ...merged, name: merged.name.trim(), sortOrder: body.sortOrder },
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'shift.update',
+      targetType: 'shift',
+      targetId: shiftId,
+      params: merged,
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/shifts/:shiftId
+ * 교대 삭제
+ */
+router.delete('/:shiftId', authenticate, requirePermission('shift.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { shiftId } = req.params;
+    const shift = await prisma.shift.findUnique({ where: { id: shiftId } });
+    if (!shift) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '교대를 찾을 수 없습니다.' } });
+    }
+
+    await prisma.shift.delete({ where: { id: shiftId } });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'shift.delete',
+      targetType: 'shift',
+      targetId: shiftId,
+      params: { patternId: shift.patternId, name: shift.name },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: { id: shiftId } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ─── 계획 정지 ────────────────────────────────────────────────
+
+/**
+ * GET /api/shifts/downtimes?patternId=
+ * 계획 정지 목록 (단발 정지는 종료되지 않은 항목 우선)
+ */
+router.get('/downtimes', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const patternId = req.query.patternId as string | undefined;
+    const downtimes = await prisma.plannedDowntime.findMany({
+      where: patternId ? { OR: [{ patternId }, { patternId: null }] } : undefined,
+      include: { machine: { select: { machineId: true, name: true } } },
+      orderBy: [{ startAt: 'desc' }, { startTime: 'asc' }],
+    });
+    res.json({ success: true, data: downtimes });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/shifts/downtimes
+ * 계획 정지 등록
+ *   반복: { name, type, startTime, endTime, daysOfWeek?, patternId?, machineId? }
+ *   단발: { name, type, startAt, endAt, patternId?, machineId? }
+ */
+router.post('/downtimes', authenticate, requirePermission('shift.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const body = req.body as {
+      name?: string;
+      type?: PlannedDowntimeType;
+      startTime?: string;
+      endTime?: string;
+      daysOfWeek?: number[];
+      startAt?: string;
+      endAt?: string;
+      patternId?: string | null;
+      machineId?: string | null;
+    };
+
+    const err = validateDowntime(body);
+    if (err) return invalid(res, err);
+
+    let machineDbId: string | null = null;
+    if (body.machineId) {
+      const machine = await prisma.machine.findUnique({ where: { machineId: body.machineId } });
+      if (!machine) {
+        return res.status(404).json({ success: false, error: { code: 'MACHINE_NOT_FOUND', message: '장비를 찾을 수 없습니다.' } });
+      }
+      machineDbId = machine.id;
+    }
+
+    const isOneOff = !!(body.startAt || body.endAt);
+    const downtime = await prisma.plannedDowntime.create({
+      data: {
+        name: body.name!.trim(),
+        type: body.type ?? (isOneOff ? PlannedDowntimeType.HOLIDAY : PlannedDowntimeType.BREAK),
+        patternId: body.patternId || null,
+        machineDbId,
+        startTime: isOneOff ? null : body.startTime,
+        endTime: isOneOff ? null : body.endTime,
+        daysOfWeek: body.daysOfWeek ?? [0, 1, 2, 3, 4, 5, 6],
+        startAt: isOneOff ? new Date(body.startAt!) : null,
+        endAt: isOneOff ? new Date(body.endAt!) : null,
+      },
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'shift.downtime.create',
+      targetType: 'plannedDowntime',
+      targetId: downtime.id,
+      params: { name: downtime.name, type: downtime.type, patternId: downtime.patternId, machineId: body.machineId },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.status(201).json({ success: true, data: downtime });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/shifts/downtimes/:id
+ * 계획 정지 수정
+ */
+router.put('/downtimes/:id', authenticate, requirePermission('shift.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const existing = await prisma.plannedDowntime.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '계획 정지 항목을 찾을 수 없습니다.' } });
+    }
+
+    const body = req.body as {
+      name?: string;
+      type?: PlannedDowntimeType;
+      startTime?: string | null;
+      endTime?: string | null;
+      daysOfWeek?: number[];
+      startAt?: string | null;
+      endAt?: string | null;
+    };
+    const merged = {
+      name: body.name ?? existing.name,
+      type: body.type ?? existing.type,
+      startTime: body.startTime !== undefined ? body.startTime : existing.startTime,
+      endTime: body.endTime !== undefined ? body.endTime : existing.endTime,
+      daysOfWeek: body.daysOfWeek ?? existing.daysOfWeek,
+      startAt: body.startAt !== undefined ? body.startAt : existing.startAt?.toISOString() ?? null,
+      endAt: body.endAt !== undefined ? body.endAt : existing.endAt?.toISOString() ?? null,
+    };
+    const err = validateDowntime(merged);
+    if (err) return invalid(res, err);
+
+    const isOneOff = !!(merged.startAt || merged.endAt);
+    const updated = await prisma.plannedDowntime.update({
+      where: { id },
+      data: {
+        name: merged.name.trim(),
+        type: merged.type,
+        startTime: isOneOff ? null : merged.startTime,
+        endTime: isOneOff ? null : merged.endTime,
+        daysOfWeek: merged.daysOfWeek,
+        startAt: isOneOff ? new Date(merged.startAt!) : null,
+        endAt: isOneOff ? new Date(merged.endAt!) : null,
+      },
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'shift.downtime.update',
+      targetType: 'plannedDowntime',
+      targetId: id,
+      params: merged,
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/shifts/downtimes/:id
+ * 계획 정지 삭제
+ */
+router.delete('/downtimes/:id', authenticate, requirePermission('shift.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const existing = await prisma.plannedDowntime.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: '계획 정지 항목을 찾을 수 없습니다.' } });
+    }
+
+    await prisma.plannedDowntime.delete({ where: { id } });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'shift.downtime.delete',
+      targetType: 'plannedDowntime',
+      targetId: id,
+      params: { name: existing.name },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: { id } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ─── 현재 교대 ────────────────────────────────────────────────
+
+/**
+ * GET /api/shifts/current?machineId=
+ * 현재 교대 및 생산일 시작 시각
+ */
+router.get('/current', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const machineId = req.query.machineId as string | undefined;
+    let machineDbId: string | undefined;
+    if (machineId) {
+      const machine = await prisma.machine.findUnique({ where: { machineId } });
+      machineDbId = machine?.id;
+    }
+
+    const calendar = await loadShiftCalendar();
+    const pattern = patternFor(calendar, machineDbId);
+    const now = new Date();
+    const shift = currentShift(pattern, now);
+
+    res.json({
+      success: true,
+      data: {
+        pattern: pattern ? { id: pattern.id, name: pattern.name } : null,
+        shift: shift
+          ? { id: shift.shiftId, name: shift.shiftName, start: shift.start.toISOString(), end: shift.end.toISOString() }
+          : null,
+        productionDayStart: productionDayStart(pattern, now).toISOString(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,86 @@
+// SPC Routes - 측정 항목 관리도 (개별값 / X̄-R) · Western Electric 이상 · 제품 코드별 Cp / Cpk
+//   측정값은 /api/measurements (게이지 / CSV / POP 수기 입력) 와 NC 변수 주기 샘플링으로 수집
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { SpcChart } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { authenticate } from '../middleware/auth';
+import { AppError } from '../middleware/error';
+import { analyzeFeature, capabilityByProduct, listViolations } from '../lib/spc';
+
+const router = Router();
+
+router.use(authenticate);
+
+async function findFeature(id: string) {
+  const feature = await prisma.measurementFeature.findUnique({ where: { id } });
+  if (!feature) throw new AppError(404, 'NOT_FOUND', '측정 항목을 찾을 수 없습니다');
+  return feature;
+}
+
+function parseChart(value: unknown): SpcChart {
+  if (value === undefined) return SpcChart.INDIVIDUALS;
+  if (!Object.values(SpcChart).includes(value as SpcChart)) {
+    throw new AppError(400, 'INVALID_PARAMS', 'chart는 INDIVIDUALS 또는 XBAR 입니다');
+  }
+  return value as SpcChart;
+}
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/spc/features/:id/chart?chart=INDIVIDUALS|XBAR&productCode=&limit=125
+// 관리도 타점 / 관리 한계 / 규칙 위반 + 공정능력
+// productCode 생략 = 전체, 빈 값 = 제품 코드 없는 측정
+// ─────────────────────────────────────────────────────────────
+router.get('/features/:id/chart', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const feature = await findFeature(req.params.id);
+    const { productCode } = req.query;
+    const data = await analyzeFeature(feature, {
+      chart: parseChart(req.query.chart),
+      productCode: typeof productCode === 'string' ? productCode || null : undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 125, 1000),
+    });
+    return res.json({ success: true, data });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/spc/features/:id/capability?chart=INDIVIDUALS|XBAR
+// 제품 코드별 Cp / Cpk / Pp / Ppk (최근 측정순)
+// ─────────────────────────────────────────────────────────────
+router.get('/features/:id/capability', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const feature = await findFeature(req.params.id);
+    return res.json({ success: true, data: await capabilityByProduct(feature, parseChart(req.query.chart)) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/spc/violations?machineId=&featureId=&limit=50
+// 관리도 이상 이력 (최신순)
+// ─────────────────────────────────────────────────────────────
+router.get('/violations', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { machineId, featureId } = req.query;
+    let machineDbId: string | undefined;
+    if (typeof machineId === 'string' && machineId) {
+      const machine = await prisma.machine.findFirst({ where: { OR: [{ id: machineId }, { machineId }] } });
+      if (!machine) throw new AppError(404, 'NOT_FOUND', '장비를 찾을 수 없습니다.');
+      machineDbId = machine.id;
+    }
+    const data = await listViolations({
+      machineDbId,
+      featureId: typeof featureId === 'string' && featureId ? featureId : undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 50, 500),
+    });
+    return res.json({ success: true, data });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
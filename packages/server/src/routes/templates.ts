@@ -4,11 +4,12 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
 import { mqttService, TOPICS } from '../lib/mqtt';
-import { authenticate, authorize } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { asyncHandler } from '../middleware/error';
 import { ApiResponse } from '../types';
-import { UserRole, Prisma } from '@prisma/client';
+import { Prisma } from '@prisma/client';
 import { exportTemplateToFile } from '../lib/templateSync';
+import { validateOffsetLimits } from '../lib/offsets';
 
 const router = Router();
 
@@ -89,7 +90,7 @@ router.get('/:id', asyncHandler(async (
  * Create new template (HQ_ENGINEER only)
  */
 router.post('/',
-  authenticate, authorize(UserRole.HQ_ENGINEER),
+  authenticate, requirePermission('template.edit'),
   asyncHandler(async (req: Request, res: Response<ApiResponse<unknown>>) => {
     const body = req.body as Record<string, unknown>;
 
@@ -149,7 +150,7 @@ router.post('/',
  * Update template (HQ_ENGINEER only)
  */
 router.put('/:id',
-  authenticate, authorize(UserRole.HQ_ENGINEER),
+  authenticate, requirePermission('template.edit'),
   asyncHandler(async (req: Request, res: Response<ApiResponse<unknown>>) => {
     const { id } = req.params;
     const body = req.body as Record<string, unknown>;
@@ -165,6 +166,14 @@ router.put('/:id',
       });
     }
 
+    const limitError = body.offsetConfig !== undefined ? validateOffsetLimits(body.offsetConfig) : null;
+    if (limitError) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_OFFSET_LIMITS', message: limitError },
+      });
+    }
+
     // Build update data (only provided fields)
     type TemplateUpdateInput = {
       version?: string;
@@ -223,7 +232,7 @@ router.put('/:id',
  * Cannot delete if machines are using this template
  */
 router.delete('/:id',
-  authenticate, authorize(UserRole.HQ_ENGINEER),
+  authenticate, requirePermission('template.edit'),
   asyncHandler(async (req: Request, res: Response<ApiResponse<unknown>>) => {
     const { id } = req.params;
 
@@ -264,7 +273,7 @@ router.delete('/:id',
  * Sends MQTT command to all machines using this template
  */
 router.post('/:id/reload',
-  authenticate, authorize(UserRole.HQ_ENGINEER),
+  authenticate, requirePermission('template.edit'),
   asyncHandler(async (req: Request, res: Response<ApiResponse<unknown>>) => {
     const { id } = req.params;
 
@@ -0,0 +1,56 @@
+// Tool Life Routes - 공구 수명 예측 / 공구 교체 계획 보드
+//   카운트는 toolLifeSampler 가 READ_TOOL_LIFE 로 주기 수집, 소모율은 M20 생산 수 기준
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { prisma } from '../lib/prisma';
+import { authenticate } from '../middleware/auth';
+import { AppError } from '../middleware/error';
+import { forecastToolLife } from '../lib/toolLife';
+
+const router = Router();
+
+router.use(authenticate);
+
+const DEFAULT_HORIZON_HOURS = 8;
+const MAX_HORIZON_HOURS = 168;
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/tool-life/board?hours=8&location=
+// 전체 장비 공구 교체 예정 보드 — 수명 도달 + N시간 내 교체 예상 (임박 순)
+// ─────────────────────────────────────────────────────────────
+router.get('/board', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const hours = req.query.hours === undefined ? DEFAULT_HORIZON_HOURS : Number(req.query.hours);
+    if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_HORIZON_HOURS) {
+      throw new AppError(400, 'INVALID_PARAMS', `hours는 0 초과 ${MAX_HORIZON_HOURS} 이하입니다`);
+    }
+    const location = typeof req.query.location === 'string' && req.query.location ? req.query.location : null;
+
+    const now = new Date();
+    const horizon = now.getTime() + hours * 3600_000;
+    const tools = (await forecastToolLife({ now }))
+      .filter((t) => !location || t.location === location)
+      .filter((t) => t.status === 'EXPIRED' || (t.dueAt !== null && t.dueAt.getTime() <= horizon));
+
+    return res.json({ success: true, data: { generatedAt: now, hours, tools } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// GET /api/tool-life/machines/:id
+// 장비 전체 공구 예측 (ToolLifeView 교체 예상 컬럼)
+// ─────────────────────────────────────────────────────────────
+router.get('/machines/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const machine = await prisma.machine.findFirst({ where: { OR: [{ id }, { machineId: id }] } });
+    if (!machine) throw new AppError(404, 'NOT_FOUND', '장비를 찾을 수 없습니다.');
+    return res.json({ success: true, data: await forecastToolLife({ machineDbId: machine.id }) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
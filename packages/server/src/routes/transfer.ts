@@ -2,13 +2,12 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
-import { v4 as uuidv4 } from 'uuid';
 import { prisma } from '../lib/prisma';
 import { mqttService, TOPICS } from '../lib/mqtt';
-import { commandWaiter } from '../lib/commandWaiter';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission, machineFromParam } from '../middleware/auth';
+import { assertReleasedContent } from '../lib/programRepo';
+import { listCncPrograms } from '../lib/programVerify';
 import { createAuditLog } from './audit';
-import { CommandStatus } from '@prisma/client';
 
 const router = Router();
 
@@ -47,46 +46,15 @@ router.get('/:machineId/programs', authenticate, async (req: Request, res: Respo
       });
     }
 
-    // Agent에 LIST_PROGRAMS 명령 전송 후 응답 대기
-    const correlationId = uuidv4();
-    await prisma.commandLog.create({
-      data: {
-        correlationId,
-        machineId: machine.id,
-        command: 'LIST_PROGRAMS',
-        status: CommandStatus.PENDING,
-      },
-    });
-
-    mqttService.publish(TOPICS.COMMAND_TO(machineId), {
-      timestamp: new Date().toISOString(),
-      command: 'LIST_PROGRAMS',
-      correlationId,
-      params: {},
-    });
-
-    try {
-      const cmdResult = await commandWaiter.wait(correlationId, 15_000);
-      if (cmdResult.status !== 'success') {
-        return res.status(502).json({
-          success: false,
-          error: { code: cmdResult.errorCode ?? 'AGENT_ERROR', message: cmdResult.errorMessage ?? '프로그램 목록 조회 실패' },
-        });
-      }
-      return res.json({ success: true, data: cmdResult.result });
-    } catch {
-      return res.status(504).json({
-        success: false,
-        error: { code: 'COMMAND_TIMEOUT', message: 'Agent 응답 시간 초과 (15초)' },
-      });
-    }
+    // Agent LIST_PROGRAMS 응답 대기 (15초)
+    return res.json({ success: true, data: await listCncPrograms(machine) });
   } catch (error) {
     next(error);
   }
 });
 
 // Upload program to CNC (Server → CNC)
-router.post('/:machineId/upload', authenticate, upload.single('file'), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:machineId/upload', authenticate, requirePermission('transfer.pc_to_cnc', machineFromParam('machineId')), upload.single('file'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { machineId } = req.params;
     const { programNo } = req.body;
@@ -113,6 +81,9 @@ router.post('/:machineId/upload', authenticate, upload.single('file'), async (re
 
     const correlationId = `upload-${Date.now()}`;
     const content = file.buffer.toString('utf-8');
+
+    // 저장소에서 릴리스된 프로그램 본문만 전송
+    await assertReleasedContent(machine.id, content);
     const targetProgramNo = programNo || extractProgramNo(file.originalname, content);
 
     // Send upload command to Agent via MQTT
@@ -0,0 +1,576 @@
+// User Management Routes - 가입 승인 / 역할 변경 / 비활성화 / 비밀번호 초기화 / 범위 역할 부여
+
+import crypto from 'crypto';
+import { Router, Request, Response, NextFunction } from 'express';
+import { Prisma, UserRole } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { hashPassword } from '../auth/password';
+import { invalidateAccountState } from '../auth/account';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { getBaseRolePermissions, getUserGrants, invalidatePermissions, isPermission, Permission } from '../lib/permissions';
+import { createAuditLog } from './audit';
+
+const router = Router();
+
+router.use(authenticate, requirePermission('user.manage'));
+
+const USER_ROLES: UserRole[] = ['USER', 'ADMIN', 'HQ_ENGINEER'];
+const MIN_PASSWORD_LENGTH = 6;
+
+const USER_SELECT = {
+  id: true,
+  username: true,
+  email: true,
+  role: true,
+  isActive: true,
+  isApproved: true,
+  createdAt: true,
+  updatedAt: true,
+  lastLoginAt: true,
+} satisfies Prisma.UserSelect;
+
+type UserDto = Prisma.UserGetPayload<{ select: typeof USER_SELECT }>;
+
+/**
+ * HQ_ENGINEER 계정 / 역할은 HQ_ENGINEER만 관리 (ADMIN 권한 상승 방지)
+ */
+function canManage(actorRole: UserRole, target: { role: UserRole }, nextRole?: UserRole): boolean {
+  if (actorRole === 'HQ_ENGINEER') return true;
+  return target.role !== 'HQ_ENGINEER' && nextRole !== 'HQ_ENGINEER';
+}
+
+/**
+ * 기본 역할 권한 중 요청자가 전역으로 보유하지 않은 권한 (범위 역할 부여와 같은 기준)
+ * user.manage 만 가진 사용자가 ADMIN 등 상위 역할을 부여 / 회수하는 권한 상승 방지
+ */
+async function escalatedRolePermissions(actor: { id: string; role: UserRole }, roles: UserRole[]): Promise<Permission[]> {
+  const actorGrants = await getUserGrants(actor.id, actor.role);
+  const permissions = new Set((await Promise.all(roles.map(getBaseRolePermissions))).flat());
+  return [...permissions].filter((p) => !actorGrants.global.includes(p));
+}
+
+/**
+ * 해당 사용자의 유효 리프레시 토큰 폐기 (비활성화 / 역할 변경 / 비밀번호 초기화 시 재로그인 강제)
+ */
+async function revokeSessions(userId: string, reason: string): Promise<void> {
+  await prisma.refreshToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokeReason: reason },
+  });
+  invalidateAccountState(userId);
+}
+
+async function findTarget(req: Request, res: Response): Promise<UserDto | null> {
+  const user = await prisma.user.findUnique({ where: { id: req.params.id }, select: USER_SELECT });
+  if (!user) {
+    res.status(404).json({
+      success: false,
+      error: { code: 'USER_NOT_FOUND', message: '사용자를 찾을 수 없습니다' },
+    });
+    return null;
+  }
+  if (!canManage(req.user!.role, user)) {
+    res.status(403).json({
+      success: false,
+      error: { code: 'FORBIDDEN', message: '본사 엔지니어 계정은 본사 엔지니어만 관리할 수 있습니다' },
+    });
+    return null;
+  }
+  return user;
+}
+
+/**
+ * GET /api/users?status=pending|active|inactive&search=
+ * 사용자 목록 (승인 대기 → 최근 가입 순)
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = req.query.status as string | undefined;
+    const search = (req.query.search as string | undefined)?.trim();
+
+    const where: Prisma.UserWhereInput = {};
+    if (status === 'pending') where.isApproved = false;
+    else if (status === 'active') Object.assign(where, { isApproved: true, isActive: true });
+    else if (status === 'inactive') where.isActive = false;
+    if (search) {
+      where.OR = [
+        { username: { contains: search, mode: 'insensitive' } },
+        { email: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [users, pendingCount] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: USER_SELECT,
+        orderBy: [{ isApproved: 'asc' }, { createdAt: 'desc' }],
+      }),
+      prisma.user.count({ where: { isApproved: false } }),
+    ]);
+
+    res.json({ success: true, data: { items: users, pendingCount } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/users
+ * 관리자 직접 생성 (즉시 승인)
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { username, email, password, role = 'USER' } = req.body as {
+      username?: string; email?: string; password?: string; role?: UserRole;
+    };
+
+    if (!username?.trim() || !email?.trim() || !password) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_INPUT', message: '사용자명, 이메일, 비밀번호를 입력하세요' },
+      });
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_INPUT', message: `비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다` },
+      });
+    }
+    if (!USER_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_ROLE', message: '유효하지 않은 역할입니다' },
+      });
+    }
+    if (!canManage(req.user!.role, { role })) {
+      return res.status(403).json({
+        success: false,
+        error: { code: 'FORBIDDEN', message: '본사 엔지니어 계정은 본사 엔지니어만 생성할 수 있습니다' },
+      });
+    }
+
+    const existing = await prisma.user.findFirst({
+      where: { OR: [{ username: username.trim() }, { email: email.trim() }] },
+    });
+    if (existing) {
+      const field = existing.username === username.trim() ? '사용자명' : '이메일';
+      return res.status(409).json({
+        success: false,
+        error: { code: 'DUPLICATE', message: `이미 사용 중인 ${field}입니다` },
+      });
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        username: username.trim(),
+        email: email.trim(),
+        passwordHash: await hashPassword(password),
+        role,
+        isActive: true,
+        isApproved: true,
+      },
+      select: USER_SELECT,
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'user.create',
+      targetType: 'user',
+      targetId: user.id,
+      params: { username: user.username, role },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.status(201).json({ success: true, data: user });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/users/:id/approve
+ * 가입 승인 (body.role 지정 시 역할 함께 부여)
+ */
+router.post('/:id/approve', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = await findTarget(req, res);
+    if (!target) return;
+
+    const { role } = req.body as { role?: UserRole };
+    if (role !== undefined && !USER_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_ROLE', message: '유효하지 않은 역할입니다' },
+      });
+    }
+    if (!canManage(req.user!.role, target, role)) {
+      return res.status(403).json({
+        success: false,
+        error: { code: 'FORBIDDEN', message: '본사 엔지니어 역할은 본사 엔지니어만 부여할 수 있습니다' },
+      });
+    }
+    if (role !== undefined) {
+      const escalated = await escalatedRolePermissions(req.user!, [role]);
+      if (escalated.length > 0) {
+        return res.status(403).json({
+          success: false,
+          error: { code: 'FORBIDDEN', message: `보유하지 않은 권한이 포함된 역할은 부여할 수 없습니다 (${escalated.join(', ')})` },
+        });
+      }
+    }
+    if (target.isApproved) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'ALREADY_APPROVED', message: '이미 승인된 사용자입니다' },
+      });
+    }
+
+    const user = await prisma.user.update({
+      where: { id: target.id },
+      data: { isApproved: true, isActive: true, ...(role ? { role } : {}) },
+      select: USER_SELECT,
+    });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'user.approve',
+      targetType: 'user',
+      targetId: user.id,
+      params: { username: user.username, role: user.role },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: user });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/users/:id
+ * 이메일 / 역할 / 활성 상태 변경 — 본인 역할·활성 상태는 변경 불가
+ */
+router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = await findTarget(req, res);
+    if (!target) return;
+
+    const { email, role, isActive } = req.body as { email?: string; role?: UserRole; isActive?: boolean };
+
+    if (role !== undefined && !USER_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_ROLE', message: '유효하지 않은 역할입니다' },
+      });
+    }
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_INPUT', message: 'isActive 는 boolean 이어야 합니다' },
+      });
+    }
+    if (target.id === req.user!.id && ((role !== undefined && role !== target.role) || isActive === false)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'SELF_MODIFICATION', message: '본인 계정의 역할 / 활성 상태는 변경할 수 없습니다' },
+      });
+    }
+    if (!canManage(req.user!.role, target, role)) {
+      return res.status(403).json({
+        success: false,
+        error: { code: 'FORBIDDEN', message: '본사 엔지니어 역할은 본사 엔지니어만 부여할 수 있습니다' },
+      });
+    }
+    if (role !== undefined && role !== target.role) {
+      // 부여할 역할과 현재 역할 모두 — 상위 권한 계정의 강등도 막음
+      const escalated = await escalatedRolePermissions(req.user!, [role, target.role]);
+      if (escalated.length > 0) {
+        return res.status(403).json({
+          success: false,
+          error: { code: 'FORBIDDEN', message: `보유하지 않은 권한이 포함된 역할은 변경할 수 없습니다 (${escalated.join(', ')})` },
+        });
+      }
+    }
+    if (email !== undefined && email.trim() !== target.email) {
+      const dup = await prisma.user.findUnique({ where: { email: email.trim() } });
+      if (dup) {
+        return res.status(409).json({
+          success: false,
+          error: { code: 'DUPLICATE', message: '이미 사용 중인 이메일입니다' },
+        });
+      }
+    }
+
+    const data: Prisma.UserUpdateInput = {};
+    if (email !== undefined) data.email = email.trim();
+    if (role !== undefined) data.role = role;
+    if (isActive !== undefined) data.isActive = isActive;
+
+    const user = await prisma.user.update({ where: { id: target.id }, data, select: USER_SELECT });
+
+    // 역할 변경 / 비활성화 → 기존 세션 폐기 + 발급된 액세스 토큰 즉시 거부 (재로그인)
+    if (role !== undefined && role !== target.role) await revokeSessions(user.id, 'ROLE_CHANGED');
+    if (isActive === false && target.isActive) await revokeSessions(user.id, 'USER_DEACTIVATED');
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'user.update',
+      targetType: 'user',
+      targetId: user.id,
+      params: {
+        username: user.username,
+        before: { email: target.email, role: target.role, isActive: target.isActive },
+        after: { email: user.email, role: user.role, isActive: user.isActive },
+      },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: user });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/users/:id/reset-password
+ * 비밀번호 초기화 — body.password 미지정 시 임시 비밀번호 생성 (응답에 1회만 포함)
+ */
+router.post('/:id/reset-password', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = await findTarget(req, res);
+    if (!target) return;
+
+    const { password } = req.body as { password?: string };
+    if (password !== undefined && password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_INPUT', message: `비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다` },
+      });
+    }
+
+    const newPassword = password ?? crypto.randomBytes(9).toString('base64url');
+    await prisma.user.update({
+      where: { id: target.id },
+      data: { passwordHash: await hashPassword(newPassword) },
+    });
+    await revokeSessions(target.id, 'PASSWORD_RESET');
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'user.resetPassword',
+      targetType: 'user',
+      targetId: target.id,
+      params: { username: target.username, generated: password === undefined },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({
+      success: true,
+      data: { id: target.id, ...(password === undefined ? { temporaryPassword: newPassword } : {}) },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/users/:id
+ * 가입 거절 — 승인 전(로그인 이력 없음) 계정만 삭제, 그 외는 비활성화 사용
+ */
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = await findTarget(req, res);
+    if (!target) return;
+
+    if (target.isApproved || target.lastLoginAt) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'USER_HAS_HISTORY', message: '승인된 사용자는 삭제할 수 없습니다. 비활성화를 사용하세요' },
+      });
+    }
+
+    await prisma.user.delete({ where: { id: target.id } });
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'user.reject',
+      targetType: 'user',
+      targetId: target.id,
+      params: { username: target.username, email: target.email },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: { id: target.id } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const ASSIGNMENT_INCLUDE = {
+  role: { select: { id: true, name: true, permissions: true } },
+  machine: { select: { machineId: true, name: true } },
+} satisfies Prisma.RoleAssignmentInclude;
+
+/**
+ * GET /api/users/:id/roles
+ * 추가 역할 부여 목록 (전체 / 장비 / 라인 범위)
+ */
+router.get('/:id/roles', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = await findTarget(req, res);
+    if (!target) return;
+
+    const assignments = await prisma.roleAssignment.findMany({
+      where: { userId: target.id },
+      include: ASSIGNMENT_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({ success: true, data: assignments });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/users/:id/roles
+ * 추가 역할 부여 일괄 교체 { assignments: [{ roleId, machineId?, location? }] }
+ * machineId / location 중 하나만 지정 가능, 둘 다 없으면 전체 범위
+ * 본인 부여 변경 불가, 본인이 전체 범위로 보유하지 않은 권한이 포함된 역할은 부여 / 회수 불가
+ */
+router.put('/:id/roles', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const target = await findTarget(req, res);
+    if (!target) return;
+
+    if (target.id === req.user!.id) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'SELF_MODIFICATION', message: '본인 계정의 역할 부여는 변경할 수 없습니다' },
+      });
+    }
+
+    const { assignments } = req.body as {
+      assignments?: { roleId?: string; machineId?: string | null; location?: string | null }[];
+    };
+    if (!Array.isArray(assignments)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_INPUT', message: 'assignments 배열이 필요합니다' },
+      });
+    }
+
+    const roleIds = [...new Set(assignments.map((a) => a.roleId).filter((id): id is string => !!id))];
+    const roles = await prisma.role.findMany({ where: { id: { in: roleIds } } });
+    const roleById = new Map(roles.map((r) => [r.id, r]));
+
+    const actorGrants = await getUserGrants(req.user!.id, req.user!.role);
+    const data: Prisma.RoleAssignmentCreateManyInput[] = [];
+
+    for (const a of assignments) {
+      const role = a.roleId ? roleById.get(a.roleId) : undefined;
+      if (!role) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_ROLE', message: '존재하지 않는 역할이 포함되어 있습니다' },
+        });
+      }
+      if (a.machineId && a.location) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_SCOPE', message: '장비와 라인 범위는 동시에 지정할 수 없습니다' },
+        });
+      }
+      const escalated = role.permissions.filter((p) => isPermission(p) && !actorGrants.global.includes(p));
+      if (escalated.length > 0) {
+        return res.status(403).json({
+          success: false,
+          error: { code: 'FORBIDDEN', message: `보유하지 않은 권한이 포함된 역할은 부여할 수 없습니다 (${escalated.join(', ')})` },
+        });
+      }
+
+      let machineDbId: string | null = null;
+      if (a.machineId) {
+        const machine = await prisma.machine.findFirst({
+          where: { OR: [{ id: a.machineId }, { machineId: a.machineId }] },
+          select: { id: true },
+        });
+        if (!machine) {
+          return res.status(404).json({
+            success: false,
+            error: { code: 'NOT_FOUND', message: `장비를 찾을 수 없습니다: ${a.machineId}` },
+          });
+        }
+        machineDbId = machine.id;
+      }
+
+      data.push({
+        userId: target.id,
+        roleId: role.id,
+        machineId: machineDbId,
+        location: a.location?.trim() || null,
+        createdBy: req.user!.username,
+      });
+    }
+
+    // 빠지는 부여 — 보유하지 않은 권한이 포함된 역할은 회수도 불가
+    const before = await prisma.roleAssignment.findMany({ where: { userId: target.id }, include: ASSIGNMENT_INCLUDE });
+    const assignmentKey = (a: { roleId: string; machineId: string | null; location: string | null }) =>
+      `${a.roleId}|${a.machineId ?? ''}|${a.location ?? ''}`;
+    const kept = new Set(data.map((d) => assignmentKey({ roleId: d.roleId, machineId: d.machineId ?? null, location: d.location ?? null })));
+    const revoked = before
+      .filter((a) => !kept.has(assignmentKey(a)))
+      .flatMap((a) => a.role.permissions.filter((p) => isPermission(p) && !actorGrants.global.includes(p)));
+    if (revoked.length > 0) {
+      return res.status(403).json({
+        success: false,
+        error: { code: 'FORBIDDEN', message: `보유하지 않은 권한이 포함된 역할은 회수할 수 없습니다 (${[...new Set(revoked)].join(', ')})` },
+      });
+    }
+
+    await prisma.$transaction([
+      prisma.roleAssignment.deleteMany({ where: { userId: target.id } }),
+      prisma.roleAssignment.createMany({ data }),
+    ]);
+    invalidatePermissions(target.id);
+
+    const after = await prisma.roleAssignment.findMany({
+      where: { userId: target.id },
+      include: ASSIGNMENT_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const summarize = (list: typeof after) => list.map((a) => ({
+      role: a.role.name,
+      machineId: a.machine?.machineId ?? null,
+      location: a.location,
+    }));
+
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'user.assignRoles',
+      targetType: 'user',
+      targetId: target.id,
+      params: { username: target.username, before: summarize(before), after: summarize(after) },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.json({ success: true, data: after });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -2,8 +2,9 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { prisma } from '../lib/prisma';
-import { authenticate, requireRole } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { createAuditLog } from './audit';
+import { enqueueSchedulerRows, refreshSchedulerRows } from './scheduler';
 
 const router = Router();
 
@@ -55,6 +56,12 @@ router.get('/:id', authenticate, async (req: Request, res: Response, next: NextF
 
     const order = await prisma.workOrder.findUnique({
       where: { id },
+      include: {
+        schedulerRows: {
+          orderBy: { createdAt: 'asc' },
+          include: { machine: { select: { machineId: true } } },
+        },
+      },
     });
 
     if (!order) {
@@ -64,9 +71,22 @@ router.get('/:id', authenticate, async (req: Request, res: Response, next: NextF
       });
     }
 
+    const { schedulerRows, ...rest } = order;
     res.json({
       success: true,
-      data: order,
+      data: {
+        ...rest,
+        schedulerRows: schedulerRows.map((r) => ({
+          id: r.id,
+          machineId: r.machine.machineId,
+          mainProgramNo: r.mainProgramNo,
+          preset: r.preset,
+          count: r.count,
+          status: r.status,
+          createdAt: r.createdAt,
+          completedAt: r.completedAt,
+        })),
+      },
     });
   } catch (error) {
     next(error);
@@ -74,7 +94,7 @@ router.get('/:id', authenticate, async (req: Request, res: Response, next: NextF
 });
 
 // Create work order
-router.post('/', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', authenticate, requirePermission('work-order.manage'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const {
       orderNumber,
@@ -145,7 +165,7 @@ router.post('/', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (req
 });
 
 // Update work order
-router.put('/:id', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (req: Request, res: Response, next: NextFunction) => {
+router.put('/:id', authenticate, requirePermission('work-order.manage'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const {
@@ -208,7 +228,7 @@ router.put('/:id', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (r
 });
 
 // Start work order
-router.post('/:id/start', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/start', authenticate, requirePermission('work-order.manage'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
 
@@ -259,8 +279,103 @@ router.post('/:id/start', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), a
   }
 });
 
+/**
+ * POST /api/work-orders/:id/dispatch
+ * 작업지시 → 배정 장비 스케줄러 행 생성 (workOrderId 연결)
+ * 수량 = 목표 − 생산 − 이미 큐에 배포된 잔량, body.batchSize 지정 시 행 단위 분할
+ */
+router.post('/:id/dispatch', authenticate, requirePermission('work-order.manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { batchSize } = req.body as { batchSize?: number };
+
+    if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1)) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_INPUT', message: '분할 수량은 1 이상의 정수여야 합니다' },
+      });
+    }
+
+    const order = await prisma.workOrder.findUnique({
+      where: { id },
+      include: { schedulerRows: { where: { status: { in: ['PENDING', 'RUNNING', 'PAUSED'] } } } },
+    });
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'ORDER_NOT_FOUND', message: '작업지시를 찾을 수 없습니다' },
+      });
+    }
+
+    if (order.status !== 'PENDING' && order.status !== 'IN_PROGRESS') {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_STATE', message: '대기 / 진행 중 작업지시만 배포할 수 있습니다' },
+      });
+    }
+
+    if (!order.assignedMachine || !order.programNumber) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_INPUT', message: '배정 장비와 프로그램 번호를 먼저 지정하세요' },
+      });
+    }
+
+    const machine = await prisma.machine.findUnique({
+      where: { machineId: order.assignedMachine },
+    });
+
+    if (!machine) {
+      return res.status(404).json({
+        success: false,
+        error: { code: 'MACHINE_NOT_FOUND', message: '배정 장비를 찾을 수 없습니다' },
+      });
+    }
+
+    const queued = order.schedulerRows.reduce((sum, r) => sum + Math.max(r.preset - r.count, 0), 0);
+    const remaining = order.targetQuantity - order.producedQty - queued;
+    if (remaining <= 0) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'ALREADY_DISPATCHED', message: '남은 수량이 모두 스케줄러에 배포되어 있습니다' },
+      });
+    }
+
+    const presets: number[] = [];
+    for (let left = remaining; left > 0; left -= batchSize ?? left) {
+      presets.push(Math.min(batchSize ?? left, left));
+    }
+
+    const rows = await enqueueSchedulerRows(
+      machine,
+      presets.map((preset) => ({ mainProgramNo: order.programNumber!, preset, workOrderId: order.id })),
+      req.user!.username,
+    );
+
+    // Audit log
+    await createAuditLog({
+      userId: req.user!.id,
+      userRole: req.user!.role,
+      action: 'workOrder.dispatch',
+      targetType: 'workOrder',
+      targetId: id,
+      params: { orderNumber: order.orderNumber, machineId: machine.machineId, quantity: remaining, rows: rows.length },
+      result: 'success',
+      ipAddress: req.ip || 'unknown',
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { machineId: machine.machineId, quantity: remaining, rows },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Complete work order
-router.post('/:id/complete', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/complete', authenticate, requirePermission('work-order.manage'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
 
@@ -312,7 +427,7 @@ router.post('/:id/complete', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER'])
 });
 
 // Cancel work order
-router.post('/:id/cancel', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/cancel', authenticate, requirePermission('work-order.manage'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
 
@@ -341,6 +456,21 @@ router.post('/:id/cancel', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']),
       },
     });
 
+    // 배포된 대기 행 취소 (실행 중 행은 Agent 흐름에 맡김)
+    const pendingRows = await prisma.schedulerRow.findMany({
+      where: { workOrderId: id, status: 'PENDING' },
+      include: { machine: { select: { machineId: true } } },
+    });
+    if (pendingRows.length > 0) {
+      await prisma.schedulerRow.updateMany({
+        where: { id: { in: pendingRows.map((r) => r.id) } },
+        data: { status: 'CANCELLED' },
+      });
+      for (const machineId of new Set(pendingRows.map((r) => r.machine.machineId))) {
+        await refreshSchedulerRows(machineId);
+      }
+    }
+
     // Audit log
     await createAuditLog({
       userId: req.user!.id,
@@ -348,7 +478,7 @@ router.post('/:id/cancel', authenticate, requireRole(['ADMIN', 'HQ_ENGINEER']),
       action: 'workOrder.cancel',
       targetType: 'workOrder',
       targetId: id,
-      params: { orderNumber: order.orderNumber },
+      params: { orderNumber: order.orderNumber, cancelledRows: pendingRows.length },
       result: 'success',
       ipAddress: req.ip || 'unknown',
     });
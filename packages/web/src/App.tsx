@@ -11,8 +11,13 @@ import { RemoteControl } from './pages/RemoteControl';
 import { Scheduler } from './pages/Scheduler';
 import { Alarms } from './pages/Alarms';
 import { Transfer } from './pages/Transfer';
+import { ProgramLibrary } from './pages/ProgramLibrary';
+import { Measurements } from './pages/Measurements';
+import { Spc } from './pages/Spc';
+import { BackupDiff } from './pages/BackupDiff';
 import { POP } from './pages/POP';
 import { WorkOrder } from './pages/WorkOrder';
+import { ToolChanges } from './pages/ToolChanges';
 import { AuditLog } from './pages/AuditLog';
 import { Settings } from './pages/Settings';
 import { TemplateEditor } from './pages/TemplateEditor';
@@ -20,6 +25,8 @@ import { PanelEditor } from './pages/PanelEditor';
 import { MachineAdmin } from './pages/MachineAdmin';
 import { InterlockEditor } from './pages/InterlockEditor';
 import { SchedulerConfig } from './pages/SchedulerConfig';
+import { ShiftCalendar } from './pages/ShiftCalendar';
+import { BackupSchedules } from './pages/BackupSchedules';
 import { Simtos } from './pages/Simtos';
 
 // ── Copy Button ───────────────────────────────────────────
@@ -245,6 +252,42 @@ function App() {
         }
       />
 
+      <Route
+        path="/library"
+        element={
+          <ProtectedRoute>
+            <ProgramLibrary />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/measurements"
+        element={
+          <ProtectedRoute>
+            <Measurements />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/spc"
+        element={
+          <ProtectedRoute>
+            <Spc />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/backup/diff"
+        element={
+          <ProtectedRoute>
+            <BackupDiff />
+          </ProtectedRoute>
+        }
+      />
+
       <Route
         path="/simtos"
         element={
@@ -281,6 +324,15 @@ function App() {
         }
       />
 
+      <Route
+        path="/tool-changes"
+        element={
+          <ProtectedRoute>
+            <ToolChanges />
+          </ProtectedRoute>
+        }
+      />
+
       <Route
         path="/audit"
         element={
@@ -345,6 +397,24 @@ function App() {
         }
       />
 
+      <Route
+        path="/admin/shifts"
+        element={
+          <ProtectedRoute>
+            <ShiftCalendar />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/admin/backup-schedules"
+        element={
+          <ProtectedRoute>
+            <BackupSchedules />
+          </ProtectedRoute>
+        }
+      />
+
       {/* Fallback */}
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
@@ -1,10 +1,8 @@
 // CameraStream — RTSP→MJPEG 실시간 스트림 뷰어
-// 서버 /api/camera/:id/stream (FFmpeg 프록시) → <img> 태그
+// 서버 /api/camera/:id/stream (카메라 게이트웨이 — 다중 뷰어) → <img> 태그
 //
 // [자동 복구 정책 — 전시 모드]
-// - 최초 접속 / 수동 재연결: force=true (기존 스트림 교체)
-// - 자동 재시도: force=false → 409 BUSY 수신 시 "다른 기기 시청 중" 표시 후 재시도 중단
-//   → 핑퐁 루프 방지: 두 기기가 서로 상대방 스트림을 죽이는 현상 차단
+// - 여러 기기가 같은 카메라를 동시 시청 (서버가 RTSP 수신 1개를 분배) — 시청 중 뷰어 수 배지 표시
 // - 오류 시 지수 백오프 무제한 재시도 (3s → 5s → 10s → 20s → 최대 30s)
 // - 카메라 재부팅/LAN 탈착/공유기 재시작 모두 자동 복구
 
@@ -27,14 +25,12 @@ type ConnectionState =
   | 'network_error' // 네트워크 도달 불가 (재시도)
   | 'timeout'       // 프레임 미수신 타임아웃 (재시도)
   | 'stream_ended'  // 서버 측 스트림 종료 (재시도)
-  | 'busy'          // 다른 기기가 시청 중 (재시도 없음 — 수동만)
   | 'disabled';
 
 // 지수 백오프 지연 시간 (ms) — 재시도 횟수에 따라 증가, 최대 30s
 const BACKOFF_DELAYS = [3000, 5000, 10000, 20000, 30000];
 const CONNECT_TIMEOUT_MS = 25000; // 첫 프레임 수신 타임아웃 (고화질 재접속 여유)
-// 자동 재시도(force=false) 후 이 시간 이내에 onError → 409 BUSY로 간주
-const BUSY_DETECT_MS = 2000;
+const VIEWER_POLL_MS = 10000;     // LIVE 중 뷰어 수 갱신 주기
 
 function getBackoffDelay(retryCount: number): number {
   return BACKOFF_DELAYS[Math.min(retryCount, BACKOFF_DELAYS.length - 1)];
@@ -47,6 +43,7 @@ export function CameraStream({ camera, className = '', showControls = true }: Ca
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [streamUrl, setStreamUrl] = useState<string | null>(null);
   const [zoom, setZoom] = useState<number>(camera?.defaultZoom ?? 1.0);
+  const [viewerCount, setViewerCount] = useState<number | null>(null);
 
   // 카메라 변경 시 기본 배율 리셋
   useEffect(() => {
@@ -58,28 +55,22 @@ export function CameraStream({ camera, className = '', showControls = true }: Ca
   const retryTimerRef      = useRef<ReturnType<typeof setTimeout> | null>(null);
   const retryCountRef      = useRef(0);
   const cameraIdRef        = useRef<string | undefined>(undefined);
-  const connectStartRef    = useRef<number>(0); // onError 발생 시점 비교용
-  const lastForceRef       = useRef<boolean>(true); // 마지막 요청이 force였는지
 
   const clearTimers = useCallback(() => {
     if (connectTimeoutRef.current) { clearTimeout(connectTimeoutRef.current); connectTimeoutRef.current = null; }
     if (retryTimerRef.current)     { clearTimeout(retryTimerRef.current);     retryTimerRef.current = null; }
   }, []);
 
-  const buildStreamUrl = useCallback((cameraId: string, force: boolean) => {
+  const buildStreamUrl = useCallback((cameraId: string) => {
     const base = cameraServerApi.getStreamUrl(cameraId);
-    return `${base}&t=${Date.now()}${force ? '&force=true' : ''}`;
+    return `${base}&t=${Date.now()}`;
   }, []);
 
-  // force=true: 최초 접속 / 수동 재연결 (기존 스트림 교체)
-  // force=false: 자동 재시도 (409 수신 시 busy 상태로 전환, 핑퐁 방지)
-  const startStream = useCallback((cameraId: string, force: boolean) => {
+  const startStream = useCallback((cameraId: string) => {
     clearTimers();
     setConnState('connecting');
     setErrorMsg('');
     setStreamUrl(null);
-    lastForceRef.current = force;
-    connectStartRef.current = Date.now();
 
     connectTimeoutRef.current = setTimeout(() => {
       setConnState('timeout');
@@ -87,10 +78,10 @@ export function CameraStream({ camera, className = '', showControls = true }: Ca
       setStreamUrl(null);
     }, CONNECT_TIMEOUT_MS);
 
-    setStreamUrl(buildStreamUrl(cameraId, force));
+    setStreamUrl(buildStreamUrl(cameraId));
   }, [clearTimers, buildStreamUrl]);
 
-  // 카메라 변경 시 — 최초 접속은 force=true
+  // 카메라 변경 시 재접속
   useEffect(() => {
     clearTimers();
     retryCountRef.current = 0;
@@ -103,11 +94,11 @@ export function CameraStream({ camera, className = '', showControls = true }: Ca
       return;
     }
 
-    startStream(camera.id, true); // 최초 접속: force=true
+    startStream(camera.id);
     return clearTimers;
   }, [camera?.id, camera?.enabled, startStream, clearTimers]);
 
-  // 오류 후 지수 백오프 재시도 — force=false로 재시도
+  // 오류 후 지수 백오프 재시도
   const scheduleRetry = useCallback((state: ConnectionState, msg: string) => {
     if (!cameraIdRef.current) return;
     const delay = getBackoffDelay(retryCountRef.current);
@@ -118,7 +109,7 @@ export function CameraStream({ camera, className = '', showControls = true }: Ca
     setStreamUrl(null);
     console.log(`[CameraStream] Retry #${retryCountRef.current} in ${delay}ms (${state})`);
     retryTimerRef.current = setTimeout(() => {
-      if (cameraIdRef.current) startStream(cameraIdRef.current, false); // 재시도: force=false
+      if (cameraIdRef.current) startStream(cameraIdRef.current);
     }, delay);
   }, [startStream]);
 
@@ -131,20 +122,29 @@ export function CameraStream({ camera, className = '', showControls = true }: Ca
   }, [clearTimers]);
 
   const handleError = useCallback(() => {
-    const elapsed = Date.now() - connectStartRef.current;
+    scheduleRetry('error', '연결 오류 — 자동 재시도 중');
+  }, [scheduleRetry]);
 
-    // force=false 재시도에서 빠르게 실패 → 409 BUSY로 간주, 자동 재시도 중단
-    if (!lastForceRef.current && elapsed < BUSY_DETECT_MS) {
-      clearTimers();
-      setConnState('busy');
-      setErrorMsg('다른 기기에서 시청 중입니다');
-      setStreamUrl(null);
-      console.log('[CameraStream] Detected BUSY (409) — stopping auto-retry');
+  // LIVE 중 시청자 수 폴링 (본인 포함)
+  useEffect(() => {
+    if (connState !== 'live' || !camera?.id) {
+      setViewerCount(null);
       return;
     }
-
-    scheduleRetry('error', '연결 오류 — 자동 재시도 중');
-  }, [scheduleRetry, clearTimers]);
+    const cameraId = camera.id;
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const res = await cameraServerApi.getStatus(cameraId);
+        if (!cancelled && res.success && res.data) setViewerCount(res.data.viewers.total);
+      } catch {
+        // 상태 조회 실패는 스트림에 영향 없음
+      }
+    };
+    poll();
+    const timer = setInterval(poll, VIEWER_POLL_MS);
+    return () => { cancelled = true; clearInterval(timer); };
+  }, [connState, camera?.id]);
 
   // 타임아웃 발생 후 자동 재시도
   useEffect(() => {
@@ -154,12 +154,12 @@ export function CameraStream({ camera, className = '', showControls = true }: Ca
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [connState]);
 
-  // 수동 재연결 — force=true로 기존 스트림 강제 교체
+  // 수동 재연결
   const handleRetry = useCallback(() => {
     if (!cameraIdRef.current) return;
     retryCountRef.current = 0;
     setRetryCount(0);
-    startStream(cameraIdRef.current, true); // 수동: force=true
+    startStream(cameraIdRef.current);
   }, [startStream]);
 
   const toggleFullscreen = useCallback(() => {
@@ -248,26 +248,6 @@ export function CameraStream({ camera, className = '', showControls = true }: Ca
         </div>
       )}
 
-      {/* BUSY 오버레이 — 다른 기기 시청 중 */}
-      {connState === 'busy' && (
-        <div className="absolute inset-0 flex items-center justify-center bg-black/90">
-          <div className="text-center px-4">
-            <svg className="w-10 h-10 mx-auto mb-2 text-orange-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5}
-                d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
-            </svg>
-            <p className="text-sm font-medium text-orange-400">다른 기기에서 시청 중</p>
-            <p className="text-xs mt-1 text-gray-400">강제 연결하면 상대방 화면이 끊깁니다</p>
-            <button
-              onClick={handleRetry}
-              className="mt-3 px-3 py-1 text-xs bg-orange-700 hover:bg-orange-600 text-white rounded transition-colors"
-            >
-              강제 연결
-            </button>
-          </div>
-        </div>
-      )}
-
       {/* 인증 오류 */}
       {connState === 'auth_error' && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/90">
@@ -299,6 +279,11 @@ export function CameraStream({ camera, className = '', showControls = true }: Ca
             LIVE
           </span>
           <span className="text-white text-xs bg-black/50 px-2 py-0.5 rounded">{camera.name}</span>
+          {viewerCount !== null && viewerCount > 1 && (
+            <span className="text-white text-xs bg-black/50 px-2 py-0.5 rounded" title="현재 시청 중인 화면 수">
+              시청 {viewerCount}
+            </span>
+          )}
         </div>
       )}
 
@@ -320,6 +305,17 @@ export function CameraStream({ camera, className = '', showControls = true }: Ca
             className="p-1.5 bg-black/50 text-white rounded hover:bg-black/70 transition-colors text-sm font-bold leading-none"
             title="확대"
           >+</button>
+          <a
+            href={cameraServerApi.getSnapshotUrl(camera.id, true)}
+            className="p-1.5 bg-black/50 text-white rounded hover:bg-black/70 transition-colors"
+            title="스냅샷 저장"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          </a>
           <button onClick={handleRetry} className="p-1.5 bg-black/50 text-white rounded hover:bg-black/70 transition-colors" title="새로고침">
             <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useAuthStore } from '../stores/authStore';
+import { usePermission } from '../hooks/usePermission';
 import { machineApi } from '../lib/api';
 
 interface ControlLockButtonProps {
@@ -79,7 +80,7 @@ export function ControlLockButton({
   }, [machineId, onLockChange]);
 
   // Check if user has permission to control
-  const canControl = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const canControl = usePermission('control.acquire', machineId);
 
   if (!canControl) {
     return (
@@ -0,0 +1,27 @@
+// DiffHunks - 프로그램 줄 diff 표시 (백업 비교 / 전송 읽기 비교 공용)
+
+import type { BackupDiffHunk } from '../lib/api';
+
+export function DiffHunks({ hunks }: { hunks: BackupDiffHunk[] }) {
+  return (
+    <div className="overflow-x-auto font-mono text-xs">
+      {hunks.map((h, i) => (
+        <div key={i}>
+          <div className="px-3 py-1 bg-blue-900/20 text-blue-300">
+            @@ −{h.oldStart},{h.oldLines} +{h.newStart},{h.newLines} @@
+          </div>
+          {h.lines.map((l, j) => (
+            <div
+              key={j}
+              className={`px-3 whitespace-pre ${
+                l.op === '+' ? 'bg-green-900/30 text-green-300' : l.op === '-' ? 'bg-red-900/30 text-red-300' : 'text-gray-400'
+              }`}
+            >
+              {l.op} {l.text}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
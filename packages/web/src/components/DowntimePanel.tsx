@@ -0,0 +1,252 @@
+// DowntimePanel - 비가동 이벤트 사유 입력 (MachineDetail / POP 공용)
+// 정지/알람으로 자동 생성된 이벤트에 작업자가 사유 코드(트리)와 메모를 지정
+
+import { useState, useEffect, useCallback } from 'react';
+import { wsClient } from '../lib/wsClient';
+import { downtimeApi, DowntimeEvent, DowntimeReason, ProductionTimeRange } from '../lib/api';
+import { formatDuration } from '../lib/machineUtils';
+
+interface DowntimePanelProps {
+  machineId?: string;              // 미지정 시 전체 장비
+  timeRange?: ProductionTimeRange;
+  limit?: number;
+}
+
+const TRIGGER_LABEL: Record<DowntimeEvent['trigger'], string> = { IDLE: '정지', ALARM: '알람' };
+
+function formatTime(iso: string): string {
+  const d = new Date(iso);
+  return `${String(d.getMonth() + 1).padStart(2, '0')}/${String(d.getDate()).padStart(2, '0')} ${d.toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit', hour12: false })}`;
+}
+
+function eventSeconds(ev: DowntimeEvent, now: number): number {
+  return ev.duration ?? Math.max((now - new Date(ev.startedAt).getTime()) / 1000, 0);
+}
+
+export function DowntimePanel({ machineId, timeRange = 'today', limit = 50 }: DowntimePanelProps) {
+  const [events, setEvents] = useState<DowntimeEvent[]>([]);
+  const [reasons, setReasons] = useState<DowntimeReason[]>([]);
+  const [untaggedOnly, setUntaggedOnly] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const loadEvents = useCallback(async () => {
+    const res = await downtimeApi.getEvents({ machineId, timeRange, untagged: untaggedOnly, limit });
+    setEvents(res.success && res.data ? res.data : []);
+  }, [machineId, timeRange, untaggedOnly, limit]);
+
+  useEffect(() => {
+    downtimeApi.getReasons().then((res) => {
+      if (res.success && res.data) setReasons(res.data);
+    });
+  }, []);
+
+  useEffect(() => { loadEvents(); }, [loadEvents]);
+
+  // 진행 중 이벤트 경과 시간 갱신
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 10_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // 실시간 이벤트 시작/종료/태깅 반영
+  useEffect(() => {
+    return wsClient.onMessage((msg) => {
+      if (msg.type !== 'downtime') return;
+      const p = msg.payload as { machineId: string; action: 'opened' | 'updated' | 'closed'; event: DowntimeEvent };
+      if (machineId && p.machineId !== machineId) return;
+      setEvents((prev) => {
+        const exists = prev.some((e) => e.id === p.event.id);
+        if (!exists) return p.action === 'opened' ? [p.event, ...prev].slice(0, limit) : prev;
+        if (untaggedOnly && p.event.reasonId) return prev.filter((e) => e.id !== p.event.id);
+        return prev.map((e) => (e.id === p.event.id ? p.event : e));
+      });
+    });
+  }, [machineId, untaggedOnly, limit]);
+
+  const handleTag = async (ev: DowntimeEvent, reasonId: string | null, note: string) => {
+    const res = await downtimeApi.tagEvent(ev.id, reasonId, note);
+    if (res.success && res.data) {
+      const updated = res.data;
+      setEvents((prev) =>
+        untaggedOnly && updated.reasonId
+          ? prev.filter((e) => e.id !== updated.id)
+          : prev.map((e) => (e.id === updated.id ? updated : e)),
+      );
+      setEditingId(null);
+    } else {
+      alert(res.error?.message ?? '사유 저장 실패');
+    }
+  };
+
+  const untaggedCount = events.filter((e) => !e.reasonId).length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <span>{events.length}건</span>
+          {untaggedCount > 0 && (
+            <span className="px-2 py-0.5 text-xs bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400 rounded">
+              미입력 {untaggedCount}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1.5 text-xs text-gray-500">
+            <input type="checkbox" checked={untaggedOnly} onChange={(e) => setUntaggedOnly(e.target.checked)} />
+            미입력만
+          </label>
+          <button onClick={loadEvents} className="text-xs text-blue-600 hover:text-blue-500">
+            새로고침
+          </button>
+        </div>
+      </div>
+
+      {events.length === 0 ? (
+        <div className="text-center text-gray-500 py-6 text-sm">비가동 이벤트가 없습니다</div>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {events.map((ev) => (
+            <div
+              key={ev.id}
+              className={`rounded border p-2 text-sm ${
+                !ev.endedAt
+                  ? 'border-red-300 dark:border-red-800 bg-red-50 dark:bg-red-900/20'
+                  : !ev.reasonId
+                    ? 'border-yellow-300 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/10'
+                    : 'border-gray-200 dark:border-gray-700'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span className={`px-1.5 py-0.5 text-xs rounded ${
+                  ev.trigger === 'ALARM'
+                    ? 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+                }`}>
+                  {TRIGGER_LABEL[ev.trigger]}{ev.alarmNo !== null ? ` #${ev.alarmNo}` : ''}
+                </span>
+                {!machineId && <span className="font-medium text-gray-900 dark:text-white">{ev.machine.name}</span>}
+                <span className="text-gray-500 font-mono text-xs">{formatTime(ev.startedAt)}</span>
+                <span className="text-gray-700 dark:text-gray-300 text-xs">
+                  {formatDuration(eventSeconds(ev, now))}{!ev.endedAt && ' (진행 중)'}
+                </span>
+                <span className="flex-1" />
+                {ev.reason ? (
+                  <button
+                    onClick={() => setEditingId(editingId === ev.id ? null : ev.id)}
+                    className="px-2 py-0.5 text-xs rounded bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300"
+                    title={ev.taggedBy ? `입력: ${ev.taggedBy.username}` : undefined}
+                  >
+                    {ev.reason.name}
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => setEditingId(editingId === ev.id ? null : ev.id)}
+                    className="px-2 py-0.5 text-xs rounded bg-blue-600 text-white hover:bg-blue-700"
+                  >
+                    사유 입력
+                  </button>
+                )}
+              </div>
+              {ev.note && editingId !== ev.id && (
+                <div className="mt-1 text-xs text-gray-500">{ev.note}</div>
+              )}
+              {editingId === ev.id && (
+                <ReasonPicker
+                  reasons={reasons}
+                  event={ev}
+                  onSave={(reasonId, note) => handleTag(ev, reasonId, note)}
+                  onCancel={() => setEditingId(null)}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── 사유 선택 (분류 → 세부 사유) ─────────────────────────
+
+function ReasonPicker({
+  reasons,
+  event,
+  onSave,
+  onCancel,
+}: {
+  reasons: DowntimeReason[];
+  event: DowntimeEvent;
+  onSave: (reasonId: string | null, note: string) => void;
+  onCancel: () => void;
+}) {
+  const initialCategory =
+    reasons.find((r) => r.id === event.reasonId || r.children.some((c) => c.id === event.reasonId))?.id ?? reasons[0]?.id ?? null;
+  const [categoryId, setCategoryId] = useState<string | null>(initialCategory);
+  const [reasonId, setReasonId] = useState<string | null>(event.reasonId);
+  const [note, setNote] = useState(event.note ?? '');
+
+  const category = reasons.find((r) => r.id === categoryId);
+  const options = category ? (category.children.length > 0 ? category.children : [category]) : [];
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {reasons.map((r) => (
+          <button
+            key={r.id}
+            onClick={() => setCategoryId(r.id)}
+            className={`px-2 py-1 text-xs rounded border ${
+              r.id === categoryId
+                ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400'
+            }`}
+            style={r.color ? { borderLeftColor: r.color, borderLeftWidth: 3 } : undefined}
+          >
+            {r.name}
+          </button>
+        ))}
+        {reasons.length === 0 && <span className="text-xs text-gray-500">등록된 사유 코드가 없습니다 (설정에서 추가)</span>}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {options.map((r) => (
+          <button
+            key={r.id}
+            onClick={() => setReasonId(r.id)}
+            className={`px-3 py-1.5 text-sm rounded ${
+              r.id === reasonId
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {r.name}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="메모 (선택)"
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        />
+        {event.reasonId && (
+          <button onClick={() => onSave(null, '')} className="px-2 py-1 text-xs text-red-500 hover:text-red-400">
+            사유 해제
+          </button>
+        )}
+        <button onClick={onCancel} className="px-2 py-1 text-xs text-gray-500 hover:text-gray-400">
+          취소
+        </button>
+        <button
+          onClick={() => onSave(reasonId, note)}
+          disabled={!reasonId}
+          className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40"
+        >
+          저장
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -24,6 +24,7 @@ function getEventIcon(type: FocasEvent['type']): string {
     case 'ONE_CYCLE_STOP_ON': return '⏸';
     case 'ONE_CYCLE_STOP_OFF': return '▷';
     case 'HEAD_ON':           return '◉';
+    case 'SPC_VIOLATION':     return '⚠';
     default:                  return '·';
   }
 }
@@ -39,7 +40,7 @@ function getRowStyle(event: FocasEvent): string {
 
 function getImpliedLevel(type: FocasEvent['type']): 'error' | 'warn' | 'info' {
   if (['SCHEDULER_ERROR', 'INTERLOCK_FAIL'].includes(type)) return 'error';
-  if (['SCHEDULER_PAUSED', 'ONE_CYCLE_STOP_ON'].includes(type)) return 'warn';
+  if (['SCHEDULER_PAUSED', 'ONE_CYCLE_STOP_ON', 'SPC_VIOLATION'].includes(type)) return 'warn';
   return 'info';
 }
 
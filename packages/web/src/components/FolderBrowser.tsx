@@ -1,116 +1,83 @@
 // FolderBrowser - 폴더 탐색 모달 컴포넌트
 
 import { useState, useEffect, useCallback } from 'react';
-import { dncApi } from '../lib/api';
-
-interface FolderEntry {
-  name: string;
-  path: string;
-}
+import { dncApi, FolderEntry } from '../lib/api';
 
 interface FolderBrowserProps {
   isOpen: boolean;
   currentPath?: string;
+  /** 새 폴더 생성 권한 범위 (machine.config) */
+  machineId?: string;
+  canCreate?: boolean;
   onSelect: (path: string) => void;
   onClose: () => void;
 }
 
-// Mock 폴더 트리 (API 미연결 시 fallback)
-const MOCK_FOLDER_TREE: Record<string, FolderEntry[]> = {
-  '/': [
-    { name: 'server', path: '/server' },
-  ],
-  '/server': [
-    { name: 'programs', path: '/server/programs' },
-    { name: 'backup', path: '/server/backup' },
-  ],
-  '/server/programs': [
-    { name: 'MC-001', path: '/server/programs/MC-001' },
-    { name: 'MC-002', path: '/server/programs/MC-002' },
-    { name: 'MC-003', path: '/server/programs/MC-003' },
-    { name: 'MC-004', path: '/server/programs/MC-004' },
-    { name: 'shared', path: '/server/programs/shared' },
-  ],
-  '/server/programs/MC-001': [
-    { name: 'Path1', path: '/server/programs/MC-001/Path1' },
-    { name: 'Path2', path: '/server/programs/MC-001/Path2' },
-  ],
-  '/server/programs/MC-002': [
-    { name: 'Path1', path: '/server/programs/MC-002/Path1' },
-    { name: 'Path2', path: '/server/programs/MC-002/Path2' },
-  ],
-  '/server/programs/MC-003': [
-    { name: 'Path1', path: '/server/programs/MC-003/Path1' },
-    { name: 'Path2', path: '/server/programs/MC-003/Path2' },
-  ],
-  '/server/programs/MC-004': [
-    { name: 'Path1', path: '/server/programs/MC-004/Path1' },
-    { name: 'Path2', path: '/server/programs/MC-004/Path2' },
-    { name: 'Path3', path: '/server/programs/MC-004/Path3' },
-  ],
-  '/server/programs/shared': [],
-  '/server/backup': [],
-  // Leaf nodes
-  '/server/programs/MC-001/Path1': [],
-  '/server/programs/MC-001/Path2': [],
-  '/server/programs/MC-002/Path1': [],
-  '/server/programs/MC-002/Path2': [],
-  '/server/programs/MC-003/Path1': [],
-  '/server/programs/MC-003/Path2': [],
-  '/server/programs/MC-004/Path1': [],
-  '/server/programs/MC-004/Path2': [],
-  '/server/programs/MC-004/Path3': [],
-};
-
-function getParentPath(path: string): string | null {
-  if (path === '/') return null;
-  const segments = path.split('/').filter(Boolean);
-  if (segments.length <= 1) return '/';
-  return '/' + segments.slice(0, -1).join('/');
-}
+// 서버 허용 루트(DNC 저장소 / DNC_ROOTS 마운트 지점) 하위만 탐색 — '/' 는 루트 목록
+const ROOT_PATH = '/';
 
-export function FolderBrowser({ isOpen, currentPath, onSelect, onClose }: FolderBrowserProps) {
-  const [browsePath, setBrowsePath] = useState(currentPath || '/server/programs');
+export function FolderBrowser({ isOpen, currentPath, machineId, canCreate = false, onSelect, onClose }: FolderBrowserProps) {
+  const [browsePath, setBrowsePath] = useState(currentPath || ROOT_PATH);
+  const [parentPath, setParentPath] = useState<string | null>(null);
+  const [writable, setWritable] = useState(false);
   const [folders, setFolders] = useState<FolderEntry[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
 
   const loadFolders = useCallback(async (path: string) => {
     setIsLoading(true);
+    setError(null);
     try {
       const response = await dncApi.listFolders(path);
       if (response.success && response.data) {
-        const data = response.data as { folders: FolderEntry[] };
-        setFolders(data.folders);
-      } else {
-        // Mock fallback
-        setFolders(MOCK_FOLDER_TREE[path] || []);
+        setBrowsePath(response.data.path);
+        setParentPath(response.data.parent);
+        setWritable(response.data.writable);
+        setFolders(response.data.folders);
+        return true;
       }
+      setError(response.error?.message ?? '폴더 목록 조회 실패');
     } catch {
-      // Mock fallback
-      setFolders(MOCK_FOLDER_TREE[path] || []);
+      setError('서버에 연결할 수 없습니다');
     } finally {
       setIsLoading(false);
     }
+    return false;
   }, []);
 
   useEffect(() => {
-    if (isOpen) {
-      const startPath = currentPath || '/server/programs';
-      setBrowsePath(startPath);
-      loadFolders(startPath);
-    }
+    if (!isOpen) return;
+    setNewFolderName(null);
+    // 저장된 경로가 더 이상 없으면 루트 목록부터
+    loadFolders(currentPath || ROOT_PATH).then((ok) => {
+      if (!ok && currentPath) loadFolders(ROOT_PATH);
+    });
   }, [isOpen, currentPath, loadFolders]);
 
   const navigateTo = (path: string) => {
-    setBrowsePath(path);
+    setNewFolderName(null);
     loadFolders(path);
   };
 
   const handleGoUp = () => {
-    const parent = getParentPath(browsePath);
-    if (parent) navigateTo(parent);
+    if (parentPath) navigateTo(parentPath);
+  };
+
+  const handleCreateFolder = async () => {
+    const name = newFolderName?.trim();
+    if (!name) return;
+    const res = await dncApi.createFolder(browsePath, name, machineId);
+    if (!res.success || !res.data) {
+      setError(res.error?.message ?? '폴더 생성 실패');
+      return;
+    }
+    setNewFolderName(null);
+    navigateTo(res.data.path);
   };
 
+  const isRootList = browsePath === ROOT_PATH;
+
   if (!isOpen) return null;
 
   return (
@@ -128,15 +95,54 @@ export function FolderBrowser({ isOpen, currentPath, onSelect, onClose }: Folder
           <div className="flex items-center gap-2">
             <button
               onClick={handleGoUp}
-              disabled={browsePath === '/'}
+              disabled={!parentPath}
               className="px-2 py-1 text-sm bg-gray-200 dark:bg-gray-600 rounded hover:bg-gray-300 dark:hover:bg-gray-500 disabled:opacity-40 disabled:cursor-not-allowed"
             >
               ..
             </button>
             <span className="text-sm font-mono text-gray-600 dark:text-gray-300 truncate flex-1">
-              {browsePath}
+              {isRootList ? '허용된 루트' : browsePath}
             </span>
+            {canCreate && !isRootList && writable && newFolderName === null && (
+              <button
+                onClick={() => setNewFolderName('')}
+                className="px-2 py-1 text-xs text-blue-600 dark:text-blue-400 border border-blue-300 dark:border-blue-700 rounded hover:bg-blue-50 dark:hover:bg-blue-900/20"
+              >
+                + 새 폴더
+              </button>
+            )}
           </div>
+          {newFolderName !== null && (
+            <div className="flex items-center gap-2 mt-2">
+              <input
+                autoFocus
+                value={newFolderName}
+                onChange={(e) => setNewFolderName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleCreateFolder();
+                  if (e.key === 'Escape') setNewFolderName(null);
+                }}
+                placeholder="폴더 이름"
+                className="flex-1 px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <button
+                onClick={handleCreateFolder}
+                disabled={!newFolderName.trim()}
+                className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40"
+              >
+                생성
+              </button>
+              <button
+                onClick={() => setNewFolderName(null)}
+                className="px-2 py-1 text-xs text-gray-500 hover:text-gray-800 dark:hover:text-white"
+              >
+                취소
+              </button>
+            </div>
+          )}
+          {error && (
+            <div className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</div>
+          )}
         </div>
 
         {/* Folder list */}
@@ -147,7 +153,7 @@ export function FolderBrowser({ isOpen, currentPath, onSelect, onClose }: Folder
             </div>
           ) : folders.length === 0 ? (
             <div className="flex items-center justify-center h-32 text-gray-500 text-sm">
-              하위 폴더 없음 (현재 경로 선택 가능)
+              {isRootList ? '탐색 가능한 루트 없음' : '하위 폴더 없음 (현재 경로 선택 가능)'}
             </div>
           ) : (
             <div className="divide-y divide-gray-100 dark:divide-gray-700">
@@ -172,7 +178,8 @@ export function FolderBrowser({ isOpen, currentPath, onSelect, onClose }: Folder
         {/* Footer */}
         <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between">
           <div className="text-xs text-gray-500 truncate max-w-[260px]">
-            선택: <span className="font-mono">{browsePath}</span>
+            선택: <span className="font-mono">{isRootList ? '-' : browsePath}</span>
+            {!isRootList && !writable && <span className="ml-1 text-red-500">(쓰기 불가)</span>}
           </div>
           <div className="flex gap-2">
             <button
@@ -183,7 +190,8 @@ export function FolderBrowser({ isOpen, currentPath, onSelect, onClose }: Folder
             </button>
             <button
               onClick={() => onSelect(browsePath)}
-              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              disabled={isRootList || !writable || isLoading}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
             >
               선택
             </button>
@@ -2,11 +2,12 @@
 // PC(lg:, ≥1024px): 사이드바 항상 고정 표시 (원본 복원)
 // Mobile(max-lg:, <1024px): 드로어 방식 + 큰 폰트/아이콘
 
-import { ReactNode, useState } from 'react';
+import { ReactNode, useEffect, useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../stores/authStore';
 import { authApi, machineApi } from '../lib/api';
 import { useMachineStore } from '../stores/machineStore';
+import { hasPermission } from '../lib/permissions';
 
 interface LayoutProps {
   children: ReactNode;
@@ -17,6 +18,8 @@ export function Layout({ children }: LayoutProps) {
   const location = useLocation();
   const navigate = useNavigate();
   const { user, logout } = useAuthStore();
+  const accessToken = useAuthStore((s) => s.accessToken);
+  const setPermissions = useAuthStore((s) => s.setPermissions);
   const controlLockMap = useMachineStore((s) => s.controlLockMap);
   const releaseControlLock = useMachineStore((s) => s.releaseControlLock);
 
@@ -34,12 +37,22 @@ export function Layout({ children }: LayoutProps) {
     navigate('/login');
   };
 
+  // 실효 권한 동기화 (로그인 직후 / 새로고침 시) — 개발용 로그인은 로컬 권한 유지
+  useEffect(() => {
+    if (!user || accessToken === 'dev-token') return;
+    authApi.permissions()
+      .then((res) => { if (res.success && res.data) setPermissions(res.data); })
+      .catch(() => null);
+  }, [user?.id, user?.role]); // eslint-disable-line react-hooks/exhaustive-deps
+
   const handleNavClick = () => {
     setSidebarOpen(false);
   };
 
   const isHqEngineer = user?.role === 'HQ_ENGINEER' || user?.role === 'ADMIN';
-  const isHqEngineerOnly = user?.role === 'HQ_ENGINEER';
+  const permissions = useAuthStore((s) => s.permissions);
+  const canManageMachines = hasPermission(permissions, 'machine.manage');
+  const canEditTemplates = hasPermission(permissions, 'template.edit');
 
   const [expandedMenus, setExpandedMenus] = useState<Record<string, boolean>>({ machines: false, admin: false });
 
@@ -51,6 +64,7 @@ export function Layout({ children }: LayoutProps) {
     { path: '/', label: 'Dashboard', icon: DashboardIcon },
     { path: '/pop', label: 'POP', icon: POPIcon },
     { path: '/work-orders', label: 'Work Orders', icon: WorkOrderIcon },
+    { path: '/tool-changes', label: 'Tool Changes', icon: ToolChangeIcon },
     { path: '/alarms', label: 'Alarms', icon: AlarmIcon },
     { path: '/audit', label: 'Audit Log', icon: AuditIcon },
     { path: '/settings', label: 'Settings', icon: SettingsIcon },
@@ -60,6 +74,9 @@ export function Layout({ children }: LayoutProps) {
     { path: '/remote', label: 'Remote Panel', icon: RemotePanelIcon },
     { path: '/scheduler', label: 'Scheduler', icon: SchedulerIcon },
     { path: '/transfer', label: 'File Transfer', icon: TransferIcon },
+    { path: '/library', label: 'Program Library', icon: LibraryIcon },
+    { path: '/measurements', label: 'Gauge Correction', icon: MeasurementIcon },
+    { path: '/spc', label: 'SPC', icon: SpcIcon },
     ...(isHqEngineer ? [{ path: '/simtos', label: 'SIMTOS 2026', icon: SimtosIcon }] : []),
   ];
 
@@ -188,7 +205,7 @@ export function Layout({ children }: LayoutProps) {
             })}
 
             {/* HQ_ENGINEER 전용 관리자 메뉴 */}
-            {isHqEngineer && (
+            {(canManageMachines || canEditTemplates) && (
               <>
                 <li className="mt-4 mb-1">
                   <span className="px-3 text-xs font-semibold text-gray-500 uppercase tracking-wider">
@@ -222,7 +239,7 @@ export function Layout({ children }: LayoutProps) {
                           <span>설비 관리</span>
                         </Link>
                       </li>
-                      {isHqEngineerOnly && (
+                      {canEditTemplates && (
                         <li>
                           <Link
                             to="/admin/templates"
@@ -280,6 +297,34 @@ export function Layout({ children }: LayoutProps) {
                           <span>스케줄러 설정</span>
                         </Link>
                       </li>
+                      <li>
+                        <Link
+                          to="/admin/shifts"
+                          onClick={handleNavClick}
+                          className={`flex items-center gap-3 px-3 py-2 rounded-lg transition-colors text-sm max-lg:text-lg max-lg:font-semibold ${
+                            location.pathname === '/admin/shifts'
+                              ? 'bg-blue-600 text-white'
+                              : 'text-gray-400 hover:bg-gray-700 hover:text-gray-200'
+                          }`}
+                        >
+                          <ShiftIcon className="w-4 h-4" />
+                          <span>교대/휴무 설정</span>
+                        </Link>
+                      </li>
+                      <li>
+                        <Link
+                          to="/admin/backup-schedules"
+                          onClick={handleNavClick}
+                          className={`flex items-center gap-3 px-3 py-2 rounded-lg transition-colors text-sm max-lg:text-lg max-lg:font-semibold ${
+                            location.pathname === '/admin/backup-schedules'
+                              ? 'bg-blue-600 text-white'
+                              : 'text-gray-400 hover:bg-gray-700 hover:text-gray-200'
+                          }`}
+                        >
+                          <BackupScheduleIcon className="w-4 h-4" />
+                          <span>자동 백업</span>
+                        </Link>
+                      </li>
                     </ul>
                   )}
                 </li>
@@ -387,6 +432,38 @@ function TransferIcon({ className }: { className?: string }) {
   );
 }
 
+function LibraryIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+    </svg>
+  );
+}
+
+function MeasurementIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+    </svg>
+  );
+}
+
+function ToolChangeIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 4a7 7 0 100 14 7 7 0 000-14zm0 3v4l3 2M20 20l-3.5-3.5" />
+    </svg>
+  );
+}
+
+function SpcIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6h18M3 18h18M3 12h2m4 0h2m4 0h2m4 0h0M4 15l4-6 4 5 4-7 4 4" />
+    </svg>
+  );
+}
+
 function AlarmIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -509,3 +586,19 @@ function SchedulerConfigIcon({ className }: { className?: string }) {
     </svg>
   );
 }
+
+function ShiftIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+    </svg>
+  );
+}
+
+function BackupScheduleIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2 1 3 3 3h10c2 0 3-1 3-3V7M4 7c0-2 1-3 3-3h10c2 0 3 1 3 3M4 7h16M12 11v4l2 2" />
+    </svg>
+  );
+}
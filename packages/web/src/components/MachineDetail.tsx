@@ -3,6 +3,7 @@
 import { useMachineStore, useMachineTelemetry, useMachineAlarms } from '../stores/machineStore';
 import { getRunStateText } from '../lib/machineUtils';
 import { RUN_STATE } from '../lib/constants';
+import { DowntimePanel } from './DowntimePanel';
 
 interface MachineDetailProps {
   machineId: string;
@@ -123,6 +124,11 @@ export function MachineDetail({ machineId }: MachineDetailProps) {
           </Section>
         )}
 
+        {/* Downtime Reasons */}
+        <Section title="비가동 사유">
+          <DowntimePanel machineId={machineId} limit={20} />
+        </Section>
+
         {/* Connection Info */}
         <Section title="연결 정보">
           <div className="text-sm text-gray-500 space-y-1">
@@ -10,6 +10,7 @@ import {
   useControlLock,
 } from '../stores/machineStore';
 import { useAuthStore } from '../stores/authStore';
+import { usePermission } from '../hooks/usePermission';
 import { useTemplateStore, type TopBarInterlockField } from '../stores/templateStore';
 import { machineApi } from '../lib/api';
 
@@ -49,7 +50,7 @@ export function MachineTopBar({ pageTitle, pageId, settingsContent, rightSlot, l
   const telemetry = useMachineTelemetry(selectedMachineId || '');
   const controlLock = useControlLock(selectedMachineId || '');
   const machine = machines.find((m) => m.machineId === selectedMachineId);
-  const canManage = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const canManage = usePermission('control.acquire', selectedMachineId);
 
   // 현재 선택된 장비에 할당된 templateId로 템플릿 조회
   const machineTemplateId = machine?.template?.templateId;
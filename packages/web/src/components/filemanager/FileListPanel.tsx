@@ -1,9 +1,10 @@
 // FileListPanel - 재사용 가능한 파일 목록 패널 (다크 테마)
-// Scheduler 저장소, Transfer 좌/우 패널에서 공용 사용
+// Scheduler 저장소, Transfer 좌/우 패널에서 공용 사용 (저장소 등록 파일은 리비전 / 상태 배지)
 
 import type { ReactNode } from 'react';
 import { useRef } from 'react';
 import type { FileEntry } from '../../stores/fileStore';
+import { ProgramStatusBadge } from './ProgramStatusBadge';
 
 // 파일 행 높이(px)
 const ROW_HEIGHT_PX = 30;
@@ -222,7 +223,8 @@ export function FileListPanel({
                 )}
                 <div className="font-mono text-white truncate flex items-center gap-1.5">
                   <FileIcon />
-                  {file.name}
+                  <span className="truncate">{file.name}</span>
+                  {file.program && <ProgramStatusBadge program={file.program} />}
                 </div>
                 {showComment
                   ? <div className="text-gray-400 text-xs truncate italic">
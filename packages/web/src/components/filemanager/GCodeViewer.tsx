@@ -1,20 +1,36 @@
 // GCodeViewer - G-Code 열람/편집 모달 (구문 강조)
+// 서버 파일(share / repo)은 저장 시 변경 메모와 함께 저장소 리비전 생성, 우측 패널에 리비전 이력
 
 import { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import { useFileStore } from '../../stores/fileStore';
+import { usePermission } from '../../hooks/usePermission';
 import { useAuthStore } from '../../stores/authStore';
+import { DiffHunks } from '../DiffHunks';
+import { ProgramHistoryPanel, ProgramPreview } from './ProgramHistoryPanel';
+import { ProgramStatusBadge } from './ProgramStatusBadge';
+import type { ProgramInfo, ProgramRoot } from '../../lib/api';
 
 export function GCodeViewer() {
   const viewer = useFileStore((s) => s.viewer);
   const closeViewer = useFileStore((s) => s.closeViewer);
   const updateViewerContent = useFileStore((s) => s.updateViewerContent);
   const saveViewerContent = useFileStore((s) => s.saveViewerContent);
-  const user = useAuthStore((s) => s.user);
-  const canEdit = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const setViewerProgram = useFileStore((s) => s.setViewerProgram);
+  const canEdit = usePermission('program.edit', viewer.machineId);
+  const username = useAuthStore((s) => s.user?.username);
 
   const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [preview, setPreview] = useState<ProgramPreview | null>(null);
+  const [saveMessage, setSaveMessage] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // 저장소 대상 파일 (program === undefined: CNC 파일 / 서버 미조회)
+  const tracked = viewer.sourceRoot !== 'CNC_LOCAL' && viewer.program !== undefined;
+  // 다른 사용자가 체크아웃 중이면 편집 불가
+  const lockedByOther = !!viewer.program?.checkedOutBy && viewer.program.checkedOutBy !== username;
+
   // 편집 모드 시 textarea에 포커스
   useEffect(() => {
     if (isEditing && textareaRef.current) {
@@ -22,17 +38,28 @@ export function GCodeViewer() {
     }
   }, [isEditing]);
 
-  // 모달 닫힐 때 편집 모드 해제
+  // 모달 닫힐 때 편집 모드 / 이력 패널 해제
   useEffect(() => {
     if (!viewer.isOpen) {
       setIsEditing(false);
+      setShowHistory(false);
+      setPreview(null);
+      setSaveMessage('');
+      setSaveError(null);
     }
   }, [viewer.isOpen]);
 
-  const handleSave = useCallback(() => {
-    saveViewerContent();
+  const handleSave = useCallback(async () => {
+    const error = await saveViewerContent(saveMessage);
+    setSaveError(error);
+    if (error) return;
+    setSaveMessage('');
     setIsEditing(false);
-  }, [saveViewerContent]);
+  }, [saveViewerContent, saveMessage]);
+
+  const handleProgramChange = useCallback((program: ProgramInfo, content?: string) => {
+    setViewerProgram(program, content);
+  }, [setViewerProgram]);
 
   const handleClose = useCallback(() => {
     if (viewer.dirty) {
@@ -46,7 +73,7 @@ export function GCodeViewer() {
     // Ctrl+S: 저장
     if (e.ctrlKey && e.key === 's') {
       e.preventDefault();
-      if (isEditing && viewer.dirty) handleSave();
+      if (isEditing && viewer.dirty) void handleSave();
     }
     // Escape: 닫기
     if (e.key === 'Escape') {
@@ -64,17 +91,29 @@ export function GCodeViewer() {
       className="fixed inset-0 z-50 flex items-center justify-center bg-black/60"
       onKeyDown={handleKeyDown}
     >
-      <div className="bg-gray-900 rounded-lg shadow-2xl w-[800px] max-w-[90vw] h-[600px] max-h-[85vh] flex flex-col border border-gray-700">
+      <div className={`bg-gray-900 rounded-lg shadow-2xl ${showHistory ? 'w-[1100px]' : 'w-[800px]'} max-w-[90vw] h-[600px] max-h-[85vh] flex flex-col border border-gray-700`}>
         {/* 헤더 */}
         <div className="flex items-center justify-between px-4 py-2.5 border-b border-gray-700">
           <div className="flex items-center gap-3">
             <span className="text-sm font-mono font-bold text-white">{viewer.fileName}</span>
+            {viewer.program && <ProgramStatusBadge program={viewer.program} />}
+            {tracked && !viewer.program && <span className="text-[10px] text-gray-500">저장소 미등록</span>}
             {viewer.dirty && (
               <span className="text-xs text-yellow-400 font-medium">* 수정됨</span>
             )}
           </div>
           <div className="flex items-center gap-2">
-            {!viewer.readOnly && canEdit && !isEditing && (
+            {tracked && (
+              <button
+                onClick={() => { setShowHistory(!showHistory); setPreview(null); }}
+                className={`px-3 py-1 text-xs rounded transition-colors ${
+                  showHistory ? 'bg-gray-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                이력
+              </button>
+            )}
+            {!viewer.readOnly && canEdit && !lockedByOther && !isEditing && (
               <button
                 onClick={() => setIsEditing(true)}
                 className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
@@ -82,9 +121,17 @@ export function GCodeViewer() {
                 편집
               </button>
             )}
+            {isEditing && viewer.dirty && tracked && (
+              <input
+                value={saveMessage}
+                onChange={(e) => setSaveMessage(e.target.value)}
+                placeholder="변경 메모"
+                className="w-48 px-2 py-1 text-xs bg-gray-800 border border-gray-600 rounded text-white"
+              />
+            )}
             {isEditing && viewer.dirty && (
               <button
-                onClick={handleSave}
+                onClick={() => { void handleSave(); }}
                 className="px-3 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
               >
                 저장
@@ -109,9 +156,28 @@ export function GCodeViewer() {
           </div>
         </div>
 
-        {/* 본문 */}
+        {saveError && (
+          <div className="px-4 py-1.5 text-xs text-red-400 bg-red-900/20 border-b border-red-800">{saveError}</div>
+        )}
+
+        {/* 본문 + 이력 패널 */}
+        <div className="flex-1 min-h-0 flex">
         <div className="flex-1 min-h-0 overflow-auto font-mono text-sm">
-          {isEditing ? (
+          {preview ? (
+            <>
+              <div className="sticky top-0 flex items-center justify-between px-3 py-1 bg-blue-900/40 text-xs text-blue-200 font-sans">
+                <span>
+                  {preview.kind === 'revision'
+                    ? `r${preview.revision} 내용 (읽기 전용)`
+                    : `r${preview.from} → r${preview.to} 비교 (+${preview.diff.additions} −${preview.diff.deletions})`}
+                </span>
+                <button onClick={() => setPreview(null)} className="hover:text-white">닫기</button>
+              </div>
+              {preview.kind === 'revision'
+                ? <HighlightedCode lines={preview.content.split('\n')} />
+                : <DiffHunks hunks={preview.diff.hunks} />}
+            </>
+          ) : isEditing ? (
             <div className="flex h-full">
               {/* 줄 번호 (편집 모드) */}
               <EditLineNumbers lineCount={viewer.content.split('\n').length} />
@@ -127,6 +193,21 @@ export function GCodeViewer() {
             <HighlightedCode lines={lines} />
           )}
         </div>
+        {showHistory && tracked && (
+          <ProgramHistoryPanel
+            fileRef={{
+              root: viewer.sourceRoot as ProgramRoot,
+              machineId: viewer.machineId,
+              pathKey: viewer.pathKey,
+              fileName: viewer.fileName,
+            }}
+            program={viewer.program ?? null}
+            dirty={viewer.dirty}
+            onProgramChange={handleProgramChange}
+            onPreview={setPreview}
+          />
+        )}
+        </div>
 
         {/* 하단 상태바 */}
         <div className="flex items-center justify-between px-4 py-1.5 border-t border-gray-700 text-xs text-gray-500">
@@ -134,6 +215,7 @@ export function GCodeViewer() {
           <div className="flex items-center gap-3">
             {isEditing && <span className="text-blue-400">편집 중</span>}
             {viewer.readOnly && <span className="text-yellow-500">읽기 전용</span>}
+            {lockedByOther && <span className="text-yellow-500">{viewer.program?.checkedOutBy}님 체크아웃 중</span>}
             <span>UTF-8</span>
           </div>
         </div>
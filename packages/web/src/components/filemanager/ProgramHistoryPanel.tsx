@@ -0,0 +1,219 @@
+// ProgramHistoryPanel - G-Code 뷰어 우측 저장소 패널
+// - 리비전 이력 (메모 / 작성자 / 승인 · 릴리스 기록), 리비전 보기 / 이전 리비전과 비교 / 되돌리기
+// - 체크아웃 / 체크인, 승인 → 릴리스 / 철회
+// - 미등록 파일은 저장소 등록
+
+import { useState, useEffect, useCallback } from 'react';
+import { programApi } from '../../lib/api';
+import type { ProgramInfo, ProgramLineDiff, ProgramRef, ProgramRevisionInfo } from '../../lib/api';
+import { usePermission } from '../../hooks/usePermission';
+import { useAuthStore } from '../../stores/authStore';
+import { ProgramStatusBadge } from './ProgramStatusBadge';
+
+type ProgramResponse = Awaited<ReturnType<typeof programApi.checkout>>;
+
+export type ProgramPreview =
+  | { kind: 'revision'; revision: number; content: string }
+  | { kind: 'diff'; from: number; to: number; diff: ProgramLineDiff };
+
+interface ProgramHistoryPanelProps {
+  fileRef: ProgramRef;
+  program: ProgramInfo | null;
+  dirty: boolean;
+  onProgramChange: (program: ProgramInfo, content?: string) => void;
+  onPreview: (preview: ProgramPreview | null) => void;
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('ko-KR', { hour12: false, month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+}
+
+export function ProgramHistoryPanel({ fileRef, program, dirty, onProgramChange, onPreview }: ProgramHistoryPanelProps) {
+  const canEdit = usePermission('program.edit', fileRef.machineId);
+  const canApprove = usePermission('program.approve', fileRef.machineId);
+  const username = useAuthStore((s) => s.user?.username);
+
+  const [revisions, setRevisions] = useState<ProgramRevisionInfo[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const programId = program?.id;
+  const headRevision = program?.revision;
+
+  const loadRevisions = useCallback(async () => {
+    if (!programId) return;
+    const res = await programApi.get(programId);
+    if (res.success && res.data) setRevisions(res.data.revisions);
+  }, [programId]);
+
+  // 저장 / 롤백으로 최신 리비전이 바뀌면 이력 다시 로드
+  useEffect(() => {
+    void loadRevisions();
+  }, [loadRevisions, headRevision]);
+
+  // 프로그램 상태를 바꾸는 요청 공통 처리
+  const run = useCallback(async (request: () => Promise<ProgramResponse>, reloadContent = false) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await request();
+      if (!res.success || !res.data) {
+        setError(res.error?.message ?? '요청 실패');
+        return;
+      }
+      let content: string | undefined;
+      if (reloadContent) {
+        const rev = await programApi.getRevision(res.data.id, res.data.revision);
+        if (rev.success && rev.data) content = rev.data.content;
+      }
+      onProgramChange(res.data, content);
+      await loadRevisions();
+    } catch {
+      setError('서버에 연결할 수 없습니다');
+    } finally {
+      setBusy(false);
+    }
+  }, [onProgramChange, loadRevisions]);
+
+  const handleView = useCallback(async (revision: number) => {
+    if (!programId) return;
+    const res = await programApi.getRevision(programId, revision);
+    if (res.success && res.data) onPreview({ kind: 'revision', revision, content: res.data.content });
+    else setError(res.error?.message ?? '리비전을 불러올 수 없습니다');
+  }, [programId, onPreview]);
+
+  const handleCompare = useCallback(async (revision: number) => {
+    if (!programId) return;
+    const res = await programApi.diff(programId, revision - 1, revision);
+    if (res.success && res.data) onPreview({ kind: 'diff', from: revision - 1, to: revision, diff: res.data });
+    else setError(res.error?.message ?? '비교할 수 없습니다');
+  }, [programId, onPreview]);
+
+  const handleRollback = useCallback((revision: number) => {
+    if (!programId) return;
+    if (dirty && !confirm('저장하지 않은 변경사항이 사라집니다. 계속하시겠습니까?')) return;
+    if (!confirm(`r${revision} 내용으로 새 리비전을 만듭니다 (초안 상태). 계속하시겠습니까?`)) return;
+    onPreview(null);
+    void run(() => programApi.rollback(programId, revision), true);
+  }, [programId, dirty, run, onPreview]);
+
+  // 미등록 파일
+  if (!program) {
+    return (
+      <div className="w-72 flex-shrink-0 border-l border-gray-700 p-3 text-xs text-gray-400 space-y-2">
+        <div className="font-semibold text-gray-300">프로그램 저장소</div>
+        <p>저장소에 등록되지 않은 파일입니다. 등록 후 승인 / 릴리스해야 CNC로 전송할 수 있습니다.</p>
+        {canEdit && (
+          <button
+            onClick={() => { void run(() => programApi.track(fileRef)); }}
+            disabled={busy || dirty}
+            title={dirty ? '먼저 저장하세요' : undefined}
+            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            저장소 등록
+          </button>
+        )}
+        {error && <p className="text-red-400">{error}</p>}
+      </div>
+    );
+  }
+
+  const checkedOutByMe = !!program.checkedOutBy && program.checkedOutBy === username;
+
+  return (
+    <div className="w-72 flex-shrink-0 border-l border-gray-700 flex flex-col min-h-0 text-xs">
+      {/* 상태 / 작업 */}
+      <div className="p-3 border-b border-gray-700 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="font-semibold text-gray-300">프로그램 저장소</span>
+          <ProgramStatusBadge program={program} />
+        </div>
+        {program.checkedOutBy && (
+          <div className="text-yellow-400">
+            {checkedOutByMe ? '내가 체크아웃 중' : `${program.checkedOutBy}님이 체크아웃 중`}
+          </div>
+        )}
+        {program.modified && (
+          <div className="text-orange-400">디스크 파일이 최신 리비전과 다릅니다 — 저장하면 새 리비전이 생성됩니다</div>
+        )}
+        <div className="flex flex-wrap gap-1">
+          {canEdit && !program.checkedOutBy && (
+            <ActionButton label="체크아웃" disabled={busy} onClick={() => run(() => programApi.checkout(program.id))} />
+          )}
+          {program.checkedOutBy && (checkedOutByMe || canApprove) && (
+            <ActionButton
+              label={checkedOutByMe ? '체크인' : '잠금 해제'}
+              disabled={busy || (checkedOutByMe && dirty)}
+              title={checkedOutByMe && dirty ? '먼저 저장하세요' : undefined}
+              onClick={() => run(() => programApi.checkin(program.id))}
+            />
+          )}
+          {canApprove && program.status === 'DRAFT' && (
+            <ActionButton label="승인" tone="blue" disabled={busy} onClick={() => run(() => programApi.approve(program.id))} />
+          )}
+          {canApprove && program.status === 'APPROVED' && (
+            <ActionButton label="릴리스" tone="green" disabled={busy} onClick={() => run(() => programApi.release(program.id))} />
+          )}
+          {canApprove && program.status !== 'DRAFT' && (
+            <ActionButton label="철회" disabled={busy} onClick={() => run(() => programApi.reopen(program.id))} />
+          )}
+        </div>
+        {error && <div className="text-red-400">{error}</div>}
+      </div>
+
+      {/* 리비전 이력 */}
+      <div className="flex-1 min-h-0 overflow-y-auto">
+        {revisions.map((r) => (
+          <div key={r.revision} className="px-3 py-2 border-b border-gray-800 space-y-1">
+            <div className="flex items-center justify-between">
+              <span className={`font-mono font-semibold ${r.revision === program.revision ? 'text-white' : 'text-gray-400'}`}>
+                r{r.revision}
+              </span>
+              <span className="text-gray-500">{formatDateTime(r.createdAt)}</span>
+            </div>
+            <div className="text-gray-300 break-words">{r.message || <span className="text-gray-600">(메모 없음)</span>}</div>
+            <div className="text-gray-500">
+              {r.author ?? '-'}
+              {r.approvedBy && <span className="ml-2 text-blue-400">승인 {r.approvedBy}</span>}
+              {r.releasedBy && <span className="ml-2 text-green-400">릴리스 {r.releasedBy}</span>}
+            </div>
+            <div className="flex gap-2">
+              <LinkButton label="보기" onClick={() => { void handleView(r.revision); }} />
+              {r.revision > 1 && <LinkButton label="이전과 비교" onClick={() => { void handleCompare(r.revision); }} />}
+              {canEdit && r.revision !== program.revision && (
+                <LinkButton label="되돌리기" disabled={busy} onClick={() => handleRollback(r.revision)} />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ActionButton({ label, onClick, disabled, title, tone }: {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  title?: string;
+  tone?: 'blue' | 'green';
+}) {
+  const cls = tone === 'blue'
+    ? 'bg-blue-600 hover:bg-blue-700 text-white'
+    : tone === 'green'
+      ? 'bg-green-600 hover:bg-green-700 text-white'
+      : 'bg-gray-700 hover:bg-gray-600 text-gray-200';
+  return (
+    <button onClick={onClick} disabled={disabled} title={title} className={`px-2 py-0.5 rounded disabled:opacity-50 ${cls}`}>
+      {label}
+    </button>
+  );
+}
+
+function LinkButton({ label, onClick, disabled }: { label: string; onClick: () => void; disabled?: boolean }) {
+  return (
+    <button onClick={onClick} disabled={disabled} className="text-blue-400 hover:text-blue-300 disabled:opacity-50">
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,30 @@
+// ProgramStatusBadge - 저장소 리비전 / 상태 표시 (파일 목록 · 뷰어 공용)
+
+import type { ProgramInfo, ProgramStatus } from '../../lib/api';
+
+export const PROGRAM_STATUS_STYLE: Record<ProgramStatus, { label: string; cls: string }> = {
+  DRAFT:    { label: '초안', cls: 'bg-gray-700 text-gray-300' },
+  APPROVED: { label: '승인', cls: 'bg-blue-900/50 text-blue-300' },
+  RELEASED: { label: '릴리스', cls: 'bg-green-900/50 text-green-300' },
+};
+
+export function ProgramStatusBadge({ program }: { program: ProgramInfo }) {
+  const style = PROGRAM_STATUS_STYLE[program.status];
+  const title = [
+    `r${program.revision} ${style.label}`,
+    program.lastMessage && `메모: ${program.lastMessage}`,
+    program.lastAuthor && `작성: ${program.lastAuthor}`,
+    program.checkedOutBy && `체크아웃: ${program.checkedOutBy}`,
+    program.modified && '디스크 파일이 최신 리비전과 다름',
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span className="inline-flex items-center gap-1 flex-shrink-0" title={title}>
+      <span className={`px-1 rounded text-[10px] font-sans ${style.cls}`}>
+        r{program.revision} {style.label}
+      </span>
+      {program.checkedOutBy && <span className="text-[10px] text-yellow-400 font-sans">🔒</span>}
+      {program.modified && <span className="text-[10px] text-orange-400 font-sans">변경됨</span>}
+    </span>
+  );
+}
@@ -1,10 +1,14 @@
 // RepositoryBrowser - 스케줄러 DNC 프로그램 저장소 접이식 패널
+// - 선택 파일 CNC 전송 (읽기 비교 포함, 릴리스된 프로그램만) / CNC 메모리 프로그램과 비교
+// - 더블클릭: 서버 파일 열기 (리비전 이력 / 승인 · 릴리스는 뷰어 이력 패널)
 
 import { useState, useEffect, useCallback } from 'react';
 import { useFileStore, useRepoFiles } from '../../stores/fileStore';
-import { useAuthStore } from '../../stores/authStore';
+import { usePermission } from '../../hooks/usePermission';
 import { FileListPanel } from './FileListPanel';
-import { MOCK_GCODE_CONTENT } from './mockFileData';
+import { VerifyDiffDialog } from './VerifyDiffDialog';
+import { fileApi } from '../../lib/api';
+import type { ProgramVerifyResult } from '../../lib/api';
 import type { FileEntry } from '../../stores/fileStore';
 
 interface RepositoryBrowserProps {
@@ -28,11 +32,15 @@ export function RepositoryBrowser({
   const loadRepoFiles = useFileStore((s) => s.loadRepoFiles);
   const uploadToRepo = useFileStore((s) => s.uploadToRepo);
   const deleteFromRepo = useFileStore((s) => s.deleteFromRepo);
-  const openViewer = useFileStore((s) => s.openViewer);
-  const user = useAuthStore((s) => s.user);
-  const canEdit = (user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER') && !isDncRunning;
+  const openFile = useFileStore((s) => s.openFile);
+  const startTransfer = useFileStore((s) => s.startTransfer);
+  const canEdit = usePermission('program.edit', machineId) && !isDncRunning;
+  const canTransfer = usePermission('transfer.pc_to_cnc', machineId) && !isDncRunning;
 
   const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
+  const [verifying, setVerifying] = useState(false);
+  const [verifyResult, setVerifyResult] = useState<ProgramVerifyResult | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
 
   // 파일 로드
   useEffect(() => {
@@ -61,10 +69,34 @@ export function RepositoryBrowser({
     setSelectedFiles([]);
   }, [machineId, activePath, deleteFromRepo]);
 
-  const handleDoubleClick = useCallback((file: FileEntry) => {
-    const content = MOCK_GCODE_CONTENT[file.name] || '';
-    openViewer(file.name, content, !canEdit, 'SCHEDULER_REPO', machineId);
-  }, [canEdit, openViewer, machineId]);
+  // 선택 파일 CNC 전송 + 읽기 비교 (진행은 전송 큐)
+  const handleTransfer = useCallback(async () => {
+    if (!confirm(`${selectedFiles.length}개 파일을 CNC로 전송하고 읽기 비교하시겠습니까?`)) return;
+    setActionError(await startTransfer('PC_TO_CNC', selectedFiles, machineId, {
+      root: 'SCHEDULER_REPO',
+      pathKey: activePath,
+      verify: true,
+    }));
+  }, [selectedFiles, machineId, activePath, startTransfer]);
+
+  // 선택 파일 1개 ↔ CNC 메모리 프로그램 비교 (전송 없음)
+  const handleVerify = useCallback(async () => {
+    setVerifying(true);
+    setActionError(null);
+    try {
+      const res = await fileApi.verifyProgram(machineId, 'SCHEDULER_REPO', selectedFiles[0], activePath);
+      if (res.success && res.data) setVerifyResult(res.data);
+      else setActionError(res.error?.message ?? '비교 실패');
+    } catch {
+      setActionError('서버에 연결할 수 없습니다');
+    } finally {
+      setVerifying(false);
+    }
+  }, [machineId, selectedFiles, activePath]);
+
+  const handleDoubleClick = useCallback(async (file: FileEntry) => {
+    setActionError(await openFile(file.name, 'SCHEDULER_REPO', !canEdit, machineId, activePath));
+  }, [canEdit, openFile, machineId, activePath]);
 
   const pathTabs: { key: 'path1' | 'path2' | 'path3'; label: string }[] = [
     { key: 'path1', label: 'PATH1' },
@@ -122,7 +154,7 @@ export function RepositoryBrowser({
             files={files}
             isLoading={repoLoading}
             readOnly={!canEdit}
-            selectable={canEdit}
+            selectable={canEdit || canTransfer}
             selectedFiles={selectedFiles}
             onSelectFiles={setSelectedFiles}
             onRefresh={handleRefresh}
@@ -132,8 +164,45 @@ export function RepositoryBrowser({
             lockMessage={isDncRunning ? 'DNC 실행 중 - 저장소 읽기 전용' : undefined}
             className="max-h-[300px]"
           />
+
+          {/* 선택 파일 CNC 작업 */}
+          {selectedFiles.length > 0 && (
+            <div className="flex items-center gap-2">
+              {canTransfer && (
+                <button
+                  onClick={() => { void handleTransfer(); }}
+                  className="px-3 py-1 text-xs font-semibold rounded-sm bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  CNC 전송 (읽기 비교)
+                </button>
+              )}
+              <button
+                onClick={() => { void handleVerify(); }}
+                disabled={selectedFiles.length !== 1 || verifying}
+                title={selectedFiles.length !== 1 ? '파일 1개를 선택하세요' : undefined}
+                className="px-3 py-1 text-xs font-semibold rounded-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                {verifying ? '비교 중...' : 'CNC와 비교'}
+              </button>
+              {actionError && <span className="text-xs text-red-400 truncate">{actionError}</span>}
+            </div>
+          )}
+          {selectedFiles.length === 0 && actionError && (
+            <div className="text-xs text-red-400 truncate">{actionError}</div>
+          )}
         </div>
       )}
+
+      {verifyResult && (
+        <VerifyDiffDialog
+          fileName={verifyResult.fileName}
+          programNo={verifyResult.programNo}
+          checksum={verifyResult.checksum}
+          cncChecksum={verifyResult.cncChecksum}
+          diff={verifyResult.diff}
+          onClose={() => setVerifyResult(null)}
+        />
+      )}
     </div>
   );
 }
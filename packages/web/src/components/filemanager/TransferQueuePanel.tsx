@@ -1,22 +1,29 @@
 // TransferQueuePanel - 하단 전송 큐/이력 표시 (다크 테마)
 // - 고정 높이 영역 (빈 상태에서도 유지)
 // - 작업 시각 + 작업자 메타데이터 표시
-// - 관리자만 이력 삭제 가능
+// - 상태는 서버 TransferJob (대기 → 전송 중 → 응답 → 확인 완료 / 불일치 / 실패), WS 'transfer_job' 갱신
+// - 읽기 비교 불일치 작업은 diff 보기
+// - 실패 / 불일치 작업 재시도 / 관리자만 이력 지우기 (화면에서만)
 
+import { useState } from 'react';
 import { useFileStore } from '../../stores/fileStore';
 import { useAuthStore } from '../../stores/authStore';
 import type { TransferJob } from '../../stores/fileStore';
+import { VerifyDiffDialog } from './VerifyDiffDialog';
 
 // 전송 큐 고정 높이 (px)
 const QUEUE_HEIGHT_PX = 140;
 
-export function TransferQueuePanel() {
-  const transferQueue = useFileStore((s) => s.transferQueue);
+export function TransferQueuePanel({ machineId, canTransfer }: { machineId: string; canTransfer: boolean }) {
+  const allJobs = useFileStore((s) => s.transferQueue);
   const clearCompletedTransfers = useFileStore((s) => s.clearCompletedTransfers);
+  const retryTransfer = useFileStore((s) => s.retryTransfer);
   const user = useAuthStore((s) => s.user);
+  const [diffJob, setDiffJob] = useState<TransferJob | null>(null);
 
+  const transferQueue = allJobs.filter((j) => j.machineId === machineId);
   const isAdmin = user?.role === 'ADMIN';
-  const hasCompleted = transferQueue.some((j) => j.status === 'DONE' || j.status === 'ERROR');
+  const hasCompleted = transferQueue.some((j) => j.status === 'VERIFIED' || j.status === 'MISMATCHED' || j.status === 'FAILED');
 
   return (
     <div className="bg-gray-900 rounded-lg shadow mt-3 flex flex-col flex-shrink-0" style={{ height: QUEUE_HEIGHT_PX }}>
@@ -48,11 +55,27 @@ export function TransferQueuePanel() {
         ) : (
           <div className="space-y-1">
             {transferQueue.map((job) => (
-              <TransferJobRow key={job.id} job={job} />
+              <TransferJobRow
+                key={job.id}
+                job={job}
+                onRetry={canTransfer ? () => { void retryTransfer(job.id); } : undefined}
+                onShowDiff={() => setDiffJob(job)}
+              />
             ))}
           </div>
         )}
       </div>
+
+      {diffJob && (
+        <VerifyDiffDialog
+          fileName={diffJob.fileName}
+          programNo={diffJob.programNo}
+          checksum={diffJob.checksum}
+          cncChecksum={diffJob.cncChecksum}
+          diff={diffJob.verifyDiff}
+          onClose={() => setDiffJob(null)}
+        />
+      )}
     </div>
   );
 }
@@ -65,33 +88,40 @@ function formatTime(iso: string): string {
   return `${h}:${m}:${s}`;
 }
 
-function TransferJobRow({ job }: { job: TransferJob }) {
+function TransferJobRow({ job, onRetry, onShowDiff }: { job: TransferJob; onRetry?: () => void; onShowDiff: () => void }) {
   const dirLabel = job.direction === 'PC_TO_CNC' ? 'PC→CNC' : 'CNC→PC';
   const dirColor = job.direction === 'PC_TO_CNC' ? 'text-blue-400' : 'text-green-400';
 
   const statusStyles: Record<TransferJob['status'], string> = {
-    PENDING: 'text-gray-500',
-    TRANSFERRING: 'text-blue-400',
-    DONE: 'text-green-400',
-    ERROR: 'text-red-400',
+    QUEUED: 'text-gray-500',
+    SENDING: 'text-blue-400',
+    ACKNOWLEDGED: 'text-cyan-400',
+    VERIFIED: 'text-green-400',
+    MISMATCHED: 'text-orange-400',
+    FAILED: 'text-red-400',
   };
 
   const statusLabels: Record<TransferJob['status'], string> = {
-    PENDING: '대기',
-    TRANSFERRING: '전송 중',
-    DONE: '완료',
-    ERROR: '오류',
+    QUEUED: '대기',
+    SENDING: '전송 중',
+    ACKNOWLEDGED: '확인 중',
+    VERIFIED: '완료',
+    MISMATCHED: '불일치',
+    FAILED: '실패',
   };
 
+  // 재시도 대기 중 (이전 시도 오류 보존)
+  const retrying = job.status === 'QUEUED' && job.attempts > 0;
+
   return (
-    <div className="flex items-center gap-2 text-xs h-6">
+    <div className="flex items-center gap-2 text-xs h-6" title={job.errorMessage ?? undefined}>
       {/* 시각 */}
       <span className="text-gray-600 w-14 flex-shrink-0 font-mono">
-        {formatTime(job.startedAt)}
+        {formatTime(job.createdAt)}
       </span>
       {/* 작업자 */}
       <span className="text-gray-500 w-12 flex-shrink-0 truncate">
-        {job.userName}
+        {job.userName ?? '-'}
       </span>
       {/* 방향 */}
       <span className={`w-14 flex-shrink-0 font-medium ${dirColor}`}>
@@ -105,15 +135,39 @@ function TransferJobRow({ job }: { job: TransferJob }) {
       <div className="flex-1 bg-gray-700 rounded-full h-1.5 overflow-hidden">
         <div
           className={`h-full rounded-full transition-all duration-300 ${
-            job.status === 'ERROR' ? 'bg-red-500' :
-            job.status === 'DONE' ? 'bg-green-500' : 'bg-blue-500'
+            job.status === 'FAILED' ? 'bg-red-500' :
+            job.status === 'MISMATCHED' ? 'bg-orange-500' :
+            job.status === 'VERIFIED' ? 'bg-green-500' : 'bg-blue-500'
           }`}
           style={{ width: `${job.progress}%` }}
         />
       </div>
+      {/* 오류 / 재시도 */}
+      {(job.status === 'FAILED' || retrying) && job.errorMessage && (
+        <span className="text-red-400/80 max-w-[200px] truncate flex-shrink">
+          {job.errorMessage}
+        </span>
+      )}
+      {job.status === 'MISMATCHED' && (
+        <button
+          onClick={onShowDiff}
+          className="text-orange-300 hover:text-white border border-orange-700 rounded px-1.5 flex-shrink-0"
+        >
+          차이 보기
+        </button>
+      )}
+      {(job.status === 'FAILED' || job.status === 'MISMATCHED') && onRetry && (
+        <button
+          onClick={onRetry}
+          className="text-gray-400 hover:text-white border border-gray-600 rounded px-1.5 flex-shrink-0"
+        >
+          재시도
+        </button>
+      )}
       {/* 상태 */}
-      <span className={`w-10 text-right flex-shrink-0 ${statusStyles[job.status]}`}>
-        {job.status === 'TRANSFERRING' ? `${job.progress}%` : statusLabels[job.status]}
+      <span className={`w-14 text-right flex-shrink-0 ${statusStyles[job.status]}`}>
+        {job.status === 'VERIFIED' && job.readBack && <span title="CNC 읽기 비교 일치">✓ </span>}
+        {retrying ? `재시도 ${job.attempts}/${job.maxAttempts}` : statusLabels[job.status]}
       </span>
     </div>
   );
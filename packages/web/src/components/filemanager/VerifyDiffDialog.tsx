@@ -0,0 +1,53 @@
+// VerifyDiffDialog - PC 파일 ↔ CNC 읽기 비교 결과 (정규화 본문 줄 diff, − PC / + CNC)
+
+import { DiffHunks } from '../DiffHunks';
+import type { ProgramLineDiff } from '../../lib/api';
+
+interface VerifyDiffDialogProps {
+  fileName: string;
+  programNo: string | null;
+  checksum: string | null;
+  cncChecksum: string | null;
+  diff: ProgramLineDiff | null;
+  onClose: () => void;
+}
+
+export function VerifyDiffDialog({ fileName, programNo, checksum, cncChecksum, diff, onClose }: VerifyDiffDialogProps) {
+  const match = checksum !== null && checksum === cncChecksum;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl w-[720px] max-h-[80vh] flex flex-col border border-gray-600"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-gray-700 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-white">
+              읽기 비교 — <span className="font-mono">{fileName}</span>
+              {programNo && <span className="ml-2 text-sm text-gray-400 font-mono">{programNo}</span>}
+            </h3>
+            <p className={`text-xs mt-1 ${match ? 'text-green-400' : 'text-red-400'}`}>
+              {match
+                ? 'CNC 프로그램이 PC 파일과 일치합니다'
+                : `불일치 (+${diff?.additions ?? 0} −${diff?.deletions ?? 0}줄) — '−' PC 파일, '+' CNC`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+        <div className="px-5 py-2 text-[11px] text-gray-500 font-mono border-b border-gray-700">
+          <div>PC  {checksum?.slice(0, 16) ?? '-'}</div>
+          <div>CNC {cncChecksum?.slice(0, 16) ?? '-'}</div>
+        </div>
+        <div className="flex-1 min-h-0 overflow-y-auto py-2">
+          {diff && diff.hunks.length > 0
+            ? <DiffHunks hunks={diff.hunks} />
+            : <div className="px-5 py-4 text-sm text-gray-500">표시할 차이가 없습니다</div>}
+        </div>
+        <div className="px-5 py-2 text-[11px] text-gray-500 border-t border-gray-700">
+          줄바꿈 / '%' / 주석 / 공백은 비교에서 제외됩니다
+        </div>
+      </div>
+    </div>
+  );
+}
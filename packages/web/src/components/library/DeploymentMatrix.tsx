@@ -0,0 +1,105 @@
+// DeploymentMatrix - 라이브러리 프로그램 × 호환 장비 배포 현황
+// - 셀: 배포 리비전 + 상태 (최신 / 구버전 / 덮어씀 / CNC에 없음 / 수동 복사 / 미배포)
+// - 진행 중 배포 작업은 전송 상태 표시 (WS 'transfer_job')
+// - 오프라인 장비는 배포 기록만으로 판정 (열 머리에 표시)
+
+import type { DeploymentCell, DeploymentMatrix as Matrix, DeploymentState, TransferJobInfo } from '../../lib/api';
+
+export const DEPLOYMENT_STATE_STYLE: Record<DeploymentState, { label: string; cls: string; hint: string }> = {
+  CURRENT:      { label: '최신', cls: 'bg-green-900/50 text-green-300', hint: '최신 릴리스 리비전이 배포되어 있습니다' },
+  STALE:        { label: '구버전', cls: 'bg-orange-900/60 text-orange-300', hint: '이전 리비전이 배포되어 있습니다 — 재배포 필요' },
+  OVERWRITTEN:  { label: '덮어씀', cls: 'bg-red-900/50 text-red-300', hint: '배포 후 같은 O번호가 다른 전송으로 덮어써졌습니다' },
+  MISSING:      { label: 'CNC에 없음', cls: 'bg-red-900/50 text-red-300', hint: '배포 기록은 있으나 CNC 프로그램 목록에 없습니다' },
+  UNMANAGED:    { label: '수동 복사', cls: 'bg-yellow-900/50 text-yellow-300', hint: 'CNC에 같은 O번호가 있으나 라이브러리 배포 기록이 없습니다 (리비전 불명)' },
+  NOT_DEPLOYED: { label: '미배포', cls: 'bg-gray-800 text-gray-500', hint: '배포되지 않았습니다' },
+};
+
+const ACTIVE_JOB_LABEL: Partial<Record<TransferJobInfo['status'], string>> = {
+  QUEUED: '대기',
+  SENDING: '전송 중',
+  ACKNOWLEDGED: '확인 중',
+};
+
+interface DeploymentMatrixProps {
+  matrix: Matrix;
+  activeJobs: TransferJobInfo[];          // 진행 중 LIBRARY 전송 작업
+  onDeploy?: (programId: string, machineId: string) => void;
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('ko-KR', { hour12: false, month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+}
+
+export function DeploymentMatrix({ matrix, activeJobs, onDeploy }: DeploymentMatrixProps) {
+  const cellOf = (programId: string, machineId: string): DeploymentCell | undefined =>
+    matrix.cells.find((c) => c.programId === programId && c.machineId === machineId);
+
+  if (matrix.programs.length === 0) {
+    return <div className="p-6 text-center text-sm text-gray-500">라이브러리 프로그램이 없습니다</div>;
+  }
+  if (matrix.machines.length === 0) {
+    return <div className="p-6 text-center text-sm text-gray-500">호환 장비가 지정된 프로그램이 없습니다</div>;
+  }
+
+  return (
+    <div className="overflow-auto">
+      <table className="text-xs border-collapse">
+        <thead>
+          <tr className="text-gray-400">
+            <th className="sticky left-0 bg-gray-900 px-3 py-2 text-left font-medium border-b border-gray-700">프로그램</th>
+            {matrix.machines.map((m) => (
+              <th key={m.machineId} className="px-3 py-2 text-left font-medium border-b border-gray-700 whitespace-nowrap" title={m.error ?? m.templateId}>
+                <div className="text-gray-200">{m.machineId}</div>
+                <div className="text-gray-500 font-normal">{m.name}</div>
+                {!m.online && <div className="text-red-400 font-normal">CNC 조회 실패</div>}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.programs.map((p) => (
+            <tr key={p.id} className="border-b border-gray-800">
+              <td className="sticky left-0 bg-gray-900 px-3 py-2 whitespace-nowrap">
+                <div className="text-gray-200 font-mono">{p.fileName}</div>
+                <div className="text-gray-500">
+                  {p.productCode} · {p.programNo ?? '-'} · 기준 {p.releasedRevision !== null ? `r${p.releasedRevision}` : '릴리스 없음'}
+                </div>
+              </td>
+              {matrix.machines.map((m) => {
+                const cell = cellOf(p.id, m.machineId);
+                if (!cell) return <td key={m.machineId} className="px-3 py-2 text-gray-700">—</td>;
+                const job = activeJobs.find((j) =>
+                  j.machineId === m.machineId && j.fileName === p.fileName && j.pathKey === p.productCode);
+                const style = DEPLOYMENT_STATE_STYLE[cell.state];
+                const title = [
+                  style.hint,
+                  cell.deployedAt && `배포: ${formatDateTime(cell.deployedAt)}${cell.deployedBy ? ` (${cell.deployedBy})` : ''}`,
+                  cell.onCnc === null && 'CNC 목록 조회 실패 — 배포 기록 기준',
+                ].filter(Boolean).join('\n');
+                return (
+                  <td key={m.machineId} className="px-3 py-2 whitespace-nowrap" title={title}>
+                    <div className="flex items-center gap-1">
+                      <span className={`px-1.5 py-0.5 rounded ${style.cls}`}>{style.label}</span>
+                      {cell.deployedRevision !== null && <span className="font-mono text-gray-400">r{cell.deployedRevision}</span>}
+                      {cell.onCnc === null && <span className="text-gray-600">?</span>}
+                    </div>
+                    {job ? (
+                      <div className="mt-1 text-blue-400">{ACTIVE_JOB_LABEL[job.status]}…</div>
+                    ) : onDeploy && cell.state !== 'CURRENT' && (
+                      <button
+                        onClick={() => onDeploy(p.id, m.machineId)}
+                        className="mt-1 text-blue-400 hover:text-blue-300"
+                      >
+                        배포
+                      </button>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+// ControlChart - SPC 관리도 (SVG)
+// - 중심선(CL) · 관리 한계(UCL / LCL) · 1σ / 2σ 영역(음영)
+// - 타점 (시간순, Western Electric 규칙 위반 빨강) + 하단 범위 관리도 (MR / R)
+
+import type { SpcChartData, SpcControlLimits } from '../../lib/api';
+
+interface ControlChartProps {
+  data: SpcChartData;
+  height?: number;
+}
+
+const WIDTH = 600;
+const PAD_X = 52;
+const PAD_Y = 12;
+
+interface SeriesPoint {
+  key: string;
+  value: number;
+  violated: boolean;
+  title: string;
+}
+
+function Series({ points, limits, height, zones, label }: {
+  points: SeriesPoint[];
+  limits: SpcControlLimits | null;
+  height: number;
+  zones: boolean;
+  label: string;
+}) {
+  const values = points.map((p) => p.value);
+  const bounds = limits ? [limits.ucl, limits.lcl] : [];
+  const rawMin = Math.min(...values, ...bounds);
+  const rawMax = Math.max(...values, ...bounds);
+  const margin = (rawMax - rawMin) * 0.1 || 0.001;
+  const min = rawMin - margin;
+  const max = rawMax + margin;
+
+  const x = (i: number) => PAD_X + (points.length === 1 ? 0.5 : i / (points.length - 1)) * (WIDTH - PAD_X * 2);
+  const y = (v: number) => PAD_Y + (1 - (v - min) / (max - min)) * (height - PAD_Y * 2);
+  const sigma = limits ? (limits.ucl - limits.center) / 3 : 0;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto">
+      {limits && zones && sigma > 0 && (
+        <>
+          <rect x={PAD_X} y={y(limits.center + 2 * sigma)} width={WIDTH - PAD_X * 2} height={y(limits.center - 2 * sigma) - y(limits.center + 2 * sigma)} fill="rgb(234 179 8 / 0.06)" />
+          <rect x={PAD_X} y={y(limits.center + sigma)} width={WIDTH - PAD_X * 2} height={y(limits.center - sigma) - y(limits.center + sigma)} fill="rgb(34 197 94 / 0.08)" />
+        </>
+      )}
+      {limits && (
+        <>
+          <line x1={PAD_X} x2={WIDTH - PAD_X} y1={y(limits.ucl)} y2={y(limits.ucl)} stroke="rgb(239 68 68 / 0.7)" strokeWidth={1} strokeDasharray="6 3" />
+          <line x1={PAD_X} x2={WIDTH - PAD_X} y1={y(limits.lcl)} y2={y(limits.lcl)} stroke="rgb(239 68 68 / 0.7)" strokeWidth={1} strokeDasharray="6 3" />
+          <line x1={PAD_X} x2={WIDTH - PAD_X} y1={y(limits.center)} y2={y(limits.center)} stroke="rgb(156 163 175)" strokeWidth={1} />
+          <text x={PAD_X - 4} y={y(limits.ucl) + 3} textAnchor="end" className="fill-red-400" fontSize={9}>{limits.ucl.toFixed(4)}</text>
+          <text x={PAD_X - 4} y={y(limits.center) + 3} textAnchor="end" className="fill-gray-400" fontSize={9}>{limits.center.toFixed(4)}</text>
+          <text x={PAD_X - 4} y={y(limits.lcl) + 3} textAnchor="end" className="fill-red-400" fontSize={9}>{limits.lcl.toFixed(4)}</text>
+          <text x={WIDTH - PAD_X + 4} y={y(limits.ucl) + 3} className="fill-gray-500" fontSize={9}>UCL</text>
+          <text x={WIDTH - PAD_X + 4} y={y(limits.center) + 3} className="fill-gray-500" fontSize={9}>{label}</text>
+          <text x={WIDTH - PAD_X + 4} y={y(limits.lcl) + 3} className="fill-gray-500" fontSize={9}>LCL</text>
+        </>
+      )}
+
+      <polyline
+        points={points.map((p, i) => `${x(i)},${y(p.value)}`).join(' ')}
+        fill="none"
+        stroke="rgb(34 211 238)"
+        strokeWidth={1.5}
+      />
+      {points.map((p, i) => (
+        <circle key={p.key} cx={x(i)} cy={y(p.value)} r={p.violated ? 3.5 : 2.5} fill={p.violated ? 'rgb(239 68 68)' : 'rgb(34 211 238)'}>
+          <title>{p.title}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+export function ControlChart({ data, height = 200 }: ControlChartProps) {
+  if (data.points.length === 0) {
+    return <div className="p-6 text-center text-xs text-gray-500">관리도를 그릴 측정 기록이 없습니다</div>;
+  }
+
+  const time = (iso: string) => new Date(iso).toLocaleString('ko-KR', { hour12: false });
+  const main: SeriesPoint[] = data.points.map((p) => ({
+    key: p.measurementId,
+    value: p.value,
+    violated: p.rules.length > 0,
+    title: `${time(p.measuredAt)}  ${p.value.toFixed(4)}${p.rules.length > 0 ? `  규칙 ${p.rules.join(', ')} 위반` : ''}`,
+  }));
+  const ranges: SeriesPoint[] = data.points
+    .filter((p) => p.range !== null)
+    .map((p) => ({
+      key: `r-${p.measurementId}`,
+      value: p.range!,
+      violated: !!data.rangeLimits && (p.range! > data.rangeLimits.ucl || p.range! < data.rangeLimits.lcl),
+      title: `${time(p.measuredAt)}  ${data.chart === 'XBAR' ? 'R' : 'MR'} ${p.range!.toFixed(4)}`,
+    }));
+
+  return (
+    <div className="space-y-2">
+      <Series points={main} limits={data.limits} height={height} zones label={data.chart === 'XBAR' ? 'X̄' : 'X'} />
+      {ranges.length > 0 && (
+        <Series points={ranges} limits={data.rangeLimits} height={Math.round(height * 0.5)} zones={false} label={data.chart === 'XBAR' ? 'R̄' : 'MR̄'} />
+      )}
+    </div>
+  );
+}
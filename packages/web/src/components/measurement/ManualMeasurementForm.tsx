@@ -0,0 +1,111 @@
+// ManualMeasurementForm - POP 수기 측정 입력 (SPC)
+// 측정 항목 선택 + 측정값 (+ 제품 코드 / 시료 ID) → MANUAL 측정으로 기록
+// 제품 코드 미입력 시 서버가 진행 중 작업지시 → 측정 항목 기본 제품 코드 순으로 채움
+
+import { useState, useEffect, type FormEvent } from 'react';
+import { measurementApi, type MeasurementFeatureInfo } from '../../lib/api';
+import { usePermission } from '../../hooks/usePermission';
+
+const inputCls = 'px-2 py-1.5 text-sm bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded';
+
+export function ManualMeasurementForm({ machineId }: { machineId: string }) {
+  const canWrite = usePermission('measurement.write', machineId);
+  const [features, setFeatures] = useState<MeasurementFeatureInfo[]>([]);
+  const [featureName, setFeatureName] = useState('');
+  const [value, setValue] = useState('');
+  const [productCode, setProductCode] = useState('');
+  const [sampleId, setSampleId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    setFeatures([]);
+    setFeatureName('');
+    setMessage(null);
+    measurementApi.features(machineId).then((res) => {
+      const active = res.success && res.data ? res.data.filter((f) => f.isActive) : [];
+      setFeatures(active);
+      if (active.length > 0) setFeatureName(active[0].name);
+    });
+  }, [machineId]);
+
+  const feature = features.find((f) => f.name === featureName);
+  const numeric = parseFloat(value);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!feature || !Number.isFinite(numeric)) return;
+    setSaving(true);
+    const res = await measurementApi.manual(machineId, {
+      feature: feature.name,
+      value: numeric,
+      productCode: productCode.trim() || undefined,
+      sampleId: sampleId.trim() || undefined,
+    });
+    setSaving(false);
+    if (res.success) {
+      const dev = numeric - feature.nominal;
+      setMessage({ ok: true, text: `${feature.name} ${numeric.toFixed(4)} 기록 (편차 ${dev >= 0 ? '+' : ''}${dev.toFixed(4)})` });
+      setValue('');
+      setSampleId('');
+    } else {
+      setMessage({ ok: false, text: res.error?.message ?? '측정값 기록 실패' });
+    }
+  };
+
+  if (!canWrite) {
+    return <div className="text-center text-gray-500 py-6 text-sm">측정 입력 권한이 없습니다</div>;
+  }
+  if (features.length === 0) {
+    return <div className="text-center text-gray-500 py-6 text-sm">등록된 측정 항목이 없습니다</div>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="space-y-1">
+          <span className="text-xs text-gray-500">측정 항목</span>
+          <select value={featureName} onChange={(e) => setFeatureName(e.target.value)} className={`${inputCls} w-full`}>
+            {features.map((f) => <option key={f.id} value={f.name}>{f.name}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-gray-500">
+            측정값{feature && ` (${(feature.nominal + feature.lowerTol).toFixed(3)} ~ ${(feature.nominal + feature.upperTol).toFixed(3)})`}
+          </span>
+          <input
+            type="number"
+            step="any"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className={`${inputCls} w-full font-mono`}
+            autoFocus
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-gray-500">제품 코드 (선택)</span>
+          <input
+            value={productCode}
+            onChange={(e) => setProductCode(e.target.value)}
+            placeholder={feature?.productCode ?? '작업지시 기준'}
+            className={`${inputCls} w-full font-mono`}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-gray-500">시료 ID (선택)</span>
+          <input value={sampleId} onChange={(e) => setSampleId(e.target.value)} className={`${inputCls} w-full font-mono`} />
+        </label>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <span className={`text-xs truncate ${message?.ok ? 'text-green-500' : 'text-red-400'}`}>{message?.text}</span>
+        <button
+          type="submit"
+          disabled={saving || !feature || !Number.isFinite(numeric)}
+          className="px-4 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded shrink-0"
+        >
+          {saving ? '기록 중...' : '기록'}
+        </button>
+      </div>
+    </form>
+  );
+}
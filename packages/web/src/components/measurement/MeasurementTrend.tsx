@@ -0,0 +1,61 @@
+// MeasurementTrend - 측정 항목 추세 (SVG)
+// - 공차 범위(음영) · 기준치(점선) · 측정값(시간순 선 + 점, 공차 밖 빨강)
+// - 보정 적용 지점은 세로 표시선
+
+import type { MeasurementFeatureInfo, MeasurementInfo } from '../../lib/api';
+
+interface MeasurementTrendProps {
+  feature: MeasurementFeatureInfo;
+  measurements: MeasurementInfo[];   // 최신순 (API 순서 그대로)
+  height?: number;
+}
+
+const WIDTH = 600;
+const PAD_X = 48;
+const PAD_Y = 12;
+
+export function MeasurementTrend({ feature, measurements, height = 160 }: MeasurementTrendProps) {
+  const points = [...measurements].reverse();
+  if (points.length === 0) {
+    return <div className="p-6 text-center text-xs text-gray-500">측정 기록이 없습니다</div>;
+  }
+
+  const lower = feature.nominal + feature.lowerTol;
+  const upper = feature.nominal + feature.upperTol;
+  const values = points.map((p) => p.value);
+  const margin = (upper - lower) * 0.25 || 0.001;
+  const min = Math.min(lower, ...values) - margin;
+  const max = Math.max(upper, ...values) + margin;
+
+  const x = (i: number) => PAD_X + (points.length === 1 ? 0.5 : i / (points.length - 1)) * (WIDTH - PAD_X * 2);
+  const y = (v: number) => PAD_Y + (1 - (v - min) / (max - min)) * (height - PAD_Y * 2);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto">
+      <rect x={PAD_X} y={y(upper)} width={WIDTH - PAD_X * 2} height={y(lower) - y(upper)} fill="rgb(34 197 94 / 0.08)" />
+      <line x1={PAD_X} x2={WIDTH - PAD_X} y1={y(upper)} y2={y(upper)} stroke="rgb(239 68 68 / 0.6)" strokeWidth={1} />
+      <line x1={PAD_X} x2={WIDTH - PAD_X} y1={y(lower)} y2={y(lower)} stroke="rgb(239 68 68 / 0.6)" strokeWidth={1} />
+      <line x1={PAD_X} x2={WIDTH - PAD_X} y1={y(feature.nominal)} y2={y(feature.nominal)} stroke="rgb(156 163 175)" strokeWidth={1} strokeDasharray="4 4" />
+
+      <text x={PAD_X - 4} y={y(upper) + 3} textAnchor="end" className="fill-gray-500" fontSize={9}>{upper.toFixed(3)}</text>
+      <text x={PAD_X - 4} y={y(feature.nominal) + 3} textAnchor="end" className="fill-gray-400" fontSize={9}>{feature.nominal.toFixed(3)}</text>
+      <text x={PAD_X - 4} y={y(lower) + 3} textAnchor="end" className="fill-gray-500" fontSize={9}>{lower.toFixed(3)}</text>
+
+      {points.map((p, i) => p.correctionStatus === 'APPLIED' && (
+        <line key={`c-${p.id}`} x1={x(i)} x2={x(i)} y1={PAD_Y} y2={height - PAD_Y} stroke="rgb(59 130 246 / 0.5)" strokeWidth={1} />
+      ))}
+
+      <polyline
+        points={points.map((p, i) => `${x(i)},${y(p.value)}`).join(' ')}
+        fill="none"
+        stroke="rgb(34 211 238)"
+        strokeWidth={1.5}
+      />
+      {points.map((p, i) => (
+        <circle key={p.id} cx={x(i)} cy={y(p.value)} r={2.5} fill={p.inTolerance ? 'rgb(34 211 238)' : 'rgb(239 68 68)'}>
+          <title>{`${new Date(p.measuredAt).toLocaleString('ko-KR', { hour12: false })}  ${p.value.toFixed(4)} (${p.deviation >= 0 ? '+' : ''}${p.deviation.toFixed(4)})`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useControlLock } from '../../stores/machineStore';
-import { useAuthStore } from '../../stores/authStore';
+import { usePermission } from '../../hooks/usePermission';
 import { useSelectedTemplate, type CounterField } from '../../stores/templateStore';
 import { ncDataApi } from '../../lib/api';
 
@@ -13,9 +13,8 @@ interface CountViewProps {
 export function CountView({ machineId }: CountViewProps) {
   const template = useSelectedTemplate();
   const controlLock = useControlLock(machineId || '');
-  const user = useAuthStore((s) => s.user);
 
-  const canEdit = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const canEdit = usePermission('count.write', machineId);
   const hasControl = !!controlLock?.isOwner;
   const canWrite = canEdit && hasControl;
 
@@ -0,0 +1,34 @@
+// OffsetApprovalFields - 안전 한계 초과 오프셋 변경의 승인 입력 (offsets.approve_limit 권한이 있는 요청자 외 계정)
+
+import type { OffsetApproval } from '../../lib/api';
+
+interface OffsetApprovalFieldsProps {
+  reason: string;                 // 한계 초과 사유
+  value: OffsetApproval;
+  onChange: (value: OffsetApproval) => void;
+}
+
+export function OffsetApprovalFields({ reason, value, onChange }: OffsetApprovalFieldsProps) {
+  return (
+    <div className="p-2 bg-red-900/30 border border-red-700 rounded space-y-1.5 font-sans">
+      <div className="text-[11px] text-red-300">⚠ 안전 한계 초과 — {reason}</div>
+      <div className="text-[10px] text-gray-400">한계 초과 승인 권한이 있는 다른 계정의 승인이 필요합니다</div>
+      <input
+        type="text"
+        value={value.username}
+        onChange={(e) => onChange({ ...value, username: e.target.value })}
+        placeholder="승인자 아이디"
+        autoComplete="off"
+        className="w-full bg-gray-700 border border-gray-600 focus:border-blue-500 text-white text-[11px] px-2 py-1 rounded outline-none"
+      />
+      <input
+        type="password"
+        value={value.password}
+        onChange={(e) => onChange({ ...value, password: e.target.value })}
+        placeholder="승인자 비밀번호"
+        autoComplete="new-password"
+        className="w-full bg-gray-700 border border-gray-600 focus:border-blue-500 text-white text-[11px] px-2 py-1 rounded outline-none"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+// OffsetHistoryDrawer - 마모 오프셋 변경 이력 (OffsetView 우측 서랍)
+// - 현재 PATH 의 변경 목록 (이전 값 → 변경값, 증감, 작업자, 시각), 포커스 공구만 보기
+// - 단건 되돌리기: 변경 전 값 다시 쓰기 (제어권 필요) — 이후 다른 변경이 있으면 재확인 후 강제
+//   되돌리는 값이 안전 한계를 넘으면 해당 행에서 승인자 입력 후 재요청
+
+import { useState, useEffect, useCallback } from 'react';
+import { ncDataApi } from '../../lib/api';
+import type { OffsetApproval, OffsetChangeInfo } from '../../lib/api';
+import { OffsetApprovalFields } from './OffsetApprovalFields';
+
+interface OffsetHistoryDrawerProps {
+  machineId: string;
+  path: number;
+  focusToolNo: number | null;
+  canWrite: boolean;
+  refreshKey: number;             // 오프셋 쓰기 후 증가 → 이력 다시 로드
+  onReverted: () => void;
+  onClose: () => void;
+}
+
+// 안전 한계 초과로 승인 대기 중인 되돌리기
+interface PendingApproval {
+  changeId: string;
+  reason: string;
+  force: boolean;
+  approval: OffsetApproval;
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('ko-KR', { hour12: false, month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+function formatDelta(delta: number): string {
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(4)}`;
+}
+
+export function OffsetHistoryDrawer({ machineId, path, focusToolNo, canWrite, refreshKey, onReverted, onClose }: OffsetHistoryDrawerProps) {
+  const [changes, setChanges] = useState<OffsetChangeInfo[]>([]);
+  const [focusOnly, setFocusOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingApproval | null>(null);
+
+  const toolNo = focusOnly && focusToolNo ? focusToolNo : undefined;
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await ncDataApi.offsetHistory(machineId, path, toolNo);
+      if (res.success && res.data) setChanges(res.data);
+      else setError(res.error?.message ?? '이력을 불러올 수 없습니다');
+    } catch {
+      setError('서버에 연결할 수 없습니다');
+    } finally {
+      setLoading(false);
+    }
+  }, [machineId, path, toolNo]);
+
+  useEffect(() => {
+    void loadHistory();
+  }, [loadHistory, refreshKey]);
+
+  // 되돌리기 요청 — 이후 변경 있음(409 OFFSET_CHANGED_SINCE)은 재확인 후 force, 한계 초과는 승인 입력으로 전환
+  const requestRevert = async (change: OffsetChangeInfo, force: boolean, approval?: OffsetApproval) => {
+    setRevertingId(change.id);
+    setError(null);
+    try {
+      let res = await ncDataApi.revertOffset(machineId, change.id, force, approval);
+      if (!res.success && res.error?.code === 'OFFSET_CHANGED_SINCE') {
+        if (!confirm(`${res.error.message}\n\n그래도 ${change.oldValue.toFixed(4)} 로 되돌리시겠습니까?`)) return;
+        force = true;
+        res = await ncDataApi.revertOffset(machineId, change.id, true, approval);
+      }
+      if (!res.success && res.error?.code === 'OFFSET_LIMIT_EXCEEDED') {
+        setPending({ changeId: change.id, reason: res.error.message, force, approval: { username: '', password: '' } });
+        return;
+      }
+      if (!res.success) {
+        setError(res.error?.message ?? '되돌리기 실패');
+        return;
+      }
+      setPending(null);
+      onReverted();
+      await loadHistory();
+    } catch {
+      setError('서버에 연결할 수 없습니다');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  const handleRevert = (change: OffsetChangeInfo) => {
+    const label = `T${String(change.toolNo).padStart(2, '0')} ${change.axis}`;
+    if (!confirm(`${label} 오프셋을 ${change.newValue.toFixed(4)} → ${change.oldValue.toFixed(4)} 로 되돌립니다. 계속하시겠습니까?`)) return;
+    setPending(null);
+    void requestRevert(change, false);
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 w-80 max-w-full bg-gray-900 border-l border-gray-600 shadow-xl z-20 flex flex-col font-sans">
+      <div className="flex items-center justify-between px-3 py-2 bg-gray-800 border-b border-gray-700 flex-shrink-0">
+        <span className="text-cyan-300 text-xs font-semibold">오프셋 변경 이력 · PATH{path}</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-xs">✕</button>
+      </div>
+
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-800 text-[11px] flex-shrink-0">
+        <label className={`flex items-center gap-1.5 ${focusToolNo ? 'text-gray-300' : 'text-gray-600'}`}>
+          <input
+            type="checkbox"
+            checked={focusOnly && !!focusToolNo}
+            disabled={!focusToolNo}
+            onChange={(e) => setFocusOnly(e.target.checked)}
+          />
+          {focusToolNo ? `T${String(focusToolNo).padStart(2, '0')} 만 보기` : '공구를 선택하면 필터'}
+        </label>
+        <button onClick={() => { void loadHistory(); }} disabled={loading} className="text-blue-400 hover:text-blue-300 disabled:opacity-50">
+          {loading ? '로딩...' : '새로고침'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-3 py-1.5 bg-red-900/60 border-b border-red-700 text-[11px] text-red-300 flex-shrink-0">⚠ {error}</div>
+      )}
+
+      <div className="flex-1 min-h-0 overflow-y-auto">
+        {changes.length === 0 && !loading && (
+          <div className="p-4 text-center text-[11px] text-gray-500">변경 이력이 없습니다</div>
+        )}
+        {changes.map((c) => (
+          <div key={c.id} className="px-3 py-2 border-b border-gray-800 text-[11px] space-y-0.5">
+            <div className="flex items-center justify-between">
+              <span className="font-mono text-cyan-400 font-semibold">
+                T{String(c.toolNo).padStart(2, '0')} {c.axis}
+                {c.revertOfId && <span className="ml-1.5 px-1 rounded bg-gray-700 text-gray-300 font-sans font-normal">되돌림</span>}
+              </span>
+              <span className="text-gray-500">{formatDateTime(c.createdAt)}</span>
+            </div>
+            <div className="font-mono">
+              <span className="text-gray-400">{c.oldValue.toFixed(4)}</span>
+              <span className="text-gray-600"> → </span>
+              <span className="text-white">{c.newValue.toFixed(4)}</span>
+              <span className={`ml-2 ${c.delta >= 0 ? 'text-green-400' : 'text-orange-400'}`}>({formatDelta(c.delta)})</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-gray-500">
+                {c.userName ?? '-'}
+                {c.approvedBy && <span className="ml-2 text-red-300">한계 초과 승인 {c.approvedBy}</span>}
+              </span>
+              {c.revertedById ? (
+                <span className="text-gray-600">되돌려짐</span>
+              ) : canWrite && (
+                <button
+                  onClick={() => handleRevert(c)}
+                  disabled={revertingId !== null}
+                  className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                >
+                  {revertingId === c.id ? '되돌리는 중...' : '되돌리기'}
+                </button>
+              )}
+            </div>
+            {pending?.changeId === c.id && (
+              <div className="pt-1 space-y-1.5">
+                <OffsetApprovalFields
+                  reason={pending.reason}
+                  value={pending.approval}
+                  onChange={(approval) => setPending({ ...pending, approval })}
+                />
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setPending(null)} className="text-gray-400 hover:text-gray-200">취소</button>
+                  <button
+                    onClick={() => { void requestRevert(c, pending.force, pending.approval); }}
+                    disabled={revertingId !== null || !pending.approval.username || !pending.approval.password}
+                    className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                  >
+                    승인 후 되돌리기
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {!canWrite && (
+        <div className="px-3 py-1.5 border-t border-gray-700 text-[10px] text-yellow-500 flex-shrink-0">되돌리려면 제어권이 필요합니다</div>
+      )}
+    </div>
+  );
+}
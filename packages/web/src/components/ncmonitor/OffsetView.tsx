@@ -1,15 +1,20 @@
-// OffsetView - Wear Offset 표시 및 편집 (Path1/Path2, 페이지네이션, 포커스 셀, 입력 바)
+// OffsetView - Wear Offset 표시 및 편집 (Path1/Path2, 페이지네이션, 포커스 셀, 입력 바, 변경 이력)
+// 템플릿 안전 한계(offsetConfig.limits / toolLimits) 초과 변경은 확인 다이얼로그에서 승인자 입력
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useControlLock } from '../../stores/machineStore';
-import { useAuthStore } from '../../stores/authStore';
+import { usePermission } from '../../hooks/usePermission';
 import { useSelectedTemplate } from '../../stores/templateStore';
 import { ncDataApi } from '../../lib/api';
+import type { OffsetApproval } from '../../lib/api';
+import { resolveOffsetLimit, checkOffsetLimit } from '../../lib/offsetLimits';
+import { OffsetHistoryDrawer } from './OffsetHistoryDrawer';
+import { OffsetApprovalFields } from './OffsetApprovalFields';
 
 // FANUC 표준 마모 오프셋 매크로 변수 범위
 // X: #2001~#2064, Y: #2401~#2464, Z: #2101~#2164, R: #2201~#2264
 type AxisKey = 'x' | 'y' | 'z' | 'r';
-const AXES: { key: AxisKey; label: string; apiAxis: string }[] = [
+const AXES: { key: AxisKey; label: string; apiAxis: 'X' | 'Y' | 'Z' | 'R' }[] = [
   { key: 'x', label: 'X', apiAxis: 'X' },
   { key: 'y', label: 'Y', apiAxis: 'Y' },
   { key: 'z', label: 'Z', apiAxis: 'Z' },
@@ -35,8 +40,11 @@ interface ConfirmState {
   oldValue: number;
   newValue: number;
   isAdditive: boolean;
+  limitReason: string | null;   // 안전 한계 초과 사유 (승인 필요)
 }
 
+const EMPTY_APPROVAL: OffsetApproval = { username: '', password: '' };
+
 interface OffsetViewProps {
   machineId?: string;
 }
@@ -44,13 +52,12 @@ interface OffsetViewProps {
 export function OffsetView({ machineId }: OffsetViewProps) {
   const template = useSelectedTemplate();
   const controlLock = useControlLock(machineId || '');
-  const user = useAuthStore((s) => s.user);
 
   const toolCount = template?.offsetConfig?.toolCount ?? 64;
   const pageSize = template?.offsetConfig?.pageSize ?? 16;
   const totalPages = Math.ceil(toolCount / pageSize);
 
-  const canEdit = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const canEdit = usePermission('offsets.write', machineId);
   const hasControl = !!controlLock?.isOwner;
   const canWrite = canEdit && hasControl;
 
@@ -63,6 +70,9 @@ export function OffsetView({ machineId }: OffsetViewProps) {
   const [confirm, setConfirm] = useState<ConfirmState | null>(null);
   const [saving, setSaving] = useState(false);
   const [writeError, setWriteError] = useState<string | null>(null);
+  const [approval, setApproval] = useState<OffsetApproval>(EMPTY_APPROVAL);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
 
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -149,21 +159,36 @@ export function OffsetView({ machineId }: OffsetViewProps) {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [focusCell, moveFocus, pageSize]);
 
+  // 확인 다이얼로그 열기 (안전 한계 사전 검사)
+  const openConfirm = useCallback((newValue: number, isAdditive: boolean) => {
+    if (!focusCell || focusValue === null) return;
+    const limit = resolveOffsetLimit(template?.offsetConfig, focusCell.toolIdx + 1, AXES[focusCell.axisIdx].apiAxis);
+    setApproval(EMPTY_APPROVAL);
+    setConfirm({
+      toolIdx: focusCell.toolIdx,
+      axisIdx: focusCell.axisIdx,
+      oldValue: focusValue,
+      newValue,
+      isAdditive,
+      limitReason: checkOffsetLimit(limit, focusValue, newValue),
+    });
+  }, [focusCell, focusValue, template]);
+
   // INPUT 처리 (절댓값)
   const handleInput = useCallback(() => {
     if (!focusCell || !canWrite || focusValue === null) return;
     const parsed = parseFloat(inputValue);
     if (isNaN(parsed)) return;
-    setConfirm({ toolIdx: focusCell.toolIdx, axisIdx: focusCell.axisIdx, oldValue: focusValue, newValue: parsed, isAdditive: false });
-  }, [focusCell, canWrite, focusValue, inputValue]);
+    openConfirm(parsed, false);
+  }, [focusCell, canWrite, focusValue, inputValue, openConfirm]);
 
   // +INPUT 처리 (가산)
   const handleAddInput = useCallback(() => {
     if (!focusCell || !canWrite || focusValue === null) return;
     const parsed = parseFloat(inputValue);
     if (isNaN(parsed)) return;
-    setConfirm({ toolIdx: focusCell.toolIdx, axisIdx: focusCell.axisIdx, oldValue: focusValue, newValue: focusValue + parsed, isAdditive: true });
-  }, [focusCell, canWrite, focusValue, inputValue]);
+    openConfirm(focusValue + parsed, true);
+  }, [focusCell, canWrite, focusValue, inputValue, openConfirm]);
 
   // 확인 후 저장
   const handleConfirm = async () => {
@@ -173,8 +198,17 @@ export function OffsetView({ machineId }: OffsetViewProps) {
     const { toolIdx, axisIdx, newValue } = confirm;
     const entry = entries[toolIdx];
     const axis = AXES[axisIdx];
+    let keepOpen = false;
     try {
-      const res = await ncDataApi.writeOffset(machineId, activePath, entry.no, axis.apiAxis, newValue) as any;
+      const res = await ncDataApi.writeOffset(
+        machineId, activePath, entry.no, axis.apiAxis, newValue, confirm.limitReason ? approval : undefined,
+      ) as any;
+      // 서버 기준 한계 초과 (템플릿 변경 등) → 다이얼로그에서 승인 입력
+      if (res?.error?.code === 'OFFSET_LIMIT_EXCEEDED' && !confirm.limitReason) {
+        keepOpen = true;
+        setConfirm({ ...confirm, limitReason: res.error.message });
+        return;
+      }
       if (res?.success === false) {
         setWriteError(res?.error?.message ?? '오프셋 쓰기 실패');
         return;
@@ -183,13 +217,14 @@ export function OffsetView({ machineId }: OffsetViewProps) {
         prev.map((e, i) => (i === toolIdx ? { ...e, [axis.key]: newValue } : e)),
       );
       setInputValue('');
+      setHistoryKey((k) => k + 1);
     } catch (err: any) {
       const msg = err?.message ?? '네트워크 오류';
       setWriteError(msg);
       console.error('writeOffset failed:', err);
     } finally {
       setSaving(false);
-      setConfirm(null);
+      if (!keepOpen) setConfirm(null);
     }
   };
 
@@ -217,6 +252,14 @@ export function OffsetView({ machineId }: OffsetViewProps) {
           {loading && <span className="text-gray-500 text-[10px] animate-pulse">로딩...</span>}
         </div>
         <div className="flex items-center gap-1">
+          <button
+            onClick={() => setHistoryOpen((o) => !o)}
+            className={`px-2 py-0.5 mr-1 text-[10px] rounded ${
+              historyOpen ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            이력
+          </button>
           <button
             onClick={() => setCurrentPage((p) => Math.max(0, p - 1))}
             disabled={currentPage === 0}
@@ -344,10 +387,23 @@ export function OffsetView({ machineId }: OffsetViewProps) {
         </div>
       </div>
 
+      {/* 변경 이력 서랍 */}
+      {historyOpen && (
+        <OffsetHistoryDrawer
+          machineId={machineId}
+          path={activePath}
+          focusToolNo={focusEntry?.no ?? null}
+          canWrite={canWrite}
+          refreshKey={historyKey}
+          onReverted={() => loadOffsets(false)}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
+
       {/* 확인 다이얼로그 */}
       {confirm && (
         <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-10">
-          <div className="bg-gray-800 border border-gray-600 rounded-lg p-4 min-w-[240px] shadow-xl">
+          <div className="bg-gray-800 border border-gray-600 rounded-lg p-4 min-w-[240px] max-w-[320px] shadow-xl">
             <div className="text-cyan-300 text-xs font-semibold mb-3">오프셋 변경 확인</div>
             <div className="space-y-1.5 mb-4 text-[11px]">
               <div className="flex justify-between gap-4">
@@ -374,6 +430,11 @@ export function OffsetView({ machineId }: OffsetViewProps) {
                 <span className="text-green-400 font-mono font-semibold">{confirm.newValue.toFixed(4)}</span>
               </div>
             </div>
+            {confirm.limitReason && (
+              <div className="mb-4">
+                <OffsetApprovalFields reason={confirm.limitReason} value={approval} onChange={setApproval} />
+              </div>
+            )}
             <div className="flex gap-2 justify-end">
               <button
                 onClick={() => setConfirm(null)}
@@ -384,10 +445,10 @@ export function OffsetView({ machineId }: OffsetViewProps) {
               </button>
               <button
                 onClick={handleConfirm}
-                disabled={saving}
+                disabled={saving || (!!confirm.limitReason && (!approval.username || !approval.password))}
                 className="px-3 py-1 text-[11px] bg-blue-700 text-white rounded hover:bg-blue-600 disabled:opacity-40"
               >
-                {saving ? '저장 중...' : '확인'}
+                {saving ? '저장 중...' : confirm.limitReason ? '승인 후 저장' : '확인'}
               </button>
             </div>
           </div>
@@ -1,10 +1,12 @@
 // ToolLifeView - 공구 수명 관리 (템플릿 기반 ToolLifeConfig, Path1/Path2)
+// DUE 컬럼: 서버 수명 예측 (M20 생산 기준 소모율 → 교체까지 남은 시간)
 
 import { useState, useEffect, useCallback } from 'react';
 import { useControlLock } from '../../stores/machineStore';
-import { useAuthStore } from '../../stores/authStore';
+import { usePermission } from '../../hooks/usePermission';
 import { useSelectedTemplate, type ToolLifeColumn, type ToolLifeEntry } from '../../stores/templateStore';
-import { ncDataApi } from '../../lib/api';
+import { ncDataApi, toolLifeApi, type ToolForecast } from '../../lib/api';
+import { formatDuration } from '../../lib/machineUtils';
 
 interface ToolDataEntry {
   entry: ToolLifeEntry;
@@ -20,9 +22,8 @@ interface ToolLifeViewProps {
 export function ToolLifeView({ machineId }: ToolLifeViewProps) {
   const template = useSelectedTemplate();
   const controlLock = useControlLock(machineId || '');
-  const user = useAuthStore((s) => s.user);
 
-  const canEdit = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const canEdit = usePermission('tool-life.write', machineId);
   const hasControl = !!controlLock?.isOwner;
   const canWrite = canEdit && hasControl;
 
@@ -30,6 +31,7 @@ export function ToolLifeView({ machineId }: ToolLifeViewProps) {
   const [toolData, setToolData] = useState<ToolDataEntry[]>([]);
   const [loading, setLoading] = useState(false);
   const [savingCell, setSavingCell] = useState<string | null>(null); // "entryId:colKey"
+  const [forecasts, setForecasts] = useState<{ machineId: string; byTool: Record<string, ToolForecast> } | null>(null); // "path:toolNo"
 
   const pathConfig = template?.toolLifeConfig?.paths?.find((p) => p.pathNo === activePath);
   const columns = pathConfig?.columns ?? [];
@@ -70,6 +72,17 @@ export function ToolLifeView({ machineId }: ToolLifeViewProps) {
     return () => { cancelled = true; };
   }, [machineId, activePath]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // 수명 예측 (샘플 주기 5분 — 경로 전환 / 로드 시 갱신)
+  useEffect(() => {
+    if (!machineId) return;
+    let cancelled = false;
+    toolLifeApi.machine(machineId).then((res) => {
+      if (cancelled || !res.success || !res.data) return;
+      setForecasts({ machineId, byTool: Object.fromEntries(res.data.map((f) => [`${f.path}:${f.toolNo}`, f])) });
+    });
+    return () => { cancelled = true; };
+  }, [machineId, activePath]);
+
   const handleCommit = useCallback(
     async (entryId: string, col: ToolLifeColumn, entry: ToolLifeEntry, newValue: number) => {
       if (!machineId || col.readonly || !canWrite) return;
@@ -124,7 +137,8 @@ export function ToolLifeView({ machineId }: ToolLifeViewProps) {
   const countKey  = columns.find((c) => c.key.toLowerCase().includes('count'))?.key;
   const showUsage = !!presetKey && !!countKey;
 
-  const gridTemplate = `56px ${columns.map(() => '1fr').join(' ')}${showUsage ? ' 80px' : ''}`;
+  const forecastByTool = forecasts?.machineId === machineId ? forecasts.byTool : {};
+  const gridTemplate = `56px ${columns.map(() => '1fr').join(' ')}${showUsage ? ' 80px 64px' : ''}`;
 
   return (
     <div className="flex flex-col h-full text-green-400 font-mono text-xs">
@@ -156,6 +170,7 @@ export function ToolLifeView({ machineId }: ToolLifeViewProps) {
           </div>
         ))}
         {showUsage && <div className="text-center">USAGE</div>}
+        {showUsage && <div className="text-right">DUE</div>}
       </div>
 
       {/* 본문 */}
@@ -220,6 +235,7 @@ export function ToolLifeView({ machineId }: ToolLifeViewProps) {
                   </span>
                 </div>
               )}
+              {showUsage && <DueCell forecast={forecastByTool[`${activePath}:${td.entry.toolNo}`]} />}
             </div>
           );
         })}
@@ -231,6 +247,27 @@ export function ToolLifeView({ machineId }: ToolLifeViewProps) {
   );
 }
 
+// ── 교체 예상 (남은 시간, 툴팁: 예상 시각 / 잔여 수량 / 소모율) ──
+function DueCell({ forecast }: { forecast?: ToolForecast }) {
+  if (!forecast || forecast.status === 'NO_DATA') return <div className="text-right text-gray-600">-</div>;
+  if (forecast.status === 'EXPIRED') return <div className="text-right text-red-400 font-semibold">교체</div>;
+  if (forecast.status === 'IDLE') return <div className="text-right text-gray-500" title="현재 소모 없음">정지</div>;
+
+  const hours = forecast.hoursRemaining ?? 0;
+  const color = hours < 1 ? 'text-red-400' : hours < 8 ? 'text-yellow-400' : 'text-gray-300';
+  const title = [
+    `예상 ${new Date(forecast.dueAt!).toLocaleString('ko-KR', { hour12: false })}`,
+    forecast.partsRemaining !== null ? `잔여 ${forecast.partsRemaining}개` : null,
+    forecast.basis === 'M20' ? `부품당 ${forecast.usagePerPart!.toFixed(2)} · ${forecast.partsPerHour!.toFixed(1)}개/시간` : '시간 기준',
+    forecast.stale ? '최근 샘플 없음' : null,
+  ].filter(Boolean).join('\n');
+  return (
+    <div className={`text-right text-[10px] ${color} ${forecast.stale ? 'opacity-50' : ''}`} title={title}>
+      {formatDuration(hours * 3600).replace(/ \d+초$/, '')}
+    </div>
+  );
+}
+
 // ── 셀 값 편집 (onBlur commit) ──
 function CellValue({ value, editable, onCommit }: {
   value: number;
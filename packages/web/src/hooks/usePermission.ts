@@ -0,0 +1,14 @@
+// usePermission - 현재 사용자의 명명된 권한 보유 여부
+// machineId 를 넘기면 장비 / 라인(location) 범위 부여까지 평가
+
+import { useAuthStore } from '../stores/authStore';
+import { useMachineStore } from '../stores/machineStore';
+import { hasPermission, Permission } from '../lib/permissions';
+
+export function usePermission(permission: Permission, machineId?: string | null): boolean {
+  const permissions = useAuthStore((s) => s.permissions);
+  const location = useMachineStore((s) =>
+    machineId ? s.machines.find((m) => m.machineId === machineId)?.location : undefined
+  );
+  return hasPermission(permissions, permission, machineId ? { machineId, location } : null);
+}
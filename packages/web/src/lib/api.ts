@@ -1,6 +1,9 @@
 // API Client
 
 import { useAuthStore } from '../stores/authStore';
+import type { SchedulerRow } from '../stores/machineStore';
+import type { OffsetAxisKey } from '../stores/templateStore';
+import type { Permission, PermissionGrants } from './permissions';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || '';
 
@@ -154,9 +157,113 @@ export const authApi = {
       email: string;
       role: 'USER' | 'ADMIN' | 'HQ_ENGINEER';
     }>('/api/auth/me'),
+
+  permissions: () =>
+    api.get<PermissionGrants>('/api/auth/permissions'),
+};
+
+// User Management API
+export type ManagedUserRole = 'USER' | 'ADMIN' | 'HQ_ENGINEER';
+
+export interface ManagedUser {
+  id: string;
+  username: string;
+  email: string;
+  role: ManagedUserRole;
+  isActive: boolean;
+  isApproved: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt: string | null;
+}
+
+export const userApi = {
+  getAll: (status?: 'pending' | 'active' | 'inactive', search?: string) => {
+    const params = new URLSearchParams();
+    if (status) params.append('status', status);
+    if (search) params.append('search', search);
+    return api.get<{ items: ManagedUser[]; pendingCount: number }>(`/api/users?${params.toString()}`);
+  },
+
+  create: (data: { username: string; email: string; password: string; role: ManagedUserRole }) =>
+    api.post<ManagedUser>('/api/users', data),
+
+  approve: (id: string, role?: ManagedUserRole) =>
+    api.post<ManagedUser>(`/api/users/${id}/approve`, role ? { role } : {}),
+
+  update: (id: string, data: Partial<{ email: string; role: ManagedUserRole; isActive: boolean }>) =>
+    api.put<ManagedUser>(`/api/users/${id}`, data),
+
+  resetPassword: (id: string, password?: string) =>
+    api.post<{ id: string; temporaryPassword?: string }>(`/api/users/${id}/reset-password`, password ? { password } : {}),
+
+  reject: (id: string) =>
+    api.delete<{ id: string }>(`/api/users/${id}`),
+
+  getRoles: (id: string) =>
+    api.get<RoleAssignment[]>(`/api/users/${id}/roles`),
+
+  setRoles: (id: string, assignments: { roleId: string; machineId?: string | null; location?: string | null }[]) =>
+    api.put<RoleAssignment[]>(`/api/users/${id}/roles`, { assignments }),
+};
+
+// Role / Permission API
+export interface PermissionInfo {
+  key: Permission;
+  label: string;
+  scopable: boolean;   // 장비 / 라인 한정 부여 가능
+}
+
+export interface RoleInfo {
+  id: string | null;   // 기본 역할 미편집 시 null
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  baseRole: ManagedUserRole | null;
+  editable: boolean;
+  assignmentCount: number;
+}
+
+export interface RoleAssignment {
+  id: string;
+  userId: string;
+  roleId: string;
+  machineId: string | null;   // Machine.id
+  location: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  role: { id: string; name: string; permissions: Permission[] };
+  machine: { machineId: string; name: string } | null;
+}
+
+export const roleApi = {
+  getAll: () =>
+    api.get<{ permissions: PermissionInfo[]; roles: RoleInfo[] }>('/api/roles'),
+
+  updateBase: (baseRole: ManagedUserRole, permissions: Permission[]) =>
+    api.put<RoleInfo>(`/api/roles/base/${baseRole}`, { permissions }),
+
+  create: (data: { name: string; description?: string; permissions: Permission[] }) =>
+    api.post<RoleInfo>('/api/roles', data),
+
+  update: (id: string, data: Partial<{ name: string; description: string | null; permissions: Permission[] }>) =>
+    api.put<RoleInfo>(`/api/roles/${id}`, data),
+
+  delete: (id: string) =>
+    api.delete<{ id: string }>(`/api/roles/${id}`),
 };
 
 // Machine API
+export interface TelemetryHistoryBucket {
+  bucket: string;
+  samples: number;
+  runState:     { min: number; max: number };
+  feedrate:     { min: number; avg: number; max: number };
+  spindleSpeed: { min: number; avg: number; max: number };
+  spindleLoad:  { min: number | null; avg: number | null; max: number | null };
+  partsCount:   { min: number; max: number };
+}
+
 export const machineApi = {
   getAll: (page = 1, limit = 20) =>
     api.get<{
@@ -171,6 +278,20 @@ export const machineApi = {
 
   getTelemetry: (id: string) => api.get(`/api/machines/${id}/telemetry`),
 
+  getTelemetryHistory: (id: string, params: { from?: string; to?: string; bucket?: string } = {}) => {
+    const qs = new URLSearchParams();
+    if (params.from)   qs.set('from', params.from);
+    if (params.to)     qs.set('to', params.to);
+    if (params.bucket) qs.set('bucket', params.bucket);
+    return api.get<{
+      machineId: string;
+      from: string;
+      to: string;
+      bucket: string;
+      buckets: TelemetryHistoryBucket[];
+    }>(`/api/machines/${id}/telemetry/history?${qs}`);
+  },
+
   getAlarms: (id: string, page = 1, limit = 50, activeOnly = false) =>
     api.get(`/api/machines/${id}/alarms?page=${page}&limit=${limit}&active=${activeOnly}`),
 
@@ -252,8 +373,8 @@ export const schedulerApi = {
     api.post('/api/scheduler/rows/reorder', { machineId, orderedIds }),
 
   // ── 실행 제어 ─────────────────────────────────────────────────
-  start: (machineId: string) =>
-    api.post(`/api/scheduler/start?machineId=${machineId}`),
+  start: (machineId: string, verify = false) =>
+    api.post(`/api/scheduler/start?machineId=${machineId}`, { verify }),
 
   resume: (machineId: string) =>
     api.post(`/api/scheduler/resume?machineId=${machineId}`),
@@ -271,6 +392,17 @@ export const schedulerApi = {
     api.delete(`/api/scheduler/rows?machineId=${machineId}`),
 };
 
+// Alarm Clip Types
+export interface AlarmClipInfo {
+  id: string;
+  cameraId: string;
+  cameraName: string;
+  status: 'RECORDING' | 'READY' | 'FAILED' | 'EXPIRED';
+  startedAt?: string;
+  endedAt?: string;
+  errorMessage?: string;
+}
+
 // Alarm API
 export const alarmApi = {
   getAlarms: (options?: {
@@ -319,9 +451,153 @@ export const transferApi = {
 };
 
 // Backup API
+export type BackupType = 'SRAM' | 'PARAMETER' | 'PROGRAM' | 'FULL';
+
+export interface BackupRecord {
+  id: string;
+  machineId: string;
+  type: BackupType;
+  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
+  fileName: string;
+  fileSize: number;
+  checksum: string | null;       // SHA-256
+  programCount: number | null;
+  editMode: boolean | null;      // false = 프로그램 목록만 백업됨
+  errorMessage: string | null;
+  createdBy: string | null;      // null = 시스템(스케줄)
+  createdAt: string;
+  completedAt: string | null;
+  prunedAt: string | null;       // 보존 정책으로 파일 삭제됨
+}
+
+export interface BackupHistoryPage {
+  items: BackupRecord[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface BackupComplianceItem {
+  machineId: string;
+  name: string;
+  location: string | null;
+  lastParameterBackupAt: string | null;
+  compliant: boolean;
+}
+
+export interface BackupCompliance {
+  days: number;
+  since: string;
+  generatedAt: string;
+  total: number;
+  compliantCount: number;
+  items: BackupComplianceItem[];
+}
+
+export interface BackupRetentionPolicy {
+  keepPerType: number;
+  monthlySnapshots: number;
+}
+
+export interface BackupParameterChange {
+  key: string;               // "1020" | "1020.A1" | "1020/Q2.A1"
+  number: number;
+  path: number | null;
+  axis: number | null;
+  kind: 'changed' | 'added' | 'removed';
+  old: string | null;
+  new: string | null;
+}
+
+export interface BackupDiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: { op: ' ' | '+' | '-'; text: string }[];
+}
+
+export interface BackupProgramModification {
+  programNo: string;
+  additions: number;
+  deletions: number;
+  hunks: BackupDiffHunk[];
+}
+
+export interface BackupDiff {
+  machine: { machineId: string; name: string };
+  from: BackupRecord;
+  to: BackupRecord;
+  parameters: {
+    available: boolean;
+    fromCount: number;
+    toCount: number;
+    changes: BackupParameterChange[];
+  };
+  programs: {
+    contentCompared: boolean;
+    added: { programNo: string; lineCount?: number }[];
+    removed: { programNo: string; lineCount?: number }[];
+    modified: BackupProgramModification[];
+    unchanged: number;
+  };
+}
+
+export type BackupRestoreScope = 'programs' | 'parameters' | 'all';
+
+export interface BackupRestoreRequest {
+  scope: BackupRestoreScope;
+  programNos?: string[];
+  dryRun?: boolean;
+  sessionId?: string;
+}
+
+export interface RestoreInterlockCheck {
+  id: string;
+  label: string;
+  ok: boolean;
+  detail?: string;
+}
+
+export interface BackupRestorePreview {
+  dryRun: true;
+  backup: BackupRecord;
+  scope: BackupRestoreScope;
+  programs: { programNo: string; action: 'overwrite' | 'create' | 'unknown'; lineCount: number }[];
+  cncListAvailable: boolean;
+  parameters: {
+    count: number;
+    baseline: BackupRecord | null;     // 변경 비교 기준 (최근 파라미터 백업)
+    changes: BackupParameterChange[];
+  } | null;
+  interlock: { ok: boolean; checks: RestoreInterlockCheck[] };
+  lock: { ownerUsername: string; heldByOther: boolean } | null;
+  canRestore: boolean;
+}
+
+export interface BackupRestoreResult {
+  dryRun: false;
+  backup: BackupRecord;
+  scope: BackupRestoreScope;
+  completed: boolean;
+  abortReason: string | null;
+  restored: number;
+  total: number;
+  atRisk: string[];       // 원본이 삭제된 채 남았을 수 있는 O번호 (CNC 확인 필요)
+  steps: {
+    kind: 'program' | 'parameters';
+    target: string;
+    correlationId: string;
+    status: 'success' | 'failure' | 'skipped';
+    errorCode?: string;
+    errorMessage?: string;
+  }[];
+}
+
 export const backupApi = {
   getHistory: (machineId: string, page = 1, limit = 20) =>
-    api.get(`/api/backup/${machineId}?page=${page}&limit=${limit}`),
+    api.get<BackupHistoryPage>(`/api/backup/${machineId}?page=${page}&limit=${limit}`),
 
   create: (machineId: string, type: 'SRAM' | 'PARAMETER' | 'PROGRAM' | 'FULL') =>
     api.post(`/api/backup/${machineId}`, { type }),
@@ -337,11 +613,122 @@ export const backupApi = {
     }
     return { success: false, error: { code: 'DOWNLOAD_FAILED', message: '다운로드 실패' } };
   },
+
+  previewRestore: (backupId: string, req: Omit<BackupRestoreRequest, 'dryRun'>) =>
+    api.post<BackupRestorePreview>(`/api/backup/${backupId}/restore`, { ...req, dryRun: true }),
+
+  restore: (backupId: string, req: Omit<BackupRestoreRequest, 'dryRun'>) =>
+    api.post<BackupRestoreResult>(`/api/backup/${backupId}/restore`, { ...req, dryRun: false }),
+
+  getDiff: (fromId: string, toId: string) =>
+    api.get<BackupDiff>(`/api/backup/diff?from=${encodeURIComponent(fromId)}&to=${encodeURIComponent(toId)}`),
+
+  getCompliance: (days = 30) =>
+    api.get<BackupCompliance>(`/api/backup/compliance?days=${days}`),
+
+  downloadComplianceCsv: async (days = 30) => {
+    const token = useAuthStore.getState().accessToken;
+    const response = await fetch(`${API_BASE_URL}/api/backup/compliance?days=${days}&format=csv`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      credentials: 'include',
+    });
+    if (response.ok) {
+      return { success: true, data: await response.blob() };
+    }
+    return { success: false, error: { code: 'DOWNLOAD_FAILED', message: '다운로드 실패' } };
+  },
+
+  getRetention: () =>
+    api.get<BackupRetentionPolicy>('/api/backup/retention'),
+
+  updateRetention: (policy: BackupRetentionPolicy) =>
+    api.put<BackupRetentionPolicy & { pruned: number }>('/api/backup/retention', policy),
+};
+
+// Backup Schedule API
+export interface BackupSchedule {
+  id: string;
+  name: string;
+  type: BackupType;
+  cron: string;                  // 5필드 cron (서버 로컬 시간)
+  machineId: string | null;      // 단일 장비 대상
+  machineName: string | null;
+  location: string | null;       // 위치 그룹 대상 (둘 다 null = 전체 장비)
+  isEnabled: boolean;
+  retryIntervalMin: number;
+  maxRetries: number;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  createdBy: string;
+  createdAt: string;
+  pending: { machineId: string; attempts: number; nextAttemptAt: string; lastReason: string | null }[];
+}
+
+export interface BackupScheduleInput {
+  name?: string;
+  type?: BackupType;
+  cron?: string;
+  machineId?: string | null;
+  location?: string | null;
+  isEnabled?: boolean;
+  retryIntervalMin?: number;
+  maxRetries?: number;
+}
+
+export interface BackupFailedPayload {
+  machineId: string;
+  backupId: string | null;
+  type: BackupType;
+  scheduleId: string;
+  scheduleName: string;
+  reason: string;
+}
+
+export const backupScheduleApi = {
+  getAll: () =>
+    api.get<BackupSchedule[]>('/api/backup-schedules'),
+
+  create: (data: BackupScheduleInput) =>
+    api.post<BackupSchedule>('/api/backup-schedules', data),
+
+  update: (id: string, data: BackupScheduleInput) =>
+    api.put<BackupSchedule>(`/api/backup-schedules/${id}`, data),
+
+  delete: (id: string) =>
+    api.delete(`/api/backup-schedules/${id}`),
+
+  runNow: (id: string) =>
+    api.post<{ queued: number }>(`/api/backup-schedules/${id}/run`),
 };
 
 // Production API
+export type OeeGroupBy = 'shift' | 'day' | 'week';
+
+export interface OeeFigures {
+  plannedTime: number;   // minutes
+  runTime: number;       // minutes
+  totalParts: number;
+  goodParts: number;
+  scrapParts: number;
+  availability: number;  // %
+  performance: number;   // %
+  quality: number;       // %
+  oee: number;           // %
+}
+
+export interface OeeReport {
+  from: string;
+  to: string;
+  groupBy: OeeGroupBy;
+  summary: OeeFigures;
+  periods: (OeeFigures & { start: string; end: string; label: string })[];
+  machines: (Partial<OeeFigures> & { machineId: string; machineName: string })[];
+}
+
+export type ProductionTimeRange = 'shift' | 'today' | 'week' | 'month';
+
 export const productionApi = {
-  getStats: (timeRange: 'today' | 'week' | 'month', machineId?: string) => {
+  getStats: (timeRange: ProductionTimeRange, machineId?: string) => {
     const params = new URLSearchParams({ timeRange });
     if (machineId) params.append('machineId', machineId);
     return api.get(`/api/production/stats?${params.toString()}`);
@@ -349,8 +736,211 @@ export const productionApi = {
 
   getLogs: (machineId: string, page = 1, limit = 50) =>
     api.get(`/api/production/${machineId}/logs?page=${page}&limit=${limit}`),
+
+  getOee: (params: { machineId?: string; from?: string; to?: string; timeRange?: ProductionTimeRange; groupBy?: OeeGroupBy }) => {
+    const qs = new URLSearchParams();
+    if (params.machineId) qs.set('machineId', params.machineId);
+    if (params.from)      qs.set('from', params.from);
+    if (params.to)        qs.set('to', params.to);
+    if (params.timeRange) qs.set('timeRange', params.timeRange);
+    if (params.groupBy)   qs.set('groupBy', params.groupBy);
+    return api.get<OeeReport>(`/api/production/oee?${qs}`);
+  },
+
+  getIdealCycleTimes: () =>
+    api.get<Record<string, number>>('/api/production/ideal-cycle-times'),
+
+  saveIdealCycleTimes: (values: Record<string, number>) =>
+    api.put<Record<string, number>>('/api/production/ideal-cycle-times', values),
+
+  setScrapCount: (logId: string, scrapCount: number) =>
+    api.put(`/api/production/logs/${logId}/scrap`, { scrapCount }),
+};
+
+// Shift Calendar API (교대 / 계획 정지)
+export type PlannedDowntimeType = 'BREAK' | 'MAINTENANCE' | 'HOLIDAY' | 'OTHER';
+
+export interface Shift {
+  id: string;
+  patternId: string;
+  name: string;
+  startTime: string;     // HH:mm
+  endTime: string;       // HH:mm (시작 이하이면 익일 종료)
+  daysOfWeek: number[];  // 0=일 ~ 6=토
+  sortOrder: number;
+}
+
+export interface ShiftPattern {
+  id: string;
+  name: string;
+  description: string | null;
+  isDefault: boolean;
+  shifts: Shift[];
+  machines?: { id: string; machineId: string; name: string }[];
+}
+
+export interface PlannedDowntime {
+  id: string;
+  patternId: string | null;
+  machineDbId: string | null;
+  machine?: { machineId: string; name: string } | null;
+  name: string;
+  type: PlannedDowntimeType;
+  startTime: string | null;
+  endTime: string | null;
+  daysOfWeek: number[];
+  startAt: string | null;
+  endAt: string | null;
+}
+
+export interface PlannedDowntimeInput {
+  name: string;
+  type?: PlannedDowntimeType;
+  patternId?: string | null;
+  machineId?: string | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  daysOfWeek?: number[];
+  startAt?: string | null;
+  endAt?: string | null;
+}
+
+export interface CurrentShiftInfo {
+  pattern: { id: string; name: string } | null;
+  shift: { id: string; name: string; start: string; end: string } | null;
+  productionDayStart: string;
+}
+
+type ShiftInput = Pick<Shift, 'name' | 'startTime' | 'endTime'> & { daysOfWeek?: number[] };
+
+export const shiftApi = {
+  getPatterns: () => api.get<ShiftPattern[]>('/api/shifts/patterns'),
+
+  createPattern: (data: { name: string; description?: string; isDefault?: boolean; shifts?: ShiftInput[] }) =>
+    api.post<ShiftPattern>('/api/shifts/patterns', data),
+
+  updatePattern: (id: string, data: { name?: string; description?: string; isDefault?: boolean }) =>
+    api.put<ShiftPattern>(`/api/shifts/patterns/${id}`, data),
+
+  deletePattern: (id: string) => api.delete(`/api/shifts/patterns/${id}`),
+
+  assignMachines: (id: string, machineIds: string[]) =>
+    api.put(`/api/shifts/patterns/${id}/machines`, { machineIds }),
+
+  addShift: (patternId: string, data: ShiftInput) =>
+    api.post<Shift>(`/api/shifts/patterns/${patternId}/shifts`, data),
+
+  updateShift: (shiftId: string, data: Partial<ShiftInput>) =>
+    api.put<Shift>(`/api/shifts/${shiftId}`, data),
+
+  deleteShift: (shiftId: string) => api.delete(`/api/shifts/${shiftId}`),
+
+  getDowntimes: (patternId?: string) =>
+    api.get<PlannedDowntime[]>(`/api/shifts/downtimes${patternId ? `?patternId=${patternId}` : ''}`),
+
+  createDowntime: (data: PlannedDowntimeInput) =>
+    api.post<PlannedDowntime>('/api/shifts/downtimes', data),
+
+  updateDowntime: (id: string, data: Partial<PlannedDowntimeInput>) =>
+    api.put<PlannedDowntime>(`/api/shifts/downtimes/${id}`, data),
+
+  deleteDowntime: (id: string) => api.delete(`/api/shifts/downtimes/${id}`),
+
+  getCurrent: (machineId?: string) =>
+    api.get<CurrentShiftInfo>(`/api/shifts/current${machineId ? `?machineId=${machineId}` : ''}`),
+};
+
+// Downtime API (비가동 사유 / Pareto)
+export interface DowntimeReason {
+  id: string;
+  parentId: string | null;
+  code: string;
+  name: string;
+  color: string | null;
+  sortOrder: number;
+  isActive: boolean;
+  children: DowntimeReason[];
+}
+
+export interface DowntimeEvent {
+  id: string;
+  trigger: 'IDLE' | 'ALARM';
+  startedAt: string;
+  endedAt: string | null;
+  duration: number | null;   // seconds
+  runState: number;
+  programNo: string | null;
+  alarmNo: number | null;
+  reasonId: string | null;
+  note: string | null;
+  taggedAt: string | null;
+  machine: { machineId: string; name: string };
+  reason: { id: string; code: string; name: string; color: string | null; parentId: string | null } | null;
+  taggedBy: { username: string } | null;
+}
+
+export interface DowntimeParetoRow {
+  key: string;
+  label: string;
+  color: string | null;
+  count: number;
+  durationSec: number;
+  percent: number;
+  cumulativePercent: number;
+}
+
+export interface DowntimePareto {
+  from: string;
+  to: string;
+  totalSec: number;
+  eventCount: number;
+  byReason: DowntimeParetoRow[];
+  byMachine: DowntimeParetoRow[];
+}
+
+type DowntimeQuery = { machineId?: string; timeRange?: ProductionTimeRange; from?: string; to?: string };
+
+function downtimeQuery(params: DowntimeQuery & Record<string, string | undefined>): string {
+  const qs = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) qs.set(key, value);
+  }
+  return qs.toString();
+}
+
+export const downtimeApi = {
+  getReasons: (all = false) =>
+    api.get<DowntimeReason[]>(`/api/downtime/reasons${all ? '?all=1' : ''}`),
+
+  createReason: (data: { code: string; name: string; parentId?: string | null; color?: string | null; sortOrder?: number }) =>
+    api.post<DowntimeReason>('/api/downtime/reasons', data),
+
+  updateReason: (id: string, data: { name?: string; color?: string | null; sortOrder?: number; isActive?: boolean; parentId?: string | null }) =>
+    api.put<DowntimeReason>(`/api/downtime/reasons/${id}`, data),
+
+  deleteReason: (id: string) =>
+    api.delete<{ id: string; deactivated: boolean }>(`/api/downtime/reasons/${id}`),
+
+  getEvents: (params: DowntimeQuery & { untagged?: boolean; limit?: number }) =>
+    api.get<DowntimeEvent[]>(`/api/downtime/events?${downtimeQuery({
+      ...params,
+      untagged: params.untagged ? '1' : undefined,
+      limit: params.limit ? String(params.limit) : undefined,
+    })}`),
+
+  tagEvent: (id: string, reasonId: string | null, note?: string) =>
+    api.put<DowntimeEvent>(`/api/downtime/events/${id}/reason`, { reasonId, note }),
+
+  getPareto: (params: DowntimeQuery & { level?: 'reason' | 'category' }) =>
+    api.get<DowntimePareto>(`/api/downtime/pareto?${downtimeQuery(params)}`),
 };
 
+export interface WorkOrderDispatchResult {
+  machineId: string;
+  quantity: number;
+  rows: SchedulerRow[];
+}
+
 // Work Order API
 export const workOrderApi = {
   getAll: (status?: string, page = 1, limit = 50) => {
@@ -392,6 +982,9 @@ export const workOrderApi = {
 
   cancel: (id: string) =>
     api.post(`/api/work-orders/${id}/cancel`),
+
+  dispatch: (id: string, batchSize?: number) =>
+    api.post<WorkOrderDispatchResult>(`/api/work-orders/${id}/dispatch`, batchSize ? { batchSize } : {}),
 };
 
 // Audit API
@@ -418,31 +1011,145 @@ export const auditApi = {
 };
 
 // Camera API
+// Camera Types
+export type CameraHealthStatus =
+  | 'ONLINE'
+  | 'AUTH_ERROR'
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'STREAM_ENDED'
+  | 'BUSY'
+  | 'NOT_FOUND'
+  | 'FFMPEG_ERROR'
+  | 'INTERNAL_ERROR';
+
+export interface CameraHealth {
+  status: CameraHealthStatus | null;   // null = 미점검
+  latencyMs: number | null;
+  error: string | null;
+  checkedAt: string | null;
+  lastOnlineAt: string | null;
+}
+
+export interface CameraInfo {
+  id: string;
+  name: string;
+  ipAddress: string;
+  rtspPort: number;
+  streamPath: string;
+  username: string;
+  hasPassword: boolean;
+  enabled: boolean;
+  assignedMachineId?: string;
+  defaultZoom: number;
+  health: CameraHealth;
+}
+
+export interface CameraInput {
+  name: string;
+  ipAddress: string;
+  rtspPort: number;
+  streamPath: string;
+  username: string;
+  password?: string | null;            // 미지정 / '' = 유지, null = 삭제
+  enabled: boolean;
+  assignedMachineId?: string | null;
+  defaultZoom: number;
+}
+
+// WebSocket 'camera_status' / POST /api/cameras/:id/probe
+export interface CameraStatusEvent {
+  cameraId: string;
+  status: CameraHealthStatus;
+  latencyMs: number | null;
+  error: string | null;
+  checkedAt: string;
+}
+
+export interface CameraViewerCounts {
+  mjpeg: number;
+  fmp4: number;
+  total: number;
+}
+
+export interface CameraStreamStatus {
+  id: string;
+  streaming: boolean;
+  startedAt: number | null;
+  codec: string | null;
+  outputs: Array<'mjpeg' | 'fmp4'>;
+  viewers: CameraViewerCounts;
+  clients: Array<{ id: string; kind: 'mjpeg' | 'fmp4'; username: string; clientIp: string; since: number }>;
+  totalActiveStreams: number;
+}
+
+export interface CameraStreamOffer {
+  webrtc: boolean;
+  transport: 'fmp4';
+  url: string;
+  mimeType: string | null;
+  fallback: { transport: 'mjpeg'; url: string };
+  viewers: CameraViewerCounts;
+}
+
 export const cameraApi = {
   getAll: () =>
-    api.get('/api/cameras'),
+    api.get<CameraInfo[]>('/api/cameras'),
 
-  create: (config: Record<string, unknown>) =>
-    api.post('/api/cameras', config),
+  create: (input: CameraInput) =>
+    api.post<CameraInfo>('/api/cameras', input),
 
-  update: (id: string, config: Record<string, unknown>) =>
-    api.put(`/api/cameras/${id}`, config),
+  update: (id: string, input: Partial<CameraInput>) =>
+    api.put<CameraInfo>(`/api/cameras/${id}`, input),
 
   delete: (id: string) =>
-    api.delete(`/api/cameras/${id}`),
+    api.delete<{ id: string }>(`/api/cameras/${id}`),
+
+  /** 즉시 상태 점검 */
+  probe: (id: string) =>
+    api.post<CameraStatusEvent>(`/api/cameras/${id}/probe`),
 
   getWebRTCOffer: (id: string) =>
-    api.post(`/api/cameras/${id}/webrtc/offer`),
+    api.post<CameraStreamOffer>(`/api/cameras/${id}/webrtc/offer`),
 
   getStatus: (id: string) =>
-    api.get(`/api/cameras/${id}/status`),
+    api.get<CameraStreamStatus>(`/api/cameras/${id}/status`),
 };
 
 // DNC Config API
+// 서버 폴더 탐색 (허용 루트 하위만 — '/' 는 루트 목록)
+export interface FolderEntry {
+  name: string;
+  path: string;
+}
+
+export interface FolderListing {
+  path: string;
+  parent: string | null;
+  writable: boolean;
+  folders: FolderEntry[];
+}
+
+export interface PathCheck {
+  path: string;
+  root: string | null;
+  exists: boolean;
+  isDirectory: boolean;
+  writable: boolean;
+}
+
 export const dncApi = {
   // 서버 파일시스템 폴더 목록 조회
   listFolders: (basePath: string) =>
-    api.get(`/api/filesystem/list?path=${encodeURIComponent(basePath)}`),
+    api.get<FolderListing>(`/api/filesystem/list?path=${encodeURIComponent(basePath)}`),
+
+  // 새 폴더 생성 (machine.config 권한)
+  createFolder: (parentPath: string, name: string, machineId?: string) =>
+    api.post<FolderEntry>('/api/filesystem/mkdir', { path: parentPath, name, machineId }),
+
+  // 경로 존재 / 쓰기 권한 확인
+  validatePath: (targetPath: string) =>
+    api.get<PathCheck>(`/api/filesystem/validate?path=${encodeURIComponent(targetPath)}`),
 
   // 장비 DNC 경로 설정 조회
   getConfig: (machineId: string) =>
@@ -453,6 +1160,28 @@ export const dncApi = {
     api.put(`/api/machines/${machineId}/dnc-config`, config),
 };
 
+// 마모 오프셋 변경 이력 항목 (GET /api/machines/:id/offsets/history)
+export interface OffsetChangeInfo {
+  id: string;
+  path: number;
+  toolNo: number;
+  axis: 'X' | 'Y' | 'Z' | 'R';
+  oldValue: number;
+  newValue: number;
+  delta: number;
+  userName: string | null;
+  revertOfId: string | null;      // 되돌리기로 생성된 변경이면 원본 변경 ID
+  revertedById: string | null;    // 이 변경을 되돌린 변경 ID
+  approvedBy: string | null;      // 안전 한계 초과 승인 ADMIN
+  createdAt: string;
+}
+
+// 안전 한계 초과 오프셋 변경 승인 (offsets.approve_limit 권한이 있는 요청자 외 계정)
+export interface OffsetApproval {
+  username: string;
+  password: string;
+}
+
 // NC Data API (Offset / Count / Tool-Life)
 export const ncDataApi = {
   // 오프셋 읽기 (마모만, path=1|2)
@@ -461,8 +1190,22 @@ export const ncDataApi = {
 
   // 오프셋 쓰기 (단일 항목, 제어권 필요)
   // no: 공구 번호 (1-based), axis: 'X'|'Z'|'Y'|'R', value: mm 단위
-  writeOffset: (machineId: string, path: number, no: number, axis: string, value: number) =>
-    api.put(`/api/machines/${machineId}/offsets`, { path, no, axis, value }),
+  // 템플릿 안전 한계 초과 시 409 OFFSET_LIMIT_EXCEEDED → approval 과 함께 다시 요청
+  writeOffset: (machineId: string, path: number, no: number, axis: string, value: number, approval?: OffsetApproval) =>
+    api.put(`/api/machines/${machineId}/offsets`, { path, no, axis, value, approval }),
+
+  // 오프셋 변경 이력 (최신순, toolNo 지정 시 해당 공구만)
+  offsetHistory: (machineId: string, path: number, toolNo?: number) =>
+    api.get<OffsetChangeInfo[]>(
+      `/api/machines/${machineId}/offsets/history?path=${path}${toolNo ? `&toolNo=${toolNo}` : ''}`,
+    ),
+
+  // 오프셋 변경 1건 되돌리기 (제어권 필요)
+  // force: 이후 다른 변경이 있어도 변경 전 값으로 되돌림 (없으면 409 OFFSET_CHANGED_SINCE)
+  revertOffset: (machineId: string, changeId: string, force = false, approval?: OffsetApproval) =>
+    api.post<{ id: string; oldValue: number; newValue: number }>(
+      `/api/machines/${machineId}/offsets/history/${changeId}/revert`, { force, approval },
+    ),
 
   // 카운터 데이터 읽기 (템플릿 CounterConfig 기반)
   readCount: (machineId: string) =>
@@ -482,6 +1225,61 @@ export const ncDataApi = {
 };
 
 // File Management API (저장소/트랜스퍼/뷰어)
+// 전송 작업 (서버 TransferJob) — QUEUED → SENDING → ACKNOWLEDGED(Agent 응답) → VERIFIED(도착 확인)
+//   / MISMATCHED(읽기 비교 불일치) / FAILED
+export type TransferJobStatus = 'QUEUED' | 'SENDING' | 'ACKNOWLEDGED' | 'VERIFIED' | 'MISMATCHED' | 'FAILED';
+
+export interface ProgramLineDiff {
+  additions: number;
+  deletions: number;
+  hunks: BackupDiffHunk[];
+}
+
+export interface TransferJobInfo {
+  id: string;
+  batchId: string;
+  machineId: string;
+  direction: 'PC_TO_CNC' | 'CNC_TO_PC';
+  fileName: string;
+  programNo: string | null;
+  root: ProgramRoot;
+  pathKey: string | null;         // SCHEDULER_REPO 경로, LIBRARY 제품 코드
+  revision: number | null;        // LIBRARY 전송 시점 리비전
+  readBack: boolean;
+  status: TransferJobStatus;
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  sizeBytes: number | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+  checksum: string | null;
+  cncChecksum: string | null;
+  verifyDiff: ProgramLineDiff | null;     // PC → CNC 줄 diff (정규화 본문)
+  userName: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  acknowledgedAt: string | null;
+  verifiedAt: string | null;
+}
+
+export interface TransferOptions {
+  root?: 'TRANSFER_SHARE' | 'SCHEDULER_REPO';
+  pathKey?: string;
+  verify?: boolean;       // PC_TO_CNC 전송 후 CNC 읽기 비교
+}
+
+// PC 파일 ↔ CNC 프로그램 비교 결과 (정규화 체크섬)
+export interface ProgramVerifyResult {
+  machineId: string;
+  fileName: string;
+  programNo: string;
+  match: boolean;
+  checksum: string;
+  cncChecksum: string;
+  diff: ProgramLineDiff | null;
+}
+
 export const fileApi = {
   // DNC 저장소 파일 목록
   listRepoFiles: (machineId: string, pathKey: string) =>
@@ -502,21 +1300,401 @@ export const fileApi = {
   listCncFiles: (machineId: string) =>
     api.get(`/api/transfer/${machineId}/programs`),
 
-  // 파일 내용 읽기
-  readFile: (root: string, machineId: string, fileName: string) =>
-    api.get(`/api/files/read?root=${root}&machineId=${machineId}&name=${encodeURIComponent(fileName)}`),
+  // 파일 내용 읽기 (+ 저장소 등록 정보)
+  readFile: (root: string, machineId: string, fileName: string, pathKey?: string) =>
+    api.get<{ content: string; fileName: string; program: ProgramInfo | null }>(
+      `/api/files/read?root=${root}&machineId=${machineId}${pathKey ? `&pathKey=${pathKey}` : ''}&name=${encodeURIComponent(fileName)}`),
 
-  // 파일 저장
-  writeFile: (root: string, machineId: string, fileName: string, content: string) =>
-    api.put('/api/files/write', { root, machineId, fileName, content }),
+  // 파일 저장 — 내용이 바뀌면 저장소 리비전 생성 (message: 변경 메모)
+  writeFile: (root: string, machineId: string, fileName: string, content: string, pathKey?: string, message?: string) =>
+    api.put<{ fileName: string; size: number; modifiedAt: string; program: ProgramInfo; revisionCreated: boolean }>(
+      '/api/files/write', { root, machineId, pathKey, fileName, content, message }),
 
   // 파일 삭제
-  deleteFiles: (root: string, machineId: string, fileNames: string[]) =>
-    api.post('/api/files/delete', { root, machineId, fileNames }),
+  deleteFiles: (root: string, machineId: string, fileNames: string[], pathKey?: string) =>
+    api.post('/api/files/delete', { root, machineId, pathKey, fileNames }),
+
+  // 파일 전송 (PC ↔ CNC) — 파일별 전송 작업 생성, 진행은 WS 'transfer_job'
+  transfer: (machineId: string, direction: string, fileNames: string[], conflictPolicy: string, options: TransferOptions = {}) =>
+    api.post<{ batchId: string; jobs: TransferJobInfo[]; machineId: string; direction: string }>(
+      '/api/files/transfer', { machineId, direction, fileNames, conflictPolicy, ...options }),
+
+  // PC 파일 ↔ CNC 프로그램 비교 (전송 없이 읽기만)
+  verifyProgram: (machineId: string, root: 'TRANSFER_SHARE' | 'SCHEDULER_REPO', fileName: string, pathKey?: string) =>
+    api.post<ProgramVerifyResult>('/api/files/verify', { machineId, root, pathKey, fileName }),
+
+  // 전송 작업 이력 (최신순)
+  listTransferJobs: (machineId?: string, limit = 100) =>
+    api.get<TransferJobInfo[]>(`/api/files/transfer/jobs?limit=${limit}${machineId ? `&machineId=${encodeURIComponent(machineId)}` : ''}`),
+
+  // 실패 / 불일치 작업 재시도
+  retryTransferJob: (jobId: string) =>
+    api.post<TransferJobInfo>(`/api/files/transfer/jobs/${jobId}/retry`),
+};
+
+// 프로그램 저장소 — 파일별 리비전 이력 / 체크아웃 / DRAFT → APPROVED → RELEASED
+export type ProgramStatus = 'DRAFT' | 'APPROVED' | 'RELEASED';
+
+// LIBRARY: 제품 코드별 장비 공용 라이브러리 (pathKey = 제품 코드)
+export type ProgramRoot = 'TRANSFER_SHARE' | 'SCHEDULER_REPO' | 'LIBRARY';
+
+export interface ProgramInfo {
+  id: string;
+  root: ProgramRoot;
+  location: string;
+  fileName: string;
+  programNo: string | null;
+  status: ProgramStatus;
+  revision: number;
+  lastMessage: string | null;
+  lastAuthor: string | null;
+  lastSavedAt: string | null;
+  checkedOutBy: string | null;
+  checkedOutAt: string | null;
+  modified: boolean;          // 디스크 파일이 최신 리비전과 다름 (저장소 밖 수정)
+}
+
+export interface ProgramRevisionInfo {
+  revision: number;
+  checksum: string;
+  sizeBytes: number;
+  message: string;
+  author: string | null;
+  createdAt: string;
+  approvedBy: string | null;
+  approvedAt: string | null;
+  releasedBy: string | null;
+  releasedAt: string | null;
+}
+
+export interface ProgramRef {
+  root: ProgramRoot;
+  machineId?: string;
+  pathKey?: string;               // SCHEDULER_REPO 경로, LIBRARY 제품 코드
+  fileName: string;
+}
 
-  // 파일 전송 (PC ↔ CNC)
-  transfer: (machineId: string, direction: string, fileNames: string[], conflictPolicy: string) =>
-    api.post('/api/files/transfer', { machineId, direction, fileNames, conflictPolicy }),
+export const programApi = {
+  // 기존 파일 저장소 등록
+  track: (ref: ProgramRef, message?: string) =>
+    api.post<ProgramInfo>('/api/programs/track', { ...ref, message }),
+
+  // 프로그램 정보 + 리비전 이력
+  get: (id: string) =>
+    api.get<ProgramInfo & { revisions: ProgramRevisionInfo[] }>(`/api/programs/${id}`),
+
+  getRevision: (id: string, revision: number) =>
+    api.get<{ revision: number; content: string }>(`/api/programs/${id}/revisions/${revision}`),
+
+  diff: (id: string, from: number, to: number) =>
+    api.get<ProgramLineDiff & { from: number; to: number }>(`/api/programs/${id}/diff?from=${from}&to=${to}`),
+
+  rollback: (id: string, revision: number, message?: string) =>
+    api.post<ProgramInfo>(`/api/programs/${id}/rollback`, { revision, message }),
+
+  checkout: (id: string) =>
+    api.post<ProgramInfo>(`/api/programs/${id}/checkout`),
+
+  checkin: (id: string) =>
+    api.post<ProgramInfo>(`/api/programs/${id}/checkin`),
+
+  approve: (id: string) =>
+    api.post<ProgramInfo>(`/api/programs/${id}/approve`),
+
+  release: (id: string) =>
+    api.post<ProgramInfo>(`/api/programs/${id}/release`),
+
+  reopen: (id: string) =>
+    api.post<ProgramInfo>(`/api/programs/${id}/reopen`),
+};
+
+// 프로그램 라이브러리 — 제품 코드별 장비 공용 프로그램, 호환 템플릿 / 장비, 배포 현황
+export interface LibraryProgramInfo extends ProgramInfo {
+  productCode: string;
+  compatibleTemplates: string[];    // Template.templateId
+  compatibleMachines: string[];     // Machine.machineId
+  releasedRevision: number | null;  // 배포 기준 리비전 (릴리스 기록이 있는 최신)
+}
+
+export interface LibraryMachine {
+  id: string;
+  machineId: string;
+  name: string;
+  location: string | null;
+  templateId: string;
+}
+
+// CURRENT 최신 / STALE 구버전 / OVERWRITTEN 다른 전송으로 덮어씀 / MISSING CNC 에서 삭제됨
+// UNMANAGED 수동 복사 (리비전 불명) / NOT_DEPLOYED 미배포
+export type DeploymentState = 'CURRENT' | 'STALE' | 'OVERWRITTEN' | 'MISSING' | 'UNMANAGED' | 'NOT_DEPLOYED';
+
+export interface DeploymentCell {
+  programId: string;
+  machineId: string;
+  state: DeploymentState;
+  programNo: string | null;
+  deployedRevision: number | null;
+  deployedAt: string | null;
+  deployedBy: string | null;
+  onCnc: boolean | null;            // CNC 목록 조회 실패 시 null
+}
+
+export interface DeploymentMatrix {
+  programs: LibraryProgramInfo[];
+  machines: (LibraryMachine & { online: boolean; error: string | null })[];
+  cells: DeploymentCell[];
+  checkedAt: string;
+}
+
+export interface LibraryProgramInput {
+  productCode: string;
+  fileName: string;
+  content: string;
+  message?: string;
+  compatibleTemplates: string[];
+  compatibleMachines: string[];
+}
+
+export const libraryApi = {
+  list: (productCode?: string) =>
+    api.get<LibraryProgramInfo[]>(`/api/library${productCode ? `?productCode=${encodeURIComponent(productCode)}` : ''}`),
+
+  get: (id: string) =>
+    api.get<LibraryProgramInfo & { machines: LibraryMachine[] }>(`/api/library/${id}`),
+
+  create: (input: LibraryProgramInput) =>
+    api.post<LibraryProgramInfo>('/api/library', input),
+
+  setCompatibility: (id: string, compatibleTemplates: string[], compatibleMachines: string[]) =>
+    api.put<LibraryProgramInfo>(`/api/library/${id}/compatibility`, { compatibleTemplates, compatibleMachines }),
+
+  // 호환 장비 CNC 목록 조회 포함 (장비당 최대 15초)
+  deployments: (productCode?: string) =>
+    api.get<DeploymentMatrix>(`/api/library/deployments${productCode ? `?productCode=${encodeURIComponent(productCode)}` : ''}`),
+
+  // 배포 = 장비별 PC→CNC 전송 작업 (진행은 WS 'transfer_job')
+  deploy: (id: string, machineIds: string[], verify = false) =>
+    api.post<{ jobs: TransferJobInfo[] }>(`/api/library/${id}/deploy`, { machineIds, verify }),
+};
+
+// 게이지 측정 — 측정 항목(공구 / 축 매핑) · 측정값 수집 · 마모 오프셋 보정 제안
+export type MeasurementSource = 'GAUGE_API' | 'GAUGE_CSV' | 'MANUAL' | 'SAMPLED';
+// PROPOSED 적용 대기 / APPLIED 적용됨 / DISMISSED 기각 / SUPERSEDED 이후 측정으로 대체 / NONE 보정 불필요
+export type CorrectionStatus = 'NONE' | 'PROPOSED' | 'APPLIED' | 'DISMISSED' | 'SUPERSEDED';
+
+export interface MeasurementFeatureInput {
+  name: string;
+  description?: string | null;
+  nominal: number;
+  lowerTol: number;           // 음수 (하한 편차)
+  upperTol: number;
+  path: number;
+  toolNo: number | null;      // 공구 / 축 없음 = SPC 전용 항목
+  axis: OffsetAxisKey | null;
+  gain: number;               // 보정량 = -편차 × gain
+  deadBand: number;           // |편차| 이하면 보정 안 함
+  autoApply: boolean;         // 공차 안 측정값의 보정을 즉시 적용
+  isActive: boolean;
+  productCode: string | null;         // 기본 제품 코드 (진행 중 작업지시가 없을 때)
+  subgroupSize: number;               // X̄-R 부분군 크기 (2~10)
+  sampleVarKey: string | null;        // 주기 샘플링 — 템플릿 CounterConfig.fields[].key
+  sampleIntervalSec: number | null;
+}
+
+export interface MeasurementFeatureInfo extends MeasurementFeatureInput {
+  id: string;
+  machineDbId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MeasurementInfo {
+  id: string;
+  featureId: string;
+  featureName: string;
+  toolNo: number | null;
+  axis: OffsetAxisKey | null;
+  path: number;
+  value: number;
+  deviation: number;
+  inTolerance: boolean;
+  source: MeasurementSource;
+  sampleId: string | null;
+  measuredAt: string;
+  correction: number | null;
+  correctionStatus: CorrectionStatus;
+  correctionNote: string | null;
+  offsetChangeId: string | null;
+  productCode: string | null;
+  userName: string | null;
+}
+
+export interface MeasurementIngestResult {
+  recorded: number;
+  applied: number;
+  proposed: number;
+  errors: { row: number; feature?: string; message: string }[];
+}
+
+export const measurementApi = {
+  features: (machineId: string) =>
+    api.get<MeasurementFeatureInfo[]>(`/api/measurements/features?machineId=${encodeURIComponent(machineId)}`),
+
+  createFeature: (machineId: string, input: MeasurementFeatureInput) =>
+    api.post<MeasurementFeatureInfo>('/api/measurements/features', { machineId, ...input }),
+
+  updateFeature: (id: string, input: Partial<MeasurementFeatureInput>) =>
+    api.put<MeasurementFeatureInfo>(`/api/measurements/features/${id}`, input),
+
+  deleteFeature: (id: string) =>
+    api.delete<{ id: string; deleted: boolean }>(`/api/measurements/features/${id}`),
+
+  list: (machineId: string, params: { featureId?: string; status?: CorrectionStatus; limit?: number } = {}) => {
+    const query = new URLSearchParams({ machineId });
+    if (params.featureId) query.set('featureId', params.featureId);
+    if (params.status) query.set('status', params.status);
+    if (params.limit) query.set('limit', String(params.limit));
+    return api.get<MeasurementInfo[]>(`/api/measurements?${query}`);
+  },
+
+  // POP 수기 입력 (1건)
+  manual: (machineId: string, input: { feature: string; value: number; productCode?: string; sampleId?: string }) =>
+    api.post<MeasurementIngestResult>('/api/measurements/manual', { machineId, ...input }),
+
+  uploadCsv: (machineId: string, file: File) => {
+    const form = new FormData();
+    form.append('machineId', machineId);
+    form.append('file', file);
+    return api.postForm<MeasurementIngestResult>('/api/measurements/csv', form);
+  },
+
+  // 제어권 필요 — 안전 한계 초과 시 409 OFFSET_LIMIT_EXCEEDED → approval 첨부 재요청
+  apply: (id: string, approval?: OffsetApproval) =>
+    api.post<MeasurementInfo>(`/api/measurements/${id}/apply`, { approval }),
+
+  dismiss: (id: string, note?: string) =>
+    api.post<MeasurementInfo>(`/api/measurements/${id}/dismiss`, { note }),
+};
+
+// SPC — 개별값(I-MR) / X̄-R 관리도, Western Electric 규칙, 제품 코드별 공정능력
+export type SpcChartType = 'INDIVIDUALS' | 'XBAR';
+
+export interface SpcControlLimits {
+  center: number;
+  ucl: number;
+  lcl: number;
+}
+
+export interface SpcPoint {
+  measurementId: string;
+  measuredAt: string;
+  value: number;              // 개별값 / 부분군 평균
+  range: number | null;       // 이동 범위 / 부분군 범위
+  rules: number[];            // 위반 Western Electric 규칙 (1~4)
+}
+
+export interface SpcCapability {
+  productCode: string | null;
+  count: number;
+  mean: number | null;
+  sigmaWithin: number | null;
+  sigmaOverall: number | null;
+  lsl: number;
+  usl: number;
+  cp: number | null;
+  cpk: number | null;
+  pp: number | null;
+  ppk: number | null;
+}
+
+export interface SpcChartData {
+  chart: SpcChartType;
+  subgroupSize: number;
+  points: SpcPoint[];
+  limits: SpcControlLimits | null;        // 데이터 부족 시 null
+  rangeLimits: SpcControlLimits | null;
+  sigmaWithin: number | null;
+  capability: SpcCapability;
+}
+
+export interface SpcViolationInfo {
+  id: string;
+  featureId: string;
+  featureName: string;
+  machineId: string;
+  machineName: string;
+  measurementId: string;
+  productCode: string | null;
+  chart: SpcChartType;
+  rule: number;
+  value: number;
+  centerLine: number;
+  ucl: number;
+  lcl: number;
+  message: string;
+  createdAt: string;
+}
+
+export const spcApi = {
+  // productCode: undefined = 전체, null = 제품 코드 없는 측정
+  chart: (featureId: string, chart: SpcChartType, productCode?: string | null, limit?: number) => {
+    const query = new URLSearchParams({ chart });
+    if (productCode !== undefined) query.set('productCode', productCode ?? '');
+    if (limit) query.set('limit', String(limit));
+    return api.get<SpcChartData>(`/api/spc/features/${featureId}/chart?${query}`);
+  },
+
+  capability: (featureId: string, chart: SpcChartType) =>
+    api.get<SpcCapability[]>(`/api/spc/features/${featureId}/capability?chart=${chart}`),
+
+  violations: (params: { machineId?: string; featureId?: string; limit?: number } = {}) => {
+    const query = new URLSearchParams();
+    if (params.machineId) query.set('machineId', params.machineId);
+    if (params.featureId) query.set('featureId', params.featureId);
+    if (params.limit) query.set('limit', String(params.limit));
+    return api.get<SpcViolationInfo[]>(`/api/spc/violations?${query}`);
+  },
+};
+
+// Tool Life Forecast API (공구 수명 예측 / 교체 계획 보드)
+export type ToolLifeStatus = 'EXPIRED' | 'FORECAST' | 'IDLE' | 'NO_DATA';
+
+export interface ToolForecast {
+  machineId: string;
+  machineName: string;
+  location: string | null;
+  path: number;
+  toolNo: string;
+  count: number;
+  preset: number;
+  remaining: number;
+  sampledAt: string;
+  stale: boolean;                      // 마지막 샘플이 오래됨 (오프라인 추정)
+  basis: 'M20' | 'TIME' | null;        // 소모율 기준
+  usagePerPart: number | null;         // M20 1회당 카운트 증가
+  partsPerHour: number | null;
+  consumptionPerHour: number | null;
+  partsRemaining: number | null;
+  hoursRemaining: number | null;
+  dueAt: string | null;
+  status: ToolLifeStatus;
+}
+
+export interface ToolChangeBoard {
+  generatedAt: string;
+  hours: number;
+  tools: ToolForecast[];
+}
+
+export const toolLifeApi = {
+  board: (hours: number, location?: string) => {
+    const query = new URLSearchParams({ hours: String(hours) });
+    if (location) query.set('location', location);
+    return api.get<ToolChangeBoard>(`/api/tool-life/board?${query}`);
+  },
+
+  machine: (machineId: string) =>
+    api.get<ToolForecast[]>(`/api/tool-life/machines/${encodeURIComponent(machineId)}`),
 };
 
 // Template API (HQ_ENGINEER/ADMIN 전용 - 장비 템플릿 관리)
@@ -577,23 +1755,39 @@ export const layoutApi = {
 };
 
 export const cameraServerApi = {
-  /** 서버에 저장된 카메라 설정 목록 조회 */
-  getConfigs: () =>
-    api.get<unknown[]>('/api/camera/configs'),
-
-  /** 카메라 설정 전체를 서버에 저장 */
-  saveConfigs: (cameras: unknown[]) =>
-    api.put('/api/camera/configs', cameras),
-
-  /** 특정 카메라 스트림 활성 여부 */
+  /** 특정 카메라 스트림 활성 여부 / 형식별 뷰어 수 */
   getStatus: (cameraId: string) =>
-    api.get<{ id: string; streaming: boolean }>(`/api/camera/${cameraId}/status`),
+    api.get<CameraStreamStatus>(`/api/camera/${cameraId}/status`),
 
   /** MJPEG 스트림 URL 생성 (token 포함) — <img src> 에 직접 사용 */
   getStreamUrl: (cameraId: string): string => {
     const token = useAuthStore.getState().accessToken ?? '';
     return `/api/camera/${cameraId}/stream?token=${encodeURIComponent(token)}`;
   },
+
+  /** fragmented MP4 스트림 URL 생성 (token 포함) — MSE 재생용 */
+  getMp4StreamUrl: (cameraId: string): string => {
+    const token = useAuthStore.getState().accessToken ?? '';
+    return `/api/camera/${cameraId}/stream.mp4?token=${encodeURIComponent(token)}`;
+  },
+
+  /** 현재 프레임 JPEG URL (token 포함) — download=true 면 파일 저장 */
+  getSnapshotUrl: (cameraId: string, download = false): string => {
+    const token = useAuthStore.getState().accessToken ?? '';
+    return `/api/camera/${cameraId}/snapshot?token=${encodeURIComponent(token)}&t=${Date.now()}${download ? '&download=true' : ''}`;
+  },
+
+  /** 알람 클립 MP4 URL (token 포함) — <video src> 에 직접 사용 */
+  getClipVideoUrl: (clipId: string): string => {
+    const token = useAuthStore.getState().accessToken ?? '';
+    return `/api/camera/clips/${clipId}/video?token=${encodeURIComponent(token)}`;
+  },
+
+  /** 알람 시점 스냅샷 URL (token 포함) */
+  getClipSnapshotUrl: (clipId: string): string => {
+    const token = useAuthStore.getState().accessToken ?? '';
+    return `/api/camera/clips/${clipId}/snapshot?token=${encodeURIComponent(token)}`;
+  },
 };
 
 export const diagnosticsApi = {
@@ -0,0 +1,32 @@
+// Offset Limit Utility Functions
+// 템플릿 offsetConfig 안전 한계 평가 (서버 lib/offsets 와 같은 규칙 — 확인 다이얼로그 사전 경고용)
+
+import type { OffsetAxisKey, OffsetAxisLimit, OffsetConfig } from '../stores/templateStore';
+
+const VALUE_EPSILON = 1e-6;
+
+/**
+ * 공구 / 축의 실효 한계 (축별 기본값 위에 공구별 값 덮어쓰기)
+ */
+export function resolveOffsetLimit(config: OffsetConfig | undefined, toolNo: number, axis: OffsetAxisKey): OffsetAxisLimit {
+  const base = config?.limits?.[axis] ?? {};
+  const tool = config?.toolLimits?.[String(toolNo)]?.[axis] ?? {};
+  return {
+    maxDelta: tool.maxDelta ?? base.maxDelta,
+    maxAbs: tool.maxAbs ?? base.maxAbs,
+  };
+}
+
+/**
+ * 한계 초과 사유 (없으면 null)
+ */
+export function checkOffsetLimit(limit: OffsetAxisLimit, oldValue: number, newValue: number): string | null {
+  const delta = Math.abs(newValue - oldValue);
+  if (limit.maxDelta !== undefined && delta > limit.maxDelta + VALUE_EPSILON) {
+    return `변경량 ${delta.toFixed(4)} 이(가) 1회 한계 ${limit.maxDelta.toFixed(4)} 을(를) 초과합니다`;
+  }
+  if (limit.maxAbs !== undefined && Math.abs(newValue) > limit.maxAbs + VALUE_EPSILON) {
+    return `값 ${newValue.toFixed(4)} 이(가) 마모 한계 ±${limit.maxAbs.toFixed(4)} 을(를) 벗어납니다`;
+  }
+  return null;
+}
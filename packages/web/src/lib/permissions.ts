@@ -0,0 +1,68 @@
+// Permissions - 서버 권한 모델(server/src/lib/permissions.ts)과 동일한 평가 규칙
+// 실효 권한은 GET /api/auth/permissions 응답(PermissionGrants)을 그대로 사용
+
+export type Permission =
+  | 'control.acquire'
+  | 'control.force_release'
+  | 'command.send'
+  | 'scheduler.edit'
+  | 'scheduler.start'
+  | 'offsets.write'
+  | 'offsets.approve_limit'
+  | 'measurement.write'
+  | 'tool-life.write'
+  | 'count.write'
+  | 'program.edit'
+  | 'program.approve'
+  | 'transfer.pc_to_cnc'
+  | 'backup.create'
+  | 'backup.restore'
+  | 'machine.config'
+  | 'machine.manage'
+  | 'template.edit'
+  | 'backup.schedule'
+  | 'work-order.manage'
+  | 'shift.manage'
+  | 'downtime.manage'
+  | 'production.edit'
+  | 'settings.manage'
+  | 'camera.manage'
+  | 'audit.view'
+  | 'diagnostics.view'
+  | 'user.manage';
+
+export interface PermissionGrants {
+  global: Permission[];
+  machines: Record<string, Permission[]>;   // machineId → 권한
+  locations: Record<string, Permission[]>;  // 라인(location) → 권한
+}
+
+export interface PermissionMachine {
+  machineId: string;
+  location?: string | null;
+}
+
+/**
+ * 권한 평가 — machine 이 주어지면 장비 / 라인 범위 부여도 인정
+ */
+export function hasPermission(
+  grants: PermissionGrants | null,
+  permission: Permission,
+  machine?: PermissionMachine | null,
+): boolean {
+  if (!grants) return false;
+  if (grants.global.includes(permission)) return true;
+  if (!machine) return false;
+  if (grants.machines[machine.machineId]?.includes(permission)) return true;
+  return !!machine.location && !!grants.locations[machine.location]?.includes(permission);
+}
+
+/**
+ * 어느 범위에서든 보유 여부 (메뉴 노출 등 장비 미지정 화면용)
+ */
+export function hasAnyScope(grants: PermissionGrants | null, permission: Permission): boolean {
+  if (!grants) return false;
+  return grants.global.includes(permission)
+    || Object.values(grants.machines).some((p) => p.includes(permission))
+    || Object.values(grants.locations).some((p) => p.includes(permission));
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useMachineStore } from '../stores/machineStore';
-import { alarmApi } from '../lib/api';
+import { alarmApi, cameraServerApi, AlarmClipInfo } from '../lib/api';
 import { useWebSocket } from '../hooks/useWebSocket';
 
 interface AlarmRecord {
@@ -15,8 +15,16 @@ interface AlarmRecord {
   clearedAt?: string;
   acknowledgedBy?: string;
   acknowledgedAt?: string;
+  clips?: AlarmClipInfo[];
 }
 
+const CLIP_STATUS_LABEL: Record<AlarmClipInfo['status'], string> = {
+  RECORDING: '녹화 중',
+  READY: '영상',
+  FAILED: '녹화 실패',
+  EXPIRED: '보존 만료',
+};
+
 // --- Mock Data ---
 const MOCK_ALARMS: AlarmRecord[] = [
   {
@@ -65,6 +73,7 @@ export function Alarms() {
   const [isLoading, setIsLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'active' | 'history'>('all');
   const [machineFilter, setMachineFilter] = useState<string>(selectedMachineId || '');
+  const [clipAlarm, setClipAlarm] = useState<AlarmRecord | null>(null);
 
   // Load alarms
   const loadAlarms = useCallback(async () => {
@@ -263,12 +272,17 @@ export function Alarms() {
                   alarm={alarm}
                   machines={machines}
                   onAcknowledge={handleAcknowledge}
+                  onShowClips={setClipAlarm}
                 />
               ))
             )}
           </tbody>
         </table>
       </div>
+
+      {clipAlarm && (
+        <AlarmClipModal alarm={clipAlarm} onClose={() => setClipAlarm(null)} />
+      )}
     </div>
   );
 }
@@ -319,11 +333,17 @@ function AlarmRow({
   alarm,
   machines,
   onAcknowledge,
+  onShowClips,
 }: {
   alarm: AlarmRecord;
   machines: any[];
   onAcknowledge: (id: string) => void;
+  onShowClips: (alarm: AlarmRecord) => void;
 }) {
+  const clips = alarm.clips ?? [];
+  const hasReady = clips.some((c) => c.status === 'READY');
+  const isRecording = clips.some((c) => c.status === 'RECORDING');
+
   const machine = machines.find((m) => m.machineId === alarm.machineId);
   const isActive = !alarm.clearedAt;
 
@@ -357,7 +377,20 @@ function AlarmRow({
           </span>
         )}
       </td>
-      <td className="px-4 py-3">
+      <td className="px-4 py-3 space-x-2">
+        {clips.length > 0 && (
+          <button
+            onClick={() => onShowClips(alarm)}
+            className={`px-3 py-1 rounded text-sm ${
+              hasReady
+                ? 'bg-gray-700 text-white hover:bg-gray-600'
+                : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200'
+            }`}
+            title="알람 전후 카메라 영상"
+          >
+            {hasReady ? CLIP_STATUS_LABEL.READY : isRecording ? CLIP_STATUS_LABEL.RECORDING : CLIP_STATUS_LABEL[clips[0].status]}
+          </button>
+        )}
         {isActive && !alarm.acknowledgedAt && (
           <button
             onClick={() => onAcknowledge(alarm.id)}
@@ -375,3 +408,92 @@ function AlarmRow({
     </tr>
   );
 }
+
+// Alarm Clip Modal — 알람 전후 카메라 영상 / 알람 시점 스냅샷
+function AlarmClipModal({ alarm, onClose }: { alarm: AlarmRecord; onClose: () => void }) {
+  const clips = alarm.clips ?? [];
+  const [selectedId, setSelectedId] = useState<string>(
+    (clips.find((c) => c.status === 'READY') ?? clips[0])?.id ?? ''
+  );
+  const clip = clips.find((c) => c.id === selectedId);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-4xl mx-4 p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              #{alarm.alarmNo} {alarm.alarmMsg}
+            </h2>
+            <p className="text-xs text-gray-500">
+              {alarm.machineId} · {new Date(alarm.occurredAt).toLocaleString()}
+            </p>
+          </div>
+          <button onClick={onClose} className="px-3 py-1 text-gray-500 hover:text-gray-900 dark:hover:text-white">
+            닫기
+          </button>
+        </div>
+
+        {clips.length > 1 && (
+          <div className="flex gap-2 mb-3">
+            {clips.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => setSelectedId(c.id)}
+                className={`px-3 py-1 rounded text-sm ${
+                  c.id === selectedId
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+                }`}
+              >
+                {c.cameraName}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {clip && (
+          <div>
+            {clip.status === 'READY' ? (
+              <video
+                key={clip.id}
+                src={cameraServerApi.getClipVideoUrl(clip.id)}
+                poster={cameraServerApi.getClipSnapshotUrl(clip.id)}
+                controls
+                autoPlay
+                className="w-full max-h-[60vh] bg-black rounded"
+              />
+            ) : (
+              <div className="w-full aspect-video flex items-center justify-center bg-gray-900 rounded text-sm text-gray-400">
+                {clip.status === 'RECORDING'
+                  ? '녹화 중입니다 — 알람 후 구간 녹화가 끝나면 재생할 수 있습니다'
+                  : clip.status === 'FAILED'
+                    ? `녹화 실패${clip.errorMessage ? ` — ${clip.errorMessage}` : ''}`
+                    : '보존 기간이 지나 영상이 삭제되었습니다'}
+              </div>
+            )}
+            <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+              <span>
+                {clip.cameraName}
+                {clip.startedAt && clip.endedAt &&
+                  ` · ${new Date(clip.startedAt).toLocaleTimeString()} ~ ${new Date(clip.endedAt).toLocaleTimeString()}`}
+              </span>
+              {clip.status === 'READY' && (
+                <a
+                  href={cameraServerApi.getClipVideoUrl(clip.id)}
+                  download
+                  className="text-blue-600 hover:underline"
+                >
+                  다운로드
+                </a>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+// BackupDiff - 백업 비교 페이지 (/backup/diff?from=&to=)
+// 같은 장비 두 백업의 파라미터 변경(old → new)과 프로그램 추가/삭제/수정(줄 diff) 표시
+
+import { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { backupApi, type BackupDiff as BackupDiffData, type BackupProgramModification } from '../lib/api';
+import { DiffHunks } from '../components/DiffHunks';
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('ko-KR', { hour12: false });
+}
+
+function parameterLabel(c: BackupDiffData['parameters']['changes'][number]): string {
+  const no = String(c.number).padStart(4, '0');
+  return `${no}${c.path !== null ? ` (경로 ${c.path})` : ''}${c.axis !== null ? ` 축${c.axis}` : ''}`;
+}
+
+const KIND_STYLE: Record<'changed' | 'added' | 'removed', { label: string; cls: string }> = {
+  changed: { label: '변경', cls: 'bg-yellow-900/30 text-yellow-400' },
+  added:   { label: '추가', cls: 'bg-green-900/30 text-green-400' },
+  removed: { label: '삭제', cls: 'bg-red-900/30 text-red-400' },
+};
+
+export function BackupDiff() {
+  const [params] = useSearchParams();
+  const fromId = params.get('from') ?? '';
+  const toId = params.get('to') ?? '';
+
+  const [diff, setDiff] = useState<BackupDiffData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!fromId || !toId) {
+      setError('비교할 백업 2개를 선택하세요');
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    backupApi.getDiff(fromId, toId).then((res) => {
+      if (res.success && res.data) {
+        setDiff(res.data);
+        setError(null);
+      } else {
+        setError(res.error?.message ?? '백업 비교 실패');
+      }
+      setIsLoading(false);
+    });
+  }, [fromId, toId]);
+
+  return (
+    <div className="p-6 space-y-6 text-white">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold">백업 비교</h1>
+          {diff && (
+            <p className="text-sm text-gray-400 mt-1">
+              {diff.machine.name} ({diff.machine.machineId}) · {formatDateTime(diff.from.createdAt)} → {formatDateTime(diff.to.createdAt)}
+            </p>
+          )}
+        </div>
+        <Link to="/transfer" className="text-sm text-blue-400 hover:text-blue-300">
+          ← 백업 목록
+        </Link>
+      </div>
+
+      {isLoading && <div className="text-gray-400">비교 중...</div>}
+      {error && <div className="p-3 bg-red-900/30 text-red-400 rounded-lg">{error}</div>}
+
+      {diff && (
+        <>
+          {/* 비교 대상 */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {[{ label: '이전', b: diff.from }, { label: '이후', b: diff.to }].map(({ label, b }) => (
+              <div key={b.id} className="bg-gray-800 rounded-lg p-4 text-sm">
+                <div className="text-xs text-gray-500 mb-1">{label}</div>
+                <div className="font-mono">{b.fileName}</div>
+                <div className="text-gray-400 mt-1">
+                  {b.type} · {formatDateTime(b.createdAt)} · {b.createdBy ?? '스케줄'}
+                  {b.editMode === false && <span className="ml-2 text-yellow-400">(프로그램 목록만)</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* 파라미터 */}
+          <div className="bg-gray-800 rounded-lg p-6">
+            <h2 className="text-lg font-semibold mb-3">
+              파라미터
+              {diff.parameters.available && (
+                <span className="ml-2 text-sm font-normal text-gray-400">
+                  {diff.parameters.changes.length}건 변경 / {diff.parameters.toCount}개 항목
+                </span>
+              )}
+            </h2>
+            {!diff.parameters.available ? (
+              <div className="text-sm text-gray-500">
+                두 백업 중 파라미터 덤프가 없는 백업이 있습니다 (파라미터 / 전체 백업만 비교 가능)
+              </div>
+            ) : diff.parameters.changes.length === 0 ? (
+              <div className="text-sm text-green-400">변경된 파라미터가 없습니다</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-700 text-xs text-gray-400">
+                  <tr>
+                    <th className="px-3 py-2 text-left">번호</th>
+                    <th className="px-3 py-2 text-left">구분</th>
+                    <th className="px-3 py-2 text-right">이전 값</th>
+                    <th className="px-3 py-2 text-right">이후 값</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700 font-mono">
+                  {diff.parameters.changes.map((c) => (
+                    <tr key={c.key}>
+                      <td className="px-3 py-1.5">{parameterLabel(c)}</td>
+                      <td className="px-3 py-1.5">
+                        <span className={`px-2 py-0.5 text-xs rounded font-sans ${KIND_STYLE[c.kind].cls}`}>
+                          {KIND_STYLE[c.kind].label}
+                        </span>
+                      </td>
+                      <td className="px-3 py-1.5 text-right text-red-300">{c.old ?? '—'}</td>
+                      <td className="px-3 py-1.5 text-right text-green-300">{c.new ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* 프로그램 */}
+          <div className="bg-gray-800 rounded-lg p-6 space-y-4">
+            <h2 className="text-lg font-semibold">
+              프로그램
+              <span className="ml-2 text-sm font-normal text-gray-400">
+                추가 {diff.programs.added.length} · 삭제 {diff.programs.removed.length} · 수정 {diff.programs.modified.length} · 동일 {diff.programs.unchanged}
+              </span>
+            </h2>
+            {!diff.programs.contentCompared && (
+              <div className="text-sm text-yellow-400">
+                프로그램 본문이 없는 백업이 있어 목록 기준으로만 비교했습니다 (EDIT 모드에서 프로그램/전체 백업 필요)
+              </div>
+            )}
+
+            {(diff.programs.added.length > 0 || diff.programs.removed.length > 0) && (
+              <div className="flex flex-wrap gap-2">
+                {diff.programs.added.map((p) => (
+                  <span key={`+${p.programNo}`} className="px-2 py-1 text-xs rounded bg-green-900/30 text-green-400 font-mono">
+                    + {p.programNo}{p.lineCount !== undefined ? ` (${p.lineCount}줄)` : ''}
+                  </span>
+                ))}
+                {diff.programs.removed.map((p) => (
+                  <span key={`-${p.programNo}`} className="px-2 py-1 text-xs rounded bg-red-900/30 text-red-400 font-mono">
+                    − {p.programNo}{p.lineCount !== undefined ? ` (${p.lineCount}줄)` : ''}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {diff.programs.modified.map((m) => (
+              <ProgramDiff key={m.programNo} mod={m} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ── 프로그램 줄 diff (접기/펼치기) ─────────────────────────
+function ProgramDiff({ mod }: { mod: BackupProgramModification }) {
+  const [open, setOpen] = useState(true);
+
+  return (
+    <div className="border border-gray-700 rounded">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-3 px-3 py-2 bg-gray-700/50 text-left text-sm"
+      >
+        <span className="text-gray-400">{open ? '▾' : '▸'}</span>
+        <span className="font-mono font-medium">{mod.programNo}</span>
+        <span className="text-green-400 text-xs">+{mod.additions}</span>
+        <span className="text-red-400 text-xs">−{mod.deletions}</span>
+      </button>
+      {open && <DiffHunks hunks={mod.hunks} />}
+    </div>
+  );
+}
@@ -0,0 +1,397 @@
+// BackupSchedules - 자동 백업 스케줄 관리자 페이지 (/admin/backup-schedules)
+// 장비 / 위치 그룹 / 전체 대상 cron 백업, 가동 중·오프라인 장비는 서버가 재시도 후 실패 알림
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { usePermission } from '../hooks/usePermission';
+import { useMachineStore } from '../stores/machineStore';
+import { wsClient } from '../lib/wsClient';
+import {
+  backupScheduleApi,
+  type BackupSchedule,
+  type BackupScheduleInput,
+  type BackupFailedPayload,
+  type BackupType,
+} from '../lib/api';
+
+const TYPE_LABEL: Record<BackupType, string> = {
+  FULL: '전체',
+  SRAM: 'SRAM',
+  PARAMETER: '파라미터',
+  PROGRAM: '프로그램',
+};
+
+const CRON_PRESETS: { label: string; cron: string }[] = [
+  { label: '매일 02:00', cron: '0 2 * * *' },
+  { label: '매주 일요일 03:00', cron: '0 3 * * 0' },
+  { label: '평일 12:30', cron: '30 12 * * 1-5' },
+  { label: '매월 1일 04:00', cron: '0 4 1 * *' },
+];
+
+type TargetKind = 'all' | 'machine' | 'location';
+
+const inputCls =
+  'px-2 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:border-blue-500 focus:outline-none';
+
+const EMPTY_FORM = {
+  name: '',
+  type: 'PARAMETER' as BackupType,
+  cron: '0 2 * * *',
+  target: 'all' as TargetKind,
+  machineId: '',
+  location: '',
+  retryIntervalMin: 15,
+  maxRetries: 8,
+};
+
+function formatDateTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString('ko-KR', { hour12: false }) : '—';
+}
+
+function describeTarget(s: BackupSchedule): string {
+  if (s.machineId) return s.machineName ?? s.machineId;
+  if (s.location) return `위치: ${s.location}`;
+  return '전체 장비';
+}
+
+export function BackupSchedules() {
+  const machines = useMachineStore((s) => s.machines);
+
+  const [schedules, setSchedules] = useState<BackupSchedule[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [failures, setFailures] = useState<(BackupFailedPayload & { at: string })[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const canEdit = usePermission('backup.schedule');
+
+  const locations = useMemo(
+    () => [...new Set(machines.map((m) => m.location).filter((l): l is string => !!l))].sort(),
+    [machines],
+  );
+
+  const load = useCallback(async () => {
+    const res = await backupScheduleApi.getAll();
+    if (res.success && res.data) setSchedules(res.data);
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  // 재시도 대기 현황 갱신 + 실패 알림 수신
+  useEffect(() => {
+    const timer = setInterval(load, 30_000);
+    const unsubscribe = wsClient.onMessage((msg) => {
+      if (msg.type === 'backup_failed') {
+        const p = msg.payload as BackupFailedPayload;
+        setFailures((prev) => [{ ...p, at: msg.timestamp }, ...prev].slice(0, 20));
+        void load();
+      } else if (msg.type === 'backup_completed') {
+        void load();
+      }
+    });
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [load]);
+
+  const openCreate = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (s: BackupSchedule) => {
+    setForm({
+      name: s.name,
+      type: s.type,
+      cron: s.cron,
+      target: s.machineId ? 'machine' : s.location ? 'location' : 'all',
+      machineId: s.machineId ?? '',
+      location: s.location ?? '',
+      retryIntervalMin: s.retryIntervalMin,
+      maxRetries: s.maxRetries,
+    });
+    setEditingId(s.id);
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setMessage(null);
+    const data: BackupScheduleInput = {
+      name: form.name,
+      type: form.type,
+      cron: form.cron,
+      machineId: form.target === 'machine' ? form.machineId || null : null,
+      location: form.target === 'location' ? form.location || null : null,
+      retryIntervalMin: form.retryIntervalMin,
+      maxRetries: form.maxRetries,
+    };
+    const res = editingId ? await backupScheduleApi.update(editingId, data) : await backupScheduleApi.create(data);
+    if (!res.success) {
+      setError(res.error?.message ?? '저장 실패');
+      return;
+    }
+    setShowForm(false);
+    await load();
+  };
+
+  const handleToggle = async (s: BackupSchedule) => {
+    const res = await backupScheduleApi.update(s.id, { isEnabled: !s.isEnabled });
+    if (!res.success) setError(res.error?.message ?? '변경 실패');
+    await load();
+  };
+
+  const handleRunNow = async (s: BackupSchedule) => {
+    setError(null);
+    const res = await backupScheduleApi.runNow(s.id);
+    if (res.success && res.data) {
+      setMessage(`'${s.name}' 실행 요청 — 대상 ${res.data.queued}대`);
+      await load();
+    } else {
+      setError(res.error?.message ?? '실행 실패');
+    }
+  };
+
+  const handleDelete = async (s: BackupSchedule) => {
+    if (!confirm(`'${s.name}' 스케줄을 삭제하시겠습니까?\n생성된 백업 이력은 유지됩니다.`)) return;
+    const res = await backupScheduleApi.delete(s.id);
+    if (!res.success) setError(res.error?.message ?? '삭제 실패');
+    await load();
+  };
+
+  if (!canEdit) {
+    return (
+      <div className="p-6">
+        <div className="bg-red-900/20 text-red-400 p-6 rounded-lg">
+          관리자 또는 HQ 엔지니어만 접근할 수 있습니다.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6 bg-gray-900 min-h-full text-white">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold">자동 백업 스케줄</h1>
+          <p className="text-sm text-gray-400 mt-1">
+            가동 중이거나 오프라인인 장비는 재시도 간격마다 다시 시도하며, 최대 횟수 초과 시 실패로 알립니다.
+          </p>
+        </div>
+        <button onClick={openCreate} className="px-4 py-2 bg-blue-600 rounded hover:bg-blue-700 text-sm">
+          + 새 스케줄
+        </button>
+      </div>
+
+      {error && <div className="p-3 bg-red-900/30 text-red-400 rounded text-sm">{error}</div>}
+      {message && <div className="p-3 bg-green-900/30 text-green-400 rounded text-sm">{message}</div>}
+
+      {/* ── 편집 폼 ── */}
+      {showForm && (
+        <div className="bg-gray-800 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="text-xs text-gray-400">
+              스케줄명
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={`${inputCls} w-full mt-1`}
+                placeholder="예: 야간 파라미터 백업"
+              />
+            </label>
+            <label className="text-xs text-gray-400">
+              백업 유형
+              <select
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as BackupType })}
+                className={`${inputCls} w-full mt-1`}
+              >
+                {(Object.keys(TYPE_LABEL) as BackupType[]).map((t) => (
+                  <option key={t} value={t}>{TYPE_LABEL[t]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400">
+              cron (분 시 일 월 요일)
+              <input
+                value={form.cron}
+                onChange={(e) => setForm({ ...form, cron: e.target.value })}
+                className={`${inputCls} w-full mt-1 font-mono`}
+              />
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {CRON_PRESETS.map((p) => (
+              <button
+                key={p.cron}
+                type="button"
+                onClick={() => setForm({ ...form, cron: p.cron })}
+                className={`px-2 py-1 text-xs rounded ${
+                  form.cron === p.cron ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <label className="text-xs text-gray-400">
+              대상
+              <select
+                value={form.target}
+                onChange={(e) => setForm({ ...form, target: e.target.value as TargetKind })}
+                className={`${inputCls} w-full mt-1`}
+              >
+                <option value="all">전체 장비</option>
+                <option value="machine">장비 지정</option>
+                <option value="location">위치 그룹</option>
+              </select>
+            </label>
+            {form.target === 'machine' && (
+              <label className="text-xs text-gray-400">
+                장비
+                <select
+                  value={form.machineId}
+                  onChange={(e) => setForm({ ...form, machineId: e.target.value })}
+                  className={`${inputCls} w-full mt-1`}
+                >
+                  <option value="">선택</option>
+                  {machines.map((m) => (
+                    <option key={m.machineId} value={m.machineId}>{m.name} ({m.machineId})</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {form.target === 'location' && (
+              <label className="text-xs text-gray-400">
+                위치
+                <select
+                  value={form.location}
+                  onChange={(e) => setForm({ ...form, location: e.target.value })}
+                  className={`${inputCls} w-full mt-1`}
+                >
+                  <option value="">선택</option>
+                  {locations.map((l) => <option key={l} value={l}>{l}</option>)}
+                </select>
+              </label>
+            )}
+            <label className="text-xs text-gray-400">
+              재시도 간격 (분)
+              <input
+                type="number"
+                min={1}
+                value={form.retryIntervalMin}
+                onChange={(e) => setForm({ ...form, retryIntervalMin: parseInt(e.target.value) || 1 })}
+                className={`${inputCls} w-full mt-1`}
+              />
+            </label>
+            <label className="text-xs text-gray-400">
+              최대 재시도
+              <input
+                type="number"
+                min={0}
+                value={form.maxRetries}
+                onChange={(e) => setForm({ ...form, maxRetries: parseInt(e.target.value) || 0 })}
+                className={`${inputCls} w-full mt-1`}
+              />
+            </label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setShowForm(false)} className="px-3 py-1.5 text-sm text-gray-400 hover:text-gray-200">
+              취소
+            </button>
+            <button onClick={handleSave} className="px-4 py-1.5 text-sm bg-blue-600 rounded hover:bg-blue-700">
+              {editingId ? '수정' : '등록'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* ── 스케줄 목록 ── */}
+      <div className="bg-gray-800 rounded-lg overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-700 text-xs text-gray-400">
+            <tr>
+              <th className="px-3 py-2 text-left">사용</th>
+              <th className="px-3 py-2 text-left">스케줄</th>
+              <th className="px-3 py-2 text-left">유형</th>
+              <th className="px-3 py-2 text-left">대상</th>
+              <th className="px-3 py-2 text-left">cron</th>
+              <th className="px-3 py-2 text-left">최근 실행</th>
+              <th className="px-3 py-2 text-left">다음 실행</th>
+              <th className="px-3 py-2 text-left">재시도 대기</th>
+              <th className="px-3 py-2 text-right">작업</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700">
+            {schedules.length === 0 ? (
+              <tr>
+                <td colSpan={9} className="px-3 py-8 text-center text-gray-500">등록된 스케줄이 없습니다</td>
+              </tr>
+            ) : (
+              schedules.map((s) => (
+                <tr key={s.id} className={s.isEnabled ? '' : 'opacity-50'}>
+                  <td className="px-3 py-2">
+                    <input type="checkbox" checked={s.isEnabled} onChange={() => handleToggle(s)} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <div>{s.name}</div>
+                    <div className="text-xs text-gray-500">{s.createdBy}</div>
+                  </td>
+                  <td className="px-3 py-2">{TYPE_LABEL[s.type]}</td>
+                  <td className="px-3 py-2 text-gray-300">{describeTarget(s)}</td>
+                  <td className="px-3 py-2 font-mono text-xs">{s.cron}</td>
+                  <td className="px-3 py-2 text-xs text-gray-400">{formatDateTime(s.lastRunAt)}</td>
+                  <td className="px-3 py-2 text-xs text-gray-400">{formatDateTime(s.nextRunAt)}</td>
+                  <td className="px-3 py-2 text-xs">
+                    {s.pending.length === 0 ? (
+                      <span className="text-gray-600">—</span>
+                    ) : (
+                      s.pending.map((p) => (
+                        <div key={p.machineId} className="text-yellow-400" title={`다음 시도: ${formatDateTime(p.nextAttemptAt)}`}>
+                          {p.machineId} {p.attempts}/{s.maxRetries}{p.lastReason ? ` · ${p.lastReason}` : ''}
+                        </div>
+                      ))
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    <button onClick={() => handleRunNow(s)} className="text-xs text-green-400 hover:text-green-300 mr-3">
+                      지금 실행
+                    </button>
+                    <button onClick={() => openEdit(s)} className="text-xs text-blue-400 hover:text-blue-300 mr-3">
+                      수정
+                    </button>
+                    <button onClick={() => handleDelete(s)} className="text-xs text-red-400 hover:text-red-300">
+                      삭제
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* ── 실패 알림 (WS) ── */}
+      {failures.length > 0 && (
+        <div className="bg-gray-800 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-sm font-semibold text-red-400">자동 백업 실패</h2>
+            <button onClick={() => setFailures([])} className="text-xs text-gray-500 hover:text-gray-300">지우기</button>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {failures.map((f, i) => (
+              <li key={`${f.scheduleId}-${f.machineId}-${i}`} className="text-gray-300">
+                <span className="text-gray-500 text-xs mr-2">{formatDateTime(f.at)}</span>
+                {f.scheduleName} · {f.machineId} · {TYPE_LABEL[f.type]} — <span className="text-red-400">{f.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
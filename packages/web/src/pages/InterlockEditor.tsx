@@ -2,7 +2,7 @@
 // 페이지별 인터록 항목(PMC 주소 기반) 및 전체 활성화/비활성화 관리
 
 import { useState, useEffect } from 'react';
-import { useAuthStore } from '../stores/authStore';
+import { usePermission } from '../hooks/usePermission';
 import {
   useTemplateStore,
   type TopBarInterlockConfig,
@@ -34,7 +34,6 @@ function uid() {
 
 // ── Main Component ──────────────────────────────────────
 export function InterlockEditor() {
-  const user = useAuthStore((s) => s.user);
   const {
     templates,
     selectedTemplateId,
@@ -48,7 +47,7 @@ export function InterlockEditor() {
   const [dirty, setDirty] = useState(false);
   const [config, setConfig] = useState<TopBarInterlockConfig>(EMPTY_CONFIG);
 
-  const canEdit = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const canEdit = usePermission('template.edit');
 
   useEffect(() => { loadTemplates(); }, [loadTemplates]);
 
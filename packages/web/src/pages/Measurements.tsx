@@ -0,0 +1,592 @@
+// Measurements - 게이지 측정 / 마모 오프셋 보정 (/measurements)
+// - 측정 항목: 치수 기준치 · 공차 ↔ 공구 / 축 매핑, 보정 게인 · 불감대 · 자동 적용
+//   공구 / 축 없이 등록하면 SPC 전용 (제품 코드, 부분군 크기, NC 변수 주기 샘플링)
+// - 게이지 CSV 업로드 (게이지 PC 는 POST /api/measurements 로 직접 전송)
+// - 보정 제안 적용 (제어권 필요, 안전 한계 초과 시 승인) / 기각, 항목별 추세
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { usePermission } from '../hooks/usePermission';
+import { useMachineStore } from '../stores/machineStore';
+import { useTemplateStore, type CounterField } from '../stores/templateStore';
+import {
+  measurementApi,
+  type CorrectionStatus,
+  type MeasurementFeatureInfo,
+  type MeasurementFeatureInput,
+  type MeasurementInfo,
+  type OffsetApproval,
+} from '../lib/api';
+import { OffsetApprovalFields } from '../components/ncmonitor/OffsetApprovalFields';
+import { MeasurementTrend } from '../components/measurement/MeasurementTrend';
+
+const inputCls =
+  'px-2 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:border-blue-500 focus:outline-none';
+
+const EMPTY_FEATURE: MeasurementFeatureInput = {
+  name: '',
+  description: '',
+  nominal: 0,
+  lowerTol: -0.01,
+  upperTol: 0.01,
+  path: 1,
+  toolNo: 1,
+  axis: 'X',
+  gain: 1,
+  deadBand: 0,
+  autoApply: false,
+  isActive: true,
+  productCode: null,
+  subgroupSize: 5,
+  sampleVarKey: null,
+  sampleIntervalSec: null,
+};
+
+const STATUS_STYLE: Record<CorrectionStatus, { label: string; cls: string }> = {
+  NONE: { label: '-', cls: 'text-gray-600' },
+  PROPOSED: { label: '제안', cls: 'bg-yellow-900/60 text-yellow-300' },
+  APPLIED: { label: '적용됨', cls: 'bg-green-900/60 text-green-300' },
+  DISMISSED: { label: '기각', cls: 'bg-gray-700 text-gray-400' },
+  SUPERSEDED: { label: '대체됨', cls: 'bg-gray-800 text-gray-500' },
+};
+
+function formatSigned(v: number): string {
+  return `${v >= 0 ? '+' : ''}${v.toFixed(4)}`;
+}
+
+function formatTarget(toolNo: number | null, axis: string | null): string {
+  return toolNo === null ? 'SPC 전용' : `T${String(toolNo).padStart(2, '0')} ${axis}`;
+}
+
+// 승인 대기 중인 보정 적용 (안전 한계 초과)
+interface PendingApproval {
+  measurementId: string;
+  reason: string;
+  approval: OffsetApproval;
+}
+
+export function Measurements() {
+  const machines = useMachineStore((s) => s.machines);
+  const controlLockMap = useMachineStore((s) => s.controlLockMap);
+  const templates = useTemplateStore((s) => s.templates);
+  const loadTemplates = useTemplateStore((s) => s.loadTemplates);
+
+  const [machineId, setMachineId] = useState('');
+  const [features, setFeatures] = useState<MeasurementFeatureInfo[]>([]);
+  const [measurements, setMeasurements] = useState<MeasurementInfo[]>([]);
+  const [selectedFeatureId, setSelectedFeatureId] = useState<string | null>(null);
+  const [form, setForm] = useState<{ id: string | null; input: MeasurementFeatureInput } | null>(null);
+  const [pending, setPending] = useState<PendingApproval | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const canConfigure = usePermission('offsets.write', machineId || null);
+  const canRecord = usePermission('measurement.write', machineId || null);
+  const hasLock = !!(machineId && controlLockMap[machineId]?.isOwner);
+
+  useEffect(() => {
+    if (!machineId && machines.length > 0) setMachineId(machines[0].machineId);
+  }, [machines, machineId]);
+
+  useEffect(() => { if (templates.length === 0) loadTemplates(); }, [templates.length, loadTemplates]);
+
+  // 주기 샘플링 후보 — 장비 템플릿 CounterConfig 필드
+  const counterFields = useMemo(() => {
+    const templateId = machines.find((m) => m.machineId === machineId)?.template?.templateId;
+    return templates.find((t) => t.templateId === templateId)?.counterConfig?.fields ?? [];
+  }, [machines, machineId, templates]);
+
+  const load = useCallback(async () => {
+    if (!machineId) return;
+    const [featureRes, measurementRes] = await Promise.all([
+      measurementApi.features(machineId),
+      measurementApi.list(machineId, { limit: 500 }),
+    ]);
+    if (featureRes.success && featureRes.data) setFeatures(featureRes.data);
+    else setError(featureRes.error?.message ?? '측정 항목을 불러올 수 없습니다');
+    if (measurementRes.success && measurementRes.data) setMeasurements(measurementRes.data);
+    else setError(measurementRes.error?.message ?? '측정 기록을 불러올 수 없습니다');
+  }, [machineId]);
+
+  useEffect(() => {
+    setSelectedFeatureId(null);
+    setPending(null);
+    void load();
+  }, [load]);
+
+  const selectedFeature = features.find((f) => f.id === selectedFeatureId) ?? features[0] ?? null;
+  const featureMeasurements = useMemo(
+    () => (selectedFeature ? measurements.filter((m) => m.featureId === selectedFeature.id) : []),
+    [measurements, selectedFeature],
+  );
+  const proposals = measurements.filter((m) => m.correctionStatus === 'PROPOSED');
+
+  const handleSaveFeature = async () => {
+    if (!form) return;
+    setError(null);
+    const res = form.id
+      ? await measurementApi.updateFeature(form.id, form.input)
+      : await measurementApi.createFeature(machineId, form.input);
+    if (!res.success) {
+      setError(res.error?.message ?? '저장 실패');
+      return;
+    }
+    setForm(null);
+    await load();
+  };
+
+  const handleDeleteFeature = async (f: MeasurementFeatureInfo) => {
+    if (!confirm(`측정 항목 "${f.name}" 과(와) 측정 기록을 삭제합니다. 계속하시겠습니까?`)) return;
+    const res = await measurementApi.deleteFeature(f.id);
+    if (!res.success) setError(res.error?.message ?? '삭제 실패');
+    await load();
+  };
+
+  const handleUpload = async (file: File) => {
+    setUploading(true);
+    setError(null);
+    try {
+      const res = await measurementApi.uploadCsv(machineId, file);
+      if (!res.success || !res.data) {
+        setError(res.error?.message ?? '업로드 실패');
+        return;
+      }
+      const { recorded, proposed, applied, errors } = res.data;
+      setMessage(
+        `${recorded}건 기록 · 보정 제안 ${proposed}건 · 자동 적용 ${applied}건` +
+        (errors.length > 0 ? ` — 오류 ${errors.length}건: ${errors.slice(0, 3).map((e) => `${e.row}행 ${e.message}`).join(', ')}` : ''),
+      );
+      await load();
+    } catch {
+      setError('서버에 연결할 수 없습니다');
+    } finally {
+      setUploading(false);
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  // 보정 적용 — 안전 한계 초과(409 OFFSET_LIMIT_EXCEEDED)는 해당 행에서 승인 입력 후 재요청
+  const handleApply = async (m: MeasurementInfo, approval?: OffsetApproval) => {
+    setBusyId(m.id);
+    setError(null);
+    try {
+      const res = await measurementApi.apply(m.id, approval);
+      if (!res.success && res.error?.code === 'OFFSET_LIMIT_EXCEEDED') {
+        setPending({ measurementId: m.id, reason: res.error.message, approval: { username: '', password: '' } });
+        return;
+      }
+      if (!res.success) {
+        setError(res.error?.message ?? '보정 적용 실패');
+        return;
+      }
+      setPending(null);
+      setMessage(`${m.featureName}: ${formatTarget(m.toolNo, m.axis)} 마모 ${formatSigned(m.correction ?? 0)} 적용됨`);
+      await load();
+    } catch {
+      setError('서버에 연결할 수 없습니다');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDismiss = async (m: MeasurementInfo) => {
+    const note = prompt('기각 사유 (선택)');
+    if (note === null) return;
+    setBusyId(m.id);
+    const res = await measurementApi.dismiss(m.id, note || undefined);
+    setBusyId(null);
+    if (!res.success) setError(res.error?.message ?? '기각 실패');
+    await load();
+  };
+
+  return (
+    <div className="p-4 space-y-4 text-gray-200">
+      {/* 헤더 */}
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div>
+          <h1 className="text-xl font-semibold text-white">측정 보정</h1>
+          <p className="text-xs text-gray-500">게이지 측정값으로 공구 마모 오프셋 보정량을 계산합니다 — 제안을 검토해 적용하거나 항목별 자동 적용을 켭니다</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={machineId} onChange={(e) => setMachineId(e.target.value)} className={inputCls}>
+            {machines.map((m) => <option key={m.machineId} value={m.machineId}>{m.name} ({m.machineId})</option>)}
+          </select>
+          {canRecord && (
+            <>
+              <input
+                ref={fileRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => { const f = e.target.files?.[0]; if (f) void handleUpload(f); }}
+              />
+              <button
+                onClick={() => fileRef.current?.click()}
+                disabled={!machineId || uploading}
+                title="머리글: feature,value[,measuredAt][,sampleId][,productCode]"
+                className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-sm rounded disabled:opacity-50"
+              >
+                {uploading ? '업로드 중…' : 'CSV 업로드'}
+              </button>
+            </>
+          )}
+          {canConfigure && (
+            <button
+              onClick={() => setForm({ id: null, input: { ...EMPTY_FEATURE } })}
+              disabled={!machineId}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded disabled:opacity-50"
+            >
+              새 측정 항목
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="px-3 py-2 bg-red-900/40 border border-red-800 rounded text-sm text-red-300">{error}</div>}
+      {message && (
+        <div className="px-3 py-2 bg-green-900/30 border border-green-800 rounded text-sm text-green-300 flex justify-between">
+          <span>{message}</span>
+          <button onClick={() => setMessage(null)} className="text-green-500 hover:text-green-300">✕</button>
+        </div>
+      )}
+
+      {/* 측정 항목 */}
+      <div className="bg-gray-900 rounded-lg overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-400 border-b border-gray-700">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">항목</th>
+              <th className="px-3 py-2 text-left font-medium">기준치 / 공차</th>
+              <th className="px-3 py-2 text-left font-medium">보정 대상</th>
+              <th className="px-3 py-2 text-left font-medium">게인 / 불감대</th>
+              <th className="px-3 py-2 text-left font-medium">자동</th>
+              <th className="px-3 py-2 text-left font-medium">SPC</th>
+              <th className="px-3 py-2 text-right font-medium">작업</th>
+            </tr>
+          </thead>
+          <tbody>
+            {features.length === 0 && (
+              <tr><td colSpan={7} className="px-3 py-6 text-center text-gray-500">등록된 측정 항목이 없습니다</td></tr>
+            )}
+            {features.map((f) => (
+              <tr
+                key={f.id}
+                onClick={() => setSelectedFeatureId(f.id)}
+                className={`border-b border-gray-800 cursor-pointer ${selectedFeature?.id === f.id ? 'bg-gray-800' : 'hover:bg-gray-800/50'} ${f.isActive ? '' : 'opacity-50'}`}
+              >
+                <td className="px-3 py-2">
+                  <div className="font-mono text-gray-200">{f.name}</div>
+                  {f.description && <div className="text-xs text-gray-500">{f.description}</div>}
+                </td>
+                <td className="px-3 py-2 font-mono text-xs">
+                  {f.nominal.toFixed(4)} <span className="text-gray-500">{formatSigned(f.upperTol)} / {formatSigned(f.lowerTol)}</span>
+                </td>
+                <td className={`px-3 py-2 font-mono text-xs ${f.toolNo === null ? 'text-gray-500' : 'text-cyan-400'}`}>
+                  {f.toolNo === null ? formatTarget(null, null) : `P${f.path} ${formatTarget(f.toolNo, f.axis)}`}
+                </td>
+                <td className="px-3 py-2 font-mono text-xs text-gray-400">{f.gain} / {f.deadBand.toFixed(4)}</td>
+                <td className="px-3 py-2 text-xs">{f.autoApply ? <span className="text-green-400">ON</span> : <span className="text-gray-600">OFF</span>}</td>
+                <td className="px-3 py-2 text-xs text-gray-400">
+                  <div>{f.productCode ?? '-'} · n={f.subgroupSize}</div>
+                  {f.sampleVarKey && <div className="text-gray-500">샘플링 {f.sampleVarKey} / {f.sampleIntervalSec}초</div>}
+                </td>
+                <td className="px-3 py-2 text-right whitespace-nowrap space-x-3 text-xs" onClick={(e) => e.stopPropagation()}>
+                  {canConfigure && (
+                    <>
+                      <button
+                        onClick={() => {
+                          const {
+                            id, name, description, nominal, lowerTol, upperTol, path, toolNo, axis, gain, deadBand, autoApply, isActive,
+                            productCode, subgroupSize, sampleVarKey, sampleIntervalSec,
+                          } = f;
+                          setForm({
+                            id,
+                            input: {
+                              name, description, nominal, lowerTol, upperTol, path, toolNo, axis, gain, deadBand, autoApply, isActive,
+                              productCode, subgroupSize, sampleVarKey, sampleIntervalSec,
+                            },
+                          });
+                        }}
+                        className="text-gray-300 hover:text-white"
+                      >
+                        수정
+                      </button>
+                      <button onClick={() => { void handleDeleteFeature(f); }} className="text-red-400 hover:text-red-300">삭제</button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* 추세 */}
+      {selectedFeature && (
+        <div className="bg-gray-900 rounded-lg">
+          <div className="px-3 py-2 border-b border-gray-700 text-sm font-semibold">
+            추세 · <span className="font-mono">{selectedFeature.name}</span>
+            <span className="ml-2 text-xs font-normal text-gray-500">최근 {featureMeasurements.length}건 · 파란 선 = 보정 적용</span>
+          </div>
+          <div className="p-3">
+            <MeasurementTrend feature={selectedFeature} measurements={featureMeasurements} />
+          </div>
+        </div>
+      )}
+
+      {/* 측정 기록 / 보정 제안 */}
+      <div className="bg-gray-900 rounded-lg overflow-hidden">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+          <div className="text-sm font-semibold">
+            측정 기록
+            {proposals.length > 0 && <span className="ml-2 text-xs text-yellow-400">보정 제안 {proposals.length}건</span>}
+          </div>
+          <div className="flex items-center gap-3 text-xs">
+            {canConfigure && !hasLock && proposals.length > 0 && <span className="text-yellow-500">보정을 적용하려면 제어권이 필요합니다</span>}
+            <button onClick={() => { void load(); }} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded">새로고침</button>
+          </div>
+        </div>
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-400 border-b border-gray-700">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">측정 시각</th>
+              <th className="px-3 py-2 text-left font-medium">항목</th>
+              <th className="px-3 py-2 text-right font-medium">측정값</th>
+              <th className="px-3 py-2 text-right font-medium">편차</th>
+              <th className="px-3 py-2 text-right font-medium">보정량</th>
+              <th className="px-3 py-2 text-left font-medium">상태</th>
+              <th className="px-3 py-2 text-right font-medium">작업</th>
+            </tr>
+          </thead>
+          <tbody>
+            {measurements.length === 0 && (
+              <tr><td colSpan={7} className="px-3 py-6 text-center text-gray-500">측정 기록이 없습니다</td></tr>
+            )}
+            {measurements.slice(0, 100).map((m) => (
+              <tr key={m.id} className="border-b border-gray-800 align-top">
+                <td className="px-3 py-2 text-xs text-gray-400 whitespace-nowrap">
+                  {new Date(m.measuredAt).toLocaleString('ko-KR', { hour12: false })}
+                  {m.sampleId && <div className="font-mono text-gray-600">{m.sampleId}</div>}
+                </td>
+                <td className="px-3 py-2 font-mono text-xs">
+                  {m.featureName}
+                  <span className={`ml-1.5 ${m.toolNo === null ? 'text-gray-500' : 'text-cyan-500'}`}>{formatTarget(m.toolNo, m.axis)}</span>
+                  {m.productCode && <div className="text-gray-500">{m.productCode}</div>}
+                </td>
+                <td className={`px-3 py-2 text-right font-mono ${m.inTolerance ? 'text-gray-200' : 'text-red-400'}`}>{m.value.toFixed(4)}</td>
+                <td className="px-3 py-2 text-right font-mono text-xs text-gray-400">{formatSigned(m.deviation)}</td>
+                <td className="px-3 py-2 text-right font-mono text-xs">{m.correction !== null ? formatSigned(m.correction) : '-'}</td>
+                <td className="px-3 py-2 text-xs">
+                  <span className={`px-1.5 py-0.5 rounded ${STATUS_STYLE[m.correctionStatus].cls}`}>{STATUS_STYLE[m.correctionStatus].label}</span>
+                  {m.correctionNote && <div className="mt-1 text-gray-500">{m.correctionNote}</div>}
+                </td>
+                <td className="px-3 py-2 text-right whitespace-nowrap text-xs">
+                  {m.correctionStatus === 'PROPOSED' && canConfigure && (
+                    <div className="space-x-3">
+                      <button
+                        onClick={() => { setPending(null); void handleApply(m); }}
+                        disabled={!hasLock || busyId !== null}
+                        className="text-blue-400 hover:text-blue-300 disabled:opacity-40"
+                      >
+                        {busyId === m.id ? '적용 중…' : '적용'}
+                      </button>
+                      <button
+                        onClick={() => { void handleDismiss(m); }}
+                        disabled={busyId !== null}
+                        className="text-gray-400 hover:text-gray-200 disabled:opacity-40"
+                      >
+                        기각
+                      </button>
+                    </div>
+                  )}
+                  {pending?.measurementId === m.id && (
+                    <div className="mt-2 w-56 ml-auto text-left space-y-1.5">
+                      <OffsetApprovalFields
+                        reason={pending.reason}
+                        value={pending.approval}
+                        onChange={(approval) => setPending({ ...pending, approval })}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button onClick={() => setPending(null)} className="text-gray-400 hover:text-gray-200">취소</button>
+                        <button
+                          onClick={() => { void handleApply(m, pending.approval); }}
+                          disabled={busyId !== null || !pending.approval.username || !pending.approval.password}
+                          className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                        >
+                          승인 후 적용
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {form && (
+        <FeatureForm
+          editing={form.id !== null}
+          input={form.input}
+          counterFields={counterFields}
+          onChange={(input) => setForm({ ...form, input })}
+          onSubmit={() => { void handleSaveFeature(); }}
+          onClose={() => setForm(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+// ── 측정 항목 등록 / 수정 ──────────────────────────────────────
+
+interface FeatureFormProps {
+  editing: boolean;
+  input: MeasurementFeatureInput;
+  counterFields: CounterField[];
+  onChange: (input: MeasurementFeatureInput) => void;
+  onSubmit: () => void;
+  onClose: () => void;
+}
+
+function FeatureForm({ editing, input, counterFields, onChange, onSubmit, onClose }: FeatureFormProps) {
+  const set = <K extends keyof MeasurementFeatureInput>(key: K, value: MeasurementFeatureInput[K]) =>
+    onChange({ ...input, [key]: value });
+  const num = (key: 'nominal' | 'lowerTol' | 'upperTol' | 'gain' | 'deadBand' | 'path' | 'subgroupSize') => (
+    <input
+      type="number"
+      step={key === 'path' || key === 'subgroupSize' ? 1 : 0.001}
+      value={Number.isFinite(input[key]) ? input[key] : ''}
+      onChange={(e) => set(key, parseFloat(e.target.value))}
+      className={`${inputCls} w-full font-mono`}
+    />
+  );
+  const hasTarget = input.toolNo !== null;
+  const sampling = input.sampleVarKey !== null;
+  const valid = /^[A-Za-z0-9_.\-]{1,40}$/.test(input.name) && input.lowerTol <= input.upperTol
+    && [input.nominal, input.gain, input.deadBand, input.path].every(Number.isFinite)
+    && (!hasTarget || (Number.isInteger(input.toolNo) && input.toolNo! >= 1 && input.toolNo! <= 64))
+    && Number.isInteger(input.subgroupSize) && input.subgroupSize >= 2 && input.subgroupSize <= 10
+    && (!sampling || (input.sampleVarKey !== '' && Number.isInteger(input.sampleIntervalSec) && input.sampleIntervalSec! >= 10));
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-lg w-[32rem] max-w-[95vw] p-4 space-y-3 text-sm" onClick={(e) => e.stopPropagation()}>
+        <div className="font-semibold text-white">{editing ? '측정 항목 수정' : '새 측정 항목'}</div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="col-span-2 space-y-1">
+            <span className="text-xs text-gray-400">항목 키 (게이지 출력의 feature — 영문 / 숫자 / _ . -)</span>
+            <input value={input.name} onChange={(e) => set('name', e.target.value)} className={`${inputCls} w-full font-mono`} />
+          </label>
+          <label className="col-span-2 space-y-1">
+            <span className="text-xs text-gray-400">설명</span>
+            <input value={input.description ?? ''} onChange={(e) => set('description', e.target.value)} className={`${inputCls} w-full`} />
+          </label>
+          <label className="space-y-1"><span className="text-xs text-gray-400">기준치</span>{num('nominal')}</label>
+          <div />
+          <label className="space-y-1"><span className="text-xs text-gray-400">상한 공차 (+)</span>{num('upperTol')}</label>
+          <label className="space-y-1"><span className="text-xs text-gray-400">하한 공차 (−)</span>{num('lowerTol')}</label>
+          <label className="col-span-2 flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={hasTarget}
+              onChange={(e) => onChange(e.target.checked
+                ? { ...input, toolNo: 1, axis: 'X' }
+                : { ...input, toolNo: null, axis: null, autoApply: false })}
+            />
+            마모 오프셋 보정 대상 지정 (해제 = SPC 전용 항목)
+          </label>
+          {hasTarget && (
+            <>
+              <label className="space-y-1"><span className="text-xs text-gray-400">PATH</span>{num('path')}</label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400">공구 번호</span>
+                <input
+                  type="number"
+                  step={1}
+                  value={input.toolNo ?? ''}
+                  onChange={(e) => set('toolNo', parseInt(e.target.value))}
+                  className={`${inputCls} w-full font-mono`}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400">마모 축</span>
+                <select value={input.axis ?? 'X'} onChange={(e) => set('axis', e.target.value as MeasurementFeatureInput['axis'])} className={`${inputCls} w-full`}>
+                  {(['X', 'Y', 'Z', 'R'] as const).map((a) => <option key={a} value={a}>{a}</option>)}
+                </select>
+              </label>
+              <div />
+              <label className="space-y-1"><span className="text-xs text-gray-400">게인 (보정량 = −편차 × 게인)</span>{num('gain')}</label>
+              <label className="space-y-1"><span className="text-xs text-gray-400">불감대 (|편차| 이하 무시)</span>{num('deadBand')}</label>
+            </>
+          )}
+        </div>
+
+        {hasTarget && (
+          <label className="flex items-center gap-2 text-xs">
+            <input type="checkbox" checked={input.autoApply} onChange={(e) => set('autoApply', e.target.checked)} />
+            자동 적용 — 공차 안 측정값의 보정을 즉시 오프셋에 씁니다 (안전 한계 초과 시 제안으로 보류)
+          </label>
+        )}
+
+        <div className="pt-1 border-t border-gray-800 grid grid-cols-2 gap-3">
+          <div className="col-span-2 text-xs text-gray-400 pt-2">SPC</div>
+          <label className="space-y-1">
+            <span className="text-xs text-gray-400">기본 제품 코드 (작업지시 없을 때)</span>
+            <input
+              value={input.productCode ?? ''}
+              onChange={(e) => set('productCode', e.target.value || null)}
+              className={`${inputCls} w-full font-mono`}
+            />
+          </label>
+          <label className="space-y-1"><span className="text-xs text-gray-400">X̄-R 부분군 크기 (2~10)</span>{num('subgroupSize')}</label>
+          <label className="space-y-1">
+            <span className="text-xs text-gray-400">주기 샘플링 변수 (카운터 필드)</span>
+            <select
+              value={input.sampleVarKey ?? ''}
+              onChange={(e) => onChange(e.target.value
+                ? { ...input, sampleVarKey: e.target.value, sampleIntervalSec: input.sampleIntervalSec ?? 60 }
+                : { ...input, sampleVarKey: null, sampleIntervalSec: null })}
+              className={`${inputCls} w-full`}
+            >
+              <option value="">사용 안 함</option>
+              {input.sampleVarKey && !counterFields.some((f) => f.key === input.sampleVarKey) && (
+                <option value={input.sampleVarKey}>{input.sampleVarKey} (템플릿에 없음)</option>
+              )}
+              {counterFields.map((f) => (
+                <option key={f.key} value={f.key}>{f.label} ({f.varType === 'macro' ? '#' : 'P'}{f.varNo})</option>
+              ))}
+            </select>
+          </label>
+          {sampling && (
+            <label className="space-y-1">
+              <span className="text-xs text-gray-400">샘플링 주기 (초, 10 이상)</span>
+              <input
+                type="number"
+                step={1}
+                value={input.sampleIntervalSec ?? ''}
+                onChange={(e) => set('sampleIntervalSec', parseInt(e.target.value))}
+                className={`${inputCls} w-full font-mono`}
+              />
+            </label>
+          )}
+        </div>
+        <label className="flex items-center gap-2 text-xs">
+          <input type="checkbox" checked={input.isActive} onChange={(e) => set('isActive', e.target.checked)} />
+          사용
+        </label>
+
+        <div className="flex justify-end gap-2 pt-1">
+          <button onClick={onClose} className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded">취소</button>
+          <button onClick={onSubmit} disabled={!valid} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50">
+            저장
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
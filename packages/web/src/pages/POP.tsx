@@ -2,9 +2,15 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useMachineStore } from '../stores/machineStore';
-import { productionApi } from '../lib/api';
+import { productionApi, downtimeApi, DowntimePareto, OeeGroupBy, OeeReport, ProductionTimeRange as TimeRange } from '../lib/api';
+import { DowntimePanel } from '../components/DowntimePanel';
+import { ManualMeasurementForm } from '../components/measurement/ManualMeasurementForm';
+import { formatDuration } from '../lib/machineUtils';
 
-type TimeRange = 'today' | 'week' | 'month';
+// 기간 경계(생산일/교대 시작)는 서버 교대 설정 기준으로 계산
+const DEFAULT_GROUP_BY: Record<TimeRange, OeeGroupBy> = { shift: 'shift', today: 'shift', week: 'day', month: 'week' };
+const GROUP_BY_LABEL: Record<OeeGroupBy, string> = { shift: '교대별', day: '일별', week: '주별' };
+const TIME_RANGE_LABEL: Record<TimeRange, string> = { shift: '현재 교대', today: '오늘', week: '이번 주', month: '이번 달' };
 
 interface ProductionStats {
   machineId: string;
@@ -36,6 +42,9 @@ export function POP() {
   const [chartData, setChartData] = useState<ProductionChart[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedMachine, setSelectedMachine] = useState(selectedMachineId || '');
+  const [groupBy, setGroupBy] = useState<OeeGroupBy>(DEFAULT_GROUP_BY.today);
+  const [oeeReport, setOeeReport] = useState<OeeReport | null>(null);
+  const [pareto, setPareto] = useState<DowntimePareto | null>(null);
 
   // Load production stats
   const loadStats = useCallback(async () => {
@@ -59,10 +68,49 @@ export function POP() {
     }
   }, [timeRange, selectedMachine]);
 
+  // Load OEE breakdown
+  const loadOee = useCallback(async () => {
+    try {
+      const response = await productionApi.getOee({
+        machineId: selectedMachine || undefined,
+        timeRange,
+        groupBy,
+      });
+      setOeeReport(response.success && response.data ? response.data : null);
+    } catch (err) {
+      console.error('Failed to load OEE:', err);
+      setOeeReport(null);
+    }
+  }, [timeRange, selectedMachine, groupBy]);
+
+  // Load downtime Pareto
+  const loadPareto = useCallback(async () => {
+    try {
+      const response = await downtimeApi.getPareto({ machineId: selectedMachine || undefined, timeRange });
+      setPareto(response.success && response.data ? response.data : null);
+    } catch (err) {
+      console.error('Failed to load downtime pareto:', err);
+      setPareto(null);
+    }
+  }, [timeRange, selectedMachine]);
+
   useEffect(() => {
     loadStats();
   }, [loadStats]);
 
+  useEffect(() => {
+    loadPareto();
+  }, [loadPareto]);
+
+  useEffect(() => {
+    loadOee();
+  }, [loadOee]);
+
+  const handleTimeRange = (range: TimeRange) => {
+    setTimeRange(range);
+    setGroupBy(DEFAULT_GROUP_BY[range]);
+  };
+
   // Calculate totals
   const totals = stats.reduce(
     (acc, s) => ({
@@ -107,23 +155,23 @@ export function POP() {
           </select>
 
           <div className="flex rounded-lg overflow-hidden border border-gray-300 dark:border-gray-600">
-            {(['today', 'week', 'month'] as TimeRange[]).map((range) => (
+            {(['shift', 'today', 'week', 'month'] as TimeRange[]).map((range) => (
               <button
                 key={range}
-                onClick={() => setTimeRange(range)}
+                onClick={() => handleTimeRange(range)}
                 className={`px-4 py-2 text-sm font-medium transition-colors ${
                   timeRange === range
                     ? 'bg-blue-600 text-white'
                     : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100'
                 }`}
               >
-                {range === 'today' ? '오늘' : range === 'week' ? '이번 주' : '이번 달'}
+                {TIME_RANGE_LABEL[range]}
               </button>
             ))}
           </div>
 
           <button
-            onClick={loadStats}
+            onClick={() => { loadStats(); loadOee(); loadPareto(); }}
             className="px-4 py-2 text-gray-600 hover:text-gray-900 dark:text-gray-400"
           >
             새로고침
@@ -163,6 +211,31 @@ export function POP() {
         />
       </div>
 
+      {/* OEE Breakdown by Period */}
+      <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            OEE 상세 ({GROUP_BY_LABEL[groupBy]})
+          </h2>
+          <div className="flex rounded-lg overflow-hidden border border-gray-300 dark:border-gray-600">
+            {(['shift', 'day', 'week'] as OeeGroupBy[]).map((g) => (
+              <button
+                key={g}
+                onClick={() => setGroupBy(g)}
+                className={`px-3 py-1.5 text-sm font-medium transition-colors ${
+                  groupBy === g
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100'
+                }`}
+              >
+                {GROUP_BY_LABEL[g]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <OEEPeriodTable report={oeeReport} />
+      </div>
+
       {/* Main Content */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Production Chart */}
@@ -178,22 +251,17 @@ export function POP() {
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
             OEE 구성요소
           </h2>
-          {stats.length > 0 ? (
+          {oeeReport ? (
             <div className="space-y-4">
-              <OEEGauge
-                label="가동률 (Availability)"
-                value={stats.reduce((s, stat) => s + stat.availability, 0) / stats.length}
-              />
-              <OEEGauge
-                label="성능 (Performance)"
-                value={stats.reduce((s, stat) => s + stat.performance, 0) / stats.length}
-              />
-              <OEEGauge
-                label="품질 (Quality)"
-                value={stats.reduce((s, stat) => s + stat.quality, 0) / stats.length}
-              />
+              <OEEGauge label="가동률 (Availability)" value={oeeReport.summary.availability} />
+              <OEEGauge label="성능 (Performance)" value={oeeReport.summary.performance} />
+              <OEEGauge label="품질 (Quality)" value={oeeReport.summary.quality} />
               <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
-                <OEEGauge label="OEE" value={avgOEE} highlight />
+                <OEEGauge label="OEE" value={oeeReport.summary.oee} highlight />
+              </div>
+              <div className="text-xs text-gray-500 space-y-1">
+                <div>가동 {oeeReport.summary.runTime}분 / 계획 {oeeReport.summary.plannedTime}분</div>
+                <div>양품 {oeeReport.summary.goodParts.toLocaleString()} / 불량 {oeeReport.summary.scrapParts.toLocaleString()}</div>
               </div>
             </div>
           ) : (
@@ -260,6 +328,91 @@ export function POP() {
           </tbody>
         </table>
       </div>
+
+      {/* Downtime */}
+      <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            비가동 Pareto
+          </h2>
+          <DowntimeParetoChart pareto={pareto} />
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            비가동 사유 입력
+          </h2>
+          <DowntimePanel machineId={selectedMachine || undefined} timeRange={timeRange} />
+        </div>
+      </div>
+
+      {/* Manual measurement (SPC) */}
+      <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          측정값 입력
+        </h2>
+        {selectedMachine ? (
+          <ManualMeasurementForm machineId={selectedMachine} />
+        ) : (
+          <div className="text-center text-gray-500 py-6 text-sm">장비를 선택하세요</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Downtime Pareto (사유별 / 장비별 — 시간 내림차순 + 누적 비율)
+function DowntimeParetoChart({ pareto }: { pareto: DowntimePareto | null }) {
+  const [view, setView] = useState<'reason' | 'machine'>('reason');
+
+  if (!pareto || pareto.totalSec === 0) {
+    return <div className="text-center text-gray-500 py-8">비가동 기록 없음</div>;
+  }
+
+  const rows = view === 'reason' ? pareto.byReason : pareto.byMachine;
+  const max = rows[0]?.durationSec || 1;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm text-gray-500">
+          총 {formatDuration(pareto.totalSec)} · {pareto.eventCount}건
+        </span>
+        <div className="flex rounded-lg overflow-hidden border border-gray-300 dark:border-gray-600">
+          {(['reason', 'machine'] as const).map((v) => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-3 py-1 text-xs font-medium ${
+                view === v
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              {v === 'reason' ? '사유별' : '장비별'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        {rows.map((row) => (
+          <div key={row.key}>
+            <div className="flex justify-between text-sm mb-1">
+              <span className={row.key === 'UNTAGGED' ? 'text-yellow-600' : 'text-gray-700 dark:text-gray-300'}>
+                {row.label}
+              </span>
+              <span className="text-gray-500 text-xs">
+                {formatDuration(row.durationSec)} · {row.count}건 · {row.percent}% (누적 {row.cumulativePercent}%)
+              </span>
+            </div>
+            <div className="h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${row.color ? '' : row.key === 'UNTAGGED' ? 'bg-yellow-400' : 'bg-blue-500'}`}
+                style={{ width: `${(row.durationSec / max) * 100}%`, ...(row.color && { backgroundColor: row.color }) }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
@@ -349,6 +502,46 @@ function OEEGauge({
   );
 }
 
+// OEE Period Table Component
+function OEEPeriodTable({ report }: { report: OeeReport | null }) {
+  const periods = report?.periods.filter((p) => p.plannedTime > 0) ?? [];
+
+  if (periods.length === 0) {
+    return <div className="px-6 py-8 text-center text-gray-500">데이터 없음</div>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="bg-gray-50 dark:bg-gray-700">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">기간</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">가동/계획(분)</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">양품/생산</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">가동률</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">성능</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">품질</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">OEE</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+          {periods.map((p) => (
+            <tr key={p.start} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+              <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{p.label}</td>
+              <td className="px-4 py-2 text-right font-mono text-sm">{p.runTime} / {p.plannedTime}</td>
+              <td className="px-4 py-2 text-right font-mono text-sm">{p.goodParts} / {p.totalParts}</td>
+              <td className="px-4 py-2 text-right"><PercentBadge value={p.availability} /></td>
+              <td className="px-4 py-2 text-right"><PercentBadge value={p.performance} /></td>
+              <td className="px-4 py-2 text-right"><PercentBadge value={p.quality} /></td>
+              <td className="px-4 py-2 text-right"><PercentBadge value={p.oee} highlight /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 // Percent Badge Component
 function PercentBadge({ value, highlight }: { value: number; highlight?: boolean }) {
   const getColor = (v: number) => {
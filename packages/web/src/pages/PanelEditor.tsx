@@ -2,7 +2,7 @@
 // 그룹/키를 자유롭게 구성하고 CncTemplate.panelLayout에 저장
 
 import { useState, useEffect, useCallback } from 'react';
-import { useAuthStore } from '../stores/authStore';
+import { usePermission } from '../hooks/usePermission';
 import {
   useTemplateStore,
   PanelGroup,
@@ -105,7 +105,6 @@ const NAME_COLOR_OPTIONS: { value: GroupNameColor; label: string; cls: string }[
 
 // ── Main Component ──────────────────────────────────────
 export function PanelEditor() {
-  const user = useAuthStore((s) => s.user);
   const {
     templates,
     selectedTemplateId,
@@ -120,7 +119,7 @@ export function PanelEditor() {
   const [selectedKeyId, setSelectedKeyId] = useState<string | null>(null);
   const [dirty, setDirty] = useState(false);
 
-  const canEdit = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const canEdit = usePermission('template.edit');
 
   // 초기 로드
   useEffect(() => {
@@ -0,0 +1,554 @@
+// ProgramLibrary - 제품 코드별 장비 공용 프로그램 라이브러리 (/library)
+// - 라이브러리 프로그램 목록 (리비전 / 상태 / 호환 템플릿 · 장비), G-Code 뷰어로 편집 · 이력 · 승인 / 릴리스
+// - 배포 현황: 프로그램 × 호환 장비 (CNC 프로그램 목록 + 배포 기록 기준, 구버전 장비 표시)
+// - 배포 = 호환 장비로 PC→CNC 전송 (릴리스된 프로그램만)
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { usePermission } from '../hooks/usePermission';
+import { useAuthStore } from '../stores/authStore';
+import { useMachineStore } from '../stores/machineStore';
+import { useFileStore, useViewer } from '../stores/fileStore';
+import { hasAnyScope, hasPermission } from '../lib/permissions';
+import {
+  libraryApi,
+  type DeploymentMatrix as Matrix,
+  type LibraryMachine,
+  type LibraryProgramInfo,
+  type LibraryProgramInput,
+  type TransferJobInfo,
+} from '../lib/api';
+import { GCodeViewer } from '../components/filemanager/GCodeViewer';
+import { ProgramStatusBadge } from '../components/filemanager/ProgramStatusBadge';
+import { DeploymentMatrix, DEPLOYMENT_STATE_STYLE } from '../components/library/DeploymentMatrix';
+
+const inputCls =
+  'px-2 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:border-blue-500 focus:outline-none';
+
+const EMPTY_FORM: LibraryProgramInput = {
+  productCode: '',
+  fileName: '',
+  content: '',
+  message: '',
+  compatibleTemplates: [],
+  compatibleMachines: [],
+};
+
+function toggle(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+export function ProgramLibrary() {
+  const machines = useMachineStore((s) => s.machines);
+  const grants = useAuthStore((s) => s.permissions);
+  const transferQueue = useFileStore((s) => s.transferQueue);
+  const applyTransferJob = useFileStore((s) => s.applyTransferJob);
+  const openFile = useFileStore((s) => s.openFile);
+  const viewer = useViewer();
+
+  const canEdit = usePermission('program.edit');
+  const canDeploy = hasAnyScope(grants, 'transfer.pc_to_cnc');
+
+  const [programs, setPrograms] = useState<LibraryProgramInfo[]>([]);
+  const [productCode, setProductCode] = useState('');
+  const [matrix, setMatrix] = useState<Matrix | null>(null);
+  const [matrixLoading, setMatrixLoading] = useState(false);
+  const [form, setForm] = useState<LibraryProgramInput | null>(null);
+  const [compatTarget, setCompatTarget] = useState<LibraryProgramInfo | null>(null);
+  const [deployTarget, setDeployTarget] = useState<{ program: LibraryProgramInfo; preselect: string[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // 호환 템플릿 후보 — 등록 장비의 템플릿
+  const templates = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const m of machines) if (m.template) byId.set(m.template.templateId, m.template.name);
+    return [...byId.entries()].map(([templateId, name]) => ({ templateId, name })).sort((a, b) => a.templateId.localeCompare(b.templateId));
+  }, [machines]);
+
+  const productCodes = useMemo(() => [...new Set(programs.map((p) => p.productCode))], [programs]);
+  const visiblePrograms = productCode ? programs.filter((p) => p.productCode === productCode) : programs;
+
+  const load = useCallback(async () => {
+    const res = await libraryApi.list();
+    if (res.success && res.data) setPrograms(res.data);
+    else setError(res.error?.message ?? '라이브러리를 불러올 수 없습니다');
+  }, []);
+
+  // 배포 현황 — 호환 장비마다 CNC 목록 조회 (수 초 소요)
+  const loadMatrix = useCallback(async () => {
+    setMatrixLoading(true);
+    try {
+      const res = await libraryApi.deployments(productCode || undefined);
+      if (res.success && res.data) setMatrix(res.data);
+      else setError(res.error?.message ?? '배포 현황을 불러올 수 없습니다');
+    } catch {
+      setError('서버에 연결할 수 없습니다');
+    } finally {
+      setMatrixLoading(false);
+    }
+  }, [productCode]);
+
+  useEffect(() => { void load(); }, [load]);
+  useEffect(() => { void loadMatrix(); }, [loadMatrix]);
+
+  // 뷰어에서 저장 / 승인 / 릴리스 후 닫으면 목록 갱신
+  const viewerWasOpen = useRef(false);
+  useEffect(() => {
+    if (viewerWasOpen.current && !viewer.isOpen) void load();
+    viewerWasOpen.current = viewer.isOpen;
+  }, [viewer.isOpen, load]);
+
+  // 라이브러리 배포 작업 — 진행 중 표시, 완료(확인)되면 배포 현황 갱신
+  const libraryJobs = useMemo(() => transferQueue.filter((j) => j.root === 'LIBRARY'), [transferQueue]);
+  const activeJobs = libraryJobs.filter((j) => j.status === 'QUEUED' || j.status === 'SENDING' || j.status === 'ACKNOWLEDGED');
+  const settledJobs = useRef(new Set<string>());
+  useEffect(() => {
+    const fresh = libraryJobs.filter((j) => j.status === 'VERIFIED' && !settledJobs.current.has(j.id));
+    if (fresh.length === 0) return;
+    fresh.forEach((j) => settledJobs.current.add(j.id));
+    void loadMatrix();
+  }, [libraryJobs, loadMatrix]);
+
+  const staleCount = matrix?.cells.filter((c) => c.state === 'STALE' || c.state === 'OVERWRITTEN' || c.state === 'MISSING').length ?? 0;
+
+  const handleOpen = async (p: LibraryProgramInfo) => {
+    setError(await openFile(p.fileName, 'LIBRARY', !canEdit, undefined, p.productCode));
+  };
+
+  const handleCreate = async () => {
+    if (!form) return;
+    setError(null);
+    const res = await libraryApi.create(form);
+    if (!res.success || !res.data) {
+      setError(res.error?.message ?? '등록 실패');
+      return;
+    }
+    setForm(null);
+    setMessage(`${res.data.productCode}/${res.data.fileName} 등록됨 — 승인 / 릴리스 후 배포할 수 있습니다`);
+    await load();
+    void loadMatrix();
+  };
+
+  const handleDeployed = (count: number) => {
+    setDeployTarget(null);
+    setMessage(`${count}대 장비로 배포를 시작했습니다`);
+  };
+
+  const openDeploy = (programId: string, machineId?: string) => {
+    const program = programs.find((p) => p.id === programId);
+    if (program) setDeployTarget({ program, preselect: machineId ? [machineId] : [] });
+  };
+
+  return (
+    <div className="p-4 space-y-4 text-gray-200">
+      <GCodeViewer />
+
+      {/* 헤더 */}
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div>
+          <h1 className="text-xl font-semibold text-white">프로그램 라이브러리</h1>
+          <p className="text-xs text-gray-500">제품 코드별 공용 파트 프로그램 — 호환 장비로 배포하고 장비별 배포 리비전을 추적합니다</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={productCode} onChange={(e) => setProductCode(e.target.value)} className={inputCls}>
+            <option value="">전체 제품</option>
+            {productCodes.map((code) => <option key={code} value={code}>{code}</option>)}
+          </select>
+          {canEdit && (
+            <button
+              onClick={() => setForm({ ...EMPTY_FORM, productCode })}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded"
+            >
+              새 프로그램
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="px-3 py-2 bg-red-900/40 border border-red-800 rounded text-sm text-red-300">{error}</div>}
+      {message && (
+        <div className="px-3 py-2 bg-green-900/30 border border-green-800 rounded text-sm text-green-300 flex justify-between">
+          <span>{message}</span>
+          <button onClick={() => setMessage(null)} className="text-green-500 hover:text-green-300">✕</button>
+        </div>
+      )}
+
+      {/* 프로그램 목록 */}
+      <div className="bg-gray-900 rounded-lg overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-400 border-b border-gray-700">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">제품 코드</th>
+              <th className="px-3 py-2 text-left font-medium">파일</th>
+              <th className="px-3 py-2 text-left font-medium">O번호</th>
+              <th className="px-3 py-2 text-left font-medium">상태</th>
+              <th className="px-3 py-2 text-left font-medium">호환 범위</th>
+              <th className="px-3 py-2 text-right font-medium">작업</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visiblePrograms.length === 0 && (
+              <tr><td colSpan={6} className="px-3 py-6 text-center text-gray-500">등록된 프로그램이 없습니다</td></tr>
+            )}
+            {visiblePrograms.map((p) => (
+              <tr key={p.id} className="border-b border-gray-800 hover:bg-gray-800/50">
+                <td className="px-3 py-2 font-mono text-gray-300">{p.productCode}</td>
+                <td className="px-3 py-2 font-mono">
+                  <button onClick={() => { void handleOpen(p); }} className="text-blue-400 hover:text-blue-300">{p.fileName}</button>
+                </td>
+                <td className="px-3 py-2 font-mono text-gray-400">{p.programNo ?? '-'}</td>
+                <td className="px-3 py-2"><ProgramStatusBadge program={p} /></td>
+                <td className="px-3 py-2 text-xs text-gray-400">
+                  {p.compatibleTemplates.length === 0 && p.compatibleMachines.length === 0
+                    ? <span className="text-orange-400">지정 안 됨</span>
+                    : [...p.compatibleTemplates, ...p.compatibleMachines].join(', ')}
+                </td>
+                <td className="px-3 py-2 text-right whitespace-nowrap space-x-3 text-xs">
+                  {canEdit && (
+                    <button onClick={() => setCompatTarget(p)} className="text-gray-300 hover:text-white">호환 범위</button>
+                  )}
+                  {canDeploy && (
+                    <button
+                      onClick={() => openDeploy(p.id)}
+                      disabled={p.status !== 'RELEASED' || p.modified}
+                      title={p.status !== 'RELEASED' ? '릴리스된 프로그램만 배포할 수 있습니다' : p.modified ? '디스크 파일이 최신 리비전과 다릅니다' : undefined}
+                      className="text-blue-400 hover:text-blue-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      배포
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* 배포 현황 */}
+      <div className="bg-gray-900 rounded-lg">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+          <div className="text-sm font-semibold">
+            배포 현황
+            {staleCount > 0 && <span className="ml-2 text-xs text-orange-400">갱신 필요 {staleCount}건</span>}
+          </div>
+          <div className="flex items-center gap-3 text-xs text-gray-500">
+            {matrix && <span>조회 {new Date(matrix.checkedAt).toLocaleTimeString('ko-KR', { hour12: false })}</span>}
+            <button
+              onClick={() => { void loadMatrix(); }}
+              disabled={matrixLoading}
+              className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded disabled:opacity-50"
+            >
+              {matrixLoading ? 'CNC 조회 중…' : '새로고침'}
+            </button>
+          </div>
+        </div>
+        <div className="px-3 py-2 flex flex-wrap gap-2 text-[11px] border-b border-gray-800">
+          {Object.entries(DEPLOYMENT_STATE_STYLE).map(([state, style]) => (
+            <span key={state} className={`px-1.5 py-0.5 rounded ${style.cls}`} title={style.hint}>{style.label}</span>
+          ))}
+        </div>
+        {matrix
+          ? <DeploymentMatrix matrix={matrix} activeJobs={activeJobs} onDeploy={canDeploy ? openDeploy : undefined} />
+          : <div className="p-6 text-center text-sm text-gray-500">{matrixLoading ? 'CNC 프로그램 목록 조회 중…' : '—'}</div>}
+      </div>
+
+      {form && (
+        <ProgramForm
+          form={form}
+          templates={templates}
+          machines={machines.map((m) => ({ machineId: m.machineId, name: m.name }))}
+          onChange={setForm}
+          onSubmit={() => { void handleCreate(); }}
+          onClose={() => setForm(null)}
+        />
+      )}
+
+      {compatTarget && (
+        <CompatibilityDialog
+          program={compatTarget}
+          templates={templates}
+          machines={machines.map((m) => ({ machineId: m.machineId, name: m.name }))}
+          onSaved={() => { setCompatTarget(null); void load(); void loadMatrix(); }}
+          onClose={() => setCompatTarget(null)}
+        />
+      )}
+
+      {deployTarget && (
+        <DeployDialog
+          program={deployTarget.program}
+          preselect={deployTarget.preselect}
+          cells={matrix?.cells.filter((c) => c.programId === deployTarget.program.id) ?? []}
+          canDeployTo={(m) => hasPermission(grants, 'transfer.pc_to_cnc', { machineId: m.machineId, location: m.location ?? undefined })}
+          onDeployed={(jobs) => { jobs.forEach(applyTransferJob); handleDeployed(jobs.length); }}
+          onClose={() => setDeployTarget(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+// ── 호환 범위 선택 ──────────────────────────────────────────
+
+interface CompatibilityPickerProps {
+  templates: { templateId: string; name: string }[];
+  machines: { machineId: string; name: string }[];
+  selectedTemplates: string[];
+  selectedMachines: string[];
+  onChange: (templates: string[], machines: string[]) => void;
+}
+
+function CompatibilityPicker({ templates, machines, selectedTemplates, selectedMachines, onChange }: CompatibilityPickerProps) {
+  return (
+    <div className="grid grid-cols-2 gap-3 text-xs">
+      <div>
+        <div className="text-gray-400 mb-1">호환 템플릿 (해당 템플릿 장비 전체)</div>
+        <div className="max-h-40 overflow-y-auto space-y-1 bg-gray-800 rounded p-2">
+          {templates.length === 0 && <div className="text-gray-600">등록 장비 템플릿 없음</div>}
+          {templates.map((t) => (
+            <label key={t.templateId} className="flex items-center gap-2" title={t.templateId}>
+              <input
+                type="checkbox"
+                checked={selectedTemplates.includes(t.templateId)}
+                onChange={() => onChange(toggle(selectedTemplates, t.templateId), selectedMachines)}
+              />
+              <span className="truncate">{t.name}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+      <div>
+        <div className="text-gray-400 mb-1">호환 장비 (개별 지정)</div>
+        <div className="max-h-40 overflow-y-auto space-y-1 bg-gray-800 rounded p-2">
+          {machines.map((m) => (
+            <label key={m.machineId} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selectedMachines.includes(m.machineId)}
+                onChange={() => onChange(selectedTemplates, toggle(selectedMachines, m.machineId))}
+              />
+              <span className="font-mono">{m.machineId}</span>
+              <span className="text-gray-500 truncate">{m.name}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Dialog({ title, children, onClose }: { title: string; children: React.ReactNode; onClose: () => void }) {
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-700 rounded-lg w-full max-w-2xl p-4 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-base font-semibold text-white">{title}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-300">✕</button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+// ── 신규 등록 ───────────────────────────────────────────────
+
+function ProgramForm({ form, templates, machines, onChange, onSubmit, onClose }: {
+  form: LibraryProgramInput;
+  templates: { templateId: string; name: string }[];
+  machines: { machineId: string; name: string }[];
+  onChange: (form: LibraryProgramInput) => void;
+  onSubmit: () => void;
+  onClose: () => void;
+}) {
+  const valid = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/.test(form.productCode) && !!form.fileName.trim() && !!form.content.trim();
+  return (
+    <Dialog title="라이브러리 프로그램 등록" onClose={onClose}>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs text-gray-400 space-y-1">
+          <div>제품 코드</div>
+          <input value={form.productCode} onChange={(e) => onChange({ ...form, productCode: e.target.value.trim() })} className={`${inputCls} w-full`} placeholder="예: SHAFT-A12" />
+        </label>
+        <label className="text-xs text-gray-400 space-y-1">
+          <div>파일명</div>
+          <input value={form.fileName} onChange={(e) => onChange({ ...form, fileName: e.target.value.trim() })} className={`${inputCls} w-full font-mono`} placeholder="O1234.nc" />
+        </label>
+      </div>
+      <textarea
+        value={form.content}
+        onChange={(e) => onChange({ ...form, content: e.target.value })}
+        className={`${inputCls} w-full h-48 font-mono text-green-400`}
+        placeholder={'%\nO1234 (PART NAME)\n...\nM30\n%'}
+        spellCheck={false}
+      />
+      <input
+        value={form.message ?? ''}
+        onChange={(e) => onChange({ ...form, message: e.target.value })}
+        className={`${inputCls} w-full`}
+        placeholder="변경 메모 (선택)"
+      />
+      <CompatibilityPicker
+        templates={templates}
+        machines={machines}
+        selectedTemplates={form.compatibleTemplates}
+        selectedMachines={form.compatibleMachines}
+        onChange={(t, m) => onChange({ ...form, compatibleTemplates: t, compatibleMachines: m })}
+      />
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-sm rounded">취소</button>
+        <button onClick={onSubmit} disabled={!valid} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded disabled:opacity-50">
+          등록
+        </button>
+      </div>
+    </Dialog>
+  );
+}
+
+// ── 호환 범위 변경 ──────────────────────────────────────────
+
+function CompatibilityDialog({ program, templates, machines, onSaved, onClose }: {
+  program: LibraryProgramInfo;
+  templates: { templateId: string; name: string }[];
+  machines: { machineId: string; name: string }[];
+  onSaved: () => void;
+  onClose: () => void;
+}) {
+  const [selectedTemplates, setSelectedTemplates] = useState(program.compatibleTemplates);
+  const [selectedMachines, setSelectedMachines] = useState(program.compatibleMachines);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 등록 장비에 없는 기존 지정값도 해제할 수 있도록 후보에 포함
+  const templateOptions = [
+    ...templates,
+    ...program.compatibleTemplates.filter((t) => !templates.some((o) => o.templateId === t)).map((t) => ({ templateId: t, name: t })),
+  ];
+
+  const handleSave = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await libraryApi.setCompatibility(program.id, selectedTemplates, selectedMachines);
+      if (res.success) onSaved();
+      else setError(res.error?.message ?? '저장 실패');
+    } catch {
+      setError('서버에 연결할 수 없습니다');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog title={`호환 범위 — ${program.productCode}/${program.fileName}`} onClose={onClose}>
+      <CompatibilityPicker
+        templates={templateOptions}
+        machines={machines}
+        selectedTemplates={selectedTemplates}
+        selectedMachines={selectedMachines}
+        onChange={(t, m) => { setSelectedTemplates(t); setSelectedMachines(m); }}
+      />
+      {error && <div className="text-xs text-red-400">{error}</div>}
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-sm rounded">취소</button>
+        <button onClick={() => { void handleSave(); }} disabled={busy} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded disabled:opacity-50">
+          저장
+        </button>
+      </div>
+    </Dialog>
+  );
+}
+
+// ── 배포 ────────────────────────────────────────────────────
+
+function DeployDialog({ program, preselect, cells, canDeployTo, onDeployed, onClose }: {
+  program: LibraryProgramInfo;
+  preselect: string[];
+  cells: Matrix['cells'];
+  canDeployTo: (machine: LibraryMachine) => boolean;
+  onDeployed: (jobs: TransferJobInfo[]) => void;
+  onClose: () => void;
+}) {
+  const [machines, setMachines] = useState<LibraryMachine[] | null>(null);
+  const [selected, setSelected] = useState<string[]>(preselect);
+  const [verify, setVerify] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    void libraryApi.get(program.id).then((res) => {
+      if (res.success && res.data) {
+        setMachines(res.data.machines);
+        // 기본 선택 = 최신이 아닌 장비
+        if (preselect.length === 0) {
+          setSelected(res.data.machines
+            .filter((m) => canDeployTo(m) && cells.find((c) => c.machineId === m.machineId)?.state !== 'CURRENT')
+            .map((m) => m.machineId));
+        }
+      } else {
+        setError(res.error?.message ?? '호환 장비를 불러올 수 없습니다');
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [program.id]);
+
+  const handleDeploy = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await libraryApi.deploy(program.id, selected, verify);
+      if (res.success && res.data) onDeployed(res.data.jobs);
+      else setError(res.error?.message ?? '배포 실패');
+    } catch {
+      setError('서버에 연결할 수 없습니다');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog title={`배포 — ${program.productCode}/${program.fileName} r${program.revision}`} onClose={onClose}>
+      {machines === null && !error && <div className="text-sm text-gray-500">불러오는 중…</div>}
+      {machines?.length === 0 && <div className="text-sm text-orange-400">호환 장비가 없습니다 — 호환 범위를 먼저 지정하세요</div>}
+      {machines && machines.length > 0 && (
+        <div className="max-h-64 overflow-y-auto space-y-1 bg-gray-800 rounded p-2 text-sm">
+          {machines.map((m) => {
+            const cell = cells.find((c) => c.machineId === m.machineId);
+            const allowed = canDeployTo(m);
+            return (
+              <label key={m.machineId} className={`flex items-center gap-2 ${allowed ? '' : 'opacity-50'}`} title={allowed ? undefined : '전송 권한 없음'}>
+                <input
+                  type="checkbox"
+                  disabled={!allowed}
+                  checked={selected.includes(m.machineId)}
+                  onChange={() => setSelected((prev) => toggle(prev, m.machineId))}
+                />
+                <span className="font-mono">{m.machineId}</span>
+                <span className="text-gray-500 truncate flex-1">{m.name}</span>
+                {cell && (
+                  <span className={`px-1.5 py-0.5 rounded text-xs ${DEPLOYMENT_STATE_STYLE[cell.state].cls}`}>
+                    {DEPLOYMENT_STATE_STYLE[cell.state].label}{cell.deployedRevision !== null && ` r${cell.deployedRevision}`}
+                  </span>
+                )}
+              </label>
+            );
+          })}
+        </div>
+      )}
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input type="checkbox" checked={verify} onChange={(e) => setVerify(e.target.checked)} />
+        전송 후 읽기 비교
+      </label>
+      <p className="text-xs text-gray-500">같은 O번호({program.programNo ?? '-'}) 프로그램은 덮어씁니다. CNC가 EDIT 모드여야 합니다.</p>
+      {error && <div className="text-xs text-red-400">{error}</div>}
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-sm rounded">취소</button>
+        <button
+          onClick={() => { void handleDeploy(); }}
+          disabled={busy || selected.length === 0}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded disabled:opacity-50"
+        >
+          {selected.length}대 배포
+        </button>
+      </div>
+    </Dialog>
+  );
+}
@@ -19,6 +19,7 @@ import {
 } from '../stores/machineStore';
 import { useTemplateStore, type PmcMessageEntry } from '../stores/templateStore';
 import { useAuthStore } from '../stores/authStore';
+import { usePermission } from '../hooks/usePermission';
 import { schedulerApi, dncApi } from '../lib/api';
 import { NCMonitor, TABS, type MonitorTab } from '../components/NCMonitor';
 import { FocasEventLog } from '../components/FocasEventLog';
@@ -73,9 +74,12 @@ export function Scheduler() {
   const [folderBrowserOpen, setFolderBrowserOpen] = useState(false);
   const [editingPathKey, setEditingPathKey] = useState<'path1' | 'path2' | 'path3'>('path1');
   const [confirmOpen, setConfirmOpen] = useState(false);
+  const [verifyOnStart, setVerifyOnStart] = useState(false);   // 시작 전 프로그램 검증 (릴리스 리비전 일치)
 
   const machine = machines.find((m) => m.machineId === selectedMachineId);
-  const isAdminOrEngineer = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const canEditRows = usePermission('scheduler.edit', selectedMachineId);
+  const canRunScheduler = usePermission('scheduler.start', selectedMachineId);
+  const canConfigDnc = usePermission('machine.config', selectedMachineId);
   const hasControlLock = controlLock?.isOwner ?? false;
   const pathCount = machine?.pathCount || 2;
 
@@ -175,7 +179,7 @@ export function Scheduler() {
   // ── 실행 제어 ─────────────────────────────────────────────────────────────
   const handleStart = async () => {
     if (!selectedMachineId) return;
-    const res = await schedulerApi.start(selectedMachineId);
+    const res = await schedulerApi.start(selectedMachineId, verifyOnStart);
     if (!res.success) setActionError(res.error?.message ?? '시작 실패');
   };
 
@@ -229,7 +233,7 @@ export function Scheduler() {
     <DncSettingsContent
       pathCount={pathCount}
       dncConfig={dncConfig}
-      isAdmin={isAdminOrEngineer}
+      isAdmin={canConfigDnc}
       isSchedulerRunning={schedulerState === 'RUNNING'}
       onOpenFolderBrowser={(pathKey) => { setEditingPathKey(pathKey); setFolderBrowserOpen(true); }}
       onSave={(paths, mainMode, defaults) => {
@@ -247,13 +251,15 @@ export function Scheduler() {
           updatedBy: user?.username,
         };
         setDncConfig(selectedMachineId, config);
-        // 기본값은 localStorage만 저장; DNC 경로/모드는 서버에도 저장
+        // 기본값은 localStorage만 저장; DNC 경로/모드는 서버에도 저장 (서버가 경로 검증)
         dncApi.saveConfig(selectedMachineId, {
           path1: paths.path1,
           path2: paths.path2,
           path3: paths.path3,
           mainMode,
           subMode: 'memory',
+        }).then((res) => {
+          if (!res.success) setActionError(res.error?.message ?? 'DNC 설정 저장 실패');
         }).catch(() => null);
       }}
     />
@@ -307,22 +313,33 @@ export function Scheduler() {
       <FolderBrowser
         isOpen={folderBrowserOpen}
         currentPath={dncConfig?.dncPaths[editingPathKey] || undefined}
-        onSelect={(path) => {
+        machineId={selectedMachineId ?? undefined}
+        canCreate={canConfigDnc}
+        onSelect={async (path) => {
           setFolderBrowserOpen(false);
           if (!selectedMachineId) return;
           const currentPaths: DncPathConfig = dncConfig?.dncPaths || { path1: '', path2: '' };
           const updatedPaths = { ...currentPaths, [editingPathKey]: path };
+          // 서버 검증 통과 시에만 반영
+          const res = await dncApi.saveConfig(selectedMachineId, { path1: updatedPaths.path1, path2: updatedPaths.path2, path3: updatedPaths.path3 })
+            .catch(() => null);
+          if (!res?.success) {
+            setActionError(res?.error?.message ?? 'DNC 경로 저장 실패');
+            return;
+          }
           const config: MachineDncConfig = {
             machineId: selectedMachineId,
             pathCount,
             mainMode: dncConfig?.mainMode ?? 'memory',
             subMode: 'memory',
             dncPaths: updatedPaths,
+            defaultMainPgm: dncConfig?.defaultMainPgm,
+            defaultSubPgm:  dncConfig?.defaultSubPgm,
+            defaultPreset:  dncConfig?.defaultPreset,
             updatedAt: new Date().toISOString(),
             updatedBy: user?.username,
           };
           setDncConfig(selectedMachineId, config);
-          dncApi.saveConfig(selectedMachineId, { path1: updatedPaths.path1, path2: updatedPaths.path2, path3: updatedPaths.path3 }).catch(() => null);
         }}
         onClose={() => setFolderBrowserOpen(false)}
       />
@@ -430,6 +447,15 @@ export function Scheduler() {
 
                 {/* 시작/정지 버튼 */}
                 <div className="flex gap-2 shrink-0">
+                  {schedulerState !== 'RUNNING' && (
+                    <label
+                      className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer select-none"
+                      title="시작 전 운전할 프로그램이 릴리스 리비전과 같은지 확인 (MEM: 검증 전송 기록, DNC: 저장소 파일)"
+                    >
+                      <input type="checkbox" checked={verifyOnStart} onChange={(e) => setVerifyOnStart(e.target.checked)} />
+                      검증
+                    </label>
+                  )}
                   {schedulerState === 'IDLE' || schedulerState === 'ERROR' ? (
                     <button
                       onClick={handleStart}
@@ -497,7 +523,7 @@ export function Scheduler() {
                         index={idx}
                         isCurrentRow={currentRow?.id === row.id}
                         isMachineRunning={isMachineRunning}
-                        canEdit={isAdminOrEngineer && currentRow?.id !== row.id && row.status !== 'COMPLETED'}
+                        canEdit={canEditRows && currentRow?.id !== row.id && row.status !== 'COMPLETED'}
                         onDelete={() => handleDeleteRow(row.id)}
                         onBlur={handleRowBlur}
                       />
@@ -517,14 +543,14 @@ export function Scheduler() {
               <div className="mt-3 flex gap-2 shrink-0">
                 <button
                   onClick={handleAddRow}
-                  disabled={!isAdminOrEngineer}
+                  disabled={!canEditRows}
                   className="flex-1 py-2 border-2 border-dashed border-gray-600 rounded-lg text-gray-400 hover:border-blue-500 hover:text-blue-400 transition-colors disabled:opacity-35 disabled:cursor-not-allowed text-sm"
                 >
                   + 행 추가
                 </button>
                 <button
                   onClick={handleReset}
-                  disabled={!isAdminOrEngineer || schedulerState === 'RUNNING'}
+                  disabled={!canRunScheduler || schedulerState === 'RUNNING'}
                   className="px-4 py-2 border border-gray-600 rounded-lg text-gray-400 hover:border-red-500 hover:text-red-400 transition-colors disabled:opacity-35 disabled:cursor-not-allowed text-sm"
                 >
                   초기화
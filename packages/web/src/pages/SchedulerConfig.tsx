@@ -3,7 +3,7 @@
 
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { useAuthStore } from '../stores/authStore';
+import { usePermission } from '../hooks/usePermission';
 import { useTemplateStore, type SchedulerConfig } from '../stores/templateStore';
 
 // ── 빈 기본값 ───────────────────────────────────────────
@@ -179,13 +179,12 @@ function SectionTitle({ children }: { children: React.ReactNode }) {
 
 // ── Main Component ───────────────────────────────────────
 export function SchedulerConfig() {
-  const user = useAuthStore((s) => s.user);
   const { templates, selectedTemplateId, loadTemplates, selectTemplate, updateTemplate, importFromJsonc } = useTemplateStore();
 
   const [cfg, setCfg] = useState<SchedulerConfig>(EMPTY);
   const [dirty, setDirty] = useState(false);
 
-  const canEdit = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const canEdit = usePermission('template.edit');
 
   useEffect(() => { loadTemplates(); }, [loadTemplates]);
 
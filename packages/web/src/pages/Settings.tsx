@@ -2,24 +2,38 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import { useAuthStore } from '../stores/authStore';
+import { usePermission } from '../hooks/usePermission';
 import { useMachineStore, useControlLockDuration } from '../stores/machineStore';
 import { useCameraStore, CameraConfig } from '../stores/cameraStore';
-import { diagnosticsApi, DiagnosticsData, AgentDiagStatus, settingsApi } from '../lib/api';
+import {
+  cameraApi, CameraHealth, CameraInput,
+  diagnosticsApi, DiagnosticsData, AgentDiagStatus, settingsApi, downtimeApi, DowntimeReason,
+  userApi, ManagedUser, ManagedUserRole, roleApi, RoleInfo, PermissionInfo,
+} from '../lib/api';
+import type { Permission } from '../lib/permissions';
 
 export function Settings() {
   const user = useAuthStore((state) => state.user);
   const machines = useMachineStore((state) => state.machines);
   const {
     cameraEnabled, cameras,
-    setCameraEnabled, addCamera, updateCamera, removeCamera, syncToServer,
+    setCameraEnabled, createCamera, updateCamera, deleteCamera,
   } = useCameraStore();
   const controlLockDuration = useControlLockDuration();
   const setControlLockDuration = useMachineStore((s) => s.setControlLockDuration);
 
-  const isAdmin = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const isAdmin = usePermission('settings.manage');
+  const canManageUsers = usePermission('user.manage');
+  const canManageReasons = usePermission('downtime.manage');
+  const canViewDiagnostics = usePermission('diagnostics.view');
+  const canManageCameras = usePermission('camera.manage');
+  const [tab, setTab] = useState<'general' | 'users'>('general');
 
-  const [editingCamera, setEditingCamera] = useState<CameraConfig | null>(null);
+  const [editingCamera, setEditingCamera] = useState<CameraForm | null>(null);
   const [isCreating, setIsCreating] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [cameraSaving, setCameraSaving] = useState(false);
+  const [probingId, setProbingId] = useState<string | null>(null);
 
   // 등록 코드 설정
   const [regCodes, setRegCodes] = useState({ adminCode: '', operatorCode: '' });
@@ -39,7 +53,6 @@ export function Settings() {
 
   const openCreateModal = () => {
     setEditingCamera({
-      id: `cam-${Date.now()}`,
       name: '',
       ipAddress: '',
       rtspPort: 554,
@@ -47,33 +60,56 @@ export function Settings() {
       password: '',
       streamPath: '/Streaming/Channels/101',
       enabled: true,
+      defaultZoom: 1.0,
     });
     setIsCreating(true);
+    setCameraError(null);
   };
 
   const openEditModal = (camera: CameraConfig) => {
-    setEditingCamera({ ...camera, password: '' }); // 비밀번호는 재입력
+    setEditingCamera({
+      id: camera.id,
+      name: camera.name,
+      ipAddress: camera.ipAddress,
+      rtspPort: camera.rtspPort,
+      username: camera.username,
+      password: '', // 비밀번호는 서버에서 내려오지 않음 — 빈칸이면 기존 유지
+      streamPath: camera.streamPath,
+      enabled: camera.enabled,
+      assignedMachineId: camera.assignedMachineId,
+      defaultZoom: camera.defaultZoom,
+    });
     setIsCreating(false);
+    setCameraError(null);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!editingCamera) return;
-    if (isCreating) {
-      const cam = { ...editingCamera };
-      if (cam.password) cam.password = btoa(cam.password);
-      addCamera(cam);
-    } else {
-      const updates: Partial<CameraConfig> = { ...editingCamera };
-      if (!updates.password) delete updates.password; // 빈 비밀번호는 기존 유지
-      else updates.password = btoa(updates.password);
-      updateCamera(editingCamera.id, updates);
+    const { id, ...form } = editingCamera;
+    const input: CameraInput = { ...form, assignedMachineId: form.assignedMachineId || null };
+    setCameraSaving(true);
+    const error = isCreating || !id ? await createCamera(input) : await updateCamera(id, input);
+    setCameraSaving(false);
+    if (error) {
+      setCameraError(error);
+      return;
     }
     setEditingCamera(null);
-    void syncToServer(); // DB 영속화
   };
 
-  const handleDelete = (id: string) => {
-    removeCamera(id);
+  const handleDelete = async (camera: CameraConfig) => {
+    if (!window.confirm(`'${camera.name}' 카메라를 삭제하시겠습니까?`)) return;
+    const error = await deleteCamera(camera.id);
+    if (error) window.alert(error);
+  };
+
+  const handleProbe = async (id: string) => {
+    setProbingId(id);
+    try {
+      await cameraApi.probe(id); // 결과는 WebSocket camera_status 로 반영
+    } finally {
+      setProbingId(null);
+    }
   };
 
   const handleRegSave = async () => {
@@ -104,6 +140,33 @@ export function Settings() {
         <p className="text-gray-500">제어권 타이머, 카메라 연동 및 시스템 옵션 관리</p>
       </div>
 
+      {/* 탭 (사용자 관리는 user.manage 권한) */}
+      {canManageUsers && (
+        <div className="flex border-b border-gray-200 dark:border-gray-700 mb-6">
+          {([['general', '일반'], ['users', '사용자 관리']] as const).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                tab === key
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {tab === 'users' && canManageUsers && (
+        <>
+          <UserManagementSection currentUserId={user!.id} currentRole={user!.role} />
+          <RoleManagementSection />
+        </>
+      )}
+
+      {tab === 'general' && (<>
       {/* 제어권 타이머 설정 */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6">
         <div className="flex items-center justify-between">
@@ -174,7 +237,7 @@ export function Settings() {
             <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
               등록된 카메라
             </h2>
-            {isAdmin && (
+            {canManageCameras && (
               <button
                 onClick={openCreateModal}
                 className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700"
@@ -192,7 +255,7 @@ export function Settings() {
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">IP 주소</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">연결 장비</th>
                 <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">상태</th>
-                {isAdmin && (
+                {canManageCameras && (
                   <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">작업</th>
                 )}
               </tr>
@@ -200,7 +263,7 @@ export function Settings() {
             <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
               {cameras.length === 0 ? (
                 <tr>
-                  <td colSpan={isAdmin ? 6 : 5} className="px-4 py-8 text-center text-gray-500">
+                  <td colSpan={canManageCameras ? 6 : 5} className="px-4 py-8 text-center text-gray-500">
                     등록된 카메라가 없습니다
                   </td>
                 </tr>
@@ -221,19 +284,25 @@ export function Settings() {
                       </td>
                       <td className="px-4 py-3 text-center">
                         {cam.enabled ? (
-                          <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400 rounded text-xs font-medium">
-                            <span className="w-1.5 h-1.5 bg-green-500 rounded-full" />
-                            활성
-                          </span>
+                          <CameraHealthBadge health={cam.health} />
                         ) : (
                           <span className="px-2 py-0.5 bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400 rounded text-xs">
                             비활성
                           </span>
                         )}
                       </td>
-                      {isAdmin && (
+                      {canManageCameras && (
                         <td className="px-4 py-3 text-center">
                           <div className="flex items-center justify-center gap-2">
+                            {cam.enabled && (
+                              <button
+                                onClick={() => handleProbe(cam.id)}
+                                disabled={probingId === cam.id}
+                                className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 text-sm disabled:opacity-50"
+                              >
+                                {probingId === cam.id ? '점검 중...' : '점검'}
+                              </button>
+                            )}
                             <button
                               onClick={() => openEditModal(cam)}
                               className="text-blue-600 hover:text-blue-700 text-sm"
@@ -241,7 +310,7 @@ export function Settings() {
                               편집
                             </button>
                             <button
-                              onClick={() => handleDelete(cam.id)}
+                              onClick={() => handleDelete(cam)}
                               className="text-red-500 hover:text-red-600 text-sm"
                             >
                               삭제
@@ -264,6 +333,9 @@ export function Settings() {
           camera={editingCamera}
           machines={machines}
           isCreating={isCreating}
+          hasPassword={!!cameras.find((c) => c.id === editingCamera.id)?.hasPassword}
+          error={cameraError}
+          saving={cameraSaving}
           onChange={setEditingCamera}
           onSave={handleSave}
           onCancel={() => setEditingCamera(null)}
@@ -333,10 +405,425 @@ export function Settings() {
         </div>
       )}
 
+      {/* 비가동 사유 코드 */}
+      {canManageReasons && <DowntimeReasonSection />}
+
       {/* 시스템 진단 */}
-      {(isAdmin || user?.role === 'HQ_ENGINEER') && (
+      {canViewDiagnostics && (
         <DiagnosticsSection />
       )}
+      </>)}
+    </div>
+  );
+}
+
+// ── 사용자 관리 섹션 ────────────────────────────────────────────
+
+const ROLE_LABEL: Record<ManagedUserRole, string> = {
+  USER: '오퍼레이터',
+  ADMIN: '관리자',
+  HQ_ENGINEER: '본사 엔지니어',
+};
+
+type UserFilter = 'all' | 'pending' | 'active' | 'inactive';
+
+function UserManagementSection({ currentUserId, currentRole }: { currentUserId: string; currentRole: ManagedUserRole }) {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [filter, setFilter] = useState<UserFilter>('all');
+  const [search, setSearch] = useState('');
+  const [approveRole, setApproveRole] = useState<Record<string, ManagedUserRole>>({});
+  const [draft, setDraft] = useState({ username: '', email: '', password: '', role: 'USER' as ManagedUserRole });
+  const [msg, setMsg] = useState<{ type: 'ok' | 'err'; text: string } | null>(null);
+  const [assigningUser, setAssigningUser] = useState<ManagedUser | null>(null);
+
+  // ADMIN 은 본사 엔지니어 역할 부여 / 관리 불가 (서버와 동일 규칙)
+  const assignableRoles: ManagedUserRole[] = currentRole === 'HQ_ENGINEER'
+    ? ['USER', 'ADMIN', 'HQ_ENGINEER']
+    : ['USER', 'ADMIN'];
+  const canEdit = (u: ManagedUser) => currentRole === 'HQ_ENGINEER' || u.role !== 'HQ_ENGINEER';
+
+  const load = useCallback(async () => {
+    const res = await userApi.getAll(filter === 'all' ? undefined : filter, search.trim() || undefined);
+    if (res.success && res.data) {
+      setUsers(res.data.items);
+      setPendingCount(res.data.pendingCount);
+    }
+  }, [filter, search]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const run = async (action: Promise<{ success: boolean; error?: { message: string } }>, okText: string) => {
+    setMsg(null);
+    const res = await action;
+    if (res.success) {
+      setMsg({ type: 'ok', text: okText });
+      await load();
+    } else {
+      setMsg({ type: 'err', text: res.error?.message ?? '처리 실패' });
+    }
+  };
+
+  const handleApprove = (u: ManagedUser) =>
+    run(userApi.approve(u.id, approveRole[u.id] ?? u.role), `${u.username} 승인 완료`);
+
+  const handleReject = (u: ManagedUser) => {
+    if (!confirm(`${u.username} 가입 요청을 거절(삭제)하시겠습니까?`)) return;
+    void run(userApi.reject(u.id), `${u.username} 가입 거절`);
+  };
+
+  const handleRoleChange = (u: ManagedUser, role: ManagedUserRole) => {
+    if (!confirm(`${u.username} 역할을 ${ROLE_LABEL[role]}(으)로 변경하시겠습니까? 기존 세션은 로그아웃됩니다.`)) return;
+    void run(userApi.update(u.id, { role }), `${u.username} 역할 변경`);
+  };
+
+  const handleToggleActive = (u: ManagedUser) => {
+    if (u.isActive && !confirm(`${u.username} 계정을 비활성화하시겠습니까?`)) return;
+    void run(userApi.update(u.id, { isActive: !u.isActive }), `${u.username} ${u.isActive ? '비활성화' : '활성화'}`);
+  };
+
+  const handleResetPassword = async (u: ManagedUser) => {
+    if (!confirm(`${u.username} 비밀번호를 초기화하시겠습니까? 임시 비밀번호가 발급됩니다.`)) return;
+    setMsg(null);
+    const res = await userApi.resetPassword(u.id);
+    if (res.success && res.data?.temporaryPassword) {
+      setMsg({ type: 'ok', text: `${u.username} 임시 비밀번호: ${res.data.temporaryPassword} (이 화면에서만 표시됩니다)` });
+    } else {
+      setMsg({ type: 'err', text: res.error?.message ?? '초기화 실패' });
+    }
+  };
+
+  const handleCreate = async () => {
+    await run(userApi.create(draft), `${draft.username} 생성 완료`);
+    setDraft({ username: '', email: '', password: '', role: 'USER' });
+  };
+
+  const inputCls = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm';
+  const pending = users.filter((u) => !u.isApproved);
+  const others = users.filter((u) => u.isApproved);
+
+  return (
+    <div className="space-y-6">
+      {msg && (
+        <div className={`p-3 rounded-lg text-sm ${msg.type === 'ok' ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'}`}>
+          {msg.text}
+        </div>
+      )}
+
+      {/* 승인 대기 */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+          승인 대기
+          {pendingCount > 0 && (
+            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-yellow-500 text-black">{pendingCount}</span>
+          )}
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">등록 코드 없이 가입한 사용자입니다. 역할을 지정해 승인하세요.</p>
+        {pending.length === 0 ? (
+          <div className="text-sm text-gray-500">승인 대기 중인 사용자가 없습니다.</div>
+        ) : (
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            {pending.map((u) => (
+              <div key={u.id} className="flex flex-wrap items-center gap-3 py-2 text-sm">
+                <span className="font-medium text-gray-900 dark:text-white w-32">{u.username}</span>
+                <span className="text-gray-500 flex-1">{u.email}</span>
+                <span className="text-xs text-gray-400">{new Date(u.createdAt).toLocaleString()}</span>
+                <select
+                  value={approveRole[u.id] ?? u.role}
+                  onChange={(e) => setApproveRole((p) => ({ ...p, [u.id]: e.target.value as ManagedUserRole }))}
+                  className={inputCls}
+                >
+                  {assignableRoles.map((r) => <option key={r} value={r}>{ROLE_LABEL[r]}</option>)}
+                </select>
+                <button
+                  onClick={() => handleApprove(u)}
+                  className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white text-xs rounded-lg"
+                >
+                  승인
+                </button>
+                <button
+                  onClick={() => handleReject(u)}
+                  className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs rounded-lg"
+                >
+                  거절
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* 사용자 목록 */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">사용자</h2>
+          <div className="flex items-center gap-2">
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="사용자명 / 이메일 검색"
+              className={`${inputCls} w-48`}
+            />
+            <select value={filter} onChange={(e) => setFilter(e.target.value as UserFilter)} className={inputCls}>
+              <option value="all">전체</option>
+              <option value="active">활성</option>
+              <option value="inactive">비활성</option>
+              <option value="pending">승인 대기</option>
+            </select>
+          </div>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700 text-xs text-gray-500 uppercase">
+            <tr>
+              <th className="px-3 py-2 text-left">사용자명</th>
+              <th className="px-3 py-2 text-left">이메일</th>
+              <th className="px-3 py-2 text-left">역할</th>
+              <th className="px-3 py-2 text-left">최근 로그인</th>
+              <th className="px-3 py-2 text-center">상태</th>
+              <th className="px-3 py-2 text-right">작업</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+            {others.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-3 py-6 text-center text-gray-500">사용자가 없습니다</td>
+              </tr>
+            ) : others.map((u) => {
+              const editable = canEdit(u) && u.id !== currentUserId;
+              return (
+                <tr key={u.id} className={u.isActive ? '' : 'opacity-50'}>
+                  <td className="px-3 py-2 font-medium text-gray-900 dark:text-white">
+                    {u.username}
+                    {u.id === currentUserId && <span className="ml-1 text-xs text-gray-400">(본인)</span>}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500">{u.email}</td>
+                  <td className="px-3 py-2">
+                    {editable ? (
+                      <select
+                        value={u.role}
+                        onChange={(e) => handleRoleChange(u, e.target.value as ManagedUserRole)}
+                        className={`${inputCls} py-1`}
+                      >
+                        {assignableRoles.map((r) => <option key={r} value={r}>{ROLE_LABEL[r]}</option>)}
+                      </select>
+                    ) : (
+                      <span className="text-gray-500">{ROLE_LABEL[u.role]}</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500">
+                    {u.lastLoginAt ? new Date(u.lastLoginAt).toLocaleString() : '—'}
+                  </td>
+                  <td className="px-3 py-2 text-center">
+                    <span className={`px-2 py-0.5 rounded text-xs ${u.isActive ? 'bg-green-900/30 text-green-400' : 'bg-gray-700 text-gray-400'}`}>
+                      {u.isActive ? '활성' : '비활성'}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-right space-x-3 whitespace-nowrap">
+                    {editable && (
+                      <button onClick={() => setAssigningUser(u)} className="text-xs text-blue-500 hover:text-blue-400">
+                        추가 권한
+                      </button>
+                    )}
+                    {canEdit(u) && (
+                      <button onClick={() => handleResetPassword(u)} className="text-xs text-blue-500 hover:text-blue-400">
+                        비밀번호 초기화
+                      </button>
+                    )}
+                    {editable && (
+                      <button
+                        onClick={() => handleToggleActive(u)}
+                        className={`text-xs ${u.isActive ? 'text-red-500 hover:text-red-400' : 'text-green-500 hover:text-green-400'}`}
+                      >
+                        {u.isActive ? '비활성화' : '활성화'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {assigningUser && (
+        <RoleAssignmentPanel user={assigningUser} onClose={() => setAssigningUser(null)} />
+      )}
+
+      {/* 사용자 직접 생성 */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">사용자 추가</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={draft.username}
+            onChange={(e) => setDraft((d) => ({ ...d, username: e.target.value }))}
+            placeholder="사용자명"
+            className={`${inputCls} w-36`}
+          />
+          <input
+            type="email"
+            value={draft.email}
+            onChange={(e) => setDraft((d) => ({ ...d, email: e.target.value }))}
+            placeholder="이메일"
+            className={`${inputCls} w-48`}
+          />
+          <input
+            type="password"
+            value={draft.password}
+            onChange={(e) => setDraft((d) => ({ ...d, password: e.target.value }))}
+            placeholder="초기 비밀번호 (6자 이상)"
+            className={`${inputCls} w-48`}
+          />
+          <select
+            value={draft.role}
+            onChange={(e) => setDraft((d) => ({ ...d, role: e.target.value as ManagedUserRole }))}
+            className={inputCls}
+          >
+            {assignableRoles.map((r) => <option key={r} value={r}>{ROLE_LABEL[r]}</option>)}
+          </select>
+          <button
+            onClick={handleCreate}
+            disabled={!draft.username.trim() || !draft.email.trim() || draft.password.length < 6}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+          >
+            추가
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ── 비가동 사유 코드 섹션 ────────────────────────────────────────
+
+function DowntimeReasonSection() {
+  const [reasons, setReasons] = useState<DowntimeReason[]>([]);
+  const [draft, setDraft] = useState({ parentId: '', code: '', name: '', color: '#3b82f6' });
+  const [msg, setMsg] = useState<{ type: 'ok' | 'err'; text: string } | null>(null);
+
+  const load = useCallback(async () => {
+    const res = await downtimeApi.getReasons(true);
+    if (res.success && res.data) setReasons(res.data);
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleAdd = async () => {
+    setMsg(null);
+    const res = await downtimeApi.createReason({
+      code: draft.code,
+      name: draft.name,
+      parentId: draft.parentId || null,
+      color: draft.parentId ? null : draft.color,
+      sortOrder: draft.parentId
+        ? reasons.find((r) => r.id === draft.parentId)?.children.length ?? 0
+        : reasons.length,
+    });
+    if (res.success) {
+      setDraft((d) => ({ ...d, code: '', name: '' }));
+      await load();
+    } else {
+      setMsg({ type: 'err', text: res.error?.message ?? '추가 실패' });
+    }
+  };
+
+  const handleToggle = async (reason: DowntimeReason) => {
+    const res = await downtimeApi.updateReason(reason.id, { isActive: !reason.isActive });
+    if (res.success) await load();
+    else setMsg({ type: 'err', text: res.error?.message ?? '변경 실패' });
+  };
+
+  const handleDelete = async (reason: DowntimeReason) => {
+    if (!confirm(`'${reason.name}' 사유를 삭제하시겠습니까?`)) return;
+    const res = await downtimeApi.deleteReason(reason.id);
+    if (res.success) {
+      if (res.data?.deactivated) setMsg({ type: 'ok', text: '사용 중인 사유는 비활성화되었습니다.' });
+      await load();
+    } else {
+      setMsg({ type: 'err', text: res.error?.message ?? '삭제 실패' });
+    }
+  };
+
+  const renderRow = (reason: DowntimeReason, depth: number) => (
+    <div key={reason.id}>
+      <div
+        className={`flex items-center gap-2 py-1.5 text-sm ${reason.isActive ? '' : 'opacity-40'}`}
+        style={{ paddingLeft: depth * 20 }}
+      >
+        {depth === 0 && (
+          <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: reason.color ?? '#9ca3af' }} />
+        )}
+        <span className="font-mono text-xs text-gray-500 w-24">{reason.code}</span>
+        <span className="flex-1 text-gray-900 dark:text-white">{reason.name}</span>
+        <button onClick={() => handleToggle(reason)} className="text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+          {reason.isActive ? '사용 중지' : '사용'}
+        </button>
+        <button onClick={() => handleDelete(reason)} className="text-xs text-red-500 hover:text-red-400">
+          삭제
+        </button>
+      </div>
+      {reason.children.map((child) => renderRow(child, depth + 1))}
+    </div>
+  );
+
+  const inputCls = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+        비가동 사유 코드
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        작업자가 비가동 이벤트에 지정하는 사유 분류입니다. 분류 아래 세부 사유를 추가하세요.
+      </p>
+
+      <div className="divide-y divide-gray-100 dark:divide-gray-700 mb-4">
+        {reasons.map((r) => renderRow(r, 0))}
+        {reasons.length === 0 && <div className="text-sm text-gray-500 py-2">등록된 사유 코드가 없습니다.</div>}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={draft.parentId}
+          onChange={(e) => setDraft((d) => ({ ...d, parentId: e.target.value }))}
+          className={inputCls}
+        >
+          <option value="">(최상위 분류)</option>
+          {reasons.map((r) => (
+            <option key={r.id} value={r.id}>{r.name}</option>
+          ))}
+        </select>
+        <input
+          value={draft.code}
+          onChange={(e) => setDraft((d) => ({ ...d, code: e.target.value.toUpperCase() }))}
+          placeholder="코드 (예: MAT-WAIT)"
+          className={`${inputCls} w-40 font-mono`}
+        />
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+          placeholder="사유명"
+          className={`${inputCls} w-40`}
+        />
+        {!draft.parentId && (
+          <input
+            type="color"
+            value={draft.color}
+            onChange={(e) => setDraft((d) => ({ ...d, color: e.target.value }))}
+            className="w-10 h-9 rounded border border-gray-300 dark:border-gray-600"
+          />
+        )}
+        <button
+          onClick={handleAdd}
+          disabled={!draft.code.trim() || !draft.name.trim()}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+        >
+          추가
+        </button>
+        {msg && (
+          <span className={`text-sm ${msg.type === 'ok' ? 'text-green-600' : 'text-red-500'}`}>{msg.text}</span>
+        )}
+      </div>
     </div>
   );
 }
@@ -547,23 +1034,84 @@ function RefreshIcon({ className }: { className?: string }) {
   );
 }
 
+// ── 카메라 상태 배지 (서버 주기 점검 결과) ──────────────────────
+const CAMERA_HEALTH_LABEL: Record<NonNullable<CameraHealth['status']>, string> = {
+  ONLINE: '온라인',
+  AUTH_ERROR: '인증 실패',
+  NETWORK_ERROR: '접속 불가',
+  TIMEOUT: '응답 없음',
+  STREAM_ENDED: '스트림 종료',
+  BUSY: '사용 중',
+  NOT_FOUND: '경로 오류',
+  FFMPEG_ERROR: '점검 오류',
+  INTERNAL_ERROR: '점검 오류',
+};
+
+function CameraHealthBadge({ health }: { health: CameraHealth }) {
+  const checked = health.checkedAt ? new Date(health.checkedAt).toLocaleTimeString() : null;
+
+  if (!health.status) {
+    return (
+      <span className="px-2 py-0.5 bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400 rounded text-xs">
+        점검 대기
+      </span>
+    );
+  }
+
+  if (health.status === 'ONLINE') {
+    return (
+      <span
+        className="inline-flex items-center gap-1 px-2 py-0.5 bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400 rounded text-xs font-medium"
+        title={checked ? `점검 ${checked}` : undefined}
+      >
+        <span className="w-1.5 h-1.5 bg-green-500 rounded-full" />
+        {CAMERA_HEALTH_LABEL.ONLINE}
+        {health.latencyMs !== null && <span className="font-normal opacity-75">{health.latencyMs}ms</span>}
+      </span>
+    );
+  }
+
+  const lastOnline = health.lastOnlineAt ? new Date(health.lastOnlineAt).toLocaleString() : '없음';
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-0.5 bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400 rounded text-xs font-medium"
+      title={`${health.error ?? health.status}\n점검 ${checked ?? '-'} · 마지막 온라인 ${lastOnline}`}
+    >
+      <span className="w-1.5 h-1.5 bg-red-500 rounded-full" />
+      {CAMERA_HEALTH_LABEL[health.status]}
+    </span>
+  );
+}
+
 // ── 카메라 등록/편집 모달 ────────────────────────────────────────
+type CameraForm = Omit<CameraInput, 'password' | 'assignedMachineId'> & {
+  id?: string;
+  password: string;
+  assignedMachineId?: string;
+};
+
 function CameraModal({
   camera,
   machines,
   isCreating,
+  hasPassword,
+  error,
+  saving,
   onChange,
   onSave,
   onCancel,
 }: {
-  camera: CameraConfig;
+  camera: CameraForm;
   machines: { machineId: string; name: string }[];
   isCreating: boolean;
-  onChange: (cam: CameraConfig) => void;
+  hasPassword: boolean;
+  error: string | null;
+  saving: boolean;
+  onChange: (cam: CameraForm) => void;
   onSave: () => void;
   onCancel: () => void;
 }) {
-  const update = (field: keyof CameraConfig, value: string | number | boolean) => {
+  const update = (field: keyof CameraForm, value: string | number | boolean) => {
     onChange({ ...camera, [field]: value });
   };
 
@@ -625,13 +1173,13 @@ function CameraModal({
             </div>
             <div>
               <label className="block text-xs font-medium text-gray-500 mb-1">
-                비밀번호 {!isCreating && <span className="text-gray-400">(빈칸=유지)</span>}
+                비밀번호 {!isCreating && hasPassword && <span className="text-gray-400">(빈칸=유지)</span>}
               </label>
               <input
                 type="password"
                 value={camera.password}
                 onChange={(e) => update('password', e.target.value)}
-                placeholder={isCreating ? '' : '****'}
+                placeholder={!isCreating && hasPassword ? '****' : ''}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
               />
             </div>
@@ -702,6 +1250,10 @@ function CameraModal({
           </div>
         </div>
 
+        {error && (
+          <p className="mt-4 text-sm text-red-500">{error}</p>
+        )}
+
         {/* 버튼 */}
         <div className="flex justify-end gap-3 mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
           <button
@@ -712,13 +1264,312 @@ function CameraModal({
           </button>
           <button
             onClick={onSave}
-            disabled={!isValid}
+            disabled={!isValid || saving}
             className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {isCreating ? '등록' : '저장'}
+            {saving ? '저장 중...' : isCreating ? '등록' : '저장'}
           </button>
         </div>
       </div>
     </div>
   );
 }
+
+// ── 추가 역할 부여 (전체 / 장비 / 라인 범위) ─────────────────────
+
+type ScopeKind = 'global' | 'machine' | 'location';
+
+interface AssignmentDraft {
+  roleId: string;
+  scope: ScopeKind;
+  value: string;   // machineId 또는 location
+}
+
+function RoleAssignmentPanel({ user, onClose }: { user: ManagedUser; onClose: () => void }) {
+  const machines = useMachineStore((s) => s.machines);
+  const locations = [...new Set(machines.map((m) => m.location).filter((l): l is string => !!l))];
+  const [roles, setRoles] = useState<RoleInfo[]>([]);
+  const [drafts, setDrafts] = useState<AssignmentDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<{ type: 'ok' | 'err'; text: string } | null>(null);
+
+  useEffect(() => {
+    roleApi.getAll().then((res) => {
+      if (res.success && res.data) setRoles(res.data.roles.filter((r) => r.id && !r.baseRole));
+    });
+    userApi.getRoles(user.id).then((res) => {
+      if (res.success && res.data) {
+        setDrafts(res.data.map((a) => ({
+          roleId: a.roleId,
+          scope: a.machine ? 'machine' : a.location ? 'location' : 'global',
+          value: a.machine?.machineId ?? a.location ?? '',
+        })));
+      }
+    });
+  }, [user.id]);
+
+  const update = (idx: number, patch: Partial<AssignmentDraft>) =>
+    setDrafts((prev) => prev.map((d, i) => (i === idx ? { ...d, ...patch } : d)));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMsg(null);
+    const res = await userApi.setRoles(user.id, drafts.map((d) => ({
+      roleId: d.roleId,
+      machineId: d.scope === 'machine' ? d.value : null,
+      location: d.scope === 'location' ? d.value : null,
+    })));
+    setSaving(false);
+    if (res.success) setMsg({ type: 'ok', text: '저장되었습니다' });
+    else setMsg({ type: 'err', text: res.error?.message ?? '저장 실패' });
+  };
+
+  const inputCls = 'px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm';
+  const incomplete = drafts.some((d) => !d.roleId || (d.scope !== 'global' && !d.value));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{user.username} — 추가 권한</h2>
+        <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-300">닫기</button>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        기본 역할({ROLE_LABEL[user.role]}) 권한에 더해 부여할 역할입니다. 장비 / 라인 한정 부여는 장비 범위 권한에만 적용됩니다.
+      </p>
+
+      {roles.length === 0 ? (
+        <div className="text-sm text-gray-500">부여할 사용자 정의 역할이 없습니다. 아래 역할 관리에서 먼저 역할을 만드세요.</div>
+      ) : (
+        <div className="space-y-2">
+          {drafts.map((d, idx) => (
+            <div key={idx} className="flex flex-wrap items-center gap-2">
+              <select value={d.roleId} onChange={(e) => update(idx, { roleId: e.target.value })} className={inputCls}>
+                <option value="">역할 선택</option>
+                {roles.map((r) => <option key={r.id!} value={r.id!}>{r.name}</option>)}
+              </select>
+              <select
+                value={d.scope}
+                onChange={(e) => update(idx, { scope: e.target.value as ScopeKind, value: '' })}
+                className={inputCls}
+              >
+                <option value="global">전체 장비</option>
+                <option value="machine">특정 장비</option>
+                <option value="location">특정 라인</option>
+              </select>
+              {d.scope === 'machine' && (
+                <select value={d.value} onChange={(e) => update(idx, { value: e.target.value })} className={inputCls}>
+                  <option value="">장비 선택</option>
+                  {machines.map((m) => <option key={m.id} value={m.machineId}>{m.name} ({m.machineId})</option>)}
+                </select>
+              )}
+              {d.scope === 'location' && (
+                <select value={d.value} onChange={(e) => update(idx, { value: e.target.value })} className={inputCls}>
+                  <option value="">라인 선택</option>
+                  {locations.map((l) => <option key={l} value={l}>{l}</option>)}
+                </select>
+              )}
+              <button
+                onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== idx))}
+                className="text-xs text-red-500 hover:text-red-400"
+              >
+                삭제
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setDrafts((prev) => [...prev, { roleId: '', scope: 'global', value: '' }])}
+            className="text-sm text-blue-500 hover:text-blue-400"
+          >
+            + 역할 추가
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3 mt-4">
+        <button
+          onClick={handleSave}
+          disabled={saving || incomplete}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+        >
+          {saving ? '저장 중...' : '저장'}
+        </button>
+        {msg && (
+          <span className={`text-sm ${msg.type === 'ok' ? 'text-green-400' : 'text-red-400'}`}>{msg.text}</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ── 역할(권한 묶음) 관리 ─────────────────────────────────────────
+
+function RoleManagementSection() {
+  const [catalogue, setCatalogue] = useState<PermissionInfo[]>([]);
+  const [roles, setRoles] = useState<RoleInfo[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string>('USER');
+  const [draft, setDraft] = useState<{ name: string; description: string; permissions: Permission[] }>({
+    name: '', description: '', permissions: [],
+  });
+  const [msg, setMsg] = useState<{ type: 'ok' | 'err'; text: string } | null>(null);
+
+  const roleKey = (r: RoleInfo) => r.baseRole ?? r.id ?? r.name;
+  const selected = roles.find((r) => roleKey(r) === selectedKey) ?? null;
+  const isNew = selectedKey === '__new__';
+
+  const load = useCallback(async () => {
+    const res = await roleApi.getAll();
+    if (res.success && res.data) {
+      setCatalogue(res.data.permissions);
+      setRoles(res.data.roles);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  useEffect(() => {
+    if (isNew) setDraft({ name: '', description: '', permissions: [] });
+    else if (selected) {
+      setDraft({ name: selected.name, description: selected.description ?? '', permissions: selected.permissions });
+    }
+  }, [selectedKey, roles]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const togglePermission = (key: Permission) =>
+    setDraft((d) => ({
+      ...d,
+      permissions: d.permissions.includes(key) ? d.permissions.filter((p) => p !== key) : [...d.permissions, key],
+    }));
+
+  const handleSave = async () => {
+    setMsg(null);
+    const res = isNew
+      ? await roleApi.create({ name: draft.name.trim(), description: draft.description.trim() || undefined, permissions: draft.permissions })
+      : selected?.baseRole
+        ? await roleApi.updateBase(selected.baseRole, draft.permissions)
+        : await roleApi.update(selected!.id!, { name: draft.name.trim(), description: draft.description.trim() || null, permissions: draft.permissions });
+    if (res.success && res.data) {
+      setMsg({ type: 'ok', text: '저장되었습니다' });
+      await load();
+      setSelectedKey(roleKey(res.data));
+    } else {
+      setMsg({ type: 'err', text: res.error?.message ?? '저장 실패' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected?.id || selected.baseRole) return;
+    const note = selected.assignmentCount > 0 ? ` (부여된 ${selected.assignmentCount}건도 함께 해제됩니다)` : '';
+    if (!confirm(`역할 "${selected.name}"을(를) 삭제하시겠습니까?${note}`)) return;
+    const res = await roleApi.delete(selected.id);
+    if (res.success) {
+      setSelectedKey('USER');
+      await load();
+    } else {
+      setMsg({ type: 'err', text: res.error?.message ?? '삭제 실패' });
+    }
+  };
+
+  const editable = isNew || !!selected?.editable;
+  const inputCls = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">역할 관리</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        기본 역할은 해당 등급 사용자 전체에 적용되고, 사용자 정의 역할은 사용자별로 전체 / 장비 / 라인 범위로 부여합니다.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {roles.map((r) => (
+          <button
+            key={roleKey(r)}
+            onClick={() => setSelectedKey(roleKey(r))}
+            className={`px-3 py-1.5 rounded-lg text-sm ${
+              selectedKey === roleKey(r) ? 'bg-blue-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+            }`}
+          >
+            {r.baseRole ? ROLE_LABEL[r.baseRole] : r.name}
+            {r.assignmentCount > 0 && <span className="ml-1 text-xs opacity-70">({r.assignmentCount})</span>}
+          </button>
+        ))}
+        <button
+          onClick={() => setSelectedKey('__new__')}
+          className={`px-3 py-1.5 rounded-lg text-sm border border-dashed ${
+            isNew ? 'border-blue-500 text-blue-500' : 'border-gray-500 text-gray-500'
+          }`}
+        >
+          + 새 역할
+        </button>
+      </div>
+
+      {(isNew || selected) && (
+        <>
+          {(isNew || !selected?.baseRole) && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+                placeholder="역할 이름 (예: 1라인 셀 리더)"
+                className={`${inputCls} w-56`}
+              />
+              <input
+                value={draft.description}
+                onChange={(e) => setDraft((d) => ({ ...d, description: e.target.value }))}
+                placeholder="설명"
+                className={`${inputCls} flex-1`}
+              />
+            </div>
+          )}
+          {selected?.baseRole === 'HQ_ENGINEER' && (
+            <p className="text-sm text-yellow-400 mb-3">본사 엔지니어는 항상 전체 권한을 가지며 변경할 수 없습니다.</p>
+          )}
+
+          {[true, false].map((scopable) => (
+            <div key={String(scopable)} className="mb-4">
+              <div className="text-xs font-semibold text-gray-500 uppercase mb-2">
+                {scopable ? '장비 범위 권한 (장비 / 라인 한정 부여 가능)' : '전체 범위 권한'}
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-1">
+                {catalogue.filter((p) => p.scopable === scopable).map((p) => (
+                  <label key={p.key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={draft.permissions.includes(p.key)}
+                      disabled={!editable}
+                      onChange={() => togglePermission(p.key)}
+                      className="w-4 h-4"
+                    />
+                    <span>{p.label}</span>
+                    <span className="text-xs text-gray-500 font-mono">{p.key}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {editable && (
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleSave}
+                disabled={isNew && !draft.name.trim()}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg"
+              >
+                {isNew ? '역할 생성' : '저장'}
+              </button>
+              {!isNew && selected && !selected.baseRole && (
+                <button
+                  onClick={handleDelete}
+                  className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded-lg"
+                >
+                  삭제
+                </button>
+              )}
+              {msg && (
+                <span className={`text-sm ${msg.type === 'ok' ? 'text-green-400' : 'text-red-400'}`}>{msg.text}</span>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,594 @@
+// ShiftCalendar - 교대/휴무 설정 관리자 페이지 (/admin/shifts)
+// 교대 패턴(교대 시간·요일), 적용 장비, 계획 정지(휴식/보수/휴일) 관리 — OEE 계획시간 기준
+
+import { useState, useEffect, useCallback } from 'react';
+import { usePermission } from '../hooks/usePermission';
+import { useMachineStore } from '../stores/machineStore';
+import {
+  shiftApi,
+  type ShiftPattern,
+  type Shift,
+  type PlannedDowntime,
+  type PlannedDowntimeType,
+} from '../lib/api';
+
+const DAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const DOWNTIME_TYPE_LABEL: Record<PlannedDowntimeType, string> = {
+  BREAK: '휴식',
+  MAINTENANCE: '보수',
+  HOLIDAY: '휴일',
+  OTHER: '기타',
+};
+
+const inputCls =
+  'px-2 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:border-blue-500 focus:outline-none';
+
+// datetime-local 값 <-> ISO
+function toLocalInput(iso: string | null): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  const pad = (v: number) => String(v).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function describeDays(days: number[]): string {
+  if (days.length === 7) return '매일';
+  if (days.length === 5 && [1, 2, 3, 4, 5].every((d) => days.includes(d))) return '평일';
+  return [...days].sort().map((d) => DAY_LABELS[d]).join(',');
+}
+
+// ── 요일 토글 ─────────────────────────────────────────────
+function DayPicker({ value, onChange }: { value: number[]; onChange: (days: number[]) => void }) {
+  const toggle = (d: number) =>
+    onChange(value.includes(d) ? value.filter((v) => v !== d) : [...value, d].sort());
+  return (
+    <div className="flex gap-0.5">
+      {ALL_DAYS.map((d) => (
+        <button
+          key={d}
+          type="button"
+          onClick={() => toggle(d)}
+          className={`w-6 h-6 text-[11px] rounded ${
+            value.includes(d) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-500 hover:bg-gray-600'
+          }`}
+        >
+          {DAY_LABELS[d]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// ── Main Component ──────────────────────────────────────
+export function ShiftCalendar() {
+  const machines = useMachineStore((s) => s.machines);
+
+  const [patterns, setPatterns] = useState<ShiftPattern[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [downtimes, setDowntimes] = useState<PlannedDowntime[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEdit = usePermission('shift.manage');
+
+  const loadPatterns = useCallback(async () => {
+    const res = await shiftApi.getPatterns();
+    if (res.success && res.data) {
+      setPatterns(res.data);
+      setSelectedId((prev) => (prev && res.data!.some((p) => p.id === prev) ? prev : res.data![0]?.id ?? null));
+    }
+  }, []);
+
+  const loadDowntimes = useCallback(async () => {
+    const res = await shiftApi.getDowntimes(selectedId ?? undefined);
+    setDowntimes(res.success && res.data ? res.data : []);
+  }, [selectedId]);
+
+  useEffect(() => { loadPatterns(); }, [loadPatterns]);
+  useEffect(() => { loadDowntimes(); }, [loadDowntimes]);
+
+  // API 결과 공통 처리 — 실패 시 메시지 표시
+  const run = async (action: () => Promise<{ success: boolean; error?: { message: string } }>, reload: () => Promise<void>) => {
+    setError(null);
+    const res = await action();
+    if (!res.success) {
+      setError(res.error?.message ?? '요청 실패');
+      return;
+    }
+    await reload();
+  };
+
+  const selected = patterns.find((p) => p.id === selectedId);
+
+  const handleCreatePattern = () => {
+    const name = prompt('새 교대 패턴 이름');
+    if (!name?.trim()) return;
+    void run(
+      () => shiftApi.createPattern({
+        name: name.trim(),
+        isDefault: patterns.length === 0,
+        shifts: [
+          { name: '주간', startTime: '08:00', endTime: '20:00' },
+          { name: '야간', startTime: '20:00', endTime: '08:00' },
+        ],
+      }),
+      loadPatterns,
+    );
+  };
+
+  const handleDeletePattern = (pattern: ShiftPattern) => {
+    if (!confirm(`'${pattern.name}' 패턴을 삭제하시겠습니까?\n적용 장비는 기본 패턴으로 전환됩니다.`)) return;
+    void run(() => shiftApi.deletePattern(pattern.id), loadPatterns);
+  };
+
+  if (!canEdit) {
+    return (
+      <div className="p-6">
+        <div className="bg-red-900/20 text-red-400 p-6 rounded-lg">
+          관리자 또는 HQ 엔지니어만 접근할 수 있습니다.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full bg-gray-900 text-white">
+      {/* ── Left Sidebar ── */}
+      <div className="w-64 bg-gray-800 border-r border-gray-700 flex flex-col flex-shrink-0">
+        <div className="p-3 border-b border-gray-700">
+          <h2 className="text-sm font-bold text-gray-200">교대/휴무 설정</h2>
+          <p className="text-[10px] text-gray-500 mt-0.5">OEE 계획시간 · 교대별 집계 기준</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {patterns.map((p) => (
+            <button
+              key={p.id}
+              onClick={() => setSelectedId(p.id)}
+              className={`w-full text-left p-2 rounded-lg text-xs transition-colors ${
+                p.id === selectedId ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              <div className="flex items-center gap-1.5">
+                <span className="font-semibold truncate">{p.name}</span>
+                {p.isDefault && (
+                  <span className="text-[10px] bg-green-600/30 text-green-300 rounded px-1.5 py-0.5">기본</span>
+                )}
+              </div>
+              <div className="text-[10px] opacity-70 mt-1">
+                교대 {p.shifts.length}개 · 장비 {p.machines?.length ?? 0}대
+              </div>
+            </button>
+          ))}
+          {patterns.length === 0 && (
+            <div className="p-3 text-center text-gray-600 text-xs">
+              교대 패턴 없음
+              <br />
+              <span className="text-[10px]">(24시간 전체를 계획시간으로 계산)</span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-2 border-t border-gray-700">
+          <button
+            onClick={handleCreatePattern}
+            className="w-full px-3 py-1.5 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            + 패턴 추가
+          </button>
+        </div>
+      </div>
+
+      {/* ── Right: Editor ── */}
+      <div className="flex-1 overflow-y-auto p-6">
+        {error && (
+          <div className="mb-4 px-4 py-2 bg-red-900/30 border border-red-800 text-red-300 text-sm rounded">
+            {error}
+          </div>
+        )}
+
+        {selected ? (
+          <div className="max-w-5xl space-y-6">
+            <PatternHeader
+              key={selected.id}
+              pattern={selected}
+              onSave={(data) => run(() => shiftApi.updatePattern(selected.id, data), loadPatterns)}
+              onDelete={() => handleDeletePattern(selected)}
+            />
+
+            <ShiftTable
+              pattern={selected}
+              onAdd={(data) => run(() => shiftApi.addShift(selected.id, data), loadPatterns)}
+              onUpdate={(shiftId, data) => run(() => shiftApi.updateShift(shiftId, data), loadPatterns)}
+              onDelete={(shiftId) => run(() => shiftApi.deleteShift(shiftId), loadPatterns)}
+            />
+
+            <MachineAssignment
+              key={`machines-${selected.id}`}
+              pattern={selected}
+              machines={machines}
+              onSave={(ids) => run(() => shiftApi.assignMachines(selected.id, ids), loadPatterns)}
+            />
+
+            <DowntimeTable
+              patternId={selected.id}
+              downtimes={downtimes}
+              machines={machines}
+              onCreate={(data) => run(() => shiftApi.createDowntime(data), loadDowntimes)}
+              onDelete={(id) => run(() => shiftApi.deleteDowntime(id), loadDowntimes)}
+            />
+          </div>
+        ) : (
+          <div className="flex items-center justify-center h-full text-gray-600 text-sm">
+            좌측에서 교대 패턴을 선택하거나 추가하세요
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ── 패턴 이름/기본 여부 ──────────────────────────────────
+
+function PatternHeader({
+  pattern,
+  onSave,
+  onDelete,
+}: {
+  pattern: ShiftPattern;
+  onSave: (data: { name: string; description: string; isDefault: boolean }) => void;
+  onDelete: () => void;
+}) {
+  const [name, setName] = useState(pattern.name);
+  const [description, setDescription] = useState(pattern.description ?? '');
+  const [isDefault, setIsDefault] = useState(pattern.isDefault);
+
+  const dirty = name !== pattern.name || description !== (pattern.description ?? '') || isDefault !== pattern.isDefault;
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 p-4 bg-gray-800 rounded-lg border border-gray-700">
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        패턴명
+        <input value={name} onChange={(e) => setName(e.target.value)} className={`${inputCls} w-48`} />
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400 flex-1 min-w-[12rem]">
+        설명
+        <input value={description} onChange={(e) => setDescription(e.target.value)} className={inputCls} />
+      </label>
+      <label className="flex items-center gap-2 text-xs text-gray-300 pb-2">
+        <input type="checkbox" checked={isDefault} onChange={(e) => setIsDefault(e.target.checked)} />
+        기본 패턴 (미지정 장비에 적용)
+      </label>
+      <button
+        onClick={() => onSave({ name, description, isDefault })}
+        disabled={!dirty}
+        className="px-4 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        저장
+      </button>
+      <button
+        onClick={onDelete}
+        className="px-3 py-1.5 text-sm text-red-400 border border-red-800 rounded hover:bg-red-900/30"
+      >
+        삭제
+      </button>
+    </div>
+  );
+}
+
+// ── 교대 목록 ────────────────────────────────────────────
+
+function ShiftRow({
+  shift,
+  onUpdate,
+  onDelete,
+}: {
+  shift: Shift;
+  onUpdate: (data: Partial<Shift>) => void;
+  onDelete: () => void;
+}) {
+  const [draft, setDraft] = useState(shift);
+  useEffect(() => setDraft(shift), [shift]);
+
+  const dirty =
+    draft.name !== shift.name ||
+    draft.startTime !== shift.startTime ||
+    draft.endTime !== shift.endTime ||
+    draft.daysOfWeek.join() !== shift.daysOfWeek.join();
+
+  const overnight = draft.endTime <= draft.startTime;
+
+  return (
+    <tr className="border-b border-gray-800 last:border-0 hover:bg-gray-800/40">
+      <td className="px-2 py-1.5">
+        <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={`${inputCls} w-full`} />
+      </td>
+      <td className="px-2 py-1.5">
+        <input type="time" value={draft.startTime} onChange={(e) => setDraft({ ...draft, startTime: e.target.value })} className={inputCls} />
+      </td>
+      <td className="px-2 py-1.5">
+        <div className="flex items-center gap-1.5">
+          <input type="time" value={draft.endTime} onChange={(e) => setDraft({ ...draft, endTime: e.target.value })} className={inputCls} />
+          {overnight && <span className="text-[10px] text-yellow-400">익일</span>}
+        </div>
+      </td>
+      <td className="px-2 py-1.5">
+        <DayPicker value={draft.daysOfWeek} onChange={(daysOfWeek) => setDraft({ ...draft, daysOfWeek })} />
+      </td>
+      <td className="px-2 py-1.5 text-right whitespace-nowrap">
+        <button
+          onClick={() => onUpdate({ name: draft.name, startTime: draft.startTime, endTime: draft.endTime, daysOfWeek: draft.daysOfWeek })}
+          disabled={!dirty}
+          className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-30"
+        >
+          저장
+        </button>
+        <button onClick={onDelete} className="ml-1 text-red-500/60 hover:text-red-400 text-xs px-1" title="삭제">✕</button>
+      </td>
+    </tr>
+  );
+}
+
+function ShiftTable({
+  pattern,
+  onAdd,
+  onUpdate,
+  onDelete,
+}: {
+  pattern: ShiftPattern;
+  onAdd: (data: { name: string; startTime: string; endTime: string; daysOfWeek: number[] }) => void;
+  onUpdate: (shiftId: string, data: Partial<Shift>) => void;
+  onDelete: (shiftId: string) => void;
+}) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-200">교대</h2>
+          <p className="text-xs text-gray-500 mt-0.5">
+            종료 시각이 시작 이하이면 익일 종료 · 가장 이른 교대 시작이 생산일 시작 기준
+          </p>
+        </div>
+        <button
+          onClick={() => onAdd({ name: `교대${pattern.shifts.length + 1}`, startTime: '08:00', endTime: '17:00', daysOfWeek: ALL_DAYS })}
+          className="px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          + 교대 추가
+        </button>
+      </div>
+
+      {pattern.shifts.length === 0 ? (
+        <div className="border border-dashed border-gray-700 rounded-lg p-8 text-center text-gray-600 text-sm">
+          교대가 없습니다. 24시간 전체가 계획시간으로 계산됩니다.
+        </div>
+      ) : (
+        <div className="border border-gray-700 rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-800 border-b border-gray-700 text-xs text-gray-400">
+                <th className="px-3 py-2.5 text-left">교대명</th>
+                <th className="px-3 py-2.5 text-left w-32">시작</th>
+                <th className="px-3 py-2.5 text-left w-40">종료</th>
+                <th className="px-3 py-2.5 text-left w-56">요일</th>
+                <th className="px-3 py-2.5 w-24" />
+              </tr>
+            </thead>
+            <tbody>
+              {pattern.shifts.map((shift) => (
+                <ShiftRow
+                  key={shift.id}
+                  shift={shift}
+                  onUpdate={(data) => onUpdate(shift.id, data)}
+                  onDelete={() => onDelete(shift.id)}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── 적용 장비 ────────────────────────────────────────────
+
+function MachineAssignment({
+  pattern,
+  machines,
+  onSave,
+}: {
+  pattern: ShiftPattern;
+  machines: { machineId: string; name: string }[];
+  onSave: (machineIds: string[]) => void;
+}) {
+  const initial = (pattern.machines ?? []).map((m) => m.machineId);
+  const [selected, setSelected] = useState<string[]>(initial);
+  const dirty = selected.slice().sort().join() !== initial.slice().sort().join();
+
+  const toggle = (machineId: string) =>
+    setSelected((prev) => (prev.includes(machineId) ? prev.filter((id) => id !== machineId) : [...prev, machineId]));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-200">적용 장비</h2>
+          <p className="text-xs text-gray-500 mt-0.5">
+            선택하지 않은 장비는 기본 패턴을 따릅니다
+          </p>
+        </div>
+        <button
+          onClick={() => onSave(selected)}
+          disabled={!dirty}
+          className="px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40"
+        >
+          적용
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {machines.map((m) => (
+          <button
+            key={m.machineId}
+            onClick={() => toggle(m.machineId)}
+            className={`px-3 py-1.5 text-xs rounded border transition-colors ${
+              selected.includes(m.machineId)
+                ? 'bg-blue-600/30 border-blue-600 text-blue-300'
+                : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
+            }`}
+          >
+            {m.name} <span className="font-mono opacity-60">{m.machineId}</span>
+          </button>
+        ))}
+        {machines.length === 0 && <span className="text-xs text-gray-600">등록된 장비 없음</span>}
+      </div>
+    </div>
+  );
+}
+
+// ── 계획 정지 ────────────────────────────────────────────
+
+function DowntimeTable({
+  patternId,
+  downtimes,
+  machines,
+  onCreate,
+  onDelete,
+}: {
+  patternId: string;
+  downtimes: PlannedDowntime[];
+  machines: { machineId: string; name: string }[];
+  onCreate: (data: Parameters<typeof shiftApi.createDowntime>[0]) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [mode, setMode] = useState<'recurring' | 'oneoff'>('recurring');
+  const [name, setName] = useState('');
+  const [type, setType] = useState<PlannedDowntimeType>('BREAK');
+  const [machineId, setMachineId] = useState('');
+  const [startTime, setStartTime] = useState('12:00');
+  const [endTime, setEndTime] = useState('13:00');
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>(ALL_DAYS);
+  const [startAt, setStartAt] = useState('');
+  const [endAt, setEndAt] = useState('');
+
+  const handleAdd = () => {
+    onCreate({
+      name,
+      type,
+      patternId: machineId ? null : patternId,
+      machineId: machineId || null,
+      ...(mode === 'recurring'
+        ? { startTime, endTime, daysOfWeek }
+        : {
+            startAt: startAt ? new Date(startAt).toISOString() : null,
+            endAt: endAt ? new Date(endAt).toISOString() : null,
+          }),
+    });
+    setName('');
+  };
+
+  return (
+    <div>
+      <div className="mb-3">
+        <h2 className="text-sm font-semibold text-gray-200">계획 정지</h2>
+        <p className="text-xs text-gray-500 mt-0.5">
+          반복(휴식 등) 또는 단발(휴일·보수) 정지 — 계획시간에서 제외되어 가동률에 반영되지 않습니다
+        </p>
+      </div>
+
+      {/* 추가 폼 */}
+      <div className="flex flex-wrap items-end gap-2 p-3 mb-3 bg-gray-800 rounded-lg border border-gray-700">
+        <div className="flex rounded overflow-hidden border border-gray-600">
+          {(['recurring', 'oneoff'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => {
+                setMode(m);
+                setType(m === 'recurring' ? 'BREAK' : 'HOLIDAY');
+              }}
+              className={`px-3 py-1.5 text-xs ${mode === m ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400'}`}
+            >
+              {m === 'recurring' ? '반복' : '단발'}
+            </button>
+          ))}
+        </div>
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="예: 점심시간" className={`${inputCls} w-36`} />
+        <select value={type} onChange={(e) => setType(e.target.value as PlannedDowntimeType)} className={inputCls}>
+          {(Object.keys(DOWNTIME_TYPE_LABEL) as PlannedDowntimeType[]).map((t) => (
+            <option key={t} value={t}>{DOWNTIME_TYPE_LABEL[t]}</option>
+          ))}
+        </select>
+        <select value={machineId} onChange={(e) => setMachineId(e.target.value)} className={inputCls}>
+          <option value="">패턴 전체</option>
+          {machines.map((m) => (
+            <option key={m.machineId} value={m.machineId}>{m.name}</option>
+          ))}
+        </select>
+        {mode === 'recurring' ? (
+          <>
+            <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className={inputCls} />
+            <span className="text-gray-500 text-xs pb-2">~</span>
+            <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className={inputCls} />
+            <DayPicker value={daysOfWeek} onChange={setDaysOfWeek} />
+          </>
+        ) : (
+          <>
+            <input type="datetime-local" value={startAt} onChange={(e) => setStartAt(e.target.value)} className={inputCls} />
+            <span className="text-gray-500 text-xs pb-2">~</span>
+            <input type="datetime-local" value={endAt} onChange={(e) => setEndAt(e.target.value)} className={inputCls} />
+          </>
+        )}
+        <button
+          onClick={handleAdd}
+          disabled={!name.trim()}
+          className="px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40"
+        >
+          + 추가
+        </button>
+      </div>
+
+      {downtimes.length === 0 ? (
+        <div className="border border-dashed border-gray-700 rounded-lg p-8 text-center text-gray-600 text-sm">
+          등록된 계획 정지가 없습니다.
+        </div>
+      ) : (
+        <div className="border border-gray-700 rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-800 border-b border-gray-700 text-xs text-gray-400">
+                <th className="px-3 py-2.5 text-left">항목</th>
+                <th className="px-3 py-2.5 text-left w-20">유형</th>
+                <th className="px-3 py-2.5 text-left w-32">대상</th>
+                <th className="px-3 py-2.5 text-left">시간</th>
+                <th className="px-3 py-2.5 w-10" />
+              </tr>
+            </thead>
+            <tbody>
+              {downtimes.map((dt) => (
+                <tr key={dt.id} className="border-b border-gray-800 last:border-0 hover:bg-gray-800/40">
+                  <td className="px-3 py-2">{dt.name}</td>
+                  <td className="px-3 py-2 text-xs text-gray-400">{DOWNTIME_TYPE_LABEL[dt.type]}</td>
+                  <td className="px-3 py-2 text-xs text-gray-400">
+                    {dt.machine ? dt.machine.name : dt.patternId ? '패턴 전체' : '전체 공통'}
+                  </td>
+                  <td className="px-3 py-2 text-xs font-mono text-gray-300">
+                    {dt.startAt
+                      ? `${toLocalInput(dt.startAt).replace('T', ' ')} ~ ${toLocalInput(dt.endAt).replace('T', ' ')}`
+                      : `${dt.startTime} ~ ${dt.endTime} (${describeDays(dt.daysOfWeek)})`}
+                  </td>
+                  <td className="px-2 py-2 text-center">
+                    <button
+                      onClick={() => confirm(`'${dt.name}' 항목을 삭제하시겠습니까?`) && onDelete(dt.id)}
+                      className="text-red-500/60 hover:text-red-400 text-xs px-1"
+                      title="삭제"
+                    >✕</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+// Spc - SPC 관리도 (/spc)
+// - 측정 항목별 개별값(I-MR) / X̄-R 관리도, Western Electric 규칙 1~4 위반 표시
+// - 제품 코드별 공정능력 (Cp / Cpk / Pp / Ppk)
+// - 관리도 이상 이력 (실시간 'spc_violation' 반영)
+
+import { useState, useEffect, useCallback } from 'react';
+import { useMachineStore } from '../stores/machineStore';
+import { wsClient } from '../lib/wsClient';
+import {
+  measurementApi,
+  spcApi,
+  type MeasurementFeatureInfo,
+  type SpcCapability,
+  type SpcChartData,
+  type SpcChartType,
+  type SpcViolationInfo,
+} from '../lib/api';
+import { ControlChart } from '../components/measurement/ControlChart';
+
+const inputCls =
+  'px-2 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:border-blue-500 focus:outline-none';
+
+const CHART_LABEL: Record<SpcChartType, string> = { INDIVIDUALS: '개별값 (I-MR)', XBAR: 'X̄-R' };
+
+const RULE_LABELS: Record<number, string> = {
+  1: '1점이 관리 한계(3σ) 밖',
+  2: '연속 3점 중 2점이 2σ 밖 (같은 쪽)',
+  3: '연속 5점 중 4점이 1σ 밖 (같은 쪽)',
+  4: '연속 8점이 중심선 한쪽',
+};
+
+// 제품 코드 선택값 — 전체 / 제품 코드 없음 / 코드
+const ALL_PRODUCTS = '__all__';
+const NO_PRODUCT = '__none__';
+
+function productParam(value: string): string | null | undefined {
+  if (value === ALL_PRODUCTS) return undefined;
+  if (value === NO_PRODUCT) return null;
+  return value;
+}
+
+function formatIndex(v: number | null): string {
+  return v === null ? '-' : v.toFixed(2);
+}
+
+// Cpk 1.33 이상 양호, 1.0 미만 불량
+function indexCls(v: number | null): string {
+  if (v === null) return 'text-gray-500';
+  if (v >= 1.33) return 'text-green-400';
+  if (v >= 1) return 'text-yellow-400';
+  return 'text-red-400';
+}
+
+export function Spc() {
+  const machines = useMachineStore((s) => s.machines);
+
+  const [machineId, setMachineId] = useState('');
+  const [features, setFeatures] = useState<MeasurementFeatureInfo[]>([]);
+  const [featureId, setFeatureId] = useState('');
+  const [chart, setChart] = useState<SpcChartType>('INDIVIDUALS');
+  const [product, setProduct] = useState(ALL_PRODUCTS);
+  const [data, setData] = useState<SpcChartData | null>(null);
+  const [capabilities, setCapabilities] = useState<SpcCapability[]>([]);
+  const [violations, setViolations] = useState<SpcViolationInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!machineId && machines.length > 0) setMachineId(machines[0].machineId);
+  }, [machines, machineId]);
+
+  useEffect(() => {
+    if (!machineId) return;
+    setFeatures([]);
+    setFeatureId('');
+    measurementApi.features(machineId).then((res) => {
+      if (!res.success || !res.data) {
+        setError(res.error?.message ?? '측정 항목을 불러올 수 없습니다');
+        return;
+      }
+      setFeatures(res.data);
+      if (res.data.length > 0) setFeatureId(res.data[0].id);
+    });
+  }, [machineId]);
+
+  const feature = features.find((f) => f.id === featureId) ?? null;
+
+  const loadChart = useCallback(async () => {
+    if (!featureId) {
+      setData(null);
+      setCapabilities([]);
+      return;
+    }
+    setError(null);
+    const [chartRes, capabilityRes] = await Promise.all([
+      spcApi.chart(featureId, chart, productParam(product)),
+      spcApi.capability(featureId, chart),
+    ]);
+    if (chartRes.success && chartRes.data) setData(chartRes.data);
+    else setError(chartRes.error?.message ?? '관리도를 불러올 수 없습니다');
+    setCapabilities(capabilityRes.success && capabilityRes.data ? capabilityRes.data : []);
+  }, [featureId, chart, product]);
+
+  const loadViolations = useCallback(async () => {
+    if (!machineId) return;
+    const res = await spcApi.violations({ machineId, limit: 50 });
+    setViolations(res.success && res.data ? res.data : []);
+  }, [machineId]);
+
+  useEffect(() => { setProduct(ALL_PRODUCTS); }, [featureId]);
+  useEffect(() => { void loadChart(); }, [loadChart]);
+  useEffect(() => { void loadViolations(); }, [loadViolations]);
+
+  // 새 이상 발생 시 이력 / 현재 관리도 갱신
+  useEffect(() => {
+    return wsClient.onMessage((msg) => {
+      if (msg.type !== 'spc_violation') return;
+      const p = msg.payload as { machineId: string; featureId: string };
+      if (p.machineId !== machineId) return;
+      void loadViolations();
+      if (p.featureId === featureId) void loadChart();
+    });
+  }, [machineId, featureId, loadViolations, loadChart]);
+
+  const current = data?.capability ?? null;
+
+  return (
+    <div className="p-4 space-y-4 text-gray-200">
+      {/* 헤더 */}
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div>
+          <h1 className="text-xl font-semibold text-white">SPC 관리도</h1>
+          <p className="text-xs text-gray-500">측정 항목별 관리도와 공정능력 — Western Electric 규칙 위반은 이벤트 로그로 알립니다</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={machineId} onChange={(e) => setMachineId(e.target.value)} className={inputCls}>
+            {machines.map((m) => <option key={m.machineId} value={m.machineId}>{m.name} ({m.machineId})</option>)}
+          </select>
+          <select value={featureId} onChange={(e) => setFeatureId(e.target.value)} className={inputCls} disabled={features.length === 0}>
+            {features.length === 0 && <option value="">측정 항목 없음</option>}
+            {features.map((f) => <option key={f.id} value={f.id}>{f.name}</option>)}
+          </select>
+          <select value={product} onChange={(e) => setProduct(e.target.value)} className={inputCls}>
+            <option value={ALL_PRODUCTS}>전체 제품</option>
+            {capabilities.map((c) => (
+              <option key={c.productCode ?? NO_PRODUCT} value={c.productCode ?? NO_PRODUCT}>{c.productCode ?? '(미지정)'}</option>
+            ))}
+          </select>
+          <div className="flex rounded overflow-hidden border border-gray-700">
+            {(['INDIVIDUALS', 'XBAR'] as const).map((c) => (
+              <button
+                key={c}
+                onClick={() => setChart(c)}
+                className={`px-3 py-1.5 text-sm ${chart === c ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+              >
+                {CHART_LABEL[c]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="px-3 py-2 bg-red-900/40 border border-red-800 rounded text-sm text-red-300">{error}</div>}
+
+      {feature && data && (
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
+          {/* 관리도 */}
+          <div className="xl:col-span-2 bg-gray-900 rounded-lg">
+            <div className="px-3 py-2 border-b border-gray-700 text-sm font-semibold">
+              {CHART_LABEL[data.chart]} · <span className="font-mono">{feature.name}</span>
+              <span className="ml-2 text-xs font-normal text-gray-500">
+                {data.chart === 'XBAR' ? `부분군 n=${data.subgroupSize} · ${data.points.length}개` : `${data.points.length}점`}
+                {data.sigmaWithin !== null && ` · σ(군내) ${data.sigmaWithin.toFixed(4)}`}
+              </span>
+            </div>
+            <div className="p-3">
+              {!data.limits && data.points.length > 0 && (
+                <div className="mb-2 text-xs text-yellow-500">데이터가 부족해 관리 한계를 계산할 수 없습니다</div>
+              )}
+              <ControlChart data={data} />
+            </div>
+            <div className="px-3 pb-3 grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-500">
+              {Object.entries(RULE_LABELS).map(([rule, label]) => (
+                <div key={rule}><span className="text-gray-400">규칙 {rule}</span> {label}</div>
+              ))}
+            </div>
+          </div>
+
+          {/* 공정능력 */}
+          <div className="bg-gray-900 rounded-lg">
+            <div className="px-3 py-2 border-b border-gray-700 text-sm font-semibold">
+              공정능력
+              <span className="ml-2 text-xs font-normal text-gray-500">
+                {product === ALL_PRODUCTS ? '전체 제품' : productParam(product) ?? '(미지정)'}
+              </span>
+            </div>
+            {current && (
+              <div className="p-3 space-y-3">
+                <div className="grid grid-cols-4 gap-2 text-center">
+                  {([['Cp', current.cp], ['Cpk', current.cpk], ['Pp', current.pp], ['Ppk', current.ppk]] as const).map(([label, v]) => (
+                    <div key={label} className="bg-gray-800 rounded py-2">
+                      <div className="text-xs text-gray-500">{label}</div>
+                      <div className={`text-lg font-mono ${indexCls(v)}`}>{formatIndex(v)}</div>
+                    </div>
+                  ))}
+                </div>
+                <dl className="grid grid-cols-2 gap-y-1 text-xs font-mono">
+                  <dt className="text-gray-500">측정 수</dt><dd className="text-right">{current.count}</dd>
+                  <dt className="text-gray-500">평균</dt><dd className="text-right">{current.mean?.toFixed(4) ?? '-'}</dd>
+                  <dt className="text-gray-500">σ 군내 / 전체</dt>
+                  <dd className="text-right">{current.sigmaWithin?.toFixed(4) ?? '-'} / {current.sigmaOverall?.toFixed(4) ?? '-'}</dd>
+                  <dt className="text-gray-500">LSL / USL</dt><dd className="text-right">{current.lsl.toFixed(4)} / {current.usl.toFixed(4)}</dd>
+                </dl>
+              </div>
+            )}
+
+            <table className="w-full text-xs">
+              <thead className="text-gray-400 border-y border-gray-700">
+                <tr>
+                  <th className="px-3 py-1.5 text-left font-medium">제품 코드</th>
+                  <th className="px-3 py-1.5 text-right font-medium">n</th>
+                  <th className="px-3 py-1.5 text-right font-medium">Cp</th>
+                  <th className="px-3 py-1.5 text-right font-medium">Cpk</th>
+                </tr>
+              </thead>
+              <tbody>
+                {capabilities.length === 0 && (
+                  <tr><td colSpan={4} className="px-3 py-4 text-center text-gray-500">측정 기록이 없습니다</td></tr>
+                )}
+                {capabilities.map((c) => {
+                  const value = c.productCode ?? NO_PRODUCT;
+                  return (
+                    <tr
+                      key={value}
+                      onClick={() => setProduct(value)}
+                      className={`border-b border-gray-800 cursor-pointer ${product === value ? 'bg-gray-800' : 'hover:bg-gray-800/50'}`}
+                    >
+                      <td className="px-3 py-1.5 font-mono">{c.productCode ?? <span className="text-gray-500">(미지정)</span>}</td>
+                      <td className="px-3 py-1.5 text-right font-mono text-gray-400">{c.count}</td>
+                      <td className={`px-3 py-1.5 text-right font-mono ${indexCls(c.cp)}`}>{formatIndex(c.cp)}</td>
+                      <td className={`px-3 py-1.5 text-right font-mono ${indexCls(c.cpk)}`}>{formatIndex(c.cpk)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {machineId && features.length === 0 && (
+        <div className="bg-gray-900 rounded-lg p-6 text-center text-sm text-gray-500">
+          등록된 측정 항목이 없습니다 — 측정 보정 화면에서 항목을 등록하세요
+        </div>
+      )}
+
+      {/* 이상 이력 */}
+      <div className="bg-gray-900 rounded-lg overflow-hidden">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+          <div className="text-sm font-semibold">관리도 이상 이력</div>
+          <button onClick={() => { void loadViolations(); }} className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 rounded">새로고침</button>
+        </div>
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-400 border-b border-gray-700">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">발생 시각</th>
+              <th className="px-3 py-2 text-left font-medium">항목</th>
+              <th className="px-3 py-2 text-left font-medium">제품 코드</th>
+              <th className="px-3 py-2 text-left font-medium">관리도</th>
+              <th className="px-3 py-2 text-left font-medium">규칙</th>
+              <th className="px-3 py-2 text-right font-medium">타점</th>
+              <th className="px-3 py-2 text-right font-medium">LCL / CL / UCL</th>
+            </tr>
+          </thead>
+          <tbody>
+            {violations.length === 0 && (
+              <tr><td colSpan={7} className="px-3 py-6 text-center text-gray-500">관리도 이상이 없습니다</td></tr>
+            )}
+            {violations.map((v) => (
+              <tr
+                key={v.id}
+                onClick={() => { setFeatureId(v.featureId); setChart(v.chart); }}
+                className="border-b border-gray-800 cursor-pointer hover:bg-gray-800/50"
+              >
+                <td className="px-3 py-2 text-xs text-gray-400 whitespace-nowrap">{new Date(v.createdAt).toLocaleString('ko-KR', { hour12: false })}</td>
+                <td className="px-3 py-2 font-mono text-xs">{v.featureName}</td>
+                <td className="px-3 py-2 font-mono text-xs text-gray-400">{v.productCode ?? '-'}</td>
+                <td className="px-3 py-2 text-xs">{CHART_LABEL[v.chart]}</td>
+                <td className="px-3 py-2 text-xs text-yellow-400">{v.rule} · {RULE_LABELS[v.rule]}</td>
+                <td className="px-3 py-2 text-right font-mono text-xs text-red-400">{v.value.toFixed(4)}</td>
+                <td className="px-3 py-2 text-right font-mono text-xs text-gray-500">
+                  {v.lcl.toFixed(4)} / {v.centerLine.toFixed(4)} / {v.ucl.toFixed(4)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
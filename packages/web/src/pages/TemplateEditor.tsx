@@ -2,11 +2,14 @@
 // HQ_ENGINEER/ADMIN 전용: 장비 템플릿 작성/편집/Import/Export
 
 import { useState, useEffect, useCallback, type ReactNode } from 'react';
-import { useAuthStore } from '../stores/authStore';
+import { usePermission } from '../hooks/usePermission';
 import {
   useTemplateStore,
   useSelectedTemplate,
   type CncTemplate,
+  type OffsetAxisKey,
+  type OffsetAxisLimit,
+  type OffsetAxisLimits,
   type PmcAddress,
   type PmcMessageEntry,
   type ToolLifeColumn,
@@ -842,13 +845,155 @@ function SectionCapabilities({ data, update }: { data: CncTemplate; update: (pat
   );
 }
 
+// ── Section 9: Offset Config (안전 한계) ─────────────────
+const OFFSET_AXES: OffsetAxisKey[] = ['X', 'Z', 'Y', 'R'];
+
+// 한계 입력 (빈 값 / 0 이하 = 제한 없음)
+function LimitInput({ value, onChange }: { value?: number; onChange: (v: number | undefined) => void }) {
+  return (
+    <input
+      type="number"
+      step="0.001"
+      min={0}
+      value={value ?? ''}
+      onChange={e => {
+        const n = parseFloat(e.target.value);
+        onChange(Number.isFinite(n) && n > 0 ? n : undefined);
+      }}
+      placeholder="제한 없음"
+      className="w-24 px-2 py-1 text-xs bg-gray-700 border border-gray-600 rounded text-white font-mono placeholder-gray-600 [appearance:textfield]"
+    />
+  );
+}
+
+function SectionOffsetConfig({ data, update }: { data: CncTemplate; update: (path: string, v: unknown) => void }) {
+  const oc = data.offsetConfig ?? { toolCount: 64, pageSize: 16 };
+  const limits = oc.limits ?? {};
+  const toolLimits = oc.toolLimits ?? {};
+  const [newToolNo, setNewToolNo] = useState('');
+  const [newAxis, setNewAxis] = useState<OffsetAxisKey>('X');
+
+  const setAxisLimit = (axis: OffsetAxisKey, field: keyof OffsetAxisLimit, v: number | undefined) => {
+    update('offsetConfig.limits', { ...limits, [axis]: { ...limits[axis], [field]: v } });
+  };
+
+  const setToolLimit = (toolNo: string, axis: OffsetAxisKey, field: keyof OffsetAxisLimit, v: number | undefined) => {
+    const tool: OffsetAxisLimits = { ...toolLimits[toolNo], [axis]: { ...toolLimits[toolNo]?.[axis], [field]: v } };
+    update('offsetConfig.toolLimits', { ...toolLimits, [toolNo]: tool });
+  };
+
+  const removeToolLimit = (toolNo: string, axis: OffsetAxisKey) => {
+    const { [axis]: _removed, ...rest } = toolLimits[toolNo] ?? {};
+    const next = { ...toolLimits };
+    if (Object.keys(rest).length === 0) delete next[toolNo];
+    else next[toolNo] = rest;
+    update('offsetConfig.toolLimits', next);
+  };
+
+  const addToolLimit = () => {
+    const no = parseInt(newToolNo);
+    if (!Number.isInteger(no) || no < 1 || no > 64) return;
+    if (toolLimits[String(no)]?.[newAxis]) return;
+    update('offsetConfig.toolLimits', { ...toolLimits, [String(no)]: { ...toolLimits[String(no)], [newAxis]: {} } });
+    setNewToolNo('');
+  };
+
+  const toolRows = Object.entries(toolLimits)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .flatMap(([toolNo, axes]) => OFFSET_AXES.filter(axis => axes[axis]).map(axis => ({ toolNo, axis, limit: axes[axis]! })));
+
+  return (
+    <div className="space-y-4 pt-3">
+      <div className="grid grid-cols-2 gap-4">
+        <NumberInput label="최대 공구 수" value={oc.toolCount} onChange={v => update('offsetConfig.toolCount', v)} min={1} max={64} />
+        <NumberInput label="페이지당 표시 수" value={oc.pageSize} onChange={v => update('offsetConfig.pageSize', v)} min={1} max={64} />
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-400 font-semibold mb-1 uppercase tracking-wide">축별 안전 한계 (mm)</p>
+        <p className="text-[10px] text-gray-500 mb-2">초과하는 마모 오프셋 쓰기는 한계 초과 승인 권한이 있는 다른 계정의 승인이 필요합니다</p>
+        <table className="text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-medium pr-4 pb-1">축</th>
+              <th className="text-left font-medium pr-4 pb-1">1회 변경량 상한</th>
+              <th className="text-left font-medium pb-1">마모 값 상한 (±)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {OFFSET_AXES.map(axis => (
+              <tr key={axis}>
+                <td className="pr-4 py-1 font-mono text-gray-300">{axis}</td>
+                <td className="pr-4 py-1"><LimitInput value={limits[axis]?.maxDelta} onChange={v => setAxisLimit(axis, 'maxDelta', v)} /></td>
+                <td className="py-1"><LimitInput value={limits[axis]?.maxAbs} onChange={v => setAxisLimit(axis, 'maxAbs', v)} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-400 font-semibold mb-1 uppercase tracking-wide">공구별 한계 (축별 값 덮어쓰기)</p>
+        <p className="text-[10px] text-gray-500 mb-2">빈 칸은 축별 한계를 따릅니다</p>
+        {toolRows.length > 0 && (
+          <table className="text-xs mb-2">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-medium pr-4 pb-1">공구</th>
+                <th className="text-left font-medium pr-4 pb-1">축</th>
+                <th className="text-left font-medium pr-4 pb-1">1회 변경량 상한</th>
+                <th className="text-left font-medium pr-4 pb-1">마모 값 상한 (±)</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {toolRows.map(({ toolNo, axis, limit }) => (
+                <tr key={`${toolNo}-${axis}`}>
+                  <td className="pr-4 py-1 font-mono text-cyan-400">T{toolNo.padStart(2, '0')}</td>
+                  <td className="pr-4 py-1 font-mono text-gray-300">{axis}</td>
+                  <td className="pr-4 py-1"><LimitInput value={limit.maxDelta} onChange={v => setToolLimit(toolNo, axis, 'maxDelta', v)} /></td>
+                  <td className="pr-4 py-1"><LimitInput value={limit.maxAbs} onChange={v => setToolLimit(toolNo, axis, 'maxAbs', v)} /></td>
+                  <td className="py-1">
+                    <button onClick={() => removeToolLimit(toolNo, axis)} className="px-1.5 py-0.5 text-[10px] text-red-400 hover:text-red-300" title="제거">x</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            max={64}
+            value={newToolNo}
+            onChange={e => setNewToolNo(e.target.value)}
+            placeholder="공구 번호"
+            className="w-24 px-2 py-1 text-xs bg-gray-700 border border-gray-600 rounded text-white font-mono [appearance:textfield]"
+          />
+          <select
+            value={newAxis}
+            onChange={e => setNewAxis(e.target.value as OffsetAxisKey)}
+            className="w-14 px-1 py-1 text-xs bg-gray-700 border border-gray-600 rounded text-white"
+          >
+            {OFFSET_AXES.map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+          <button
+            onClick={addToolLimit}
+            className="px-2 py-1 text-[10px] bg-gray-700 text-gray-300 rounded hover:bg-gray-600"
+          >+ 공구 한계 추가</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ═══════════════════════════════════════════════════════════
 //  Main Page Component
 // ═══════════════════════════════════════════════════════════
 
 export function TemplateEditor() {
-  const user = useAuthStore(s => s.user);
-  const canAccess = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const canAccess = usePermission('template.edit');
 
   const {
     templates, selectedTemplateId,
@@ -870,6 +1015,7 @@ export function TemplateEditor() {
     toolLifeConfig: false,
     pmcMessages: false,
     capabilities: false,
+    offsetConfig: false,
   });
 
   useEffect(() => { loadTemplates(); }, [loadTemplates]);
@@ -1082,6 +1228,10 @@ export function TemplateEditor() {
             <CollapsibleSection title="8. 기능 플래그 (Capabilities)" expanded={expanded.capabilities} onToggle={() => toggleSection('capabilities')}>
               <SectionCapabilities data={formData} update={updateField} />
             </CollapsibleSection>
+
+            <CollapsibleSection title="9. 오프셋 설정 (안전 한계)" expanded={expanded.offsetConfig} onToggle={() => toggleSection('offsetConfig')}>
+              <SectionOffsetConfig data={formData} update={updateField} />
+            </CollapsibleSection>
           </div>
         ) : (
           <div className="flex-1 flex items-center justify-center text-gray-500 text-sm">
@@ -0,0 +1,170 @@
+// ToolChanges - 공구 교체 계획 보드 (/tool-changes)
+// - 전체 장비에서 수명 도달 + N시간 내 교체 예상 공구 (임박 순) → 공구실 인서트 사전 준비
+// - 예상: 서버가 주기 수집한 수명 카운트 ÷ M20 생산 기준 소모율 (1분마다 갱신)
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useMachineStore } from '../stores/machineStore';
+import { toolLifeApi, type ToolChangeBoard, type ToolForecast } from '../lib/api';
+import { formatDuration } from '../lib/machineUtils';
+
+const HORIZONS = [2, 4, 8, 12, 24] as const;
+const REFRESH_MS = 60_000;
+
+const inputCls =
+  'px-2 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:border-blue-500 focus:outline-none';
+
+function formatDue(t: ToolForecast): string {
+  if (t.status === 'EXPIRED') return '수명 도달';
+  return formatDuration((t.hoursRemaining ?? 0) * 3600).replace(/ \d+초$/, '');
+}
+
+function dueCls(t: ToolForecast): string {
+  if (t.status === 'EXPIRED' || (t.hoursRemaining ?? 0) < 1) return 'text-red-400';
+  if ((t.hoursRemaining ?? 0) < 4) return 'text-yellow-400';
+  return 'text-gray-300';
+}
+
+export function ToolChanges() {
+  const machines = useMachineStore((s) => s.machines);
+
+  const [hours, setHours] = useState<number>(8);
+  const [location, setLocation] = useState('');
+  const [board, setBoard] = useState<ToolChangeBoard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const locations = useMemo(
+    () => [...new Set(machines.map((m) => m.location).filter((l): l is string => !!l))].sort(),
+    [machines],
+  );
+
+  const load = useCallback(async () => {
+    const res = await toolLifeApi.board(hours, location || undefined);
+    if (res.success && res.data) {
+      setBoard(res.data);
+      setError(null);
+    } else {
+      setError(res.error?.message ?? '교체 계획을 불러올 수 없습니다');
+    }
+  }, [hours, location]);
+
+  useEffect(() => {
+    void load();
+    const timer = setInterval(() => { void load(); }, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const tools = board?.tools ?? [];
+  const expired = tools.filter((t) => t.status === 'EXPIRED').length;
+  const withinHour = tools.filter((t) => t.status === 'FORECAST' && (t.hoursRemaining ?? 0) < 1).length;
+  const machineCount = new Set(tools.map((t) => t.machineId)).size;
+
+  return (
+    <div className="p-4 space-y-4 text-gray-200">
+      {/* 헤더 */}
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div>
+          <h1 className="text-xl font-semibold text-white">공구 교체 계획</h1>
+          <p className="text-xs text-gray-500">공구 수명 카운트와 M20 생산 속도로 교체 시점을 예측합니다 — 장비가 수명 정지하기 전에 인서트를 준비하세요</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {locations.length > 0 && (
+            <select value={location} onChange={(e) => setLocation(e.target.value)} className={inputCls}>
+              <option value="">전체 라인</option>
+              {locations.map((l) => <option key={l} value={l}>{l}</option>)}
+            </select>
+          )}
+          <div className="flex rounded overflow-hidden border border-gray-700">
+            {HORIZONS.map((h) => (
+              <button
+                key={h}
+                onClick={() => setHours(h)}
+                className={`px-3 py-1.5 text-sm ${hours === h ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+              >
+                {h}시간
+              </button>
+            ))}
+          </div>
+          <button onClick={() => { void load(); }} className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-sm rounded">새로고침</button>
+        </div>
+      </div>
+
+      {error && <div className="px-3 py-2 bg-red-900/40 border border-red-800 rounded text-sm text-red-300">{error}</div>}
+
+      {/* 요약 */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {([
+          ['수명 도달', expired, expired > 0 ? 'text-red-400' : 'text-gray-300'],
+          ['1시간 내', withinHour, withinHour > 0 ? 'text-yellow-400' : 'text-gray-300'],
+          [`${hours}시간 내 전체`, tools.length, 'text-gray-100'],
+          ['대상 장비', machineCount, 'text-gray-100'],
+        ] as const).map(([label, value, cls]) => (
+          <div key={label} className="bg-gray-900 rounded-lg px-4 py-3">
+            <div className="text-xs text-gray-500">{label}</div>
+            <div className={`text-2xl font-mono ${cls}`}>{value}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* 교체 예정 */}
+      <div className="bg-gray-900 rounded-lg overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-400 border-b border-gray-700">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">남은 시간</th>
+              <th className="px-3 py-2 text-left font-medium">예상 시각</th>
+              <th className="px-3 py-2 text-left font-medium">장비</th>
+              <th className="px-3 py-2 text-left font-medium">공구</th>
+              <th className="px-3 py-2 text-left font-medium">사용 / 수명</th>
+              <th className="px-3 py-2 text-right font-medium">잔여 수량</th>
+              <th className="px-3 py-2 text-right font-medium">소모율</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tools.length === 0 && (
+              <tr><td colSpan={7} className="px-3 py-6 text-center text-gray-500">{hours}시간 내 교체 예정 공구가 없습니다</td></tr>
+            )}
+            {tools.map((t) => {
+              const pct = t.preset > 0 ? Math.min((t.count / t.preset) * 100, 100) : 0;
+              return (
+                <tr key={`${t.machineId}:${t.path}:${t.toolNo}`} className={`border-b border-gray-800 ${t.stale ? 'opacity-60' : ''}`}>
+                  <td className={`px-3 py-2 font-mono text-xs whitespace-nowrap ${dueCls(t)}`}>{formatDue(t)}</td>
+                  <td className="px-3 py-2 text-xs text-gray-400 whitespace-nowrap">
+                    {t.dueAt ? new Date(t.dueAt).toLocaleString('ko-KR', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false }) : '-'}
+                    {t.stale && <div className="text-yellow-600" title={`마지막 샘플 ${new Date(t.sampledAt).toLocaleString('ko-KR', { hour12: false })}`}>샘플 지연</div>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="text-gray-200">{t.machineName}</div>
+                    <div className="text-xs text-gray-500">{t.machineId}{t.location && ` · ${t.location}`}</div>
+                  </td>
+                  <td className="px-3 py-2 font-mono text-xs text-cyan-400">P{t.path} {t.toolNo}</td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      <div className="w-24 bg-gray-700 rounded-full h-1.5 overflow-hidden">
+                        <div className={`h-full rounded-full ${pct >= 100 ? 'bg-red-500' : pct > 90 ? 'bg-yellow-500' : 'bg-emerald-500'}`} style={{ width: `${pct}%` }} />
+                      </div>
+                      <span className="font-mono text-xs text-gray-400">{t.count} / {t.preset}</span>
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-right font-mono text-xs">{t.partsRemaining ?? '-'}</td>
+                  <td className="px-3 py-2 text-right font-mono text-xs text-gray-400">
+                    {t.basis === 'M20'
+                      ? <span title={`최근 생산 ${t.partsPerHour!.toFixed(1)}개/시간`}>{t.usagePerPart!.toFixed(2)}/개</span>
+                      : t.basis === 'TIME'
+                        ? <span title="M20 기록 없음 — 시간 기준">{t.consumptionPerHour!.toFixed(1)}/시간</span>
+                        : '-'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {board && (
+        <div className="text-xs text-gray-600 text-right">
+          기준 {new Date(board.generatedAt).toLocaleTimeString('ko-KR', { hour12: false })} · 수명 카운트는 5분 주기로 수집됩니다
+        </div>
+      )}
+    </div>
+  );
+}
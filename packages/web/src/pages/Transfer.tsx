@@ -1,10 +1,15 @@
 // Transfer Page - 2분할 파일 전송 + 백업 (v2)
 
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useMachineStore, useDncConfig } from '../stores/machineStore';
-import { useAuthStore } from '../stores/authStore';
+import { usePermission } from '../hooks/usePermission';
 import { useFileStore } from '../stores/fileStore';
 import { backupApi, fileApi } from '../lib/api';
+import type {
+  BackupCompliance, BackupRecord, BackupRestorePreview, BackupRestoreResult, BackupRestoreScope,
+  BackupRetentionPolicy, BackupType,
+} from '../lib/api';
 import { wsClient } from '../lib/wsClient';
 import { FileListPanel } from '../components/filemanager/FileListPanel';
 import { TransferArrows } from '../components/filemanager/TransferArrows';
@@ -16,21 +21,9 @@ import type { FileEntry, TransferDirection } from '../stores/fileStore';
 
 type TransferTab = 'transfer' | 'backup';
 
-interface BackupRecord {
-  id: string;
-  machineId: string;
-  type: 'SRAM' | 'PARAMETER' | 'PROGRAM' | 'FULL';
-  fileName: string;
-  fileSize: number;
-  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
-  createdAt: string;
-  createdBy: string;
-}
-
 export function Transfer() {
-  const user = useAuthStore((state) => state.user);
   const { selectedMachineId } = useMachineStore();
-  const canTransfer = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const canTransfer = usePermission('transfer.pc_to_cnc', selectedMachineId);
 
   const [activeTab, setActiveTab] = useState<TransferTab>('transfer');
 
@@ -75,7 +68,7 @@ export function Transfer() {
             <TransferSection machineId={machineId} canTransfer={canTransfer} />
           )}
           {activeTab === 'backup' && (
-            <BackupSection machineId={machineId} canTransfer={canTransfer} />
+            <BackupSection machineId={machineId} />
           )}
         </>
       )}
@@ -100,11 +93,12 @@ export function Transfer() {
 interface ConfirmDialogProps {
   direction: TransferDirection;
   fileNames: string[];
-  onConfirm: () => void;
+  onConfirm: (verify: boolean) => void;
   onCancel: () => void;
 }
 
 function TransferConfirmDialog({ direction, fileNames, onConfirm, onCancel }: ConfirmDialogProps) {
+  const [verify, setVerify] = useState(false);
   const dirLabel = direction === 'PC_TO_CNC' ? 'PC → CNC' : 'CNC → PC';
   const dirColor = direction === 'PC_TO_CNC' ? 'text-blue-400' : 'text-green-400';
 
@@ -135,6 +129,20 @@ function TransferConfirmDialog({ direction, fileNames, onConfirm, onCancel }: Co
               </li>
             ))}
           </ul>
+          {direction === 'PC_TO_CNC' && (
+            <label className="mt-4 flex items-start gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={verify}
+                onChange={(e) => setVerify(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span>
+                전송 후 읽기 비교
+                <span className="block text-xs text-gray-500">CNC에서 프로그램을 다시 읽어 PC 파일과 비교합니다 (EDIT 모드 필요)</span>
+              </span>
+            </label>
+          )}
         </div>
 
         {/* 하단 버튼 */}
@@ -146,7 +154,7 @@ function TransferConfirmDialog({ direction, fileNames, onConfirm, onCancel }: Co
             취소
           </button>
           <button
-            onClick={onConfirm}
+            onClick={() => onConfirm(verify)}
             className="px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
           >
             전송 실행
@@ -161,7 +169,6 @@ function TransferConfirmDialog({ direction, fileNames, onConfirm, onCancel }: Co
 // 파일 전송 섹션 (2분할: 좌측=CNC, 우측=PC)
 // ============================================================
 function TransferSection({ machineId, canTransfer }: { machineId: string; canTransfer: boolean }) {
-  const user = useAuthStore((state) => state.user);
   const {
     shareFiles,
     cncFiles,
@@ -175,15 +182,19 @@ function TransferSection({ machineId, canTransfer }: { machineId: string; canTra
     setSelectedShareFiles,
     setSelectedCncFiles,
     startTransfer,
+    loadTransferJobs,
+    transferQueue,
     uploadToShare,
     deleteFromShare,
     openViewer,
+    openFile,
   } = useFileStore();
 
   const dncConfig = useDncConfig(machineId);
   const pathCount = dncConfig?.pathCount || 2;
 
   const [cncPath, setCncPath] = useState<'path1' | 'path2' | 'path3'>('path1');
+  const [transferError, setTransferError] = useState<string | null>(null);
 
   // Confirm 다이얼로그 상태
   const [confirmDialog, setConfirmDialog] = useState<{
@@ -207,6 +218,20 @@ function TransferSection({ machineId, canTransfer }: { machineId: string; canTra
     if (machineId) loadCncFiles(machineId, cncPath);
   }, [machineId, cncPath, loadCncFiles]);
 
+  // 전송 이력 (서버 TransferJob)
+  useEffect(() => {
+    if (machineId) loadTransferJobs(machineId);
+  }, [machineId, loadTransferJobs]);
+
+  // PC→CNC 도착 확인(VERIFIED) 시 CNC 목록 갱신
+  const verifiedUploads = transferQueue.filter(
+    (j) => j.machineId === machineId && j.direction === 'PC_TO_CNC' && j.status === 'VERIFIED'
+  ).length;
+  useEffect(() => {
+    if (machineId && verifiedUploads > 0) loadCncFiles(machineId, cncPath);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [verifiedUploads]);
+
   // Path 전환 시 선택 초기화
   useEffect(() => {
     setSelectedCncFiles([]);
@@ -225,12 +250,11 @@ function TransferSection({ machineId, canTransfer }: { machineId: string; canTra
   }, [selectedShareFiles]);
 
   // 확인 다이얼로그에서 전송 실행
-  const handleConfirmTransfer = useCallback(() => {
+  const handleConfirmTransfer = useCallback(async (verify: boolean) => {
     if (!confirmDialog) return;
-    const userName = user?.username || 'unknown';
-    startTransfer(confirmDialog.direction, confirmDialog.fileNames, machineId, userName);
     setConfirmDialog(null);
-  }, [confirmDialog, machineId, startTransfer, user]);
+    setTransferError(await startTransfer(confirmDialog.direction, confirmDialog.fileNames, machineId, { verify }));
+  }, [confirmDialog, machineId, startTransfer]);
 
   const handleShareUpload = useCallback(async (file: File) => {
     try {
@@ -252,10 +276,11 @@ function TransferSection({ machineId, canTransfer }: { machineId: string; canTra
     deleteFromShare(fileNames);
   }, [deleteFromShare]);
 
-  const handleShareDoubleClick = useCallback((file: FileEntry) => {
-    const content = MOCK_GCODE_CONTENT[file.name] || '';
-    openViewer(file.name, content, false, 'TRANSFER_SHARE', machineId);
-  }, [openViewer, machineId]);
+  // 공용 저장소 파일 — 서버 내용 + 저장소 리비전 정보
+  const handleShareDoubleClick = useCallback(async (file: FileEntry) => {
+    const error = await openFile(file.name, 'TRANSFER_SHARE', false, machineId);
+    if (error) setTransferError(error);
+  }, [openFile, machineId]);
 
   const handleCncDoubleClick = useCallback((file: FileEntry) => {
     const content = MOCK_GCODE_CONTENT[file.name] || '';
@@ -336,8 +361,15 @@ function TransferSection({ machineId, canTransfer }: { machineId: string; canTra
         />
       </div>
 
+      {transferError && (
+        <div className="mt-3 px-3 py-2 bg-red-900/50 text-red-300 rounded-lg border border-red-700/60 flex justify-between items-center text-xs">
+          <span>{transferError}</span>
+          <button onClick={() => setTransferError(null)} className="text-red-400 hover:text-red-200 ml-4">✕</button>
+        </div>
+      )}
+
       {/* 전송 큐 - 항상 고정 영역 */}
-      <TransferQueuePanel />
+      <TransferQueuePanel machineId={machineId} canTransfer={canTransfer} />
 
       {/* 전송 확인 다이얼로그 */}
       {confirmDialog && (
@@ -355,12 +387,34 @@ function TransferSection({ machineId, canTransfer }: { machineId: string; canTra
 // ============================================================
 // 백업 섹션 (기존 로직 유지)
 // ============================================================
-function BackupSection({ machineId, canTransfer }: { machineId: string; canTransfer: boolean }) {
+function BackupSection({ machineId }: { machineId: string }) {
+  const canBackup = usePermission('backup.create', machineId);
+  const canRestore = usePermission('backup.restore', machineId);
+  const canEditPolicy = usePermission('backup.schedule');
   const [backups, setBackups] = useState<BackupRecord[]>([]);
-  const [backupType, setBackupType] = useState<'SRAM' | 'PARAMETER' | 'PROGRAM' | 'FULL'>('FULL');
+  const [backupType, setBackupType] = useState<BackupType>('FULL');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [restoreTarget, setRestoreTarget] = useState<BackupRecord | null>(null);
+  const navigate = useNavigate();
+
+  // 장비 변경 시 비교 선택 초기화
+  useEffect(() => { setCompareIds([]); }, [machineId]);
+
+  const toggleCompare = (backupId: string) => {
+    setCompareIds((prev) =>
+      prev.includes(backupId) ? prev.filter((id) => id !== backupId) : [...prev, backupId].slice(-2));
+  };
+
+  // 생성 시각 순으로 이전 → 이후
+  const handleCompare = () => {
+    const [a, b] = compareIds
+      .map((id) => backups.find((x) => x.id === id)!)
+      .sort((x, y) => new Date(x.createdAt).getTime() - new Date(y.createdAt).getTime());
+    navigate(`/backup/diff?from=${a.id}&to=${b.id}`);
+  };
 
   const loadBackups = useCallback(async () => {
     if (!machineId) return;
@@ -368,8 +422,7 @@ function BackupSection({ machineId, canTransfer }: { machineId: string; canTrans
     try {
       const response = await backupApi.getHistory(machineId);
       if (response.success && response.data) {
-        const d = response.data as { items?: BackupRecord[] } | BackupRecord[];
-        setBackups(Array.isArray(d) ? d : (d as { items?: BackupRecord[] }).items ?? []);
+        setBackups(response.data.items);
       }
     } catch (err) {
       console.error('Failed to load backups:', err);
@@ -382,12 +435,12 @@ function BackupSection({ machineId, canTransfer }: { machineId: string; canTrans
     loadBackups();
   }, [loadBackups]);
 
-  // WS: backup_completed 이벤트 수신 시 이력 갱신
+  // WS: backup_completed / backup_failed 이벤트 수신 시 이력 갱신
   const loadBackupsRef = useRef(loadBackups);
   loadBackupsRef.current = loadBackups;
   useEffect(() => {
     return wsClient.onMessage((msg) => {
-      if (msg.type === 'backup_completed') {
+      if (msg.type === 'backup_completed' || msg.type === 'backup_failed') {
         void loadBackupsRef.current();
       }
     });
@@ -424,6 +477,8 @@ function BackupSection({ machineId, canTransfer }: { machineId: string; canTrans
         a.download = fileName;
         a.click();
         URL.revokeObjectURL(url);
+      } else {
+        setError(response.error?.message || '백업 다운로드 실패');
       }
     } catch {
       setError('백업 다운로드 실패');
@@ -463,7 +518,7 @@ function BackupSection({ machineId, canTransfer }: { machineId: string; canTrans
           </div>
           <button
             onClick={handleBackup}
-            disabled={!canTransfer || isLoading}
+            disabled={!canBackup || isLoading}
             className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
           >
             {isLoading ? '백업 중...' : '백업 시작'}
@@ -473,15 +528,27 @@ function BackupSection({ machineId, canTransfer }: { machineId: string; canTrans
 
       {/* Backup History */}
       <div className="bg-gray-800 rounded-lg shadow p-6">
-        <h2 className="text-lg font-semibold text-white mb-4">
-          백업 이력
-        </h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">
+            백업 이력
+          </h2>
+          <button
+            onClick={handleCompare}
+            disabled={compareIds.length !== 2}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+            title="비교할 백업 2개를 선택하세요"
+          >
+            선택 비교 ({compareIds.length}/2)
+          </button>
+        </div>
         <table className="w-full">
           <thead className="bg-gray-700">
             <tr>
+              <th className="px-2 py-2 w-8" />
               <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase">유형</th>
               <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase">파일명</th>
               <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase">크기</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase">프로그램</th>
               <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase">생성일</th>
               <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase">생성자</th>
               <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase">작업</th>
@@ -490,40 +557,78 @@ function BackupSection({ machineId, canTransfer }: { machineId: string; canTrans
           <tbody className="divide-y divide-gray-600">
             {backups.length === 0 ? (
               <tr>
-                <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
                   백업 이력이 없습니다
                 </td>
               </tr>
             ) : (
               backups.map((backup) => (
                 <tr key={backup.id} className="hover:bg-gray-700">
+                  <td className="px-2 py-2">
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(backup.id)}
+                      disabled={backup.status !== 'COMPLETED' || !!backup.prunedAt}
+                      onChange={() => toggleCompare(backup.id)}
+                    />
+                  </td>
                   <td className="px-4 py-2">
                     <BackupTypeBadge type={backup.type} />
                   </td>
                   <td className="px-4 py-2 font-mono text-sm text-white">
-                    {backup.fileName}
+                    <div>{backup.fileName}</div>
+                    {backup.checksum && (
+                      <div className="text-xs text-gray-500" title={`SHA-256: ${backup.checksum}`}>
+                        SHA-256 {backup.checksum.slice(0, 12)}…
+                      </div>
+                    )}
                   </td>
                   <td className="px-4 py-2 text-sm text-gray-400">
                     {backup.status === 'COMPLETED' ? formatFileSize(backup.fileSize) : (
-                      <span className={`text-xs ${backup.status === 'FAILED' ? 'text-red-400' : 'text-yellow-400'}`}>
+                      <span
+                        className={`text-xs ${backup.status === 'FAILED' ? 'text-red-400' : 'text-yellow-400'}`}
+                        title={backup.errorMessage ?? undefined}
+                      >
                         {backup.status === 'FAILED' ? '실패' : '처리 중...'}
                       </span>
                     )}
                   </td>
+                  <td className="px-4 py-2 text-sm text-gray-400">
+                    {backup.programCount !== null ? `${backup.programCount}개` : '—'}
+                    {backup.editMode === false && (
+                      <span className="ml-1 text-xs text-yellow-400" title="EDIT 모드가 아니어서 프로그램 목록만 백업됨">
+                        (목록만)
+                      </span>
+                    )}
+                  </td>
                   <td className="px-4 py-2 text-sm text-gray-400">
                     {new Date(backup.createdAt).toLocaleString()}
                   </td>
                   <td className="px-4 py-2 text-sm text-gray-400">
-                    {backup.createdBy}
+                    {backup.createdBy ?? '스케줄'}
                   </td>
                   <td className="px-4 py-2">
-                    {backup.status === 'COMPLETED' ? (
-                      <button
-                        onClick={() => handleBackupDownload(backup.id, backup.fileName)}
-                        className="text-blue-400 hover:text-blue-300 text-sm"
-                      >
-                        다운로드
-                      </button>
+                    {backup.prunedAt ? (
+                      <span className="text-gray-500 text-xs" title={new Date(backup.prunedAt).toLocaleString()}>
+                        보존 만료
+                      </span>
+                    ) : backup.status === 'COMPLETED' ? (
+                      <div className="flex items-center gap-3">
+                        <button
+                          onClick={() => handleBackupDownload(backup.id, backup.fileName)}
+                          className="text-blue-400 hover:text-blue-300 text-sm"
+                        >
+                          다운로드
+                        </button>
+                        {canRestore && restoreScopes(backup).length > 0 && (
+                          <button
+                            onClick={() => setRestoreTarget(backup)}
+                            className="text-orange-400 hover:text-orange-300 text-sm"
+                          >
+                            복원
+                          </button>
+                        )}
+                      </div>
                     ) : (
                       <span className="text-gray-600 text-sm">—</span>
                     )}
@@ -534,6 +639,371 @@ function BackupSection({ machineId, canTransfer }: { machineId: string; canTrans
           </tbody>
         </table>
       </div>
+
+      {/* Compliance / Retention */}
+      <BackupComplianceCard canEdit={canEditPolicy} />
+
+      {restoreTarget && (
+        <BackupRestoreDialog backup={restoreTarget} onClose={() => setRestoreTarget(null)} />
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// 백업 복원 (범위 선택 → Dry-run 미리보기 → 실행)
+// ============================================================
+const RESTORE_SCOPE_LABEL: Record<BackupRestoreScope, string> = {
+  programs: '프로그램',
+  parameters: '파라미터',
+  all: '프로그램 + 파라미터',
+};
+
+/** 백업 유형 / 내용별 복원 가능 범위 (SRAM·목록만 백업은 프로그램 복원 불가) */
+function restoreScopes(backup: BackupRecord): BackupRestoreScope[] {
+  const hasPrograms = (backup.type === 'PROGRAM' || backup.type === 'FULL') && backup.editMode !== false;
+  const hasParameters = backup.type === 'PARAMETER' || backup.type === 'FULL';
+  if (hasPrograms && hasParameters) return ['programs', 'parameters', 'all'];
+  if (hasPrograms) return ['programs'];
+  if (hasParameters) return ['parameters'];
+  return [];
+}
+
+const PROGRAM_ACTION_STYLE: Record<'overwrite' | 'create' | 'unknown', { label: string; cls: string }> = {
+  overwrite: { label: '덮어쓰기', cls: 'text-orange-400' },
+  create:    { label: '신규',     cls: 'text-green-400' },
+  unknown:   { label: '확인 불가', cls: 'text-gray-500' },
+};
+
+function BackupRestoreDialog({ backup, onClose }: { backup: BackupRecord; onClose: () => void }) {
+  const scopes = restoreScopes(backup);
+  const [scope, setScope] = useState<BackupRestoreScope>(scopes[0]);
+  const [programInput, setProgramInput] = useState('');
+  const [preview, setPreview] = useState<BackupRestorePreview | null>(null);
+  const [result, setResult] = useState<BackupRestoreResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const programNos = programInput
+    .split(/[\s,]+/)
+    .map((no) => no.trim().toUpperCase())
+    .filter(Boolean)
+    .map((no) => (no.startsWith('O') ? no : `O${no.padStart(4, '0')}`));
+  const request = { scope, programNos: scope !== 'parameters' && programNos.length > 0 ? programNos : undefined };
+
+  // 범위 변경 시 미리보기 무효화
+  useEffect(() => { setPreview(null); }, [scope, programInput]);
+
+  const handlePreview = async () => {
+    setError(null);
+    setResult(null);
+    setIsBusy(true);
+    const res = await backupApi.previewRestore(backup.id, request);
+    if (res.success && res.data) setPreview(res.data);
+    else setError(res.error?.message ?? '복원 미리보기 실패');
+    setIsBusy(false);
+  };
+
+  const handleRestore = async () => {
+    if (!preview?.canRestore) return;
+    if (!window.confirm(`${backup.machineId} 에 ${RESTORE_SCOPE_LABEL[scope]}을(를) 복원합니다. 기존 데이터가 덮어쓰여집니다. 계속하시겠습니까?`)) return;
+    setError(null);
+    setIsBusy(true);
+    const res = await backupApi.restore(backup.id, request);
+    if (res.success && res.data) {
+      setResult(res.data);
+      setPreview(null);
+    } else {
+      setError(res.error?.message ?? '복원 실패');
+    }
+    setIsBusy(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-[36rem] max-h-[85vh] flex flex-col border border-gray-600">
+        <div className="px-5 py-4 border-b border-gray-700">
+          <h3 className="text-lg font-semibold text-white">백업 복원</h3>
+          <p className="text-xs text-gray-400 mt-1 font-mono">{backup.fileName}</p>
+        </div>
+
+        <div className="px-5 py-4 flex-1 min-h-0 overflow-y-auto space-y-4 text-sm">
+          {/* 범위 */}
+          <div className="flex flex-wrap gap-4">
+            {scopes.map((s) => (
+              <label key={s} className="flex items-center gap-2 text-gray-300">
+                <input type="radio" checked={scope === s} onChange={() => setScope(s)} disabled={isBusy} />
+                {RESTORE_SCOPE_LABEL[s]}
+              </label>
+            ))}
+          </div>
+          {scope !== 'parameters' && (
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">프로그램 번호 (쉼표 구분, 비우면 백업 내 전체)</label>
+              <input
+                value={programInput}
+                onChange={(e) => setProgramInput(e.target.value)}
+                placeholder="O0001, O0100"
+                disabled={isBusy}
+                className="w-full px-3 py-2 border border-gray-600 rounded bg-gray-700 text-white font-mono"
+              />
+            </div>
+          )}
+
+          {error && <div className="p-3 bg-red-900/30 text-red-400 rounded">{error}</div>}
+
+          {/* Dry-run 미리보기 */}
+          {preview && (
+            <div className="space-y-3">
+              <div>
+                <div className="text-xs text-gray-400 mb-1">복원 조건</div>
+                <ul className="space-y-1">
+                  {preview.interlock.checks.map((c) => (
+                    <li key={c.id} className="flex items-center gap-2">
+                      <span className={c.ok ? 'text-green-400' : 'text-red-400'}>{c.ok ? '✓' : '✗'}</span>
+                      <span className="text-gray-200">{c.label}</span>
+                      {c.detail && <span className="text-xs text-gray-500">{c.detail}</span>}
+                    </li>
+                  ))}
+                  <li className="flex items-center gap-2">
+                    <span className={preview.lock?.heldByOther ? 'text-red-400' : 'text-green-400'}>
+                      {preview.lock?.heldByOther ? '✗' : '✓'}
+                    </span>
+                    <span className="text-gray-200">제어권</span>
+                    <span className="text-xs text-gray-500">
+                      {preview.lock
+                        ? `${preview.lock.ownerUsername} 보유`
+                        : '미보유 — 복원 동안 자동 획득'}
+                    </span>
+                  </li>
+                </ul>
+              </div>
+
+              {preview.programs.length > 0 && (
+                <div>
+                  <div className="text-xs text-gray-400 mb-1">
+                    프로그램 {preview.programs.length}개
+                    {!preview.cncListAvailable && ' (CNC 목록 조회 불가 — 덮어쓰기 여부 확인 불가)'}
+                  </div>
+                  <ul className="max-h-40 overflow-y-auto divide-y divide-gray-700 bg-gray-900 rounded font-mono">
+                    {preview.programs.map((p) => (
+                      <li key={p.programNo} className="flex items-center justify-between px-3 py-1">
+                        <span className="text-white">{p.programNo}</span>
+                        <span className="text-xs text-gray-500">{p.lineCount}줄</span>
+                        <span className={`text-xs font-sans ${PROGRAM_ACTION_STYLE[p.action].cls}`}>
+                          {PROGRAM_ACTION_STYLE[p.action].label}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {preview.parameters && (
+                <div>
+                  <div className="text-xs text-gray-400 mb-1">
+                    파라미터 {preview.parameters.count}개 항목 기록
+                    {preview.parameters.baseline
+                      ? ` · 최근 백업(${new Date(preview.parameters.baseline.createdAt).toLocaleString()}) 대비 ${preview.parameters.changes.length}건 변경`
+                      : ' · 비교 기준 백업 없음'}
+                  </div>
+                  {preview.parameters.changes.length > 0 && (
+                    <ul className="max-h-40 overflow-y-auto bg-gray-900 rounded font-mono text-xs">
+                      {preview.parameters.changes.map((c) => (
+                        <li key={c.key} className="flex justify-between px-3 py-0.5">
+                          <span className="text-gray-300">{c.key}</span>
+                          <span>
+                            <span className="text-red-300">{c.old ?? '—'}</span>
+                            <span className="text-gray-500"> → </span>
+                            <span className="text-green-300">{c.new ?? '—'}</span>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 실행 결과 */}
+          {result && (
+            <div className="space-y-2">
+              <div className={result.completed ? 'text-green-400' : 'text-red-400'}>
+                {result.completed
+                  ? `복원 완료 (${result.restored}/${result.total})`
+                  : `복원 중단 (${result.restored}/${result.total}) — ${result.abortReason}`}
+              </div>
+              {result.atRisk.length > 0 && (
+                <div className="px-3 py-2 bg-red-900/40 border border-red-800 rounded text-xs text-red-300">
+                  원본 프로그램이 삭제되었을 수 있습니다 — CNC에서 확인하세요: {result.atRisk.join(', ')}
+                </div>
+              )}
+              <ul className="max-h-48 overflow-y-auto divide-y divide-gray-700 bg-gray-900 rounded font-mono text-xs">
+                {result.steps.map((step) => (
+                  <li key={`${step.kind}-${step.target}`} className="flex items-center justify-between px-3 py-1">
+                    <span className="text-white">{step.kind === 'parameters' ? '파라미터' : step.target}</span>
+                    <span
+                      className={`font-sans ${
+                        step.status === 'success' ? 'text-green-400' : step.status === 'failure' ? 'text-red-400' : 'text-gray-500'
+                      }`}
+                      title={step.errorMessage}
+                    >
+                      {step.status === 'success' ? '성공' : step.status === 'failure' ? '실패' : '건너뜀'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t border-gray-700 flex items-center justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={isBusy}
+            className="px-4 py-2 text-sm text-gray-400 hover:text-white bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50"
+          >
+            닫기
+          </button>
+          <button
+            onClick={handlePreview}
+            disabled={isBusy}
+            className="px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:bg-gray-600"
+          >
+            {isBusy && !preview ? '확인 중...' : '미리보기 (Dry-run)'}
+          </button>
+          <button
+            onClick={handleRestore}
+            disabled={isBusy || !preview?.canRestore}
+            className="px-4 py-2 text-sm text-white bg-orange-600 hover:bg-orange-700 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            {isBusy && preview ? '복원 중...' : '복원 실행'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// 파라미터 백업 현황 (감사 증빙) + 보존 정책
+// ============================================================
+const COMPLIANCE_DAYS = 30;
+
+function BackupComplianceCard({ canEdit }: { canEdit: boolean }) {
+  const [compliance, setCompliance] = useState<BackupCompliance | null>(null);
+  const [policy, setPolicy] = useState<BackupRetentionPolicy | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const [c, p] = await Promise.all([backupApi.getCompliance(COMPLIANCE_DAYS), backupApi.getRetention()]);
+    if (c.success && c.data) setCompliance(c.data);
+    if (p.success && p.data) setPolicy(p.data);
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleCsv = async () => {
+    const response = await backupApi.downloadComplianceCsv(COMPLIANCE_DAYS);
+    if (response.success && response.data) {
+      const url = URL.createObjectURL(response.data as Blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `backup-compliance-${new Date().toISOString().slice(0, 10)}.csv`;
+      a.click();
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  const handleSavePolicy = async () => {
+    if (!policy) return;
+    setSaving(true);
+    setMessage(null);
+    const response = await backupApi.updateRetention(policy);
+    setSaving(false);
+    if (response.success && response.data) {
+      setMessage(`보존 정책 저장됨 (정리 ${response.data.pruned}건)`);
+    } else {
+      setMessage(response.error?.message || '저장 실패');
+    }
+  };
+
+  const missing = compliance?.items.filter((i) => !i.compliant) ?? [];
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white">
+          파라미터 백업 현황 <span className="text-sm font-normal text-gray-400">(최근 {COMPLIANCE_DAYS}일)</span>
+        </h2>
+        <button onClick={handleCsv} className="px-3 py-1.5 text-sm bg-gray-700 text-gray-200 rounded hover:bg-gray-600">
+          CSV 내보내기
+        </button>
+      </div>
+
+      {compliance && (
+        <>
+          <div className="text-sm text-gray-300 mb-2">
+            전체 {compliance.total}대 중{' '}
+            <span className={compliance.compliantCount === compliance.total ? 'text-green-400' : 'text-yellow-400'}>
+              {compliance.compliantCount}대
+            </span>{' '}
+            백업 보유
+          </div>
+          {missing.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {missing.map((m) => (
+                <span
+                  key={m.machineId}
+                  className="px-2 py-1 text-xs rounded bg-red-900/30 text-red-400"
+                  title={m.lastParameterBackupAt ? `마지막: ${new Date(m.lastParameterBackupAt).toLocaleString()}` : '백업 없음'}
+                >
+                  {m.name}
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {policy && (
+        <div className="flex flex-wrap items-end gap-4 pt-4 border-t border-gray-700">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">유형별 보존 개수</label>
+            <input
+              type="number"
+              min={1}
+              value={policy.keepPerType}
+              disabled={!canEdit}
+              onChange={(e) => setPolicy({ ...policy, keepPerType: parseInt(e.target.value) || 1 })}
+              className="w-24 px-2 py-1 border border-gray-600 rounded bg-gray-700 text-white disabled:opacity-60"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">월간 스냅샷 (개월)</label>
+            <input
+              type="number"
+              min={0}
+              value={policy.monthlySnapshots}
+              disabled={!canEdit}
+              onChange={(e) => setPolicy({ ...policy, monthlySnapshots: parseInt(e.target.value) || 0 })}
+              className="w-24 px-2 py-1 border border-gray-600 rounded bg-gray-700 text-white disabled:opacity-60"
+            />
+          </div>
+          {canEdit && (
+            <button
+              onClick={handleSavePolicy}
+              disabled={saving}
+              className="px-4 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-600"
+            >
+              {saving ? '저장 중...' : '보존 정책 저장'}
+            </button>
+          )}
+          {message && <span className="text-sm text-gray-400">{message}</span>}
+        </div>
+      )}
     </div>
   );
 }
@@ -2,8 +2,9 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useMachineStore } from '../stores/machineStore';
-import { useAuthStore } from '../stores/authStore';
+import { usePermission } from '../hooks/usePermission';
 import { workOrderApi } from '../lib/api';
+import { wsClient } from '../lib/wsClient';
 
 type WorkOrderStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
 
@@ -28,7 +29,6 @@ interface WorkOrder {
 
 
 export function WorkOrder() {
-  const user = useAuthStore((state) => state.user);
   const machines = useMachineStore((state) => state.machines);
 
   const [orders, setOrders] = useState<WorkOrder[]>([]);
@@ -37,7 +37,7 @@ export function WorkOrder() {
   const [statusFilter, setStatusFilter] = useState<WorkOrderStatus | 'ALL'>('ALL');
   const [error, setError] = useState<string | null>(null);
 
-  const canManage = user?.role === 'ADMIN' || user?.role === 'HQ_ENGINEER';
+  const canManage = usePermission('work-order.manage');
 
   // Load work orders
   const loadOrders = useCallback(async () => {
@@ -65,6 +65,40 @@ export function WorkOrder() {
     loadOrders();
   }, [loadOrders]);
 
+  // WS: 스케줄러 M20 → 작업지시 실적/상태 실시간 반영
+  useEffect(() => {
+    return wsClient.onMessage((msg) => {
+      if (msg.type !== 'work_order_progress') return;
+      const updated = msg.payload as WorkOrder;
+      setOrders((prev) => prev.map((o) => (o.id === updated.id ? { ...o, ...updated } : o)));
+    });
+  }, []);
+
+  // Dispatch work order → scheduler rows
+  const handleDispatch = async (order: WorkOrder) => {
+    const input = prompt(
+      `${order.assignedMachine} 스케줄러에 배포합니다.\n행 단위 분할 수량 (비우면 잔량 전체를 1행으로):`,
+      '',
+    );
+    if (input === null) return;
+    const batchSize = input.trim() ? Number(input) : undefined;
+    if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1)) {
+      setError('분할 수량은 1 이상의 정수여야 합니다');
+      return;
+    }
+
+    try {
+      const response = await workOrderApi.dispatch(order.id, batchSize);
+      if (response.success) {
+        loadOrders();
+      } else {
+        setError(response.error?.message || '배포 실패');
+      }
+    } catch (err) {
+      setError('서버 연결 오류');
+    }
+  };
+
   // Start work order
   const handleStart = async (orderId: string) => {
     try {
@@ -252,7 +286,7 @@ export function WorkOrder() {
                     <div className="text-xs text-gray-500">{order.productCode}</div>
                   </td>
                   <td className="px-4 py-3 text-sm text-gray-500">
-                    {order.assignedMachineName || '-'}
+                    {order.assignedMachineName || order.assignedMachine || '-'}
                   </td>
                   <td className="px-4 py-3">
                     <div className="flex items-center justify-center gap-2">
@@ -291,6 +325,16 @@ export function WorkOrder() {
                             시작
                           </button>
                         )}
+                        {(order.status === 'PENDING' || order.status === 'IN_PROGRESS') &&
+                          order.assignedMachine && order.programNumber && (
+                          <button
+                            onClick={() => handleDispatch(order)}
+                            className="px-2 py-1 bg-purple-600 text-white rounded text-xs hover:bg-purple-700"
+                            title="배정 장비 스케줄러에 행 생성"
+                          >
+                            배포
+                          </button>
+                        )}
                         {order.status === 'IN_PROGRESS' && (
                           <button
                             onClick={() => handleComplete(order.id)}
@@ -2,6 +2,7 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { Permission, PermissionGrants } from '../lib/permissions';
 
 const MOCK_USER = {
   id: 'dev-user-001',
@@ -10,6 +11,18 @@ const MOCK_USER = {
   role: 'HQ_ENGINEER' as const,
 };
 
+const MOCK_PERMISSIONS: PermissionGrants = {
+  global: [
+    'control.acquire', 'control.force_release', 'command.send', 'scheduler.edit', 'scheduler.start',
+    'offsets.write', 'offsets.approve_limit', 'measurement.write', 'tool-life.write', 'count.write', 'program.edit', 'program.approve', 'transfer.pc_to_cnc',
+    'backup.create', 'backup.restore', 'machine.config', 'machine.manage', 'template.edit',
+    'backup.schedule', 'work-order.manage', 'shift.manage', 'downtime.manage', 'production.edit', 'settings.manage',
+    'audit.view', 'diagnostics.view', 'user.manage',
+  ] satisfies Permission[],
+  machines: {},
+  locations: {},
+};
+
 export type UserRole = 'USER' | 'ADMIN' | 'HQ_ENGINEER';
 
 export interface User {
@@ -23,10 +36,12 @@ interface AuthState {
   user: User | null;
   accessToken: string | null;
   isAuthenticated: boolean;
+  permissions: PermissionGrants | null;
 
   // Actions
   setAuth: (user: User, accessToken: string) => void;
   setAccessToken: (token: string) => void;
+  setPermissions: (permissions: PermissionGrants | null) => void;
   logout: () => void;
   devLogin: () => void;
 }
@@ -37,6 +52,7 @@ export const useAuthStore = create<AuthState>()(
       user: null,
       accessToken: null,
       isAuthenticated: false,
+      permissions: null,
 
       setAuth: (user, accessToken) =>
         set({
@@ -48,11 +64,15 @@ export const useAuthStore = create<AuthState>()(
       setAccessToken: (accessToken) =>
         set({ accessToken }),
 
+      setPermissions: (permissions) =>
+        set({ permissions }),
+
       logout: () => {
         set({
           user: null,
           accessToken: null,
           isAuthenticated: false,
+          permissions: null,
         });
       },
 
@@ -61,6 +81,7 @@ export const useAuthStore = create<AuthState>()(
           user: MOCK_USER,
           accessToken: 'dev-token',
           isAuthenticated: true,
+          permissions: MOCK_PERMISSIONS,
         });
       },
     }),
@@ -70,6 +91,7 @@ export const useAuthStore = create<AuthState>()(
         user: state.user,
         accessToken: state.accessToken,
         isAuthenticated: state.isAuthenticated,
+        permissions: state.permissions,
       }),
     }
   )
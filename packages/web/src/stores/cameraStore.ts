@@ -1,24 +1,13 @@
 // Camera Store - Zustand
-// [설정 로드 우선순위]
-// 1. 서버 DB (single source of truth) — loadFromServer() 호출 후
-// 2. localStorage 캐시 — 서버 연결 불가 시 fallback
-// 3. 빈 상태 (Mock 제거됨)
+// [설정 저장]
+// - 서버 cameras 테이블이 유일한 원본 (비밀번호는 서버에서 암호화 저장, 클라이언트로 내려오지 않음)
+// - localStorage 에는 카메라 표시 on/off 만 저장 (구버전 캐시의 카메라 목록 / 비밀번호는 제거)
+// - 상태(health)는 서버 주기 점검 결과 — WebSocket 'camera_status' 로 갱신
 
 import { create } from 'zustand';
-import { cameraServerApi } from '../lib/api';
-
-export interface CameraConfig {
-  id: string;
-  name: string;
-  ipAddress: string;
-  rtspPort: number;
-  username: string;
-  password: string;  // localStorage: base64, 서버 전송: 평문
-  streamPath: string;
-  enabled: boolean;
-  assignedMachineId?: string;
-  defaultZoom?: number; // 기본 배율 (1.0 ~ 4.0, 기본값 1.0)
-}
+import { cameraApi, CameraInfo, CameraInput, CameraStatusEvent } from '../lib/api';
+
+export type CameraConfig = CameraInfo;
 
 export type StreamStatus = 'connecting' | 'live' | 'error' | 'offline';
 
@@ -28,111 +17,109 @@ interface CameraState {
   streamStatuses: Record<string, StreamStatus>;
 
   setCameraEnabled: (enabled: boolean) => void;
-  addCamera: (camera: CameraConfig) => void;
-  updateCamera: (id: string, updates: Partial<CameraConfig>) => void;
-  removeCamera: (id: string) => void;
   setStreamStatus: (cameraId: string, status: StreamStatus) => void;
-  syncToServer: () => Promise<void>;
   loadFromServer: () => Promise<void>;
+  /** 실패 시 오류 메시지 반환 */
+  createCamera: (input: CameraInput) => Promise<string | null>;
+  updateCamera: (id: string, input: Partial<CameraInput>) => Promise<string | null>;
+  deleteCamera: (id: string) => Promise<string | null>;
+  applyHealth: (event: CameraStatusEvent) => void;
 }
 
-// ── localStorage (캐시/fallback 용도)
+// ── localStorage (표시 on/off 만)
 const STORAGE_KEY = 'star-webcnc-camera-config';
 
-interface StoredCameraData { cameraEnabled: boolean; cameras: CameraConfig[]; }
+interface StoredCameraData { cameraEnabled: boolean; }
 
 function loadLocalCache(): StoredCameraData {
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
-    if (raw) return JSON.parse(raw) as StoredCameraData;
+    if (raw) return { cameraEnabled: !!(JSON.parse(raw) as StoredCameraData).cameraEnabled };
   } catch { /* ignore */ }
-  return { cameraEnabled: false, cameras: [] };
+  return { cameraEnabled: false };
 }
 
 function saveLocalCache(data: StoredCameraData) {
   try { localStorage.setItem(STORAGE_KEY, JSON.stringify(data)); } catch { /* ignore */ }
 }
 
-// 초기값: localStorage 캐시 (서버 로드 전 임시 표시용)
+// 구버전 캐시(카메라 목록 + base64 비밀번호) 덮어쓰기
 const cached = loadLocalCache();
+saveLocalCache(cached);
 
 export const useCameraStore = create<CameraState>((set, get) => ({
   cameraEnabled: cached.cameraEnabled,
-  cameras: cached.cameras,
+  cameras: [],
   streamStatuses: {},
 
   setCameraEnabled: (enabled) =>
     set((state) => {
-      saveLocalCache({ cameraEnabled: enabled, cameras: state.cameras });
+      saveLocalCache({ cameraEnabled: enabled });
       return { cameraEnabled: enabled, streamStatuses: enabled ? state.streamStatuses : {} };
     }),
 
-  addCamera: (camera) =>
-    set((state) => {
-      const cameras = [...state.cameras, camera];
-      saveLocalCache({ cameraEnabled: state.cameraEnabled, cameras });
-      return { cameras };
-    }),
-
-  updateCamera: (id, updates) =>
-    set((state) => {
-      const cameras = state.cameras.map((c) => c.id === id ? { ...c, ...updates } : c);
-      saveLocalCache({ cameraEnabled: state.cameraEnabled, cameras });
-      return { cameras };
-    }),
-
-  removeCamera: (id) =>
-    set((state) => {
-      const cameras = state.cameras.filter((c) => c.id !== id);
-      const { [id]: _, ...streamStatuses } = state.streamStatuses;
-      saveLocalCache({ cameraEnabled: state.cameraEnabled, cameras });
-      return { cameras, streamStatuses };
-    }),
-
   setStreamStatus: (cameraId, status) =>
     set((state) => ({ streamStatuses: { ...state.streamStatuses, [cameraId]: status } })),
 
-  // 서버 DB → store 동기화 (인증 후 호출)
+  // 서버 → store 동기화 (인증 후 호출)
   loadFromServer: async () => {
     try {
-      const res = await cameraServerApi.getConfigs();
-      if (res.success && Array.isArray(res.data) && res.data.length > 0) {
-        // 서버는 비밀번호를 마스킹해서 내려줌
-        // 기존 로컬 패스워드 유지 (마스킹된 값으로 덮어쓰기 방지)
-        const localCameras = get().cameras;
-        const serverCameras = (res.data as CameraConfig[]).map((serverCam) => {
-          const local = localCameras.find((l) => l.id === serverCam.id);
-          return {
-            ...serverCam,
-            // 서버에서 마스킹 반환 시 로컬 패스워드 유지
-            password: serverCam.password.includes('●') ? (local?.password ?? '') : serverCam.password,
-          };
-        });
-        set({ cameras: serverCameras, cameraEnabled: serverCameras.some((c) => c.enabled) });
-        saveLocalCache({ cameraEnabled: get().cameraEnabled, cameras: serverCameras });
-        console.log(`[CameraStore] Loaded ${serverCameras.length} cameras from server`);
+      const res = await cameraApi.getAll();
+      if (res.success && Array.isArray(res.data)) {
+        const cameras = res.data;
+        const cameraEnabled = cameras.length > 0 ? cameras.some((c) => c.enabled) : get().cameraEnabled;
+        set({ cameras, cameraEnabled });
+        saveLocalCache({ cameraEnabled });
+        console.log(`[CameraStore] Loaded ${cameras.length} cameras from server`);
       }
     } catch {
-      console.warn('[CameraStore] Server load failed, using local cache');
+      console.warn('[CameraStore] Server load failed');
     }
   },
 
-  // store → 서버 DB 동기화 (설정 저장 시 호출)
-  syncToServer: async () => {
-    try {
-      const { cameras } = get();
-      // base64 패스워드 → 평문으로 변환 후 서버 전송
-      const toSync = cameras.map((c) => ({
-        ...c,
-        password: c.password
-          ? (() => { try { return atob(c.password); } catch { return c.password; } })()
-          : '',
-      }));
-      await cameraServerApi.saveConfigs(toSync);
-    } catch {
-      console.warn('[CameraStore] syncToServer failed');
-    }
+  createCamera: async (input) => {
+    const res = await cameraApi.create(input);
+    if (!res.success || !res.data) return res.error?.message ?? '카메라 등록 실패';
+    const camera = res.data;
+    set((state) => ({ cameras: [...state.cameras, camera] }));
+    return null;
+  },
+
+  updateCamera: async (id, input) => {
+    const res = await cameraApi.update(id, input);
+    if (!res.success || !res.data) return res.error?.message ?? '카메라 저장 실패';
+    const camera = res.data;
+    set((state) => ({ cameras: state.cameras.map((c) => (c.id === id ? camera : c)) }));
+    return null;
   },
+
+  deleteCamera: async (id) => {
+    const res = await cameraApi.delete(id);
+    if (!res.success) return res.error?.message ?? '카메라 삭제 실패';
+    set((state) => {
+      const { [id]: _, ...streamStatuses } = state.streamStatuses;
+      return { cameras: state.cameras.filter((c) => c.id !== id), streamStatuses };
+    });
+    return null;
+  },
+
+  applyHealth: (event) =>
+    set((state) => ({
+      cameras: state.cameras.map((c) =>
+        c.id === event.cameraId
+          ? {
+              ...c,
+              health: {
+                status: event.status,
+                latencyMs: event.latencyMs,
+                error: event.error,
+                checkedAt: event.checkedAt,
+                lastOnlineAt: event.status === 'ONLINE' ? event.checkedAt : c.health.lastOnlineAt,
+              },
+            }
+          : c
+      ),
+    })),
 }));
 
 // ── Selectors
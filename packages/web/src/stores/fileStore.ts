@@ -1,13 +1,13 @@
 // File Store - 파일 관리 시스템 Zustand 스토어
 
 import { create } from 'zustand';
-import { fileApi } from '../lib/api';
+import { fileApi, ProgramInfo, ProgramRoot, TransferJobInfo, TransferOptions } from '../lib/api';
 
 // ── 설정값 ──
 export const TRANSFER_HISTORY_MAX = 100; // 전송 이력 최대 보관 개수 (FIFO)
 
 // ── 논리 경로 타입 ──
-export type LogicalRootType = 'SCHEDULER_REPO' | 'TRANSFER_SHARE' | 'CNC_LOCAL';
+export type LogicalRootType = 'SCHEDULER_REPO' | 'TRANSFER_SHARE' | 'LIBRARY' | 'CNC_LOCAL';
 
 export interface FileEntry {
   name: string;           // 파일명 (O0001.nc)
@@ -16,22 +16,15 @@ export interface FileEntry {
   modifiedAt: string;     // ISO
   programNo?: string;     // O번호 추출 (NC 파일)
   comment?: string;       // NC 프로그램 코멘트 (괄호 안 텍스트, CNC 파일만)
+  program?: ProgramInfo;  // 저장소 등록 정보 (리비전 / 상태, 미등록 파일은 없음)
 }
 
 // ── 트랜스퍼 작업 ──
 export type TransferDirection = 'PC_TO_CNC' | 'CNC_TO_PC';
 export type ConflictPolicy = 'OVERWRITE' | 'RENAME' | 'SKIP';
 
-export interface TransferJob {
-  id: string;
-  fileName: string;
-  direction: TransferDirection;
-  status: 'PENDING' | 'TRANSFERRING' | 'DONE' | 'ERROR';
-  progress: number;       // 0~100
-  error?: string;
-  startedAt: string;      // ISO - 작업 시각
-  userName: string;       // 작업자 명
-}
+// 서버 TransferJob (QUEUED → SENDING → ACKNOWLEDGED → VERIFIED / FAILED)
+export type TransferJob = TransferJobInfo;
 
 // ── 뷰어 상태 ──
 export interface ViewerState {
@@ -42,6 +35,8 @@ export interface ViewerState {
   dirty: boolean;
   sourceRoot: LogicalRootType;
   machineId?: string;
+  pathKey?: string;               // SCHEDULER_REPO 경로, LIBRARY 제품 코드
+  program?: ProgramInfo | null;   // 저장소 등록 정보 (null = 미등록)
 }
 
 interface FileState {
@@ -74,15 +69,22 @@ interface FileState {
   setSelectedCncFiles: (names: string[]) => void;
   uploadToShare: (fileName: string, size: number) => void;
   deleteFromShare: (fileNames: string[]) => void;
-  startTransfer: (direction: TransferDirection, fileNames: string[], machineId: string, userName: string) => void;
-  completeTransfer: (jobId: string) => void;
+  /** 실패 시 오류 메시지 반환 */
+  startTransfer: (direction: TransferDirection, fileNames: string[], machineId: string, options?: TransferOptions) => Promise<string | null>;
+  loadTransferJobs: (machineId?: string) => Promise<void>;
+  applyTransferJob: (job: TransferJob) => void;
+  retryTransfer: (jobId: string) => Promise<string | null>;
   clearCompletedTransfers: () => void;
 
   // Actions - 뷰어
   openViewer: (fileName: string, content: string, readOnly: boolean, sourceRoot: LogicalRootType, machineId?: string) => void;
+  /** 서버 파일 열기 (share / repo / library) — 실패 시 오류 메시지 반환 */
+  openFile: (fileName: string, sourceRoot: ProgramRoot, readOnly: boolean, machineId?: string, pathKey?: string) => Promise<string | null>;
   closeViewer: () => void;
   updateViewerContent: (content: string) => void;
-  saveViewerContent: () => Promise<void>;
+  /** 저장 (message: 리비전 변경 메모) — 실패 시 오류 메시지 반환 */
+  saveViewerContent: (message?: string) => Promise<string | null>;
+  setViewerProgram: (program: ProgramInfo | null, content?: string) => void;
 }
 
 // G-Code 내용 미리보기 플레이스홀더
@@ -241,111 +243,55 @@ export const useFileStore = create<FileState>((set, get) => ({
     }));
   },
 
-  startTransfer: (direction, fileNames, machineId, userName) => {
-    const now = new Date().toISOString();
-    const jobs: TransferJob[] = fileNames.map((fileName) => ({
-      id: `transfer-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
-      fileName,
-      direction,
-      status: 'PENDING' as const,
-      progress: 0,
-      startedAt: now,
-      userName,
-    }));
-
+  startTransfer: async (direction, fileNames, machineId, options) => {
     set((state) => ({
-      transferQueue: enforceHistoryMax([...state.transferQueue, ...jobs]),
       selectedShareFiles: direction === 'PC_TO_CNC' ? [] : state.selectedShareFiles,
       selectedCncFiles: direction === 'CNC_TO_PC' ? [] : state.selectedCncFiles,
     }));
 
-    // Set all to TRANSFERRING
-    set((state) => ({
-      transferQueue: state.transferQueue.map((j) =>
-        jobs.some((jb) => jb.id === j.id) ? { ...j, status: 'TRANSFERRING', progress: 30 } : j
-      ),
-    }));
+    // 서버가 파일별 전송 작업 생성 — 이후 상태는 WS 'transfer_job' 으로 갱신
+    try {
+      const res = await fileApi.transfer(machineId, direction, fileNames, 'OVERWRITE', options);
+      if (!res.success || !res.data) return res.error?.message ?? '전송 요청 실패';
+      res.data.jobs.forEach((job) => get().applyTransferJob(job));
+      return null;
+    } catch {
+      return '서버에 연결할 수 없습니다';
+    }
+  },
 
-    // Try real API
-    void fileApi
-      .transfer(machineId, direction, fileNames, 'OVERWRITE')
-      .then((res) => {
-        if (res.success) {
-          if (direction === 'PC_TO_CNC') {
-            // PC→CNC: 서버가 Agent에 전송 명령을 보낸 시점 = 완료로 처리
-            set((state) => ({
-              transferQueue: state.transferQueue.map((j) =>
-                jobs.some((jb) => jb.id === j.id) ? { ...j, status: 'DONE', progress: 100 } : j
-              ),
-            }));
-          }
-          // CNC→PC: 서버가 Agent에 다운로드 명령을 보낸 상태 (TRANSFERRING 유지)
-          // file_downloaded WS 이벤트를 받으면 machineStore에서 DONE 처리
-        } else {
-          throw new Error('transfer failed');
-        }
-      })
-      .catch(() => {
-        // API 실패 시 Mock 시뮬레이션 fallback
-        jobs.forEach((job, idx) => {
-          const delay = idx * 1500;
-
-          setTimeout(() => {
-            set((state) => ({
-              transferQueue: state.transferQueue.map((j) =>
-                j.id === job.id ? { ...j, progress: 70 } : j
-              ),
-            }));
-          }, delay + 500);
-
-          setTimeout(() => {
-            set((state) => ({
-              transferQueue: state.transferQueue.map((j) =>
-                j.id === job.id ? { ...j, status: 'DONE', progress: 100 } : j
-              ),
-            }));
-
-            // PC→CNC: CNC 목록에 파일 추가 (Mock)
-            if (direction === 'PC_TO_CNC') {
-              const shareFile = get().shareFiles.find((f) => f.name === job.fileName);
-              if (shareFile) {
-                set((state) => ({
-                  cncFiles: [...state.cncFiles.filter((f) => f.name !== shareFile.programNo), {
-                    ...shareFile,
-                    name: shareFile.programNo || shareFile.name.replace('.nc', ''),
-                  }],
-                }));
-              }
-            }
-            // CNC→PC: Share 목록에 파일 추가 (Mock)
-            if (direction === 'CNC_TO_PC') {
-              const cncFile = get().cncFiles.find((f) => f.name === job.fileName);
-              if (cncFile) {
-                const pcName = `${cncFile.name}.nc`;
-                set((state) => ({
-                  shareFiles: [...state.shareFiles.filter((f) => f.name !== pcName), {
-                    ...cncFile,
-                    name: pcName,
-                  }],
-                }));
-              }
-            }
-          }, delay + 1000);
-        });
-      });
+  loadTransferJobs: async (machineId) => {
+    try {
+      const res = await fileApi.listTransferJobs(machineId, TRANSFER_HISTORY_MAX);
+      if (res.success && Array.isArray(res.data)) {
+        set({ transferQueue: [...res.data].reverse() });
+      }
+    } catch (err) {
+      console.error('loadTransferJobs failed:', err);
+    }
   },
 
-  completeTransfer: (jobId) => {
-    set((state) => ({
-      transferQueue: state.transferQueue.map((j) =>
-        j.id === jobId ? { ...j, status: 'DONE', progress: 100 } : j
-      ),
-    }));
+  applyTransferJob: (job) => {
+    set((state) => {
+      const exists = state.transferQueue.some((j) => j.id === job.id);
+      return {
+        transferQueue: exists
+          ? state.transferQueue.map((j) => (j.id === job.id ? job : j))
+          : enforceHistoryMax([...state.transferQueue, job]),
+      };
+    });
+  },
+
+  retryTransfer: async (jobId) => {
+    const res = await fileApi.retryTransferJob(jobId);
+    if (!res.success || !res.data) return res.error?.message ?? '재시도 실패';
+    get().applyTransferJob(res.data);
+    return null;
   },
 
   clearCompletedTransfers: () => {
     set((state) => ({
-      transferQueue: state.transferQueue.filter((j) => j.status !== 'DONE' && j.status !== 'ERROR'),
+      transferQueue: state.transferQueue.filter((j) => j.status !== 'VERIFIED' && j.status !== 'MISMATCHED' && j.status !== 'FAILED'),
     }));
   },
 
@@ -365,6 +311,20 @@ export const useFileStore = create<FileState>((set, get) => ({
     });
   },
 
+  openFile: async (fileName, sourceRoot, readOnly, machineId, pathKey) => {
+    get().openViewer(fileName, '', readOnly, sourceRoot, machineId);
+    set((state) => ({ viewer: { ...state.viewer, pathKey, program: undefined } }));
+    try {
+      const res = await fileApi.readFile(sourceRoot, machineId ?? '', fileName, pathKey);
+      if (!res.success || !res.data) return res.error?.message ?? '파일을 읽을 수 없습니다';
+      const { content, program } = res.data;
+      set((state) => ({ viewer: { ...state.viewer, content, program, dirty: false } }));
+      return null;
+    } catch {
+      return '서버에 연결할 수 없습니다';
+    }
+  },
+
   closeViewer: () => {
     set({
       viewer: {
@@ -384,16 +344,27 @@ export const useFileStore = create<FileState>((set, get) => ({
     }));
   },
 
-  saveViewerContent: async () => {
+  saveViewerContent: async (message) => {
     const { viewer } = get();
-    if (!viewer.isOpen || !viewer.fileName || !viewer.dirty) return;
+    if (!viewer.isOpen || !viewer.fileName || !viewer.dirty) return null;
     try {
       const root = viewer.sourceRoot;
       const machineId = viewer.machineId || '';
-      await fileApi.writeFile(root, machineId, viewer.fileName, viewer.content);
-    } catch { /* ignore — content already in state */ }
+      const res = await fileApi.writeFile(root, machineId, viewer.fileName, viewer.content, viewer.pathKey, message);
+      if (!res.success || !res.data) return res.error?.message ?? '저장 실패';
+      const program = res.data.program;
+      set((state) => ({
+        viewer: { ...state.viewer, dirty: false, program },
+      }));
+      return null;
+    } catch {
+      return '서버에 연결할 수 없습니다';
+    }
+  },
+
+  setViewerProgram: (program, content) => {
     set((state) => ({
-      viewer: { ...state.viewer, dirty: false },
+      viewer: { ...state.viewer, program, ...(content !== undefined && { content, dirty: false }) },
     }));
   },
 }));
@@ -2,9 +2,10 @@
 
 import { create } from 'zustand';
 import { wsClient } from '../lib/wsClient';
-import { machineApi } from '../lib/api';
+import { machineApi, CameraStatusEvent, TransferJobInfo } from '../lib/api';
 import { useAuthStore } from './authStore';
 import { useFileStore } from './fileStore';
+import { useCameraStore } from './cameraStore';
 
 // Path 좌표 데이터 (CNC 자동선반 Path1/Path2)
 export interface PathCoordinates {
@@ -72,7 +73,8 @@ export type FocasEventType =
   | 'INTERLOCK_FAIL'         // 인터락 불만족
   | 'ONE_CYCLE_STOP_ON'      // 원사이클 스톱 ON
   | 'ONE_CYCLE_STOP_OFF'     // 원사이클 스톱 OFF
-  | 'HEAD_ON';               // 헤드 ON
+  | 'HEAD_ON'                // 헤드 ON
+  | 'SPC_VIOLATION';         // SPC 관리도 이상
 
 // FOCAS 이벤트 로그
 export interface FocasEvent {
@@ -228,6 +230,7 @@ export interface SchedulerRow {
   lastErrorCode?: string;
   lastErrorAt?: string;
   createdBy?: string;
+  workOrderId?: string;   // 작업지시 배포로 생성된 행
   startedAt?: string;
   completedAt?: string;
   createdAt?: string;
@@ -839,22 +842,6 @@ export const useMachineStore = create<MachineState>((set, get) => ({
                 timestamp: msg.timestamp,
               });
             }
-            // CNC→PC 전송 실패 처리: correlationId = "xfer-{ts}-{fileName}"
-            if (p?.status === 'failure' && p.correlationId?.startsWith('xfer-')) {
-              const parts = p.correlationId.split('-');
-              const fileName = parts.slice(2).join('-'); // "xfer-ts-O0170" → "O0170"
-              const errMsg = p.errorCode === 'CNC_NOT_IN_EDIT_MODE'
-                ? 'CNC를 EDIT 모드로 전환하세요'
-                : (p.errorMessage ?? p.errorCode ?? '전송 실패');
-              useFileStore.setState((fs) => ({
-                transferQueue: fs.transferQueue.map((j) => {
-                  if (j.direction !== 'CNC_TO_PC' || j.status === 'DONE' || j.status === 'ERROR') return j;
-                  const jBase = j.fileName.replace(/\.nc$/i, '');
-                  const eBase = fileName.replace(/\.nc$/i, '');
-                  return jBase === eBase ? { ...j, status: 'ERROR' as const, error: errMsg } : j;
-                }),
-              }));
-            }
             break;
           }
           case 'scheduler_update': {
@@ -907,23 +894,36 @@ export const useMachineStore = create<MachineState>((set, get) => ({
             }
             break;
           }
+          case 'camera_status': {
+            // 카메라 상태 점검 결과 (전체 브로드캐스트)
+            const p = msg.payload as CameraStatusEvent;
+            if (p?.cameraId) useCameraStore.getState().applyHealth(p);
+            break;
+          }
           case 'file_downloaded': {
-            // CNC→PC 파일 저장 완료 — PC 공용 저장소 목록 갱신 + 전송 큐 완료 처리
-            const fdPayload = msg.payload as { machineId?: string; fileName?: string };
-            const fdFileName = fdPayload?.fileName ?? '';
-            const fileStore = useFileStore.getState();
-            // share 목록 즉시 새로고침
-            void fileStore.loadShareFiles();
-            // 전송 큐에서 해당 파일 DONE 처리 (CNC_TO_PC 방향, TRANSFERRING 상태)
-            useFileStore.setState((fs) => ({
-              transferQueue: fs.transferQueue.map((j) => {
-                if (j.direction !== 'CNC_TO_PC' || j.status === 'DONE' || j.status === 'ERROR') return j;
-                // fileName 비교: "O0170" vs "O0170.nc" 등 확장자 무시
-                const jBase = j.fileName.replace(/\.nc$/i, '');
-                const eBase = fdFileName.replace(/\.nc$/i, '');
-                return jBase === eBase ? { ...j, status: 'DONE' as const, progress: 100 } : j;
-              }),
-            }));
+            // CNC→PC 파일 저장 완료 — PC 공용 저장소 목록 갱신 (전송 큐는 'transfer_job')
+            void useFileStore.getState().loadShareFiles();
+            break;
+          }
+          case 'spc_violation': {
+            // SPC 관리도 Western Electric 규칙 위반 (측정 기록 시 판정)
+            const p = msg.payload as { machineId: string; violationIds: string[]; message: string };
+            if (p?.machineId) {
+              store.addFocasEvent(p.machineId, {
+                id: `spc-${p.violationIds?.[0] ?? Date.now()}`,
+                machineId: p.machineId,
+                type: 'SPC_VIOLATION',
+                message: p.message,
+                level: 'warn',
+                timestamp: msg.timestamp,
+              });
+            }
+            break;
+          }
+          case 'transfer_job': {
+            // 전송 작업 상태 변경 (QUEUED → SENDING → ACKNOWLEDGED → VERIFIED / FAILED)
+            const p = msg.payload as TransferJobInfo;
+            if (p?.id) useFileStore.getState().applyTransferJob(p);
             break;
           }
           default:
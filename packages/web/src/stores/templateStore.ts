@@ -188,9 +188,21 @@ export interface PanelGroup {
 
 // ── Section 10: Offset / Counter / Tool-Life Config ───────
 
+export type OffsetAxisKey = 'X' | 'Y' | 'Z' | 'R';
+
+// 오프셋 쓰기 안전 한계 (mm, 미지정 = 제한 없음) — 초과 시 서버가 한계 초과 승인 요구
+export interface OffsetAxisLimit {
+  maxDelta?: number;   // 1회 변경량 |새 값 - 현재 값| 상한
+  maxAbs?: number;     // 마모 값 |새 값| 상한
+}
+
+export type OffsetAxisLimits = Partial<Record<OffsetAxisKey, OffsetAxisLimit>>;
+
 export interface OffsetConfig {
   toolCount: number;   // 최대 공구 수 (기본 64)
   pageSize: number;    // 페이지당 표시 수 (기본 16)
+  limits?: OffsetAxisLimits;                       // 축별 안전 한계
+  toolLimits?: Record<string, OffsetAxisLimits>;   // 공구 번호("1" ~ "64")별 덮어쓰기
 }
 
 export interface CounterField {